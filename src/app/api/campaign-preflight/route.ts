@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkRateLimit } from '@/lib/redis';
+import { probeImages } from '@/lib/images/safeFetch';
+import { CampaignPreflightSchema, validateRequest } from '@/lib/validations';
+import { getAuthenticatedSupabase } from '@/lib/supabaseServer';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+// Images probed at once per request - each probe reads at most 64KB
+const PROBE_CONCURRENCY = 6;
+// Requests per user per minute (a 5,000-row CSV is 100 requests)
+const RATE_LIMIT_PER_MINUTE = 120;
+
+// Debug logging
+const DEBUG = process.env.NODE_ENV === 'development';
+const log = (...args: unknown[]) => DEBUG && console.log(...args);
+
+// POST: Check a chunk of a campaign's image URLs before launch
+export async function POST(request: NextRequest) {
+    try {
+        const supabase = await getAuthenticatedSupabase();
+        if (!supabase) {
+            return NextResponse.json({ error: 'Server configuration error' }, { status: 503 });
+        }
+
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        if (!await checkRateLimit(`preflight:${user.id}`, RATE_LIMIT_PER_MINUTE, 60)) {
+            return NextResponse.json({ error: 'Too many pre-flight requests, try again in a minute' }, { status: 429 });
+        }
+
+        const body = await request.json().catch(() => null);
+        const validation = validateRequest(CampaignPreflightSchema, body);
+        if (!validation.success) {
+            return NextResponse.json({ error: validation.error }, { status: 400 });
+        }
+
+        const results = await probeImages(validation.data.urls, { concurrency: PROBE_CONCURRENCY });
+        log(`[api/campaign-preflight] Checked ${results.length} images, ${results.filter(r => r.error).length} failed`);
+
+        return NextResponse.json({ success: true, data: results });
+    } catch (error) {
+        console.error('[api/campaign-preflight] POST error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
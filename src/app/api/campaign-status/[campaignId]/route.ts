@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient, getAuthenticatedSupabase } from '@/lib/supabaseServer';
+import { getWorkspaceRole } from '@/lib/db/workspaces';
+import { canEditWorkspace } from '@/lib/auth/workspaceRoles';
+import { UpdateCampaignStatusSchema, validateRequest } from '@/lib/validations';
+import { emitCampaignEvent } from '@/lib/webhooks/emit';
+import { queueAutoPublishIfCompleted } from '@/lib/pinterest/publish';
+
+export const dynamic = 'force-dynamic';
+
+// Debug logging
+const DEBUG = process.env.NODE_ENV === 'development';
+const log = (...args: unknown[]) => DEBUG && console.log(...args);
+
+/**
+ * POST /api/campaign-status/[campaignId]
+ *
+ * Records a status transition reported by the generation UI (start, pause,
+ * resume, finish) and emits the matching campaign webhook event.
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ campaignId: string }> }
+) {
+    try {
+        const { campaignId } = await params;
+
+        const supabase = await getAuthenticatedSupabase();
+        if (!supabase) {
+            return NextResponse.json({ error: 'Server configuration error' }, { status: 503 });
+        }
+
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const validation = validateRequest(UpdateCampaignStatusSchema, await request.json());
+        if (!validation.success) {
+            return NextResponse.json(
+                { error: 'Validation failed', details: validation.error },
+                { status: 400 }
+            );
+        }
+
+        const { status } = validation.data;
+        const now = new Date().toISOString();
+        const updateData: Record<string, unknown> = { status, updated_at: now };
+        if (status === 'paused') {
+            updateData.paused_at = now;
+        } else if (status === 'completed') {
+            updateData.completed_at = now;
+        }
+
+        // Service role for the write, scoped to campaigns the caller can edit
+        const serviceClient = createServiceRoleClient();
+        const { data: previous } = await serviceClient
+            .from('campaigns')
+            .select('status, workspace_id')
+            .eq('id', campaignId)
+            .maybeSingle();
+
+        if (!previous || !canEditWorkspace(await getWorkspaceRole(previous.workspace_id, user.id, serviceClient))) {
+            return NextResponse.json({ error: 'Campaign not found' }, { status: 404 });
+        }
+
+        const { error: updateError } = await serviceClient
+            .from('campaigns')
+            .update(updateData)
+            .eq('id', campaignId);
+
+        if (updateError) {
+            console.error('[campaign-status] Update error:', updateError);
+            return NextResponse.json({ error: 'Failed to update campaign status' }, { status: 500 });
+        }
+
+        log('[campaign-status]', campaignId, previous.status, '->', status);
+
+        // The UI reports 'processing' once per start/resume, in both client and server mode
+        if (status === 'processing') {
+            await emitCampaignEvent(serviceClient, campaignId, 'campaign.started', {
+                resumed: previous.status === 'paused',
+            });
+        } else if (status === 'paused') {
+            await emitCampaignEvent(serviceClient, campaignId, 'campaign.paused');
+        } else if (status === 'completed') {
+            await emitCampaignEvent(serviceClient, campaignId, 'campaign.completed');
+            await queueAutoPublishIfCompleted(serviceClient, campaignId);
+        }
+
+        return NextResponse.json({ success: true, status });
+    } catch (error) {
+        console.error('[campaign-status] POST error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { inngest } from '@/inngest/client';
+import { createServiceRoleClient, getAuthenticatedSupabase } from '@/lib/supabaseServer';
+import { getWorkspaceRole } from '@/lib/db/workspaces';
+import { canEditWorkspace } from '@/lib/auth/workspaceRoles';
+import { checkRateLimit } from '@/lib/redis';
+import { CampaignDataSourceSchema, validateRequest } from '@/lib/validations';
+import { SyncCampaignSourceEventData } from '@/lib/campaigns/dataSync';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/campaign-sync/[campaignId]
+ *
+ * "Sync now": queues a re-fetch of the campaign's data source. The change
+ * summary is written to the campaign when the sync has run.
+ */
+export async function POST(
+    _request: NextRequest,
+    { params }: { params: Promise<{ campaignId: string }> }
+) {
+    try {
+        const { campaignId } = await params;
+
+        const supabase = await getAuthenticatedSupabase();
+        if (!supabase) {
+            return NextResponse.json({ error: 'Server configuration error' }, { status: 503 });
+        }
+
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const serviceClient = createServiceRoleClient();
+        const { data: campaign } = await serviceClient
+            .from('campaigns')
+            .select('id, status, data_source, workspace_id')
+            .eq('id', campaignId)
+            .maybeSingle();
+
+        if (!campaign || !canEditWorkspace(await getWorkspaceRole(campaign.workspace_id, user.id, serviceClient))) {
+            return NextResponse.json({ error: 'Campaign not found' }, { status: 404 });
+        }
+        if (!campaign.data_source) {
+            return NextResponse.json({ error: 'Campaign has no data source to sync' }, { status: 400 });
+        }
+        if (campaign.status === 'processing') {
+            return NextResponse.json({ error: 'Wait for the campaign to finish rendering before syncing' }, { status: 409 });
+        }
+
+        const allowed = await checkRateLimit(`campaign-sync:${campaignId}`, 20, 3600);
+        if (!allowed) {
+            return NextResponse.json({ error: 'Too many syncs. Please wait before syncing again.' }, { status: 429 });
+        }
+
+        await inngest.send({
+            name: 'campaign/sync.requested',
+            data: { campaignId } satisfies SyncCampaignSourceEventData,
+        });
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('[campaign-sync] POST error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+/**
+ * PUT /api/campaign-sync/[campaignId]
+ *
+ * Binds the campaign to a data source (URL, key column, schedule) or, with
+ * a null data_source, unbinds it. Existing pins are untouched until the
+ * next sync.
+ */
+export async function PUT(
+    request: NextRequest,
+    { params }: { params: Promise<{ campaignId: string }> }
+) {
+    try {
+        const { campaignId } = await params;
+
+        const supabase = await getAuthenticatedSupabase();
+        if (!supabase) {
+            return NextResponse.json({ error: 'Server configuration error' }, { status: 503 });
+        }
+
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const validation = validateRequest(CampaignDataSourceSchema, await request.json());
+        if (!validation.success) {
+            return NextResponse.json(
+                { error: 'Validation failed', details: validation.error },
+                { status: 400 }
+            );
+        }
+
+        const { data_source } = validation.data;
+
+        // Service role for the write, scoped to campaigns the caller can edit
+        const serviceClient = createServiceRoleClient();
+        const { data: existing } = await serviceClient
+            .from('campaigns')
+            .select('workspace_id')
+            .eq('id', campaignId)
+            .maybeSingle();
+
+        if (!existing || !canEditWorkspace(await getWorkspaceRole(existing.workspace_id, user.id, serviceClient))) {
+            return NextResponse.json({ error: 'Campaign not found' }, { status: 404 });
+        }
+
+        const { data: campaign, error: updateError } = await serviceClient
+            .from('campaigns')
+            .update({ data_source, updated_at: new Date().toISOString() })
+            .eq('id', campaignId)
+            .select('data_source')
+            .maybeSingle();
+
+        if (updateError) {
+            console.error('[campaign-sync] Update error:', updateError);
+            return NextResponse.json({ error: 'Failed to save data source' }, { status: 500 });
+        }
+        if (!campaign) {
+            return NextResponse.json({ error: 'Campaign not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true, data: campaign });
+    } catch (error) {
+        console.error('[campaign-sync] PUT error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
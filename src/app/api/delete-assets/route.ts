@@ -4,10 +4,9 @@
 // SECURITY: Uses authenticated session to verify user ownership
 
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
-import { cookies, headers } from 'next/headers';
-import { deleteFromS3, getThumbnailKey, getCampaignPinsPrefix, isTebiConfigured } from '@/lib/s3';
+import { deleteFromS3, getThumbnailKey, getTemplateVersionsPrefix, getCampaignPinsPrefix, isTebiConfigured } from '@/lib/s3';
 import { S3Client, ListObjectsV2Command, DeleteObjectsCommand } from '@aws-sdk/client-s3';
+import { getAuthenticatedSupabase } from '@/lib/supabaseServer';
 
 interface DeleteAssetsRequest {
     type: 'thumbnail' | 'campaign';
@@ -15,43 +14,6 @@ interface DeleteAssetsRequest {
     campaignId?: string;  // Required for campaign
 }
 
-// SECURITY: Get authenticated Supabase client using auth header OR cookies
-async function getAuthenticatedSupabase() {
-    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-    const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
-
-    if (!supabaseUrl || !supabaseAnonKey) {
-        return null;
-    }
-
-    // Get auth token from cookies or Authorization header
-    const cookieStore = await cookies();
-    const headersStore = await headers();
-    
-    // Check for Authorization header (Bearer token)
-    const authHeader = headersStore.get('authorization');
-    
-    const options: any = {
-        global: {
-            headers: {}
-        }
-    };
-
-    if (authHeader) {
-        // Use explicitly provided token
-        options.global.headers['Authorization'] = authHeader;
-    } else {
-        // Fallback to cookies
-        const allCookies = cookieStore.getAll();
-        
-        if (allCookies.length > 0) {
-             options.global.headers['Cookie'] = allCookies.map(c => `${c.name}=${c.value}`).join('; ');
-        }
-    }
-
-    return createClient(supabaseUrl, supabaseAnonKey, options);
-}
-
 // Helper to create S3 client for batch operations
 const createS3Client = (): S3Client | null => {
     const accessKey = process.env.TEBI_ACCESS_KEY;
@@ -166,6 +128,10 @@ export async function DELETE(request: NextRequest) {
                 }
                 const thumbnailKey = getThumbnailKey(userId, templateId);
                 success = await deleteFromS3(thumbnailKey);
+                // Version history thumbnails go with the template
+                if (success) {
+                    success = await deleteObjectsWithPrefix(getTemplateVersionsPrefix(userId, templateId));
+                }
                 break;
 
             case 'campaign':
@@ -1,11 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { DataSourceFormat, detectDataSourceFormat, parseDataSource } from '@/lib/utils/dataSourceParser';
+import { MAX_DATA_FILE_SIZE } from '@/lib/utils/csvParser';
+import { ImageFetchError, requestSafely, SafeResponse } from '@/lib/images/safeFetch';
+
+const FORMATS: DataSourceFormat[] = ['csv', 'xlsx', 'json'];
+const FETCH_TIMEOUT_MS = 30000;
 
 /**
- * API route to fetch CSV from URL (bypasses CORS)
+ * API route to fetch CSV, Excel (.xlsx) or JSON data from URL (bypasses CORS)
+ * The URL is user-supplied: private addresses are refused on every redirect
+ * hop and the download stops at MAX_DATA_FILE_SIZE, like file uploads.
  */
 export async function POST(request: NextRequest) {
     try {
-        const { url, originalUrl, urlType } = await request.json();
+        const { url, originalUrl, urlType, format, sheet, jsonPath } = await request.json();
 
         if (!url) {
             return NextResponse.json(
@@ -17,109 +25,103 @@ export async function POST(request: NextRequest) {
         console.log('[fetch-csv] Fetching from:', url);
         console.log('[fetch-csv] URL type:', urlType);
 
-        // Fetch with timeout
-        const controller = new AbortController();
-        const timeout = setTimeout(() => controller.abort(), 30000);
-
-        let response: Response;
+        let response: SafeResponse;
         try {
-            response = await fetch(url, {
-                signal: controller.signal,
+            response = await requestSafely(url, {
                 headers: {
-                    'Accept': 'text/csv, text/plain, application/csv, */*',
+                    'Accept': 'text/csv, text/plain, application/csv, application/json, application/vnd.openxmlformats-officedocument.spreadsheetml.sheet, */*',
                     'User-Agent': 'PinterestPinGenerator/1.0',
                 },
-                redirect: 'follow',
+                maxBytes: MAX_DATA_FILE_SIZE,
+                timeoutMs: FETCH_TIMEOUT_MS,
             });
         } catch (fetchError) {
-            clearTimeout(timeout);
-            if (fetchError instanceof Error && fetchError.name === 'AbortError') {
+            if (!(fetchError instanceof ImageFetchError)) throw fetchError;
+            if (fetchError.code === 'timeout') {
                 return NextResponse.json({
                     success: false,
                     error: 'Request timed out after 30 seconds',
                     suggestion: 'The server took too long to respond. Try again or download the file manually.'
                 }, { status: 408 });
             }
-            throw fetchError;
+            if (fetchError.code === 'too_large') {
+                return NextResponse.json({
+                    success: false,
+                    error: 'File size exceeds 5MB limit',
+                    suggestion: 'Split the data into smaller files, or remove columns you don\'t need.'
+                }, { status: 413 });
+            }
+            return NextResponse.json({
+                success: false,
+                error: fetchError.message,
+                suggestion: 'The URL must point to a publicly reachable file.'
+            }, { status: fetchError.status });
         }
 
-        clearTimeout(timeout);
-
         // Handle HTTP errors with helpful messages
         if (!response.ok) {
-            const { error, suggestion } = getErrorWithSuggestion(
-                response.status,
-                response.statusText,
-                originalUrl || url
-            );
-            console.error('[fetch-csv] HTTP error:', response.status, response.statusText);
+            const { error, suggestion } = getErrorWithSuggestion(response.status, originalUrl || url);
+            console.error('[fetch-csv] HTTP error:', response.status);
             return NextResponse.json({ success: false, error, suggestion }, { status: 400 });
         }
 
-        const csvText = await response.text();
-        console.log('[fetch-csv] Received', csvText.length, 'bytes');
-
-        // Check if response is HTML instead of CSV
-        if (csvText.includes('<!DOCTYPE html') || csvText.includes('<html')) {
-            const isGoogleSheets = url.includes('docs.google.com');
-            return NextResponse.json({
-                success: false,
-                error: 'URL returned HTML instead of CSV',
-                suggestion: isGoogleSheets
-                    ? `Please use File → Share → Publish to web in Google Sheets, then select "Comma-separated values (.csv)" format.`
-                    : `Make sure the URL points directly to a CSV file, not a webpage.`
-            }, { status: 400 });
-        }
+        const bytes = new Uint8Array(response.body);
+        console.log('[fetch-csv] Received', bytes.length, 'bytes');
 
         // Check for empty content
-        if (!csvText || csvText.trim().length === 0) {
+        if (bytes.length === 0 || new TextDecoder().decode(bytes.subarray(0, 1024)).trim().length === 0) {
             return NextResponse.json({
                 success: false,
-                error: 'CSV file is empty',
+                error: 'File is empty',
                 suggestion: 'The file exists but contains no data. Check that your spreadsheet has content.'
             }, { status: 400 });
         }
 
-        // Parse CSV
-        const lines = csvText.split(/\r?\n/).filter(line => line.trim() !== '');
+        // An explicit format wins, then the URL's extension, the content type and finally the bytes
+        const sourceFormat: DataSourceFormat = (FORMATS.includes(format) ? format : null)
+            || detectDataSourceFormat({ fileName: new URL(url).pathname, contentType: response.headers['content-type'], bytes })
+            || 'csv';
 
-        if (lines.length === 0) {
+        // Check if response is HTML instead of data
+        const head = new TextDecoder().decode(bytes.subarray(0, 4096));
+        if (sourceFormat !== 'xlsx' && (head.includes('<!DOCTYPE html') || head.includes('<html'))) {
+            const isGoogleSheets = url.includes('docs.google.com');
             return NextResponse.json({
                 success: false,
-                error: 'No data found in CSV',
-                suggestion: 'The file appears to be empty or incorrectly formatted.'
+                error: 'URL returned HTML instead of CSV',
+                suggestion: isGoogleSheets
+                    ? `Please use File → Share → Publish to web in Google Sheets, then select "Comma-separated values (.csv)" format.`
+                    : `Make sure the URL points directly to a CSV, Excel or JSON file, not a webpage.`
             }, { status: 400 });
         }
 
-        // Parse headers
-        const headers = parseCSVRow(lines[0]);
+        const result = await parseDataSource(bytes, sourceFormat, {
+            sheet: typeof sheet === 'string' ? sheet : undefined,
+            jsonPath: typeof jsonPath === 'string' ? jsonPath : undefined,
+        });
 
-        if (headers.length === 0) {
+        if (!result.success) {
             return NextResponse.json({
                 success: false,
-                error: 'No columns found in CSV',
-                suggestion: 'The first row should contain column headers separated by commas.'
+                error: result.error,
+                sheets: result.sheets,
+                format: result.format,
+                suggestion: sourceFormat === 'json'
+                    ? 'Check that the JSONPath points to the array of rows.'
+                    : 'The first row should contain column headers, followed by at least one row of data.'
             }, { status: 400 });
         }
 
-        // Parse data rows
-        const data: Record<string, string>[] = [];
-        for (let i = 1; i < lines.length; i++) {
-            const values = parseCSVRow(lines[i]);
-            const row: Record<string, string> = {};
-            headers.forEach((header, index) => {
-                row[header] = values[index] || '';
-            });
-            data.push(row);
-        }
-
-        console.log('[fetch-csv] Parsed', data.length, 'rows with', headers.length, 'columns');
+        console.log('[fetch-csv] Parsed', result.rowCount, 'rows with', result.headers.length, 'columns from', sourceFormat);
 
         return NextResponse.json({
             success: true,
-            headers,
-            data,
-            rowCount: data.length
+            headers: result.headers,
+            data: result.data,
+            rowCount: result.rowCount,
+            format: result.format,
+            sheets: result.sheets,
+            sheet: result.sheet,
         });
 
     } catch (error) {
@@ -136,7 +138,7 @@ export async function POST(request: NextRequest) {
 /**
  * Get helpful error message with suggestions based on HTTP status
  */
-function getErrorWithSuggestion(status: number, statusText: string, url: string): { error: string; suggestion: string } {
+function getErrorWithSuggestion(status: number, url: string): { error: string; suggestion: string } {
     const isGoogleSheets = url.includes('docs.google.com');
 
     if (status === 404) {
@@ -165,44 +167,8 @@ function getErrorWithSuggestion(status: number, statusText: string, url: string)
     }
 
     return {
-        error: `HTTP ${status}: ${statusText}`,
+        error: `HTTP ${status}`,
         suggestion: `Please check the URL and try again, or download the file and use Upload instead.`
     };
 }
 
-/**
- * Parse a single CSV row, handling quoted fields
- */
-function parseCSVRow(row: string): string[] {
-    const result: string[] = [];
-    let current = '';
-    let inQuotes = false;
-
-    for (let i = 0; i < row.length; i++) {
-        const char = row[i];
-        const nextChar = row[i + 1];
-
-        if (inQuotes) {
-            if (char === '"' && nextChar === '"') {
-                current += '"';
-                i++;
-            } else if (char === '"') {
-                inQuotes = false;
-            } else {
-                current += char;
-            }
-        } else {
-            if (char === '"') {
-                inQuotes = true;
-            } else if (char === ',') {
-                result.push(current.trim());
-                current = '';
-            } else {
-                current += char;
-            }
-        }
-    }
-
-    result.push(current.trim());
-    return result;
-}
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { deleteFontFromBlob } from '@/lib/blob';
 import { supabase, getCurrentUserId } from '@/lib/supabase';
 import { cacheInvalidate } from '@/lib/redis';
+import { getWorkspaceRole } from '@/lib/db/workspaces';
+import { canEditWorkspace } from '@/lib/auth/workspaceRoles';
 
 export const dynamic = 'force-dynamic';
 
@@ -35,7 +37,7 @@ export async function DELETE(
         // Get font metadata first
         const { data: font, error: fetchError } = await supabase
             .from('custom_fonts')
-            .select('file_url, user_id')
+            .select('file_url, workspace_id')
             .eq('id', fontId)
             .single();
 
@@ -46,8 +48,8 @@ export async function DELETE(
             );
         }
 
-        // Security: Ensure user owns this font
-        if (font.user_id !== userId) {
+        // Security: Ensure user can edit the font's workspace
+        if (!canEditWorkspace(await getWorkspaceRole(font.workspace_id, userId, supabase))) {
             return NextResponse.json(
                 { error: 'Unauthorized' },
                 { status: 403 }
@@ -75,8 +77,7 @@ export async function DELETE(
         const { error: deleteError } = await supabase
             .from('custom_fonts')
             .delete()
-            .eq('id', fontId)
-            .eq('user_id', userId);
+            .eq('id', fontId);
 
         if (deleteError) {
             console.error('[Font Delete] DB delete error:', deleteError);
@@ -87,7 +88,7 @@ export async function DELETE(
         }
 
         // Invalidate font cache
-        await cacheInvalidate(`fonts:${userId}`);
+        await cacheInvalidate(`fonts:${font.workspace_id}`);
 
         return NextResponse.json({
             success: true,
@@ -27,6 +27,8 @@ export async function POST(req: NextRequest) {
         const file = formData.get('file') as File | null;
         const family = formData.get('family') as string | null;
         const category = formData.get('category') as string | null;
+        // Workspace to share the font in (defaults to the personal one)
+        const workspaceId = formData.get('workspaceId') as string | null;
 
         if (!file || !family || !category) {
             return NextResponse.json(
@@ -123,6 +125,7 @@ export async function POST(req: NextRequest) {
             .from('custom_fonts')
             .insert({
                 user_id: userId,
+                ...(workspaceId ? { workspace_id: workspaceId } : {}),
                 family,
                 file_url: fileUrl,
                 format: extension,
@@ -141,7 +144,7 @@ export async function POST(req: NextRequest) {
         }
 
         // Invalidate font cache so new font appears immediately
-        await cacheInvalidate(`fonts:${userId}`);
+        await cacheInvalidate(`fonts:${font.workspace_id}`);
 
         return NextResponse.json({
             success: true,
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import { cookies, headers } from 'next/headers';
 import { CreateGeneratedPinSchema, validateRequest } from '@/lib/validations';
+import { emitWebhookEvents, emitCampaignCompletedIfFinished, toPinWebhookEvent } from '@/lib/webhooks/emit';
+import { queueAutoPublishIfCompleted } from '@/lib/pinterest/publish';
+import { getAuthenticatedSupabase } from '@/lib/supabaseServer';
 
 // Debug logging - only in development
 const DEBUG = process.env.NODE_ENV === 'development';
@@ -23,45 +25,6 @@ function getServiceSupabase(): SupabaseClient | null {
     });
 }
 
-// Initialize Supabase client with cookie-based or header-based auth
-async function getAuthenticatedSupabase(): Promise<SupabaseClient | null> {
-    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-    const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
-
-    if (!supabaseUrl || !supabaseAnonKey) {
-        console.error('[generated-pins] Missing Supabase configuration');
-        return null;
-    }
-
-    // Get auth token from cookies or Authorization header
-    const cookieStore = await cookies();
-    const headersStore = await headers();
-    
-    // Check for Authorization header (Bearer token)
-    const authHeader = headersStore.get('authorization');
-    
-    const options: any = {
-        global: {
-            headers: {}
-        }
-    };
-
-    if (authHeader) {
-        // Use explicitly provided token
-        options.global.headers['Authorization'] = authHeader;
-    } else {
-        // Fallback to cookies
-        const allCookies = cookieStore.getAll();
-        
-        if (allCookies.length > 0) {
-             options.global.headers['Cookie'] = allCookies.map(c => `${c.name}=${c.value}`).join('; ');
-        }
-    }
-
-    // Create client
-    return createClient(supabaseUrl, supabaseAnonKey, options);
-}
-
 // ============================================
 // POST: Save generated pin record
 // Uses SERVICE ROLE KEY to bypass cookie auth issues on Vercel
@@ -196,6 +159,11 @@ export async function POST(request: NextRequest) {
             console.warn('[generated-pins] Campaign update warning:', updateErr);
         }
 
+        // 6. Notify webhook endpoints
+        await emitWebhookEvents(supabase, user_id, [toPinWebhookEvent(data)]);
+        await emitCampaignCompletedIfFinished(supabase, campaign_id);
+        await queueAutoPublishIfCompleted(supabase, campaign_id);
+
         return NextResponse.json({ success: true, data }, { status: 201 });
     } catch (error) {
         console.error('[generated-pins] POST error:', error);
@@ -301,6 +269,14 @@ export async function PATCH(request: NextRequest) {
             } catch (updateErr) {
                 console.warn('[generated-pins] Campaign batch update warning:', updateErr);
             }
+
+            // Notify webhook endpoints
+            const userId = pinsToInsert[0]?.user_id;
+            if (userId && data) {
+                await emitWebhookEvents(supabase, userId, data.map(toPinWebhookEvent));
+                await emitCampaignCompletedIfFinished(supabase, campaignId);
+                await queueAutoPublishIfCompleted(supabase, campaignId);
+            }
         }
 
         log(`[generated-pins] Batch saved ${data?.length || 0} pins successfully`);
@@ -358,6 +334,8 @@ export async function GET(request: NextRequest) {
         const offset = (page - 1) * limit;
 
         const fields = searchParams.get('fields') || '*';
+        // Pins whose data source row was removed or changed are hidden unless asked for
+        const includeStale = searchParams.get('include_stale') === 'true';
 
         // RLS will automatically filter to user's own data
         log(`[generated-pins] Fetching pins (page ${page}, limit ${limit}, fields ${fields})...`);
@@ -368,6 +346,10 @@ export async function GET(request: NextRequest) {
             .eq('campaign_id', campaignId)
             .order('created_at', { ascending: true });
 
+        if (!includeStale) {
+            query = query.is('stale_at', null);
+        }
+
         // Apply pagination only if not requesting all (limit=-1 or very high)
         // Or strictly adhere to limit
         if (limit > 0) {
@@ -2,6 +2,12 @@ import { serve } from "inngest/next";
 import { inngest } from "@/inngest/client";
 import { renderBatchFunction } from "@/inngest/functions/renderBatch";
 import { cleanupStorageFunction } from "@/inngest/functions/cleanupStorage";
+import { renderApiJobFunction, renderApiJobBatchFunction } from "@/inngest/functions/renderApiJob";
+import { publishPinsFunction } from "@/inngest/functions/publishPins";
+import { drainPublishQueueFunction } from "@/inngest/functions/drainPublishQueue";
+import { deliverWebhookFunction } from "@/inngest/functions/deliverWebhook";
+import { syncCampaignSourceFunction } from "@/inngest/functions/syncCampaignSource";
+import { syncDataSourcesFunction } from "@/inngest/functions/syncDataSources";
 
 // Vercel configuration - allow long-running Inngest functions
 // Pro plan: up to 300s, Hobby: up to 60s
@@ -14,5 +20,12 @@ export const { GET, POST, PUT } = serve({
   functions: [
     renderBatchFunction,
     cleanupStorageFunction,
+    renderApiJobFunction,
+    renderApiJobBatchFunction,
+    deliverWebhookFunction,
+    publishPinsFunction,
+    drainPublishQueueFunction,
+    syncCampaignSourceFunction,
+    syncDataSourcesFunction,
   ],
 });
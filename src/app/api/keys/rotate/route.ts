@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rotateApiKey } from '@/lib/db/apiKeys';
+import { createServiceRoleClient, getAuthenticatedSupabase } from '@/lib/supabaseServer';
+import { RotateApiKeySchema, validateRequest } from '@/lib/validations';
+
+// Debug logging
+const DEBUG = process.env.NODE_ENV === 'development';
+const log = (...args: unknown[]) => DEBUG && console.log(...args);
+
+// POST: Rotate an API key, keeping the old one working for a grace period
+export async function POST(request: NextRequest) {
+    try {
+        const supabase = await getAuthenticatedSupabase();
+        if (!supabase) {
+            return NextResponse.json({ error: 'Server configuration error' }, { status: 503 });
+        }
+
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { searchParams } = new URL(request.url);
+        const keyId = searchParams.get('id');
+
+        if (!keyId) {
+            return NextResponse.json({ error: 'Key ID is required' }, { status: 400 });
+        }
+
+        const validation = validateRequest(RotateApiKeySchema, await request.json().catch(() => ({})));
+        if (!validation.success) {
+            return NextResponse.json({ error: validation.error }, { status: 400 });
+        }
+
+        // Use service role client to bypass RLS; rotateApiKey checks ownership
+        const serviceClient = createServiceRoleClient();
+        const result = await rotateApiKey(serviceClient, keyId, user.id, validation.data.grace_hours);
+
+        if (!result) {
+            return NextResponse.json(
+                { error: 'API key not found, revoked or already rotated' },
+                { status: 404 }
+            );
+        }
+
+        log('[api/keys/rotate]', keyId, '->', result.apiKey.id, 'old key expires', result.previousKeyExpiresAt);
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                key: result.key,
+                apiKey: result.apiKey,
+                previous_key_expires_at: result.previousKeyExpiresAt,
+            },
+        }, { status: 201 });
+    } catch (error) {
+        console.error('[api/keys/rotate] POST error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
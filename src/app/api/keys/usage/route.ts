@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listApiKeys, getApiKeyDailyUsage, getApiKeyPinUsage } from '@/lib/db/apiKeys';
+import { createServiceRoleClient, getAuthenticatedSupabase } from '@/lib/supabaseServer';
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 90;
+
+// GET: Per-day pin usage and monthly quota state for one API key
+export async function GET(request: NextRequest) {
+    try {
+        const supabase = await getAuthenticatedSupabase();
+        if (!supabase) {
+            return NextResponse.json({ error: 'Server configuration error' }, { status: 503 });
+        }
+
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { searchParams } = new URL(request.url);
+        const keyId = searchParams.get('id');
+        const days = Math.min(MAX_DAYS, Math.max(1, parseInt(searchParams.get('days') || String(DEFAULT_DAYS))));
+
+        if (!keyId) {
+            return NextResponse.json({ error: 'Key ID is required' }, { status: 400 });
+        }
+
+        // Use service role client to bypass RLS; ownership is checked against the user's keys
+        const serviceClient = createServiceRoleClient();
+        const keys = await listApiKeys(user.id, serviceClient);
+        const key = keys.find(k => k.id === keyId);
+        if (!key) {
+            return NextResponse.json({ error: 'API key not found' }, { status: 404 });
+        }
+
+        const now = new Date();
+        const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+        const since = new Date(today - (days - 1) * 86400000);
+        const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+        const [usage, monthToDate] = await Promise.all([
+            getApiKeyDailyUsage(serviceClient, keyId, since),
+            getApiKeyPinUsage(serviceClient, keyId, monthStart),
+        ]);
+
+        if (monthToDate === null) {
+            return NextResponse.json({ error: 'Failed to load usage' }, { status: 503 });
+        }
+
+        // Fill days without usage so the chart has a continuous axis
+        const pinsByDay = new Map(usage.map(u => [u.day, u.pins]));
+        const daily = Array.from({ length: days }, (_, i) => {
+            const day = new Date(since.getTime() + i * 86400000).toISOString().slice(0, 10);
+            return { day, pins: pinsByDay.get(day) || 0 };
+        });
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                key_id: keyId,
+                daily,
+                month_to_date: monthToDate,
+                monthly_pin_quota: key.monthly_pin_quota,
+                rate_limit_per_minute: key.rate_limit_per_minute,
+            },
+        });
+    } catch (error) {
+        console.error('[api/keys/usage] GET error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { createServiceRoleClient, getAuthenticatedSupabase } from '@/lib/supabaseServer';
+import { listBoards, PinterestApiError } from '@/lib/pinterest/client';
+import { getPinterestAccessToken, getPinterestConnection } from '@/lib/pinterest/tokens';
+
+export const dynamic = 'force-dynamic';
+
+// GET: Boards on the user's connected Pinterest account
+export async function GET() {
+    try {
+        const supabase = await getAuthenticatedSupabase();
+        if (!supabase) {
+            return NextResponse.json({ error: 'Server configuration error' }, { status: 503 });
+        }
+
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        // Service role client so refreshed tokens can be written back
+        const serviceClient = createServiceRoleClient();
+        const accessToken = await getPinterestAccessToken(serviceClient, user.id);
+        if (!accessToken) {
+            return NextResponse.json({ error: 'Pinterest account not connected' }, { status: 409 });
+        }
+
+        const [boards, connection] = await Promise.all([
+            listBoards(accessToken),
+            getPinterestConnection(serviceClient, user.id),
+        ]);
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                boards,
+                default_board_id: connection?.default_pinterest_board_id ?? null,
+            },
+        });
+    } catch (error) {
+        if (error instanceof PinterestApiError) {
+            console.error('[api/pinterest/boards] Pinterest error:', error.message);
+            return NextResponse.json(
+                { error: error.unauthorized ? 'Pinterest access was revoked - reconnect your account' : 'Pinterest request failed' },
+                { status: error.unauthorized ? 409 : 502 }
+            );
+        }
+        console.error('[api/pinterest/boards] GET error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient, getAuthenticatedSupabase } from '@/lib/supabaseServer';
+import { PublishCampaignSchema, validateRequest } from '@/lib/validations';
+import { getPinterestConnection } from '@/lib/pinterest/tokens';
+import { requestCampaignPublish } from '@/lib/pinterest/publish';
+
+export const dynamic = 'force-dynamic';
+
+// Debug logging
+const DEBUG = process.env.NODE_ENV === 'development';
+const log = (...args: unknown[]) => DEBUG && console.log(...args);
+
+// POST: Queue a campaign's generated pins for posting to Pinterest
+export async function POST(request: NextRequest) {
+    try {
+        const supabase = await getAuthenticatedSupabase();
+        if (!supabase) {
+            return NextResponse.json({ error: 'Server configuration error' }, { status: 503 });
+        }
+
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const body = await request.json().catch(() => null);
+        const validation = validateRequest(PublishCampaignSchema, body);
+        if (!validation.success) {
+            return NextResponse.json({ error: validation.error }, { status: 400 });
+        }
+        const { campaign_id: campaignId, board_id: boardId, retry_failed: retryFailed } = validation.data;
+
+        // Use service role client to bypass RLS; ownership is checked explicitly
+        const serviceClient = createServiceRoleClient();
+        const { data: campaign, error: campaignError } = await serviceClient
+            .from('campaigns')
+            .select('id, user_id, pinterest_board_id')
+            .eq('id', campaignId)
+            .maybeSingle();
+
+        if (campaignError) throw campaignError;
+        if (!campaign || campaign.user_id !== user.id) {
+            return NextResponse.json({ error: 'Campaign not found' }, { status: 404 });
+        }
+
+        const connection = await getPinterestConnection(serviceClient, user.id);
+        if (!connection?.pinterest_access_token) {
+            return NextResponse.json({ error: 'Pinterest account not connected' }, { status: 409 });
+        }
+
+        if (!(boardId || campaign.pinterest_board_id || connection.default_pinterest_board_id)) {
+            return NextResponse.json({ error: 'Select a Pinterest board first' }, { status: 400 });
+        }
+
+        if (boardId && boardId !== campaign.pinterest_board_id) {
+            const { error } = await serviceClient
+                .from('campaigns')
+                .update({ pinterest_board_id: boardId })
+                .eq('id', campaignId);
+            if (error) throw error;
+        }
+
+        if (retryFailed) {
+            // Pins whose post Pinterest never confirmed stay claimed until the user retries them
+            const { error: claimError } = await serviceClient
+                .from('generated_pins')
+                .update({ status: 'generated' })
+                .eq('campaign_id', campaignId)
+                .eq('status', 'posting')
+                .is('pinterest_pin_id', null)
+                .not('publish_error', 'is', null);
+            if (claimError) throw claimError;
+
+            const { error } = await serviceClient
+                .from('generated_pins')
+                .update({ publish_error: null })
+                .eq('campaign_id', campaignId)
+                .is('pinterest_pin_id', null)
+                .not('publish_error', 'is', null);
+            if (error) throw error;
+        }
+
+        await requestCampaignPublish(campaignId);
+        log('[api/pinterest/publish] Queued campaign', campaignId);
+
+        return NextResponse.json({ success: true, data: { campaign_id: campaignId, queued: true } }, { status: 202 });
+    } catch (error) {
+        console.error('[api/pinterest/publish] POST error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,261 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { createServiceRoleClient, getAuthenticatedSupabase } from '@/lib/supabaseServer';
+import { MoveScheduledPinSchema, SchedulePublishingSchema, validateRequest } from '@/lib/validations';
+import { clearScheduleSlots, getBoardBookings, listScheduledPins, saveScheduleSlots } from '@/lib/db/publishQueue';
+import { resolveCampaignBoard, scheduleCampaignPins } from '@/lib/pinterest/scheduler';
+import { dayWindow, localDayKey, nextDayKey, zonedTimeToUtc } from '@/lib/pinterest/schedule';
+import { PublishSchedule } from '@/types/database.types';
+
+export const dynamic = 'force-dynamic';
+
+// Debug logging
+const DEBUG = process.env.NODE_ENV === 'development';
+const log = (...args: unknown[]) => DEBUG && console.log(...args);
+
+// Load a campaign owned by the user (service role client; ownership checked explicitly)
+async function getOwnedCampaign(serviceClient: SupabaseClient, campaignId: string, userId: string) {
+    const { data: campaign, error } = await serviceClient
+        .from('campaigns')
+        .select('id, user_id, pinterest_board_id, publish_schedule, schedule_time')
+        .eq('id', campaignId)
+        .maybeSingle();
+
+    if (error) throw error;
+    return campaign && campaign.user_id === userId ? campaign : null;
+}
+
+// GET: A campaign's publish schedule and its queued/posted pins (calendar view)
+export async function GET(request: NextRequest) {
+    try {
+        const supabase = await getAuthenticatedSupabase();
+        if (!supabase) {
+            return NextResponse.json({ error: 'Server configuration error' }, { status: 503 });
+        }
+
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const campaignId = new URL(request.url).searchParams.get('campaign_id');
+        if (!campaignId) {
+            return NextResponse.json({ error: 'Campaign ID is required' }, { status: 400 });
+        }
+
+        const serviceClient = createServiceRoleClient();
+        const campaign = await getOwnedCampaign(serviceClient, campaignId, user.id);
+        if (!campaign) {
+            return NextResponse.json({ error: 'Campaign not found' }, { status: 404 });
+        }
+
+        const pins = await listScheduledPins(serviceClient, campaignId);
+        const { count: unscheduled } = await serviceClient
+            .from('generated_pins')
+            .select('id', { count: 'exact', head: true })
+            .eq('campaign_id', campaignId)
+            .is('pinterest_pin_id', null)
+            .is('scheduled_at', null)
+            .not('status', 'in', '(failed,posting)');
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                schedule: campaign.publish_schedule,
+                board_id: campaign.pinterest_board_id,
+                pins,
+                unscheduled_count: unscheduled || 0,
+            },
+        });
+    } catch (error) {
+        console.error('[api/pinterest/schedule] GET error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+// POST: Save a campaign's publish schedule and (re)plan every unposted pin
+export async function POST(request: NextRequest) {
+    try {
+        const supabase = await getAuthenticatedSupabase();
+        if (!supabase) {
+            return NextResponse.json({ error: 'Server configuration error' }, { status: 503 });
+        }
+
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const body = await request.json().catch(() => null);
+        const validation = validateRequest(SchedulePublishingSchema, body);
+        if (!validation.success) {
+            return NextResponse.json({ error: validation.error }, { status: 400 });
+        }
+        const { campaign_id: campaignId, board_id: boardId, schedule } = validation.data;
+
+        const serviceClient = createServiceRoleClient();
+        const campaign = await getOwnedCampaign(serviceClient, campaignId, user.id);
+        if (!campaign) {
+            return NextResponse.json({ error: 'Campaign not found' }, { status: 404 });
+        }
+
+        const { error: updateError } = await serviceClient
+            .from('campaigns')
+            .update({
+                publish_schedule: schedule,
+                ...(boardId ? { pinterest_board_id: boardId } : {}),
+            })
+            .eq('id', campaignId);
+        if (updateError) throw updateError;
+
+        const board = await resolveCampaignBoard(serviceClient, { ...campaign, pinterest_board_id: boardId || campaign.pinterest_board_id });
+        if (!board) {
+            return NextResponse.json({ error: 'Select a Pinterest board first' }, { status: 400 });
+        }
+
+        const result = await scheduleCampaignPins(serviceClient, campaignId, true);
+        if (!result) {
+            return NextResponse.json({ error: 'Failed to schedule pins' }, { status: 500 });
+        }
+
+        log('[api/pinterest/schedule] Scheduled', result.scheduled, 'pins for campaign', campaignId);
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                scheduled: result.scheduled,
+                unscheduled: result.unscheduled,
+                first_slot: result.firstSlot,
+                last_slot: result.lastSlot,
+            },
+        });
+    } catch (error) {
+        console.error('[api/pinterest/schedule] POST error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+// PATCH: Move one queued pin to another slot (calendar drag and drop)
+export async function PATCH(request: NextRequest) {
+    try {
+        const supabase = await getAuthenticatedSupabase();
+        if (!supabase) {
+            return NextResponse.json({ error: 'Server configuration error' }, { status: 503 });
+        }
+
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const body = await request.json().catch(() => null);
+        const validation = validateRequest(MoveScheduledPinSchema, body);
+        if (!validation.success) {
+            return NextResponse.json({ error: validation.error }, { status: 400 });
+        }
+        const { pin_id: pinId } = validation.data;
+        const scheduledAt = new Date(validation.data.scheduled_at);
+
+        const serviceClient = createServiceRoleClient();
+        const { data: pin, error: pinError } = await serviceClient
+            .from('generated_pins')
+            .select('id, campaign_id, user_id, scheduled_at, pinterest_pin_id, pinterest_board_id')
+            .eq('id', pinId)
+            .maybeSingle();
+
+        if (pinError) throw pinError;
+        if (!pin || pin.user_id !== user.id) {
+            return NextResponse.json({ error: 'Pin not found' }, { status: 404 });
+        }
+        if (pin.pinterest_pin_id) {
+            return NextResponse.json({ error: 'Pin has already been posted' }, { status: 409 });
+        }
+
+        const campaign = await getOwnedCampaign(serviceClient, pin.campaign_id, user.id);
+        const schedule = campaign?.publish_schedule as PublishSchedule | null;
+        if (!campaign || !schedule) {
+            return NextResponse.json({ error: 'Campaign has no publish schedule' }, { status: 409 });
+        }
+
+        const boardId = pin.pinterest_board_id || await resolveCampaignBoard(serviceClient, campaign);
+        if (!boardId) {
+            return NextResponse.json({ error: 'Select a Pinterest board first' }, { status: 400 });
+        }
+
+        // The slot must fall inside a posting window that hasn't passed
+        const day = localDayKey(scheduledAt, schedule.timezone);
+        const window = dayWindow(day, schedule, new Date());
+        if (!window || scheduledAt.getTime() < window.start || scheduledAt.getTime() >= window.end) {
+            return NextResponse.json({ error: 'Slot is outside the posting window' }, { status: 400 });
+        }
+
+        // Moving onto another day must respect the board's daily cap
+        const currentDay = pin.scheduled_at ? localDayKey(new Date(pin.scheduled_at), schedule.timezone) : null;
+        if (day !== currentDay) {
+            const bookings = await getBoardBookings(serviceClient, {
+                userId: user.id,
+                boardId,
+                from: zonedTimeToUtc(day, 0, schedule.timezone),
+                to: zonedTimeToUtc(nextDayKey(day), 0, schedule.timezone),
+                timezone: schedule.timezone,
+            });
+            if (!bookings) throw new Error('Failed to load board bookings');
+            if ((bookings[day] || 0) >= schedule.daily_cap) {
+                return NextResponse.json({ error: `That day already has ${schedule.daily_cap} pins on this board` }, { status: 409 });
+            }
+        }
+
+        const updated = await saveScheduleSlots(serviceClient, pin.campaign_id, boardId, [
+            { id: pinId, scheduled_at: scheduledAt.toISOString() },
+        ]);
+        if (!updated) {
+            return NextResponse.json({ error: 'Failed to move pin' }, { status: 500 });
+        }
+
+        return NextResponse.json({ success: true, data: { pin_id: pinId, scheduled_at: scheduledAt.toISOString() } });
+    } catch (error) {
+        console.error('[api/pinterest/schedule] PATCH error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+// DELETE: Remove a campaign's publish schedule and unqueue its unposted pins
+export async function DELETE(request: NextRequest) {
+    try {
+        const supabase = await getAuthenticatedSupabase();
+        if (!supabase) {
+            return NextResponse.json({ error: 'Server configuration error' }, { status: 503 });
+        }
+
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const campaignId = new URL(request.url).searchParams.get('campaign_id');
+        if (!campaignId) {
+            return NextResponse.json({ error: 'Campaign ID is required' }, { status: 400 });
+        }
+
+        const serviceClient = createServiceRoleClient();
+        const campaign = await getOwnedCampaign(serviceClient, campaignId, user.id);
+        if (!campaign) {
+            return NextResponse.json({ error: 'Campaign not found' }, { status: 404 });
+        }
+
+        if (!(await clearScheduleSlots(serviceClient, campaignId))) {
+            return NextResponse.json({ error: 'Failed to clear schedule' }, { status: 500 });
+        }
+
+        const { error } = await serviceClient
+            .from('campaigns')
+            .update({ publish_schedule: null, schedule_time: null })
+            .eq('id', campaignId);
+        if (error) throw error;
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('[api/pinterest/schedule] DELETE error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getCachedImage } from '@/lib/images/cache';
+import { ImageFetchError } from '@/lib/images/safeFetch';
 
 /**
  * GET /api/proxy-image?url=...
  * Proxy images from external URLs to bypass CORS restrictions
+ * Private addresses, oversized files and non-images are refused (see safeFetch);
+ * downloads are shared with the server renderer through the image cache.
  */
 export async function GET(request: NextRequest) {
     const url = request.nextUrl.searchParams.get('url');
@@ -15,69 +19,31 @@ export async function GET(request: NextRequest) {
     }
 
     try {
-        // Basic URL validation
-        let parsedUrl: URL;
-        try {
-            parsedUrl = new URL(url);
-        } catch {
-            return NextResponse.json(
-                { error: 'Invalid URL format' },
-                { status: 400 }
-            );
-        }
+        const image = await getCachedImage(url);
+        const etag = `"${image.hash}"`;
 
-        // Only allow http/https protocols
-        if (!['http:', 'https:'].includes(parsedUrl.protocol)) {
-            return NextResponse.json(
-                { error: 'Only HTTP/HTTPS URLs allowed' },
-                { status: 400 }
-            );
+        if (request.headers.get('if-none-match') === etag) {
+            return new NextResponse(null, { status: 304, headers: { ETag: etag } });
         }
 
-        // Fetch with timeout to prevent hanging requests
-        const controller = new AbortController();
-        const timeout = setTimeout(() => controller.abort(), 10000); // 10 second timeout
-
-        const response = await fetch(url, { signal: controller.signal });
-        clearTimeout(timeout);
-
-        if (!response.ok) {
-            return NextResponse.json(
-                { error: 'Failed to fetch image' },
-                { status: response.status }
-            );
-        }
-
-        // Check content length to prevent memory exhaustion
-        const contentLength = parseInt(response.headers.get('content-length') || '0');
-        const MAX_SIZE = 10 * 1024 * 1024; // 10MB
-        if (contentLength > MAX_SIZE) {
-            return NextResponse.json(
-                { error: 'Image too large (max 10MB)' },
-                { status: 413 }
-            );
-        }
-
-        // Get content type
-        const contentType = response.headers.get('content-type') || 'image/png';
-
-        // Get image data
-        const imageBuffer = await response.arrayBuffer();
-
         // Return image with proper headers
-        return new NextResponse(imageBuffer, {
+        return new NextResponse(new Uint8Array(image.buffer), {
             status: 200,
             headers: {
-                'Content-Type': contentType,
+                'Content-Type': image.contentType,
                 'Cache-Control': 'public, max-age=31536000, immutable',
                 'Access-Control-Allow-Origin': '*',
+                'ETag': etag,
+                // Never let the browser treat proxied bytes as anything but an image
+                'X-Content-Type-Options': 'nosniff',
+                'Content-Security-Policy': "default-src 'none'; sandbox",
             },
         });
     } catch (error) {
-        if (error instanceof Error && error.name === 'AbortError') {
+        if (error instanceof ImageFetchError) {
             return NextResponse.json(
-                { error: 'Request timeout' },
-                { status: 504 }
+                { error: error.message, code: error.code },
+                { status: error.status }
             );
         }
         console.error('[proxy-image] Error:', error);
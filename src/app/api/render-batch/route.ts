@@ -64,9 +64,46 @@ export async function POST(req: NextRequest) {
         if (!process.env.SUPABASE_SERVICE_ROLE_KEY) console.error('[API] Missing SUPABASE_SERVICE_ROLE_KEY');
         if (!process.env.INNGEST_EVENT_KEY) console.warn('[API] Missing INNGEST_EVENT_KEY (required for production)');
 
+        const supabase = createServiceRoleClient();
+
+        // Only approved templates start campaigns, whatever the client checked
+        const { data: campaign, error: campaignError } = await supabase
+            .from('campaigns')
+            .select('template_id, template_ids')
+            .eq('id', campaignId)
+            .maybeSingle();
+
+        if (campaignError || !campaign) {
+            return NextResponse.json(
+                { success: false, error: 'Campaign not found' },
+                { status: 404 }
+            );
+        }
+
+        const templateIds = [...new Set([campaign.template_id, ...(campaign.template_ids || [])].filter(Boolean))];
+        const { data: templates, error: templatesError } = await supabase
+            .from('templates')
+            .select('id, status')
+            .in('id', templateIds);
+
+        if (templatesError) {
+            console.error('[API] Failed to load campaign templates:', templatesError);
+            return NextResponse.json(
+                { success: false, error: 'Failed to load campaign templates' },
+                { status: 500 }
+            );
+        }
+
+        const approved = (templates || []).filter(t => t.status === 'approved');
+        if (templateIds.length === 0 || approved.length < templateIds.length) {
+            return NextResponse.json(
+                { success: false, error: 'Campaigns can only start from approved templates' },
+                { status: 403 }
+            );
+        }
+
         // 1. Update Campaign Status to 'processing'
         console.log('[API] Updating campaign status...');
-        const supabase = createServiceRoleClient();
         const { error: updateError } = await supabase
             .from('campaigns')
             .update({ 
@@ -7,6 +7,9 @@ import { S3Client } from '@aws-sdk/client-s3';
 import { Upload } from '@aws-sdk/lib-storage';
 import { Readable } from 'stream';
 import { UploadPinMetadataSchema, validateRequest } from '@/lib/validations';
+import { createServiceRoleClient } from '@/lib/supabaseServer';
+import { extensionForFormat, formatFromContentType, resolveOutputOptions } from '@/lib/output/formats';
+import { encodePin, FileSizeBudgetError } from '@/lib/output/encode';
 
 // Route Segment Config: Increase body size limit to 10MB
 export const runtime = 'nodejs';
@@ -113,27 +116,61 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        // The browser renders in the campaign's format when it can (not AVIF, and
+        // not WebP in every browser); anything else, or over budget, is re-encoded here
+        const { data: campaign } = await createServiceRoleClient()
+            .from('campaigns')
+            .select('output_format, output_quality, max_file_size_kb')
+            .eq('id', campaign_id)
+            .maybeSingle();
+
+        const output = resolveOutputOptions({
+            format: campaign?.output_format,
+            quality: campaign?.output_quality,
+            maxFileSizeKb: campaign?.max_file_size_kb,
+        });
+        const uploadedFormat = formatFromContentType(file.type);
+        const needsEncoding = uploadedFormat !== output.format
+            || (output.maxFileSizeKb !== null && file.size > output.maxFileSizeKb * 1024);
+
+        let body: Readable | Buffer;
+        let contentType: string;
+        let contentLength: number;
+        let extension: string;
+
+        if (needsEncoding) {
+            const encoded = await encodePin(Buffer.from(await file.arrayBuffer()), output);
+            body = encoded.buffer;
+            contentType = encoded.contentType;
+            contentLength = encoded.buffer.length;
+            extension = encoded.extension;
+            log('[upload-pin] Re-encoded', file.type, '->', contentType, `q${encoded.quality}`);
+        } else {
+            // PERFORMANCE: Stream upload instead of buffering entire file in memory
+            // Convert Web Stream to Node.js Readable stream for AWS SDK
+            body = Readable.fromWeb(file.stream() as unknown as import('stream/web').ReadableStream);
+            contentType = file.type;
+            contentLength = file.size;
+            extension = extensionForFormat(output.format);
+        }
+
         // Generate S3 key
         const timestamp = Date.now();
-        const key = `pins/${campaign_id}/${rowIndex}-${timestamp}.png`;
+        const key = `pins/${campaign_id}/${rowIndex}-${timestamp}.${extension}`;
         const bucket = process.env.TEBI_BUCKET!;
 
         log('[upload-pin] Uploading to:', { bucket, key });
 
-        // PERFORMANCE: Stream upload instead of buffering entire file in memory
-        // Convert Web Stream to Node.js Readable stream for AWS SDK
-        const fileStream = Readable.fromWeb(file.stream() as unknown as import('stream/web').ReadableStream);
-
         // Use @aws-sdk/lib-storage Upload for better streaming support
         const upload = new Upload({
             client: s3Client,
             params: {
                 Bucket: bucket,
                 Key: key,
-                Body: fileStream,
-                ContentType: file.type || 'image/png',
+                Body: body,
+                ContentType: contentType,
                 ACL: 'public-read',
-                ContentLength: file.size, // Helps S3 know size upfront
+                ContentLength: contentLength, // Helps S3 know size upfront
             },
         });
 
@@ -153,6 +190,13 @@ export async function POST(request: NextRequest) {
             rowIndex,
         });
     } catch (error) {
+        if (error instanceof FileSizeBudgetError) {
+            return NextResponse.json(
+                { error: 'Pin exceeds file size budget', details: error.message },
+                { status: 422 }
+            );
+        }
+
         console.error('[upload-pin] Error:', error);
         return NextResponse.json(
             {
@@ -4,51 +4,16 @@
 // SECURITY: Uses authenticated session to verify user ownership
 
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
-import { cookies, headers } from 'next/headers';
-import { uploadToS3, getThumbnailKey, isTebiConfigured } from '@/lib/s3';
+import { uploadToS3, getThumbnailKey, getTemplateVersionThumbnailKey, isTebiConfigured } from '@/lib/s3';
+import { getAuthenticatedSupabase } from '@/lib/supabaseServer';
 
 interface UploadThumbnailRequest {
     templateId: string;
     imageData: string; // Base64 encoded image data
+    versionId?: string; // Thumbnail for a saved template version
 }
 
-// SECURITY: Get authenticated Supabase client using auth header OR cookies
-async function getAuthenticatedSupabase() {
-    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-    const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
-    
-    if (!supabaseUrl || !supabaseAnonKey) {
-        return null;
-    }
-
-    // Get auth token from cookies or Authorization header
-    const cookieStore = await cookies();
-    const headersStore = await headers();
-    
-    // Check for Authorization header (Bearer token)
-    const authHeader = headersStore.get('authorization');
-    
-    const options: any = {
-        global: {
-            headers: {}
-        }
-    };
-
-    if (authHeader) {
-        // Use explicitly provided token
-        options.global.headers['Authorization'] = authHeader;
-    } else {
-        // Fallback to cookies
-        const allCookies = cookieStore.getAll();
-        
-        if (allCookies.length > 0) {
-             options.global.headers['Cookie'] = allCookies.map(c => `${c.name}=${c.value}`).join('; ');
-        }
-    }
-
-    return createClient(supabaseUrl, supabaseAnonKey, options);
-}
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 export async function POST(request: NextRequest) {
     try {
@@ -82,7 +47,7 @@ export async function POST(request: NextRequest) {
 
         // Parse request body
         const body: UploadThumbnailRequest = await request.json();
-        const { templateId, imageData } = body;
+        const { templateId, imageData, versionId } = body;
 
         // Validate required fields
         if (!templateId || !imageData) {
@@ -92,6 +57,14 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        // versionId becomes part of the object key
+        if (versionId !== undefined && !UUID_PATTERN.test(versionId)) {
+            return NextResponse.json(
+                { error: 'Invalid versionId' },
+                { status: 400 }
+            );
+        }
+
         // Decode base64 image data
         // Expected format: "data:image/png;base64,..." or just the base64 string
         let base64Data = imageData;
@@ -118,7 +91,9 @@ export async function POST(request: NextRequest) {
         }
 
         // Generate S3 key using authenticated userId
-        const key = getThumbnailKey(userId, templateId);
+        const key = versionId
+            ? getTemplateVersionThumbnailKey(userId, templateId, versionId)
+            : getThumbnailKey(userId, templateId);
 
         // Upload to S3
         const url = await uploadToS3(key, buffer, contentType);
@@ -0,0 +1,206 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { inngest } from '@/inngest/client';
+import { createServiceRoleClient } from '@/lib/supabaseServer';
+import { getTemplateByShortId } from '@/lib/db/templates';
+import { MAX_ROWS_PER_JOB } from '@/lib/db/apiJobs';
+import { setProgress } from '@/lib/redis';
+import { emitCampaignEvent } from '@/lib/webhooks/emit';
+import {
+    ApiErrorResponse,
+    apiErrorResponse,
+    authenticateApiRequest,
+    checkPinQuota,
+    checkTemplateAccess,
+    checkTemplateApproved,
+    OutputRequestFields,
+    parseOutputOptions,
+    withRateLimitHeaders,
+} from '@/lib/api/v1';
+import { DbCampaignInsert } from '@/types/database.types';
+
+// Vercel Serverless Config
+export const maxDuration = 10; // Fast response - rendering happens in Inngest
+export const dynamic = 'force-dynamic';
+
+// Rows per render-batch-campaign event, as in /api/render-batch
+const RENDER_BATCH_SIZE = 75;
+
+// Request/Response interfaces
+interface CreateCampaignRequest extends OutputRequestFields {
+    template_id: string;
+    name: string;
+    rows: Record<string, string>[];
+    field_mapping?: Record<string, string>;
+}
+
+interface CreateCampaignResponse {
+    success: true;
+    campaign_id: string;
+    status: 'processing';
+    total_pins: number;
+}
+
+/**
+ * POST /api/v1/campaigns
+ * Create a campaign in the key's workspace and start rendering its pins
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<CreateCampaignResponse | ApiErrorResponse>> {
+    try {
+        // 1. Validate API key and its scope, apply its rate limit and get user ID
+        const supabase = createServiceRoleClient();
+        const auth = await authenticateApiRequest(request, supabase, 'campaigns:write');
+        if (auth.response) {
+            return auth.response;
+        }
+        const { userId, apiKey, rateLimit } = auth;
+
+        // 2. Parse and validate request body
+        let body: CreateCampaignRequest;
+        try {
+            body = await request.json();
+        } catch {
+            return apiErrorResponse('Invalid JSON body', 'VALIDATION_ERROR', 400);
+        }
+
+        const { template_id, name, rows, field_mapping = {} } = body;
+
+        if (!template_id) {
+            return apiErrorResponse('template_id is required', 'VALIDATION_ERROR', 400);
+        }
+
+        if (typeof name !== 'string' || name.trim().length === 0 || name.length > 255) {
+            return apiErrorResponse('name is required (max 255 characters)', 'VALIDATION_ERROR', 400);
+        }
+
+        const templateAccessResponse = checkTemplateAccess(apiKey, template_id);
+        if (templateAccessResponse) {
+            return withRateLimitHeaders(templateAccessResponse, rateLimit);
+        }
+
+        const output = parseOutputOptions(body);
+        if (output.response) {
+            return output.response;
+        }
+
+        if (!rows || !Array.isArray(rows) || rows.length === 0) {
+            return apiErrorResponse('rows must be a non-empty array', 'VALIDATION_ERROR', 400);
+        }
+
+        if (rows.length > MAX_ROWS_PER_JOB) {
+            return apiErrorResponse(
+                `Maximum ${MAX_ROWS_PER_JOB} rows per campaign. You sent ${rows.length}.`,
+                'VALIDATION_ERROR',
+                400
+            );
+        }
+
+        const quotaResponse = await checkPinQuota(supabase, apiKey, rows.length);
+        if (quotaResponse) {
+            return withRateLimitHeaders(quotaResponse, rateLimit);
+        }
+
+        // 3. Fetch template by short_id
+        const template = await getTemplateByShortId(template_id, supabase);
+        if (!template || template.workspace_id !== apiKey.workspaceId) {
+            return apiErrorResponse(`Template not found: ${template_id}`, 'TEMPLATE_NOT_FOUND', 404);
+        }
+
+        const approvalResponse = checkTemplateApproved(template.status, template_id);
+        if (approvalResponse) {
+            return withRateLimitHeaders(approvalResponse, rateLimit);
+        }
+
+        // 4. Create the campaign, already processing since rendering starts right away
+        const insertData: DbCampaignInsert = {
+            user_id: userId,
+            workspace_id: apiKey.workspaceId,
+            template_id: template.id,
+            template_ids: [template.id],
+            name: name.trim(),
+            csv_data: rows,
+            field_mapping,
+            total_pins: rows.length,
+            status: 'processing',
+            output_format: output.options.format,
+            output_quality: output.options.quality,
+            max_file_size_kb: output.options.maxFileSizeKb,
+        };
+
+        const { data: campaign, error: insertError } = await supabase
+            .from('campaigns')
+            .insert(insertData)
+            .select('id')
+            .single();
+
+        if (insertError || !campaign) {
+            console.error('[api/v1/campaigns] Failed to create campaign:', insertError);
+            return apiErrorResponse('Failed to create campaign', 'SERVER_ERROR', 500);
+        }
+
+        // 5. Queue the render batches and seed progress so the dashboard shows them
+        const events = [];
+        for (let i = 0; i < rows.length; i += RENDER_BATCH_SIZE) {
+            events.push({
+                name: 'campaign/render.requested' as const,
+                data: { campaignId: campaign.id, startIndex: i, batchSize: RENDER_BATCH_SIZE },
+            });
+        }
+
+        try {
+            await setProgress(campaign.id, { total: rows.length, completed: 0, failed: 0, status: 'processing' });
+            await inngest.send(events);
+        } catch (sendError) {
+            console.error('[api/v1/campaigns] Failed to queue rendering:', sendError);
+            await supabase.from('campaigns').update({ status: 'failed' }).eq('id', campaign.id);
+            return apiErrorResponse('Failed to queue rendering', 'SERVER_ERROR', 500);
+        }
+
+        await emitCampaignEvent(supabase, campaign.id, 'campaign.started', { resumed: false });
+
+        return withRateLimitHeaders(NextResponse.json({
+            success: true,
+            campaign_id: campaign.id,
+            status: 'processing',
+            total_pins: rows.length,
+        }, { status: 202 }), rateLimit);
+    } catch (error) {
+        console.error('[api/v1/campaigns] Unexpected error:', error);
+        const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+        return apiErrorResponse(errorMessage, 'SERVER_ERROR', 500);
+    }
+}
+
+/**
+ * GET /api/v1/campaigns - Return API documentation
+ */
+export async function GET(): Promise<NextResponse> {
+    return NextResponse.json({
+        endpoint: '/api/v1/campaigns',
+        method: 'POST',
+        description: 'Create a campaign from a template and a set of rows. Its pins render in the background and show up in the dashboard like any other campaign.',
+        authentication: 'Bearer token or X-API-Key header',
+        rate_limits: 'Per API key: requests per minute (X-RateLimit-* headers) and pins per month. Exceeding either returns 429 with code RATE_LIMIT.',
+        scopes: "Requires an API key with the 'campaigns:write' scope (403 INSUFFICIENT_SCOPE otherwise). Keys limited to specific templates return 403 TEMPLATE_NOT_ALLOWED for any other template_id, templates that haven't been approved return 403 TEMPLATE_NOT_APPROVED; expired keys return 401 API_KEY_EXPIRED.",
+        request_body: {
+            template_id: 'string (required) - Template short ID (e.g., TMPL-abc123xy)',
+            name: 'string (required) - Campaign name, max 255 characters',
+            rows: `array (required) - Array of data objects, one pin each, max ${MAX_ROWS_PER_JOB}`,
+            field_mapping: 'object (optional) - Maps template fields to row columns',
+            format: "string (optional) - 'jpeg' (default), 'png', 'webp' or 'avif'",
+            quality: 'number (optional) - Encoder quality 1-100, default depends on format (jpeg/webp 80, avif 60)',
+            max_file_size_kb: 'number (optional) - Size budget per pin; quality is stepped down until each pin fits',
+        },
+        example_request: {
+            template_id: 'TMPL-abc123xy',
+            name: 'Spring sale',
+            rows: [{ title: 'Linen shirt', price: '$49' }],
+            field_mapping: { productName: 'title', productPrice: 'price' },
+        },
+        response: {
+            success: true,
+            campaign_id: '8c1d2e3f-...',
+            status: 'processing',
+            total_pins: 1,
+        },
+    });
+}
@@ -1,12 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { StaticCanvas } from 'fabric/node';
-import { v4 as uuidv4 } from 'uuid';
-import { Element } from '@/types/editor';
-import { renderTemplateServer, RenderConfig, FieldMapping, loadCustomFontsForTemplate } from '@/lib/fabric/serverEngine';
+import { loadCustomFontsForTemplate } from '@/lib/fabric/serverEngine';
 import { createServiceRoleClient } from '@/lib/supabaseServer';
-import { validateApiKey } from '@/lib/db/apiKeys';
 import { getTemplateByShortId } from '@/lib/db/templates';
-import { uploadToS3, isTebiConfigured } from '@/lib/s3';
+import { recordApiKeyUsage } from '@/lib/db/apiKeys';
+import {
+    ApiErrorResponse,
+    apiErrorResponse,
+    authenticateApiRequest,
+    checkMultiplier,
+    checkPinQuota,
+    checkTemplateAccess,
+    OutputRequestFields,
+    parseOutputOptions,
+    renderAndUploadPin,
+    withRateLimitHeaders,
+} from '@/lib/api/v1';
+import { OutputFormat } from '@/types/database.types';
 
 // Vercel Serverless Config
 export const maxDuration = 60; // Allow up to 60s for batch processing
@@ -17,11 +26,8 @@ const MAX_ROWS_PER_REQUEST = 50;
 const DEFAULT_MULTIPLIER = 1; // 1x for original canvas size (use 2 for high quality)
 const PARALLEL_BATCH_SIZE = 5; // Process 5 rows in parallel for speed
 
-// Error codes
-type ErrorCode = 'INVALID_API_KEY' | 'TEMPLATE_NOT_FOUND' | 'VALIDATION_ERROR' | 'RATE_LIMIT' | 'SERVER_ERROR';
-
 // Request/Response interfaces
-interface GenerateRequest {
+interface GenerateRequest extends OutputRequestFields {
     template_id: string;
     rows: Record<string, string>[];
     field_mapping?: Record<string, string>;
@@ -46,6 +52,7 @@ interface GenerateResponse {
     failed: FailedResult[];
     meta: {
         template_id: string;
+        format: OutputFormat;
         total_requested: number;
         successful: number;
         failed: number;
@@ -53,182 +60,74 @@ interface GenerateResponse {
     };
 }
 
-interface ErrorResponse {
-    success: false;
-    error: string;
-    code: ErrorCode;
-}
-
-/**
- * Extract API key from request headers
- * Supports: Authorization: Bearer pingen_xxx OR X-API-Key: pingen_xxx
- */
-function extractApiKey(request: NextRequest): string | null {
-    // Try Authorization header first (Bearer token)
-    const authHeader = request.headers.get('Authorization');
-    if (authHeader?.startsWith('Bearer ')) {
-        return authHeader.substring(7);
-    }
-
-    // Try X-API-Key header
-    const apiKeyHeader = request.headers.get('X-API-Key');
-    if (apiKeyHeader) {
-        return apiKeyHeader;
-    }
-
-    return null;
-}
-
-/**
- * Create error response helper
- */
-function errorResponse(error: string, code: ErrorCode, status: number): NextResponse<ErrorResponse> {
-    return NextResponse.json({ success: false, error, code }, { status });
-}
-
-/**
- * Render a single pin and upload to storage
- */
-async function renderAndUploadPin(
-    elements: Element[],
-    canvasSize: { width: number; height: number },
-    backgroundColor: string,
-    rowData: Record<string, string>,
-    fieldMapping: FieldMapping,
-    userId: string,
-    multiplier: number,
-    supabase: ReturnType<typeof createServiceRoleClient> // Reuse client for performance
-): Promise<{ url: string }> {
-
-    // Initialize Headless Canvas using fabric/node for server-side rendering
-    const canvas = new StaticCanvas(undefined, {
-        width: canvasSize.width,
-        height: canvasSize.height,
-    });
-
-    try {
-        // Render using shared engine
-        const config: RenderConfig = {
-            width: canvasSize.width,
-            height: canvasSize.height,
-            backgroundColor,
-        };
-
-        await renderTemplateServer(canvas, elements, config, rowData, fieldMapping);
-
-        // Export to data URL - JPEG 0.7 quality for speed and smaller files
-        const dataUrl = canvas.toDataURL({
-            format: 'jpeg',
-            quality: 0.7,
-            multiplier,
-        });
-
-        // Prepare buffer for upload
-        const base64Data = dataUrl.replace(/^data:image\/\w+;base64,/, '');
-        const buffer = Buffer.from(base64Data, 'base64');
-
-        // Upload to Tebi S3 Storage (preferred) or fall back to Supabase
-        const timestamp = Date.now();
-        const fileName = `pins/${userId}/${timestamp}_${uuidv4()}.jpg`;
-
-        if (isTebiConfigured()) {
-            // Use Tebi S3
-            const publicUrl = await uploadToS3(fileName, buffer, 'image/jpeg');
-            if (publicUrl) {
-                console.log(`[API] Uploaded to Tebi S3: ${publicUrl}`);
-                return { url: publicUrl };
-            }
-            // Fall through to Supabase if Tebi fails
-            console.warn('[API] Tebi upload failed, falling back to Supabase');
-        }
-
-        // Fallback: Upload to Supabase Storage
-        const bucketName = 'generated_pins';
-        const { error: uploadError } = await supabase.storage
-            .from(bucketName)
-            .upload(fileName, buffer, {
-                contentType: 'image/jpeg',
-                upsert: false,
-            });
-
-        if (uploadError) {
-            throw new Error(`Upload failed: ${uploadError.message}`);
-        }
-
-        // Get public URL from Supabase
-        const { data: { publicUrl } } = supabase.storage
-            .from(bucketName)
-            .getPublicUrl(fileName);
-
-        console.log(`[API] Uploaded to Supabase: ${publicUrl}`);
-        return { url: publicUrl };
-    } finally {
-        // Always cleanup canvas
-        canvas.dispose();
-    }
-}
-
 /**
  * POST /api/v1/generate
  * Generate Pinterest pins from a template with dynamic data
  */
-export async function POST(request: NextRequest): Promise<NextResponse<GenerateResponse | ErrorResponse>> {
+export async function POST(request: NextRequest): Promise<NextResponse<GenerateResponse | ApiErrorResponse>> {
     const startTime = Date.now();
 
     try {
-        // 1. Extract and validate API key
-        const apiKey = extractApiKey(request);
-        if (!apiKey) {
-            return errorResponse(
-                'Missing API key. Provide via Authorization: Bearer <key> or X-API-Key header.',
-                'INVALID_API_KEY',
-                401
-            );
-        }
-
-        // 2. Validate API key and get user ID
+        // 1-2. Validate API key and its scope, apply its rate limit and get user ID
         const supabase = createServiceRoleClient();
-        const { valid, userId, error: authError } = await validateApiKey(supabase, apiKey);
-
-        if (!valid || !userId) {
-            return errorResponse(
-                authError || 'Invalid API key',
-                'INVALID_API_KEY',
-                401
-            );
+        const auth = await authenticateApiRequest(request, supabase, 'generate');
+        if (auth.response) {
+            return auth.response;
         }
+        const { userId, apiKey, rateLimit } = auth;
 
         // 3. Parse and validate request body
         let body: GenerateRequest;
         try {
             body = await request.json();
         } catch {
-            return errorResponse('Invalid JSON body', 'VALIDATION_ERROR', 400);
+            return apiErrorResponse('Invalid JSON body', 'VALIDATION_ERROR', 400);
         }
 
         const { template_id, rows, field_mapping = {}, multiplier = DEFAULT_MULTIPLIER } = body;
 
         // Validate required fields
         if (!template_id) {
-            return errorResponse('template_id is required', 'VALIDATION_ERROR', 400);
+            return apiErrorResponse('template_id is required', 'VALIDATION_ERROR', 400);
+        }
+
+        const templateAccessResponse = checkTemplateAccess(apiKey, template_id);
+        if (templateAccessResponse) {
+            return withRateLimitHeaders(templateAccessResponse, rateLimit);
         }
 
         if (!rows || !Array.isArray(rows) || rows.length === 0) {
-            return errorResponse('rows must be a non-empty array', 'VALIDATION_ERROR', 400);
+            return apiErrorResponse('rows must be a non-empty array', 'VALIDATION_ERROR', 400);
+        }
+
+        const output = parseOutputOptions(body);
+        if (output.response) {
+            return output.response;
+        }
+
+        const multiplierResponse = checkMultiplier(multiplier);
+        if (multiplierResponse) {
+            return multiplierResponse;
         }
 
         if (rows.length > MAX_ROWS_PER_REQUEST) {
-            return errorResponse(
-                `Maximum ${MAX_ROWS_PER_REQUEST} rows per request. You sent ${rows.length}.`,
+            return apiErrorResponse(
+                `Maximum ${MAX_ROWS_PER_REQUEST} rows per request. You sent ${rows.length}. Use POST /api/v1/jobs for larger row sets.`,
                 'VALIDATION_ERROR',
                 400
             );
         }
 
+        // Every row may produce a pin - the whole request must fit in the monthly quota
+        const quotaResponse = await checkPinQuota(supabase, apiKey, rows.length);
+        if (quotaResponse) {
+            return withRateLimitHeaders(quotaResponse, rateLimit);
+        }
+
         // 4. Fetch template by short_id
         const template = await getTemplateByShortId(template_id, supabase);
-        if (!template) {
-            return errorResponse(
+        if (!template || template.workspace_id !== apiKey.workspaceId) {
+            return apiErrorResponse(
                 `Template not found: ${template_id}`,
                 'TEMPLATE_NOT_FOUND',
                 404
@@ -259,7 +158,8 @@ export async function POST(request: NextRequest): Promise<NextResponse<GenerateR
                         field_mapping,
                         userId,
                         multiplier,
-                        supabase // Pass shared client
+                        supabase, // Pass shared client
+                        output.options
                     );
                     return { rowIndex, url };
                 })
@@ -284,25 +184,34 @@ export async function POST(request: NextRequest): Promise<NextResponse<GenerateR
             });
         }
 
-        // 6. Return aggregated response
+        // 7. Meter successful pins against the key
+        await recordApiKeyUsage(supabase, {
+            userId,
+            keyId: apiKey.id,
+            pins: generated.length,
+            metadata: { endpoint: 'generate', template_id },
+        });
+
+        // 8. Return aggregated response
         const processingTime = Date.now() - startTime;
 
-        return NextResponse.json({
+        return withRateLimitHeaders(NextResponse.json({
             success: true,
             generated,
             failed,
             meta: {
                 template_id,
+                format: output.options.format,
                 total_requested: rows.length,
                 successful: generated.length,
                 failed: failed.length,
                 processing_time_ms: processingTime,
             },
-        });
+        }), rateLimit);
     } catch (error) {
         console.error('[api/v1/generate] Unexpected error:', error);
         const errorMessage = error instanceof Error ? error.message : 'Internal server error';
-        return errorResponse(errorMessage, 'SERVER_ERROR', 500);
+        return apiErrorResponse(errorMessage, 'SERVER_ERROR', 500);
     }
 }
 
@@ -315,11 +224,16 @@ export async function GET(): Promise<NextResponse> {
         method: 'POST',
         description: 'Generate Pinterest pins from a template with dynamic data',
         authentication: 'Bearer token or X-API-Key header',
+        rate_limits: 'Per API key: requests per minute (X-RateLimit-* headers) and pins per month. Exceeding either returns 429 with code RATE_LIMIT.',
+        scopes: "Requires an API key with the 'generate' scope (403 INSUFFICIENT_SCOPE otherwise). Keys limited to specific templates return 403 TEMPLATE_NOT_ALLOWED for any other template_id; expired keys return 401 API_KEY_EXPIRED.",
         request_body: {
             template_id: 'string (required) - Template short ID (e.g., TMPL-abc123xy)',
             rows: 'array (required) - Array of data objects, max 50 per request',
             field_mapping: 'object (optional) - Maps template fields to row columns',
-            multiplier: 'number (optional) - Image resolution multiplier, default 2',
+            multiplier: 'number (optional) - Image resolution multiplier from 0.5 to 4, default 1',
+            format: "string (optional) - 'jpeg' (default), 'png', 'webp' or 'avif'",
+            quality: 'number (optional) - Encoder quality 1-100, default depends on format (jpeg/webp 80, avif 60)',
+            max_file_size_kb: 'number (optional) - Size budget per pin; quality is stepped down until each pin fits, rows that cannot fit fail',
         },
         example_request: {
             template_id: 'TMPL-abc123xy',
@@ -338,6 +252,7 @@ export async function GET(): Promise<NextResponse> {
             failed: [],
             meta: {
                 template_id: 'TMPL-abc123xy',
+                format: 'jpeg',
                 total_requested: 2,
                 successful: 2,
                 failed: 0,
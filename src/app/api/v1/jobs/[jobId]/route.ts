@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { inngest } from '@/inngest/client';
+import { createServiceRoleClient } from '@/lib/supabaseServer';
+import { getApiJobSummary, cancelApiJob, listApiJobResults } from '@/lib/db/apiJobs';
+import { getProgress, setProgress } from '@/lib/redis';
+import { ApiErrorResponse, apiErrorResponse, authenticateApiRequest, withRateLimitHeaders } from '@/lib/api/v1';
+import { emitApiJobEvent } from '@/lib/webhooks/emit';
+import { ApiJobStatus } from '@/types/database.types';
+
+export const dynamic = 'force-dynamic';
+
+interface JobStatusResponse {
+    success: true;
+    job_id: string;
+    status: ApiJobStatus;
+    progress: {
+        total: number;
+        completed: number;
+        failed: number;
+        percent: number;
+    };
+    generated: { row_index: number; url: string; status: 'success' }[];
+    failed: { row_index: number; error: string; status: 'error' }[];
+    error: string | null;
+    created_at: string;
+    started_at: string | null;
+    completed_at: string | null;
+    cancelled_at: string | null;
+}
+
+/**
+ * GET /api/v1/jobs/:jobId
+ * Report job status, live progress and result URLs
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ jobId: string }> }
+): Promise<NextResponse<JobStatusResponse | ApiErrorResponse>> {
+    try {
+        const { jobId } = await params;
+
+        const supabase = createServiceRoleClient();
+        const auth = await authenticateApiRequest(request, supabase, 'generate');
+        if (auth.response) {
+            return auth.response;
+        }
+
+        const job = await getApiJobSummary(supabase, jobId, auth.userId);
+        if (!job) {
+            return apiErrorResponse(`Job not found: ${jobId}`, 'JOB_NOT_FOUND', 404);
+        }
+
+        const results = await listApiJobResults(supabase, jobId);
+        const generated = results
+            .filter(r => r.status === 'success' && r.url)
+            .map(r => ({ row_index: r.row_index, url: r.url!, status: 'success' as const }));
+        const failed = results
+            .filter(r => r.status === 'error')
+            .map(r => ({ row_index: r.row_index, error: r.error || 'Unknown error', status: 'error' as const }));
+
+        // Prefer live Redis counters; fall back to persisted results when Redis is unavailable/expired
+        const progress = await getProgress(jobId);
+        const total = job.total_rows || progress?.total || 0;
+        const completed = progress?.completed ?? generated.length;
+        const failedCount = progress?.failed ?? failed.length;
+
+        return withRateLimitHeaders(NextResponse.json({
+            success: true,
+            job_id: job.id,
+            status: job.status,
+            progress: {
+                total,
+                completed,
+                failed: failedCount,
+                percent: total > 0 ? Math.round(((completed + failedCount) / total) * 100) : 0,
+            },
+            generated,
+            failed,
+            error: job.error_message,
+            created_at: job.created_at,
+            started_at: job.started_at,
+            completed_at: job.completed_at,
+            cancelled_at: job.cancelled_at,
+        }), auth.rateLimit);
+    } catch (error) {
+        console.error('[api/v1/jobs/:id] Unexpected error:', error);
+        const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+        return apiErrorResponse(errorMessage, 'SERVER_ERROR', 500);
+    }
+}
+
+/**
+ * DELETE /api/v1/jobs/:jobId
+ * Cancel a queued or running job. Rows already rendered keep their results.
+ */
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ jobId: string }> }
+): Promise<NextResponse> {
+    try {
+        const { jobId } = await params;
+
+        const supabase = createServiceRoleClient();
+        const auth = await authenticateApiRequest(request, supabase, 'generate');
+        if (auth.response) {
+            return auth.response;
+        }
+
+        const cancelled = await cancelApiJob(supabase, jobId, auth.userId);
+        if (!cancelled) {
+            const existing = await getApiJobSummary(supabase, jobId, auth.userId);
+            if (!existing) {
+                return apiErrorResponse(`Job not found: ${jobId}`, 'JOB_NOT_FOUND', 404);
+            }
+            return apiErrorResponse(
+                `Job already ${existing.status} and cannot be cancelled`,
+                'VALIDATION_ERROR',
+                409
+            );
+        }
+
+        await setProgress(jobId, { status: 'cancelled' });
+
+        // Stop in-flight Inngest runs; batches also re-check the job status between chunks
+        try {
+            await inngest.send({ name: 'api/job.cancelled', data: { jobId } });
+        } catch (sendError) {
+            console.warn('[api/v1/jobs/:id] Failed to send cancel event:', sendError);
+        }
+
+        await emitApiJobEvent(supabase, cancelled, 'job.cancelled');
+
+        return withRateLimitHeaders(NextResponse.json({
+            success: true,
+            job_id: jobId,
+            status: cancelled.status,
+            cancelled_at: cancelled.cancelled_at,
+        }), auth.rateLimit);
+    } catch (error) {
+        console.error('[api/v1/jobs/:id] Unexpected error:', error);
+        const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+        return apiErrorResponse(errorMessage, 'SERVER_ERROR', 500);
+    }
+}
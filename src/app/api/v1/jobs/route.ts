@@ -0,0 +1,217 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { inngest } from '@/inngest/client';
+import { createServiceRoleClient } from '@/lib/supabaseServer';
+import { getTemplateByShortId } from '@/lib/db/templates';
+import { createApiJob, MAX_ROWS_PER_JOB, updateApiJob } from '@/lib/db/apiJobs';
+import { setProgress } from '@/lib/redis';
+import { assertPublicUrl, ImageFetchError } from '@/lib/images/safeFetch';
+import {
+    ApiErrorResponse,
+    apiErrorResponse,
+    authenticateApiRequest,
+    checkMultiplier,
+    checkPinQuota,
+    checkTemplateAccess,
+    checkTemplateApproved,
+    OutputRequestFields,
+    parseOutputOptions,
+    withRateLimitHeaders,
+} from '@/lib/api/v1';
+
+// Vercel Serverless Config
+export const maxDuration = 10; // Fast response - rendering happens in Inngest
+export const dynamic = 'force-dynamic';
+
+// Constants
+const DEFAULT_MULTIPLIER = 1;
+
+// Request/Response interfaces
+interface CreateJobRequest extends OutputRequestFields {
+    template_id: string;
+    rows?: Record<string, string>[];
+    csv_url?: string;
+    field_mapping?: Record<string, string>;
+    multiplier?: number;
+}
+
+interface CreateJobResponse {
+    success: true;
+    job_id: string;
+    status: 'queued';
+    status_url: string;
+    total_rows: number | null;
+}
+
+/**
+ * POST /api/v1/jobs
+ * Queue an asynchronous render job for a large row set or a CSV URL
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<CreateJobResponse | ApiErrorResponse>> {
+    try {
+        // 1. Validate API key and its scope, apply its rate limit and get user ID
+        const supabase = createServiceRoleClient();
+        const auth = await authenticateApiRequest(request, supabase, 'generate');
+        if (auth.response) {
+            return auth.response;
+        }
+        const { userId, apiKey, rateLimit } = auth;
+
+        // 2. Parse and validate request body
+        let body: CreateJobRequest;
+        try {
+            body = await request.json();
+        } catch {
+            return apiErrorResponse('Invalid JSON body', 'VALIDATION_ERROR', 400);
+        }
+
+        const { template_id, rows, csv_url, field_mapping = {}, multiplier = DEFAULT_MULTIPLIER } = body;
+
+        if (!template_id) {
+            return apiErrorResponse('template_id is required', 'VALIDATION_ERROR', 400);
+        }
+
+        const templateAccessResponse = checkTemplateAccess(apiKey, template_id);
+        if (templateAccessResponse) {
+            return withRateLimitHeaders(templateAccessResponse, rateLimit);
+        }
+
+        const output = parseOutputOptions(body);
+        if (output.response) {
+            return output.response;
+        }
+
+        const multiplierResponse = checkMultiplier(multiplier);
+        if (multiplierResponse) {
+            return multiplierResponse;
+        }
+
+        if (rows !== undefined && csv_url !== undefined) {
+            return apiErrorResponse('Provide either rows or csv_url, not both', 'VALIDATION_ERROR', 400);
+        }
+
+        if (csv_url !== undefined) {
+            // The worker checks again when it downloads; this reports bad URLs right away
+            try {
+                await assertPublicUrl(csv_url);
+            } catch (error) {
+                const message = error instanceof ImageFetchError ? error.message : 'invalid URL';
+                return apiErrorResponse(`csv_url must be a public http(s) URL: ${message}`, 'VALIDATION_ERROR', 400);
+            }
+        } else {
+            if (!rows || !Array.isArray(rows) || rows.length === 0) {
+                return apiErrorResponse('rows must be a non-empty array (or provide csv_url)', 'VALIDATION_ERROR', 400);
+            }
+
+            if (rows.length > MAX_ROWS_PER_JOB) {
+                return apiErrorResponse(
+                    `Maximum ${MAX_ROWS_PER_JOB} rows per job. You sent ${rows.length}.`,
+                    'VALIDATION_ERROR',
+                    400
+                );
+            }
+
+            // CSV row counts are only known to the worker, which re-checks the quota
+            const quotaResponse = await checkPinQuota(supabase, apiKey, rows.length);
+            if (quotaResponse) {
+                return withRateLimitHeaders(quotaResponse, rateLimit);
+            }
+        }
+
+        // 3. Fetch template by short_id
+        const template = await getTemplateByShortId(template_id, supabase);
+        if (!template || template.workspace_id !== apiKey.workspaceId) {
+            return apiErrorResponse(`Template not found: ${template_id}`, 'TEMPLATE_NOT_FOUND', 404);
+        }
+
+        const approvalResponse = checkTemplateApproved(template.status, template_id);
+        if (approvalResponse) {
+            return withRateLimitHeaders(approvalResponse, rateLimit);
+        }
+
+        // 4. Create job record
+        const job = await createApiJob(supabase, {
+            user_id: userId,
+            api_key_id: apiKey.id,
+            template_id: template.id,
+            template_short_id: template_id,
+            rows: rows ?? null,
+            csv_url: csv_url ?? null,
+            field_mapping,
+            multiplier,
+            output_format: output.options.format,
+            output_quality: output.options.quality,
+            max_file_size_kb: output.options.maxFileSizeKb,
+            total_rows: rows?.length ?? 0,
+        });
+
+        if (!job) {
+            return apiErrorResponse('Failed to create job', 'SERVER_ERROR', 500);
+        }
+
+        // 5. Queue for Inngest and seed progress so status polls work immediately
+        await setProgress(job.id, { total: job.total_rows, completed: 0, failed: 0, status: 'pending' });
+
+        try {
+            await inngest.send({ name: 'api/job.requested', data: { jobId: job.id } });
+        } catch (sendError) {
+            console.error('[api/v1/jobs] Failed to queue job:', sendError);
+            await updateApiJob(supabase, job.id, {
+                status: 'failed',
+                error_message: 'Failed to queue job',
+                completed_at: new Date().toISOString(),
+            });
+            return apiErrorResponse('Failed to queue job', 'SERVER_ERROR', 500);
+        }
+
+        return withRateLimitHeaders(NextResponse.json({
+            success: true,
+            job_id: job.id,
+            status: 'queued',
+            status_url: `/api/v1/jobs/${job.id}`,
+            total_rows: rows ? rows.length : null, // Unknown until the CSV is parsed
+        }, { status: 202 }), rateLimit);
+    } catch (error) {
+        console.error('[api/v1/jobs] Unexpected error:', error);
+        const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+        return apiErrorResponse(errorMessage, 'SERVER_ERROR', 500);
+    }
+}
+
+/**
+ * GET /api/v1/jobs - Return API documentation
+ */
+export async function GET(): Promise<NextResponse> {
+    return NextResponse.json({
+        endpoint: '/api/v1/jobs',
+        method: 'POST',
+        description: 'Queue an asynchronous render job. Poll GET /api/v1/jobs/:id for status and results, DELETE /api/v1/jobs/:id to cancel.',
+        authentication: 'Bearer token or X-API-Key header',
+        rate_limits: 'Per API key: requests per minute (X-RateLimit-* headers) and pins per month. Exceeding either returns 429 with code RATE_LIMIT.',
+        scopes: "Requires an API key with the 'generate' scope (403 INSUFFICIENT_SCOPE otherwise). Keys limited to specific templates return 403 TEMPLATE_NOT_ALLOWED for any other template_id, templates that haven't been approved return 403 TEMPLATE_NOT_APPROVED; expired keys return 401 API_KEY_EXPIRED.",
+        request_body: {
+            template_id: 'string (required) - Template short ID (e.g., TMPL-abc123xy)',
+            rows: `array (rows or csv_url required) - Array of data objects, max ${MAX_ROWS_PER_JOB} per job`,
+            csv_url: `string (rows or csv_url required) - Public URL of a CSV file with a header row, max 5MB and ${MAX_ROWS_PER_JOB} rows`,
+            field_mapping: 'object (optional) - Maps template fields to row columns',
+            multiplier: 'number (optional) - Image resolution multiplier from 0.5 to 4, default 1',
+            format: "string (optional) - 'jpeg' (default), 'png', 'webp' or 'avif'",
+            quality: 'number (optional) - Encoder quality 1-100, default depends on format (jpeg/webp 80, avif 60)',
+            max_file_size_kb: 'number (optional) - Size budget per pin; quality is stepped down until each pin fits, rows that cannot fit fail',
+        },
+        example_request: {
+            template_id: 'TMPL-abc123xy',
+            csv_url: 'https://example.com/products.csv',
+            field_mapping: {
+                productName: 'title',
+                productPrice: 'price',
+            },
+        },
+        response: {
+            success: true,
+            job_id: '3f2b7c1e-...',
+            status: 'queued',
+            status_url: '/api/v1/jobs/3f2b7c1e-...',
+            total_rows: null,
+        },
+    });
+}
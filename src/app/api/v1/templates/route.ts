@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabaseServer';
+import { getTemplatesForWorkspace } from '@/lib/db/templates';
+import { extractDynamicFieldsFromElements } from '@/lib/utils/fieldNameParser';
+import { isTemplateAllowed } from '@/lib/auth/apiKeyAuth';
+import { ApiErrorResponse, apiErrorResponse, authenticateApiRequest, withRateLimitHeaders } from '@/lib/api/v1';
+
+export const dynamic = 'force-dynamic';
+
+interface TemplateSummary {
+    template_id: string;
+    name: string;
+    width: number;
+    height: number;
+    dynamic_fields: { name: string; type: 'text' | 'image' }[];
+    updated_at: string;
+}
+
+interface ListTemplatesResponse {
+    success: true;
+    templates: TemplateSummary[];
+}
+
+/**
+ * GET /api/v1/templates
+ * List the templates this API key can render, with the fields each one expects
+ */
+export async function GET(request: NextRequest): Promise<NextResponse<ListTemplatesResponse | ApiErrorResponse>> {
+    try {
+        const supabase = createServiceRoleClient();
+        const auth = await authenticateApiRequest(request, supabase, 'templates:read');
+        if (auth.response) {
+            return auth.response;
+        }
+        const { apiKey, rateLimit } = auth;
+
+        const templates = await getTemplatesForWorkspace(apiKey.workspaceId, supabase);
+
+        const summaries: TemplateSummary[] = templates
+            .filter(t => t.short_id && isTemplateAllowed(apiKey.allowedTemplateIds, t.short_id))
+            .map(t => {
+                const fieldElements = (t.elements || []).flatMap(el =>
+                    el.type === 'text' || el.type === 'image' ? [el] : []
+                );
+                return {
+                    template_id: t.short_id!,
+                    name: t.name,
+                    width: t.canvas_size.width,
+                    height: t.canvas_size.height,
+                    dynamic_fields: extractDynamicFieldsFromElements(fieldElements).map(f => ({
+                        name: f.fieldName,
+                        type: f.fieldType,
+                    })),
+                    updated_at: t.updated_at,
+                };
+            });
+
+        return withRateLimitHeaders(NextResponse.json({ success: true as const, templates: summaries }), rateLimit);
+    } catch (error) {
+        console.error('[api/v1/templates] Unexpected error:', error);
+        const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+        return apiErrorResponse(errorMessage, 'SERVER_ERROR', 500);
+    }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listWebhookDeliveries } from '@/lib/db/webhooks';
+import { createServiceRoleClient, getAuthenticatedSupabase } from '@/lib/supabaseServer';
+import { WebhookDeliveryStatus } from '@/types/database.types';
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'succeeded', 'failed'];
+
+// GET: Webhook delivery log (newest first)
+export async function GET(request: NextRequest) {
+    try {
+        const supabase = await getAuthenticatedSupabase();
+        if (!supabase) {
+            return NextResponse.json({ error: 'Server configuration error' }, { status: 503 });
+        }
+
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { searchParams } = new URL(request.url);
+        const page = Math.max(1, parseInt(searchParams.get('page') || '1'));
+        const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '50')));
+        const endpointId = searchParams.get('endpoint_id') || undefined;
+        const statusParam = searchParams.get('status');
+        const status = DELIVERY_STATUSES.find(s => s === statusParam);
+
+        // Use service role client for SELECT to bypass RLS
+        const serviceClient = createServiceRoleClient();
+        const { data, total } = await listWebhookDeliveries(serviceClient, user.id, {
+            endpointId,
+            status,
+            limit,
+            offset: (page - 1) * limit,
+        });
+
+        return NextResponse.json({
+            success: true,
+            data,
+            meta: { page, limit, total, hasMore: total > page * limit },
+        });
+    } catch (error) {
+        console.error('[api/webhooks/deliveries] GET error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
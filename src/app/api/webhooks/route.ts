@@ -0,0 +1,172 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    createWebhookEndpoint,
+    listWebhookEndpoints,
+    updateWebhookEndpoint,
+    deleteWebhookEndpoint,
+} from '@/lib/db/webhooks';
+import { createServiceRoleClient, getAuthenticatedSupabase } from '@/lib/supabaseServer';
+import { generateWebhookSecret } from '@/lib/webhooks/signing';
+import { assertPublicUrl, ImageFetchError } from '@/lib/images/safeFetch';
+import { CreateWebhookEndpointSchema, UpdateWebhookEndpointSchema, validateRequest } from '@/lib/validations';
+import { WebhookEventType } from '@/types/database.types';
+
+// Endpoints per account - each event fans out to every subscribed endpoint
+const MAX_ENDPOINTS_PER_USER = 10;
+
+// GET: List webhook endpoints
+export async function GET() {
+    try {
+        const supabase = await getAuthenticatedSupabase();
+        if (!supabase) {
+            return NextResponse.json({ error: 'Server configuration error' }, { status: 503 });
+        }
+
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        // Use service role client for SELECT to bypass RLS
+        const serviceClient = createServiceRoleClient();
+        const endpoints = await listWebhookEndpoints(serviceClient, user.id);
+        return NextResponse.json({ success: true, data: endpoints });
+    } catch (error) {
+        console.error('[api/webhooks] GET error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+// POST: Register webhook endpoint (signing secret is returned once)
+export async function POST(request: NextRequest) {
+    try {
+        const supabase = await getAuthenticatedSupabase();
+        if (!supabase) {
+            return NextResponse.json({ error: 'Server configuration error' }, { status: 503 });
+        }
+
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const validation = validateRequest(CreateWebhookEndpointSchema, await request.json());
+        if (!validation.success) {
+            return NextResponse.json({ error: validation.error }, { status: 400 });
+        }
+
+        const serviceClient = createServiceRoleClient();
+        const existing = await listWebhookEndpoints(serviceClient, user.id);
+        if (existing.length >= MAX_ENDPOINTS_PER_USER) {
+            return NextResponse.json(
+                { error: `Maximum ${MAX_ENDPOINTS_PER_USER} webhook endpoints per account` },
+                { status: 400 }
+            );
+        }
+
+        const { url, description, events } = validation.data;
+
+        // Deliveries are checked again at connect time; this catches the mistake up front
+        try {
+            await assertPublicUrl(url);
+        } catch (error) {
+            if (!(error instanceof ImageFetchError)) throw error;
+            return NextResponse.json({ error: `Webhook URL must point to a public address: ${error.message}` }, { status: 400 });
+        }
+
+        const endpoint = await createWebhookEndpoint(serviceClient, {
+            user_id: user.id,
+            url,
+            description: description || null,
+            events: events as WebhookEventType[],
+            secret: generateWebhookSecret(),
+        });
+
+        if (!endpoint) {
+            return NextResponse.json({ error: 'Failed to create webhook endpoint' }, { status: 500 });
+        }
+
+        const { secret, ...listItem } = endpoint;
+        return NextResponse.json({ success: true, data: { secret, endpoint: listItem } }, { status: 201 });
+    } catch (error) {
+        console.error('[api/webhooks] POST error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+// PATCH: Update events, description or active state
+export async function PATCH(request: NextRequest) {
+    try {
+        const supabase = await getAuthenticatedSupabase();
+        if (!supabase) {
+            return NextResponse.json({ error: 'Server configuration error' }, { status: 503 });
+        }
+
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { searchParams } = new URL(request.url);
+        const endpointId = searchParams.get('id');
+
+        if (!endpointId) {
+            return NextResponse.json({ error: 'Endpoint ID is required' }, { status: 400 });
+        }
+
+        const validation = validateRequest(UpdateWebhookEndpointSchema, await request.json());
+        if (!validation.success) {
+            return NextResponse.json({ error: validation.error }, { status: 400 });
+        }
+
+        const { events, ...rest } = validation.data;
+        const serviceClient = createServiceRoleClient();
+        const endpoint = await updateWebhookEndpoint(serviceClient, endpointId, user.id, {
+            ...rest,
+            ...(events ? { events: events as WebhookEventType[] } : {}),
+        });
+
+        if (!endpoint) {
+            return NextResponse.json({ error: 'Webhook endpoint not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true, data: endpoint });
+    } catch (error) {
+        console.error('[api/webhooks] PATCH error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
+
+// DELETE: Remove webhook endpoint and its delivery log
+export async function DELETE(request: NextRequest) {
+    try {
+        const supabase = await getAuthenticatedSupabase();
+        if (!supabase) {
+            return NextResponse.json({ error: 'Server configuration error' }, { status: 503 });
+        }
+
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { searchParams } = new URL(request.url);
+        const endpointId = searchParams.get('id');
+
+        if (!endpointId) {
+            return NextResponse.json({ error: 'Endpoint ID is required' }, { status: 400 });
+        }
+
+        const serviceClient = createServiceRoleClient();
+        const success = await deleteWebhookEndpoint(serviceClient, endpointId, user.id);
+
+        if (!success) {
+            return NextResponse.json({ error: 'Failed to delete webhook endpoint' }, { status: 500 });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('[api/webhooks] DELETE error:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
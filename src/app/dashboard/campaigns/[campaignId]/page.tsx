@@ -18,7 +18,13 @@ import { GenerationSettingsPanel } from '@/components/campaign/GenerationSetting
 import { PinsGrid, PinCardData } from '@/components/campaign/PinCard';
 import { ExportToolbar } from '@/components/campaign/ExportToolbar';
 import { CampaignDetailsPanel } from '@/components/campaign/CampaignDetailsPanel';
+import { PinterestPublishPanel } from '@/components/campaign/PinterestPublishPanel';
+import { PublishScheduleCalendar } from '@/components/campaign/PublishScheduleCalendar';
+import { DataSourceSyncPanel } from '@/components/campaign/DataSourceSyncPanel';
+import { PinCommentsDrawer } from '@/components/campaign/PinCommentsDrawer';
+import { useCampaignCommentCounts } from '@/hooks/useComments';
 import { SelectionActionBar, DeleteConfirmationModal } from '@/components/ui/BulkActions';
+import { resolveOutputOptions } from '@/lib/output/formats';
 import { Element, CanvasSize } from '@/types/editor';
 import { toast } from 'sonner';
 
@@ -64,6 +70,8 @@ export default function CampaignDetailPage() {
     const [deleteProgress, setDeleteProgress] = useState({ current: 0, total: 0 });
     const [pagination, setPagination] = useState({ page: 1, limit: 50, hasMore: true, total: 0, isLoading: false });
     const [pinToDelete, setPinToDelete] = useState<PinCardData | null>(null);
+    const [commentPin, setCommentPin] = useState<PinCardData | null>(null);
+    const { data: commentCounts } = useCampaignCommentCounts(campaignId);
 
     // Redirect if not authenticated
     useEffect(() => {
@@ -268,16 +276,28 @@ export default function CampaignDetailPage() {
     }, [campaign]);
 
     // Handle status change
+    // Goes through the API (not updateCampaign) so the server can emit webhook events
     const handleStatusChange = useCallback(async (status: string) => {
         if (campaign) {
             log('[CampaignPage] Updating status to:', status, 'for campaign:', campaign.id);
-            const updateData: Record<string, unknown> = { status };
-            if (status === 'paused') {
-                updateData.paused_at = new Date().toISOString();
-            } else if (status === 'completed') {
-                updateData.completed_at = new Date().toISOString();
+            let success = false;
+            try {
+                const { data: { session } } = await supabase.auth.getSession();
+                const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+                if (session?.access_token) {
+                    headers['Authorization'] = `Bearer ${session.access_token}`;
+                }
+
+                const response = await fetch(`/api/campaign-status/${campaign.id}`, {
+                    method: 'POST',
+                    credentials: 'include',
+                    headers,
+                    body: JSON.stringify({ status }),
+                });
+                success = response.ok;
+            } catch (error) {
+                console.error('[CampaignPage] Status update failed:', error);
             }
-            const success = await updateCampaign(campaign.id, updateData);
             log('[CampaignPage] Update result:', success);
             if (success) {
                 setCampaign((prev) => prev ? { ...prev, status: status as 'pending' | 'processing' | 'paused' | 'completed' | 'failed' } : null);
@@ -285,6 +305,13 @@ export default function CampaignDetailPage() {
         }
     }, [campaign]);
 
+    // A data source sync replaces the rows and counts, and marks some pins stale
+    const handleSourceSynced = useCallback(async () => {
+        const campaignData = await getCampaign(campaignId);
+        if (campaignData) setCampaign(campaignData);
+        loadGeneratedPins(true);
+    }, [campaignId, loadGeneratedPins]);
+
     // Handle pin preview
     const handlePreview = useCallback((pin: PinCardData) => {
         setPreviewPin(pin);
@@ -336,6 +363,13 @@ export default function CampaignDetailPage() {
         failed: generatedPins.filter(p => p.status === 'failed').length
     }), [generatedPins]);
 
+    // Output format for pins generated from this campaign
+    const outputOptions = React.useMemo(() => resolveOutputOptions({
+        format: campaign?.output_format,
+        quality: campaign?.output_quality,
+        maxFileSizeKb: campaign?.max_file_size_kb,
+    }), [campaign?.output_format, campaign?.output_quality, campaign?.max_file_size_kb]);
+
     // Select all pins (filtered)
     const handleSelectAll = useCallback(() => {
         setSelectAllScope('page');
@@ -529,6 +563,7 @@ export default function CampaignDetailPage() {
                             canvasWidth={template?.canvas_size.width}
                             canvasHeight={template?.canvas_size.height}
                             templateId={campaign.template_id}
+                            templateVersion={campaign.template_version}
                             csvRowCount={csvData.length}
                             createdAt={campaign.created_at}
                             status={campaign.status}
@@ -543,6 +578,28 @@ export default function CampaignDetailPage() {
                                 disabled={campaign.status === 'processing'}
                             />
                         )}
+
+                        {/* Pinterest Publishing */}
+                        <PinterestPublishPanel
+                            campaignId={campaign.id}
+                            csvHeaders={Object.keys(csvData[0] || {})}
+                            boardId={campaign.pinterest_board_id}
+                            contentMapping={campaign.pin_content_mapping}
+                            autoPost={campaign.auto_post}
+                            onSaved={(updates) => setCampaign(prev => prev ? { ...prev, ...updates } : prev)}
+                        />
+
+                        {/* Live Data Source */}
+                        <DataSourceSyncPanel
+                            campaignId={campaign.id}
+                            csvHeaders={Object.keys(csvData[0] || {})}
+                            dataSource={campaign.data_source}
+                            lastSyncedAt={campaign.last_synced_at}
+                            lastSyncSummary={campaign.last_sync_summary}
+                            disabled={campaign.status === 'processing'}
+                            onSaved={(dataSource) => setCampaign(prev => prev ? { ...prev, data_source: dataSource } : prev)}
+                            onSynced={handleSourceSynced}
+                        />
                     </div>
 
                     {/* Right Column: Generation & Pins */}
@@ -557,8 +614,10 @@ export default function CampaignDetailPage() {
                             // Multi-template props
                             templateSnapshots={campaign.template_snapshot || undefined}
                             distributionMode={campaign.distribution_mode || 'sequential'}
+                            distributionConfig={campaign.distribution_config}
                             csvData={csvData}
                             fieldMapping={fieldMapping}
+                            outputOptions={outputOptions}
                             initialSettings={settings}
                             initialProgress={campaign.current_index || 0}
                             initialStatus={campaign.status}
@@ -568,6 +627,12 @@ export default function CampaignDetailPage() {
                             onStatusChange={handleStatusChange}
                         />
 
+                        {/* Publishing Schedule */}
+                        <PublishScheduleCalendar
+                            campaignId={campaign.id}
+                            boardId={campaign.pinterest_board_id}
+                        />
+
                         {/* Sync Controls */}
                         <div className="flex justify-end">
                             <button
@@ -659,6 +724,8 @@ export default function CampaignDetailPage() {
                                             showSelection={selectedPinIds.size > 0}
                                             onPreview={handlePreview}
                                             onDeletePin={handleDeletePin}
+                                            onCommentPin={setCommentPin}
+                                            commentCounts={commentCounts}
                                         />
                                         
                                         {/* Pagination Controls */}
@@ -769,6 +836,15 @@ export default function CampaignDetailPage() {
                 deleteProgress={deleteProgress}
             />
 
+            {/* Pin Review Comments */}
+            {commentPin && (
+                <PinCommentsDrawer
+                    campaignId={campaignId}
+                    pin={commentPin}
+                    onClose={() => setCommentPin(null)}
+                />
+            )}
+
             {/* Preview Modal */}
             {previewPin && (
                 <div
@@ -11,12 +11,15 @@ import {
     Table,
     Link2,
     Check,
-    X
+    X,
+    Image as ImageIcon
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useCampaignWizard } from '@/lib/campaigns/CampaignWizardContext';
 import { parseCSVFile } from '@/lib/utils/csvParser';
 import { fetchCsvFromUrl, validateCsvUrl } from '@/lib/utils/csvUrlParser';
+import { OUTPUT_FORMATS, getOutputFormatInfo } from '@/lib/output/formats';
+import { OutputFormat } from '@/types/database.types';
 
 type UploadTab = 'file' | 'url';
 
@@ -32,7 +35,9 @@ export function ConfigurationSidebar({ className, horizontal = false }: Configur
         campaignDescription, 
         setCampaignDescription,
         csvData,
-        setCSVData 
+        setCSVData,
+        outputOptions,
+        setOutputOptions
     } = useCampaignWizard();
     
     const fileInputRef = useRef<HTMLInputElement>(null);
@@ -48,6 +53,17 @@ export function ConfigurationSidebar({ className, horizontal = false }: Configur
     const [urlInput, setUrlInput] = useState('');
     const [urlValid, setUrlValid] = useState<boolean | null>(null);
     
+    const outputFormatInfo = getOutputFormatInfo(outputOptions.format);
+    
+    // Switching format resets quality to that format's default
+    const handleFormatChange = useCallback((format: OutputFormat) => {
+        setOutputOptions({
+            ...outputOptions,
+            format,
+            quality: getOutputFormatInfo(format).defaultQuality,
+        });
+    }, [outputOptions, setOutputOptions]);
+    
     // Validation
     const validateName = useCallback(() => {
         if (!campaignName.trim()) {
@@ -467,6 +483,73 @@ export function ConfigurationSidebar({ className, horizontal = false }: Configur
                     </div>
                 )}
             </div>
+            
+            {/* Output - Full width when horizontal */}
+            <div className={cn("space-y-4", horizontal && "md:col-span-2")}>
+                <h3 className="text-xs font-bold text-gray-400 uppercase tracking-wider flex items-center gap-1.5">
+                    <ImageIcon className="w-3.5 h-3.5" /> Output
+                </h3>
+                
+                <div className="grid grid-cols-3 gap-3">
+                    <div className="space-y-1.5">
+                        <label htmlFor="output-format" className="block text-xs font-semibold text-gray-700">
+                            Format
+                        </label>
+                        <select
+                            id="output-format"
+                            value={outputOptions.format}
+                            onChange={(e) => handleFormatChange(e.target.value as OutputFormat)}
+                            className="w-full px-3 py-2 bg-gray-50 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-primary-creative/20 focus:border-primary-creative focus:bg-white"
+                        >
+                            {OUTPUT_FORMATS.map(f => (
+                                <option key={f.format} value={f.format}>{f.label}</option>
+                            ))}
+                        </select>
+                    </div>
+                    
+                    <div className="space-y-1.5">
+                        <label htmlFor="output-quality" className="block text-xs font-semibold text-gray-700">
+                            Quality
+                        </label>
+                        <input
+                            id="output-quality"
+                            type="number"
+                            min={1}
+                            max={100}
+                            value={outputOptions.quality}
+                            onChange={(e) => setOutputOptions({
+                                ...outputOptions,
+                                quality: Math.min(100, Math.max(1, parseInt(e.target.value, 10) || 1)),
+                            })}
+                            className="w-full px-3 py-2 bg-gray-50 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-primary-creative/20 focus:border-primary-creative focus:bg-white"
+                        />
+                    </div>
+                    
+                    <div className="space-y-1.5">
+                        <label htmlFor="output-max-size" className="block text-xs font-semibold text-gray-700">
+                            Max size (KB)
+                        </label>
+                        <input
+                            id="output-max-size"
+                            type="number"
+                            min={1}
+                            value={outputOptions.maxFileSizeKb ?? ''}
+                            onChange={(e) => {
+                                const kb = parseInt(e.target.value, 10);
+                                setOutputOptions({ ...outputOptions, maxFileSizeKb: kb > 0 ? kb : null });
+                            }}
+                            placeholder="No limit"
+                            className="w-full px-3 py-2 bg-gray-50 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-primary-creative/20 focus:border-primary-creative focus:bg-white"
+                        />
+                    </div>
+                </div>
+                
+                <p className="text-xs text-gray-500">
+                    {outputFormatInfo.lossless
+                        ? 'PNG is lossless - quality only applies when a size budget needs it.'
+                        : 'Quality is lowered automatically if a pin is over the size budget.'}
+                </p>
+            </div>
         </aside>
     );
 }
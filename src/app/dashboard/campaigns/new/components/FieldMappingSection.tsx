@@ -15,17 +15,20 @@ import {
     Table,
     FileText,
     Link2,
-    Loader2
+    Loader2,
+    Palette
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useCampaignWizard } from '@/lib/campaigns/CampaignWizardContext';
 import { autoMapFields } from '@/lib/utils/csvParser';
 import { getTemplate } from '@/lib/db/templates';
+import { extractTemplateFields } from '@/lib/fabric/expression-shared';
+import { extractStyleBindingFields, parseColorValue, parseOpacityValue } from '@/lib/fabric/style-shared';
 import { Element, TextElement, ImageElement, TemplateField } from '@/types/editor';
 
 interface DynamicField {
     name: string;
-    type: 'text' | 'image';
+    type: 'text' | 'image' | 'color' | 'opacity';
     layerName: string;
     required: boolean;
     isAdditional?: boolean;
@@ -33,6 +36,16 @@ interface DynamicField {
     templateSources?: { id: string; name: string }[];
 }
 
+// Columns read by style bindings (colors, opacity) - never saved in dynamic_fields
+function appendStyleBindingFields(fields: DynamicField[], seen: Set<string>, elements: Element[]) {
+    extractStyleBindingFields(elements).forEach(({ field, kind, layerName }) => {
+        if (!seen.has(field)) {
+            seen.add(field);
+            fields.push({ name: field, type: kind, layerName, required: false });
+        }
+    });
+}
+
 // Extract dynamic fields from template
 function extractDynamicFields(
     elements: Element[],
@@ -54,6 +67,7 @@ function extractDynamicFields(
                 });
             }
         });
+        appendStyleBindingFields(fields, seen, elements);
         return fields.sort((a, b) => {
             if (a.type !== b.type) return a.type === 'image' ? -1 : 1;
             return a.name.localeCompare(b.name, undefined, { numeric: true });
@@ -73,23 +87,18 @@ function extractDynamicFields(
                     required: fields.filter(f => f.type === 'text').length === 0
                 });
             }
-            // Also check for {{field}} patterns in text content
-            const textContent = textEl.text || '';
-            const matches = textContent.match(/\{\{(\w+)\}\}/g);
-            if (matches) {
-                matches.forEach((match) => {
-                    const fieldName = match.replace(/\{\{|\}\}/g, '');
-                    if (!seen.has(fieldName)) {
-                        seen.add(fieldName);
-                        fields.push({
-                            name: fieldName,
-                            type: 'text',
-                            layerName: element.name,
-                            required: false
-                        });
-                    }
-                });
-            }
+            // Also check for {{field}} tags in text content (filters like {{price | currency:'USD'}} included)
+            extractTemplateFields(textEl.text || '').forEach((fieldName) => {
+                if (!seen.has(fieldName)) {
+                    seen.add(fieldName);
+                    fields.push({
+                        name: fieldName,
+                        type: 'text',
+                        layerName: element.name,
+                        required: false
+                    });
+                }
+            });
         } else if (element.type === 'image') {
             const imgEl = element as ImageElement;
             if (imgEl.isDynamic && imgEl.dynamicSource && !seen.has(imgEl.dynamicSource)) {
@@ -103,6 +112,7 @@ function extractDynamicFields(
             }
         }
     });
+    appendStyleBindingFields(fields, seen, elements);
 
     return fields.sort((a, b) => {
         if (a.type !== b.type) return a.type === 'image' ? -1 : 1;
@@ -153,6 +163,10 @@ export function FieldMappingSection({ className }: FieldMappingSectionProps) {
         allFields.filter(f => f.type === 'image'), 
         [allFields]
     );
+    const styleFields = useMemo(() => 
+        allFields.filter(f => f.type === 'color' || f.type === 'opacity'), 
+        [allFields]
+    );
 
     // Fetch template and extract dynamic fields
     useEffect(() => {
@@ -337,6 +351,26 @@ export function FieldMappingSection({ className }: FieldMappingSectionProps) {
         return sources.map(s => s.name).join(', ');
     };
 
+    // Swatch or percentage for style columns; invalid values fall back to the binding's default
+    const renderStylePreview = (type: 'color' | 'opacity', value: string) => {
+        if (!value) return <span className="italic text-gray-400">empty</span>;
+        if (type === 'color') {
+            const color = parseColorValue(value);
+            return color ? (
+                <span className="flex items-center gap-1.5">
+                    <span className="w-3 h-3 rounded border border-gray-200" style={{ backgroundColor: color }} />
+                    {value}
+                </span>
+            ) : (
+                <span className="text-amber-600">{value} - not a color, fallback used</span>
+            );
+        }
+        const opacity = parseOpacityValue(value);
+        return opacity !== null
+            ? <span>{Math.round(opacity * 100)}% opacity</span>
+            : <span className="text-amber-600">{value} - not an opacity, fallback used</span>;
+    };
+
     const renderFieldRow = (field: DynamicField) => (
         <div
             key={field.name}
@@ -374,6 +408,8 @@ export function FieldMappingSection({ className }: FieldMappingSectionProps) {
                     <div className="flex items-center gap-2 flex-wrap">
                         {field.type === 'image' ? (
                             <ImageIcon className="w-4 h-4 text-primary-creative" />
+                        ) : field.type === 'color' || field.type === 'opacity' ? (
+                            <Palette className="w-4 h-4 text-purple-500" />
                         ) : (
                             <Type className="w-4 h-4 text-accent-1" />
                         )}
@@ -518,6 +554,8 @@ export function FieldMappingSection({ className }: FieldMappingSectionProps) {
                                 <Link2 className="w-3 h-3" />
                                 {getPreviewValue(fieldMapping[field.name]) || 'empty'}
                             </span>
+                        ) : field.type === 'color' || field.type === 'opacity' ? (
+                            renderStylePreview(field.type, getPreviewValue(fieldMapping[field.name]))
                         ) : (
                             getPreviewValue(fieldMapping[field.name]) || <span className="italic text-gray-400">empty</span>
                         )}
@@ -692,6 +730,21 @@ export function FieldMappingSection({ className }: FieldMappingSectionProps) {
                             </div>
                         </div>
                     )}
+
+                    {/* Style Fields */}
+                    {styleFields.length > 0 && (
+                        <div className="space-y-4">
+                            <div className="flex items-center gap-2 pb-2 border-b border-gray-100">
+                                <Palette className="w-4 h-4 text-gray-400" />
+                                <h3 className="text-xs font-bold text-gray-400 uppercase tracking-widest">
+                                    Style Variables
+                                </h3>
+                            </div>
+                            <div className="space-y-3 overflow-visible">
+                                {styleFields.map(renderFieldRow)}
+                            </div>
+                        </div>
+                    )}
                     
                     {/* Manual Add Buttons */}
                      <div className="flex items-center justify-center gap-4 pt-4">
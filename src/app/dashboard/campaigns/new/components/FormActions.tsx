@@ -23,7 +23,9 @@ export function FormActions({ className }: FormActionsProps) {
         selectedTemplates,
         selectionMode,
         distributionMode,
+        distributionConfig,
         fieldMapping,
+        outputOptions,
         previewStatus,
         isFormValid,
         getValidationErrors 
@@ -103,11 +105,18 @@ export function FormActions({ className }: FormActionsProps) {
                 // Multi-template fields
                 template_ids: templateIds,
                 distribution_mode: isMultiTemplate ? distributionMode : undefined,
+                distribution_config: isMultiTemplate && (distributionMode === 'weighted' || distributionMode === 'rules')
+                    ? distributionConfig
+                    : undefined,
                 template_snapshot: templateSnapshot,
                 // Standard fields
                 csv_data: csvData.rows,
                 field_mapping: fieldMapping,
-                total_pins: csvData.rowCount
+                total_pins: csvData.rowCount,
+                // Output settings
+                output_format: outputOptions.format,
+                output_quality: outputOptions.quality,
+                max_file_size_kb: outputOptions.maxFileSizeKb,
             });
 
             if (campaign) {
@@ -19,7 +19,9 @@ import { ScalableFilterSidebar } from '@/components/shared/ScalableFilterSidebar
 import { useCampaignWizard, MAX_TEMPLATES } from '@/lib/campaigns/CampaignWizardContext';
 import { TemplateModeSelector } from '@/components/campaign/TemplateModeSelector';
 import { DistributionModeSelector } from '@/components/campaign/DistributionModeSelector';
+import { DistributionConfigEditor } from '@/components/campaign/DistributionConfigEditor';
 import { extractDynamicData, DynamicDataSummary, DynamicDataFilter, matchesDynamicDataFilter } from '@/lib/utils/extractDynamicData';
+import { isTemplateSelectable } from '@/lib/review/templateStatus';
 
 interface TemplateLibrarySectionProps {
     onTemplateSelect?: () => void;
@@ -36,6 +38,9 @@ export function TemplateLibrarySection({ onTemplateSelect }: TemplateLibrarySect
         removeTemplate,
         distributionMode,
         setDistributionMode,
+        distributionConfig,
+        setDistributionConfig,
+        csvData,
     } = useCampaignWizard();
     
     // Data state
@@ -102,7 +107,7 @@ export function TemplateLibrarySection({ onTemplateSelect }: TemplateLibrarySect
             // Single mode: toggle selection
             if (selectedTemplate?.id === template.id) {
                 setSelectedTemplate(null);
-            } else {
+            } else if (isTemplateSelectable(template.status)) {
                 setSelectedTemplate(template);
                 onTemplateSelect?.();
             }
@@ -111,7 +116,7 @@ export function TemplateLibrarySection({ onTemplateSelect }: TemplateLibrarySect
             const isAlreadySelected = selectedTemplates.some(t => t.id === template.id);
             if (isAlreadySelected) {
                 removeTemplate(template.id);
-            } else {
+            } else if (isTemplateSelectable(template.status)) {
                 const added = addTemplate(template);
                 if (added) {
                     onTemplateSelect?.();
@@ -239,11 +244,21 @@ export function TemplateLibrarySection({ onTemplateSelect }: TemplateLibrarySect
             
             {/* Distribution Mode Selector - only visible in multi-mode with 2+ templates */}
             {selectionMode === 'multiple' && selectedTemplates.length >= 2 && (
-                <DistributionModeSelector
-                    mode={distributionMode}
-                    onModeChange={setDistributionMode}
-                    templateCount={selectedTemplates.length}
-                />
+                <>
+                    <DistributionModeSelector
+                        mode={distributionMode}
+                        onModeChange={setDistributionMode}
+                        templateCount={selectedTemplates.length}
+                    />
+                    <DistributionConfigEditor
+                        mode={distributionMode}
+                        config={distributionConfig}
+                        onConfigChange={setDistributionConfig}
+                        templates={selectedTemplates}
+                        csvHeaders={csvData?.headers || []}
+                        csvRows={csvData?.rows || []}
+                    />
+                </>
             )}
 
             {/* Main Content: Sidebar + Grid */}
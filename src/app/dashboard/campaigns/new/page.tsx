@@ -6,6 +6,7 @@ import { X, Loader2, Check } from 'lucide-react';
 import { useAuth } from '@/lib/auth/AuthContext';
 import { CampaignWizardProvider, useCampaignWizard } from '@/lib/campaigns/CampaignWizardContext';
 import { getTemplate, TemplateListItem } from '@/lib/db/templates';
+import { isTemplateSelectable } from '@/lib/review/templateStatus';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 import { 
@@ -82,7 +83,11 @@ function SinglePageContent() {
         const loadTemplateFromUrl = async () => {
             try {
                 const template = await getTemplate(templateId);
-                if (template) {
+                if (template && !isTemplateSelectable(template.status)) {
+                    toast.error(`"${template.name}" isn't approved yet`, {
+                        description: 'Only approved templates can start a campaign.',
+                    });
+                } else if (template) {
                     // Convert to TemplateListItem format
                     const templateListItem: TemplateListItem = {
                         id: template.id,
@@ -95,6 +100,7 @@ function SinglePageContent() {
                         category_data: null,
                         tags: [],
                         view_count: 0,
+                        status: template.status,
                         created_at: template.created_at || template.updated_at,
                         updated_at: template.updated_at,
                     };
@@ -3,7 +3,7 @@
 import React, { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { ArrowLeft, Loader2, Save, Check } from 'lucide-react';
+import { ArrowLeft, Loader2, Save, Check, Webhook, ChevronRight } from 'lucide-react';
 import { useAuth } from '@/lib/auth/AuthContext';
 import { GenerationSettingsPanel } from '@/components/campaign/GenerationSettings';
 import { GenerationSettings, DEFAULT_GENERATION_SETTINGS } from '@/components/campaign/GenerationController';
@@ -155,6 +155,19 @@ export default function SettingsPage() {
                     </div>
                 </div>
 
+                {/* Integrations */}
+                <Link
+                    href="/dashboard/settings/webhooks"
+                    className="bg-white border border-gray-200 rounded-xl p-6 mb-6 flex items-center gap-4 hover:border-gray-300 transition-colors"
+                >
+                    <Webhook className="w-5 h-5 text-gray-500" />
+                    <div className="flex-1">
+                        <h2 className="font-semibold text-gray-900">Webhooks</h2>
+                        <p className="text-sm text-gray-600">Endpoints and delivery log for campaign and API job events</p>
+                    </div>
+                    <ChevronRight className="w-5 h-5 text-gray-400" />
+                </Link>
+
                 {/* Generation Defaults */}
                 <div className="mb-6">
                     <h2 className="font-semibold text-gray-900 mb-4">Default Generation Settings</h2>
@@ -0,0 +1,678 @@
+'use client';
+
+/**
+ * Webhooks Settings Page
+ *
+ * Allows users to register webhook endpoints, choose which events they
+ * receive, and inspect the delivery log (status, attempts, responses).
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Webhook, Plus, Trash2, AlertCircle, Loader2, RefreshCw, Copy, Check } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { supabase } from '@/lib/supabase';
+import { WEBHOOK_EVENTS } from '@/lib/webhooks/events';
+import { WebhookDeliveryStatus, WebhookEventType } from '@/types/database.types';
+
+interface WebhookEndpointItem {
+    id: string;
+    url: string;
+    description: string | null;
+    events: WebhookEventType[];
+    is_active: boolean;
+    created_at: string;
+}
+
+interface WebhookDeliveryItem {
+    id: string;
+    endpoint_id: string;
+    event_id: string;
+    event_type: WebhookEventType;
+    payload: Record<string, unknown>;
+    status: WebhookDeliveryStatus;
+    attempts: number;
+    response_status: number | null;
+    response_body: string | null;
+    error: string | null;
+    created_at: string;
+    last_attempt_at: string | null;
+    delivered_at: string | null;
+}
+
+const DELIVERIES_PAGE_SIZE = 25;
+
+// Helper to get auth headers with access token
+async function getAuthHeaders(): Promise<HeadersInit> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) {
+        throw new Error('Not authenticated');
+    }
+    return {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+    };
+}
+
+export default function WebhooksSettingsPage() {
+    const [endpoints, setEndpoints] = useState<WebhookEndpointItem[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    // Create endpoint form state
+    const [showCreateModal, setShowCreateModal] = useState(false);
+    const [newUrl, setNewUrl] = useState('');
+    const [newDescription, setNewDescription] = useState('');
+    const [newEvents, setNewEvents] = useState<WebhookEventType[]>([]);
+    const [isCreating, setIsCreating] = useState(false);
+    const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+    const [copied, setCopied] = useState(false);
+
+    // Delivery log state
+    const [deliveries, setDeliveries] = useState<WebhookDeliveryItem[]>([]);
+    const [deliveriesTotal, setDeliveriesTotal] = useState(0);
+    const [deliveriesPage, setDeliveriesPage] = useState(1);
+    const [endpointFilter, setEndpointFilter] = useState('');
+    const [statusFilter, setStatusFilter] = useState<'' | WebhookDeliveryStatus>('');
+    const [isLoadingDeliveries, setIsLoadingDeliveries] = useState(true);
+    const [expandedDeliveryId, setExpandedDeliveryId] = useState<string | null>(null);
+
+    // Fetch endpoints
+    const fetchEndpoints = useCallback(async () => {
+        try {
+            setIsLoading(true);
+            setError(null);
+
+            const headers = await getAuthHeaders();
+            const res = await fetch('/api/webhooks', { headers, credentials: 'include' });
+            const data = await res.json();
+
+            if (data.success) {
+                setEndpoints(data.data);
+            } else {
+                setError(data.error || 'Failed to load webhook endpoints');
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to connect to server');
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    // Fetch delivery log
+    const fetchDeliveries = useCallback(async () => {
+        try {
+            setIsLoadingDeliveries(true);
+
+            const params = new URLSearchParams({
+                page: String(deliveriesPage),
+                limit: String(DELIVERIES_PAGE_SIZE),
+            });
+            if (endpointFilter) params.set('endpoint_id', endpointFilter);
+            if (statusFilter) params.set('status', statusFilter);
+
+            const headers = await getAuthHeaders();
+            const res = await fetch(`/api/webhooks/deliveries?${params}`, { headers, credentials: 'include' });
+            const data = await res.json();
+
+            if (data.success) {
+                setDeliveries(data.data);
+                setDeliveriesTotal(data.meta.total);
+            } else {
+                setError(data.error || 'Failed to load delivery log');
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to connect to server');
+        } finally {
+            setIsLoadingDeliveries(false);
+        }
+    }, [deliveriesPage, endpointFilter, statusFilter]);
+
+    useEffect(() => {
+        fetchEndpoints();
+    }, [fetchEndpoints]);
+
+    useEffect(() => {
+        fetchDeliveries();
+    }, [fetchDeliveries]);
+
+    // Create endpoint
+    const handleCreateEndpoint = async () => {
+        if (!newUrl.trim()) return;
+
+        try {
+            setIsCreating(true);
+            const headers = await getAuthHeaders();
+            const res = await fetch('/api/webhooks', {
+                method: 'POST',
+                headers,
+                credentials: 'include',
+                body: JSON.stringify({
+                    url: newUrl.trim(),
+                    description: newDescription.trim() || undefined,
+                    events: newEvents,
+                }),
+            });
+
+            const data = await res.json();
+
+            if (data.success) {
+                setCreatedSecret(data.data.secret);
+                fetchEndpoints();
+            } else {
+                setError(data.error || 'Failed to create webhook endpoint');
+            }
+        } catch {
+            setError('Failed to create webhook endpoint');
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    // Enable / disable endpoint
+    const handleToggleEndpoint = async (endpoint: WebhookEndpointItem) => {
+        try {
+            const headers = await getAuthHeaders();
+            const res = await fetch(`/api/webhooks?id=${endpoint.id}`, {
+                method: 'PATCH',
+                headers,
+                credentials: 'include',
+                body: JSON.stringify({ is_active: !endpoint.is_active }),
+            });
+
+            const data = await res.json();
+
+            if (data.success) {
+                fetchEndpoints();
+            } else {
+                setError(data.error || 'Failed to update webhook endpoint');
+            }
+        } catch {
+            setError('Failed to update webhook endpoint');
+        }
+    };
+
+    // Delete endpoint
+    const handleDeleteEndpoint = async (endpointId: string) => {
+        if (!confirm('Delete this webhook endpoint? Its delivery history will be removed as well.')) {
+            return;
+        }
+
+        try {
+            const headers = await getAuthHeaders();
+            const res = await fetch(`/api/webhooks?id=${endpointId}`, {
+                method: 'DELETE',
+                headers,
+                credentials: 'include',
+            });
+
+            const data = await res.json();
+
+            if (data.success) {
+                if (endpointFilter === endpointId) setEndpointFilter('');
+                fetchEndpoints();
+                fetchDeliveries();
+            } else {
+                setError(data.error || 'Failed to delete webhook endpoint');
+            }
+        } catch {
+            setError('Failed to delete webhook endpoint');
+        }
+    };
+
+    const toggleNewEvent = (type: WebhookEventType) => {
+        setNewEvents(prev => prev.includes(type) ? prev.filter(e => e !== type) : [...prev, type]);
+    };
+
+    const copySecret = async () => {
+        if (!createdSecret) return;
+        try {
+            await navigator.clipboard.writeText(createdSecret);
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        } catch {
+            setError('Failed to copy to clipboard');
+        }
+    };
+
+    // Close create modal and reset state
+    const closeCreateModal = () => {
+        setShowCreateModal(false);
+        setNewUrl('');
+        setNewDescription('');
+        setNewEvents([]);
+        setCreatedSecret(null);
+    };
+
+    // Format date
+    const formatDateTime = (dateStr: string | null) => {
+        if (!dateStr) return '—';
+        return new Date(dateStr).toLocaleString('en-US', {
+            month: 'short',
+            day: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit',
+            second: '2-digit',
+        });
+    };
+
+    const endpointUrl = (endpointId: string) =>
+        endpoints.find(e => e.id === endpointId)?.url || 'Deleted endpoint';
+
+    const totalPages = Math.max(1, Math.ceil(deliveriesTotal / DELIVERIES_PAGE_SIZE));
+
+    return (
+        <>
+            <div className="p-6 max-w-5xl mx-auto">
+                {/* Header */}
+                <div className="flex items-center justify-between mb-8">
+                    <div className="flex items-center gap-3">
+                        <Link
+                            href="/dashboard/settings"
+                            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                        >
+                            <ArrowLeft className="w-5 h-5 text-gray-600" />
+                        </Link>
+                        <div className="p-2 bg-purple-100 rounded-lg">
+                            <Webhook className="w-6 h-6 text-purple-600" />
+                        </div>
+                        <div>
+                            <h1 className="text-2xl font-bold text-gray-900">Webhooks</h1>
+                            <p className="text-sm text-gray-500">
+                                Get notified about campaign and API job events
+                            </p>
+                        </div>
+                    </div>
+
+                    <button
+                        onClick={() => setShowCreateModal(true)}
+                        className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
+                    >
+                        <Plus className="w-4 h-4" />
+                        Add Endpoint
+                    </button>
+                </div>
+
+                {/* Error Alert */}
+                {error && (
+                    <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-3">
+                        <AlertCircle className="w-5 h-5 text-red-600" />
+                        <span className="text-red-800">{error}</span>
+                        <button
+                            onClick={() => setError(null)}
+                            className="ml-auto text-red-600 hover:text-red-800"
+                        >
+                            ✕
+                        </button>
+                    </div>
+                )}
+
+                {/* Endpoints */}
+                <h2 className="font-semibold text-gray-900 mb-3">Endpoints</h2>
+
+                {isLoading && (
+                    <div className="flex items-center justify-center py-12">
+                        <Loader2 className="w-6 h-6 animate-spin text-purple-600" />
+                        <span className="ml-2 text-gray-600">Loading endpoints...</span>
+                    </div>
+                )}
+
+                {!isLoading && endpoints.length === 0 && (
+                    <div className="text-center py-10 bg-gray-50 rounded-lg border border-gray-200 mb-8">
+                        <Webhook className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                        <h3 className="text-lg font-medium text-gray-900 mb-2">No Webhook Endpoints</h3>
+                        <p className="text-gray-500">
+                            Add an endpoint to receive signed POST requests when campaigns and jobs progress.
+                        </p>
+                    </div>
+                )}
+
+                {!isLoading && endpoints.length > 0 && (
+                    <div className="bg-white rounded-lg border border-gray-200 overflow-hidden mb-8">
+                        <table className="w-full">
+                            <thead className="bg-gray-50 border-b border-gray-200">
+                                <tr>
+                                    <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">URL</th>
+                                    <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">Events</th>
+                                    <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">Status</th>
+                                    <th className="text-right px-4 py-3 text-sm font-medium text-gray-600">Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100">
+                                {endpoints.map((endpoint) => (
+                                    <tr key={endpoint.id} className={cn(
+                                        "hover:bg-gray-50 transition-colors",
+                                        !endpoint.is_active && "opacity-60"
+                                    )}>
+                                        <td className="px-4 py-3">
+                                            <code className="text-sm font-mono text-gray-900 break-all">{endpoint.url}</code>
+                                            {endpoint.description && (
+                                                <p className="text-xs text-gray-500 mt-0.5">{endpoint.description}</p>
+                                            )}
+                                        </td>
+                                        <td className="px-4 py-3 text-sm text-gray-600">
+                                            {endpoint.events.length === 0 ? 'All events' : endpoint.events.join(', ')}
+                                        </td>
+                                        <td className="px-4 py-3">
+                                            <button
+                                                onClick={() => handleToggleEndpoint(endpoint)}
+                                                className={cn(
+                                                    "inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium",
+                                                    endpoint.is_active
+                                                        ? "bg-green-100 text-green-800"
+                                                        : "bg-gray-100 text-gray-600"
+                                                )}
+                                                title={endpoint.is_active ? 'Disable endpoint' : 'Enable endpoint'}
+                                            >
+                                                {endpoint.is_active ? 'Active' : 'Disabled'}
+                                            </button>
+                                        </td>
+                                        <td className="px-4 py-3 text-right">
+                                            <button
+                                                onClick={() => handleDeleteEndpoint(endpoint.id)}
+                                                className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                                                title="Delete endpoint"
+                                            >
+                                                <Trash2 className="w-4 h-4" />
+                                            </button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+
+                {/* Delivery Log */}
+                <div className="flex items-center justify-between mb-3">
+                    <h2 className="font-semibold text-gray-900">Delivery Log</h2>
+                    <div className="flex items-center gap-2">
+                        <select
+                            value={endpointFilter}
+                            onChange={(e) => { setEndpointFilter(e.target.value); setDeliveriesPage(1); }}
+                            className="px-2 py-1.5 text-sm border border-gray-300 rounded-lg"
+                        >
+                            <option value="">All endpoints</option>
+                            {endpoints.map((endpoint) => (
+                                <option key={endpoint.id} value={endpoint.id}>{endpoint.url}</option>
+                            ))}
+                        </select>
+                        <select
+                            value={statusFilter}
+                            onChange={(e) => { setStatusFilter(e.target.value as '' | WebhookDeliveryStatus); setDeliveriesPage(1); }}
+                            className="px-2 py-1.5 text-sm border border-gray-300 rounded-lg"
+                        >
+                            <option value="">All statuses</option>
+                            <option value="succeeded">Succeeded</option>
+                            <option value="pending">Pending / retrying</option>
+                            <option value="failed">Failed</option>
+                        </select>
+                        <button
+                            onClick={fetchDeliveries}
+                            className="p-1.5 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded transition-colors"
+                            title="Refresh"
+                        >
+                            <RefreshCw className={cn("w-4 h-4", isLoadingDeliveries && "animate-spin")} />
+                        </button>
+                    </div>
+                </div>
+
+                {!isLoadingDeliveries && deliveries.length === 0 && (
+                    <div className="text-center py-8 bg-gray-50 rounded-lg border border-gray-200 text-gray-500">
+                        No deliveries yet.
+                    </div>
+                )}
+
+                {deliveries.length > 0 && (
+                    <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+                        <table className="w-full">
+                            <thead className="bg-gray-50 border-b border-gray-200">
+                                <tr>
+                                    <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">Event</th>
+                                    <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">Endpoint</th>
+                                    <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">Status</th>
+                                    <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">Attempts</th>
+                                    <th className="text-left px-4 py-3 text-sm font-medium text-gray-600">Created</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100">
+                                {deliveries.map((delivery) => (
+                                    <DeliveryRow
+                                        key={delivery.id}
+                                        delivery={delivery}
+                                        endpointUrl={endpointUrl(delivery.endpoint_id)}
+                                        expanded={expandedDeliveryId === delivery.id}
+                                        onToggle={() => setExpandedDeliveryId(
+                                            expandedDeliveryId === delivery.id ? null : delivery.id
+                                        )}
+                                        formatDateTime={formatDateTime}
+                                    />
+                                ))}
+                            </tbody>
+                        </table>
+
+                        {totalPages > 1 && (
+                            <div className="flex items-center justify-between px-4 py-3 border-t border-gray-200 text-sm text-gray-600">
+                                <span>Page {deliveriesPage} of {totalPages}</span>
+                                <div className="flex gap-2">
+                                    <button
+                                        onClick={() => setDeliveriesPage(p => Math.max(1, p - 1))}
+                                        disabled={deliveriesPage === 1}
+                                        className="px-3 py-1 rounded border border-gray-300 disabled:opacity-50"
+                                    >
+                                        Previous
+                                    </button>
+                                    <button
+                                        onClick={() => setDeliveriesPage(p => Math.min(totalPages, p + 1))}
+                                        disabled={deliveriesPage >= totalPages}
+                                        className="px-3 py-1 rounded border border-gray-300 disabled:opacity-50"
+                                    >
+                                        Next
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {/* Verification Info */}
+                <div className="mt-6 p-4 bg-blue-50 rounded-lg border border-blue-100">
+                    <h4 className="font-medium text-blue-900 mb-2">Verifying signatures</h4>
+                    <p className="text-sm text-blue-800 mb-2">
+                        Each request carries an <code>X-Webhook-Signature</code> header. Compute an HMAC-SHA256 of
+                        {' '}<code>{'<t>.<raw body>'}</code> with your endpoint secret and compare it to <code>v1</code>:
+                    </p>
+                    <code className="block text-sm bg-blue-100 px-3 py-2 rounded font-mono text-blue-900">
+                        X-Webhook-Signature: t=1700000000,v1=5f2c...
+                    </code>
+                    <p className="text-sm text-blue-800 mt-2">
+                        Failed deliveries are retried with exponential backoff for several hours.
+                    </p>
+                </div>
+            </div>
+
+            {/* Create Endpoint Modal */}
+            {showCreateModal && (
+                <div
+                    className="fixed inset-0 bg-black/50 flex items-center justify-center z-50"
+                    onClick={(e) => e.target === e.currentTarget && closeCreateModal()}
+                >
+                    <div className="bg-white rounded-xl shadow-xl w-full max-w-lg mx-4 overflow-hidden">
+                        <div className="px-6 py-4 border-b border-gray-200">
+                            <h2 className="text-lg font-semibold text-gray-900">
+                                {createdSecret ? 'Endpoint Created!' : 'Add Webhook Endpoint'}
+                            </h2>
+                        </div>
+
+                        <div className="p-6">
+                            {!createdSecret ? (
+                                <>
+                                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                                        Endpoint URL
+                                    </label>
+                                    <input
+                                        type="url"
+                                        value={newUrl}
+                                        onChange={(e) => setNewUrl(e.target.value)}
+                                        placeholder="https://example.com/webhooks/pins"
+                                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                                        autoFocus
+                                    />
+
+                                    <label className="block text-sm font-medium text-gray-700 mb-2 mt-4">
+                                        Description (optional)
+                                    </label>
+                                    <input
+                                        type="text"
+                                        value={newDescription}
+                                        onChange={(e) => setNewDescription(e.target.value)}
+                                        placeholder="e.g., Zapier notification"
+                                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                                    />
+
+                                    <label className="block text-sm font-medium text-gray-700 mb-2 mt-4">
+                                        Events
+                                    </label>
+                                    <div className="space-y-1.5 max-h-56 overflow-y-auto">
+                                        {WEBHOOK_EVENTS.map(({ type, description }) => (
+                                            <label key={type} className="flex items-start gap-2 text-sm cursor-pointer">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={newEvents.includes(type)}
+                                                    onChange={() => toggleNewEvent(type)}
+                                                    className="mt-0.5"
+                                                />
+                                                <span>
+                                                    <code className="text-gray-900">{type}</code>
+                                                    <span className="text-gray-500"> — {description}</span>
+                                                </span>
+                                            </label>
+                                        ))}
+                                    </div>
+                                    <p className="text-sm text-gray-500 mt-2">
+                                        Leave all unchecked to receive every event.
+                                    </p>
+                                </>
+                            ) : (
+                                <>
+                                    <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+                                        <p className="text-sm text-yellow-800">
+                                            <strong>Important:</strong> Copy your signing secret now. You won&apos;t be able to see it again!
+                                        </p>
+                                    </div>
+
+                                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                                        Signing Secret
+                                    </label>
+                                    <div className="flex items-center gap-2 bg-gray-100 rounded-lg px-3 py-2">
+                                        <code className="flex-1 font-mono text-sm text-gray-900 break-all">
+                                            {createdSecret}
+                                        </code>
+                                        <button
+                                            onClick={copySecret}
+                                            className="p-1 text-gray-500 hover:text-gray-700 transition-colors"
+                                            title="Copy to clipboard"
+                                        >
+                                            {copied ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+                                        </button>
+                                    </div>
+                                </>
+                            )}
+                        </div>
+
+                        <div className="px-6 py-4 bg-gray-50 border-t border-gray-200 flex justify-end gap-3">
+                            <button
+                                onClick={closeCreateModal}
+                                className="px-4 py-2 text-gray-700 hover:bg-gray-200 rounded-lg transition-colors"
+                            >
+                                {createdSecret ? 'Close' : 'Cancel'}
+                            </button>
+
+                            {!createdSecret && (
+                                <button
+                                    onClick={handleCreateEndpoint}
+                                    disabled={!newUrl.trim() || isCreating}
+                                    className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                                >
+                                    {isCreating && <Loader2 className="w-4 h-4 animate-spin" />}
+                                    Add Endpoint
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            )}
+        </>
+    );
+}
+
+// Delivery log row with expandable payload / response details
+function DeliveryRow({
+    delivery,
+    endpointUrl,
+    expanded,
+    onToggle,
+    formatDateTime,
+}: {
+    delivery: WebhookDeliveryItem;
+    endpointUrl: string;
+    expanded: boolean;
+    onToggle: () => void;
+    formatDateTime: (dateStr: string | null) => string;
+}) {
+    return (
+        <>
+            <tr onClick={onToggle} className="hover:bg-gray-50 transition-colors cursor-pointer">
+                <td className="px-4 py-3">
+                    <code className="text-sm text-gray-900">{delivery.event_type}</code>
+                </td>
+                <td className="px-4 py-3 text-sm text-gray-600 max-w-xs truncate">{endpointUrl}</td>
+                <td className="px-4 py-3">
+                    <span className={cn(
+                        "inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium",
+                        delivery.status === 'succeeded' && "bg-green-100 text-green-800",
+                        delivery.status === 'pending' && "bg-yellow-100 text-yellow-800",
+                        delivery.status === 'failed' && "bg-red-100 text-red-800"
+                    )}>
+                        {delivery.status === 'pending' && delivery.attempts > 0 ? 'Retrying' : delivery.status}
+                        {delivery.response_status ? ` · ${delivery.response_status}` : ''}
+                    </span>
+                </td>
+                <td className="px-4 py-3 text-sm text-gray-500">{delivery.attempts}</td>
+                <td className="px-4 py-3 text-sm text-gray-500">{formatDateTime(delivery.created_at)}</td>
+            </tr>
+            {expanded && (
+                <tr className="bg-gray-50">
+                    <td colSpan={5} className="px-4 py-3 text-sm">
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <p className="font-medium text-gray-700 mb-1">Payload</p>
+                                <pre className="text-xs bg-white border border-gray-200 rounded p-2 overflow-auto max-h-64">
+                                    {JSON.stringify(delivery.payload, null, 2)}
+                                </pre>
+                            </div>
+                            <div>
+                                <p className="font-medium text-gray-700 mb-1">Last attempt</p>
+                                <p className="text-gray-600">{formatDateTime(delivery.last_attempt_at)}</p>
+                                {delivery.delivered_at && (
+                                    <p className="text-gray-600">Delivered {formatDateTime(delivery.delivered_at)}</p>
+                                )}
+                                {delivery.error && (
+                                    <p className="text-red-700 mt-1">{delivery.error}</p>
+                                )}
+                                {delivery.response_body && (
+                                    <>
+                                        <p className="font-medium text-gray-700 mt-2 mb-1">Response</p>
+                                        <pre className="text-xs bg-white border border-gray-200 rounded p-2 overflow-auto max-h-40">
+                                            {delivery.response_body}
+                                        </pre>
+                                    </>
+                                )}
+                            </div>
+                        </div>
+                    </td>
+                </tr>
+            )}
+        </>
+    );
+}
@@ -17,6 +17,10 @@ import { ToastContainer } from '@/components/ui/ToastContainer';
 import { ErrorFallback, PanelErrorFallback } from '@/components/errors';
 import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts';
 import { useTemplateFromUrl } from '@/hooks/useTemplateFromUrl';
+import { useCollaboration } from '@/hooks/useCollaboration';
+import { useActiveWorkspace } from '@/hooks/useWorkspaces';
+import { useCommentStore } from '@/stores/commentStore';
+import { CommentsPanel } from '@/components/editor/CommentsPanel';
 import { useAuth } from '@/lib/auth/AuthContext';
 import { Loader2 } from 'lucide-react';
 
@@ -43,6 +47,13 @@ function EditorContent() {
     // Load template from URL parameter (e.g., ?template=abc123)
     useTemplateFromUrl();
 
+    // Live editing with everyone else who has this template open
+    const { role: workspaceRole } = useActiveWorkspace();
+    useCollaboration(currentUser, workspaceRole);
+
+    // Review comments panel, opened from the header
+    const isCommentsOpen = useCommentStore((s) => s.isOpen);
+
     // Keyboard shortcuts modal
     const { isOpen: isShortcutsOpen, close: closeShortcuts } = useKeyboardShortcutsModal();
 
@@ -107,6 +118,13 @@ function EditorContent() {
                             </CanvasErrorBoundary>
                         </div>
 
+                        {/* Review Comments */}
+                        {isCommentsOpen && (
+                            <ErrorBoundary FallbackComponent={PanelErrorFallback} onError={logError}>
+                                <CommentsPanel />
+                            </ErrorBoundary>
+                        )}
+
                         {/* Right Panel - Wrapped for isolation */}
                         <ErrorBoundary FallbackComponent={PanelErrorFallback} onError={logError}>
                             <RightPanel />
@@ -0,0 +1,81 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { Loader2, AlertCircle } from 'lucide-react';
+import { useAuth } from '@/lib/auth/AuthContext';
+import { acceptWorkspaceInvitation, setActiveWorkspaceId } from '@/lib/db/workspaces';
+
+/**
+ * Join a team workspace from an invitation link
+ */
+export default function InvitePage() {
+    const { token } = useParams<{ token: string }>();
+    const { currentUser, loading } = useAuth();
+    const [error, setError] = useState<string | null>(null);
+    const attempted = useRef(false);
+
+    useEffect(() => {
+        if (loading || !currentUser || attempted.current) return;
+        attempted.current = true;
+
+        acceptWorkspaceInvitation(token)
+            .then(async (workspaceId) => {
+                await setActiveWorkspaceId(workspaceId);
+                // Full navigation so every store loads the new workspace
+                window.location.assign('/dashboard');
+            })
+            .catch((err: Error) => setError(err.message));
+    }, [loading, currentUser, token]);
+
+    if (!loading && !currentUser) {
+        return (
+            <InviteMessage
+                title="Sign in to join"
+                message="Sign in with the email address the invitation was sent to, then open the invite link again."
+                action={{ href: '/login', label: 'Sign in' }}
+            />
+        );
+    }
+
+    if (error) {
+        return (
+            <InviteMessage
+                title="Couldn't join the workspace"
+                message={error}
+                action={{ href: '/dashboard', label: 'Go to dashboard' }}
+            />
+        );
+    }
+
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-gray-50">
+            <div className="flex items-center gap-3 text-gray-600">
+                <Loader2 className="w-5 h-5 animate-spin" />
+                Joining workspace...
+            </div>
+        </div>
+    );
+}
+
+function InviteMessage({ title, message, action }: {
+    title: string;
+    message: string;
+    action: { href: string; label: string };
+}) {
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+            <div className="max-w-sm w-full bg-white rounded-2xl shadow-lg p-6 text-center space-y-4">
+                <AlertCircle className="w-10 h-10 mx-auto text-amber-500" />
+                <h1 className="text-lg font-bold text-gray-900">{title}</h1>
+                <p className="text-sm text-gray-600">{message}</p>
+                <a
+                    href={action.href}
+                    className="inline-block px-5 py-2 rounded-full bg-primary-creative text-white text-sm font-medium hover:opacity-90"
+                >
+                    {action.label}
+                </a>
+            </div>
+        </div>
+    );
+}
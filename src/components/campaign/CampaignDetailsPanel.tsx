@@ -11,6 +11,8 @@ interface CampaignDetailsPanelProps {
     canvasWidth?: number;
     canvasHeight?: number;
     templateId: string;
+    /** Template version the campaign rendered from */
+    templateVersion?: { version_number: number; name: string | null } | null;
     csvRowCount: number;
     createdAt: string;
     status: 'pending' | 'processing' | 'completed' | 'failed' | 'paused';
@@ -70,6 +72,7 @@ export function CampaignDetailsPanel({
     canvasWidth,
     canvasHeight,
     templateId,
+    templateVersion,
     csvRowCount,
     createdAt,
     status,
@@ -132,6 +135,11 @@ export function CampaignDetailsPanel({
                             {canvasWidth && canvasHeight && (
                                 <p className="text-sm text-gray-500 mt-0.5">{canvasWidth} × {canvasHeight} px</p>
                             )}
+                            {templateVersion && (
+                                <p className="text-sm text-gray-500 mt-0.5 truncate">
+                                    Version {templateVersion.version_number}{templateVersion.name && ` · ${templateVersion.name}`}
+                                </p>
+                            )}
                             <p className="text-xs text-gray-400 font-mono mt-1 truncate" title={templateId}>
                                 {templateId.slice(0, 8)}...
                             </p>
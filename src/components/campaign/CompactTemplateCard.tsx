@@ -6,6 +6,8 @@ import { Check, Star, ImageIcon, Type, Layout, Folder } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { TemplateListItem } from '@/lib/db/templates';
 import { DynamicDataSummary } from '@/lib/utils/extractDynamicData';
+import { isTemplateSelectable } from '@/lib/review/templateStatus';
+import { TemplateStatusBadge } from '@/components/ui/TemplateStatusBadge';
 
 interface CompactTemplateCardProps {
     template: TemplateListItem;
@@ -21,16 +23,23 @@ export const CompactTemplateCard = memo(function CompactTemplateCard({
     isSelected, 
     onSelect 
 }: CompactTemplateCardProps) {
+    // Only approved templates can start a campaign (a selected one can still be removed)
+    const needsApproval = !isTemplateSelectable(template.status) && !isSelected;
+
     return (
         <button
             type="button"
             onClick={() => onSelect(template)}
+            disabled={needsApproval}
+            title={needsApproval ? 'Only approved templates can start a campaign' : undefined}
             className={cn(
                 "group relative w-full text-left transition-all duration-200 rounded-xl overflow-hidden",
                 "bg-white border-2",
                 "focus:outline-none focus:ring-2 focus:ring-blue-500/30",
                 isSelected
                     ? "border-blue-500 shadow-md shadow-blue-500/20 scale-[1.02]"
+                    : needsApproval
+                    ? "border-gray-200 opacity-60 cursor-not-allowed"
                     : "border-gray-200 hover:border-gray-300 hover:shadow-md hover:-translate-y-0.5"
             )}
         >
@@ -65,6 +74,13 @@ export const CompactTemplateCard = memo(function CompactTemplateCard({
                     </div>
                 )}
 
+                {/* Review Status Badge - Top Left (approved templates need none) */}
+                {template.status !== 'approved' && (
+                    <div className="absolute top-2 left-2 z-20">
+                        <TemplateStatusBadge status={template.status} className="shadow-sm" />
+                    </div>
+                )}
+
                 {/* Featured Badge - Top Right */}
                 {template.is_featured && (
                     <div className="absolute top-2 right-2 z-20">
@@ -79,7 +95,7 @@ export const CompactTemplateCard = memo(function CompactTemplateCard({
                 {!isSelected && (
                     <div className="absolute inset-0 bg-black/0 group-hover:bg-black/10 transition-colors duration-200 flex items-center justify-center opacity-0 group-hover:opacity-100">
                         <span className="px-3 py-1.5 bg-white/95 text-gray-800 text-xs font-medium rounded-lg shadow-sm">
-                            Click to select
+                            {needsApproval ? 'Needs approval' : 'Click to select'}
                         </span>
                     </div>
                 )}
@@ -142,6 +158,7 @@ export const CompactTemplateCard = memo(function CompactTemplateCard({
         prevProps.template.name === nextProps.template.name &&
         prevProps.template.thumbnail_url === nextProps.template.thumbnail_url &&
         prevProps.template.is_featured === nextProps.template.is_featured &&
+        prevProps.template.status === nextProps.template.status &&
         prevProps.isSelected === nextProps.isSelected &&
         prevProps.onSelect === nextProps.onSelect && // Fix: include callback comparison
         prevProps.dynamicData?.images === nextProps.dynamicData?.images &&
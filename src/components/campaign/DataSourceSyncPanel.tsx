@@ -0,0 +1,419 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertCircle, AlertTriangle, ChevronDown, ChevronUp, Link2, Loader2, RefreshCw, Save, Unlink } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { supabase } from '@/lib/supabase';
+import { CampaignDataSource, CampaignSyncSummary, DataSyncSchedule } from '@/types/database.types';
+
+interface DataSourceSyncPanelProps {
+    campaignId: string;
+    csvHeaders: string[];
+    dataSource: CampaignDataSource | null;
+    lastSyncedAt: string | null;
+    lastSyncSummary: CampaignSyncSummary | null;
+    disabled?: boolean;
+    onSaved?: (dataSource: CampaignDataSource | null) => void;
+    /** Called once a sync has written its summary */
+    onSynced?: () => void;
+}
+
+const SCHEDULES: { value: DataSyncSchedule; label: string }[] = [
+    { value: 'manual', label: 'Only when I click Sync' },
+    { value: 'hourly', label: 'Every hour' },
+    { value: 'daily', label: 'Every day' },
+];
+
+// How often and how long to wait for a queued sync to report back
+const POLL_INTERVAL_MS = 3000;
+const POLL_TIMEOUT_MS = 120000;
+
+// Helper to get auth headers with access token
+async function getAuthHeaders(): Promise<HeadersInit> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) {
+        throw new Error('Not authenticated');
+    }
+    return {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+    };
+}
+
+/**
+ * DataSourceSyncPanel - binds a campaign to a live sheet or feed and shows what the last sync changed
+ */
+export function DataSourceSyncPanel({
+    campaignId,
+    csvHeaders,
+    dataSource,
+    lastSyncedAt,
+    lastSyncSummary,
+    disabled,
+    onSaved,
+    onSynced,
+}: DataSourceSyncPanelProps) {
+    const [isOpen, setIsOpen] = useState(!!dataSource);
+    const [url, setUrl] = useState(dataSource?.url || '');
+    const [keyColumn, setKeyColumn] = useState(dataSource?.key_column || '');
+    const [schedule, setSchedule] = useState<DataSyncSchedule>(dataSource?.schedule || 'manual');
+    const [sheet, setSheet] = useState(dataSource?.sheet || '');
+    const [jsonPath, setJsonPath] = useState(dataSource?.json_path || '');
+    const [isSaving, setIsSaving] = useState(false);
+    const [isSyncing, setIsSyncing] = useState(false);
+
+    const pollRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+    useEffect(() => () => {
+        if (pollRef.current) clearInterval(pollRef.current);
+    }, []);
+
+    // Keep a saved key column that's no longer in the rows selectable
+    const keyOptions = dataSource && !csvHeaders.includes(dataSource.key_column)
+        ? [dataSource.key_column, ...csvHeaders]
+        : csvHeaders;
+    const isDirty = !dataSource
+        || url.trim() !== dataSource.url
+        || keyColumn.trim() !== dataSource.key_column
+        || schedule !== dataSource.schedule
+        || (sheet.trim() || undefined) !== dataSource.sheet
+        || (jsonPath.trim() || undefined) !== dataSource.json_path;
+
+    const buildSource = (): CampaignDataSource => ({
+        url: url.trim(),
+        key_column: keyColumn.trim(),
+        schedule,
+        ...(sheet.trim() ? { sheet: sheet.trim() } : {}),
+        ...(jsonPath.trim() ? { json_path: jsonPath.trim() } : {}),
+    });
+
+    const saveSource = async (next: CampaignDataSource | null): Promise<boolean> => {
+        setIsSaving(true);
+        try {
+            const response = await fetch(`/api/campaign-sync/${campaignId}`, {
+                method: 'PUT',
+                headers: await getAuthHeaders(),
+                body: JSON.stringify({ data_source: next }),
+            });
+            const result = await response.json();
+            if (!response.ok) {
+                toast.error(result.details || result.error || 'Failed to save data source');
+                return false;
+            }
+            onSaved?.(result.data.data_source);
+            return true;
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to save data source');
+            return false;
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleSave = async () => {
+        if (!url.trim() || !keyColumn) {
+            toast.error('Enter the source URL and choose a key column');
+            return;
+        }
+        const saved = await saveSource(buildSource());
+        if (saved) toast.success('Data source saved');
+    };
+
+    const handleUnbind = async () => {
+        if (await saveSource(null)) {
+            setUrl('');
+            setKeyColumn('');
+            setSchedule('manual');
+            setSheet('');
+            setJsonPath('');
+            toast.success('Data source removed - existing pins are kept');
+        }
+    };
+
+    // Wait for the background sync to write a newer last_synced_at
+    const waitForSync = (previous: string | null) => {
+        const startedAt = Date.now();
+        pollRef.current = setInterval(async () => {
+            const { data } = await supabase
+                .from('campaigns')
+                .select('last_synced_at, last_sync_summary')
+                .eq('id', campaignId)
+                .maybeSingle();
+
+            const finished = data && data.last_synced_at !== previous;
+            if (!finished && Date.now() - startedAt < POLL_TIMEOUT_MS) return;
+
+            if (pollRef.current) clearInterval(pollRef.current);
+            pollRef.current = null;
+            setIsSyncing(false);
+
+            if (!finished) {
+                toast.info('Sync is taking a while - refresh the page to see the result');
+                return;
+            }
+
+            const summary = data.last_sync_summary as CampaignSyncSummary | null;
+            if (summary?.error) {
+                toast.error('Sync failed', { description: summary.error });
+            } else if (summary) {
+                const rendering = summary.added + summary.changed;
+                toast.success('Sync complete', {
+                    description: rendering > 0 ? `Rendering ${rendering} new or changed pins` : 'No rows changed',
+                });
+            }
+            onSynced?.();
+        }, POLL_INTERVAL_MS);
+    };
+
+    const handleSyncNow = async () => {
+        if (isDirty && !(await saveSource(buildSource()))) {
+            return;
+        }
+
+        setIsSyncing(true);
+        try {
+            const response = await fetch(`/api/campaign-sync/${campaignId}`, {
+                method: 'POST',
+                headers: await getAuthHeaders(),
+            });
+            const result = await response.json();
+            if (!response.ok) {
+                toast.error(result.error || 'Failed to start sync');
+                setIsSyncing(false);
+                return;
+            }
+            waitForSync(lastSyncedAt);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to start sync');
+            setIsSyncing(false);
+        }
+    };
+
+    const isBusy = disabled || isSaving || isSyncing;
+
+    return (
+        <div className="bg-white border border-gray-200 rounded-xl overflow-hidden shadow-sm hover:shadow-md transition-shadow duration-200">
+            {/* Header */}
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="w-full flex items-center justify-between p-4 bg-gradient-to-r from-gray-50 to-white hover:from-gray-100 hover:to-gray-50 transition-all"
+            >
+                <div className="flex items-center gap-3">
+                    <div className="p-2 bg-emerald-50 rounded-lg text-emerald-600">
+                        <Link2 className="w-5 h-5" />
+                    </div>
+                    <div className="text-left">
+                        <span className="block font-semibold text-gray-900">Live Data Source</span>
+                        <span className="text-xs text-gray-500">
+                            {dataSource ? `Synced by "${dataSource.key_column}"` : 'Re-render pins when your sheet changes'}
+                        </span>
+                    </div>
+                </div>
+                {isOpen ? (
+                    <ChevronUp className="w-5 h-5 text-gray-400" />
+                ) : (
+                    <ChevronDown className="w-5 h-5 text-gray-400" />
+                )}
+            </button>
+
+            {/* Content */}
+            {isOpen && (
+                <div className="p-5 space-y-5">
+                    {/* Source */}
+                    <div>
+                        <label htmlFor="sync-url" className="block text-sm font-medium text-gray-900 mb-2">
+                            Sheet or feed URL
+                        </label>
+                        <input
+                            id="sync-url"
+                            type="url"
+                            value={url}
+                            onChange={(e) => setUrl(e.target.value)}
+                            disabled={isBusy}
+                            placeholder="https://docs.google.com/spreadsheets/d/..."
+                            className="w-full px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                        />
+                        <div className="grid grid-cols-2 gap-2 mt-2">
+                            <div>
+                                <label htmlFor="sync-sheet" className="block text-xs text-gray-500 mb-1">
+                                    Sheet (Excel only)
+                                </label>
+                                <input
+                                    id="sync-sheet"
+                                    value={sheet}
+                                    onChange={(e) => setSheet(e.target.value)}
+                                    disabled={isBusy}
+                                    placeholder="First sheet"
+                                    className="w-full px-2 py-1.5 bg-gray-50 border border-gray-200 rounded-lg text-xs focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                                />
+                            </div>
+                            <div>
+                                <label htmlFor="sync-json-path" className="block text-xs text-gray-500 mb-1">
+                                    JSONPath (JSON only)
+                                </label>
+                                <input
+                                    id="sync-json-path"
+                                    value={jsonPath}
+                                    onChange={(e) => setJsonPath(e.target.value)}
+                                    disabled={isBusy}
+                                    placeholder="$.data.products"
+                                    className="w-full px-2 py-1.5 bg-gray-50 border border-gray-200 rounded-lg text-xs font-mono focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                                />
+                            </div>
+                        </div>
+                    </div>
+
+                    {/* Key column and schedule */}
+                    <div className="grid grid-cols-2 gap-2">
+                        <div>
+                            <label htmlFor="sync-key" className="block text-xs text-gray-500 mb-1">
+                                Key column
+                            </label>
+                            {csvHeaders.length > 0 ? (
+                                <select
+                                    id="sync-key"
+                                    value={keyColumn}
+                                    onChange={(e) => setKeyColumn(e.target.value)}
+                                    disabled={isBusy}
+                                    className="w-full px-2 py-1.5 bg-gray-50 border border-gray-200 rounded-lg text-xs focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                                >
+                                    <option value="">Select a column</option>
+                                    {keyOptions.map(header => (
+                                        <option key={header} value={header}>{header}</option>
+                                    ))}
+                                </select>
+                            ) : (
+                                // Rows kept in storage aren't loaded on this page - type the header instead
+                                <input
+                                    id="sync-key"
+                                    value={keyColumn}
+                                    onChange={(e) => setKeyColumn(e.target.value)}
+                                    disabled={isBusy}
+                                    placeholder="e.g. SKU"
+                                    className="w-full px-2 py-1.5 bg-gray-50 border border-gray-200 rounded-lg text-xs focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                                />
+                            )}
+                        </div>
+                        <div>
+                            <label htmlFor="sync-schedule" className="block text-xs text-gray-500 mb-1">
+                                Sync
+                            </label>
+                            <select
+                                id="sync-schedule"
+                                value={schedule}
+                                onChange={(e) => setSchedule(e.target.value as DataSyncSchedule)}
+                                disabled={isBusy}
+                                className="w-full px-2 py-1.5 bg-gray-50 border border-gray-200 rounded-lg text-xs focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                            >
+                                {SCHEDULES.map(option => (
+                                    <option key={option.value} value={option.value}>{option.label}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                        Rows are matched by the key column, so use one that never changes (an ID or SKU).
+                        New and edited rows are rendered; pins for removed rows are marked stale.
+                    </p>
+
+                    {/* Last sync */}
+                    {lastSyncSummary && (
+                        <>
+                            <div className="h-px bg-gray-100" />
+                            <SyncSummary summary={lastSyncSummary} lastSyncedAt={lastSyncedAt} />
+                        </>
+                    )}
+
+                    {/* Actions */}
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={handleSave}
+                            disabled={isBusy || !isDirty}
+                            className={cn(
+                                "flex items-center justify-center gap-1.5 px-3 py-2 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors",
+                                (isBusy || !isDirty) && "opacity-50 cursor-not-allowed"
+                            )}
+                        >
+                            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                            Save
+                        </button>
+                        <button
+                            onClick={handleSyncNow}
+                            disabled={isBusy || !url.trim() || !keyColumn}
+                            className={cn(
+                                "flex-1 flex items-center justify-center gap-1.5 px-3 py-2 rounded-lg text-sm font-medium bg-emerald-600 text-white hover:bg-emerald-700 transition-colors",
+                                (isBusy || !url.trim() || !keyColumn) && "opacity-50 cursor-not-allowed"
+                            )}
+                        >
+                            <RefreshCw className={cn("w-4 h-4", isSyncing && "animate-spin")} />
+                            {isSyncing ? 'Syncing...' : 'Sync now'}
+                        </button>
+                        {dataSource && (
+                            <button
+                                onClick={handleUnbind}
+                                disabled={isBusy}
+                                className="p-2 rounded-lg text-gray-400 hover:text-red-600 hover:bg-red-50 transition-colors"
+                                title="Stop syncing this campaign"
+                            >
+                                <Unlink className="w-4 h-4" />
+                            </button>
+                        )}
+                    </div>
+                    {disabled && (
+                        <p className="text-xs text-gray-500">Syncing is available once the campaign has finished rendering.</p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
+
+function SyncSummary({ summary, lastSyncedAt }: { summary: CampaignSyncSummary; lastSyncedAt: string | null }) {
+    const syncedAt = new Date(lastSyncedAt || summary.synced_at).toLocaleString();
+
+    if (summary.error) {
+        return (
+            <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-100 rounded-lg">
+                <AlertCircle className="w-4 h-4 text-red-500 shrink-0 mt-0.5" />
+                <div className="text-xs">
+                    <p className="font-medium text-red-800">Last sync failed</p>
+                    <p className="text-red-700">{summary.error}</p>
+                    <p className="text-red-400 mt-1">{syncedAt}</p>
+                </div>
+            </div>
+        );
+    }
+
+    const counts = [
+        { label: 'new', value: summary.added, className: 'text-emerald-700 bg-emerald-50' },
+        { label: 'changed', value: summary.changed, className: 'text-blue-700 bg-blue-50' },
+        { label: 'removed', value: summary.removed, className: 'text-red-700 bg-red-50' },
+        { label: 'unchanged', value: summary.unchanged, className: 'text-gray-600 bg-gray-100' },
+    ];
+
+    return (
+        <div className="space-y-2">
+            <p className="text-xs text-gray-500">
+                Last synced {syncedAt} - {summary.total_rows} rows
+            </p>
+            <div className="grid grid-cols-4 gap-1.5">
+                {counts.map(count => (
+                    <div key={count.label} className={cn("rounded-lg px-2 py-1.5 text-center", count.className)}>
+                        <span className="block text-sm font-semibold">{count.value}</span>
+                        <span className="text-[11px]">{count.label}</span>
+                    </div>
+                ))}
+            </div>
+            {summary.removed + summary.changed > 0 && (
+                <p className="text-xs text-gray-500">Pins for removed and changed rows are marked stale and hidden.</p>
+            )}
+            {summary.skipped_rows > 0 && (
+                <p className="text-xs text-amber-700 flex items-center gap-1">
+                    <AlertTriangle className="w-3.5 h-3.5" />
+                    {summary.skipped_rows} {summary.skipped_rows === 1 ? 'row was' : 'rows were'} skipped for an empty or repeated key
+                </p>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,291 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { Plus, Trash2, ArrowRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { calculateDistributionCounts } from '@/lib/campaigns/distributionEngine';
+import {
+    DistributionConfig,
+    DistributionMode,
+    DistributionRule,
+    DistributionRuleOperator,
+    TemplateSnapshot,
+} from '@/types/database.types';
+
+interface DistributionConfigEditorProps {
+    mode: DistributionMode;
+    config: DistributionConfig;
+    onConfigChange: (config: DistributionConfig) => void;
+    templates: { id: string; name: string }[];
+    csvHeaders: string[];
+    csvRows: Record<string, unknown>[];
+    disabled?: boolean;
+}
+
+const OPERATORS: { value: DistributionRuleOperator; label: string; needsValue: boolean }[] = [
+    { value: 'equals', label: 'is', needsValue: true },
+    { value: 'not_equals', label: 'is not', needsValue: true },
+    { value: 'contains', label: 'contains', needsValue: true },
+    { value: 'greater_than', label: '>', needsValue: true },
+    { value: 'less_than', label: '<', needsValue: true },
+    { value: 'longer_than', label: 'length >', needsValue: true },
+    { value: 'shorter_than', label: 'length <', needsValue: true },
+    { value: 'is_empty', label: 'is empty', needsValue: false },
+    { value: 'is_not_empty', label: 'is not empty', needsValue: false },
+];
+
+const inputClassName = "px-2 py-1.5 bg-white border border-gray-200 rounded-lg text-xs focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500";
+
+function templateLetter(index: number): string {
+    return String.fromCharCode(65 + index);
+}
+
+/**
+ * Percentages (weighted mode) or row rules (rules mode) for multi-template
+ * distribution, with the row counts each template would get
+ */
+export function DistributionConfigEditor({
+    mode,
+    config,
+    onConfigChange,
+    templates,
+    csvHeaders,
+    csvRows,
+    disabled = false,
+}: DistributionConfigEditorProps) {
+    // Expected pins per template for the uploaded CSV
+    const expectedCounts = useMemo(() => {
+        if (templates.length < 2 || csvRows.length === 0) return null;
+        const snapshots = templates.map(t => ({
+            id: t.id,
+            short_id: t.id.slice(0, 8),
+            name: t.name,
+            elements: [],
+            canvas_size: { width: 0, height: 0 },
+            background_color: '',
+        } satisfies TemplateSnapshot));
+        return calculateDistributionCounts(
+            { templates: snapshots, mode, totalRows: csvRows.length, config },
+            csvRows
+        );
+    }, [templates, mode, config, csvRows]);
+
+    if (mode !== 'weighted' && mode !== 'rules') return null;
+    if (templates.length < 2) return null;
+
+    const renderCount = (templateId: string) => expectedCounts && (
+        <span className="text-[10px] text-gray-400 tabular-nums whitespace-nowrap">
+            {expectedCounts[templateId] ?? 0} pins
+        </span>
+    );
+
+    // ============================================
+    // Weighted
+    // ============================================
+    if (mode === 'weighted') {
+        const weights = config.weights || {};
+        const total = templates.reduce((sum, t) => sum + (weights[t.id] || 0), 0);
+
+        const setWeight = (templateId: string, value: number) => {
+            onConfigChange({ ...config, weights: { ...weights, [templateId]: Math.max(0, Math.min(100, value)) } });
+        };
+
+        const splitEvenly = () => {
+            const share = Math.floor(100 / templates.length);
+            const remainder = 100 - share * templates.length;
+            onConfigChange({
+                ...config,
+                weights: Object.fromEntries(templates.map((t, i) => [t.id, share + (i < remainder ? 1 : 0)])),
+            });
+        };
+
+        return (
+            <div className="space-y-3 p-4 bg-gray-50 border border-gray-200 rounded-xl">
+                <div className="flex items-center justify-between">
+                    <h4 className="text-sm font-medium text-gray-900">Template percentages</h4>
+                    <button
+                        type="button"
+                        onClick={splitEvenly}
+                        disabled={disabled}
+                        className="text-xs text-blue-600 hover:text-blue-700 font-medium"
+                    >
+                        Split evenly
+                    </button>
+                </div>
+
+                <div className="space-y-2">
+                    {templates.map((template, index) => (
+                        <div key={template.id} className="flex items-center gap-2">
+                            <span className="w-6 h-6 rounded text-[10px] font-bold flex items-center justify-center bg-blue-100 text-blue-600 shrink-0">
+                                {templateLetter(index)}
+                            </span>
+                            <span className="flex-1 text-xs text-gray-700 truncate min-w-0">{template.name}</span>
+                            {renderCount(template.id)}
+                            <div className="flex items-center gap-1">
+                                <input
+                                    type="number"
+                                    min={0}
+                                    max={100}
+                                    value={weights[template.id] ?? 0}
+                                    onChange={(e) => setWeight(template.id, parseInt(e.target.value, 10) || 0)}
+                                    disabled={disabled}
+                                    aria-label={`${template.name} percentage`}
+                                    className={cn(inputClassName, "w-16 text-right")}
+                                />
+                                <span className="text-xs text-gray-500">%</span>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+
+                <p className={cn("text-xs", total === 100 ? "text-gray-500" : "text-amber-600")}>
+                    Total {total}%
+                    {total === 0
+                        ? ' - give at least one template a percentage'
+                        : total !== 100 && ' - shares are scaled to fit all rows'}
+                </p>
+            </div>
+        );
+    }
+
+    // ============================================
+    // Rules
+    // ============================================
+    const rules = config.rules || [];
+
+    const updateRule = (index: number, updates: Partial<DistributionRule>) => {
+        onConfigChange({ ...config, rules: rules.map((rule, i) => i === index ? { ...rule, ...updates } : rule) });
+    };
+
+    const addRule = () => {
+        onConfigChange({
+            ...config,
+            rules: [...rules, {
+                column: csvHeaders[0] || '',
+                operator: 'equals',
+                value: '',
+                template_id: templates[Math.min(rules.length + 1, templates.length - 1)].id,
+            }],
+        });
+    };
+
+    const removeRule = (index: number) => {
+        onConfigChange({ ...config, rules: rules.filter((_, i) => i !== index) });
+    };
+
+    const fallbackId = config.fallback_template_id || templates[0].id;
+
+    return (
+        <div className="space-y-3 p-4 bg-gray-50 border border-gray-200 rounded-xl">
+            <div>
+                <h4 className="text-sm font-medium text-gray-900">Rules</h4>
+                <p className="text-xs text-gray-500 mt-0.5">Checked top to bottom - the first rule a row matches picks its template</p>
+            </div>
+
+            <div className="space-y-2">
+                {rules.map((rule, index) => {
+                    const operator = OPERATORS.find(o => o.value === rule.operator);
+                    return (
+                        <div key={index} className="flex flex-wrap items-center gap-1.5">
+                            <span className="text-xs text-gray-500 w-6">If</span>
+                            <select
+                                value={rule.column}
+                                onChange={(e) => updateRule(index, { column: e.target.value })}
+                                disabled={disabled}
+                                aria-label="Column"
+                                className={cn(inputClassName, "max-w-[140px]")}
+                            >
+                                {!csvHeaders.includes(rule.column) && <option value={rule.column}>{rule.column || 'Column'}</option>}
+                                {csvHeaders.map(header => (
+                                    <option key={header} value={header}>{header}</option>
+                                ))}
+                            </select>
+                            <select
+                                value={rule.operator}
+                                onChange={(e) => updateRule(index, { operator: e.target.value as DistributionRuleOperator })}
+                                disabled={disabled}
+                                aria-label="Condition"
+                                className={inputClassName}
+                            >
+                                {OPERATORS.map(o => (
+                                    <option key={o.value} value={o.value}>{o.label}</option>
+                                ))}
+                            </select>
+                            {operator?.needsValue && (
+                                <input
+                                    type="text"
+                                    value={rule.value}
+                                    onChange={(e) => updateRule(index, { value: e.target.value })}
+                                    disabled={disabled}
+                                    placeholder="Value"
+                                    aria-label="Value"
+                                    className={cn(inputClassName, "w-24")}
+                                />
+                            )}
+                            <ArrowRight className="w-3.5 h-3.5 text-gray-400" />
+                            <select
+                                value={rule.template_id}
+                                onChange={(e) => updateRule(index, { template_id: e.target.value })}
+                                disabled={disabled}
+                                aria-label="Template"
+                                className={cn(inputClassName, "max-w-[160px]")}
+                            >
+                                {templates.map((template, i) => (
+                                    <option key={template.id} value={template.id}>
+                                        {templateLetter(i)} · {template.name}
+                                    </option>
+                                ))}
+                            </select>
+                            <button
+                                type="button"
+                                onClick={() => removeRule(index)}
+                                disabled={disabled}
+                                className="p-1 text-gray-400 hover:text-red-500 transition-colors"
+                                title="Remove rule"
+                            >
+                                <Trash2 className="w-3.5 h-3.5" />
+                            </button>
+                        </div>
+                    );
+                })}
+            </div>
+
+            <button
+                type="button"
+                onClick={addRule}
+                disabled={disabled || csvHeaders.length === 0}
+                className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700 font-medium disabled:opacity-50"
+            >
+                <Plus className="w-3.5 h-3.5" />
+                Add rule
+            </button>
+
+            <div className="flex items-center gap-1.5 pt-2 border-t border-gray-200">
+                <span className="text-xs text-gray-500">Otherwise use</span>
+                <select
+                    value={fallbackId}
+                    onChange={(e) => onConfigChange({ ...config, fallback_template_id: e.target.value })}
+                    disabled={disabled}
+                    aria-label="Fallback template"
+                    className={cn(inputClassName, "max-w-[200px]")}
+                >
+                    {templates.map((template, i) => (
+                        <option key={template.id} value={template.id}>
+                            {templateLetter(i)} · {template.name}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            {expectedCounts && (
+                <div className="flex flex-wrap gap-x-3 gap-y-1 pt-2 border-t border-gray-200">
+                    {templates.map((template, i) => (
+                        <span key={template.id} className="text-[10px] text-gray-500">
+                            <span className="font-semibold">{templateLetter(i)}</span> {expectedCounts[template.id] ?? 0} pins
+                        </span>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
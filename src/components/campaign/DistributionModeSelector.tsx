@@ -1,7 +1,7 @@
 'use client';
 
 import React from 'react';
-import { ArrowRight, Shuffle, SplitSquareHorizontal, FileSpreadsheet } from 'lucide-react';
+import { ArrowRight, Shuffle, SplitSquareHorizontal, FileSpreadsheet, Percent, ListFilter } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { DistributionMode } from '@/types/database.types';
 
@@ -49,6 +49,20 @@ const distributionOptions: DistributionOption[] = [
         icon: <FileSpreadsheet className="w-5 h-5" />,
         preview: ['csv', '→', 'template'],
     },
+    {
+        value: 'weighted',
+        label: 'Weighted',
+        description: 'Give each template a percentage (e.g. 60/30/10)',
+        icon: <Percent className="w-5 h-5" />,
+        preview: ['A', 'B', 'A', 'A', 'B', 'C'],
+    },
+    {
+        value: 'rules',
+        label: 'Rules',
+        description: 'Pick templates by row values, with a fallback',
+        icon: <ListFilter className="w-5 h-5" />,
+        preview: ['if', 'category', '→', 'B'],
+    },
 ];
 
 /**
@@ -131,6 +145,8 @@ export function DistributionModeSelector({
                                                 "w-6 h-6 rounded text-[10px] font-bold flex items-center justify-center",
                                                 item === 'A' && "bg-purple-100 text-purple-600",
                                                 item === 'B' && "bg-pink-100 text-pink-600",
+                                                item === 'C' && "bg-amber-100 text-amber-600",
+                                                (item === 'if' || item === 'category') && "bg-gray-100 text-gray-600 w-auto px-1.5",
                                                 item === 'csv' && "bg-gray-100 text-gray-600 w-auto px-1.5",
                                                 item === 'template' && "bg-blue-100 text-blue-600 w-auto px-1.5"
                                             )}
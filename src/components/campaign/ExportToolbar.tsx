@@ -5,6 +5,7 @@ import { Download, Copy, FileSpreadsheet, Loader2, Check } from 'lucide-react';
 import JSZip from 'jszip';
 import { supabase } from '@/lib/supabase';
 import { cn } from '@/lib/utils';
+import { extensionForDownload } from '@/lib/output/formats';
 import { toast } from 'sonner';
 import { PinCardData } from './PinCard';
 
@@ -48,7 +49,7 @@ export function ExportToolbar({ pins, campaignName, csvData, totalCount, isEntir
                 try {
                     const response = await fetch(pin.imageUrl);
                     const blob = await response.blob();
-                    zip.file(`pin-${pin.rowIndex + 1}.png`, blob);
+                    zip.file(`pin-${pin.rowIndex + 1}.${extensionForDownload(blob.type, pin.imageUrl)}`, blob);
                 } catch (error) {
                     console.warn(`Failed to fetch pin ${pin.rowIndex + 1}:`, error);
                 }
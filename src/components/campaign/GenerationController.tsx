@@ -17,13 +17,14 @@ import { getCanvasPool } from '@/lib/canvas/CanvasPool';
 import { getImageCache, extractImageUrls } from '@/lib/canvas/ImagePreloadCache';
 import { EnhancedProgressTracker } from './EnhancedProgressTracker';
 import { calculateProgressMetrics, formatDuration } from '@/hooks/useProgressMetrics';
-import { TemplateSnapshot, DistributionMode, CampaignStatistics } from '@/types/database.types';
+import { TemplateSnapshot, DistributionMode, DistributionConfig, CampaignStatistics } from '@/types/database.types';
 import { 
     getTemplateForRow, 
     initializeDistributionSession, 
     DistributionContext,
 } from '@/lib/campaigns/distributionEngine';
 import { supabase } from '@/lib/supabase';
+import { OutputOptions, extensionForFormat, resolveOutputOptions } from '@/lib/output/formats';
 
 // ============================================
 // Types
@@ -64,6 +65,9 @@ const QUALITY_MAP: Record<GenerationSettings['quality'], number> = {
     ultra: 4,
 };
 
+// Campaigns created before output settings existed render JPEG
+const DEFAULT_OUTPUT_OPTIONS = resolveOutputOptions();
+
 // Default settings
 export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
     batchSize: 10,
@@ -87,10 +91,12 @@ interface GenerationControllerProps {
     // Multi-template mode (new)
     templateSnapshots?: TemplateSnapshot[];
     distributionMode?: DistributionMode;
+    distributionConfig?: DistributionConfig | null; // Weights / rules for those modes
     onStatisticsUpdate?: (stats: CampaignStatistics) => void;
     
     csvData: Record<string, string>[];
     fieldMapping: Record<string, string>;
+    outputOptions?: OutputOptions; // Campaign's image format, quality and size budget
     initialSettings?: GenerationSettings;
     initialProgress?: number;
     initialStatus?: 'pending' | 'processing' | 'paused' | 'completed' | 'failed';
@@ -114,10 +120,12 @@ export function GenerationController({
     // Multi-template props (new)
     templateSnapshots,
     distributionMode = 'sequential',
+    distributionConfig,
     onStatisticsUpdate,
     
     csvData,
     fieldMapping,
+    outputOptions = DEFAULT_OUTPUT_OPTIONS,
     initialSettings = DEFAULT_GENERATION_SETTINGS,
     initialProgress = 0,
     initialStatus = 'pending',
@@ -145,6 +153,7 @@ export function GenerationController({
                 templates: templateSnapshots,
                 mode: distributionMode,
                 totalRows: csvData.length,
+                config: distributionConfig,
             };
             // Initialize stats for each template
             templateStatsRef.current = {};
@@ -152,7 +161,7 @@ export function GenerationController({
                 templateStatsRef.current[t.id] = { generated: 0, failed: 0 };
             });
         }
-    }, [isMultiTemplateMode, templateSnapshots, distributionMode, csvData.length]);
+    }, [isMultiTemplateMode, templateSnapshots, distributionMode, distributionConfig, csvData.length]);
     
     // Helper: Get template data for a specific row
     const getTemplateForRowIndex = useCallback((rowIndex: number, rowData: Record<string, string>) => {
@@ -455,13 +464,14 @@ export function GenerationController({
             );
             const tRender = performance.now();
 
-            // Export to blob - OPTIMIZED: Use JPEG directly (faster, smaller)
-            // JPEG 0.9 is visually equivalent to PNG but 5-10x smaller
+            // Export to blob in the campaign's format - browsers can't encode AVIF,
+            // so those go up as PNG and /api/upload-pin encodes them (and anything over budget)
             const multiplier = QUALITY_MAP[settings.quality];
+            const clientFormat = outputOptions.format === 'avif' ? 'png' : outputOptions.format;
             const blob = await exportToBlob(canvas, { 
                 multiplier, 
-                format: 'jpeg', 
-                quality: 0.9 
+                format: clientFormat, 
+                quality: outputOptions.quality / 100 
             });
             const tBlob = performance.now();
 
@@ -475,7 +485,7 @@ export function GenerationController({
 
             return {
                 blob,
-                fileName: `pin-${rowIndex + 1}.jpg`,
+                fileName: `pin-${rowIndex + 1}.${extensionForFormat(clientFormat)}`,
                 rowIndex,
                 templateId: templateData.templateId,
             };
@@ -487,7 +497,7 @@ export function GenerationController({
             // Always release canvas back to pool
             canvasPoolRef.current.release(canvas);
         }
-    }, [canvasSize, templateElements, backgroundColor, fieldMapping, settings.quality, getTemplateForRowIndex, updateTemplateStats]);
+    }, [canvasSize, templateElements, backgroundColor, fieldMapping, settings.quality, outputOptions, getTemplateForRowIndex, updateTemplateStats]);
 
     // ============================================
     // Start Generation (BATCH Processing - 10x Faster)
@@ -1,8 +1,9 @@
 'use client';
 
 import React, { useState, memo } from 'react';
-import { Download, Eye, Link2, Check, AlertCircle, Loader2, Trash2 } from 'lucide-react';
+import { Download, Eye, Link2, Check, AlertCircle, Loader2, Trash2, MessageSquare } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { extensionForDownload } from '@/lib/output/formats';
 import { toast } from 'sonner';
 import { SelectionCheckbox } from '@/components/ui/BulkActions';
 
@@ -22,6 +23,8 @@ interface PinCardProps {
     showSelection?: boolean;
     onPreview?: (pin: PinCardData) => void;
     onDelete?: (pin: PinCardData) => void;
+    onComment?: (pin: PinCardData) => void;
+    commentCount?: number;
 }
 
 export const PinCard = memo(function PinCard({
@@ -31,6 +34,8 @@ export const PinCard = memo(function PinCard({
     showSelection = false,
     onPreview,
     onDelete,
+    onComment,
+    commentCount = 0,
 }: PinCardProps) {
     const [isCopied, setIsCopied] = useState(false);
     const [isDownloading, setIsDownloading] = useState(false);
@@ -59,7 +64,7 @@ export const PinCard = memo(function PinCard({
             const url = window.URL.createObjectURL(blob);
             const link = document.createElement('a');
             link.href = url;
-            link.download = `pin-${pin.rowIndex + 1}.png`;
+            link.download = `pin-${pin.rowIndex + 1}.${extensionForDownload(blob.type, pin.imageUrl)}`;
             document.body.appendChild(link);
             link.click();
             document.body.removeChild(link);
@@ -208,6 +213,32 @@ export const PinCard = memo(function PinCard({
                     )}
                 </button>
 
+                {/* Review Comments Button */}
+                {onComment && (
+                    <button
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            onComment(pin);
+                        }}
+                        disabled={pin.status === 'pending'}
+                        className={cn(
+                            "relative w-10 h-10 flex items-center justify-center rounded-lg border transition-colors",
+                            pin.status !== 'pending'
+                                ? "border-gray-200 bg-white text-gray-700 hover:bg-gray-100 active:bg-gray-200"
+                                : "border-gray-100 bg-gray-50 text-gray-300 cursor-not-allowed"
+                        )}
+                        title={commentCount > 0 ? `${commentCount} comment${commentCount === 1 ? '' : 's'}` : 'Comment on pin'}
+                        aria-label="Comment on pin"
+                    >
+                        <MessageSquare className="w-5 h-5" />
+                        {commentCount > 0 && (
+                            <span className="absolute -top-1.5 -right-1.5 min-w-4 h-4 px-1 rounded-full bg-primary-creative text-white text-[10px] font-bold flex items-center justify-center">
+                                {commentCount}
+                            </span>
+                        )}
+                    </button>
+                )}
+
                 {/* Delete Button */}
                 {onDelete && (
                     <button
@@ -240,6 +271,9 @@ interface PinsGridProps {
     showSelection?: boolean;
     onPreview?: (pin: PinCardData) => void;
     onDeletePin?: (pin: PinCardData) => void;
+    onCommentPin?: (pin: PinCardData) => void;
+    /** Comment count per pin id */
+    commentCounts?: Record<string, number>;
 }
 
 export function PinsGrid({
@@ -249,6 +283,8 @@ export function PinsGrid({
     showSelection = false,
     onPreview,
     onDeletePin,
+    onCommentPin,
+    commentCounts,
 }: PinsGridProps) {
     if (pins.length === 0) {
         return (
@@ -273,6 +309,8 @@ export function PinsGrid({
                     showSelection={showSelection}
                     onPreview={onPreview}
                     onDelete={onDeletePin}
+                    onComment={onCommentPin}
+                    commentCount={commentCounts?.[pin.id]}
                 />
             ))}
         </div>
@@ -0,0 +1,102 @@
+'use client';
+
+import React, { useEffect, useMemo } from 'react';
+import { X, MessageSquare, Loader2 } from 'lucide-react';
+import { groupIntoThreads } from '@/lib/review/comments';
+import { canManageWorkspace } from '@/lib/auth/workspaceRoles';
+import { useActiveWorkspace } from '@/hooks/useWorkspaces';
+import { useCommentAuthors, useCreateComment, usePinComments } from '@/hooks/useComments';
+import { CommentComposer, CommentThread } from '@/components/shared/CommentThread';
+import { PinCardData } from './PinCard';
+
+interface PinCommentsDrawerProps {
+    campaignId: string;
+    pin: PinCardData;
+    onClose: () => void;
+}
+
+/**
+ * Threaded review comments on one generated pin
+ */
+export function PinCommentsDrawer({ campaignId, pin, onClose }: PinCommentsDrawerProps) {
+    const scope = { pinId: pin.id, campaignId };
+    const { data: comments = [], isLoading } = usePinComments(pin.id);
+    const createComment = useCreateComment(scope);
+    const authors = useCommentAuthors();
+    const { role } = useActiveWorkspace();
+
+    const threads = useMemo(() => groupIntoThreads(comments), [comments]);
+
+    // Handle escape key to close drawer
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        document.addEventListener('keydown', handleKeyDown);
+        return () => document.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    return (
+        <div className="fixed inset-0 z-50 flex justify-end">
+            {/* Backdrop */}
+            <div className="absolute inset-0 bg-black/30 animate-in fade-in-0 duration-200" onClick={onClose} />
+
+            {/* Drawer */}
+            <aside className="relative w-full max-w-md h-full bg-gray-50 shadow-2xl flex flex-col animate-in slide-in-from-right duration-200">
+                {/* Header */}
+                <div className="flex items-center gap-3 px-5 py-4 border-b border-gray-200 bg-white">
+                    {pin.imageUrl && (
+                        // eslint-disable-next-line @next/next/no-img-element
+                        <img src={pin.imageUrl} alt="" className="w-10 h-14 rounded-md object-cover bg-gray-100" />
+                    )}
+                    <div className="min-w-0 flex-1">
+                        <h2 className="text-base font-semibold text-gray-900 flex items-center gap-2">
+                            <MessageSquare className="w-4 h-4 text-gray-500" />
+                            Pin #{pin.rowIndex + 1}
+                        </h2>
+                        <p className="text-xs text-gray-500">
+                            {threads.length} thread{threads.length === 1 ? '' : 's'}
+                        </p>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-2 rounded-lg hover:bg-gray-100 transition-colors"
+                        aria-label="Close comments"
+                    >
+                        <X className="w-5 h-5 text-gray-500" />
+                    </button>
+                </div>
+
+                {/* Threads */}
+                <div className="flex-1 overflow-y-auto p-4 space-y-3">
+                    {isLoading ? (
+                        <div className="flex justify-center py-6">
+                            <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+                        </div>
+                    ) : threads.length === 0 ? (
+                        <p className="text-center text-sm text-gray-500 py-6">No comments on this pin yet.</p>
+                    ) : (
+                        threads.map(thread => (
+                            <CommentThread
+                                key={thread.root.id}
+                                thread={thread}
+                                scope={scope}
+                                authors={authors}
+                                isWorkspaceOwner={canManageWorkspace(role)}
+                            />
+                        ))
+                    )}
+                </div>
+
+                {/* New thread */}
+                <div className="p-4 border-t border-gray-200 bg-white">
+                    <CommentComposer
+                        placeholder="Start a thread on this pin..."
+                        isPosting={createComment.isPending}
+                        onSubmit={(body) => createComment.mutateAsync({ target: { pinId: pin.id }, body })}
+                    />
+                </div>
+            </aside>
+        </div>
+    );
+}
@@ -0,0 +1,320 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { ChevronDown, ChevronUp, Loader2, Send, Save, RefreshCw, AlertCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { supabase } from '@/lib/supabase';
+import { updateCampaign } from '@/lib/db/campaigns';
+import { PinContentMapping } from '@/types/database.types';
+
+interface PinterestBoardOption {
+    id: string;
+    name: string;
+}
+
+interface PinterestPublishPanelProps {
+    campaignId: string;
+    csvHeaders: string[];
+    boardId: string | null;
+    contentMapping: PinContentMapping | null;
+    autoPost: boolean;
+    disabled?: boolean;
+    onSaved?: (updates: { pinterest_board_id: string | null; pin_content_mapping: PinContentMapping; auto_post: boolean }) => void;
+}
+
+const CONTENT_FIELDS: { key: keyof PinContentMapping; label: string }[] = [
+    { key: 'title_column', label: 'Title' },
+    { key: 'description_column', label: 'Description' },
+    { key: 'link_column', label: 'Link' },
+    { key: 'alt_text_column', label: 'Alt text' },
+];
+
+// Helper to get auth headers with access token
+async function getAuthHeaders(): Promise<HeadersInit> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) {
+        throw new Error('Not authenticated');
+    }
+    return {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+    };
+}
+
+export function PinterestPublishPanel({
+    campaignId,
+    csvHeaders,
+    boardId,
+    contentMapping,
+    autoPost,
+    disabled,
+    onSaved,
+}: PinterestPublishPanelProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const [boards, setBoards] = useState<PinterestBoardOption[]>([]);
+    const [boardsError, setBoardsError] = useState<string | null>(null);
+    const [isLoadingBoards, setIsLoadingBoards] = useState(false);
+
+    const [selectedBoardId, setSelectedBoardId] = useState(boardId || '');
+    const [mapping, setMapping] = useState<PinContentMapping>(contentMapping || {});
+    const [autoPostEnabled, setAutoPostEnabled] = useState(autoPost);
+    const [isSaving, setIsSaving] = useState(false);
+    const [isPublishing, setIsPublishing] = useState(false);
+
+    const [postedCount, setPostedCount] = useState(0);
+    const [failedCount, setFailedCount] = useState(0);
+
+    const loadBoards = useCallback(async () => {
+        setIsLoadingBoards(true);
+        setBoardsError(null);
+        try {
+            const response = await fetch('/api/pinterest/boards', { headers: await getAuthHeaders() });
+            const result = await response.json();
+            if (!response.ok) {
+                setBoardsError(result.error || 'Failed to load boards');
+                return;
+            }
+            setBoards(result.data.boards);
+            setSelectedBoardId(current => current || result.data.default_board_id || '');
+        } catch (error) {
+            setBoardsError(error instanceof Error ? error.message : 'Failed to load boards');
+        } finally {
+            setIsLoadingBoards(false);
+        }
+    }, []);
+
+    const loadCounts = useCallback(async () => {
+        const [posted, failed] = await Promise.all([
+            supabase
+                .from('generated_pins')
+                .select('id', { count: 'exact', head: true })
+                .eq('campaign_id', campaignId)
+                .not('pinterest_pin_id', 'is', null),
+            supabase
+                .from('generated_pins')
+                .select('id', { count: 'exact', head: true })
+                .eq('campaign_id', campaignId)
+                .is('pinterest_pin_id', null)
+                .not('publish_error', 'is', null),
+        ]);
+        setPostedCount(posted.count || 0);
+        setFailedCount(failed.count || 0);
+    }, [campaignId]);
+
+    useEffect(() => {
+        if (isOpen) {
+            loadBoards();
+            loadCounts();
+        }
+    }, [isOpen, loadBoards, loadCounts]);
+
+    const saveSettings = async (): Promise<boolean> => {
+        const updates = {
+            pinterest_board_id: selectedBoardId || null,
+            pin_content_mapping: mapping,
+            auto_post: autoPostEnabled,
+        };
+        const success = await updateCampaign(campaignId, updates);
+        if (success) {
+            onSaved?.(updates);
+        } else {
+            toast.error('Failed to save publishing settings');
+        }
+        return success;
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            if (await saveSettings()) toast.success('Publishing settings saved');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handlePublish = async (retryFailed = false) => {
+        if (!selectedBoardId) {
+            toast.error('Select a Pinterest board first');
+            return;
+        }
+
+        setIsPublishing(true);
+        try {
+            if (!(await saveSettings())) return;
+
+            const response = await fetch('/api/pinterest/publish', {
+                method: 'POST',
+                headers: await getAuthHeaders(),
+                body: JSON.stringify({ campaign_id: campaignId, board_id: selectedBoardId, retry_failed: retryFailed }),
+            });
+            const result = await response.json();
+            if (!response.ok) {
+                toast.error(result.error || 'Failed to start publishing');
+                return;
+            }
+
+            toast.success('Publishing started', {
+                description: 'Pins are posted in the background - check back for progress.',
+            });
+            if (retryFailed) setFailedCount(0);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to start publishing');
+        } finally {
+            setIsPublishing(false);
+        }
+    };
+
+    const isBusy = disabled || isSaving || isPublishing;
+
+    return (
+        <div className="bg-white border border-gray-200 rounded-xl overflow-hidden shadow-sm hover:shadow-md transition-shadow duration-200">
+            {/* Header */}
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="w-full flex items-center justify-between p-4 bg-gradient-to-r from-gray-50 to-white hover:from-gray-100 hover:to-gray-50 transition-all"
+            >
+                <div className="flex items-center gap-3">
+                    <div className="p-2 bg-red-50 rounded-lg text-red-600">
+                        <Send className="w-5 h-5" />
+                    </div>
+                    <div className="text-left">
+                        <span className="block font-semibold text-gray-900">Publish to Pinterest</span>
+                        <span className="text-xs text-gray-500">Board, pin text and auto-posting</span>
+                    </div>
+                </div>
+                {isOpen ? (
+                    <ChevronUp className="w-5 h-5 text-gray-400" />
+                ) : (
+                    <ChevronDown className="w-5 h-5 text-gray-400" />
+                )}
+            </button>
+
+            {/* Content */}
+            {isOpen && (
+                <div className="p-5 space-y-5">
+                    {/* Board */}
+                    <div>
+                        <div className="flex items-center justify-between mb-2">
+                            <label htmlFor="pinterest-board" className="block text-sm font-medium text-gray-900">
+                                Board
+                            </label>
+                            <button
+                                onClick={loadBoards}
+                                disabled={isLoadingBoards}
+                                className="text-gray-400 hover:text-gray-700 transition-colors"
+                                title="Reload boards"
+                            >
+                                <RefreshCw className={cn("w-3.5 h-3.5", isLoadingBoards && "animate-spin")} />
+                            </button>
+                        </div>
+                        {boardsError ? (
+                            <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-100 rounded-lg">
+                                <AlertCircle className="w-4 h-4 text-amber-500 shrink-0 mt-0.5" />
+                                <p className="text-xs font-medium text-amber-800">{boardsError}</p>
+                            </div>
+                        ) : (
+                            <select
+                                id="pinterest-board"
+                                value={selectedBoardId}
+                                onChange={(e) => setSelectedBoardId(e.target.value)}
+                                disabled={isBusy || isLoadingBoards}
+                                className="w-full px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                            >
+                                <option value="">{isLoadingBoards ? 'Loading boards...' : 'Select a board'}</option>
+                                {boards.map(board => (
+                                    <option key={board.id} value={board.id}>{board.name}</option>
+                                ))}
+                            </select>
+                        )}
+                    </div>
+
+                    {/* Pin text from CSV columns */}
+                    <div>
+                        <label className="block text-sm font-medium text-gray-900 mb-2">
+                            Pin text from CSV columns
+                        </label>
+                        <div className="grid grid-cols-2 gap-2">
+                            {CONTENT_FIELDS.map(field => (
+                                <div key={field.key}>
+                                    <label htmlFor={`pin-${field.key}`} className="block text-xs text-gray-500 mb-1">
+                                        {field.label}
+                                    </label>
+                                    <select
+                                        id={`pin-${field.key}`}
+                                        value={mapping[field.key] || ''}
+                                        onChange={(e) => setMapping({ ...mapping, [field.key]: e.target.value || null })}
+                                        disabled={isBusy}
+                                        className="w-full px-2 py-1.5 bg-gray-50 border border-gray-200 rounded-lg text-xs focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                                    >
+                                        <option value="">None</option>
+                                        {csvHeaders.map(header => (
+                                            <option key={header} value={header}>{header}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    {/* Auto-post */}
+                    <label className="flex items-center justify-between cursor-pointer">
+                        <div>
+                            <span className="block text-sm font-medium text-gray-900">Auto-post</span>
+                            <span className="text-xs text-gray-500">Publish as soon as generation completes</span>
+                        </div>
+                        <input
+                            type="checkbox"
+                            checked={autoPostEnabled}
+                            onChange={(e) => setAutoPostEnabled(e.target.checked)}
+                            disabled={isBusy}
+                            className="w-4 h-4 accent-blue-600"
+                        />
+                    </label>
+
+                    <div className="h-px bg-gray-100" />
+
+                    {/* Status */}
+                    <div className="flex items-center justify-between text-xs text-gray-500">
+                        <span>{postedCount} posted</span>
+                        {failedCount > 0 && (
+                            <button
+                                onClick={() => handlePublish(true)}
+                                disabled={isBusy}
+                                className="text-red-600 font-medium hover:underline"
+                            >
+                                {failedCount} failed - retry
+                            </button>
+                        )}
+                    </div>
+
+                    {/* Actions */}
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={handleSave}
+                            disabled={isBusy}
+                            className={cn(
+                                "flex items-center justify-center gap-1.5 px-3 py-2 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors",
+                                isBusy && "opacity-50 cursor-not-allowed"
+                            )}
+                        >
+                            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                            Save
+                        </button>
+                        <button
+                            onClick={() => handlePublish()}
+                            disabled={isBusy || !selectedBoardId}
+                            className={cn(
+                                "flex-1 flex items-center justify-center gap-1.5 px-3 py-2 rounded-lg text-sm font-medium bg-red-600 text-white hover:bg-red-700 transition-colors",
+                                (isBusy || !selectedBoardId) && "opacity-50 cursor-not-allowed"
+                            )}
+                        >
+                            {isPublishing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                            Publish pins
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
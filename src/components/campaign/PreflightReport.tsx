@@ -0,0 +1,186 @@
+'use client';
+
+import React, { useState } from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle, Download, Loader2, ShieldCheck, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { PreflightReport as PreflightReportData } from '@/lib/campaigns/preflight';
+import { PreflightProgress, PreflightStatus } from '@/hooks/usePreflight';
+
+// Rows listed before "Show all"
+const COLLAPSED_ROW_COUNT = 20;
+
+interface PreflightReportProps {
+    status: PreflightStatus;
+    progress: PreflightProgress;
+    report: PreflightReportData | null;
+    error: string | null;
+    onRun: () => void;
+    onExcludeRows: (rowIndexes: number[]) => void;
+    onFixAndReupload: () => void;
+}
+
+/**
+ * PreflightReport - per-row results of the pre-launch asset check
+ */
+export function PreflightReport({
+    status,
+    progress,
+    report,
+    error,
+    onRun,
+    onExcludeRows,
+    onFixAndReupload,
+}: PreflightReportProps) {
+    const [showAll, setShowAll] = useState(false);
+
+    const isRunning = status === 'running';
+    const percent = progress.totalImages > 0
+        ? Math.round((progress.checkedImages / progress.totalImages) * 100)
+        : 0;
+    const visibleRows = report ? (showAll ? report.rows : report.rows.slice(0, COLLAPSED_ROW_COUNT)) : [];
+    const errorCount = report?.errorRowIndexes.length ?? 0;
+    const warningCount = report?.warningRowIndexes.length ?? 0;
+
+    return (
+        <div className="bg-white border border-gray-200 rounded-xl p-5">
+            <div className="flex items-center justify-between gap-4">
+                <div className="flex items-center gap-3">
+                    <div className="w-10 h-10 rounded-lg bg-amber-100 flex items-center justify-center">
+                        <ShieldCheck className="w-5 h-5 text-amber-600" />
+                    </div>
+                    <div>
+                        <h3 className="font-semibold text-gray-900">Pre-flight Check</h3>
+                        <p className="text-sm text-gray-500">
+                            Checks every image URL and auto-fit text before any pins are rendered.
+                        </p>
+                    </div>
+                </div>
+                <button
+                    onClick={onRun}
+                    disabled={isRunning}
+                    className={cn(
+                        "flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors",
+                        "bg-gray-900 text-white hover:bg-gray-800",
+                        isRunning && "opacity-50 cursor-not-allowed"
+                    )}
+                >
+                    {isRunning ? <Loader2 className="w-4 h-4 animate-spin" /> : <ShieldCheck className="w-4 h-4" />}
+                    {report ? 'Run again' : 'Run pre-flight check'}
+                </button>
+            </div>
+
+            {isRunning && (
+                <div className="mt-4">
+                    <div className="flex justify-between text-xs text-gray-500 mb-1">
+                        <span>
+                            {progress.checkedImages < progress.totalImages
+                                ? `Checking images... ${progress.checkedImages} / ${progress.totalImages}`
+                                : 'Measuring text...'}
+                        </span>
+                        <span>{percent}%</span>
+                    </div>
+                    <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                        <div className="h-full bg-amber-500 transition-all" style={{ width: `${percent}%` }} />
+                    </div>
+                </div>
+            )}
+
+            {status === 'error' && error && (
+                <p className="mt-4 text-sm text-red-600 flex items-center gap-1">
+                    <AlertCircle className="w-4 h-4" />
+                    {error}
+                </p>
+            )}
+
+            {report && (
+                <div className="mt-4 space-y-4">
+                    {report.rows.length === 0 ? (
+                        <p className="text-sm text-green-700 flex items-center gap-1">
+                            <CheckCircle className="w-4 h-4" />
+                            All {report.checkedRows} rows passed ({report.checkedImages} images checked)
+                        </p>
+                    ) : (
+                        <>
+                            <div className="flex flex-wrap items-center gap-3 text-sm">
+                                {errorCount > 0 && (
+                                    <span className="flex items-center gap-1 text-red-600 font-medium">
+                                        <AlertCircle className="w-4 h-4" />
+                                        {errorCount} {errorCount === 1 ? 'row' : 'rows'} will fail
+                                    </span>
+                                )}
+                                {warningCount > 0 && (
+                                    <span className="flex items-center gap-1 text-amber-600 font-medium">
+                                        <AlertTriangle className="w-4 h-4" />
+                                        {warningCount} {warningCount === 1 ? 'row' : 'rows'} may look wrong
+                                    </span>
+                                )}
+                                <span className="text-gray-500">
+                                    of {report.checkedRows} rows, {report.checkedImages} images checked
+                                </span>
+                            </div>
+
+                            <div className="flex flex-wrap gap-2">
+                                {errorCount > 0 && (
+                                    <button
+                                        onClick={() => onExcludeRows(report.errorRowIndexes)}
+                                        className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-red-700 bg-red-50 hover:bg-red-100 rounded-lg transition-colors"
+                                    >
+                                        <Trash2 className="w-4 h-4" />
+                                        Exclude {errorCount} failing {errorCount === 1 ? 'row' : 'rows'}
+                                    </button>
+                                )}
+                                <button
+                                    onClick={onFixAndReupload}
+                                    className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+                                >
+                                    <Download className="w-4 h-4" />
+                                    Fix and re-upload
+                                </button>
+                            </div>
+
+                            <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-80 overflow-y-auto">
+                                {visibleRows.map(row => (
+                                    <div key={row.rowIndex} className="px-3 py-2 text-sm">
+                                        <span className="font-medium text-gray-900">Row {row.rowIndex + 1}</span>
+                                        <ul className="mt-1 space-y-0.5">
+                                            {row.issues.map((issue, i) => (
+                                                <li
+                                                    key={i}
+                                                    className={cn(
+                                                        "flex items-start gap-1.5",
+                                                        issue.severity === 'error' ? "text-red-600" : "text-amber-600"
+                                                    )}
+                                                >
+                                                    {issue.severity === 'error'
+                                                        ? <AlertCircle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+                                                        : <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />}
+                                                    <span>
+                                                        {issue.message}
+                                                        {issue.value && (
+                                                            <span className="block text-xs text-gray-400 truncate" title={issue.value}>
+                                                                {issue.value}
+                                                            </span>
+                                                        )}
+                                                    </span>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                ))}
+                            </div>
+
+                            {report.rows.length > COLLAPSED_ROW_COUNT && (
+                                <button
+                                    onClick={() => setShowAll(!showAll)}
+                                    className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+                                >
+                                    {showAll ? 'Show fewer' : `Show all ${report.rows.length} rows`}
+                                </button>
+                            )}
+                        </>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -181,6 +181,7 @@ export function PreviewSection({ className }: PreviewSectionProps) {
         selectedTemplates,
         selectionMode,
         distributionMode,
+        distributionConfig,
         fieldMapping,
         previewStatus,
         setPreviewStatus,
@@ -287,6 +288,7 @@ export function PreviewSection({ className }: PreviewSectionProps) {
         // NEW: Multi-template props
         templates: isMultiTemplateMode ? templatesData : undefined,
         distributionMode: isMultiTemplateMode ? distributionMode : undefined,
+        distributionConfig: isMultiTemplateMode ? distributionConfig : undefined,
     });
     
     // Update context preview status
@@ -0,0 +1,478 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { DragDropContext, Droppable, Draggable, DropResult } from '@hello-pangea/dnd';
+import { CalendarClock, ChevronDown, ChevronUp, Loader2, Trash2, CheckCircle2, AlertCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { supabase } from '@/lib/supabase';
+import {
+    MAX_DAILY_CAP,
+    formatTimeOfDay,
+    listScheduleDays,
+    localDayKey,
+    localMinutes,
+    nextDayKey,
+    slotTimeForDrop,
+    validatePublishSchedule,
+} from '@/lib/pinterest/schedule';
+import { PublishSchedule } from '@/types/database.types';
+
+interface ScheduledPin {
+    id: string;
+    image_url: string | null;
+    scheduled_at: string;
+    posted_at: string | null;
+    pinterest_pin_id: string | null;
+    publish_error: string | null;
+}
+
+interface PublishScheduleCalendarProps {
+    campaignId: string;
+    boardId: string | null;
+    disabled?: boolean;
+}
+
+// Helper to get auth headers with access token
+async function getAuthHeaders(): Promise<HeadersInit> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) {
+        throw new Error('Not authenticated');
+    }
+    return {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+    };
+}
+
+function browserTimeZone(): string {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+// Two weeks from today, 9am-9pm
+function defaultSchedule(): PublishSchedule {
+    const timezone = browserTimeZone();
+    const today = localDayKey(new Date(), timezone);
+    let endDate = today;
+    for (let i = 0; i < 13; i++) endDate = nextDayKey(endDate);
+    return {
+        start_date: today,
+        end_date: endDate,
+        timezone,
+        window_start: '09:00',
+        window_end: '21:00',
+        daily_cap: 10,
+    };
+}
+
+const TIME_ZONES: string[] = typeof Intl.supportedValuesOf === 'function'
+    ? Intl.supportedValuesOf('timeZone')
+    : [];
+
+function formatDayHeading(day: string): string {
+    const [year, month, date] = day.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, date)).toLocaleDateString(undefined, {
+        timeZone: 'UTC',
+        weekday: 'short',
+        month: 'short',
+        day: 'numeric',
+    });
+}
+
+/**
+ * PublishScheduleCalendar - Date range / daily cap settings for queued Pinterest
+ * publishing, and a calendar of the queued pins. Pins can be dragged between
+ * days and slots; posted pins are fixed.
+ */
+export function PublishScheduleCalendar({ campaignId, boardId, disabled }: PublishScheduleCalendarProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const [draft, setDraft] = useState<PublishSchedule>(defaultSchedule);
+    const [schedule, setSchedule] = useState<PublishSchedule | null>(null);
+    const [pins, setPins] = useState<ScheduledPin[]>([]);
+    const [unscheduledCount, setUnscheduledCount] = useState(0);
+
+    const loadSchedule = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const response = await fetch(`/api/pinterest/schedule?campaign_id=${campaignId}`, {
+                headers: await getAuthHeaders(),
+            });
+            const result = await response.json();
+            if (!response.ok) {
+                toast.error(result.error || 'Failed to load schedule');
+                return;
+            }
+            setSchedule(result.data.schedule);
+            if (result.data.schedule) setDraft(result.data.schedule);
+            setPins(result.data.pins);
+            setUnscheduledCount(result.data.unscheduled_count);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to load schedule');
+        } finally {
+            setIsLoading(false);
+        }
+    }, [campaignId]);
+
+    useEffect(() => {
+        if (isOpen) loadSchedule();
+    }, [isOpen, loadSchedule]);
+
+    // Calendar columns: every day of the schedule plus any day a posted pin landed on
+    const pinsByDay = useMemo(() => {
+        const byDay = new Map<string, ScheduledPin[]>();
+        if (!schedule) return byDay;
+
+        for (const day of listScheduleDays(schedule)) byDay.set(day, []);
+        for (const pin of pins) {
+            const day = localDayKey(new Date(pin.scheduled_at), schedule.timezone);
+            if (!byDay.has(day)) byDay.set(day, []);
+            byDay.get(day)!.push(pin);
+        }
+        for (const dayPins of byDay.values()) {
+            dayPins.sort((a, b) => a.scheduled_at.localeCompare(b.scheduled_at));
+        }
+        return new Map([...byDay.entries()].sort(([a], [b]) => a.localeCompare(b)));
+    }, [schedule, pins]);
+
+    const draftError = validatePublishSchedule(draft);
+
+    const handleSchedule = async () => {
+        if (draftError) {
+            toast.error(draftError);
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            const response = await fetch('/api/pinterest/schedule', {
+                method: 'POST',
+                headers: await getAuthHeaders(),
+                body: JSON.stringify({ campaign_id: campaignId, board_id: boardId || undefined, schedule: draft }),
+            });
+            const result = await response.json();
+            if (!response.ok) {
+                toast.error(result.error || 'Failed to schedule pins');
+                return;
+            }
+
+            const { scheduled, unscheduled } = result.data;
+            if (unscheduled > 0) {
+                toast.warning(`${scheduled} pins scheduled`, {
+                    description: `${unscheduled} pins did not fit - extend the dates or raise the daily cap.`,
+                });
+            } else {
+                toast.success(`${scheduled} pins scheduled`);
+            }
+            await loadSchedule();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to schedule pins');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleClear = async () => {
+        setIsSaving(true);
+        try {
+            const response = await fetch(`/api/pinterest/schedule?campaign_id=${campaignId}`, {
+                method: 'DELETE',
+                headers: await getAuthHeaders(),
+            });
+            const result = await response.json();
+            if (!response.ok) {
+                toast.error(result.error || 'Failed to clear schedule');
+                return;
+            }
+            toast.success('Schedule cleared');
+            await loadSchedule();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to clear schedule');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDragEnd = async (result: DropResult) => {
+        if (!schedule || !result.destination) return;
+
+        const { source, destination, draggableId } = result;
+        if (source.droppableId === destination.droppableId && source.index === destination.index) return;
+
+        const dayTimes = (pinsByDay.get(destination.droppableId) || [])
+            .filter(pin => pin.id !== draggableId)
+            .map(pin => pin.scheduled_at);
+
+        if (destination.droppableId !== source.droppableId && dayTimes.length >= schedule.daily_cap) {
+            toast.error(`That day already has ${schedule.daily_cap} pins`);
+            return;
+        }
+
+        const scheduledAt = slotTimeForDrop(destination.droppableId, destination.index, dayTimes, schedule);
+        if (!scheduledAt) {
+            toast.error("That day's posting window has passed");
+            return;
+        }
+
+        // Optimistic move, reverted if the server refuses it
+        const previousPins = pins;
+        setPins(current => current.map(pin => pin.id === draggableId ? { ...pin, scheduled_at: scheduledAt } : pin));
+
+        try {
+            const response = await fetch('/api/pinterest/schedule', {
+                method: 'PATCH',
+                headers: await getAuthHeaders(),
+                body: JSON.stringify({ pin_id: draggableId, scheduled_at: scheduledAt }),
+            });
+            const body = await response.json();
+            if (!response.ok) {
+                setPins(previousPins);
+                toast.error(body.error || 'Failed to move pin');
+            }
+        } catch (error) {
+            setPins(previousPins);
+            toast.error(error instanceof Error ? error.message : 'Failed to move pin');
+        }
+    };
+
+    const isBusy = disabled || isSaving || isLoading;
+
+    return (
+        <div className="bg-white border border-gray-200 rounded-xl overflow-hidden shadow-sm hover:shadow-md transition-shadow duration-200">
+            {/* Header */}
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="w-full flex items-center justify-between p-4 bg-gradient-to-r from-gray-50 to-white hover:from-gray-100 hover:to-gray-50 transition-all"
+            >
+                <div className="flex items-center gap-3">
+                    <div className="p-2 bg-red-50 rounded-lg text-red-600">
+                        <CalendarClock className="w-5 h-5" />
+                    </div>
+                    <div className="text-left">
+                        <span className="block font-semibold text-gray-900">Publishing schedule</span>
+                        <span className="text-xs text-gray-500">Spread pins over days with a daily cap per board</span>
+                    </div>
+                </div>
+                {isOpen ? (
+                    <ChevronUp className="w-5 h-5 text-gray-400" />
+                ) : (
+                    <ChevronDown className="w-5 h-5 text-gray-400" />
+                )}
+            </button>
+
+            {/* Content */}
+            {isOpen && (
+                <div className="p-5 space-y-5">
+                    {/* Settings */}
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                        <div>
+                            <label htmlFor="schedule-start" className="block text-xs text-gray-500 mb-1">Start date</label>
+                            <input
+                                id="schedule-start"
+                                type="date"
+                                value={draft.start_date}
+                                onChange={(e) => setDraft({ ...draft, start_date: e.target.value })}
+                                disabled={isBusy}
+                                className="w-full px-2 py-1.5 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                            />
+                        </div>
+                        <div>
+                            <label htmlFor="schedule-end" className="block text-xs text-gray-500 mb-1">End date</label>
+                            <input
+                                id="schedule-end"
+                                type="date"
+                                value={draft.end_date}
+                                onChange={(e) => setDraft({ ...draft, end_date: e.target.value })}
+                                disabled={isBusy}
+                                className="w-full px-2 py-1.5 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                            />
+                        </div>
+                        <div>
+                            <label htmlFor="schedule-timezone" className="block text-xs text-gray-500 mb-1">Timezone</label>
+                            {TIME_ZONES.length > 0 ? (
+                                <select
+                                    id="schedule-timezone"
+                                    value={draft.timezone}
+                                    onChange={(e) => setDraft({ ...draft, timezone: e.target.value })}
+                                    disabled={isBusy}
+                                    className="w-full px-2 py-1.5 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                                >
+                                    {!TIME_ZONES.includes(draft.timezone) && (
+                                        <option value={draft.timezone}>{draft.timezone}</option>
+                                    )}
+                                    {TIME_ZONES.map(zone => (
+                                        <option key={zone} value={zone}>{zone}</option>
+                                    ))}
+                                </select>
+                            ) : (
+                                <input
+                                    id="schedule-timezone"
+                                    type="text"
+                                    value={draft.timezone}
+                                    onChange={(e) => setDraft({ ...draft, timezone: e.target.value })}
+                                    disabled={isBusy}
+                                    className="w-full px-2 py-1.5 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                                />
+                            )}
+                        </div>
+                        <div>
+                            <label htmlFor="schedule-window-start" className="block text-xs text-gray-500 mb-1">Post from</label>
+                            <input
+                                id="schedule-window-start"
+                                type="time"
+                                value={draft.window_start}
+                                onChange={(e) => setDraft({ ...draft, window_start: e.target.value })}
+                                disabled={isBusy}
+                                className="w-full px-2 py-1.5 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                            />
+                        </div>
+                        <div>
+                            <label htmlFor="schedule-window-end" className="block text-xs text-gray-500 mb-1">Post until</label>
+                            <input
+                                id="schedule-window-end"
+                                type="time"
+                                value={draft.window_end}
+                                onChange={(e) => setDraft({ ...draft, window_end: e.target.value })}
+                                disabled={isBusy}
+                                className="w-full px-2 py-1.5 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                            />
+                        </div>
+                        <div>
+                            <label htmlFor="schedule-cap" className="block text-xs text-gray-500 mb-1">Pins per day (per board)</label>
+                            <input
+                                id="schedule-cap"
+                                type="number"
+                                min={1}
+                                max={MAX_DAILY_CAP}
+                                value={draft.daily_cap}
+                                onChange={(e) => setDraft({ ...draft, daily_cap: parseInt(e.target.value, 10) || 0 })}
+                                disabled={isBusy}
+                                className="w-full px-2 py-1.5 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                            />
+                        </div>
+                    </div>
+
+                    {draftError && (
+                        <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-100 rounded-lg">
+                            <AlertCircle className="w-4 h-4 text-amber-500 shrink-0 mt-0.5" />
+                            <p className="text-xs font-medium text-amber-800">{draftError}</p>
+                        </div>
+                    )}
+
+                    {/* Actions */}
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={handleSchedule}
+                            disabled={isBusy || !!draftError}
+                            className={cn(
+                                "flex items-center justify-center gap-1.5 px-3 py-2 rounded-lg text-sm font-medium bg-red-600 text-white hover:bg-red-700 transition-colors",
+                                (isBusy || draftError) && "opacity-50 cursor-not-allowed"
+                            )}
+                        >
+                            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <CalendarClock className="w-4 h-4" />}
+                            {schedule ? 'Reschedule pins' : 'Schedule pins'}
+                        </button>
+                        {schedule && (
+                            <button
+                                onClick={handleClear}
+                                disabled={isBusy}
+                                className={cn(
+                                    "flex items-center justify-center gap-1.5 px-3 py-2 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors",
+                                    isBusy && "opacity-50 cursor-not-allowed"
+                                )}
+                            >
+                                <Trash2 className="w-4 h-4" />
+                                Clear schedule
+                            </button>
+                        )}
+                        {unscheduledCount > 0 && schedule && (
+                            <span className="ml-auto text-xs text-amber-600 font-medium">
+                                {unscheduledCount} pins not scheduled
+                            </span>
+                        )}
+                    </div>
+
+                    {/* Calendar */}
+                    {isLoading && !schedule ? (
+                        <div className="flex justify-center py-6">
+                            <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+                        </div>
+                    ) : schedule && (
+                        <DragDropContext onDragEnd={handleDragEnd}>
+                            <div className="flex gap-3 overflow-x-auto pb-2">
+                                {[...pinsByDay.entries()].map(([day, dayPins]) => (
+                                    <Droppable key={day} droppableId={day}>
+                                        {(provided, snapshot) => (
+                                            <div
+                                                ref={provided.innerRef}
+                                                {...provided.droppableProps}
+                                                className={cn(
+                                                    "w-36 shrink-0 rounded-lg border border-gray-200 bg-gray-50 p-2 min-h-[120px] transition-colors",
+                                                    snapshot.isDraggingOver && "bg-red-50 border-red-200"
+                                                )}
+                                            >
+                                                <div className="flex items-center justify-between mb-2 px-1">
+                                                    <span className="text-xs font-semibold text-gray-700">{formatDayHeading(day)}</span>
+                                                    <span className="text-[10px] text-gray-400">{dayPins.length}/{schedule.daily_cap}</span>
+                                                </div>
+                                                <div className="space-y-1.5">
+                                                    {dayPins.map((pin, index) => {
+                                                        const isPosted = !!pin.pinterest_pin_id;
+                                                        return (
+                                                            <Draggable
+                                                                key={pin.id}
+                                                                draggableId={pin.id}
+                                                                index={index}
+                                                                isDragDisabled={isPosted || isBusy}
+                                                            >
+                                                                {(provided, snapshot) => (
+                                                                    <div
+                                                                        ref={provided.innerRef}
+                                                                        {...provided.draggableProps}
+                                                                        {...provided.dragHandleProps}
+                                                                        title={pin.publish_error || undefined}
+                                                                        className={cn(
+                                                                            "flex items-center gap-2 p-1 rounded-md bg-white border border-gray-200",
+                                                                            isPosted ? "opacity-70" : "cursor-grab active:cursor-grabbing",
+                                                                            pin.publish_error && "border-red-300",
+                                                                            snapshot.isDragging && "shadow-lg"
+                                                                        )}
+                                                                    >
+                                                                        {pin.image_url ? (
+                                                                            <img
+                                                                                src={pin.image_url}
+                                                                                alt=""
+                                                                                className="w-8 h-8 rounded object-cover shrink-0"
+                                                                            />
+                                                                        ) : (
+                                                                            <div className="w-8 h-8 rounded bg-gray-100 shrink-0" />
+                                                                        )}
+                                                                        <span className="text-xs font-medium text-gray-700">
+                                                                            {formatTimeOfDay(localMinutes(new Date(pin.scheduled_at), schedule.timezone))}
+                                                                        </span>
+                                                                        {isPosted ? (
+                                                                            <CheckCircle2 className="w-3.5 h-3.5 text-green-500 ml-auto shrink-0" />
+                                                                        ) : pin.publish_error && (
+                                                                            <AlertCircle className="w-3.5 h-3.5 text-red-500 ml-auto shrink-0" />
+                                                                        )}
+                                                                    </div>
+                                                                )}
+                                                            </Draggable>
+                                                        );
+                                                    })}
+                                                    {provided.placeholder}
+                                                </div>
+                                            </div>
+                                        )}
+                                    </Droppable>
+                                ))}
+                            </div>
+                        </DragDropContext>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
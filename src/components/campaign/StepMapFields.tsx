@@ -1,22 +1,34 @@
 'use client';
 
 import React, { useEffect, useState, useCallback } from 'react';
-import { ChevronDown, AlertCircle, Check, Plus, Trash2, Image, Type, Info } from 'lucide-react';
+import { ChevronDown, AlertCircle, Check, Plus, Trash2, Image, Type, Info, Palette } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useCampaignWizard } from '@/lib/campaigns/CampaignWizardContext';
 import { autoMapFields } from '@/lib/utils/csvParser';
 import { getTemplate } from '@/lib/db/templates';
+import { extractTemplateFields } from '@/lib/fabric/expression-shared';
+import { extractStyleBindingFields, parseColorValue, StyleValueKind } from '@/lib/fabric/style-shared';
 import { Element, TextElement, ImageElement, TemplateField } from '@/types/editor';
 import { validateCSV, getValidationSummary } from '@/lib/utils/csvValidator';
 
 interface DynamicField {
     name: string;
-    type: 'text' | 'image';
+    type: 'text' | 'image' | StyleValueKind;
     layerName: string;
     required: boolean;
     isAdditional?: boolean;
 }
 
+// Columns read by style bindings (colors, opacity) - never saved in dynamic_fields
+function appendStyleBindingFields(fields: DynamicField[], seen: Set<string>, elements: Element[]) {
+    extractStyleBindingFields(elements).forEach(({ field, kind, layerName }) => {
+        if (!seen.has(field)) {
+            seen.add(field);
+            fields.push({ name: field, type: kind, layerName, required: false });
+        }
+    });
+}
+
 // Extract dynamic fields from template - checks both dynamic_fields array and elements
 function extractDynamicFields(
     elements: Element[],
@@ -38,6 +50,7 @@ function extractDynamicFields(
                 });
             }
         });
+        appendStyleBindingFields(fields, seen, elements);
         return fields.sort((a, b) => {
             if (a.type !== b.type) return a.type === 'image' ? -1 : 1;
             return a.name.localeCompare(b.name, undefined, { numeric: true });
@@ -57,23 +70,18 @@ function extractDynamicFields(
                     required: fields.filter(f => f.type === 'text').length === 0
                 });
             }
-            // Also check for {{field}} patterns in text content
-            const textContent = textEl.text || '';
-            const matches = textContent.match(/\{\{(\w+)\}\}/g);
-            if (matches) {
-                matches.forEach((match) => {
-                    const fieldName = match.replace(/\{\{|\}\}/g, '');
-                    if (!seen.has(fieldName)) {
-                        seen.add(fieldName);
-                        fields.push({
-                            name: fieldName,
-                            type: 'text',
-                            layerName: element.name,
-                            required: false
-                        });
-                    }
-                });
-            }
+            // Also check for {{field}} tags in text content (filters like {{price | currency:'USD'}} included)
+            extractTemplateFields(textEl.text || '').forEach((fieldName) => {
+                if (!seen.has(fieldName)) {
+                    seen.add(fieldName);
+                    fields.push({
+                        name: fieldName,
+                        type: 'text',
+                        layerName: element.name,
+                        required: false
+                    });
+                }
+            });
         } else if (element.type === 'image') {
             const imgEl = element as ImageElement;
             if (imgEl.isDynamic && imgEl.dynamicSource && !seen.has(imgEl.dynamicSource)) {
@@ -87,6 +95,7 @@ function extractDynamicFields(
             }
         }
     });
+    appendStyleBindingFields(fields, seen, elements);
 
     return fields.sort((a, b) => {
         if (a.type !== b.type) return a.type === 'image' ? -1 : 1;
@@ -109,13 +118,16 @@ export function StepMapFields() {
     const allFields = [...templateFields, ...additionalFields];
     const textFields = allFields.filter(f => f.type === 'text');
     const imageFields = allFields.filter(f => f.type === 'image');
+    const styleFields = allFields.filter(f => f.type === 'color' || f.type === 'opacity');
 
     // Validate CSV on field mapping changes (wrapped in try-catch to prevent errors from breaking UI)
     let validationResult = null;
     try {
         if (csvData && csvData.rows && csvData.rows.length > 0) {
             const requiredFieldNames = allFields.filter(f => f.required).map(f => f.name);
-            validationResult = validateCSV(csvData.rows, fieldMapping, requiredFieldNames);
+            const styleFieldKinds: Record<string, StyleValueKind> = {};
+            styleFields.forEach(f => { styleFieldKinds[f.name] = f.type as StyleValueKind; });
+            validationResult = validateCSV(csvData.rows, fieldMapping, requiredFieldNames, styleFieldKinds);
         }
     } catch (error) {
         console.error('CSV validation error:', error);
@@ -268,6 +280,8 @@ export function StepMapFields() {
                     <div className="flex items-center gap-2">
                         {field.type === 'image' ? (
                             <Image className="w-4 h-4 text-green-600" />
+                        ) : field.type === 'color' || field.type === 'opacity' ? (
+                            <Palette className="w-4 h-4 text-purple-600" />
                         ) : (
                             <Type className="w-4 h-4 text-blue-600" />
                         )}
@@ -372,6 +386,16 @@ export function StepMapFields() {
                             <span className="text-blue-600 underline truncate block">
                                 {getPreviewValue(fieldMapping[field.name]) || <span className="italic text-gray-400">empty</span>}
                             </span>
+                        ) : field.type === 'color' ? (
+                            <span className="inline-flex items-center gap-1.5 font-medium">
+                                {parseColorValue(getPreviewValue(fieldMapping[field.name])) && (
+                                    <span
+                                        className="w-3 h-3 rounded border border-gray-200"
+                                        style={{ backgroundColor: parseColorValue(getPreviewValue(fieldMapping[field.name])) || undefined }}
+                                    />
+                                )}
+                                {getPreviewValue(fieldMapping[field.name]) || <span className="italic text-gray-400">empty</span>}
+                            </span>
                         ) : (
                             <span className="font-medium">
                                 {getPreviewValue(fieldMapping[field.name]) || <span className="italic text-gray-400">empty</span>}
@@ -560,6 +584,22 @@ export function StepMapFields() {
                         Add Text Field
                     </button>
 
+                    {/* Style Fields Section (colors and opacity bound in the editor) */}
+                    {styleFields.length > 0 && (
+                        <>
+                            <hr className="border-gray-200" />
+                            <div className="space-y-3">
+                                <div className="flex items-center justify-between">
+                                    <h3 className="font-medium text-gray-700 flex items-center gap-2">
+                                        <Palette className="w-4 h-4 text-purple-600" />
+                                        Style Fields
+                                    </h3>
+                                </div>
+                                {styleFields.map(renderFieldRow)}
+                            </div>
+                        </>
+                    )}
+
                     {/* Validation Messages */}
                     {requiredUnmapped.length > 0 && (
                         <div className="flex items-start gap-3 p-4 bg-amber-50 border border-amber-200 rounded-xl">
@@ -6,13 +6,19 @@ import { FileSpreadsheet, Layout, Link2, Rocket, Loader2, AlertCircle, Check, Sp
 import { cn } from '@/lib/utils';
 import { useCampaignWizard } from '@/lib/campaigns/CampaignWizardContext';
 import { createCampaign } from '@/lib/db/campaigns';
+import { getTemplate } from '@/lib/db/templates';
 import { useAuth } from '@/lib/auth/AuthContext';
+import { usePreflight } from '@/hooks/usePreflight';
+import { buildIssuesCsv, excludeRows } from '@/lib/campaigns/preflight';
+import { Element } from '@/types/editor';
+import { PreflightReport } from './PreflightReport';
 import { toast } from 'sonner';
 
 export function StepReviewLaunch() {
     const router = useRouter();
     const { currentUser } = useAuth();
-    const { csvData, selectedTemplate, fieldMapping, campaignName, setCampaignName } = useCampaignWizard();
+    const { csvData, selectedTemplate, fieldMapping, campaignName, setCampaignName, setCSVData, setStep } = useCampaignWizard();
+    const { status: preflightStatus, progress: preflightProgress, report: preflightReport, error: preflightError, runPreflight, resetPreflight } = usePreflight();
 
     const [isLaunching, setIsLaunching] = useState(false);
     const [showConfirm, setShowConfirm] = useState(false);
@@ -49,6 +55,49 @@ export function StepReviewLaunch() {
         }
     };
 
+    const handleRunPreflight = async () => {
+        if (!csvData || !selectedTemplate) return;
+
+        try {
+            const fullTemplate = await getTemplate(selectedTemplate.id) as { elements?: Element[] } | null;
+            if (!fullTemplate?.elements) {
+                toast.error('Failed to load template');
+                return;
+            }
+            await runPreflight(fullTemplate.elements, csvData.rows, fieldMapping);
+        } catch (error) {
+            console.error('Error loading template for pre-flight:', error);
+            toast.error('Failed to load template');
+        }
+    };
+
+    const handleExcludeRows = (rowIndexes: number[]) => {
+        if (!csvData) return;
+
+        const rows = excludeRows(csvData.rows, rowIndexes);
+        // The stored file no longer matches the rows being launched
+        setCSVData({ ...csvData, rows, rowCount: rows.length, storageUrl: undefined });
+        resetPreflight();
+        toast.success(`Excluded ${rowIndexes.length} ${rowIndexes.length === 1 ? 'row' : 'rows'}`);
+    };
+
+    const handleFixAndReupload = () => {
+        if (!csvData || !preflightReport) return;
+
+        const csv = buildIssuesCsv(csvData.headers, csvData.rows, preflightReport);
+        const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${csvData.fileName.replace(/\.csv$/i, '')}-preflight.csv`;
+        link.click();
+        URL.revokeObjectURL(url);
+
+        toast.info('Fix the rows listed in the preflight_issues column, then upload the file again');
+        setStep(1);
+    };
+
+    const failingRows = preflightReport?.errorRowIndexes.length ?? 0;
+
     if (!csvData || !selectedTemplate) {
         return (
             <div className="text-center py-12 text-gray-500">
@@ -180,6 +229,17 @@ export function StepReviewLaunch() {
                 </div>
             </div>
 
+            {/* Pre-flight Check */}
+            <PreflightReport
+                status={preflightStatus}
+                progress={preflightProgress}
+                report={preflightReport}
+                error={preflightError}
+                onRun={handleRunPreflight}
+                onExcludeRows={handleExcludeRows}
+                onFixAndReupload={handleFixAndReupload}
+            />
+
             {/* Launch Button - Premium Design */}
             <div className="flex flex-col items-end gap-3 pt-6">
                 <button
@@ -212,6 +272,12 @@ export function StepReviewLaunch() {
                         <p className="text-gray-600 mb-6">
                             This will create a campaign to generate <strong>{csvData.rowCount} pins</strong> using your template and data.
                         </p>
+                        {failingRows > 0 && (
+                            <p className="text-sm text-amber-700 bg-amber-50 rounded-lg p-3 -mt-3 mb-6 flex items-start gap-2">
+                                <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                                The pre-flight check found {failingRows} {failingRows === 1 ? 'row' : 'rows'} that will fail to render.
+                            </p>
+                        )}
                         <div className="flex gap-3 justify-end">
                             <button
                                 onClick={() => setShowConfirm(false)}
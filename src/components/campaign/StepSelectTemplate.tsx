@@ -9,12 +9,14 @@ import { isSupabaseConfigured } from '@/lib/supabase';
 import Link from 'next/link';
 import { TemplateModeSelector } from './TemplateModeSelector';
 import { DistributionModeSelector } from './DistributionModeSelector';
+import { isTemplateSelectable } from '@/lib/review/templateStatus';
+import { TemplateStatusBadge } from '@/components/ui/TemplateStatusBadge';
 
 // Demo templates for when database is not configured
 const demoTemplates: TemplateListItem[] = [
-    { id: 'demo-1', short_id: 'demo-1', name: 'Recipe Card', thumbnail_url: null, category: 'Food', category_id: null, is_featured: false, view_count: 0, created_at: '', updated_at: '' },
-    { id: 'demo-2', short_id: 'demo-2', name: 'Quote Post', thumbnail_url: null, category: 'Quote', category_id: null, is_featured: false, view_count: 0, created_at: '', updated_at: '' },
-    { id: 'demo-3', short_id: 'demo-3', name: 'Product Showcase', thumbnail_url: null, category: 'Product', category_id: null, is_featured: false, view_count: 0, created_at: '', updated_at: '' },
+    { id: 'demo-1', short_id: 'demo-1', name: 'Recipe Card', thumbnail_url: null, category: 'Food', category_id: null, is_featured: false, view_count: 0, status: 'approved', created_at: '', updated_at: '' },
+    { id: 'demo-2', short_id: 'demo-2', name: 'Quote Post', thumbnail_url: null, category: 'Quote', category_id: null, is_featured: false, view_count: 0, status: 'approved', created_at: '', updated_at: '' },
+    { id: 'demo-3', short_id: 'demo-3', name: 'Product Showcase', thumbnail_url: null, category: 'Product', category_id: null, is_featured: false, view_count: 0, status: 'approved', created_at: '', updated_at: '' },
 ];
 
 // Skeleton loading card
@@ -111,6 +113,9 @@ export function StepSelectTemplate() {
 
     // Handle template selection based on current mode
     const handleSelect = (template: TemplateListItem) => {
+        // Only approved templates can start a campaign (selected ones can still be removed)
+        if (!isTemplateSelectable(template.status) && !isTemplateSelected(template.id)) return;
+
         if (selectionMode === 'single') {
             // Single mode - toggle selection
             if (selectedTemplate?.id === template.id) {
@@ -206,6 +211,7 @@ export function StepSelectTemplate() {
                         const isAtMax = selectionMode === 'multiple' && 
                                         selectedTemplates.length >= MAX_TEMPLATES && 
                                         !isSelected;
+                        const needsApproval = !isTemplateSelectable(template.status) && !isSelected;
 
                         return (
                             <button
@@ -213,12 +219,13 @@ export function StepSelectTemplate() {
                                 onClick={() => handleSelect(template)}
                                 onMouseEnter={() => setHoveredId(template.id)}
                                 onMouseLeave={() => setHoveredId(null)}
-                                disabled={isAtMax}
+                                disabled={isAtMax || needsApproval}
+                                title={needsApproval ? 'Only approved templates can start a campaign' : undefined}
                                 className={cn(
                                     "group relative bg-white rounded-xl border-2 overflow-hidden text-left transition-all duration-300",
                                     isSelected
                                         ? "border-blue-500 ring-4 ring-blue-100 shadow-lg scale-[1.02]"
-                                        : isAtMax
+                                        : isAtMax || needsApproval
                                         ? "border-gray-200 opacity-50 cursor-not-allowed"
                                         : "border-gray-200 hover:border-blue-300 hover:shadow-xl hover:scale-[1.02]"
                                 )}
@@ -243,7 +250,7 @@ export function StepSelectTemplate() {
                                 )}
 
                                 {/* Multi-mode Checkbox Overlay */}
-                                {selectionMode === 'multiple' && !isSelected && !isAtMax && (
+                                {selectionMode === 'multiple' && !isSelected && !isAtMax && !needsApproval && (
                                     <div className={cn(
                                         "absolute top-3 right-3 z-10 w-6 h-6 border-2 rounded-md bg-white/90 shadow-sm transition-opacity",
                                         isHovered ? "opacity-100 border-blue-400" : "opacity-0 group-hover:opacity-100 border-gray-300"
@@ -274,7 +281,9 @@ export function StepSelectTemplate() {
                                     )}>
                                         <div className="flex items-center gap-2 px-4 py-2 bg-white/90 rounded-full text-sm font-medium text-gray-800">
                                             <Eye className="w-4 h-4" />
-                                            {selectionMode === 'multiple' 
+                                            {needsApproval
+                                                ? 'Needs approval'
+                                                : selectionMode === 'multiple' 
                                                 ? (isAtMax ? 'Max reached' : 'Click to add')
                                                 : 'Click to select'}
                                         </div>
@@ -285,6 +294,9 @@ export function StepSelectTemplate() {
                                 <div className="p-4">
                                     <h3 className="font-semibold text-gray-900 truncate">{template.name}</h3>
                                     <div className="flex items-center gap-2 mt-2">
+                                        {template.status !== 'approved' && (
+                                            <TemplateStatusBadge status={template.status} />
+                                        )}
                                         {template.category && (
                                             <span className="px-2 py-1 bg-gray-100 text-gray-600 text-xs rounded-full">
                                                 {template.category}
@@ -340,6 +352,8 @@ export function StepSelectTemplate() {
                                 {distributionMode === 'random' && 'Templates will be assigned randomly'}
                                 {distributionMode === 'equal' && 'Rows will be split evenly between templates'}
                                 {distributionMode === 'csv_column' && 'Template assigned via CSV "template" column'}
+                                {distributionMode === 'weighted' && 'Templates will be used by percentage'}
+                                {distributionMode === 'rules' && 'Templates will be picked by rules on each row'}
                             </p>
                         </div>
                     </div>
@@ -6,8 +6,9 @@ import { cn } from '@/lib/utils';
 import { supabase } from '@/lib/supabase';
 import Papa from 'papaparse';
 import { useCampaignWizard } from '@/lib/campaigns/CampaignWizardContext';
-import { parseCSVFile, getPreviewRows } from '@/lib/utils/csvParser';
+import { getPreviewRows } from '@/lib/utils/csvParser';
 import { fetchCsvFromUrl, validateCsvUrl } from '@/lib/utils/csvUrlParser';
+import { DATA_FILE_EXTENSIONS, DataSourceFormat, DataSourceOptions, parseDataFile } from '@/lib/utils/dataSourceParser';
 
 // Shimmer loading skeleton component
 function ShimmerSkeleton({ className }: { className?: string }) {
@@ -20,6 +21,8 @@ function ShimmerSkeleton({ className }: { className?: string }) {
 function humanizeError(error: string): string {
     const errorMap: Record<string, string> = {
         'Failed to parse CSV': 'We couldn\'t read your file. Make sure it\'s a valid CSV file with comma-separated values.',
+        'Failed to parse Excel file': 'We couldn\'t read your workbook. Make sure it\'s an .xlsx file (older .xls files aren\'t supported).',
+        'Failed to parse JSON': 'We couldn\'t read your file. Make sure it contains valid JSON.',
         'Failed to read file': 'We couldn\'t open your file. Please try uploading it again.',
         'Failed to import CSV from URL': 'We couldn\'t fetch the data from that URL. Check that the link is public and accessible.',
         'Network error': 'We couldn\'t connect to the server. Please check your internet connection and try again.',
@@ -37,6 +40,11 @@ function humanizeError(error: string): string {
 
 type UploadTab = 'file' | 'url';
 
+// Rows from an Excel or JSON source are stored as CSV like everything else
+function toCsvBlob(data: Record<string, string>[]): Blob {
+    return new Blob([Papa.unparse(data)], { type: 'text/csv' });
+}
+
 export function StepUploadCSV() {
     const { csvData, setCSVData } = useCampaignWizard();
     const fileInputRef = useRef<HTMLInputElement>(null);
@@ -52,6 +60,13 @@ export function StepUploadCSV() {
     const [urlValid, setUrlValid] = useState<boolean | null>(null);
     const [showHelp, setShowHelp] = useState(false);
 
+    // Excel sheet / JSONPath selection for the last loaded source
+    const [sourceFile, setSourceFile] = useState<File | null>(null);
+    const [sourceFormat, setSourceFormat] = useState<DataSourceFormat | null>(null);
+    const [sheets, setSheets] = useState<string[]>([]);
+    const [sheet, setSheet] = useState('');
+    const [jsonPath, setJsonPath] = useState('');
+
     // Validate URL as user types
     const handleUrlChange = useCallback((value: string) => {
         setUrlInput(value);
@@ -64,13 +79,17 @@ export function StepUploadCSV() {
     }, []);
 
     // Handle file upload
-    const handleFile = useCallback(async (file: File) => {
+    const handleFile = useCallback(async (file: File, options: DataSourceOptions = {}) => {
         setIsLoading(true);
         setError(null);
+        setSourceFile(file);
 
         try {
             // 1. Parse for validation and preview
-            const result = await parseCSVFile(file);
+            const result = await parseDataFile(file, options);
+            setSourceFormat(result.format);
+            setSheets(result.sheets || []);
+            setSheet(result.sheet || '');
 
             if (result.success) {
                 // 2. Upload to Supabase Storage
@@ -80,11 +99,12 @@ export function StepUploadCSV() {
                 const timestamp = Date.now();
                 // Sanitize filename
                 const sanitizedName = file.name.replace(/[^a-zA-Z0-9.-]/g, '_');
-                const path = `${user.id}/${timestamp}-${sanitizedName}`;
+                const isCsv = result.format === 'csv';
+                const path = `${user.id}/${timestamp}-${isCsv ? sanitizedName : sanitizedName.replace(/\.[^.]+$/, '.csv')}`;
 
                 const { error: uploadError } = await supabase.storage
                     .from('campaign-uploads')
-                    .upload(path, file);
+                    .upload(path, isCsv ? file : toCsvBlob(result.data));
 
                 if (uploadError) throw uploadError;
 
@@ -95,7 +115,7 @@ export function StepUploadCSV() {
                 setCSVData({
                     headers: result.headers,
                     rows: result.data,
-                    fileName: file.name,
+                    fileName: result.sheet ? `${file.name} (${result.sheet})` : file.name,
                     rowCount: result.rowCount,
                     storageUrl: publicUrl,
                 });
@@ -114,14 +134,18 @@ export function StepUploadCSV() {
     }, [setCSVData]);
 
     // Handle URL import
-    const handleUrlImport = useCallback(async () => {
+    const handleUrlImport = useCallback(async (options: DataSourceOptions = {}) => {
         if (!urlInput.trim() || !urlValid) return;
 
         setIsLoading(true);
         setError(null);
+        setSourceFile(null);
 
         try {
-            const result = await fetchCsvFromUrl(urlInput);
+            const result = await fetchCsvFromUrl(urlInput, { jsonPath: jsonPath.trim() || undefined, ...options });
+            setSourceFormat(result.format || null);
+            setSheets(result.sheets || []);
+            setSheet(result.sheet || '');
 
             if (result.success) {
                 // Upload imported data to storage to save DB space
@@ -131,8 +155,7 @@ export function StepUploadCSV() {
 
                 if (user) {
                     // Convert back to CSV string
-                    const csvString = Papa.unparse(result.data);
-                    const blob = new Blob([csvString], { type: 'text/csv' });
+                    const blob = toCsvBlob(result.data);
                     
                     const timestamp = Date.now();
                     const path = `${user.id}/${timestamp}-import.csv`;
@@ -155,7 +178,7 @@ export function StepUploadCSV() {
                 setCSVData({
                     headers: result.headers,
                     rows: result.data,
-                    fileName: `Imported from URL`,
+                    fileName: result.sheet ? `Imported from URL (${result.sheet})` : `Imported from URL`,
                     rowCount: result.rowCount,
                     sourceUrl: result.sourceUrl,
                     storageUrl,
@@ -169,7 +192,16 @@ export function StepUploadCSV() {
         } finally {
             setIsLoading(false);
         }
-    }, [urlInput, urlValid, setCSVData]);
+    }, [urlInput, urlValid, jsonPath, setCSVData]);
+
+    // Re-read the last source with a different sheet or JSONPath
+    const reloadSource = useCallback((options: DataSourceOptions) => {
+        if (sourceFile) {
+            handleFile(sourceFile, options);
+        } else {
+            handleUrlImport(options);
+        }
+    }, [sourceFile, handleFile, handleUrlImport]);
 
     const handleDrop = useCallback((e: React.DragEvent) => {
         e.preventDefault();
@@ -204,19 +236,26 @@ export function StepUploadCSV() {
         setError(null);
         setUrlInput('');
         setUrlValid(null);
+        setSourceFile(null);
+        setSourceFormat(null);
+        setSheets([]);
+        setSheet('');
+        setJsonPath('');
         if (fileInputRef.current) {
             fileInputRef.current.value = '';
         }
     }, [setCSVData]);
 
     const previewRows = csvData ? getPreviewRows(csvData.rows, 5) : [];
+    const showSheetPicker = sheets.length > 1;
+    const showJsonPath = sourceFormat === 'json';
 
     return (
         <div className="space-y-6">
             <div>
                 <h2 className="text-xl font-semibold text-gray-900">Upload Your CSV</h2>
                 <p className="text-gray-600 mt-1">
-                    Upload a CSV file or import from a URL. Each row will become a pin.
+                    Upload a CSV, Excel or JSON file, or import from a URL. Each row will become a pin.
                 </p>
             </div>
 
@@ -269,7 +308,7 @@ export function StepUploadCSV() {
                     <input
                         ref={fileInputRef}
                         type="file"
-                        accept=".csv"
+                        accept={DATA_FILE_EXTENSIONS.join(',')}
                         onChange={handleFileSelect}
                         className="hidden"
                         disabled={isLoading}
@@ -307,13 +346,13 @@ export function StepUploadCSV() {
                                 "text-lg font-medium transition-colors",
                                 isDragging ? "text-blue-700" : "text-gray-700"
                             )}>
-                                {isDragging ? '✨ Drop your file here!' : 'Drag and drop your CSV file here'}
+                                {isDragging ? '✨ Drop your file here!' : 'Drag and drop your CSV, Excel or JSON file here'}
                             </p>
                             <p className="text-gray-500 mt-1">or click to browse</p>
                             <div className="flex items-center justify-center gap-4 mt-6 text-sm text-gray-400">
                                 <span className="flex items-center gap-1">
                                     <FileText className="w-4 h-4" />
-                                    .csv format
+                                    .csv, .xlsx or .json
                                 </span>
                                 <span>•</span>
                                 <span>Max 5MB</span>
@@ -355,9 +394,24 @@ export function StepUploadCSV() {
                         </div>
                     </div>
 
+                    {/* JSONPath (JSON sources only) */}
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                            JSONPath to rows <span className="font-normal text-gray-400">(JSON only, optional)</span>
+                        </label>
+                        <input
+                            type="text"
+                            value={jsonPath}
+                            onChange={(e) => setJsonPath(e.target.value)}
+                            placeholder="$.data.products"
+                            className="w-full px-4 py-3 border border-gray-300 rounded-lg text-gray-900 placeholder-gray-400 font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                            disabled={isLoading}
+                        />
+                    </div>
+
                     {/* Import Button */}
                     <button
-                        onClick={handleUrlImport}
+                        onClick={() => handleUrlImport()}
                         disabled={!urlInput.trim() || !urlValid || isLoading}
                         className={cn(
                             "w-full flex items-center justify-center gap-2 px-4 py-3 bg-blue-600 text-white rounded-lg font-medium transition-colors",
@@ -386,6 +440,7 @@ export function StepUploadCSV() {
                             <li>• Google Sheets (publish to web as CSV)</li>
                             <li>• Dropbox public links</li>
                             <li>• Any direct CSV file URL</li>
+                            <li>• Direct links to Excel (.xlsx) or JSON files</li>
                         </ul>
                     </div>
 
@@ -493,6 +548,52 @@ export function StepUploadCSV() {
                 </div>
             )}
 
+            {/* Sheet / JSONPath selection */}
+            {(showSheetPicker || showJsonPath) && !isLoading && (
+                <div className="flex flex-wrap items-end gap-4 p-4 bg-gray-50 border border-gray-200 rounded-xl">
+                    {showSheetPicker && (
+                        <div>
+                            <label htmlFor="sourceSheet" className="block text-sm font-medium text-gray-700 mb-1">
+                                Sheet
+                            </label>
+                            <select
+                                id="sourceSheet"
+                                value={sheet}
+                                onChange={(e) => reloadSource({ sheet: e.target.value })}
+                                className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                            >
+                                {sheets.map(name => (
+                                    <option key={name} value={name}>{name}</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+                    {showJsonPath && (
+                        <>
+                            <div className="flex-1 min-w-[200px]">
+                                <label htmlFor="sourceJsonPath" className="block text-sm font-medium text-gray-700 mb-1">
+                                    JSONPath to rows
+                                </label>
+                                <input
+                                    id="sourceJsonPath"
+                                    type="text"
+                                    value={jsonPath}
+                                    onChange={(e) => setJsonPath(e.target.value)}
+                                    placeholder="$.data.products"
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                                />
+                            </div>
+                            <button
+                                onClick={() => reloadSource({ jsonPath: jsonPath.trim() || undefined })}
+                                className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors"
+                            >
+                                Apply
+                            </button>
+                        </>
+                    )}
+                </div>
+            )}
+
             {/* Error Message - Humanized */}
             {error && (
                 <div className="flex items-start gap-4 p-5 bg-red-50 border border-red-200 rounded-xl">
@@ -10,3 +10,4 @@ export { ExportToolbar } from './ExportToolbar';
 export { TemplateModeSelector } from './TemplateModeSelector';
 export { DistributionModeSelector } from './DistributionModeSelector';
 
+export { DistributionConfigEditor } from './DistributionConfigEditor';
@@ -0,0 +1,87 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { cn } from '@/lib/utils';
+import { useEditorStore } from '@/stores/editorStore';
+import { useTemplateStore } from '@/stores/templateStore';
+import { useCommentStore } from '@/stores/commentStore';
+import { createAnchor, groupIntoThreads, resolveAnchor } from '@/lib/review/comments';
+import { useTemplateComments } from '@/hooks/useComments';
+import { CommentMarkerLabel } from '@/components/editor/CommentsPanel';
+
+interface CommentLayerProps {
+    zoom: number;
+}
+
+/**
+ * Comment markers over the canvas, and the click target for pinning a new
+ * comment while the comments panel is in placing mode.
+ * Positions are canvas coordinates scaled by the zoom, like the canvas itself.
+ */
+export function CommentLayer({ zoom }: CommentLayerProps) {
+    const isOpen = useCommentStore((s) => s.isOpen);
+    const isPlacing = useCommentStore((s) => s.isPlacing);
+    const activeThreadId = useCommentStore((s) => s.activeThreadId);
+    const draftAnchor = useCommentStore((s) => s.draftAnchor);
+    const templateId = useTemplateStore((s) => s.templateId);
+    const isNewTemplate = useTemplateStore((s) => s.isNewTemplate);
+    const elements = useEditorStore((s) => s.elements);
+
+    const { data: comments = [] } = useTemplateComments(isOpen && !isNewTemplate ? templateId : null);
+    const threads = useMemo(() => groupIntoThreads(comments), [comments]);
+
+    if (!isOpen) return null;
+
+    const handlePlace = (e: React.MouseEvent<HTMLDivElement>) => {
+        e.stopPropagation();
+        const rect = e.currentTarget.getBoundingClientRect();
+        const x = (e.clientX - rect.left) / zoom;
+        const y = (e.clientY - rect.top) / zoom;
+        useCommentStore.getState().setDraftAnchor(createAnchor(useEditorStore.getState().elements, x, y));
+    };
+
+    const draftPosition = draftAnchor ? resolveAnchor(draftAnchor, elements) : null;
+
+    return (
+        <div
+            className={cn('absolute inset-0 z-40', isPlacing ? 'cursor-crosshair' : 'pointer-events-none')}
+            onClick={isPlacing ? handlePlace : undefined}
+        >
+            {threads.map((thread, index) => {
+                if (thread.root.resolved_at) return null;
+                const position = resolveAnchor(thread.root, elements);
+                if (!position) return null;
+
+                return (
+                    <button
+                        key={thread.root.id}
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            useCommentStore.getState().setActiveThreadId(thread.root.id);
+                        }}
+                        className="absolute pointer-events-auto -translate-y-full"
+                        style={{ left: position.x * zoom, top: position.y * zoom }}
+                        title={thread.root.body}
+                    >
+                        <CommentMarkerLabel
+                            number={index + 1}
+                            className={cn(
+                                'transition-transform hover:scale-110',
+                                activeThreadId === thread.root.id && 'ring-2 ring-white scale-110'
+                            )}
+                        />
+                    </button>
+                );
+            })}
+
+            {draftPosition && (
+                <div
+                    className="absolute -translate-y-full"
+                    style={{ left: draftPosition.x * zoom, top: draftPosition.y * zoom }}
+                >
+                    <CommentMarkerLabel number={threads.length + 1} className="ring-2 ring-white animate-pulse" />
+                </div>
+            )}
+        </div>
+    );
+}
@@ -6,7 +6,8 @@ import {
     Copy, Palette, ClipboardPaste, CopyPlus, Trash2,
     Lock, Unlock, Layers, Pencil, Zap,
     AlignLeft, AlignCenter, AlignRight, AlignStartVertical, AlignEndVertical,
-    ChevronRight, ArrowUpFromLine, ArrowDownFromLine, ArrowUp, ArrowDown
+    ChevronRight, ArrowUpFromLine, ArrowDownFromLine, ArrowUp, ArrowDown,
+    Group, Ungroup
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { TextElement } from '@/types/editor';
@@ -75,13 +76,15 @@ export function ContextMenu({ x, y, isOpen, onClose }: ContextMenuProps) {
         clipboard, styleClipboard,
         copyElement, pasteElement, copyStyle, pasteStyle,
         moveElementForward, moveElementBackward, moveElementToFront, moveElementToBack,
-        alignElement
+        alignElement, groupSelectedElements, ungroupSelectedElements
     } = useEditorStore();
 
     const selectedElement = selectedId ? elements.find(el => el.id === selectedId) : null;
     const isLocked = selectedElement?.locked;
     const hasSelection = !!selectedElement;
     const canPaste = !!clipboard;
+    const canGroup = selectedIds.length > 1;
+    const isGroup = selectedElement?.type === 'group';
     const canPasteStyle = !!styleClipboard && selectedElement?.type === 'text';
     
     // Check if element is a text element and if it's dynamic (has {{...}} pattern)
@@ -183,6 +186,23 @@ export function ContextMenu({ x, y, isOpen, onClose }: ContextMenuProps) {
                 onClick={() => handleAction(() => selectedId && lockElement(selectedId, !isLocked))}
             />
             
+            {canGroup && (
+                <MenuItem
+                    icon={Group}
+                    label="Group"
+                    shortcut="Ctrl+G"
+                    onClick={() => handleAction(groupSelectedElements)}
+                />
+            )}
+            {isGroup && (
+                <MenuItem
+                    icon={Ungroup}
+                    label="Ungroup"
+                    shortcut="Ctrl+Shift+G"
+                    onClick={() => handleAction(ungroupSelectedElements)}
+                />
+            )}
+
             {/* Rename */}
             <MenuItem
                 icon={Pencil}
@@ -210,8 +230,8 @@ export function ContextMenu({ x, y, isOpen, onClose }: ContextMenuProps) {
                     onClick={() => {
                         if (textElement) {
                             if (isDynamic) {
-                                // Remove the dynamic field wrapper (simple case)
-                                const text = textElement.text.replace(/\{\{([^}]+)\}\}/g, '$1');
+                                // Remove the dynamic field wrapper (and any filters)
+                                const text = textElement.text.replace(/\{\{([^}]+)\}\}/g, (_, inner: string) => inner.split('|')[0].trim());
                                 handleAction(() => updateElement(textElement.id, { text }));
                             } else {
                                 // Wrap current text in dynamic field
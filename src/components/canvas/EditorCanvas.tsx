@@ -3,11 +3,13 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
 import { useEditorStore } from '@/stores/editorStore';
 import { useSnappingSettingsStore } from '@/stores/snappingSettingsStore';
+import { useCollabStore } from '@/stores/collabStore';
 import { Element, TextElement } from '@/types/editor';
 import { CanvasManager, CanvasConfig, setGlobalCanvasManager } from '@/lib/canvas/CanvasManager';
 import { useSynchronizationBridge } from '@/hooks/useSynchronizationBridge';
 import { detectElementChange } from '@/lib/canvas/elementChangeDetection';
 import { DimensionBadge } from './DimensionBadge';
+import { CommentLayer } from './CommentLayer';
 import { ContextMenu } from './ContextMenu';
 import { applyAutoFit } from '@/lib/canvas/AutoFitText';
 
@@ -152,6 +154,13 @@ export function EditorCanvasV2({ containerWidth, containerHeight }: EditorCanvas
     // Selection from editorStore
     const selectedIds = useEditorStore((s) => s.selectedIds);
 
+    // Preview mode: sample row whose data decides element visibility
+    const previewMode = useEditorStore((s) => s.previewMode);
+    const previewRow = useEditorStore((s) => s.previewRows[s.previewRowIndex]);
+
+    // Other people editing this template
+    const collaborators = useCollabStore((s) => s.peers);
+
     // DEBUG: Trace dimensions (commented out to reduce console spam)
     // useEffect(() => {
     //     console.log('[EditorCanvas] Render Props:', {
@@ -272,6 +281,15 @@ export function EditorCanvasV2({ containerWidth, containerHeight }: EditorCanvas
 
     }, [elements, isCanvasReady]);
 
+    /**
+     * Preview visibility rules and style bindings against the current sample row
+     * Runs after the element sync above, so it also re-applies to new objects
+     */
+    useEffect(() => {
+        if (!canvasManagerRef.current || !isCanvasReady) return;
+        canvasManagerRef.current.applyPreviewRow(elements, previewMode && previewRow ? previewRow : null);
+    }, [elements, isCanvasReady, previewMode, previewRow]);
+
     // Handle Dimension Badge via Canvas Events
     useEffect(() => {
         if (!isCanvasReady || !canvasManagerRef.current) return;
@@ -447,6 +465,55 @@ export function EditorCanvasV2({ containerWidth, containerHeight }: EditorCanvas
         };
     }, [isCanvasReady, zoom]);
 
+    /**
+     * Share drags with collaborators, who can't move these elements meanwhile
+     */
+    useEffect(() => {
+        if (!isCanvasReady || !canvasManagerRef.current) return;
+        const manager = canvasManagerRef.current;
+        const { setDraggingIds } = useCollabStore.getState();
+
+        const handleTransform = () => {
+            if (useCollabStore.getState().draggingIds.length === 0) {
+                setDraggingIds(manager.getSelection());
+            }
+        };
+        const handleTransformEnd = () => {
+            if (useCollabStore.getState().draggingIds.length > 0) {
+                setDraggingIds([]);
+            }
+        };
+
+        manager.on('object:moving', handleTransform);
+        manager.on('object:scaling', handleTransform);
+        manager.on('object:rotating', handleTransform);
+        manager.on('object:modified', handleTransformEnd);
+        manager.on('mouse:up', handleTransformEnd);
+
+        return () => {
+            manager.off('object:moving', handleTransform);
+            manager.off('object:scaling', handleTransform);
+            manager.off('object:rotating', handleTransform);
+            manager.off('object:modified', handleTransformEnd);
+            manager.off('mouse:up', handleTransformEnd);
+            handleTransformEnd();
+        };
+    }, [isCanvasReady]);
+
+    /**
+     * Draw collaborators' selections and soft-lock what they're dragging
+     */
+    useEffect(() => {
+        if (!isCanvasReady || !canvasManagerRef.current) return;
+        canvasManagerRef.current.setRemoteCollaborators(collaborators.map(peer => ({
+            id: peer.clientId,
+            name: peer.name,
+            color: peer.color,
+            selectedIds: peer.selectedIds,
+            lockedIds: peer.draggingIds,
+        })));
+    }, [collaborators, isCanvasReady]);
+
     /**
      * Handle Context Menu
      */
@@ -538,6 +605,9 @@ export function EditorCanvasV2({ containerWidth, containerHeight }: EditorCanvas
                     }}
                 />
 
+                {/* Review comment markers (and click target while pinning one) */}
+                <CommentLayer zoom={zoom} />
+
                 {/* Right-Click Context Menu */}
                 <ContextMenu
                     x={contextMenu.x}
@@ -0,0 +1,103 @@
+'use client';
+
+import React, { useMemo, useRef } from 'react';
+import { ChevronLeft, ChevronRight, FileSpreadsheet, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { useEditorStore } from '@/stores/editorStore';
+import { cn } from '@/lib/utils';
+import { parseCSVFile, getPreviewRows } from '@/lib/utils/csvParser';
+import { isElementVisibleForRow } from '@/lib/fabric/visibility-shared';
+
+const MAX_PREVIEW_ROWS = 50;
+
+/**
+ * Floating preview bar - load sample CSV rows and step through them to check
+ * which elements each row's visibility rules show
+ */
+export function PreviewRowsBar() {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const elements = useEditorStore((s) => s.elements);
+    const previewRows = useEditorStore((s) => s.previewRows);
+    const previewRowIndex = useEditorStore((s) => s.previewRowIndex);
+    const setPreviewRows = useEditorStore((s) => s.setPreviewRows);
+    const setPreviewRowIndex = useEditorStore((s) => s.setPreviewRowIndex);
+
+    const row = previewRows[previewRowIndex];
+
+    const hiddenCount = useMemo(() => {
+        if (!row) return 0;
+        return elements.filter((el) => el.visible && el.visibilityRule && !isElementVisibleForRow(el, row)).length;
+    }, [elements, row]);
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        const result = await parseCSVFile(file);
+        if (!result.success || result.data.length === 0) {
+            toast.error(result.error || 'No rows found in that CSV');
+            return;
+        }
+        setPreviewRows(getPreviewRows(result.data, MAX_PREVIEW_ROWS));
+    };
+
+    const buttonClassName = "flex items-center justify-center h-7 px-2 rounded-md text-xs font-medium hover:bg-gray-100 active:scale-95 transition-all duration-150";
+
+    return (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-30 flex items-center gap-1 px-2 py-1.5 bg-white rounded-lg shadow-lg border border-gray-200">
+            <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv"
+                onChange={handleFile}
+                className="hidden"
+            />
+
+            {previewRows.length === 0 ? (
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className={cn(buttonClassName, "gap-1.5 text-gray-600 hover:text-gray-800")}
+                >
+                    <FileSpreadsheet className="w-4 h-4" />
+                    Load sample rows
+                </button>
+            ) : (
+                <>
+                    <button
+                        onClick={() => setPreviewRowIndex(previewRowIndex - 1)}
+                        disabled={previewRowIndex === 0}
+                        title="Previous row"
+                        className={cn(buttonClassName, previewRowIndex === 0 ? "text-gray-300 cursor-not-allowed" : "text-gray-600")}
+                    >
+                        <ChevronLeft className="w-4 h-4" />
+                    </button>
+                    <span className="text-xs text-gray-700 tabular-nums px-1">
+                        Row {previewRowIndex + 1} of {previewRows.length}
+                    </span>
+                    <button
+                        onClick={() => setPreviewRowIndex(previewRowIndex + 1)}
+                        disabled={previewRowIndex >= previewRows.length - 1}
+                        title="Next row"
+                        className={cn(buttonClassName, previewRowIndex >= previewRows.length - 1 ? "text-gray-300 cursor-not-allowed" : "text-gray-600")}
+                    >
+                        <ChevronRight className="w-4 h-4" />
+                    </button>
+
+                    <span className="text-xs text-gray-400 px-1 border-l border-gray-200">
+                        {hiddenCount === 0 ? 'All elements shown' : `${hiddenCount} hidden by rules`}
+                    </span>
+
+                    <button
+                        onClick={() => setPreviewRows([])}
+                        title="Clear sample rows"
+                        className={cn(buttonClassName, "text-gray-400 hover:text-gray-600")}
+                    >
+                        <X className="w-3.5 h-3.5" />
+                    </button>
+                </>
+            )}
+        </div>
+    );
+}
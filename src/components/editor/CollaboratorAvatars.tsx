@@ -0,0 +1,59 @@
+'use client';
+
+import React from 'react';
+import { useCollabStore } from '@/stores/collabStore';
+import type { CollabPeer } from '@/lib/collab/types';
+
+const MAX_AVATARS = 4;
+
+/**
+ * Avatars of the other people editing this template, ringed in the color
+ * their selection is outlined with on the canvas
+ */
+export function CollaboratorAvatars() {
+    const peers = useCollabStore((s) => s.peers);
+
+    // One avatar per person, even with the template open in several tabs
+    const people = Array.from(
+        peers.reduce((byUser, peer) => {
+            const existing = byUser.get(peer.userId);
+            byUser.set(peer.userId, existing
+                ? { ...existing, draggingIds: [...existing.draggingIds, ...peer.draggingIds] }
+                : peer);
+            return byUser;
+        }, new Map<string, CollabPeer>()).values()
+    );
+
+    if (people.length === 0) return null;
+
+    const shown = people.slice(0, MAX_AVATARS);
+    const hidden = people.length - shown.length;
+
+    return (
+        <div className="hidden md:flex items-center -space-x-2" aria-label={`${people.length} collaborator${people.length === 1 ? '' : 's'} editing`}>
+            {shown.map((person) => (
+                <div
+                    key={person.userId}
+                    title={person.draggingIds.length > 0 ? `${person.name} (moving elements)` : person.name}
+                    className="relative w-8 h-8 rounded-full border-2 bg-gray-100 dark:bg-gray-800 flex items-center justify-center text-xs font-bold text-white overflow-hidden shadow-sm"
+                    style={{ borderColor: person.color, backgroundColor: person.avatarUrl ? undefined : person.color }}
+                >
+                    {person.avatarUrl ? (
+                        // eslint-disable-next-line @next/next/no-img-element
+                        <img src={person.avatarUrl} alt={person.name} className="w-full h-full object-cover" />
+                    ) : (
+                        person.name[0]?.toUpperCase()
+                    )}
+                </div>
+            ))}
+            {hidden > 0 && (
+                <div
+                    title={people.slice(MAX_AVATARS).map(person => person.name).join(', ')}
+                    className="relative w-8 h-8 rounded-full border-2 border-white dark:border-gray-900 bg-gray-200 dark:bg-gray-700 flex items-center justify-center text-xs font-medium text-gray-700 dark:text-gray-200"
+                >
+                    +{hidden}
+                </div>
+            )}
+        </div>
+    );
+}
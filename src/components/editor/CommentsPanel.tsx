@@ -0,0 +1,172 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { X, MessageSquare, MapPin, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useEditorStore } from '@/stores/editorStore';
+import { useTemplateStore } from '@/stores/templateStore';
+import { useCommentStore } from '@/stores/commentStore';
+import { groupIntoThreads, resolveAnchor } from '@/lib/review/comments';
+import { canManageWorkspace } from '@/lib/auth/workspaceRoles';
+import { useActiveWorkspace } from '@/hooks/useWorkspaces';
+import { useCommentAuthors, useCreateComment, useTemplateComments } from '@/hooks/useComments';
+import { CommentComposer, CommentThread } from '@/components/shared/CommentThread';
+
+/**
+ * Number drawn on a thread's canvas marker and next to it in the panel
+ */
+export function CommentMarkerLabel({ number, className }: { number: number; className?: string }) {
+    return (
+        <span className={cn(
+            'w-6 h-6 shrink-0 rounded-full rounded-bl-none bg-primary-creative text-white text-[11px] font-bold flex items-center justify-center shadow',
+            className
+        )}>
+            {number}
+        </span>
+    );
+}
+
+/**
+ * Review comments on the open template: threads pinned to the canvas,
+ * and general comments on the whole design
+ */
+export function CommentsPanel() {
+    const templateId = useTemplateStore((s) => s.templateId);
+    const isNewTemplate = useTemplateStore((s) => s.isNewTemplate);
+    const elements = useEditorStore((s) => s.elements);
+
+    const isPlacing = useCommentStore((s) => s.isPlacing);
+    const activeThreadId = useCommentStore((s) => s.activeThreadId);
+    const draftAnchor = useCommentStore((s) => s.draftAnchor);
+    const { setOpen, setPlacing, setActiveThreadId, setDraftAnchor } = useCommentStore.getState();
+
+    const [showResolved, setShowResolved] = useState(false);
+
+    const savedTemplateId = isNewTemplate ? null : templateId;
+    const scope = { templateId: savedTemplateId ?? '' };
+    const { data: comments = [], isLoading } = useTemplateComments(savedTemplateId);
+    const createComment = useCreateComment(scope);
+    const authors = useCommentAuthors();
+    const { role } = useActiveWorkspace();
+
+    const threads = useMemo(() => groupIntoThreads(comments), [comments]);
+    const resolvedCount = threads.filter(t => t.root.resolved_at).length;
+    const shownThreads = showResolved ? threads : threads.filter(t => !t.root.resolved_at);
+
+    return (
+        <aside className="w-80 shrink-0 border-l border-gray-200 bg-gray-50 flex flex-col overflow-hidden">
+            {/* Header */}
+            <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 bg-white">
+                <div className="flex items-center gap-2">
+                    <MessageSquare className="w-4 h-4 text-gray-500" />
+                    <h2 className="text-sm font-semibold text-gray-900">Comments</h2>
+                </div>
+                <button
+                    onClick={() => setOpen(false)}
+                    className="p-1.5 rounded-lg hover:bg-gray-100 transition-colors"
+                    aria-label="Close comments"
+                >
+                    <X className="w-4 h-4 text-gray-500" />
+                </button>
+            </div>
+
+            {!savedTemplateId ? (
+                <p className="p-4 text-sm text-gray-500">Save the template to start collecting comments.</p>
+            ) : (
+                <>
+                    {/* Actions */}
+                    <div className="flex items-center justify-between gap-2 px-4 py-2 border-b border-gray-200 bg-white">
+                        <button
+                            onClick={() => setPlacing(!isPlacing)}
+                            className={cn(
+                                'flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors',
+                                isPlacing ? 'bg-primary-creative text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                            )}
+                        >
+                            <MapPin className="w-3.5 h-3.5" />
+                            {isPlacing ? 'Click on the canvas...' : 'Pin a comment'}
+                        </button>
+                        {resolvedCount > 0 && (
+                            <label className="flex items-center gap-1.5 text-xs text-gray-500 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={showResolved}
+                                    onChange={(e) => setShowResolved(e.target.checked)}
+                                />
+                                Resolved ({resolvedCount})
+                            </label>
+                        )}
+                    </div>
+
+                    {/* Threads */}
+                    <div className="flex-1 overflow-y-auto p-3 space-y-3">
+                        {draftAnchor && (
+                            <div className="rounded-xl border border-primary-creative/40 bg-white p-3 space-y-2">
+                                <p className="text-xs text-gray-500">
+                                    {draftAnchor.element_id
+                                        ? `On ${elements.find(el => el.id === draftAnchor.element_id)?.name ?? 'element'}`
+                                        : 'On the canvas'}
+                                </p>
+                                <CommentComposer
+                                    autoFocus
+                                    isPosting={createComment.isPending}
+                                    onCancel={() => setDraftAnchor(null)}
+                                    onSubmit={async (body) => {
+                                        const comment = await createComment.mutateAsync({
+                                            target: { templateId: savedTemplateId, anchor: draftAnchor },
+                                            body,
+                                        });
+                                        setActiveThreadId(comment.id);
+                                    }}
+                                />
+                            </div>
+                        )}
+
+                        {isLoading ? (
+                            <div className="flex justify-center py-6">
+                                <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+                            </div>
+                        ) : shownThreads.length === 0 && !draftAnchor ? (
+                            <p className="text-center text-sm text-gray-500 py-6">
+                                No open comments. Pin one to a spot on the design, or comment on the whole template below.
+                            </p>
+                        ) : (
+                            shownThreads.map(thread => {
+                                const number = threads.indexOf(thread) + 1;
+                                const isPinned = thread.root.anchor_x !== null;
+                                const isOrphaned = isPinned && !resolveAnchor(thread.root, elements);
+
+                                return (
+                                    <CommentThread
+                                        key={thread.root.id}
+                                        thread={thread}
+                                        scope={scope}
+                                        authors={authors}
+                                        isWorkspaceOwner={canManageWorkspace(role)}
+                                        isActive={activeThreadId === thread.root.id}
+                                        onSelect={() => setActiveThreadId(thread.root.id)}
+                                        label={isPinned ? (
+                                            <CommentMarkerLabel
+                                                number={number}
+                                                className={isOrphaned ? 'bg-gray-400' : undefined}
+                                            />
+                                        ) : undefined}
+                                    />
+                                );
+                            })
+                        )}
+                    </div>
+
+                    {/* General comment */}
+                    <div className="p-3 border-t border-gray-200 bg-white">
+                        <CommentComposer
+                            placeholder="Comment on the whole template..."
+                            isPosting={createComment.isPending}
+                            onSubmit={(body) => createComment.mutateAsync({ target: { templateId: savedTemplateId }, body })}
+                        />
+                    </div>
+                </>
+            )}
+        </aside>
+    );
+}
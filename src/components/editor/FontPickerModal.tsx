@@ -6,6 +6,7 @@ import { X, Upload, Check, Loader2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Font, getFonts, loadCustomFont } from '@/lib/db/fonts';
 import { supabase } from '@/lib/supabase';
+import { getActiveWorkspaceId } from '@/lib/db/workspaces';
 
 // Default Google Fonts
 const DEFAULT_FONTS = [
@@ -159,6 +160,7 @@ function FontSelectionModal({
 
             await supabase.from('custom_fonts').insert({
                 user_id: user.id,
+                workspace_id: await getActiveWorkspaceId(),
                 family: familyName,
                 file_url: urlData.publicUrl,
                 format: ext,
@@ -0,0 +1,220 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, GitMerge, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { useEditorStore } from '@/stores/editorStore';
+import { useTemplateStore } from '@/stores/templateStore';
+import { saveTemplate as saveTemplateToDb } from '@/lib/db/templates';
+import { TemplateConflictError } from '@/lib/db/utils';
+import { applyMergeChoices, findMergeItems, MergeChoice, MergeItem } from '@/lib/canvas/templateMerge';
+import { diffTemplateVersions, TemplateContent } from '@/lib/utils/templateDiff';
+import { DbTemplate } from '@/types/database.types';
+
+interface SaveConflictModalProps {
+    /** The stored template that rejected the save */
+    latest: DbTemplate;
+    onClose: () => void;
+}
+
+const KIND_LABELS: Record<MergeItem['kind'], string> = {
+    'mine-only': 'Only in your version',
+    'theirs-only': 'Only in the saved version',
+    modified: 'Edited on both sides',
+    canvas: 'Canvas settings differ',
+};
+
+/**
+ * Merge dialog for a save rejected because the template was saved elsewhere
+ * (another tab or a teammate). Each difference gets "keep mine / take theirs".
+ */
+export function SaveConflictModal({ latest, onClose }: SaveConflictModalProps) {
+    const elements = useEditorStore((s) => s.elements);
+    const canvasSize = useEditorStore((s) => s.canvasSize);
+    const backgroundColor = useEditorStore((s) => s.backgroundColor);
+
+    const [choices, setChoices] = useState<Record<string, MergeChoice>>({});
+    const [isSaving, setIsSaving] = useState(false);
+
+    const mine = useMemo<TemplateContent>(
+        () => ({ elements, canvas_size: canvasSize, background_color: backgroundColor }),
+        [elements, canvasSize, backgroundColor]
+    );
+    const theirs = useMemo<TemplateContent>(
+        () => ({ elements: latest.elements || [], canvas_size: latest.canvas_size, background_color: latest.background_color }),
+        [latest]
+    );
+
+    const items = useMemo(() => findMergeItems(mine, theirs), [mine, theirs]);
+    const changedProperties = useMemo(() => {
+        const diff = diffTemplateVersions(theirs, mine);
+        return new Map(diff.changed.map(change => [change.id, change.changes.map(c => c.property)]));
+    }, [mine, theirs]);
+
+    // Handle escape key to close modal
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape' && !isSaving) {
+                onClose();
+            }
+        };
+
+        document.addEventListener('keydown', handleKeyDown);
+        return () => document.removeEventListener('keydown', handleKeyDown);
+    }, [isSaving, onClose]);
+
+    const choose = (key: string, choice: MergeChoice) => setChoices(prev => ({ ...prev, [key]: choice }));
+    const chooseAll = (choice: MergeChoice) => setChoices(Object.fromEntries(items.map(item => [item.key, choice])));
+
+    const handleSave = async () => {
+        const merged = applyMergeChoices(mine, theirs, choices);
+        const { templateName, setTemplateRevision, setSaveConflict } = useTemplateStore.getState();
+
+        // Same as restoring a version: replaces the design and can be undone
+        useEditorStore.getState().restoreVersion(merged);
+
+        setIsSaving(true);
+        try {
+            const saved = await saveTemplateToDb({
+                id: latest.id,
+                name: templateName,
+                canvas_size: merged.canvas_size,
+                background_color: merged.background_color,
+                elements: merged.elements,
+                revision: latest.revision,
+            });
+            if (!saved) throw new Error('Save returned null');
+
+            setTemplateRevision(saved.revision ?? null);
+            setSaveConflict(null);
+            toast.success('Merged changes saved');
+        } catch (error) {
+            if (error instanceof TemplateConflictError) {
+                // Saved elsewhere again while merging - start over from the newer copy
+                setSaveConflict(error.latest);
+                toast.warning('The template changed again. Review the new changes.');
+            } else {
+                console.error('Failed to save merged template:', error);
+                toast.error('Failed to save merged template');
+            }
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+            {/* Backdrop */}
+            <div className="absolute inset-0 bg-black/50 backdrop-blur-sm animate-in fade-in-0 duration-200" />
+
+            {/* Modal */}
+            <div className="relative bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[85vh] flex flex-col overflow-hidden animate-in zoom-in-95 fade-in-0 duration-200">
+                {/* Header */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+                    <div className="flex items-center gap-3">
+                        <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-amber-500 to-orange-600 flex items-center justify-center">
+                            <GitMerge className="w-5 h-5 text-white" />
+                        </div>
+                        <div>
+                            <h2 className="text-lg font-bold text-gray-900">Template changed elsewhere</h2>
+                            <p className="text-sm text-gray-500">
+                                Saved {new Date(latest.updated_at).toLocaleString()} in another tab or by a teammate
+                            </p>
+                        </div>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        disabled={isSaving}
+                        className="p-2 rounded-lg text-gray-500 hover:text-gray-700 hover:bg-gray-100 transition-colors"
+                        title="Decide later (the next save will ask again)"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                {/* Content */}
+                <div className="flex-1 overflow-y-auto p-6 space-y-4">
+                    {items.length === 0 ? (
+                        <p className="text-sm text-gray-600">
+                            Your design matches the saved one. Save to continue from the latest revision.
+                        </p>
+                    ) : (
+                        <>
+                            <div className="flex items-center justify-between">
+                                <p className="text-sm text-gray-600">
+                                    {items.length} difference{items.length === 1 ? '' : 's'}. Choose what to keep for each.
+                                </p>
+                                <div className="flex gap-2 text-xs">
+                                    <button onClick={() => chooseAll('mine')} className="px-2.5 py-1 rounded-md bg-gray-100 hover:bg-gray-200 text-gray-700">
+                                        Keep all mine
+                                    </button>
+                                    <button onClick={() => chooseAll('theirs')} className="px-2.5 py-1 rounded-md bg-gray-100 hover:bg-gray-200 text-gray-700">
+                                        Take all theirs
+                                    </button>
+                                </div>
+                            </div>
+
+                            <ul className="divide-y divide-gray-100 border border-gray-200 rounded-xl">
+                                {items.map((item) => {
+                                    const choice = choices[item.key] ?? 'mine';
+                                    const properties = changedProperties.get(item.key);
+
+                                    return (
+                                        <li key={item.key} className="flex items-center justify-between gap-4 px-4 py-3">
+                                            <div className="min-w-0">
+                                                <p className="text-sm font-medium text-gray-900 truncate">
+                                                    {item.label}
+                                                    {item.elementType && (
+                                                        <span className="ml-1 text-xs font-normal text-gray-400">({item.elementType})</span>
+                                                    )}
+                                                </p>
+                                                <p className="text-xs text-gray-500 truncate">
+                                                    {KIND_LABELS[item.kind]}
+                                                    {properties && properties.length > 0 && `: ${properties.join(', ')}`}
+                                                </p>
+                                            </div>
+                                            <div className="inline-flex shrink-0 rounded-lg bg-gray-100 p-1 text-xs">
+                                                {(['mine', 'theirs'] as const).map((side) => (
+                                                    <button
+                                                        key={side}
+                                                        onClick={() => choose(item.key, side)}
+                                                        className={cn(
+                                                            'px-2.5 py-1 rounded-md transition-colors',
+                                                            choice === side ? 'bg-white shadow-sm text-gray-900 font-medium' : 'text-gray-500'
+                                                        )}
+                                                    >
+                                                        {side === 'mine' ? 'Keep mine' : 'Take theirs'}
+                                                    </button>
+                                                ))}
+                                            </div>
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        </>
+                    )}
+                </div>
+
+                {/* Footer */}
+                <div className="flex justify-end gap-2 px-6 py-4 border-t border-gray-200">
+                    <button
+                        onClick={onClose}
+                        disabled={isSaving}
+                        className="px-4 py-2 rounded-full text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 transition-colors"
+                    >
+                        Decide later
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={isSaving}
+                        className="flex items-center gap-2 px-5 py-2 rounded-full text-sm font-medium bg-linear-to-r from-primary-creative to-secondary-creative text-white hover:opacity-90 disabled:opacity-70 disabled:cursor-not-allowed"
+                    >
+                        {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+                        Save merged design
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
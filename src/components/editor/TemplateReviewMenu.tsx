@@ -0,0 +1,66 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { ChevronDown } from 'lucide-react';
+import { useQueryClient } from '@tanstack/react-query';
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { TemplateStatusBadge } from '@/components/ui/TemplateStatusBadge';
+import { useTemplateStore } from '@/stores/templateStore';
+import { getAllowedStatusTransitions } from '@/lib/review/templateStatus';
+import { isSupabaseConfigured } from '@/lib/supabase';
+import { useActiveWorkspace } from '@/hooks/useWorkspaces';
+import { templateKeys, useSetTemplateStatus, useTemplateStatus } from '@/hooks/useTemplates';
+
+/**
+ * Review status of the open template, with the moves the user may make
+ */
+export function TemplateReviewMenu() {
+    const templateId = useTemplateStore((s) => s.templateId);
+    const isNewTemplate = useTemplateStore((s) => s.isNewTemplate);
+    const templateRevision = useTemplateStore((s) => s.templateRevision);
+
+    const savedTemplateId = isNewTemplate ? null : templateId;
+    const queryClient = useQueryClient();
+    const { data } = useTemplateStatus(savedTemplateId);
+    const setStatus = useSetTemplateStatus(savedTemplateId ?? '');
+    const { role } = useActiveWorkspace();
+
+    // Saving a design change sends an approved template back to draft
+    useEffect(() => {
+        if (savedTemplateId) {
+            queryClient.invalidateQueries({ queryKey: templateKeys.status(savedTemplateId) });
+        }
+    }, [savedTemplateId, templateRevision, queryClient]);
+
+    if (!isSupabaseConfigured() || !savedTemplateId || !data) return null;
+
+    const transitions = getAllowedStatusTransitions(data.status, role);
+
+    return (
+        <DropdownMenu>
+            <DropdownMenuTrigger asChild disabled={transitions.length === 0 || setStatus.isPending}>
+                <button
+                    className="hidden md:flex items-center gap-1 rounded-full disabled:cursor-default"
+                    title={data.status_changed_at ? `Since ${new Date(data.status_changed_at).toLocaleString()}` : 'Review status'}
+                >
+                    <TemplateStatusBadge status={data.status} className="text-xs px-2.5 py-1" />
+                    {transitions.length > 0 && <ChevronDown className="w-3 h-3 text-gray-400" />}
+                </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-48">
+                <DropdownMenuLabel className="text-xs text-gray-500">Review</DropdownMenuLabel>
+                {transitions.map(transition => (
+                    <DropdownMenuItem key={transition.to} onClick={() => setStatus.mutate(transition.to)}>
+                        {transition.action}
+                    </DropdownMenuItem>
+                ))}
+            </DropdownMenuContent>
+        </DropdownMenu>
+    );
+}
@@ -0,0 +1,383 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, History, Flag, RotateCcw, Loader2, ImageOff } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useEditorStore } from '@/stores/editorStore';
+import { useTemplateStore } from '@/stores/templateStore';
+import {
+    useTemplateVersions,
+    useTemplateVersion,
+    useCreateCheckpoint,
+    useRestoreTemplateVersion,
+} from '@/hooks/useTemplateVersions';
+import { TemplateVersionListItem } from '@/lib/db/templateVersions';
+import { TemplateVersionSource } from '@/types/database.types';
+import { diffTemplateVersions, formatDiffValue, PropertyChange, TemplateContent } from '@/lib/utils/templateDiff';
+
+interface VersionHistoryModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+type CompareMode = 'current' | 'previous';
+
+const SOURCE_LABELS: Record<TemplateVersionSource, { label: string; className: string }> = {
+    manual: { label: 'Saved', className: 'bg-blue-50 text-blue-700' },
+    autosave: { label: 'Auto-save', className: 'bg-gray-100 text-gray-600' },
+    checkpoint: { label: 'Checkpoint', className: 'bg-amber-50 text-amber-700' },
+    restore: { label: 'Restore', className: 'bg-purple-50 text-purple-700' },
+};
+
+function VersionRow({
+    version,
+    isSelected,
+    onSelect,
+}: {
+    version: TemplateVersionListItem;
+    isSelected: boolean;
+    onSelect: () => void;
+}) {
+    const source = SOURCE_LABELS[version.source];
+
+    return (
+        <button
+            onClick={onSelect}
+            className={cn(
+                'w-full flex items-center gap-3 p-2 rounded-lg text-left transition-colors',
+                isSelected ? 'bg-primary-creative/10 ring-1 ring-primary-creative/40' : 'hover:bg-gray-50'
+            )}
+        >
+            <div className="w-10 h-14 shrink-0 rounded-md bg-gray-100 overflow-hidden flex items-center justify-center">
+                {version.thumbnail_url ? (
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img src={version.thumbnail_url} alt="" className="w-full h-full object-cover" loading="lazy" />
+                ) : (
+                    <ImageOff className="w-4 h-4 text-gray-300" />
+                )}
+            </div>
+            <div className="min-w-0 flex-1">
+                <div className="flex items-center gap-2">
+                    <span className="text-sm font-semibold text-gray-900">v{version.version_number}</span>
+                    <span className={cn('px-1.5 py-0.5 rounded text-[10px] font-medium', source.className)}>
+                        {source.label}
+                    </span>
+                </div>
+                {version.name && (
+                    <p className="text-xs text-gray-700 truncate">{version.name}</p>
+                )}
+                <p className="text-xs text-gray-400">{new Date(version.created_at).toLocaleString()}</p>
+            </div>
+        </button>
+    );
+}
+
+function PropertyChanges({ changes }: { changes: PropertyChange[] }) {
+    return (
+        <dl className="mt-1 space-y-1">
+            {changes.map((change) => (
+                <div key={change.property} className="grid grid-cols-[120px_1fr] gap-2 text-xs">
+                    <dt className="font-mono text-gray-500 truncate">{change.property}</dt>
+                    <dd className="min-w-0 flex items-center gap-1.5">
+                        <span className="truncate text-red-600 line-through">{formatDiffValue(change.before)}</span>
+                        <span className="text-gray-400">→</span>
+                        <span className="truncate text-green-700">{formatDiffValue(change.after)}</span>
+                    </dd>
+                </div>
+            ))}
+        </dl>
+    );
+}
+
+function VersionDiff({ before, after }: { before: TemplateContent; after: TemplateContent }) {
+    const diff = useMemo(() => diffTemplateVersions(before, after), [before, after]);
+    const isEmpty = diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0
+        && diff.canvas.length === 0 && !diff.reordered;
+
+    if (isEmpty) {
+        return <p className="text-sm text-gray-500">No differences.</p>;
+    }
+
+    return (
+        <div className="space-y-4">
+            {diff.canvas.length > 0 && (
+                <section>
+                    <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Canvas</h4>
+                    <PropertyChanges changes={diff.canvas} />
+                </section>
+            )}
+
+            {diff.added.length > 0 && (
+                <section>
+                    <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Added</h4>
+                    <ul className="mt-1 space-y-1">
+                        {diff.added.map((element) => (
+                            <li key={element.id} className="text-sm text-green-700">
+                                + {element.name} <span className="text-xs text-gray-400">({element.type})</span>
+                            </li>
+                        ))}
+                    </ul>
+                </section>
+            )}
+
+            {diff.removed.length > 0 && (
+                <section>
+                    <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Removed</h4>
+                    <ul className="mt-1 space-y-1">
+                        {diff.removed.map((element) => (
+                            <li key={element.id} className="text-sm text-red-600">
+                                − {element.name} <span className="text-xs text-gray-400">({element.type})</span>
+                            </li>
+                        ))}
+                    </ul>
+                </section>
+            )}
+
+            {diff.changed.length > 0 && (
+                <section>
+                    <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Changed</h4>
+                    <ul className="mt-1 space-y-3">
+                        {diff.changed.map((element) => (
+                            <li key={element.id}>
+                                <p className="text-sm text-gray-900">
+                                    {element.name} <span className="text-xs text-gray-400">({element.type})</span>
+                                </p>
+                                <PropertyChanges changes={element.changes} />
+                            </li>
+                        ))}
+                    </ul>
+                </section>
+            )}
+
+            {diff.reordered && (
+                <p className="text-sm text-gray-600">Layer order changed.</p>
+            )}
+        </div>
+    );
+}
+
+export function VersionHistoryModal({ isOpen, onClose }: VersionHistoryModalProps) {
+    const templateId = useTemplateStore((s) => s.templateId);
+    const isNewTemplate = useTemplateStore((s) => s.isNewTemplate);
+    const elements = useEditorStore((s) => s.elements);
+    const canvasSize = useEditorStore((s) => s.canvasSize);
+    const backgroundColor = useEditorStore((s) => s.backgroundColor);
+
+    const historyTemplateId = isNewTemplate ? null : templateId;
+    const { data: versions = [], isLoading } = useTemplateVersions(historyTemplateId, isOpen);
+    const createCheckpoint = useCreateCheckpoint(historyTemplateId);
+    const restoreVersion = useRestoreTemplateVersion(historyTemplateId);
+
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [compareMode, setCompareMode] = useState<CompareMode>('current');
+    const [checkpointName, setCheckpointName] = useState('');
+
+    const selectedIndex = versions.findIndex((version) => version.id === selectedId);
+    const selected = selectedIndex >= 0 ? versions[selectedIndex] : null;
+    const previous = selectedIndex >= 0 ? versions[selectedIndex + 1] ?? null : null;
+
+    const { data: selectedVersion, isLoading: isLoadingSelected } = useTemplateVersion(selected?.id ?? null);
+    const { data: previousVersion } = useTemplateVersion(compareMode === 'previous' ? previous?.id ?? null : null);
+
+    const currentDesign = useMemo<TemplateContent>(
+        () => ({ elements, canvas_size: canvasSize, background_color: backgroundColor }),
+        [elements, canvasSize, backgroundColor]
+    );
+
+    // Handle escape key to close modal
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape' && isOpen) {
+                onClose();
+            }
+        };
+
+        document.addEventListener('keydown', handleKeyDown);
+        return () => document.removeEventListener('keydown', handleKeyDown);
+    }, [isOpen, onClose]);
+
+    // Prevent body scroll when modal is open
+    useEffect(() => {
+        if (isOpen) {
+            document.body.style.overflow = 'hidden';
+        } else {
+            document.body.style.overflow = '';
+        }
+        return () => {
+            document.body.style.overflow = '';
+        };
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const handleCreateCheckpoint = (e: React.FormEvent) => {
+        e.preventDefault();
+        const name = checkpointName.trim();
+        if (!name) return;
+
+        createCheckpoint.mutate(name, {
+            onSuccess: () => setCheckpointName(''),
+        });
+    };
+
+    const handleRestore = () => {
+        if (!selected) return;
+        restoreVersion.mutate(selected.id, {
+            onSuccess: () => setSelectedId(null),
+        });
+    };
+
+    const comparison = selectedVersion
+        ? compareMode === 'current'
+            ? { before: selectedVersion, after: currentDesign, title: 'Changes since this version' }
+            : previousVersion
+                ? { before: previousVersion, after: selectedVersion, title: `Changes from v${previousVersion.version_number}` }
+                : null
+        : null;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+            {/* Backdrop */}
+            <div
+                className="absolute inset-0 bg-black/50 backdrop-blur-sm animate-in fade-in-0 duration-200"
+                onClick={onClose}
+            />
+
+            {/* Modal */}
+            <div className="relative bg-white rounded-2xl shadow-2xl max-w-4xl w-full h-[85vh] flex flex-col overflow-hidden animate-in zoom-in-95 fade-in-0 duration-200">
+                {/* Header */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+                    <div className="flex items-center gap-3">
+                        <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-blue-500 to-purple-600 flex items-center justify-center">
+                            <History className="w-5 h-5 text-white" />
+                        </div>
+                        <div>
+                            <h2 className="text-lg font-bold text-gray-900">Version History</h2>
+                            <p className="text-sm text-gray-500">Compare and restore earlier designs</p>
+                        </div>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-2 rounded-lg text-gray-500 hover:text-gray-700 hover:bg-gray-100 transition-colors"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="flex flex-1 min-h-0">
+                    {/* Version list */}
+                    <div className="w-72 shrink-0 border-r border-gray-200 flex flex-col">
+                        <form onSubmit={handleCreateCheckpoint} className="p-3 border-b border-gray-200 flex gap-2">
+                            <input
+                                type="text"
+                                value={checkpointName}
+                                onChange={(e) => setCheckpointName(e.target.value)}
+                                maxLength={80}
+                                placeholder="Checkpoint name"
+                                className="flex-1 min-w-0 px-3 py-1.5 text-sm border border-gray-200 rounded-lg outline-none focus:ring-2 focus:ring-primary-creative/20"
+                            />
+                            <button
+                                type="submit"
+                                disabled={!checkpointName.trim() || createCheckpoint.isPending}
+                                className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-medium bg-gray-900 text-white hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed"
+                                title="Save the current design as a named checkpoint"
+                            >
+                                <Flag className="w-3.5 h-3.5" />
+                                Save
+                            </button>
+                        </form>
+
+                        <div className="flex-1 overflow-y-auto p-2 space-y-1">
+                            {isLoading ? (
+                                <div className="flex justify-center py-8">
+                                    <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+                                </div>
+                            ) : versions.length === 0 ? (
+                                <p className="px-2 py-8 text-sm text-center text-gray-500">
+                                    No versions yet. Versions are kept when you save.
+                                </p>
+                            ) : (
+                                versions.map((version) => (
+                                    <VersionRow
+                                        key={version.id}
+                                        version={version}
+                                        isSelected={version.id === selectedId}
+                                        onSelect={() => setSelectedId(version.id)}
+                                    />
+                                ))
+                            )}
+                        </div>
+                    </div>
+
+                    {/* Version detail */}
+                    <div className="flex-1 min-w-0 overflow-y-auto p-6">
+                        {!selected ? (
+                            <p className="text-sm text-gray-500">Select a version to see what changed.</p>
+                        ) : (
+                            <div className="space-y-5">
+                                <div className="flex items-start justify-between gap-4">
+                                    <div>
+                                        <h3 className="text-base font-bold text-gray-900">
+                                            Version {selected.version_number}
+                                            {selected.name && <span className="font-normal text-gray-600"> · {selected.name}</span>}
+                                        </h3>
+                                        <p className="text-sm text-gray-500">
+                                            {SOURCE_LABELS[selected.source].label} · {new Date(selected.created_at).toLocaleString()}
+                                        </p>
+                                    </div>
+                                    <button
+                                        onClick={handleRestore}
+                                        disabled={restoreVersion.isPending}
+                                        className="flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium bg-linear-to-r from-primary-creative to-secondary-creative text-white hover:opacity-90 disabled:opacity-70 disabled:cursor-not-allowed"
+                                    >
+                                        {restoreVersion.isPending
+                                            ? <Loader2 className="w-4 h-4 animate-spin" />
+                                            : <RotateCcw className="w-4 h-4" />}
+                                        Restore
+                                    </button>
+                                </div>
+
+                                <div className="inline-flex rounded-lg bg-gray-100 p-1 text-sm">
+                                    <button
+                                        onClick={() => setCompareMode('current')}
+                                        className={cn(
+                                            'px-3 py-1 rounded-md transition-colors',
+                                            compareMode === 'current' ? 'bg-white shadow-sm text-gray-900' : 'text-gray-500'
+                                        )}
+                                    >
+                                        vs current design
+                                    </button>
+                                    <button
+                                        onClick={() => setCompareMode('previous')}
+                                        disabled={!previous}
+                                        className={cn(
+                                            'px-3 py-1 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed',
+                                            compareMode === 'previous' ? 'bg-white shadow-sm text-gray-900' : 'text-gray-500'
+                                        )}
+                                    >
+                                        vs previous version
+                                    </button>
+                                </div>
+
+                                {isLoadingSelected ? (
+                                    <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+                                ) : !selectedVersion ? (
+                                    <p className="text-sm text-red-600">Couldn&apos;t load this version.</p>
+                                ) : compareMode === 'previous' && !previous ? (
+                                    <p className="text-sm text-gray-500">This is the first version.</p>
+                                ) : comparison ? (
+                                    <div>
+                                        <h4 className="text-sm font-semibold text-gray-900 mb-3">{comparison.title}</h4>
+                                        <VersionDiff before={comparison.before} after={comparison.after} />
+                                    </div>
+                                ) : (
+                                    <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+                                )}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
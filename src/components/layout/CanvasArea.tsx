@@ -6,6 +6,7 @@ import { useEditorStore } from '@/stores/editorStore';
 import { Hand } from 'lucide-react';
 import { EmptyCanvasState } from '@/components/canvas/EmptyCanvasState';
 import { ZoomControls } from '@/components/canvas/ZoomControls';
+import { PreviewRowsBar } from '@/components/canvas/PreviewRowsBar';
 
 // EditorCanvas is now the v2 architecture (renamed from EditorCanvas.v2)
 const EditorCanvas = dynamic(
@@ -39,6 +40,7 @@ export function CanvasArea() {
     const elements = useEditorStore((s) => s.elements);
     const addText = useEditorStore((s) => s.addText);
     const addImage = useEditorStore((s) => s.addImage);
+    const previewMode = useEditorStore((s) => s.previewMode);
 
     // Spacebar hold for pan mode
     useEffect(() => {
@@ -194,6 +196,9 @@ export function CanvasArea() {
                 </div>
             </div>
             
+            {/* Sample rows for previewing visibility rules (Top Center) */}
+            {previewMode && <PreviewRowsBar />}
+
             {/* Zoom and Undo/Redo Controls (Bottom Right) */}
             <ZoomControls />
             
@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useState, useRef } from 'react';
-import { Save, Upload, Settings } from 'lucide-react';
+import { Save, Upload, Settings, History, MessageSquare } from 'lucide-react';
 import { useTemplateStore } from '@/stores/templateStore';
 import { useEditorStore } from '@/stores/editorStore';
 import { useStageRef } from '@/hooks/useStageRef';
@@ -14,6 +14,16 @@ import { useAuth } from '@/lib/auth/AuthContext';
 import { CanvaImportModal } from '@/components/import/CanvaImportModal';
 import { useAutoSave } from '@/hooks/useAutoSave';
 import { AutoSaveIndicator } from '@/components/ui/AutoSaveIndicator';
+import { VersionHistoryModal } from '@/components/editor/VersionHistoryModal';
+import { SaveConflictModal } from '@/components/editor/SaveConflictModal';
+import { CollaboratorAvatars } from '@/components/editor/CollaboratorAvatars';
+import { WorkspaceSwitcher } from '@/components/layout/WorkspaceSwitcher';
+import { TemplateReviewMenu } from '@/components/editor/TemplateReviewMenu';
+import { useCommentStore } from '@/stores/commentStore';
+import { useActiveWorkspace } from '@/hooks/useWorkspaces';
+import { TemplateConflictError } from '@/lib/db/utils';
+import { recordTemplateVersion } from '@/lib/db/templateVersions';
+import { captureVersionThumbnail } from '@/hooks/useTemplateVersions';
 
 export function Header() {
     // Template state from templateStore
@@ -25,6 +35,10 @@ export function Header() {
     const isSaving = useTemplateStore((s) => s.isSaving);
     const setIsSaving = useTemplateStore((s) => s.setIsSaving);
     const setTemplateId = useTemplateStore((s) => s.setTemplateId);
+    const templateRevision = useTemplateStore((s) => s.templateRevision);
+    const setTemplateRevision = useTemplateStore((s) => s.setTemplateRevision);
+    const saveConflict = useTemplateStore((s) => s.saveConflict);
+    const setSaveConflict = useTemplateStore((s) => s.setSaveConflict);
 
     // All canvas/element state from consolidated editorStore
     const backgroundColor = useEditorStore((s) => s.backgroundColor);
@@ -39,12 +53,20 @@ export function Header() {
     const { currentUser } = useAuth();
     const userId = currentUser?.id;
 
+    const isCommentsOpen = useCommentStore((s) => s.isOpen);
+    const setCommentsOpen = useCommentStore((s) => s.setOpen);
+
     const [isCanvaImportOpen, setIsCanvaImportOpen] = useState(false);
+    const [isHistoryOpen, setIsHistoryOpen] = useState(false);
     const [nameError, setNameError] = useState(false);
     const nameInputRef = useRef<HTMLInputElement>(null);
 
-    // Auto-save hook - reads from settingsStore (no overrides, use defaults from store)
-    const autoSave = useAutoSave();
+    // Viewers can open and browse the template but not save it
+    const { role } = useActiveWorkspace();
+    const isViewer = role === 'viewer';
+
+    // Auto-save hook - reads from settingsStore (off for viewers)
+    const autoSave = useAutoSave(isViewer ? { enabled: false } : undefined);
 
     const handleSave = async () => {
         if (!templateName.trim() || templateName === 'Untitled Template') {
@@ -113,9 +135,12 @@ export function Header() {
                     background_color: backgroundColor,
                     elements: elements,
                     thumbnail_url: thumbnailUrl,
+                    revision: isNewTemplate ? null : templateRevision,
                 });
 
                 if (savedTemplate) {
+                    setTemplateRevision(savedTemplate.revision ?? null);
+
                     // Don't call loadTemplate - elements are already in stores
                     // Just sync the template ID across stores
                     
@@ -129,6 +154,12 @@ export function Header() {
                     // Sync templateStore with the saved template
                     setTemplateId(savedTemplate.id);
                     setIsNewTemplate(false);
+
+                    // Every manual save goes into the version history
+                    void recordTemplateVersion(savedTemplate.id, savedTemplate, {
+                        source: 'manual',
+                        thumbnailDataUrl: captureVersionThumbnail(),
+                    });
                     
                     toast.success('Template saved successfully!');
                 } else {
@@ -149,6 +180,11 @@ export function Header() {
                 toast.success('Template saved locally (database not configured)');
             }
         } catch (error) {
+            if (error instanceof TemplateConflictError) {
+                setSaveConflict(error.latest);
+                toast.warning('This template was changed elsewhere. Review the changes to save.');
+                return;
+            }
             console.error('Failed to save template:', error);
             toast.error('Failed to save template');
         } finally {
@@ -170,6 +206,8 @@ export function Header() {
                         <span className="material-symbols-outlined text-gray-500 group-hover:text-gray-900 dark:text-gray-400 dark:group-hover:text-white transition-colors">arrow_back</span>
                     </a>
 
+                    <WorkspaceSwitcher />
+
                     <div className="h-8 w-px bg-gray-200 dark:bg-gray-700 mx-2 hidden md:block"></div>
 
                     <div className="flex-1 max-w-md">
@@ -194,6 +232,12 @@ export function Header() {
 
                 {/* Right: Actions */}
                 <div className="flex items-center gap-3">
+                    {/* Others editing this template */}
+                    <CollaboratorAvatars />
+
+                    {/* Review status (draft / in review / approved) */}
+                    <TemplateReviewMenu />
+
                      {/* Preview Toggle */}
                      <label className="hidden lg:flex items-center gap-2 cursor-pointer select-none px-3 py-1.5 rounded-full hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors">
                         <input
@@ -215,6 +259,33 @@ export function Header() {
                         <span>Import</span>
                     </button>
 
+                    {/* Version History */}
+                    <button
+                        onClick={() => setIsHistoryOpen(true)}
+                        disabled={isNewTemplate || !isSupabaseConfigured()}
+                        className="hidden md:flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium text-gray-700 dark:text-gray-200 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        title={isNewTemplate ? 'Save the template to start its history' : 'Version history'}
+                    >
+                        <History className="w-4 h-4" />
+                        <span>History</span>
+                    </button>
+
+                    {/* Review Comments */}
+                    <button
+                        onClick={() => setCommentsOpen(!isCommentsOpen)}
+                        disabled={!isSupabaseConfigured()}
+                        className={cn(
+                            "hidden md:flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed",
+                            isCommentsOpen
+                                ? "bg-primary-creative/10 text-primary-creative"
+                                : "text-gray-700 dark:text-gray-200 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700"
+                        )}
+                        title="Review comments"
+                    >
+                        <MessageSquare className="w-4 h-4" />
+                        <span>Comments</span>
+                    </button>
+
                     {/* Auto-save indicator */}
                     <div className="hidden xl:block">
                         <AutoSaveIndicator
@@ -231,15 +302,16 @@ export function Header() {
                     {/* Save Button */}
                      <button
                         onClick={handleSave}
-                        disabled={isSaving}
+                        disabled={isSaving || isViewer}
+                        title={isViewer ? 'Viewers can\'t save changes in this workspace' : undefined}
                         className={cn(
                             "flex items-center gap-2 px-6 py-2.5 rounded-full font-heading font-medium text-sm transition-all shadow-lg shadow-purple-500/20 active:scale-95",
                             "bg-linear-to-r from-primary-creative to-secondary-creative text-white hover:opacity-90",
-                            isSaving && "opacity-70 cursor-not-allowed"
+                            (isSaving || isViewer) && "opacity-70 cursor-not-allowed"
                         )}
                     >
                         <Save className="w-4 h-4" />
-                        {isSaving ? 'Saving...' : 'Save Template'}
+                        {isSaving ? 'Saving...' : isViewer ? 'View Only' : 'Save Template'}
                     </button>
 
                     {/* Settings */}
@@ -260,6 +332,21 @@ export function Header() {
                 </div>
             </header>
 
+            {/* Version History Modal */}
+            <VersionHistoryModal
+                isOpen={isHistoryOpen}
+                onClose={() => setIsHistoryOpen(false)}
+            />
+
+            {/* Save Conflict (merge) Modal */}
+            {saveConflict && (
+                <SaveConflictModal
+                    key={`${saveConflict.id}:${saveConflict.revision}`}
+                    latest={saveConflict}
+                    onClose={() => setSaveConflict(null)}
+                />
+            )}
+
             {/* Canva Import Modal */}
             <CanvaImportModal
                 isOpen={isCanvaImportOpen}
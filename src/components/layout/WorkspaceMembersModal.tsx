@@ -0,0 +1,245 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { X, Users, Copy, Trash2, Loader2, Mail } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { useAuth } from '@/lib/auth/AuthContext';
+import { INVITABLE_ROLES, canManageWorkspace, getRoleLabel } from '@/lib/auth/workspaceRoles';
+import { InvitableRole, WorkspaceWithRole } from '@/lib/db/workspaces';
+import {
+    useWorkspaceMembers,
+    useWorkspaceInvitations,
+    useInviteMember,
+    useRevokeInvitation,
+    useUpdateMemberRole,
+    useRemoveMember,
+} from '@/hooks/useWorkspaces';
+
+interface WorkspaceMembersModalProps {
+    workspace: WorkspaceWithRole;
+    onClose: () => void;
+}
+
+function getInviteLink(token: string): string {
+    return `${window.location.origin}/invite/${token}`;
+}
+
+async function copyInviteLink(token: string) {
+    try {
+        await navigator.clipboard.writeText(getInviteLink(token));
+        toast.success('Invite link copied', { description: 'Send it to your teammate to join' });
+    } catch {
+        toast.error('Could not copy the link');
+    }
+}
+
+/**
+ * Members, roles and pending invitations of a team workspace.
+ * Non-owners see the member list only.
+ */
+export function WorkspaceMembersModal({ workspace, onClose }: WorkspaceMembersModalProps) {
+    const { currentUser } = useAuth();
+    const isOwner = canManageWorkspace(workspace.role);
+
+    const { data: members = [], isLoading } = useWorkspaceMembers(workspace.id);
+    const { data: invitations = [] } = useWorkspaceInvitations(isOwner ? workspace.id : null);
+    const inviteMember = useInviteMember(workspace.id);
+    const revokeInvitation = useRevokeInvitation(workspace.id);
+    const updateRole = useUpdateMemberRole(workspace.id);
+    const removeMember = useRemoveMember(workspace.id);
+
+    const [email, setEmail] = useState('');
+    const [role, setRole] = useState<InvitableRole>('editor');
+
+    // Handle escape key to close modal
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        document.addEventListener('keydown', handleKeyDown);
+        return () => document.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    const handleInvite = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!email.trim()) return;
+
+        const invitation = await inviteMember.mutateAsync({ email, role }).catch(() => null);
+        if (invitation) {
+            setEmail('');
+            await copyInviteLink(invitation.token);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+            {/* Backdrop */}
+            <div
+                className="absolute inset-0 bg-black/50 backdrop-blur-sm animate-in fade-in-0 duration-200"
+                onClick={onClose}
+            />
+
+            {/* Modal */}
+            <div className="relative bg-white rounded-2xl shadow-2xl max-w-lg w-full max-h-[85vh] flex flex-col overflow-hidden animate-in zoom-in-95 fade-in-0 duration-200">
+                {/* Header */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+                    <div className="flex items-center gap-3">
+                        <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-primary-creative to-secondary-creative flex items-center justify-center">
+                            <Users className="w-5 h-5 text-white" />
+                        </div>
+                        <div>
+                            <h2 className="text-lg font-bold text-gray-900">{workspace.name}</h2>
+                            <p className="text-sm text-gray-500">Members and invitations</p>
+                        </div>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-2 rounded-lg hover:bg-gray-100 transition-colors"
+                        aria-label="Close"
+                    >
+                        <X className="w-5 h-5 text-gray-500" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto px-6 py-4 space-y-6">
+                    {/* Invite */}
+                    {isOwner && (
+                        <form onSubmit={handleInvite} className="space-y-2">
+                            <label className="text-sm font-semibold text-gray-900">Invite by email</label>
+                            <div className="flex gap-2">
+                                <input
+                                    type="email"
+                                    value={email}
+                                    onChange={(e) => setEmail(e.target.value)}
+                                    placeholder="teammate@example.com"
+                                    className="flex-1 min-w-0 px-3 py-2 rounded-lg border border-gray-200 text-sm outline-none focus:ring-2 focus:ring-primary-creative/20"
+                                    required
+                                />
+                                <select
+                                    value={role}
+                                    onChange={(e) => setRole(e.target.value as InvitableRole)}
+                                    className="px-2 py-2 rounded-lg border border-gray-200 text-sm bg-white"
+                                >
+                                    {INVITABLE_ROLES.map(r => (
+                                        <option key={r.role} value={r.role}>{r.label}</option>
+                                    ))}
+                                </select>
+                                <button
+                                    type="submit"
+                                    disabled={inviteMember.isPending}
+                                    className="flex items-center gap-1.5 px-4 py-2 rounded-lg bg-primary-creative text-white text-sm font-medium hover:opacity-90 disabled:opacity-50"
+                                >
+                                    {inviteMember.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Mail className="w-4 h-4" />}
+                                    Invite
+                                </button>
+                            </div>
+                            <p className="text-xs text-gray-500">
+                                {INVITABLE_ROLES.find(r => r.role === role)?.description}. The invite link is copied to your clipboard.
+                            </p>
+                        </form>
+                    )}
+
+                    {/* Members */}
+                    <section className="space-y-2">
+                        <h3 className="text-sm font-semibold text-gray-900">Members</h3>
+                        {isLoading ? (
+                            <div className="flex justify-center py-4">
+                                <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+                            </div>
+                        ) : (
+                            <ul className="divide-y divide-gray-100">
+                                {members.map(member => {
+                                    const isSelf = member.user_id === currentUser?.id;
+                                    const canChange = isOwner && member.role !== 'owner';
+
+                                    return (
+                                        <li key={member.user_id} className="flex items-center gap-3 py-2">
+                                            <div className="w-8 h-8 shrink-0 rounded-full bg-gray-100 overflow-hidden flex items-center justify-center text-xs font-bold text-gray-600">
+                                                {member.avatar_url ? (
+                                                    // eslint-disable-next-line @next/next/no-img-element
+                                                    <img src={member.avatar_url} alt="" className="w-full h-full object-cover" />
+                                                ) : (
+                                                    member.email[0]?.toUpperCase()
+                                                )}
+                                            </div>
+                                            <div className="min-w-0 flex-1">
+                                                <p className="text-sm font-medium text-gray-900 truncate">
+                                                    {member.full_name || member.email}
+                                                    {isSelf && <span className="text-gray-400 font-normal"> (you)</span>}
+                                                </p>
+                                                {member.full_name && (
+                                                    <p className="text-xs text-gray-500 truncate">{member.email}</p>
+                                                )}
+                                            </div>
+                                            {canChange ? (
+                                                <>
+                                                    <select
+                                                        value={member.role}
+                                                        onChange={(e) => updateRole.mutate({ userId: member.user_id, role: e.target.value as InvitableRole })}
+                                                        className="px-2 py-1 rounded-lg border border-gray-200 text-xs bg-white"
+                                                    >
+                                                        {INVITABLE_ROLES.map(r => (
+                                                            <option key={r.role} value={r.role}>{r.label}</option>
+                                                        ))}
+                                                    </select>
+                                                    <button
+                                                        onClick={() => removeMember.mutate(member.user_id)}
+                                                        className="p-1.5 rounded-lg text-gray-400 hover:text-red-600 hover:bg-red-50 transition-colors"
+                                                        title="Remove from workspace"
+                                                    >
+                                                        <Trash2 className="w-4 h-4" />
+                                                    </button>
+                                                </>
+                                            ) : (
+                                                <span className={cn(
+                                                    'px-2 py-0.5 rounded text-xs font-medium',
+                                                    member.role === 'owner' ? 'bg-purple-50 text-purple-700' : 'bg-gray-100 text-gray-600'
+                                                )}>
+                                                    {getRoleLabel(member.role)}
+                                                </span>
+                                            )}
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        )}
+                    </section>
+
+                    {/* Pending invitations */}
+                    {isOwner && invitations.length > 0 && (
+                        <section className="space-y-2">
+                            <h3 className="text-sm font-semibold text-gray-900">Pending invitations</h3>
+                            <ul className="divide-y divide-gray-100">
+                                {invitations.map(invitation => (
+                                    <li key={invitation.id} className="flex items-center gap-3 py-2">
+                                        <div className="min-w-0 flex-1">
+                                            <p className="text-sm text-gray-900 truncate">{invitation.email}</p>
+                                            <p className="text-xs text-gray-500">
+                                                {getRoleLabel(invitation.role)} · expires {new Date(invitation.expires_at).toLocaleDateString()}
+                                            </p>
+                                        </div>
+                                        <button
+                                            onClick={() => copyInviteLink(invitation.token)}
+                                            className="p-1.5 rounded-lg text-gray-400 hover:text-gray-700 hover:bg-gray-100 transition-colors"
+                                            title="Copy invite link"
+                                        >
+                                            <Copy className="w-4 h-4" />
+                                        </button>
+                                        <button
+                                            onClick={() => revokeInvitation.mutate(invitation.id)}
+                                            className="p-1.5 rounded-lg text-gray-400 hover:text-red-600 hover:bg-red-50 transition-colors"
+                                            title="Revoke invitation"
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        </section>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
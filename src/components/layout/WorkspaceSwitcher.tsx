@@ -0,0 +1,86 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Check, ChevronDown, Plus, Users, Eye } from 'lucide-react';
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { cn } from '@/lib/utils';
+import { isSupabaseConfigured } from '@/lib/supabase';
+import { getRoleLabel } from '@/lib/auth/workspaceRoles';
+import { setActiveWorkspaceId } from '@/lib/db/workspaces';
+import { useActiveWorkspace, useCreateWorkspace } from '@/hooks/useWorkspaces';
+import { WorkspaceMembersModal } from './WorkspaceMembersModal';
+
+/**
+ * Switch between the personal workspace and team workspaces.
+ * Switching reloads the dashboard so every store starts from the new workspace.
+ */
+export function WorkspaceSwitcher() {
+    const { workspace, workspaces, role } = useActiveWorkspace();
+    const createWorkspace = useCreateWorkspace();
+    const [isMembersOpen, setIsMembersOpen] = useState(false);
+
+    if (!isSupabaseConfigured() || !workspace) return null;
+
+    const switchTo = async (workspaceId: string) => {
+        if (workspaceId === workspace.id) return;
+        await setActiveWorkspaceId(workspaceId);
+        window.location.assign('/dashboard');
+    };
+
+    const handleCreate = async () => {
+        const name = prompt('Workspace name:', '')?.trim();
+        if (!name) return;
+
+        const created = await createWorkspace.mutateAsync(name.slice(0, 100)).catch(() => null);
+        if (created) await switchTo(created.id);
+    };
+
+    return (
+        <>
+            <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                    <button
+                        className="hidden md:flex items-center gap-2 max-w-48 px-3 py-1.5 rounded-full text-sm font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+                        title="Switch workspace"
+                    >
+                        {role === 'viewer' && <Eye className="w-4 h-4 shrink-0 text-gray-400" />}
+                        <span className="truncate">{workspace.name}</span>
+                        <ChevronDown className="w-3 h-3 shrink-0 opacity-50" />
+                    </button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start" className="w-64">
+                    <DropdownMenuLabel className="text-xs text-gray-500">Workspaces</DropdownMenuLabel>
+                    {workspaces.map(ws => (
+                        <DropdownMenuItem key={ws.id} onClick={() => switchTo(ws.id)} className="gap-2">
+                            <Check className={cn('w-4 h-4 shrink-0', ws.id === workspace.id ? 'opacity-100' : 'opacity-0')} />
+                            <span className="flex-1 truncate">{ws.name}</span>
+                            <span className="text-xs text-gray-400">{ws.is_personal ? 'Personal' : getRoleLabel(ws.role)}</span>
+                        </DropdownMenuItem>
+                    ))}
+                    <DropdownMenuSeparator />
+                    {!workspace.is_personal && (
+                        <DropdownMenuItem onClick={() => setIsMembersOpen(true)} className="gap-2">
+                            <Users className="w-4 h-4" />
+                            Manage members
+                        </DropdownMenuItem>
+                    )}
+                    <DropdownMenuItem onClick={handleCreate} disabled={createWorkspace.isPending} className="gap-2">
+                        <Plus className="w-4 h-4" />
+                        New workspace
+                    </DropdownMenuItem>
+                </DropdownMenuContent>
+            </DropdownMenu>
+
+            {isMembersOpen && (
+                <WorkspaceMembersModal workspace={workspace} onClose={() => setIsMembersOpen(false)} />
+            )}
+        </>
+    );
+}
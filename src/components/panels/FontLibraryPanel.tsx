@@ -7,6 +7,7 @@ import { cn } from '@/lib/utils';
 import { generateId } from '@/lib/utils';
 import { TextElement } from '@/types/editor';
 import { supabase, isSupabaseConfigured } from '@/lib/supabase';
+import { getActiveWorkspaceId } from '@/lib/db/workspaces';
 import { useAuth } from '@/lib/auth/AuthContext';
 import { toast } from 'sonner';
 import { useStageRef } from '@/hooks/useStageRef';
@@ -171,10 +172,13 @@ export function FontLibraryPanel({ isOpen, onClose }: FontLibraryPanelProps) {
 
         const loadUserFonts = async () => {
             try {
+                const workspaceId = await getActiveWorkspaceId();
+                if (!workspaceId) return;
+
                 const { data, error } = await supabase
                     .from('custom_fonts')
                     .select('id, name, url')
-                    .eq('user_id', currentUser.id)
+                    .eq('workspace_id', workspaceId)
                     .order('created_at', { ascending: false });
 
                 if (error) throw error;
@@ -259,6 +263,8 @@ export function FontLibraryPanel({ isOpen, onClose }: FontLibraryPanelProps) {
             formData.append('file', file);
             formData.append('family', cleanName);
             formData.append('category', category);
+            const workspaceId = await getActiveWorkspaceId();
+            if (workspaceId) formData.append('workspaceId', workspaceId);
 
             const response = await fetch('/api/fonts/upload', {
                 method: 'POST',
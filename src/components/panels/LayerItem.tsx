@@ -1,7 +1,7 @@
 'use client';
 
 import React, { memo } from 'react';
-import { DraggableProvided, DraggableStateSnapshot } from '@hello-pangea/dnd';
+import { DraggableProvidedDragHandleProps } from '@hello-pangea/dnd';
 import {
     GripVertical,
     Eye,
@@ -13,7 +13,10 @@ import {
     Image,
     Layers,
     Trash2,
-    Copy
+    Copy,
+    Group,
+    ChevronRight,
+    ChevronDown
 } from 'lucide-react';
 import { ImageElement, TextElement, Element } from '@/types/editor';
 import { cn } from '@/lib/utils';
@@ -21,8 +24,13 @@ import { cn } from '@/lib/utils';
 export interface LayerItemProps {
     element: Element;
     isSelected: boolean;
-    provided: DraggableProvided;
-    snapshot: DraggableStateSnapshot;
+    /** Only top-level layers are dragged; group members move with their group */
+    dragHandleProps?: DraggableProvidedDragHandleProps | null;
+    isDragging?: boolean;
+    /** Nesting level inside groups */
+    depth?: number;
+    isExpanded?: boolean;
+    onToggleExpand?: (id: string) => void;
     onSelect: (id: string) => void;
     onUpdateElement: (id: string, updates: Partial<Element>) => void;
     onDeleteElement: (id: string) => void;
@@ -37,8 +45,11 @@ export interface LayerItemProps {
 export const LayerItem = memo(function LayerItem({
     element,
     isSelected,
-    provided,
-    snapshot,
+    dragHandleProps,
+    isDragging = false,
+    depth = 0,
+    isExpanded = false,
+    onToggleExpand,
     onSelect,
     onUpdateElement,
     onDeleteElement,
@@ -47,11 +58,10 @@ export const LayerItem = memo(function LayerItem({
 }: LayerItemProps) {
     // Helper to check if element is Canva background
     const isCanvaBackground = element.type === 'image' && (element as ImageElement).isCanvaBackground;
+    const isGroup = element.type === 'group';
 
     return (
         <div
-            ref={provided.innerRef}
-            {...provided.draggableProps}
             className={cn(
                 "flex items-center gap-2.5 px-3 py-2.5 rounded-lg cursor-pointer transition-all duration-150",
                 "hover:bg-gray-50",
@@ -60,14 +70,37 @@ export const LayerItem = memo(function LayerItem({
                     : isCanvaBackground
                         ? "bg-linear-to-r from-purple-50 to-cyan-50 border-l-[3px] border-l-purple-300"
                         : "bg-white border-l-[3px] border-l-transparent",
-                snapshot.isDragging && "shadow-lg scale-[1.02] bg-blue-50"
+                isDragging && "shadow-lg scale-[1.02] bg-blue-50"
             )}
+            style={depth > 0 ? { paddingLeft: 12 + depth * 20 } : undefined}
             onClick={() => onSelect(element.id)}
         >
             {/* Drag Handle */}
-            <div {...provided.dragHandleProps} className="cursor-grab active:cursor-grabbing">
-                <GripVertical className="w-4 h-4 text-gray-400" />
-            </div>
+            {dragHandleProps !== undefined ? (
+                <div {...dragHandleProps} className="cursor-grab active:cursor-grabbing">
+                    <GripVertical className="w-4 h-4 text-gray-400" />
+                </div>
+            ) : (
+                <div className="w-4 shrink-0" />
+            )}
+
+            {/* Expand/collapse group */}
+            {isGroup && onToggleExpand && (
+                <button
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        onToggleExpand(element.id);
+                    }}
+                    className="p-0.5 -mx-1 hover:bg-gray-100 rounded shrink-0"
+                    title={isExpanded ? "Collapse group" : "Expand group"}
+                >
+                    {isExpanded ? (
+                        <ChevronDown className="w-4 h-4 text-gray-500" />
+                    ) : (
+                        <ChevronRight className="w-4 h-4 text-gray-500" />
+                    )}
+                </button>
+            )}
 
             {/* Icon */}
             <div
@@ -77,7 +110,9 @@ export const LayerItem = memo(function LayerItem({
                     : { background: '#f3f4f6' }
                 }
             >
-                {element.type === 'text' ? (
+                {isGroup ? (
+                    <Group className="w-4 h-4 text-gray-600" />
+                ) : element.type === 'text' ? (
                     <Type className="w-4 h-4 text-gray-600" />
                 ) : isCanvaBackground ? (
                     <Layers className="w-4 h-4 text-white" />
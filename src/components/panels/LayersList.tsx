@@ -1,6 +1,6 @@
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import {
     DragDropContext,
     Droppable,
@@ -16,10 +16,14 @@ import {
     Link2,
     Type,
     Image,
-    Layers
+    Layers,
+    Group,
+    ChevronRight,
+    ChevronDown
 } from 'lucide-react';
 import { useEditorStore } from '@/stores/editorStore';
-import { ImageElement, TextElement } from '@/types/editor';
+import { Element, ImageElement, TextElement } from '@/types/editor';
+import { buildLayerTree, LayerNode } from '@/lib/utils/groupOperations';
 import { cn } from '@/lib/utils';
 
 /**
@@ -34,14 +38,23 @@ export function LayersList() {
     // Selection from editorStore
     const selectedIds = useEditorStore((s) => s.selectedIds);
     const selectElement = useEditorStore((s) => s.selectElement);
-    const selectedId = selectedIds[0] || null;
 
     // History from editorStore
     const pushHistory = useEditorStore((s) => s.pushHistory);
     const reorderElements = useEditorStore((s) => s.reorderElements);
 
-    // Sort by zIndex descending (top to bottom = front to back)
-    const sortedElements = [...elements].sort((a, b) => b.zIndex - a.zIndex);
+    // Top-level layers front to back; groups list their members beneath them
+    const layerTree = buildLayerTree(elements);
+    const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
+
+    const toggleGroup = (id: string) => {
+        setExpandedGroups((prev) => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
 
     const saveHistory = () => {
         pushHistory();
@@ -51,6 +64,119 @@ export function LayersList() {
     const isCanvaBackground = (element: typeof elements[0]) =>
         element.type === 'image' && (element as ImageElement).isCanvaBackground;
 
+    const renderLayerIcon = (element: Element) => {
+        if (element.type === 'group') return <Group className="w-3 h-3 text-gray-600" />;
+        if (element.type === 'text') return <Type className="w-3 h-3 text-gray-600" />;
+        if (isCanvaBackground(element)) return <Layers className="w-3 h-3 text-white" />;
+        return <Image className="w-3 h-3 text-gray-600" />;
+    };
+
+    /**
+     * A layer row, followed by its members when it's an expanded group
+     * Only top-level rows get a drag handle - members move with their group.
+     */
+    const renderLayer = (node: LayerNode, depth: number, dragHandle?: React.ReactNode): React.ReactNode => {
+        const { element } = node;
+        const isGroup = element.type === 'group';
+        const isExpanded = expandedGroups.has(element.id);
+
+        return (
+            <React.Fragment key={element.id}>
+                <div
+                    className={cn(
+                        "flex items-center gap-2 px-2 py-2 rounded-lg cursor-pointer transition-all duration-150",
+                        "hover:bg-gray-50",
+                        selectedIds.includes(element.id)
+                            ? "bg-purple-50 border-l-2 border-l-purple-500"
+                            : isCanvaBackground(element)
+                                ? "bg-linear-to-r from-purple-50/50 to-cyan-50/50 border-l-2 border-l-purple-300"
+                                : "bg-white border-l-2 border-l-transparent"
+                    )}
+                    style={depth > 0 ? { paddingLeft: 8 + depth * 16 } : undefined}
+                    onClick={() => selectElement(element.id)}
+                >
+                    {dragHandle ?? <div className="w-3.5 shrink-0" />}
+
+                    {/* Expand/collapse group */}
+                    {isGroup ? (
+                        <button
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                toggleGroup(element.id);
+                            }}
+                            className="p-0.5 -mx-1 hover:bg-gray-100 rounded shrink-0"
+                            title={isExpanded ? "Collapse" : "Expand"}
+                        >
+                            {isExpanded ? (
+                                <ChevronDown className="w-3 h-3 text-gray-500" />
+                            ) : (
+                                <ChevronRight className="w-3 h-3 text-gray-500" />
+                            )}
+                        </button>
+                    ) : null}
+
+                    {/* Icon */}
+                    <div
+                        className="w-6 h-6 rounded flex items-center justify-center shrink-0"
+                        style={isCanvaBackground(element)
+                            ? { background: 'linear-gradient(135deg, #8B3DFF, #00C4CC)' }
+                            : { background: '#f3f4f6' }
+                        }
+                    >
+                        {renderLayerIcon(element)}
+                    </div>
+
+                    {/* Name */}
+                    <span className="flex-1 text-xs font-medium text-gray-700 truncate min-w-0">
+                        {element.name}
+                    </span>
+
+                    {/* Dynamic indicator */}
+                    {(element.type === 'text' || element.type === 'image') &&
+                        (element as TextElement | ImageElement).isDynamic && (
+                            <Link2 className="w-3 h-3 text-purple-500 shrink-0" />
+                        )}
+
+                    {/* Visibility Toggle */}
+                    <button
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            updateElement(element.id, { visible: !element.visible });
+                            saveHistory();
+                        }}
+                        className="p-1 hover:bg-gray-100 rounded transition-all duration-150 shrink-0"
+                        title={element.visible ? "Hide" : "Show"}
+                    >
+                        {element.visible ? (
+                            <Eye className="w-3.5 h-3.5 text-gray-500" />
+                        ) : (
+                            <EyeOff className="w-3.5 h-3.5 text-gray-400" />
+                        )}
+                    </button>
+
+                    {/* Lock Toggle */}
+                    <button
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            updateElement(element.id, { locked: !element.locked });
+                            saveHistory();
+                        }}
+                        className="p-1 hover:bg-gray-100 rounded transition-all duration-150 shrink-0"
+                        title={element.locked ? "Unlock" : "Lock"}
+                    >
+                        {element.locked ? (
+                            <Lock className="w-3.5 h-3.5 text-amber-500" />
+                        ) : (
+                            <Unlock className="w-3.5 h-3.5 text-gray-400" />
+                        )}
+                    </button>
+                </div>
+
+                {isGroup && isExpanded && node.children.map((child) => renderLayer(child, depth + 1))}
+            </React.Fragment>
+        );
+    };
+
     const handleDragEnd = (result: DropResult) => {
         if (!result.destination) return;
 
@@ -79,92 +205,19 @@ export function LayersList() {
             <Droppable droppableId="layers-list">
                 {(provided) => (
                     <div {...provided.droppableProps} ref={provided.innerRef} className="space-y-1">
-                        {sortedElements.map((element, index) => (
-                            <Draggable key={element.id} draggableId={element.id} index={index}>
+                        {layerTree.map((node, index) => (
+                            <Draggable key={node.element.id} draggableId={node.element.id} index={index}>
                                 {(provided, snapshot) => (
                                     <div
                                         ref={provided.innerRef}
                                         {...provided.draggableProps}
-                                        className={cn(
-                                            "flex items-center gap-2 px-2 py-2 rounded-lg cursor-pointer transition-all duration-150",
-                                            "hover:bg-gray-50",
-                                            selectedId === element.id
-                                                ? "bg-purple-50 border-l-2 border-l-purple-500"
-                                                : isCanvaBackground(element)
-                                                    ? "bg-linear-to-r from-purple-50/50 to-cyan-50/50 border-l-2 border-l-purple-300"
-                                                    : "bg-white border-l-2 border-l-transparent",
-                                            snapshot.isDragging && "shadow-lg scale-[1.02] bg-purple-50"
-                                        )}
-                                        onClick={() => selectElement(element.id)}
+                                        className={cn("space-y-1 rounded-lg", snapshot.isDragging && "shadow-lg scale-[1.02]")}
                                     >
-                                        {/* Drag Handle */}
-                                        <div {...provided.dragHandleProps} className="cursor-grab active:cursor-grabbing">
-                                            <GripVertical className="w-3.5 h-3.5 text-gray-400" />
-                                        </div>
-
-                                        {/* Icon */}
-                                        <div
-                                            className="w-6 h-6 rounded flex items-center justify-center shrink-0"
-                                            style={isCanvaBackground(element)
-                                                ? { background: 'linear-gradient(135deg, #8B3DFF, #00C4CC)' }
-                                                : { background: '#f3f4f6' }
-                                            }
-                                        >
-                                            {element.type === 'text' ? (
-                                                <Type className="w-3 h-3 text-gray-600" />
-                                            ) : isCanvaBackground(element) ? (
-                                                <Layers className="w-3 h-3 text-white" />
-                                            ) : (
-                                                <Image className="w-3 h-3 text-gray-600" />
-                                            )}
-                                        </div>
-
-                                        {/* Name */}
-                                        <span className="flex-1 text-xs font-medium text-gray-700 truncate min-w-0">
-                                            {element.name}
-                                        </span>
-
-                                        {/* Dynamic indicator */}
-                                        {(element.type === 'text' || element.type === 'image') &&
-                                            (element as TextElement | ImageElement).isDynamic && (
-                                                <Link2 className="w-3 h-3 text-purple-500 shrink-0" />
-                                            )}
-
-                                        {/* Visibility Toggle */}
-                                        <button
-                                            onClick={(e) => {
-                                                e.stopPropagation();
-                                                updateElement(element.id, { visible: !element.visible });
-                                                saveHistory();
-                                            }}
-                                            className="p-1 hover:bg-gray-100 rounded transition-all duration-150 shrink-0"
-                                            title={element.visible ? "Hide" : "Show"}
-                                        >
-                                            {element.visible ? (
-                                                <Eye className="w-3.5 h-3.5 text-gray-500" />
-                                            ) : (
-                                                <EyeOff className="w-3.5 h-3.5 text-gray-400" />
-                                            )}
-                                        </button>
-
-                                        {/* Lock Toggle */}
-                                        <button
-                                            onClick={(e) => {
-                                                e.stopPropagation();
-                                                updateElement(element.id, { locked: !element.locked });
-                                                saveHistory();
-                                            }}
-                                            className="p-1 hover:bg-gray-100 rounded transition-all duration-150 shrink-0"
-                                            title={element.locked ? "Unlock" : "Lock"}
-                                        >
-                                            {element.locked ? (
-                                                <Lock className="w-3.5 h-3.5 text-amber-500" />
-                                            ) : (
-                                                <Unlock className="w-3.5 h-3.5 text-gray-400" />
-                                            )}
-                                        </button>
-
-                                        {/* More actions on hover could be added here */}
+                                        {renderLayer(node, 0, (
+                                            <div {...provided.dragHandleProps} className="cursor-grab active:cursor-grabbing">
+                                                <GripVertical className="w-3.5 h-3.5 text-gray-400" />
+                                            </div>
+                                        ))}
                                     </div>
                                 )}
                             </Draggable>
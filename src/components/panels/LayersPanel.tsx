@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useCallback } from 'react';
+import React, { useCallback, useState } from 'react';
 import {
     DragDropContext,
     Droppable,
@@ -8,6 +8,7 @@ import {
     DropResult
 } from '@hello-pangea/dnd';
 import { useEditorStore } from '@/stores/editorStore';
+import { buildLayerTree, LayerNode } from '@/lib/utils/groupOperations';
 import { LayerItem } from './LayerItem';
 
 /**
@@ -28,14 +29,23 @@ export function LayersPanel() {
     // Selection from editorStore
     const selectedIds = useEditorStore((s) => s.selectedIds);
     const selectElement = useEditorStore((s) => s.selectElement);
-    const selectedId = selectedIds[0] || null;
 
     // History from editorStore
     const pushHistory = useEditorStore((s) => s.pushHistory);
     const reorderElements = useEditorStore((s) => s.reorderElements);
 
-    // Sort by zIndex descending (top to bottom = front to back)
-    const sortedElements = [...elements].sort((a, b) => b.zIndex - a.zIndex);
+    // Top-level layers front to back; groups list their members beneath them
+    const layerTree = buildLayerTree(elements);
+    const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
+
+    const handleToggleExpand = useCallback((id: string) => {
+        setExpandedGroups((prev) => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    }, []);
 
     // Memoized callbacks for LayerItem
     const handleSaveHistory = useCallback(() => {
@@ -58,6 +68,28 @@ export function LayersPanel() {
         duplicateElement(id);
     }, [duplicateElement]);
 
+    // Members of expanded groups, indented beneath the group's row
+    const renderMembers = (node: LayerNode, depth: number): React.ReactNode => {
+        if (node.element.type !== 'group' || !expandedGroups.has(node.element.id)) return null;
+        return node.children.map((child) => (
+            <React.Fragment key={child.element.id}>
+                <LayerItem
+                    element={child.element}
+                    isSelected={selectedIds.includes(child.element.id)}
+                    depth={depth}
+                    isExpanded={expandedGroups.has(child.element.id)}
+                    onToggleExpand={handleToggleExpand}
+                    onSelect={handleSelect}
+                    onUpdateElement={handleUpdateElement}
+                    onDeleteElement={handleDeleteElement}
+                    onDuplicateElement={handleDuplicateElement}
+                    onSaveHistory={handleSaveHistory}
+                />
+                {renderMembers(child, depth + 1)}
+            </React.Fragment>
+        ));
+    };
+
     const handleDragEnd = useCallback((result: DropResult) => {
         if (!result.destination) return;
 
@@ -91,20 +123,29 @@ export function LayersPanel() {
                 <Droppable droppableId="layers">
                     {(provided) => (
                         <div {...provided.droppableProps} ref={provided.innerRef} className="space-y-1">
-                            {sortedElements.map((element, index) => (
-                                <Draggable key={element.id} draggableId={element.id} index={index}>
+                            {layerTree.map((node, index) => (
+                                <Draggable key={node.element.id} draggableId={node.element.id} index={index}>
                                     {(dragProvided, dragSnapshot) => (
-                                        <LayerItem
-                                            element={element}
-                                            isSelected={selectedId === element.id}
-                                            provided={dragProvided}
-                                            snapshot={dragSnapshot}
-                                            onSelect={handleSelect}
-                                            onUpdateElement={handleUpdateElement}
-                                            onDeleteElement={handleDeleteElement}
-                                            onDuplicateElement={handleDuplicateElement}
-                                            onSaveHistory={handleSaveHistory}
-                                        />
+                                        <div
+                                            ref={dragProvided.innerRef}
+                                            {...dragProvided.draggableProps}
+                                            className="space-y-1"
+                                        >
+                                            <LayerItem
+                                                element={node.element}
+                                                isSelected={selectedIds.includes(node.element.id)}
+                                                dragHandleProps={dragProvided.dragHandleProps}
+                                                isDragging={dragSnapshot.isDragging}
+                                                isExpanded={expandedGroups.has(node.element.id)}
+                                                onToggleExpand={handleToggleExpand}
+                                                onSelect={handleSelect}
+                                                onUpdateElement={handleUpdateElement}
+                                                onDeleteElement={handleDeleteElement}
+                                                onDuplicateElement={handleDuplicateElement}
+                                                onSaveHistory={handleSaveHistory}
+                                            />
+                                            {renderMembers(node, 1)}
+                                        </div>
                                     )}
                                 </Draggable>
                             ))}
@@ -9,6 +9,8 @@ import {
     TextPropertiesSection,
     ImagePropertiesSection,
     TypographySection,
+    VisibilitySection,
+    StyleBindingsSection,
 } from './properties';
 
 /**
@@ -19,6 +21,8 @@ import {
  * - Appearance (opacity)
  * - Text properties (font, size, color, etc.)
  * - Image properties
+ * - Data styles (colors/opacity from CSV columns)
+ * - Visibility rule (show/hide per CSV row)
  * 
  * NOTE: Layer order, alignment, and position controls are in the Arrange tab
  */
@@ -72,6 +76,12 @@ export function PropertiesPanel() {
                 <ImagePropertiesSection element={selectedElement as ImageElement} />
             )}
 
+            {/* Colors and opacity from CSV columns */}
+            <StyleBindingsSection element={selectedElement} />
+
+            {/* Visibility rule */}
+            <VisibilitySection element={selectedElement} />
+
             {/* Hint to use Arrange tab */}
             <div className="text-center py-3 text-xs text-gray-400 border-t border-gray-100">
                 Use the <strong>Arrange</strong> tab for layer order, alignment, and position
@@ -1,9 +1,10 @@
 'use client';
 
-import React, { memo, useCallback } from 'react';
+import React, { memo, useCallback, useRef, useState } from 'react';
 import { ImageElement } from '@/types/editor';
 import { SectionHeader } from './shared';
 import { useEditorStore } from '@/stores/editorStore';
+import { DEFAULT_FOCAL_POINT, FocalPoint, getCoverPlacement, getFocalPointField } from '@/lib/fabric/image-shared';
 import { 
     Maximize2, 
     Minimize2, 
@@ -37,11 +38,103 @@ const fitModeOptions: { value: FitMode; label: string; icon: React.ReactNode; de
     },
 ];
 
+const inputClassName = "w-full h-8 px-2 border border-gray-200 rounded-lg text-xs bg-white focus:border-blue-400 focus:ring-2 focus:ring-blue-100 outline-none transition-all duration-150";
+
+/**
+ * FocalPointPicker - drag a dot over the image to choose what 'cover' keeps in view
+ * The outline shows the part of the image the frame will show.
+ */
+function FocalPointPicker({
+    element,
+    disabled,
+    onChange,
+    onCommit,
+}: {
+    element: ImageElement;
+    disabled: boolean;
+    onChange: (point: FocalPoint) => void;
+    onCommit: () => void;
+}) {
+    const areaRef = useRef<HTMLDivElement>(null);
+    const [natural, setNatural] = useState<{ width: number; height: number } | null>(null);
+    const focalPoint = element.focalPoint ?? DEFAULT_FOCAL_POINT;
+
+    // Dynamic and templated URLs only resolve per row, so fall back to a frame-shaped box
+    const previewUrl = !element.isDynamic && element.imageUrl && !element.imageUrl.includes('{{') ? element.imageUrl : '';
+    const imageSize = previewUrl && natural ? natural : { width: element.width, height: element.height };
+
+    const pointFromEvent = (e: React.PointerEvent) => {
+        const rect = areaRef.current?.getBoundingClientRect();
+        if (!rect || rect.width === 0 || rect.height === 0) return;
+        const clampPercent = (value: number) => Math.round(Math.min(100, Math.max(0, value)));
+        onChange({
+            x: clampPercent(((e.clientX - rect.left) / rect.width) * 100),
+            y: clampPercent(((e.clientY - rect.top) / rect.height) * 100),
+        });
+    };
+
+    const handlePointerDown = (e: React.PointerEvent) => {
+        if (disabled) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        pointFromEvent(e);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        if (disabled || !e.currentTarget.hasPointerCapture(e.pointerId)) return;
+        pointFromEvent(e);
+    };
+
+    const handlePointerUp = (e: React.PointerEvent) => {
+        if (disabled || !e.currentTarget.hasPointerCapture(e.pointerId)) return;
+        e.currentTarget.releasePointerCapture(e.pointerId);
+        onCommit();
+    };
+
+    // Visible window in % of the image
+    const { scale, offsetX, offsetY } = getCoverPlacement(imageSize.width, imageSize.height, element.width, element.height, focalPoint);
+    const crop = {
+        left: (offsetX / (imageSize.width * scale)) * 100,
+        top: (offsetY / (imageSize.height * scale)) * 100,
+        width: (element.width / (imageSize.width * scale)) * 100,
+        height: (element.height / (imageSize.height * scale)) * 100,
+    };
+
+    return (
+        <div
+            ref={areaRef}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            className={`relative w-full overflow-hidden rounded-md border border-gray-200 bg-gray-100 select-none touch-none ${disabled ? 'opacity-50' : 'cursor-crosshair'}`}
+            style={{ aspectRatio: `${imageSize.width} / ${imageSize.height}` }}
+        >
+            {previewUrl && (
+                <img
+                    src={previewUrl}
+                    alt=""
+                    draggable={false}
+                    onLoad={(e) => setNatural({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                    className="absolute inset-0 w-full h-full pointer-events-none"
+                />
+            )}
+            <div
+                className="absolute border-2 border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.35)] pointer-events-none"
+                style={{ left: `${crop.left}%`, top: `${crop.top}%`, width: `${crop.width}%`, height: `${crop.height}%` }}
+            />
+            <div
+                className="absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-full bg-blue-500 border-2 border-white shadow pointer-events-none"
+                style={{ left: `${focalPoint.x}%`, top: `${focalPoint.y}%` }}
+            />
+        </div>
+    );
+}
+
 /**
  * ImagePropertiesSection - Image-specific controls including fit mode
  */
 export const ImagePropertiesSection = memo(function ImagePropertiesSection({ element }: ImagePropertiesSectionProps) {
     const updateElement = useEditorStore((state) => state.updateElement);
+    const pushHistory = useEditorStore((state) => state.pushHistory);
     
     // Subscribe to editorStore to get live updates when fitMode changes
     const currentElement = useEditorStore((state) => 
@@ -52,9 +145,14 @@ export const ImagePropertiesSection = memo(function ImagePropertiesSection({ ele
         updateElement(element.id, { fitMode: mode });
     }, [element.id, updateElement]);
     
+    const handleFocalPointChange = useCallback((point: FocalPoint) => {
+        updateElement(element.id, { focalPoint: point });
+    }, [element.id, updateElement]);
+    
     // Use live element from store, fallback to prop
     const liveElement = currentElement || element;
     const currentFitMode = liveElement.fitMode || 'contain';
+    const focusColumn = getFocalPointField({ ...liveElement, focalPointField: undefined });
     
     return (
         <div className="space-y-4">
@@ -88,6 +186,50 @@ export const ImagePropertiesSection = memo(function ImagePropertiesSection({ ele
                 </p>
             </div>
             
+            {/* Focal Point (cover only) */}
+            {currentFitMode === 'cover' && (
+                <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                        <label className="text-xs font-medium text-gray-600">Focal Point</label>
+                        <span className="text-[10px] text-gray-400">
+                            {liveElement.smartCrop
+                                ? 'Smart'
+                                : `${(liveElement.focalPoint ?? DEFAULT_FOCAL_POINT).x}%, ${(liveElement.focalPoint ?? DEFAULT_FOCAL_POINT).y}%`}
+                        </span>
+                    </div>
+                    <FocalPointPicker
+                        element={liveElement}
+                        disabled={!!liveElement.smartCrop}
+                        onChange={handleFocalPointChange}
+                        onCommit={pushHistory}
+                    />
+                    <label className="flex items-center gap-2 text-xs text-gray-600 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={!!liveElement.smartCrop}
+                            onChange={(e) => {
+                                updateElement(element.id, { smartCrop: e.target.checked });
+                                pushHistory();
+                            }}
+                            className="accent-blue-600"
+                        />
+                        Smart crop (find the subject in each row&apos;s image)
+                    </label>
+                    <input
+                        type="text"
+                        value={liveElement.focalPointField || ''}
+                        onChange={(e) => updateElement(element.id, { focalPointField: e.target.value || undefined })}
+                        onBlur={() => pushHistory()}
+                        placeholder={focusColumn ? `Per-row column, e.g. ${focusColumn}` : 'Per-row column, e.g. image_focus'}
+                        aria-label="Focal point column"
+                        className={inputClassName}
+                    />
+                    <p className="text-[10px] text-gray-400">
+                        Column values like &quot;30,70&quot;, &quot;top left&quot; or &quot;smart&quot; override this per row.
+                    </p>
+                </div>
+            )}
+            
             {/* Dynamic Image Indicator */}
             {liveElement.isDynamic && (
                 <div className="flex items-center gap-2 p-2 bg-purple-50 rounded-md border border-purple-200">
@@ -0,0 +1,184 @@
+'use client';
+
+import React, { memo, useMemo } from 'react';
+import { Link2, Link2Off } from 'lucide-react';
+import { useEditorStore } from '@/stores/editorStore';
+import { Element, StyleBinding, StyleBindingProperty, TextElement } from '@/types/editor';
+import { cn } from '@/lib/utils';
+import {
+    BINDABLE_STYLE_PROPERTIES,
+    getStyleValueKind,
+    isValidStyleValue,
+    resolveStyleBindings,
+} from '@/lib/fabric/style-shared';
+import { extractTemplateFields } from '@/lib/fabric/expression-shared';
+import { SectionHeader } from './shared';
+
+interface StyleBindingsSectionProps {
+    element: Element;
+}
+
+const PROPERTY_LABELS: Record<StyleBindingProperty, string> = {
+    fill: 'Fill color',
+    backgroundColor: 'Text box color',
+    opacity: 'Opacity',
+};
+
+const inputClassName = "flex-1 min-w-0 h-8 px-2 border border-gray-200 rounded-lg text-xs bg-white focus:border-blue-400 focus:ring-2 focus:ring-blue-100 outline-none transition-all duration-150";
+
+export const StyleBindingsSection = memo(function StyleBindingsSection({ element }: StyleBindingsSectionProps) {
+    const updateElement = useEditorStore((s) => s.updateElement);
+    const pushHistory = useEditorStore((s) => s.pushHistory);
+    const elements = useEditorStore((s) => s.elements);
+    const previewMode = useEditorStore((s) => s.previewMode);
+    const previewRows = useEditorStore((s) => s.previewRows);
+    const previewRowIndex = useEditorStore((s) => s.previewRowIndex);
+
+    const bindings = element.styleBindings || {};
+    const previewRow = previewMode ? previewRows[previewRowIndex] : undefined;
+    const resolved = previewRow ? resolveStyleBindings(element, previewRow) : {};
+
+    // Suggest {{fields}} used in text layers and columns of the loaded sample rows
+    const fieldSuggestions = useMemo(() => {
+        const fields = new Set<string>();
+        elements.forEach((el) => {
+            if (el.type !== 'text') return;
+            extractTemplateFields((el as TextElement).text).forEach((field) => fields.add(field));
+        });
+        Object.keys(previewRows[0] || {}).forEach((column) => fields.add(column));
+        return Array.from(fields).sort((a, b) => a.localeCompare(b));
+    }, [elements, previewRows]);
+
+    const setBinding = (property: StyleBindingProperty, binding: StyleBinding | undefined) => {
+        const next = { ...bindings };
+        if (binding) next[property] = binding;
+        else delete next[property];
+        updateElement(element.id, { styleBindings: Object.keys(next).length > 0 ? next : undefined });
+    };
+
+    const datalistId = `style-fields-${element.id}`;
+
+    return (
+        <div>
+            <SectionHeader title="DATA STYLES" />
+
+            <datalist id={datalistId}>
+                {fieldSuggestions.map((field) => (
+                    <option key={field} value={field} />
+                ))}
+            </datalist>
+
+            <div className="space-y-3">
+                {BINDABLE_STYLE_PROPERTIES[element.type].map((property) => {
+                    const binding = bindings[property];
+                    const kind = getStyleValueKind(property);
+                    const fallbackInvalid = !!binding?.fallback && !isValidStyleValue(kind, binding.fallback);
+                    const previewValue = resolved[property];
+
+                    return (
+                        <div key={property} className="space-y-1.5">
+                            <div className="flex items-center justify-between">
+                                <label className="text-sm text-gray-600">{PROPERTY_LABELS[property]}</label>
+                                <button
+                                    onClick={() => {
+                                        setBinding(property, binding ? undefined : { field: fieldSuggestions[0] || '' });
+                                        pushHistory();
+                                    }}
+                                    title={binding ? 'Use a fixed value' : 'Read from a CSV column'}
+                                    className={cn(
+                                        "flex items-center gap-1 text-xs font-medium",
+                                        binding ? "text-purple-600 hover:text-purple-700" : "text-gray-400 hover:text-gray-600"
+                                    )}
+                                >
+                                    {binding ? <Link2 className="w-3.5 h-3.5" /> : <Link2Off className="w-3.5 h-3.5" />}
+                                    {binding ? 'From column' : 'Fixed'}
+                                </button>
+                            </div>
+
+                            {/* Fixed box color for text (the other properties have their own controls) */}
+                            {!binding && property === 'backgroundColor' && element.type === 'text' && (
+                                <div className="flex items-center gap-2">
+                                    <input
+                                        type="color"
+                                        value={(element as TextElement).backgroundColor || '#ffffff'}
+                                        onChange={(e) => updateElement(element.id, { backgroundColor: e.target.value })}
+                                        onBlur={() => pushHistory()}
+                                        aria-label="Text box color"
+                                        className="w-8 h-8 rounded cursor-pointer border border-gray-200"
+                                    />
+                                    {(element as TextElement).backgroundColor ? (
+                                        <button
+                                            onClick={() => {
+                                                updateElement(element.id, { backgroundColor: undefined });
+                                                pushHistory();
+                                            }}
+                                            className="text-xs text-gray-500 hover:text-gray-700"
+                                        >
+                                            Remove
+                                        </button>
+                                    ) : (
+                                        <span className="text-xs text-gray-400">None</span>
+                                    )}
+                                </div>
+                            )}
+
+                            {binding && (
+                                <>
+                                    <div className="flex items-center gap-2">
+                                        <input
+                                            type="text"
+                                            list={datalistId}
+                                            value={binding.field}
+                                            onChange={(e) => setBinding(property, { ...binding, field: e.target.value })}
+                                            onBlur={() => pushHistory()}
+                                            placeholder="Column, e.g. accent_color"
+                                            aria-label={`${PROPERTY_LABELS[property]} column`}
+                                            className={inputClassName}
+                                        />
+                                        <input
+                                            type="text"
+                                            value={binding.fallback ?? ''}
+                                            onChange={(e) => setBinding(property, { ...binding, fallback: e.target.value || undefined })}
+                                            onBlur={() => pushHistory()}
+                                            placeholder={kind === 'color' ? 'Fallback #hex' : 'Fallback 0-1'}
+                                            aria-label={`${PROPERTY_LABELS[property]} fallback`}
+                                            className={cn(inputClassName, "max-w-[96px]", fallbackInvalid && "border-red-300")}
+                                        />
+                                    </div>
+
+                                    {fallbackInvalid ? (
+                                        <p className="text-[10px] text-red-600">
+                                            {kind === 'color'
+                                                ? 'Fallback must be a hex (#ff6600) or rgb(255, 102, 0) color'
+                                                : 'Fallback must be between 0 and 1, or a percentage'}
+                                        </p>
+                                    ) : previewRow ? (
+                                        <p className="flex items-center gap-1.5 text-[10px] text-gray-500">
+                                            Row {previewRowIndex + 1}:
+                                            {previewValue === undefined ? (
+                                                <span>no valid value - element&apos;s own</span>
+                                            ) : kind === 'color' ? (
+                                                <>
+                                                    <span className="w-3 h-3 rounded border border-gray-200" style={{ backgroundColor: String(previewValue) }} />
+                                                    <code className="font-mono">{previewValue}</code>
+                                                </>
+                                            ) : (
+                                                <span>{Math.round(Number(previewValue) * 100)}%</span>
+                                            )}
+                                        </p>
+                                    ) : (
+                                        <p className="text-[10px] text-gray-400">
+                                            {kind === 'color'
+                                                ? 'Column values: #hex or rgb()/rgba()'
+                                                : 'Column values: 0-1 or a percentage'}
+                                        </p>
+                                    )}
+                                </>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+});
@@ -1,13 +1,14 @@
 'use client';
 
 import React, { memo, useCallback, useState, useEffect, useMemo } from 'react';
-import { AlignLeft, AlignCenter, AlignRight, Zap, Eye, EyeOff } from 'lucide-react';
+import { AlignLeft, AlignCenter, AlignRight, Zap, Eye, EyeOff, AlertCircle } from 'lucide-react';
 import { useEditorStore } from '@/stores/editorStore';
 import { TextElement } from '@/types/editor';
 import { cn } from '@/lib/utils';
 import { SectionHeader } from './shared';
 import { applyAutoFitDirect, getGlobalCanvasManager } from '@/lib/canvas/CanvasManager';
 import { calculateBestFitFontSize } from '@/lib/canvas/AutoFitText';
+import { validateTemplate, extractTemplateFields, EXPRESSION_FILTERS } from '@/lib/fabric/expression-shared';
 
 interface TextPropertiesSectionProps {
     element: TextElement;
@@ -98,6 +99,23 @@ export const TextPropertiesSection = memo(function TextPropertiesSection({ eleme
         updateElement(element.id, updates);
     }, [element.id, updateElement]);
 
+    // Filters of a single-tag dynamic text: "{{price | currency:'USD'}}" -> "currency:'USD'"
+    const dynamicFilters = useMemo(() => {
+        const match = /^\{\{[^|}]*\|([\s\S]*)\}\}$/.exec(liveElement.text.trim());
+        return match ? match[1].trim() : '';
+    }, [liveElement.text]);
+
+    const buildDynamicText = (fieldName: string, filters: string) =>
+        filters.trim() ? `{{${fieldName} | ${filters.trim()}}}` : `{{${fieldName}}}`;
+
+    // Parse errors in {{ }} tags, and fields the loaded sample rows don't have
+    const previewColumns = useEditorStore((s) => s.previewRows[0]);
+    const expressionErrors = useMemo(() => validateTemplate(liveElement.text), [liveElement.text]);
+    const unknownFields = useMemo(() => {
+        if (!previewColumns) return [];
+        return extractTemplateFields(liveElement.text).filter((field) => !(field in previewColumns));
+    }, [liveElement.text, previewColumns]);
+
     const handleDynamicToggle = useCallback((isDynamic: boolean) => {
         if (isDynamic) {
             // When enabling dynamic, ensure we have a placeholder
@@ -158,12 +176,23 @@ export const TextPropertiesSection = memo(function TextPropertiesSection({ eleme
                                 const fieldName = e.target.value;
                                 handleChange({ 
                                     dynamicField: fieldName,
-                                    text: `{{${fieldName}}}`
+                                    text: buildDynamicText(fieldName, dynamicFilters)
                                 });
                             }}
                             className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:border-purple-400 focus:ring-2 focus:ring-purple-100 outline-none"
                             placeholder="text1"
                         />
+
+                        <label className="text-xs text-gray-500">Format</label>
+                        <input
+                            type="text"
+                            value={dynamicFilters}
+                            onChange={(e) => handleChange({
+                                text: buildDynamicText(liveElement.dynamicField || '', e.target.value)
+                            })}
+                            className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm font-mono focus:border-purple-400 focus:ring-2 focus:ring-purple-100 outline-none"
+                            placeholder="truncate:60 | default:'Our pick'"
+                        />
                     </div>
                 )}
 
@@ -214,6 +243,42 @@ export const TextPropertiesSection = memo(function TextPropertiesSection({ eleme
                     </div>
                 )}
 
+                {/* Expression errors and hints */}
+                {expressionErrors.length > 0 && (
+                    <div className="space-y-1 p-2 bg-red-50 rounded-md border border-red-200">
+                        {expressionErrors.map((error) => (
+                            <div key={error.index} className="flex items-start gap-1.5 text-xs text-red-700">
+                                <AlertCircle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+                                <span>
+                                    <code className="font-mono">{error.tag}</code> {error.message}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {unknownFields.length > 0 && (
+                    <p className="text-xs text-amber-600">
+                        Not in the sample rows: {unknownFields.join(', ')} - renders empty unless mapped
+                    </p>
+                )}
+
+                {hasPlaceholder && (
+                    <details className="text-xs text-gray-500">
+                        <summary className="cursor-pointer select-none">Filters</summary>
+                        <ul className="mt-1.5 space-y-1">
+                            {EXPRESSION_FILTERS.map((filter) => (
+                                <li key={filter.name}>
+                                    <code className="font-mono text-purple-600">{filter.usage}</code> {filter.description}
+                                </li>
+                            ))}
+                        </ul>
+                        <p className="mt-1.5 text-gray-400">
+                            Chain with |, e.g. {'{{title | truncate:60 | upper}}'}. In {'{{a}} – {{b}}'} the dash only shows when both have values.
+                        </p>
+                    </details>
+                )}
+
                 {/* Text Alignment */}
                 <div className="grid grid-cols-3 gap-2">
                     <button
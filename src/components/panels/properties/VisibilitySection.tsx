@@ -0,0 +1,158 @@
+'use client';
+
+import React, { memo, useMemo } from 'react';
+import { useEditorStore } from '@/stores/editorStore';
+import { Element, TextElement, VisibilityOperator, VisibilityRule } from '@/types/editor';
+import { isElementVisibleForRow } from '@/lib/fabric/visibility-shared';
+import { extractTemplateFields } from '@/lib/fabric/expression-shared';
+import { SectionHeader } from './shared';
+
+interface VisibilitySectionProps {
+    element: Element;
+}
+
+const OPERATORS: { value: VisibilityOperator; label: string; needsValue: boolean }[] = [
+    { value: 'is_not_empty', label: 'is not empty', needsValue: false },
+    { value: 'is_empty', label: 'is empty', needsValue: false },
+    { value: 'equals', label: 'equals', needsValue: true },
+    { value: 'not_equals', label: 'does not equal', needsValue: true },
+    { value: 'contains', label: 'contains', needsValue: true },
+    { value: 'greater_than', label: 'is greater than', needsValue: true },
+    { value: 'less_than', label: 'is less than', needsValue: true },
+];
+
+const inputClassName = "flex-1 min-w-0 h-9 px-3 border border-gray-200 rounded-lg text-sm bg-white focus:border-blue-400 focus:ring-2 focus:ring-blue-100 outline-none transition-all duration-150";
+
+export const VisibilitySection = memo(function VisibilitySection({ element }: VisibilitySectionProps) {
+    const updateElement = useEditorStore((s) => s.updateElement);
+    const pushHistory = useEditorStore((s) => s.pushHistory);
+    const elements = useEditorStore((s) => s.elements);
+    const previewMode = useEditorStore((s) => s.previewMode);
+    const previewRows = useEditorStore((s) => s.previewRows);
+    const previewRowIndex = useEditorStore((s) => s.previewRowIndex);
+
+    const rule = element.visibilityRule;
+
+    // Suggest {{fields}} used in text layers and columns of the loaded sample rows
+    const fieldSuggestions = useMemo(() => {
+        const fields = new Set<string>();
+        elements.forEach((el) => {
+            if (el.type !== 'text') return;
+            extractTemplateFields((el as TextElement).text).forEach((field) => fields.add(field));
+        });
+        Object.keys(previewRows[0] || {}).forEach((column) => fields.add(column));
+        return Array.from(fields).sort((a, b) => a.localeCompare(b));
+    }, [elements, previewRows]);
+
+    const updateRule = (updates: Partial<VisibilityRule>) => {
+        if (!rule) return;
+        updateElement(element.id, { visibilityRule: { ...rule, ...updates } });
+    };
+
+    const toggleRule = (enabled: boolean) => {
+        updateElement(element.id, {
+            visibilityRule: enabled
+                ? { action: 'show', field: fieldSuggestions[0] || '', operator: 'is_not_empty' }
+                : undefined,
+        });
+        pushHistory();
+    };
+
+    const operator = OPERATORS.find((o) => o.value === rule?.operator);
+    const previewRow = previewRows[previewRowIndex];
+
+    return (
+        <div>
+            <SectionHeader title="VISIBILITY" />
+
+            <div className="space-y-3">
+                <label className="flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={!!rule}
+                        onChange={(e) => toggleRule(e.target.checked)}
+                        className="accent-blue-600"
+                    />
+                    Only show for some rows
+                </label>
+
+                {rule && (
+                    <>
+                        <div className="flex items-center gap-2">
+                            <select
+                                value={rule.action}
+                                onChange={(e) => {
+                                    updateRule({ action: e.target.value as VisibilityRule['action'] });
+                                    pushHistory();
+                                }}
+                                aria-label="Action"
+                                className={inputClassName}
+                            >
+                                <option value="show">Show when</option>
+                                <option value="hide">Hide when</option>
+                            </select>
+                        </div>
+
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="text"
+                                list={`visibility-fields-${element.id}`}
+                                value={rule.field}
+                                onChange={(e) => updateRule({ field: e.target.value })}
+                                onBlur={() => pushHistory()}
+                                placeholder="Field, e.g. price"
+                                aria-label="Field"
+                                className={inputClassName}
+                            />
+                            <datalist id={`visibility-fields-${element.id}`}>
+                                {fieldSuggestions.map((field) => (
+                                    <option key={field} value={field} />
+                                ))}
+                            </datalist>
+                        </div>
+
+                        <div className="flex items-center gap-2">
+                            <select
+                                value={rule.operator}
+                                onChange={(e) => {
+                                    updateRule({ operator: e.target.value as VisibilityOperator });
+                                    pushHistory();
+                                }}
+                                aria-label="Condition"
+                                className={inputClassName}
+                            >
+                                {OPERATORS.map((o) => (
+                                    <option key={o.value} value={o.value}>{o.label}</option>
+                                ))}
+                            </select>
+                        </div>
+
+                        {operator?.needsValue && (
+                            <div className="flex items-center gap-2">
+                                <input
+                                    type="text"
+                                    value={rule.value ?? ''}
+                                    onChange={(e) => updateRule({ value: e.target.value })}
+                                    onBlur={() => pushHistory()}
+                                    placeholder="Value"
+                                    aria-label="Value"
+                                    className={inputClassName}
+                                />
+                            </div>
+                        )}
+
+                        {previewMode && previewRow ? (
+                            <p className="text-xs text-gray-500">
+                                Row {previewRowIndex + 1}: {isElementVisibleForRow(element, previewRow) ? 'shown' : 'hidden'}
+                            </p>
+                        ) : (
+                            <p className="text-xs text-gray-400">
+                                Turn on Preview and load sample rows to check this rule
+                            </p>
+                        )}
+                    </>
+                )}
+            </div>
+        </div>
+    );
+});
@@ -7,4 +7,6 @@ export { DynamicDataSection } from './DynamicDataSection';
 export { TextPropertiesSection } from './TextPropertiesSection';
 export { ImagePropertiesSection } from './ImagePropertiesSection';
 export { TypographySection } from './TypographySection';
+export { VisibilitySection } from './VisibilitySection';
+export { StyleBindingsSection } from './StyleBindingsSection';
 export { PropertyInput, StyleButton, Accordion, SliderRow, SectionHeader } from './shared';
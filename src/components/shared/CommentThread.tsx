@@ -0,0 +1,210 @@
+'use client';
+
+import React, { useState } from 'react';
+import { CheckCircle2, RotateCcw, Trash2, Loader2, Send } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useAuth } from '@/lib/auth/AuthContext';
+import { DbComment } from '@/types/database.types';
+import { CommentThread as Thread } from '@/lib/review/comments';
+import {
+    CommentAuthor,
+    CommentScope,
+    useCreateComment,
+    useDeleteComment,
+    useResolveComment,
+} from '@/hooks/useComments';
+
+// ============================================
+// Composer
+// ============================================
+
+interface CommentComposerProps {
+    placeholder?: string;
+    isPosting: boolean;
+    onSubmit: (body: string) => Promise<unknown>;
+    onCancel?: () => void;
+    autoFocus?: boolean;
+}
+
+/**
+ * Text box for a new comment or reply (Cmd/Ctrl+Enter posts)
+ */
+export function CommentComposer({ placeholder = 'Add a comment...', isPosting, onSubmit, onCancel, autoFocus }: CommentComposerProps) {
+    const [body, setBody] = useState('');
+
+    const submit = async () => {
+        if (!body.trim() || isPosting) return;
+        const posted = await onSubmit(body).then(() => true, () => false);
+        if (posted) setBody('');
+    };
+
+    return (
+        <div className="space-y-2">
+            <textarea
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                onKeyDown={(e) => {
+                    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) submit();
+                    if (e.key === 'Escape') onCancel?.();
+                }}
+                placeholder={placeholder}
+                maxLength={2000}
+                rows={2}
+                autoFocus={autoFocus}
+                className="w-full px-3 py-2 rounded-lg border border-gray-200 text-sm resize-none outline-none focus:ring-2 focus:ring-primary-creative/20"
+            />
+            <div className="flex justify-end gap-2">
+                {onCancel && (
+                    <button
+                        onClick={onCancel}
+                        className="px-3 py-1.5 rounded-lg text-xs font-medium text-gray-600 hover:bg-gray-100"
+                    >
+                        Cancel
+                    </button>
+                )}
+                <button
+                    onClick={submit}
+                    disabled={!body.trim() || isPosting}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-primary-creative text-white text-xs font-medium hover:opacity-90 disabled:opacity-50"
+                >
+                    {isPosting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Send className="w-3.5 h-3.5" />}
+                    Post
+                </button>
+            </div>
+        </div>
+    );
+}
+
+// ============================================
+// Thread
+// ============================================
+
+function CommentBody({
+    comment,
+    author,
+    canDelete,
+    onDelete,
+}: {
+    comment: DbComment;
+    author: CommentAuthor | undefined;
+    canDelete: boolean;
+    onDelete: () => void;
+}) {
+    const name = author?.name ?? 'Former member';
+
+    return (
+        <div className="group/comment flex gap-2">
+            <div className="w-6 h-6 shrink-0 rounded-full bg-gray-100 overflow-hidden flex items-center justify-center text-[10px] font-bold text-gray-600">
+                {author?.avatarUrl ? (
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img src={author.avatarUrl} alt="" className="w-full h-full object-cover" />
+                ) : (
+                    name[0]?.toUpperCase()
+                )}
+            </div>
+            <div className="min-w-0 flex-1">
+                <div className="flex items-center gap-2">
+                    <span className="text-xs font-semibold text-gray-900 truncate">{name}</span>
+                    <span className="text-[10px] text-gray-400">{new Date(comment.created_at).toLocaleString()}</span>
+                    {canDelete && (
+                        <button
+                            onClick={onDelete}
+                            className="ml-auto p-0.5 rounded text-gray-300 hover:text-red-600 opacity-0 group-hover/comment:opacity-100 transition-opacity"
+                            title="Delete comment"
+                        >
+                            <Trash2 className="w-3 h-3" />
+                        </button>
+                    )}
+                </div>
+                <p className="text-sm text-gray-700 whitespace-pre-wrap break-words">{comment.body}</p>
+            </div>
+        </div>
+    );
+}
+
+interface CommentThreadProps {
+    thread: Thread;
+    scope: CommentScope;
+    authors: Map<string, CommentAuthor>;
+    /** Owners can delete anyone's comments */
+    isWorkspaceOwner: boolean;
+    /** Shown before the first comment, e.g. the thread's marker number */
+    label?: React.ReactNode;
+    isActive?: boolean;
+    onSelect?: () => void;
+}
+
+/**
+ * A comment with its replies, reply box and resolve toggle
+ */
+export function CommentThread({ thread, scope, authors, isWorkspaceOwner, label, isActive, onSelect }: CommentThreadProps) {
+    const { currentUser } = useAuth();
+    const createComment = useCreateComment(scope);
+    const resolveComment = useResolveComment(scope);
+    const deleteComment = useDeleteComment(scope);
+
+    const { root, replies } = thread;
+    const isResolved = !!root.resolved_at;
+    const canDelete = (comment: DbComment) => isWorkspaceOwner || comment.author_id === currentUser?.id;
+
+    return (
+        <div
+            onClick={onSelect}
+            className={cn(
+                'rounded-xl border p-3 space-y-3 transition-colors',
+                isActive ? 'border-primary-creative/40 bg-primary-creative/5' : 'border-gray-200 bg-white',
+                isResolved && 'opacity-70',
+                onSelect && 'cursor-pointer'
+            )}
+        >
+            <div className="flex items-start gap-2">
+                {label}
+                <div className="min-w-0 flex-1">
+                    <CommentBody
+                        comment={root}
+                        author={authors.get(root.author_id)}
+                        canDelete={canDelete(root)}
+                        onDelete={() => deleteComment.mutate(root.id)}
+                    />
+                </div>
+                <button
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        resolveComment.mutate({ commentId: root.id, resolved: !isResolved });
+                    }}
+                    className={cn(
+                        'p-1 rounded-lg transition-colors',
+                        isResolved ? 'text-green-600 hover:bg-green-50' : 'text-gray-400 hover:text-green-600 hover:bg-green-50'
+                    )}
+                    title={isResolved ? 'Reopen thread' : 'Resolve thread'}
+                >
+                    {isResolved ? <RotateCcw className="w-4 h-4" /> : <CheckCircle2 className="w-4 h-4" />}
+                </button>
+            </div>
+
+            {replies.length > 0 && (
+                <div className="pl-4 border-l-2 border-gray-100 space-y-3">
+                    {replies.map(reply => (
+                        <CommentBody
+                            key={reply.id}
+                            comment={reply}
+                            author={authors.get(reply.author_id)}
+                            canDelete={canDelete(reply)}
+                            onDelete={() => deleteComment.mutate(reply.id)}
+                        />
+                    ))}
+                </div>
+            )}
+
+            {(isActive ?? true) && !isResolved && (
+                <div onClick={(e) => e.stopPropagation()}>
+                    <CommentComposer
+                        placeholder="Reply..."
+                        isPosting={createComment.isPending}
+                        onSubmit={(body) => createComment.mutateAsync({ target: { parentId: root.id }, body })}
+                    />
+                </div>
+            )}
+        </div>
+    );
+}
@@ -83,7 +83,7 @@ export function AutoSaveIndicator({
             case 'conflict':
                 return {
                     icon: CloudOff,
-                    text: 'Name exists - rename to save',
+                    text: errorMessage || 'Name exists - rename to save',
                     color: 'text-amber-600',
                     bgColor: 'bg-amber-50',
                     animate: false,
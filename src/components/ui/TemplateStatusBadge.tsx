@@ -0,0 +1,36 @@
+'use client';
+
+import React from 'react';
+import { CheckCircle2, Clock, PenLine } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { TemplateStatus } from '@/types/database.types';
+import { TEMPLATE_STATUS_LABELS } from '@/lib/review/templateStatus';
+
+const STATUS_STYLES: Record<TemplateStatus, { className: string; Icon: typeof Clock }> = {
+    draft: { className: 'bg-gray-100 text-gray-600', Icon: PenLine },
+    in_review: { className: 'bg-amber-50 text-amber-700', Icon: Clock },
+    approved: { className: 'bg-green-50 text-green-700', Icon: CheckCircle2 },
+};
+
+interface TemplateStatusBadgeProps {
+    status: TemplateStatus;
+    className?: string;
+}
+
+/**
+ * Review status of a template (draft / in review / approved)
+ */
+export function TemplateStatusBadge({ status, className }: TemplateStatusBadgeProps) {
+    const { className: statusClassName, Icon } = STATUS_STYLES[status];
+
+    return (
+        <span className={cn(
+            'inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[11px] font-medium',
+            statusClassName,
+            className
+        )}>
+            <Icon className="w-3 h-3" />
+            {TEMPLATE_STATUS_LABELS[status]}
+        </span>
+    );
+}
@@ -11,6 +11,8 @@
  * - Save failure retry with exponential backoff
  * - Browser unload warning when unsaved
  * - Auto-save status indicator
+ * - Keeps a sampled auto-save as a template version every few minutes
+ * - Pauses on a revision conflict (template saved elsewhere) until it's merged
  * 
  * Finding #4 Resolution: Prevents data loss for users
  * 
@@ -23,7 +25,11 @@ import { useTemplateStore } from '@/stores/templateStore';
 import { useEditorStore } from '@/stores/editorStore';
 import { useSettingsStore } from '@/stores/settingsStore';
 import { saveTemplate as saveTemplateToDb } from '@/lib/db/templates';
+import { TemplateConflictError } from '@/lib/db/utils';
+import { recordTemplateVersion } from '@/lib/db/templateVersions';
 import { isSupabaseConfigured, supabase } from '@/lib/supabase';
+import { shouldRecordAutoSaveVersion } from '@/lib/utils/templateDiff';
+import { captureVersionThumbnail } from '@/hooks/useTemplateVersions';
 
 export type AutoSaveStatus = 'idle' | 'pending' | 'saving' | 'saved' | 'error' | 'conflict';
 
@@ -70,6 +76,7 @@ export function useAutoSave(options: AutoSaveOptions = {}): AutoSaveState & {
     const retryCountRef = useRef(0);
     const isSavingRef = useRef(false); // Prevent concurrent saves
     const saveCompletionTimeRef = useRef(0); // Timestamp of last successful save
+    const lastVersionAtRef = useRef<number | null>(null); // Last auto-save kept as a version
     const maxRetries = 3;
 
     // Get state from templateStore (FIX: use templateStore, not editorStore)
@@ -78,6 +85,8 @@ export function useAutoSave(options: AutoSaveOptions = {}): AutoSaveState & {
     const isNewTemplate = useTemplateStore((s) => s.isNewTemplate);
     const setTemplateId = useTemplateStore((s) => s.setTemplateId);
     const setIsNewTemplate = useTemplateStore((s) => s.setIsNewTemplate);
+    const setTemplateRevision = useTemplateStore((s) => s.setTemplateRevision);
+    const setSaveConflict = useTemplateStore((s) => s.setSaveConflict);
 
     // Get state from consolidated editorStore (instead of specialized stores)
     const elements = useEditorStore((s) => s.elements);
@@ -121,6 +130,11 @@ export function useAutoSave(options: AutoSaveOptions = {}): AutoSaveState & {
             return false;
         }
 
+        // Wait for the merge dialog instead of hitting the same conflict again
+        if (useTemplateStore.getState().saveConflict) {
+            return false;
+        }
+
         if (!isSupabaseConfigured()) {
             // localStorage persistence is handled by Zustand's persist
             setLastSavedAt(new Date());
@@ -154,6 +168,7 @@ export function useAutoSave(options: AutoSaveOptions = {}): AutoSaveState & {
                     // Don't auto-save if name conflicts - user must choose
                     // Set status to 'conflict' so UI can show helpful message
                     isSavingRef.current = false;
+                    setErrorMessage(null);
                     updateStatus('conflict');
                     return false;
                 }
@@ -165,9 +180,13 @@ export function useAutoSave(options: AutoSaveOptions = {}): AutoSaveState & {
                 canvas_size: canvasSize,
                 background_color: backgroundColor,
                 elements: elements,
+                // Read at save time: a merge may have moved it on since this render
+                revision: effectiveTemplateId ? useTemplateStore.getState().templateRevision : null,
             });
 
             if (savedTemplate) {
+                setTemplateRevision(savedTemplate.revision ?? null);
+
                 // FIX: Don't call loadTemplate - elements are already in stores
                 // Just sync the template IDs across stores
                 
@@ -186,6 +205,15 @@ export function useAutoSave(options: AutoSaveOptions = {}): AutoSaveState & {
                 setLastSavedAt(new Date());
                 setErrorMessage(null);
                 retryCountRef.current = 0;
+
+                // Keep one auto-save per interval in the version history
+                if (shouldRecordAutoSaveVersion(lastVersionAtRef.current)) {
+                    lastVersionAtRef.current = Date.now();
+                    void recordTemplateVersion(savedTemplate.id, savedTemplate, {
+                        source: 'autosave',
+                        thumbnailDataUrl: captureVersionThumbnail(),
+                    });
+                }
                 
                 // FIX: Check if CONTENT changed DURING save (race condition fix)
                 // Use content hash (not state hash) because templateId legitimately changes during save
@@ -213,6 +241,13 @@ export function useAutoSave(options: AutoSaveOptions = {}): AutoSaveState & {
                 throw new Error('Save returned null');
             }
         } catch (error) {
+            if (error instanceof TemplateConflictError) {
+                // Saved in another tab or by a teammate - Header shows the merge dialog
+                setSaveConflict(error.latest);
+                setErrorMessage('Changed elsewhere - review to save');
+                updateStatus('conflict');
+                return false;
+            }
             const message = error instanceof Error ? error.message : 'Unknown error';
             setErrorMessage(message);
             updateStatus('error');
@@ -229,6 +264,8 @@ export function useAutoSave(options: AutoSaveOptions = {}): AutoSaveState & {
         backgroundColor,
         setTemplateId,
         setIsNewTemplate,
+        setTemplateRevision,
+        setSaveConflict,
         computeContentHash,
         updateStatus,
         debounceMs,
@@ -1,5 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { isSupabaseConfigured, supabase } from '@/lib/supabase';
+import { getActiveWorkspaceId } from '@/lib/db/workspaces';
 import { toast } from 'sonner';
 
 /**
@@ -28,7 +29,7 @@ export const campaignKeys = {
 };
 
 /**
- * Fetch all campaigns for the current user
+ * Fetch all campaigns in the active workspace
  */
 export function useCampaigns() {
     return useQuery({
@@ -38,9 +39,15 @@ export function useCampaigns() {
                 return [];
             }
 
+            const workspaceId = await getActiveWorkspaceId();
+            if (!workspaceId) {
+                return [];
+            }
+
             const { data, error } = await supabase
                 .from('campaigns')
                 .select('id, name, template_id, status, total_pins, generated_pins, created_at, updated_at')
+                .eq('workspace_id', workspaceId)
                 .order('created_at', { ascending: false });
 
             if (error) throw error;
@@ -0,0 +1,124 @@
+'use client';
+
+/**
+ * Live Collaboration Hook
+ *
+ * Connects the editor to everyone else editing the same saved template:
+ * - Local edits to editorStore are broadcast as element operations
+ * - Operations from others are applied to editorStore (not to undo history)
+ * - Selection and drags are shared as presence (outlines and soft locks)
+ * - A save by anyone moves everyone to the new revision, so collaborators'
+ *   auto-saves don't reject each other as conflicts
+ * - Workspace viewers follow along without sharing their local edits
+ */
+
+import { useEffect } from 'react';
+import type { User } from '@supabase/supabase-js';
+import { CollabDocument, CollabSession } from '@/lib/collab/CollabSession';
+import { SupabaseRealtimeTransport } from '@/lib/collab/SupabaseRealtimeTransport';
+import { TemplateContent } from '@/lib/utils/templateDiff';
+import { isSupabaseConfigured } from '@/lib/supabase';
+import { WorkspaceRole } from '@/types/database.types';
+import { useEditorStore } from '@/stores/editorStore';
+import { useTemplateStore } from '@/stores/templateStore';
+import { useCollabStore } from '@/stores/collabStore';
+
+type EditorSnapshot = ReturnType<typeof useEditorStore.getState>;
+
+function toContent(state: EditorSnapshot): TemplateContent {
+    return { elements: state.elements, canvas_size: state.canvasSize, background_color: state.backgroundColor };
+}
+
+/**
+ * editorStore as the design a collaboration session keeps in sync
+ */
+function createEditorDocument(): CollabDocument {
+    return {
+        getContent: () => toContent(useEditorStore.getState()),
+        applyRemote: (content) => {
+            const remaining = new Set(content.elements.map(el => el.id));
+            useEditorStore.setState((state) => ({
+                elements: content.elements,
+                canvasSize: content.canvas_size,
+                backgroundColor: content.background_color,
+                selectedIds: state.selectedIds.filter(id => remaining.has(id)),
+            }));
+        },
+        subscribe: (listener) => useEditorStore.subscribe((state, prev) => {
+            // Opening another template isn't an edit to this one
+            if (state.templateId !== prev.templateId) return;
+            if (state.elements === prev.elements
+                && state.canvasSize === prev.canvasSize
+                && state.backgroundColor === prev.backgroundColor) return;
+            listener(toContent(state));
+        }),
+    };
+}
+
+function getDisplayName(user: User): string {
+    return user.user_metadata?.full_name || user.user_metadata?.name || user.email?.split('@')[0] || 'Teammate';
+}
+
+export function useCollaboration(user: User | null, role: WorkspaceRole | null) {
+    const templateId = useTemplateStore((s) => s.templateId);
+    const isNewTemplate = useTemplateStore((s) => s.isNewTemplate);
+    // The design is in the editor once both stores agree on the template
+    const loadedTemplateId = useEditorStore((s) => s.templateId);
+
+    const userId = user?.id;
+    const userName = user ? getDisplayName(user) : '';
+    const avatarUrl: string | null = user?.user_metadata?.avatar_url ?? null;
+
+    useEffect(() => {
+        if (!userId || isNewTemplate || templateId !== loadedTemplateId || !isSupabaseConfigured()) return;
+
+        const { setStatus, setPeers, reset } = useCollabStore.getState();
+        let remoteRevision: number | null = null;
+        let active = true;
+
+        const session = new CollabSession({
+            transport: new SupabaseRealtimeTransport(templateId),
+            document: createEditorDocument(),
+            user: { id: userId, name: userName, avatarUrl, role },
+            onPeersChange: setPeers,
+            onRemoteSave: (revision) => {
+                remoteRevision = revision;
+                useTemplateStore.getState().setTemplateRevision(revision);
+            },
+        });
+
+        // Presence is sent on connect, so set it up front
+        session.setSelection(useEditorStore.getState().selectedIds);
+
+        const unsubscribeSelection = useEditorStore.subscribe((state, prev) => {
+            if (state.selectedIds !== prev.selectedIds) session.setSelection(state.selectedIds);
+        });
+        const unsubscribeDragging = useCollabStore.subscribe((state, prev) => {
+            if (state.draggingIds !== prev.draggingIds) session.setDragging(state.draggingIds);
+        });
+        const unsubscribeRevision = useTemplateStore.subscribe((state, prev) => {
+            const revision = state.templateRevision;
+            if (revision === null || revision === prev.templateRevision || revision === remoteRevision) return;
+            session.announceSave(revision);
+        });
+
+        setStatus('connecting');
+        session.start()
+            .then(() => {
+                if (active) setStatus('connected');
+            })
+            .catch((error) => {
+                console.error('[useCollaboration] Failed to join template channel:', error);
+                if (active) setStatus('error');
+            });
+
+        return () => {
+            active = false;
+            unsubscribeSelection();
+            unsubscribeDragging();
+            unsubscribeRevision();
+            session.stop();
+            reset();
+        };
+    }, [userId, userName, avatarUrl, role, templateId, isNewTemplate, loadedTemplateId]);
+}
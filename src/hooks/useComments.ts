@@ -0,0 +1,158 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+    listTemplateComments,
+    listPinComments,
+    getCampaignCommentCounts,
+    createComment,
+    setCommentResolved,
+    deleteComment,
+    CommentTarget,
+} from '@/lib/db/comments';
+import { isSupabaseConfigured } from '@/lib/supabase';
+import { useActiveWorkspace, useWorkspaceMembers } from '@/hooks/useWorkspaces';
+import { toast } from 'sonner';
+
+/**
+ * Query keys for review comments
+ */
+export const commentKeys = {
+    all: ['comments'] as const,
+    template: (templateId: string) => [...commentKeys.all, 'template', templateId] as const,
+    pin: (pinId: string) => [...commentKeys.all, 'pin', pinId] as const,
+    campaignCounts: (campaignId: string) => [...commentKeys.all, 'campaign-counts', campaignId] as const,
+};
+
+/** Where a comment list lives, so mutations refresh the right queries */
+export type CommentScope =
+    | { templateId: string }
+    | { pinId: string; campaignId: string };
+
+// Pick up teammates' comments without a realtime channel
+const COMMENT_REFETCH_MS = 30_000;
+
+function scopeKey(scope: CommentScope) {
+    return 'templateId' in scope ? commentKeys.template(scope.templateId) : commentKeys.pin(scope.pinId);
+}
+
+/**
+ * Fetch the comments on a template
+ */
+export function useTemplateComments(templateId: string | null) {
+    return useQuery({
+        queryKey: commentKeys.template(templateId || ''),
+        queryFn: () => listTemplateComments(templateId!),
+        enabled: !!templateId && isSupabaseConfigured(),
+        refetchInterval: COMMENT_REFETCH_MS,
+    });
+}
+
+/**
+ * Fetch the comments on a generated pin
+ */
+export function usePinComments(pinId: string | null) {
+    return useQuery({
+        queryKey: commentKeys.pin(pinId || ''),
+        queryFn: () => listPinComments(pinId!),
+        enabled: !!pinId && isSupabaseConfigured(),
+        refetchInterval: COMMENT_REFETCH_MS,
+    });
+}
+
+/**
+ * Comment counts per pin for a campaign's pins grid
+ */
+export function useCampaignCommentCounts(campaignId: string) {
+    return useQuery({
+        queryKey: commentKeys.campaignCounts(campaignId),
+        queryFn: () => getCampaignCommentCounts(campaignId),
+        enabled: !!campaignId && isSupabaseConfigured(),
+        refetchInterval: COMMENT_REFETCH_MS,
+    });
+}
+
+/**
+ * Add a comment or a reply
+ */
+export function useCreateComment(scope: CommentScope) {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: async ({ target, body }: { target: CommentTarget; body: string }) => {
+            const comment = await createComment(target, body);
+            if (!comment) throw new Error('Failed to post comment');
+            return comment;
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: scopeKey(scope) });
+            if ('campaignId' in scope) {
+                queryClient.invalidateQueries({ queryKey: commentKeys.campaignCounts(scope.campaignId) });
+            }
+        },
+        onError: (error) => {
+            toast.error('Failed to post comment', { description: error.message });
+        },
+    });
+}
+
+/**
+ * Resolve or reopen a thread
+ */
+export function useResolveComment(scope: CommentScope) {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: async ({ commentId, resolved }: { commentId: string; resolved: boolean }) => {
+            const ok = await setCommentResolved(commentId, resolved);
+            if (!ok) throw new Error('Failed to update comment');
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: scopeKey(scope) });
+        },
+        onError: (error) => {
+            toast.error('Failed to update comment', { description: error.message });
+        },
+    });
+}
+
+/**
+ * Delete a comment (replies go with it)
+ */
+export function useDeleteComment(scope: CommentScope) {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: async (commentId: string) => {
+            const ok = await deleteComment(commentId);
+            if (!ok) throw new Error('Failed to delete comment');
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: scopeKey(scope) });
+            if ('campaignId' in scope) {
+                queryClient.invalidateQueries({ queryKey: commentKeys.campaignCounts(scope.campaignId) });
+            }
+        },
+        onError: (error) => {
+            toast.error('Failed to delete comment', { description: error.message });
+        },
+    });
+}
+
+export interface CommentAuthor {
+    name: string;
+    avatarUrl: string | null;
+}
+
+/**
+ * Names and avatars of comment authors, from the active workspace's members
+ * (comments aren't joined with auth.users, which clients can't read)
+ */
+export function useCommentAuthors(): Map<string, CommentAuthor> {
+    const { workspace } = useActiveWorkspace();
+    const { data: members = [] } = useWorkspaceMembers(workspace?.id ?? null);
+
+    return useMemo(() => new Map(members.map(member => [
+        member.user_id,
+        { name: member.full_name || member.email, avatarUrl: member.avatar_url },
+    ])), [members]);
+}
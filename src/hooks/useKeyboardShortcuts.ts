@@ -18,6 +18,8 @@ export function useKeyboardShortcuts() {
     const copyStyle = useEditorStore((s) => s.copyStyle);
     const pasteStyle = useEditorStore((s) => s.pasteStyle);
     const lockElement = useEditorStore((s) => s.lockElement);
+    const groupSelectedElements = useEditorStore((s) => s.groupSelectedElements);
+    const ungroupSelectedElements = useEditorStore((s) => s.ungroupSelectedElements);
 
     // Get first selected element ID for convenience
     const selectedId = selectedIds[0] || null;
@@ -56,6 +58,20 @@ export function useKeyboardShortcuts() {
                 return;
             }
 
+            // Ungroup - Ctrl/Cmd + Shift + G
+            if (isMeta && e.shiftKey && (e.key === 'g' || e.key === 'G') && selectedId) {
+                e.preventDefault();
+                ungroupSelectedElements();
+                return;
+            }
+
+            // Group - Ctrl/Cmd + G (two or more selected)
+            if (isMeta && !e.shiftKey && (e.key === 'g' || e.key === 'G') && selectedIds.length > 1) {
+                e.preventDefault();
+                groupSelectedElements();
+                return;
+            }
+
             // Delete - Delete or Backspace (delete all selected)
             if ((e.key === 'Delete' || e.key === 'Backspace') && selectedIds.length > 0) {
                 e.preventDefault();
@@ -146,5 +162,5 @@ export function useKeyboardShortcuts() {
 
         window.addEventListener('keydown', handleKeyDown);
         return () => window.removeEventListener('keydown', handleKeyDown);
-    }, [selectedIds, selectedId, elements, undo, redo, deleteElement, duplicateElement, updateElement, pushHistory, selectElement, copyElement, pasteElement, copyStyle, pasteStyle, lockElement]);
+    }, [selectedIds, selectedId, elements, undo, redo, deleteElement, duplicateElement, updateElement, pushHistory, selectElement, copyElement, pasteElement, copyStyle, pasteStyle, lockElement, groupSelectedElements, ungroupSelectedElements]);
 }
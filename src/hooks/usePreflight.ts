@@ -0,0 +1,128 @@
+'use client';
+
+import { useState, useCallback, useRef } from 'react';
+import * as fabric from 'fabric';
+import { Element } from '@/types/editor';
+import { FieldMapping } from '@/lib/fabric/engine';
+import { supabase } from '@/lib/supabase';
+import { overflowsAtMinFontSize } from '@/lib/canvas/AutoFitText';
+import { preloadTemplateFonts } from '@/lib/fonts/fontLoader';
+import type { ImageCheckResult } from '@/lib/images/safeFetch';
+import {
+    buildPreflightReport,
+    collectImageUrls,
+    PreflightReport,
+    PREFLIGHT_URLS_PER_REQUEST,
+    TextOverflowCheck,
+} from '@/lib/campaigns/preflight';
+
+// ============================================
+// Types
+// ============================================
+
+export type PreflightStatus = 'idle' | 'running' | 'done' | 'error';
+
+export interface PreflightProgress {
+    checkedImages: number;
+    totalImages: number;
+}
+
+// Helper to get auth headers with access token
+async function getAuthHeaders(): Promise<HeadersInit> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) {
+        throw new Error('Not authenticated');
+    }
+    return {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+    };
+}
+
+// Same settings the server renderer passes to auto-fit (element.fontSize is the floor)
+const measureOverflow: TextOverflowCheck = (text, element) => overflowsAtMinFontSize(text, element.width, element.height, {
+    fontFamily: element.fontFamily || 'Arial',
+    fontWeight: String(element.fontWeight || (element.fontStyle?.includes('bold') ? 'bold' : 'normal')),
+    fontStyle: element.fontStyle?.includes('italic') ? 'italic' : 'normal',
+    lineHeight: element.lineHeight || 1.2,
+    textAlign: element.align || 'left',
+    charSpacing: (element.letterSpacing || 0) * 10,
+    minFontSize: element.fontSize || 16,
+    maxFontSize: element.maxFontSize || 500,
+    maxLines: element.maxLines,
+    underline: element.textDecoration === 'underline',
+    linethrough: element.textDecoration === 'line-through',
+    fabricContext: fabric,
+});
+
+/**
+ * usePreflight - checks a campaign's rows before launch
+ * Image URLs are checked server-side in chunks; auto-fit text is measured
+ * here with the template's fonts loaded.
+ */
+export function usePreflight() {
+    const [status, setStatus] = useState<PreflightStatus>('idle');
+    const [progress, setProgress] = useState<PreflightProgress>({ checkedImages: 0, totalImages: 0 });
+    const [report, setReport] = useState<PreflightReport | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const cancelledRef = useRef(false);
+
+    const runPreflight = useCallback(async (
+        elements: Element[],
+        rows: Record<string, string>[],
+        fieldMapping: FieldMapping
+    ): Promise<PreflightReport | null> => {
+        cancelledRef.current = false;
+        setStatus('running');
+        setReport(null);
+        setError(null);
+
+        try {
+            const urls = collectImageUrls(elements, rows, fieldMapping);
+            setProgress({ checkedImages: 0, totalImages: urls.length });
+
+            const headers = urls.length > 0 ? await getAuthHeaders() : {};
+            const imageResults: ImageCheckResult[] = [];
+            for (let i = 0; i < urls.length; i += PREFLIGHT_URLS_PER_REQUEST) {
+                if (cancelledRef.current) return null;
+
+                const chunk = urls.slice(i, i + PREFLIGHT_URLS_PER_REQUEST);
+                const res = await fetch('/api/campaign-preflight', {
+                    method: 'POST',
+                    headers,
+                    body: JSON.stringify({ urls: chunk }),
+                });
+                const json = await res.json().catch(() => null);
+                if (!res.ok || !json?.success) {
+                    throw new Error(json?.error || `Image check failed (${res.status})`);
+                }
+
+                imageResults.push(...json.data);
+                setProgress({ checkedImages: imageResults.length, totalImages: urls.length });
+            }
+
+            await preloadTemplateFonts(elements);
+            if (cancelledRef.current) return null;
+
+            const result = buildPreflightReport({ elements, rows, fieldMapping, imageResults, overflows: measureOverflow });
+            setReport(result);
+            setStatus('done');
+            return result;
+        } catch (err) {
+            console.error('[Preflight] Check failed:', err);
+            setError(err instanceof Error ? err.message : 'Pre-flight check failed');
+            setStatus('error');
+            return null;
+        }
+    }, []);
+
+    const resetPreflight = useCallback(() => {
+        cancelledRef.current = true;
+        setStatus('idle');
+        setReport(null);
+        setError(null);
+        setProgress({ checkedImages: 0, totalImages: 0 });
+    }, []);
+
+    return { status, progress, report, error, runPreflight, resetPreflight };
+}
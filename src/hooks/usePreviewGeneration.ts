@@ -5,7 +5,7 @@ import { Element, CanvasSize, ImageElement } from '@/types/editor';
 import { renderTemplate, exportToBlob, FieldMapping } from '@/lib/fabric/engine';
 import { getCanvasPool } from '@/lib/canvas/CanvasPool';
 import { getTemplateForRow } from '@/lib/campaigns/distributionEngine';
-import { DistributionMode } from '@/types/database.types';
+import { DistributionConfig, DistributionMode } from '@/types/database.types';
 
 // ============================================
 // Types
@@ -56,6 +56,8 @@ export interface UsePreviewGenerationProps {
     templates?: TemplateData[];
     /** Distribution mode for multi-template */
     distributionMode?: DistributionMode;
+    /** Weights / rules for the weighted and rules modes */
+    distributionConfig?: DistributionConfig;
 }
 
 export interface UsePreviewGenerationResult {
@@ -167,6 +169,7 @@ export function usePreviewGeneration({
     previewCount = DEFAULT_PREVIEW_COUNT,
     templates,
     distributionMode = 'sequential',
+    distributionConfig,
 }: UsePreviewGenerationProps): UsePreviewGenerationResult {
     const [previewPins, setPreviewPins] = useState<PreviewPin[]>([]);
     const [isGenerating, setIsGenerating] = useState(false);
@@ -261,6 +264,7 @@ export function usePreviewGeneration({
                                 templates: templateSnapshots,
                                 mode: distributionMode,
                                 totalRows: csvRows.length,
+                                config: distributionConfig,
                             },
                             {
                                 rowIndex: i,
@@ -375,7 +379,7 @@ export function usePreviewGeneration({
         } finally {
             setIsGenerating(false);
         }
-    }, [csvRows, templateElements, canvasSize, backgroundColor, fieldMapping, previewCount, previewPins.length, error, templates, distributionMode]);
+    }, [csvRows, templateElements, canvasSize, backgroundColor, fieldMapping, previewCount, previewPins.length, error, templates, distributionMode, distributionConfig]);
     
     /**
      * Force regenerate all preview pins
@@ -32,6 +32,8 @@ export function useTemplateFromUrl() {
     const setTemplateId = useTemplateStore((s) => s.setTemplateId);
     const setTemplateName = useTemplateStore((s) => s.setTemplateName);
     const setIsNewTemplate = useTemplateStore((s) => s.setIsNewTemplate);
+    const setTemplateRevision = useTemplateStore((s) => s.setTemplateRevision);
+    const setSaveConflict = useTemplateStore((s) => s.setSaveConflict);
     
     useEffect(() => {
         // Skip if we've already processed this exact state
@@ -54,6 +56,9 @@ export function useTemplateFromUrl() {
                     setTemplateId(template.id);
                     setTemplateName(template.name);
                     setIsNewTemplate(false);
+                    // Saves are checked against the revision loaded here
+                    setTemplateRevision(template.revision ?? null);
+                    setSaveConflict(null);
                     
                     if (template.canvas_size) {
                         setCanvasSize(template.canvas_size.width, template.canvas_size.height);
@@ -96,6 +101,8 @@ export function useTemplateFromUrl() {
             setTemplateId(newTemplateId);
             setTemplateName('Untitled Template');
             setIsNewTemplate(true);
+            setTemplateRevision(null);
+            setSaveConflict(null);
             
             // Reset canvasStore to defaults
             setCanvasSize(1000, 1500); // Default Pinterest pin size
@@ -113,7 +120,7 @@ export function useTemplateFromUrl() {
                 canvas_size: { width: 1000, height: 1500 },
             });
         }
-    }, [templateId, loadTemplate, setTemplateId, setTemplateName, setIsNewTemplate, setElements, setCanvasSize, setBackgroundColor]);
+    }, [templateId, loadTemplate, setTemplateId, setTemplateName, setIsNewTemplate, setTemplateRevision, setSaveConflict, setElements, setCanvasSize, setBackgroundColor]);
     
     return { isLoadingFromUrl: !!templateId };
 }
@@ -0,0 +1,151 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+    listTemplateVersions,
+    getTemplateVersion,
+    recordTemplateVersion,
+} from '@/lib/db/templateVersions';
+import { saveTemplate as saveTemplateToDb } from '@/lib/db/templates';
+import { TemplateConflictError } from '@/lib/db/utils';
+import { generateThumbnail } from '@/lib/canvasUtils';
+import { isSupabaseConfigured } from '@/lib/supabase';
+import { useEditorStore } from '@/stores/editorStore';
+import { useTemplateStore } from '@/stores/templateStore';
+import { useFabricRefStore } from '@/hooks/useStageRef';
+import { toast } from 'sonner';
+
+/**
+ * Query keys for template versions
+ */
+export const templateVersionKeys = {
+    all: ['template-versions'] as const,
+    list: (templateId: string) => [...templateVersionKeys.all, 'list', templateId] as const,
+    detail: (versionId: string) => [...templateVersionKeys.all, 'detail', versionId] as const,
+};
+
+/**
+ * Small preview of the editor canvas for the version list
+ */
+export function captureVersionThumbnail(): string | null {
+    const canvas = useFabricRefStore.getState().fabricRef?.current ?? null;
+    if (!canvas) return null;
+
+    try {
+        return generateThumbnail(canvas, { maxWidth: 120, maxHeight: 180, format: 'jpeg', quality: 0.7 });
+    } catch (error) {
+        console.warn('Failed to capture version thumbnail:', error);
+        return null;
+    }
+}
+
+/**
+ * Current design in the editor, in the shape a version stores
+ */
+function getEditorContent() {
+    const { elements, canvasSize, backgroundColor } = useEditorStore.getState();
+    return { elements, canvas_size: canvasSize, background_color: backgroundColor };
+}
+
+/**
+ * Fetch a template's version history, newest first
+ * Saves add versions outside React Query, so refetch whenever it's shown.
+ */
+export function useTemplateVersions(templateId: string | null, enabled = true) {
+    return useQuery({
+        queryKey: templateVersionKeys.list(templateId || ''),
+        queryFn: () => listTemplateVersions(templateId!),
+        enabled: enabled && !!templateId && isSupabaseConfigured(),
+        staleTime: 0,
+    });
+}
+
+/**
+ * Fetch one version with its design (versions never change, so cache it)
+ */
+export function useTemplateVersion(versionId: string | null) {
+    return useQuery({
+        queryKey: templateVersionKeys.detail(versionId || ''),
+        queryFn: () => getTemplateVersion(versionId!),
+        enabled: !!versionId && isSupabaseConfigured(),
+        staleTime: Infinity,
+    });
+}
+
+/**
+ * Save the current design as a named checkpoint
+ */
+export function useCreateCheckpoint(templateId: string | null) {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: async (name: string) => {
+            if (!templateId) throw new Error('Save the template before adding checkpoints');
+
+            const version = await recordTemplateVersion(templateId, getEditorContent(), {
+                source: 'checkpoint',
+                name,
+                thumbnailDataUrl: captureVersionThumbnail(),
+            });
+            if (!version) throw new Error('Failed to save checkpoint');
+            return version;
+        },
+        onSuccess: (version) => {
+            queryClient.invalidateQueries({ queryKey: templateVersionKeys.list(version.template_id) });
+            toast.success(`Checkpoint "${version.name}" saved`);
+        },
+        onError: (error) => {
+            console.error('Error saving checkpoint:', error);
+            toast.error(error instanceof Error ? error.message : 'Failed to save checkpoint');
+        },
+    });
+}
+
+/**
+ * Put a version's design back in the editor and save it
+ * The restore is itself recorded as a version and can be undone in the editor.
+ */
+export function useRestoreTemplateVersion(templateId: string | null) {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: async (versionId: string) => {
+            if (!templateId) throw new Error('Save the template before restoring versions');
+
+            const version = await getTemplateVersion(versionId);
+            if (!version) throw new Error('Version not found');
+
+            useEditorStore.getState().restoreVersion(version);
+
+            const { templateName, templateRevision, setTemplateRevision } = useTemplateStore.getState();
+            const saved = await saveTemplateToDb({
+                id: templateId,
+                name: templateName,
+                canvas_size: version.canvas_size,
+                background_color: version.background_color,
+                elements: version.elements,
+                revision: templateRevision,
+            });
+            if (!saved) throw new Error('Restored in the editor, but saving failed');
+            setTemplateRevision(saved.revision ?? null);
+
+            await recordTemplateVersion(templateId, version, {
+                source: 'restore',
+                name: `Restored version ${version.version_number}`,
+                thumbnailUrl: version.thumbnail_url,
+            });
+            return version;
+        },
+        onSuccess: (version) => {
+            queryClient.invalidateQueries({ queryKey: templateVersionKeys.list(version.template_id) });
+            toast.success(`Restored version ${version.version_number}`);
+        },
+        onError: (error) => {
+            if (error instanceof TemplateConflictError) {
+                // The restore stays in the editor; the merge dialog decides what's saved
+                useTemplateStore.getState().setSaveConflict(error.latest);
+                return;
+            }
+            console.error('Error restoring version:', error);
+            toast.error(error instanceof Error ? error.message : 'Failed to restore version');
+        },
+    });
+}
@@ -5,9 +5,13 @@ import {
     deleteTemplate,
     duplicateTemplate,
     getTemplatesWithElements,
+    getTemplateStatus,
+    setTemplateStatus,
     TemplateFilters
 } from '@/lib/db/templates';
 import { isSupabaseConfigured } from '@/lib/supabase';
+import { TemplateStatus } from '@/types/database.types';
+import { TEMPLATE_STATUS_LABELS } from '@/lib/review/templateStatus';
 import { toast } from 'sonner';
 
 /**
@@ -19,6 +23,7 @@ export const templateKeys = {
     list: (filters: string) => [...templateKeys.lists(), { filters }] as const,
     details: () => [...templateKeys.all, 'detail'] as const,
     detail: (id: string) => [...templateKeys.details(), id] as const,
+    status: (id: string) => [...templateKeys.all, 'status', id] as const,
     withElements: (filters?: TemplateFilters) => [...templateKeys.lists(), 'with-elements', filters] as const,
 };
 
@@ -115,3 +120,33 @@ export function useDuplicateTemplate() {
         },
     });
 }
+
+/**
+ * Fetch a template's review status (without its design)
+ */
+export function useTemplateStatus(id: string | null) {
+    return useQuery({
+        queryKey: templateKeys.status(id || ''),
+        queryFn: () => getTemplateStatus(id!),
+        enabled: !!id && isSupabaseConfigured(),
+    });
+}
+
+/**
+ * Move a template through review (draft -> in_review -> approved)
+ */
+export function useSetTemplateStatus(id: string) {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (status: TemplateStatus) => setTemplateStatus(id, status),
+        onSuccess: (_, status) => {
+            queryClient.invalidateQueries({ queryKey: templateKeys.status(id) });
+            queryClient.invalidateQueries({ queryKey: templateKeys.lists() });
+            toast.success(`Template marked ${TEMPLATE_STATUS_LABELS[status].toLowerCase()}`);
+        },
+        onError: (error) => {
+            toast.error('Failed to change status', { description: error.message });
+        },
+    });
+}
@@ -0,0 +1,185 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+    listWorkspaces,
+    getActiveWorkspaceId,
+    createWorkspace,
+    listWorkspaceMembers,
+    updateWorkspaceMemberRole,
+    removeWorkspaceMember,
+    listPendingInvitations,
+    createWorkspaceInvitation,
+    revokeWorkspaceInvitation,
+    InvitableRole,
+} from '@/lib/db/workspaces';
+import { isSupabaseConfigured } from '@/lib/supabase';
+import { toast } from 'sonner';
+
+/**
+ * Query keys for workspaces
+ */
+export const workspaceKeys = {
+    all: ['workspaces'] as const,
+    lists: () => [...workspaceKeys.all, 'list'] as const,
+    active: () => [...workspaceKeys.all, 'active'] as const,
+    members: (workspaceId: string) => [...workspaceKeys.all, 'members', workspaceId] as const,
+    invitations: (workspaceId: string) => [...workspaceKeys.all, 'invitations', workspaceId] as const,
+};
+
+/**
+ * Fetch the workspaces the current user belongs to
+ */
+export function useWorkspaces() {
+    return useQuery({
+        queryKey: workspaceKeys.lists(),
+        queryFn: listWorkspaces,
+        enabled: isSupabaseConfigured(),
+        staleTime: 1000 * 60,
+    });
+}
+
+/**
+ * The workspace the editor and dashboard are working in, with the user's role
+ */
+export function useActiveWorkspace() {
+    const { data: workspaces = [], isLoading: isLoadingList } = useWorkspaces();
+    const { data: activeId, isLoading: isLoadingActive } = useQuery({
+        queryKey: workspaceKeys.active(),
+        queryFn: getActiveWorkspaceId,
+        enabled: isSupabaseConfigured(),
+        staleTime: Infinity,
+    });
+
+    const workspace = workspaces.find(ws => ws.id === activeId) ?? null;
+
+    return {
+        workspace,
+        workspaces,
+        role: workspace?.role ?? null,
+        isLoading: isLoadingList || isLoadingActive,
+    };
+}
+
+/**
+ * Create a team workspace
+ */
+export function useCreateWorkspace() {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: async (name: string) => {
+            const workspace = await createWorkspace(name);
+            if (!workspace) throw new Error('Failed to create workspace');
+            return workspace;
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: workspaceKeys.lists() });
+        },
+        onError: (error) => {
+            toast.error('Failed to create workspace', { description: error.message });
+        },
+    });
+}
+
+/**
+ * Fetch a workspace's members
+ */
+export function useWorkspaceMembers(workspaceId: string | null) {
+    return useQuery({
+        queryKey: workspaceKeys.members(workspaceId || ''),
+        queryFn: () => listWorkspaceMembers(workspaceId!),
+        enabled: !!workspaceId && isSupabaseConfigured(),
+    });
+}
+
+/**
+ * Change a member's role
+ */
+export function useUpdateMemberRole(workspaceId: string) {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: async ({ userId, role }: { userId: string; role: InvitableRole }) => {
+            const ok = await updateWorkspaceMemberRole(workspaceId, userId, role);
+            if (!ok) throw new Error('Failed to update role');
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: workspaceKeys.members(workspaceId) });
+        },
+        onError: (error) => {
+            toast.error('Failed to update role', { description: error.message });
+        },
+    });
+}
+
+/**
+ * Remove a member from a workspace
+ */
+export function useRemoveMember(workspaceId: string) {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: async (userId: string) => {
+            const ok = await removeWorkspaceMember(workspaceId, userId);
+            if (!ok) throw new Error('Failed to remove member');
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: workspaceKeys.members(workspaceId) });
+            toast.success('Member removed');
+        },
+        onError: (error) => {
+            toast.error('Failed to remove member', { description: error.message });
+        },
+    });
+}
+
+/**
+ * Fetch a workspace's pending invitations
+ */
+export function useWorkspaceInvitations(workspaceId: string | null) {
+    return useQuery({
+        queryKey: workspaceKeys.invitations(workspaceId || ''),
+        queryFn: () => listPendingInvitations(workspaceId!),
+        enabled: !!workspaceId && isSupabaseConfigured(),
+    });
+}
+
+/**
+ * Invite someone to a workspace
+ */
+export function useInviteMember(workspaceId: string) {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: async ({ email, role }: { email: string; role: InvitableRole }) => {
+            const invitation = await createWorkspaceInvitation(workspaceId, email, role);
+            if (!invitation) throw new Error('Failed to create invitation');
+            return invitation;
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: workspaceKeys.invitations(workspaceId) });
+        },
+        onError: (error) => {
+            toast.error('Failed to invite member', { description: error.message });
+        },
+    });
+}
+
+/**
+ * Revoke a pending invitation
+ */
+export function useRevokeInvitation(workspaceId: string) {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: async (invitationId: string) => {
+            const ok = await revokeWorkspaceInvitation(invitationId);
+            if (!ok) throw new Error('Failed to revoke invitation');
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: workspaceKeys.invitations(workspaceId) });
+        },
+        onError: (error) => {
+            toast.error('Failed to revoke invitation', { description: error.message });
+        },
+    });
+}
@@ -0,0 +1,125 @@
+import { inngest } from "@/inngest/client";
+import { NonRetriableError } from "inngest";
+import { createServiceRoleClient } from "@/lib/supabaseServer";
+import { getWebhookDelivery, getWebhookEndpoint, updateWebhookDelivery } from "@/lib/db/webhooks";
+import { SIGNATURE_HEADER, signWebhookPayload } from "@/lib/webhooks/signing";
+import { requestSafely, SafeResponse } from "@/lib/images/safeFetch";
+
+// Inngest retries failed attempts with exponential backoff (roughly 20s up to several hours apart)
+const MAX_RETRIES = 8;
+const REQUEST_TIMEOUT_MS = 10000;
+// Keep just enough of the receiver's response to debug from the delivery log
+const RESPONSE_BODY_LIMIT = 1000;
+
+interface DeliverWebhookEventData {
+    deliveryId: string;
+    endpointId: string;
+}
+
+/**
+ * Webhook delivery
+ * Signs and POSTs one recorded delivery to its endpoint. Any network error or
+ * non-2xx response is logged on the delivery and thrown so Inngest retries it;
+ * once retries are exhausted the delivery is marked failed. Endpoints are
+ * user-supplied, so the request refuses private addresses at connect time.
+ */
+export const deliverWebhookFunction = inngest.createFunction(
+    {
+        id: "deliver-webhook",
+        retries: MAX_RETRIES,
+        concurrency: {
+            limit: 10, // Don't flood a single receiver with parallel requests
+            key: "event.data.endpointId",
+        },
+        onFailure: async ({ event, error }) => {
+            const { deliveryId } = event.data.event.data as DeliverWebhookEventData;
+            await updateWebhookDelivery(createServiceRoleClient(), deliveryId, {
+                status: 'failed',
+                error: error.message,
+            });
+        },
+    },
+    { event: "webhook/delivery.requested" },
+    async ({ event, step }) => {
+        const { deliveryId } = event.data as DeliverWebhookEventData;
+
+        if (!deliveryId) {
+            throw new NonRetriableError("Missing required field: deliveryId");
+        }
+
+        return await step.run("send-webhook", async () => {
+            const supabase = createServiceRoleClient();
+            const delivery = await getWebhookDelivery(supabase, deliveryId);
+
+            if (!delivery) throw new NonRetriableError(`Webhook delivery not found: ${deliveryId}`);
+            if (delivery.status === 'succeeded') return { skipped: true };
+
+            const endpoint = await getWebhookEndpoint(supabase, delivery.endpoint_id);
+            if (!endpoint || !endpoint.is_active) {
+                await updateWebhookDelivery(supabase, deliveryId, {
+                    status: 'failed',
+                    error: 'Endpoint was disabled or deleted',
+                });
+                return { skipped: true };
+            }
+
+            const body = JSON.stringify(delivery.payload);
+            const attempts = delivery.attempts + 1;
+            const attemptedAt = new Date().toISOString();
+
+            let response: SafeResponse;
+            try {
+                response = await requestSafely(endpoint.url, {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        'User-Agent': 'PinterestEditor-Webhooks/1.0',
+                        'X-Webhook-Id': delivery.event_id,
+                        'X-Webhook-Event': delivery.event_type,
+                        'X-Webhook-Delivery': delivery.id,
+                        [SIGNATURE_HEADER]: signWebhookPayload(endpoint.secret, body),
+                    },
+                    body,
+                    maxRedirects: 0, // A redirect is a failed delivery, not something to follow
+                    truncateAt: RESPONSE_BODY_LIMIT,
+                    timeoutMs: REQUEST_TIMEOUT_MS,
+                });
+            } catch (e) {
+                const message = e instanceof Error ? e.message : 'Request failed';
+                await updateWebhookDelivery(supabase, deliveryId, {
+                    attempts,
+                    last_attempt_at: attemptedAt,
+                    response_status: null,
+                    response_body: null,
+                    error: message,
+                });
+                throw new Error(`Webhook delivery ${deliveryId} failed: ${message}`);
+            }
+
+            const responseBody = response.body.toString('utf8').slice(0, RESPONSE_BODY_LIMIT);
+
+            if (!response.ok) {
+                await updateWebhookDelivery(supabase, deliveryId, {
+                    attempts,
+                    last_attempt_at: attemptedAt,
+                    response_status: response.status,
+                    response_body: responseBody,
+                    error: `Endpoint responded with HTTP ${response.status}`,
+                });
+                throw new Error(`Webhook delivery ${deliveryId} failed: HTTP ${response.status}`);
+            }
+
+            await updateWebhookDelivery(supabase, deliveryId, {
+                status: 'succeeded',
+                attempts,
+                last_attempt_at: attemptedAt,
+                delivered_at: new Date().toISOString(),
+                response_status: response.status,
+                response_body: responseBody,
+                error: null,
+            });
+
+            return { skipped: false, status: response.status, attempts };
+        });
+    }
+);
@@ -0,0 +1,37 @@
+import { inngest } from "@/inngest/client";
+import { createServiceRoleClient } from "@/lib/supabaseServer";
+import { listDueCampaignIds } from "@/lib/db/publishQueue";
+import { PublishPinsEventData } from "@/lib/pinterest/publish";
+
+/**
+ * Publish queue drain
+ * Every few minutes, hands each campaign with due scheduled pins to the
+ * publish-pins function. That function's per-campaign concurrency keeps a slow
+ * Pinterest response from having two drains post the same pins.
+ */
+export const drainPublishQueueFunction = inngest.createFunction(
+    { id: "drain-publish-queue" },
+    { cron: "*/5 * * * *" },
+    async ({ step }) => {
+        // Fix the cut-off inside the step so replays of this run agree on it
+        const { dueBefore, campaignIds } = await step.run("find-due-campaigns", async () => {
+            const now = new Date();
+            return {
+                dueBefore: now.toISOString(),
+                campaignIds: await listDueCampaignIds(createServiceRoleClient(), now),
+            };
+        });
+
+        if (campaignIds.length === 0) {
+            return { campaigns: 0 };
+        }
+
+        await step.sendEvent("publish-due-pins", campaignIds.map(campaignId => ({
+            name: "pinterest/publish.requested",
+            data: { campaignId, dueBefore } satisfies PublishPinsEventData,
+        })));
+
+        console.log(`[Inngest Queue] ${campaignIds.length} campaigns have pins due before ${dueBefore}`);
+        return { campaigns: campaignIds.length };
+    }
+);
@@ -0,0 +1,225 @@
+import { inngest } from "@/inngest/client";
+import { NonRetriableError } from "inngest";
+import { createServiceRoleClient } from "@/lib/supabaseServer";
+import { createPin, PinterestApiError } from "@/lib/pinterest/client";
+import { buildPinContent } from "@/lib/pinterest/content";
+import { getPinterestAccessToken } from "@/lib/pinterest/tokens";
+import { resolveCampaignBoard } from "@/lib/pinterest/scheduler";
+import { PublishPinsEventData } from "@/lib/pinterest/publish";
+import { emitWebhookEvents, WebhookEventInput } from "@/lib/webhooks/emit";
+import { DbGeneratedPin, PinContentMapping } from "@/types/database.types";
+
+// Pins posted per invocation - the next chunk is queued as a new event
+export const PUBLISH_CHUNK_SIZE = 25;
+// Pinterest allows roughly 10 writes per second per user; stay well below it
+const DELAY_BETWEEN_PINS_MS = 250;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Pinterest publisher
+ * Posts a campaign's generated pins to its board (or the user's default board)
+ * in chunks, saving pinterest_pin_id/posted_at as each pin goes out. "Publish
+ * now" requests post unscheduled pins; queue drains (dueBefore set) post the
+ * scheduled pins whose slot has come, to the board they were scheduled for. A pin that
+ * Pinterest rejects gets a publish_error and is skipped; rate limits and server
+ * errors throw so Inngest retries the chunk, which resumes after the last
+ * posted pin. Each pin is claimed (status 'posting') before it is sent and only
+ * released when Pinterest's answer is known, so a pin whose result couldn't be
+ * saved is never posted a second time.
+ */
+export const publishPinsFunction = inngest.createFunction(
+    {
+        id: "publish-pins",
+        retries: 5,
+        concurrency: {
+            limit: 1, // One publisher per campaign so pins are never posted twice
+            key: "event.data.campaignId",
+        },
+    },
+    { event: "pinterest/publish.requested" },
+    async ({ event, step }) => {
+        const { campaignId, dueBefore } = event.data as PublishPinsEventData;
+
+        if (!campaignId) {
+            throw new NonRetriableError("Missing required field: campaignId");
+        }
+
+        const result = await step.run("publish-chunk", async () => {
+            const supabase = createServiceRoleClient();
+
+            const { data: campaign, error: campaignError } = await supabase
+                .from('campaigns')
+                .select('id, user_id, pinterest_board_id, pin_content_mapping')
+                .eq('id', campaignId)
+                .maybeSingle();
+
+            if (campaignError) throw campaignError;
+            if (!campaign) throw new NonRetriableError(`Campaign not found: ${campaignId}`);
+
+            // Give up on this run; queued pins get the error so the drain stops picking them up
+            const stopPublishing = async (message: string): Promise<never> => {
+                if (dueBefore) {
+                    await supabase
+                        .from('generated_pins')
+                        .update({ publish_error: message })
+                        .eq('campaign_id', campaignId)
+                        .is('pinterest_pin_id', null)
+                        .is('publish_error', null)
+                        .lte('scheduled_at', dueBefore);
+                }
+                throw new NonRetriableError(message);
+            };
+
+            const campaignBoardId = await resolveCampaignBoard(supabase, campaign);
+
+            let accessToken: string | null;
+            try {
+                accessToken = await getPinterestAccessToken(supabase, campaign.user_id);
+            } catch (error) {
+                if (error instanceof PinterestApiError && !error.retryable) {
+                    return stopPublishing(`Pinterest token refresh failed: ${error.message}`);
+                }
+                throw error;
+            }
+            if (!accessToken) {
+                return stopPublishing('Pinterest is not connected');
+            }
+
+            let query = supabase
+                .from('generated_pins')
+                .select('id, data_row, image_url, pinterest_board_id')
+                .eq('campaign_id', campaignId)
+                .is('pinterest_pin_id', null)
+                .is('publish_error', null)
+                .is('stale_at', null)
+                .not('status', 'in', '(failed,posting)')
+                .not('image_url', 'is', null);
+
+            query = dueBefore
+                ? query.lte('scheduled_at', dueBefore).order('scheduled_at', { ascending: true })
+                : query.is('scheduled_at', null).order('created_at', { ascending: true });
+
+            const { data: pins, error: pinsError } = await query.limit(PUBLISH_CHUNK_SIZE);
+
+            if (pinsError) throw pinsError;
+
+            const mapping = campaign.pin_content_mapping as PinContentMapping | null;
+            const events: WebhookEventInput[] = [];
+            let posted = 0;
+            let rejected = 0;
+            let retryError: PinterestApiError | null = null;
+
+            for (const pin of (pins || []) as Pick<DbGeneratedPin, 'id' | 'data_row' | 'image_url' | 'pinterest_board_id'>[]) {
+                if (posted + rejected > 0) await sleep(DELAY_BETWEEN_PINS_MS);
+
+                const boardId = pin.pinterest_board_id || campaignBoardId;
+                if (!boardId) {
+                    return stopPublishing('No Pinterest board selected');
+                }
+
+                const content = buildPinContent(pin.data_row || {}, mapping);
+
+                // Claim the pin so a retry never sends it again while its result is unsaved
+                const { data: claimed, error: claimError } = await supabase
+                    .from('generated_pins')
+                    .update({ status: 'posting' })
+                    .eq('id', pin.id)
+                    .is('pinterest_pin_id', null)
+                    .neq('status', 'posting')
+                    .select('id');
+
+                if (claimError) throw claimError;
+                if (!claimed || claimed.length === 0) continue;
+
+                try {
+                    const pinterestPinId = await createPin(accessToken, {
+                        boardId,
+                        imageUrl: pin.image_url,
+                        ...content,
+                    });
+
+                    const postedAt = new Date().toISOString();
+                    const { error } = await supabase
+                        .from('generated_pins')
+                        .update({
+                            pinterest_pin_id: pinterestPinId,
+                            pinterest_board_id: boardId,
+                            posted_at: postedAt,
+                            status: 'posted',
+                        })
+                        .eq('id', pin.id);
+
+                    if (error) {
+                        // Already on Pinterest - the pin stays 'posting' so no retry posts it again
+                        console.error(`[Inngest Publish] Posted pin ${pin.id} but failed to save it:`, error);
+                    }
+
+                    posted++;
+                    events.push({
+                        type: 'pin.posted',
+                        data: {
+                            campaign_id: campaignId,
+                            pin_id: pin.id,
+                            pinterest_pin_id: pinterestPinId,
+                            board_id: boardId,
+                            posted_at: postedAt,
+                        },
+                    });
+                } catch (error) {
+                    if (!(error instanceof PinterestApiError) || error.status === 0) {
+                        // No answer from Pinterest, so the pin may be live - keep it claimed
+                        // until the user checks the board and retries it
+                        await supabase
+                            .from('generated_pins')
+                            .update({ publish_error: 'Pinterest did not confirm the post; check the board before publishing it again' })
+                            .eq('id', pin.id);
+                        await emitWebhookEvents(supabase, campaign.user_id, events);
+                        throw error;
+                    }
+
+                    // Pinterest answered, so the pin wasn't posted - release the claim
+                    const { error: releaseError } = await supabase
+                        .from('generated_pins')
+                        .update({
+                            status: 'generated',
+                            ...(error.unauthorized || error.retryable ? {} : { publish_error: error.message }),
+                        })
+                        .eq('id', pin.id);
+
+                    if (releaseError) {
+                        console.error(`[Inngest Publish] Failed to release pin ${pin.id}:`, releaseError);
+                    }
+
+                    if (error.unauthorized) {
+                        await emitWebhookEvents(supabase, campaign.user_id, events);
+                        return stopPublishing(`Pinterest rejected the access token: ${error.message}`);
+                    }
+                    if (error.retryable) {
+                        // Report what was posted before throwing for the retry
+                        retryError = error;
+                        break;
+                    }
+
+                    // Bad input for this pin (e.g. unreachable image) - it now has its publish_error
+                    rejected++;
+                }
+            }
+
+            await emitWebhookEvents(supabase, campaign.user_id, events);
+            if (retryError) throw retryError;
+
+            console.log(`[Inngest Publish] Campaign ${campaignId}: ${posted} posted, ${rejected} rejected`);
+            return { posted, rejected, hasMore: (pins || []).length === PUBLISH_CHUNK_SIZE };
+        });
+
+        if (result.hasMore) {
+            await step.sendEvent("publish-next-chunk", {
+                name: "pinterest/publish.requested",
+                data: { campaignId, dueBefore } satisfies PublishPinsEventData,
+            });
+        }
+
+        return result;
+    }
+);
@@ -0,0 +1,328 @@
+import { inngest } from "@/inngest/client";
+import Papa from 'papaparse';
+import { createServiceRoleClient } from "@/lib/supabaseServer";
+import { setProgress, incrementProgress } from "@/lib/redis";
+import {
+    getApiJob,
+    getApiJobSummary,
+    updateApiJob,
+    completeApiJob,
+    insertApiJobResults,
+    listApiJobResultIndexes,
+    MAX_ROWS_PER_JOB,
+} from "@/lib/db/apiJobs";
+import { getApiKeyLimits, getRemainingMonthlyPins, recordApiKeyUsage } from "@/lib/db/apiKeys";
+import { emitApiJobEvent } from "@/lib/webhooks/emit";
+import { Element } from '@/types/editor';
+import { resolveOutputOptions } from '@/lib/output/formats';
+import { requestSafely } from '@/lib/images/safeFetch';
+import { MAX_DATA_FILE_SIZE } from '@/lib/utils/csvParser';
+
+// Rows rendered per batch event - keeps each invocation well inside the 60s limit
+export const API_JOB_BATCH_SIZE = 50;
+// Rows rendered in parallel inside a batch
+const PARALLEL_LIMIT = 5;
+const CSV_FETCH_TIMEOUT_MS = 30000;
+
+interface RenderApiJobEventData {
+    jobId: string;
+}
+
+interface RenderApiJobBatchEventData {
+    jobId: string;
+    startIndex: number;
+    batchSize: number;
+}
+
+/**
+ * Download and parse a remote CSV into row objects
+ * csv_url comes from API callers, so it gets the same SSRF checks and size
+ * cap as any other user-supplied URL.
+ */
+async function fetchCsvRows(csvUrl: string): Promise<Record<string, string>[]> {
+    const response = await requestSafely(csvUrl, {
+        headers: { 'Accept': 'text/csv, text/plain, */*' },
+        maxBytes: MAX_DATA_FILE_SIZE,
+        timeoutMs: CSV_FETCH_TIMEOUT_MS,
+    });
+    if (!response.ok) {
+        throw new Error(`Failed to download CSV: HTTP ${response.status}`);
+    }
+
+    const csvText = response.body.toString('utf8');
+    const parseResult = Papa.parse(csvText, { header: true, skipEmptyLines: true });
+    return parseResult.data as Record<string, string>[];
+}
+
+/**
+ * Job dispatcher
+ * Resolves the job's rows (downloading csv_url if needed), initializes progress
+ * and fans out one batch event per API_JOB_BATCH_SIZE rows.
+ */
+export const renderApiJobFunction = inngest.createFunction(
+    {
+        id: "render-api-job",
+        cancelOn: [{ event: "api/job.cancelled", match: "data.jobId" }],
+    },
+    { event: "api/job.requested" },
+    async ({ event, step }) => {
+        const { jobId } = event.data as RenderApiJobEventData;
+
+        if (!jobId) {
+            throw new Error("Missing required field: jobId");
+        }
+
+        const totalRows = await step.run("prepare-rows", async () => {
+            const supabase = createServiceRoleClient();
+            const job = await getApiJob(supabase, jobId);
+
+            if (!job) throw new Error(`API job not found: ${jobId}`);
+            if (job.status === 'cancelled') return 0;
+
+            let rows = job.rows;
+            if ((!rows || rows.length === 0) && job.csv_url) {
+                try {
+                    console.log(`[Inngest ApiJob] Downloading CSV for job ${jobId}`);
+                    rows = await fetchCsvRows(job.csv_url);
+                    if (rows.length > MAX_ROWS_PER_JOB) {
+                        throw new Error(`Maximum ${MAX_ROWS_PER_JOB} rows per job. The CSV has ${rows.length}.`);
+                    }
+                } catch (e) {
+                    const message = e instanceof Error ? e.message : 'Failed to download CSV';
+                    await updateApiJob(supabase, jobId, {
+                        status: 'failed',
+                        error_message: message,
+                        completed_at: new Date().toISOString(),
+                    });
+                    await setProgress(jobId, { status: 'failed', errors: [message] });
+                    await emitApiJobEvent(supabase, job, 'job.failed', { error: message });
+                    return 0;
+                }
+
+                // Persist parsed rows so batches can slice them without re-downloading
+                const { error } = await supabase
+                    .from('api_jobs')
+                    .update({ rows })
+                    .eq('id', jobId);
+                if (error) throw error;
+            }
+
+            const count = rows?.length || 0;
+            if (count === 0) {
+                await updateApiJob(supabase, jobId, {
+                    status: 'failed',
+                    error_message: 'No rows to render',
+                    completed_at: new Date().toISOString(),
+                });
+                await setProgress(jobId, { status: 'failed', errors: ['No rows to render'] });
+                await emitApiJobEvent(supabase, job, 'job.failed', { error: 'No rows to render' });
+                return 0;
+            }
+
+            // Re-check the quota: CSV row counts are only known now and usage may have grown since submission
+            const limits = job.api_key_id ? await getApiKeyLimits(supabase, job.api_key_id) : null;
+            const remaining = job.api_key_id && limits
+                ? await getRemainingMonthlyPins(supabase, job.api_key_id, limits)
+                : null;
+            if (remaining !== null && count > remaining) {
+                const message = `Monthly pin quota exceeded: ${remaining} pins remaining this month, job has ${count} rows`;
+                await updateApiJob(supabase, jobId, {
+                    status: 'failed',
+                    total_rows: count,
+                    error_message: message,
+                    completed_at: new Date().toISOString(),
+                });
+                await setProgress(jobId, { status: 'failed', errors: [message] });
+                await emitApiJobEvent(supabase, job, 'job.failed', { error: message });
+                return 0;
+            }
+
+            await updateApiJob(supabase, jobId, {
+                status: 'processing',
+                total_rows: count,
+                started_at: new Date().toISOString(),
+            });
+            await setProgress(jobId, { total: count, completed: 0, failed: 0, status: 'processing' });
+            await emitApiJobEvent(supabase, { ...job, total_rows: count }, 'job.started');
+
+            return count;
+        });
+
+        if (totalRows === 0) {
+            return { success: false, batches: 0 };
+        }
+
+        const events = [];
+        for (let startIndex = 0; startIndex < totalRows; startIndex += API_JOB_BATCH_SIZE) {
+            events.push({
+                name: "api/job.batch.requested",
+                data: { jobId, startIndex, batchSize: API_JOB_BATCH_SIZE },
+            });
+        }
+
+        await step.sendEvent("dispatch-batches", events);
+
+        return { success: true, batches: events.length };
+    }
+);
+
+/**
+ * Batch worker
+ * Renders one slice of a job's rows, records per-row results and progress,
+ * and marks the job complete once every row has a result. A retried step skips
+ * rows that already have a result, and progress and usage only count the
+ * results it actually inserted, so nothing is rendered or billed twice.
+ */
+export const renderApiJobBatchFunction = inngest.createFunction(
+    {
+        id: "render-api-job-batch",
+        concurrency: {
+            limit: 5, // Allow 5 concurrent batches per job
+            key: "event.data.jobId",
+        },
+        cancelOn: [{ event: "api/job.cancelled", match: "data.jobId" }],
+    },
+    { event: "api/job.batch.requested" },
+    async ({ event, step }) => {
+        const { jobId, startIndex, batchSize } = event.data as RenderApiJobBatchEventData;
+
+        const outcome = await step.run("render-and-record", async () => {
+            const supabase = createServiceRoleClient();
+            const job = await getApiJob(supabase, jobId);
+
+            if (!job) throw new Error(`API job not found: ${jobId}`);
+            if (job.status === 'cancelled' || job.status === 'failed') {
+                return { skipped: true, successful: 0, failed: 0 };
+            }
+
+            const rows = (job.rows || []).slice(startIndex, startIndex + batchSize);
+            if (rows.length === 0) {
+                return { skipped: true, successful: 0, failed: 0 };
+            }
+
+            // Rows finished by an earlier attempt of this step
+            const done = await listApiJobResultIndexes(supabase, jobId, startIndex, startIndex + rows.length);
+            const pending = rows
+                .map((rowData, offset) => ({ rowData, rowIndex: startIndex + offset }))
+                .filter(({ rowIndex }) => !done.has(rowIndex));
+
+            const { data: template, error: templateError } = await supabase
+                .from('templates')
+                .select('elements, canvas_size, background_color')
+                .eq('id', job.template_id)
+                .single();
+
+            if (templateError || !template) {
+                throw new Error(`Template not found for job ${jobId}: ${templateError?.message}`);
+            }
+
+            // Dynamic imports keep fabric/node out of the Inngest route's cold start
+            const { loadCustomFontsForTemplate } = await import('@/lib/fabric/serverEngine');
+            const { renderAndUploadPin, clampMultiplier } = await import('@/lib/api/v1');
+
+            const elements = template.elements as Element[];
+            await loadCustomFontsForTemplate(
+                elements,
+                process.env.NEXT_PUBLIC_SUPABASE_URL!,
+                process.env.SUPABASE_SERVICE_ROLE_KEY!
+            );
+
+            const output = resolveOutputOptions({
+                format: job.output_format,
+                quality: job.output_quality,
+                maxFileSizeKb: job.max_file_size_kb,
+            });
+
+            const multiplier = clampMultiplier(job.multiplier);
+
+            let successful = 0;
+            let failed = 0;
+
+            for (let i = 0; i < pending.length; i += PARALLEL_LIMIT) {
+                // Stop early if the job was cancelled while this batch was running
+                const current = await getApiJobSummary(supabase, jobId);
+                if (current?.status === 'cancelled') break;
+
+                const chunk = pending.slice(i, i + PARALLEL_LIMIT);
+                const settled = await Promise.allSettled(
+                    chunk.map(({ rowData }) => renderAndUploadPin(
+                        elements,
+                        template.canvas_size,
+                        template.background_color || '#ffffff',
+                        rowData,
+                        job.field_mapping || {},
+                        job.user_id,
+                        multiplier,
+                        supabase,
+                        output
+                    ))
+                );
+
+                const results = settled.map((result, chunkIndex) => {
+                    const { rowIndex } = chunk[chunkIndex];
+                    return result.status === 'fulfilled'
+                        ? { job_id: jobId, row_index: rowIndex, status: 'success' as const, url: result.value.url }
+                        : { job_id: jobId, row_index: rowIndex, status: 'error' as const, error: result.reason?.message || 'Unknown error' };
+                });
+
+                const inserted = await insertApiJobResults(supabase, results);
+
+                const chunkSuccess = inserted.filter(r => r.status === 'success').length;
+                const chunkFailed = inserted.length - chunkSuccess;
+                successful += chunkSuccess;
+                failed += chunkFailed;
+
+                if (chunkSuccess > 0) await incrementProgress(jobId, 'completed', chunkSuccess);
+                if (chunkFailed > 0) await incrementProgress(jobId, 'failed', chunkFailed);
+
+                if (job.api_key_id && chunkSuccess > 0) {
+                    await recordApiKeyUsage(supabase, {
+                        userId: job.user_id,
+                        keyId: job.api_key_id,
+                        pins: chunkSuccess,
+                        metadata: { endpoint: 'jobs', job_id: jobId },
+                    });
+                }
+            }
+
+            return { skipped: false, successful, failed };
+        });
+
+        if (outcome.skipped) {
+            return { success: true, skipped: true };
+        }
+
+        // Last batch to finish flips the job to completed
+        await step.run("finalize-job", async () => {
+            const supabase = createServiceRoleClient();
+            const job = await getApiJobSummary(supabase, jobId);
+            if (!job || job.status !== 'processing') return;
+
+            const { count, error } = await supabase
+                .from('api_job_results')
+                .select('id', { count: 'exact', head: true })
+                .eq('job_id', jobId);
+
+            if (error) throw error;
+
+            if ((count || 0) >= job.total_rows) {
+                // Several batches can get here at once; only the one whose update lands reports it
+                const completed = await completeApiJob(supabase, jobId);
+                if (!completed) return;
+
+                const { count: failedCount } = await supabase
+                    .from('api_job_results')
+                    .select('id', { count: 'exact', head: true })
+                    .eq('job_id', jobId)
+                    .eq('status', 'error');
+
+                await emitApiJobEvent(supabase, completed, 'job.completed', {
+                    generated: (count || 0) - (failedCount || 0),
+                    failed: failedCount || 0,
+                });
+            }
+        });
+
+        return { success: true, ...outcome };
+    }
+);
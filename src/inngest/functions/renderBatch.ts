@@ -6,6 +6,12 @@ import { Element, ImageElement } from '@/types/editor';
 import { setupFabricServerPolyfills } from '@/lib/fabric/server-polyfill';
 import { createServiceRoleClient } from "@/lib/supabaseServer";
 import { incrementProgress } from "@/lib/redis";
+import { emitWebhookEvents, emitCampaignCompletedIfFinished, toPinWebhookEvent, PinEventSource } from "@/lib/webhooks/emit";
+import { queueAutoPublishIfCompleted } from "@/lib/pinterest/publish";
+import { resolveOutputOptions } from "@/lib/output/formats";
+import { encodePin, EncodedPin } from "@/lib/output/encode";
+import { getCachedImage, toDataUrl } from "@/lib/images/cache";
+import { ImageFetchError, unwrapProxyUrl } from "@/lib/images/safeFetch";
 
 // Define types locally since we are extracting logic
 interface RenderBatchEventData {
@@ -17,6 +23,8 @@ interface RenderBatchEventData {
     csvRows?: Record<string, string>[];
     startIndex?: number;
     batchSize?: number;
+    // Render just these rows (data source syncs); pins keep the row's index
+    rowIndexes?: number[];
 }
 
 // Initialize S3 Client for Tebi
@@ -41,19 +49,19 @@ const getS3Client = () => {
 // Upload to S3
 async function uploadToS3(
     s3Client: S3Client,
-    buffer: Buffer,
+    pin: EncodedPin,
     campaignId: string,
     pinIndex: number
 ): Promise<string> {
     const bucket = process.env.TEBI_BUCKET!;
-    const key = `campaigns/${campaignId}/pin-${pinIndex}-${uuidv4().substring(0, 8)}.jpg`;
+    const key = `campaigns/${campaignId}/pin-${pinIndex}-${uuidv4().substring(0, 8)}.${pin.extension}`;
 
     await s3Client.send(
         new PutObjectCommand({
             Bucket: bucket,
             Key: key,
-            Body: buffer,
-            ContentType: 'image/jpeg',
+            Body: pin.buffer,
+            ContentType: pin.contentType,
             ACL: 'public-read',
         })
     );
@@ -85,6 +93,7 @@ export const renderBatchFunction = inngest.createFunction(
             csvRows,
             startIndex = 0,
             batchSize,
+            rowIndexes,
         } = event.data as RenderBatchEventData;
 
         // Validation
@@ -141,10 +150,17 @@ export const renderBatchFunction = inngest.createFunction(
                 }
             }
 
-            // Apply batch slicing if batchSize is set
-            // When fetching from DB/Storage, csvRows is the full dataset.
-            // We only process the segment [startIndex, startIndex + batchSize].
-            if (batchSize && csvRows && csvRows.length > 0) {
+            // Data source syncs name the new and changed rows instead of a range
+            if (rowIndexes && csvRows && csvRows.length > 0) {
+                const allRows = csvRows;
+                rowIndexes = rowIndexes.filter(index => allRows[index] !== undefined);
+                csvRows = rowIndexes.map(index => allRows[index]);
+
+                console.log(`[Inngest Render] Rendering ${csvRows.length} synced rows (Total: ${allRows.length})`);
+            } else if (batchSize && csvRows && csvRows.length > 0) {
+                // Apply batch slicing if batchSize is set
+                // When fetching from DB/Storage, csvRows is the full dataset.
+                // We only process the segment [startIndex, startIndex + batchSize].
                 const safeStartIndex = Math.max(0, Math.min(startIndex, csvRows.length));
                 const endIndex = Math.min(safeStartIndex + batchSize, csvRows.length);
                 
@@ -180,11 +196,13 @@ export const renderBatchFunction = inngest.createFunction(
         if (!backgroundColor) backgroundColor = '#ffffff';
         
         // We need userId for saving results, fetch it if we didn't fetch campaign above
+        // (along with the campaign's output format settings)
         let userId = '';
+        let output = resolveOutputOptions();
         if (!userId) {
              const { data: campaignUser, error: userError } = await supabase
                 .from('campaigns')
-                .select('user_id')
+                .select('user_id, output_format, output_quality, max_file_size_kb')
                 .eq('id', campaignId)
                 .single();
              
@@ -210,6 +228,11 @@ export const renderBatchFunction = inngest.createFunction(
                   userId = simpleCampaign.user_id;
              } else {
                  userId = campaignUser.user_id;
+                 output = resolveOutputOptions({
+                     format: campaignUser.output_format,
+                     quality: campaignUser.output_quality,
+                     maxFileSizeKb: campaignUser.max_file_size_kb,
+                 });
              }
         }
 
@@ -223,7 +246,7 @@ export const renderBatchFunction = inngest.createFunction(
             // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
             // STEP 2: Dynamic import of fabric-dependent modules
             // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-            const { renderTemplate, setServerImageCache, clearServerImageCache, getDynamicImageUrl } = await import('@/lib/fabric/engine');
+            const { renderTemplate, setServerImageCache, setServerImageLoader, clearServerImageCache, getDynamicImageUrl } = await import('@/lib/fabric/engine');
             const { prepareElementsForServerRendering } = await import('@/lib/fabric/serverEngine');
             const { CanvasPool } = await import('@/lib/canvas/CanvasPool');
 
@@ -280,31 +303,20 @@ export const renderBatchFunction = inngest.createFunction(
                 for (let i = 0; i < uniqueUrlArray.length; i += IMAGE_CONCURRENCY) {
                     const chunk = uniqueUrlArray.slice(i, i + IMAGE_CONCURRENCY);
                     await Promise.all(chunk.map(async (url) => {
+                        if (url.startsWith('data:')) {
+                            imageCache.set(url, url);
+                            return;
+                        }
                         try {
-                            let fetchUrl = url;
-                            if (url.startsWith('/api/proxy-image')) {
-                                const urlParams = new URLSearchParams(url.split('?')[1] || '');
-                                const originalUrl = urlParams.get('url');
-                                if (originalUrl) fetchUrl = decodeURIComponent(originalUrl);
-                            }
-                            
-                            const response = await fetch(fetchUrl, {
-                                headers: {
-                                    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-                                    'Accept': 'image/*',
-                                },
-                            });
-                            
-                            if (response.ok) {
-                                const arrayBuffer = await response.arrayBuffer();
-                                const base64 = Buffer.from(arrayBuffer).toString('base64');
-                                const contentType = response.headers.get('content-type') || 'image/png';
-                                imageCache.set(url, `data:${contentType};base64,${base64}`);
+                            // Shared, SSRF-safe cache: later batches of the campaign reuse these downloads
+                            const image = await getCachedImage(unwrapProxyUrl(url));
+                            imageCache.set(url, toDataUrl(image));
+                        } catch (e) {
+                            if (e instanceof ImageFetchError) {
+                                console.warn(`[Inngest Render] Image prefetch refused (${e.code}): ${url.substring(0, 100)}`);
                             } else {
-                                console.warn(`[Inngest Render] Image prefetch HTTP ${response.status}: ${fetchUrl.substring(0, 100)}`);
+                                console.warn(`[Inngest Render] Image prefetch failed: ${url}`, e);
                             }
-                        } catch (e) {
-                            console.warn(`[Inngest Render] Image prefetch failed: ${url}`, e);
                         }
                     }));
                 }
@@ -313,9 +325,11 @@ export const renderBatchFunction = inngest.createFunction(
                 console.log(`[Inngest Render] Image prefetch complete: ${imageCache.size}/${uniqueUrlArray.length} images cached`);
                 
                 setServerImageCache(imageCache);
+                // Anything the prefetch missed still goes through the safe cache
+                setServerImageLoader(async (url) => toDataUrl(await getCachedImage(unwrapProxyUrl(url))));
 
                 // Render function
-                async function renderSinglePin(rowData: Record<string, string>, pinIndex: number): Promise<Buffer> {
+                async function renderSinglePin(rowData: Record<string, string>, pinIndex: number): Promise<EncodedPin> {
                     const canvas = canvasPool.acquire();
                     try {
                         // CRITICAL: Clear canvas before rendering!
@@ -333,14 +347,14 @@ export const renderBatchFunction = inngest.createFunction(
 
                         await renderTemplate(canvas, preparedElements, config, rowData, fieldMapping);
                         
+                        // Export lossless, then encode in the campaign's format within its size budget
                         const dataUrl = canvas.toDataURL({
-                            format: 'jpeg',
-                            quality: 0.80,  // Reduced from 0.85 for faster encoding
+                            format: 'png',
                             multiplier: 1,
                         });
 
                         const base64Data = dataUrl.replace(/^data:image\/\w+;base64,/, '');
-                        return Buffer.from(base64Data, 'base64');
+                        return await encodePin(Buffer.from(base64Data, 'base64'), output, backgroundColor);
                     } finally {
                         canvasPool.release(canvas);
                     }
@@ -352,10 +366,10 @@ export const renderBatchFunction = inngest.createFunction(
                 for (let i = 0; i < csvRows.length; i += PARALLEL_LIMIT) {
                     const chunk = csvRows.slice(i, i + PARALLEL_LIMIT);
                     const chunkPromises = chunk.map(async (rowData, chunkIndex) => {
-                        const pinIndex = startIndex + i + chunkIndex;
+                        const pinIndex = rowIndexes ? rowIndexes[i + chunkIndex] : startIndex + i + chunkIndex;
                         try {
-                            const buffer = await renderSinglePin(rowData, pinIndex);
-                            const url = await uploadToS3(s3Client, buffer, campaignId, pinIndex);
+                            const pin = await renderSinglePin(rowData, pinIndex);
+                            const url = await uploadToS3(s3Client, pin, campaignId, pinIndex);
                             
                             return {
                                 index: pinIndex,
@@ -402,12 +416,13 @@ export const renderBatchFunction = inngest.createFunction(
         console.log(`[Inngest Render] Batch ${startIndex}-${startIndex + (csvRows?.length || 0)}: ${successCount} success, ${failCount} failed, total ${results.length}`);
 
         // 3. Save Results to Supabase
-        await step.run("save-results", async () => {
+        const savedPins: PinEventSource[] = await step.run("save-results", async () => {
             const successResults = results.filter(r => r.success);
+            let saved: PinEventSource[] = [];
             
             // Insert generated pins
             if (successResults.length > 0) {
-                 const { error } = await supabase.from('generated_pins').insert(
+                 const { data, error } = await supabase.from('generated_pins').insert(
                     successResults.map(r => ({
                         campaign_id: campaignId,
                         user_id: userId,
@@ -415,9 +430,10 @@ export const renderBatchFunction = inngest.createFunction(
                         image_url: (r as any).url,
                         status: 'generated'
                     }))
-                );
+                ).select('id, campaign_id, image_url, data_row, status, error_message');
                 
                 if (error) throw error;
+                saved = data || [];
             }
 
             // Update campaign stats atomically using SQL increment
@@ -464,6 +480,28 @@ export const renderBatchFunction = inngest.createFunction(
                     }
                 }
             }
+
+            return saved;
+        });
+
+        // 4. Notify webhook endpoints (after save so completion is visible)
+        await step.run("emit-webhooks", async () => {
+            // Failed renders aren't saved, so their events carry no pin_id
+            const failedPins: PinEventSource[] = results.filter(r => !r.success).map(r => ({
+                id: null,
+                campaign_id: campaignId,
+                image_url: null,
+                data_row: { ...r.rowData, rowIndex: r.index },
+                status: 'failed',
+                error_message: 'error' in r && r.error ? r.error : 'Unknown error',
+            }));
+            await emitWebhookEvents(supabase, userId, [...savedPins, ...failedPins].map(toPinWebhookEvent));
+            await emitCampaignCompletedIfFinished(supabase, campaignId);
+        });
+
+        // 5. Hand finished auto-post campaigns to the Pinterest publisher
+        await step.run("queue-auto-publish", async () => {
+            await queueAutoPublishIfCompleted(supabase, campaignId);
         });
 
         return { success: true, count: results.length };
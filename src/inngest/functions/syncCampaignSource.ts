@@ -0,0 +1,155 @@
+import { inngest } from "@/inngest/client";
+import { NonRetriableError } from "inngest";
+import { createServiceRoleClient } from "@/lib/supabaseServer";
+import { setProgress } from "@/lib/redis";
+import { listCurrentPins } from "@/lib/db/campaignSync";
+import {
+    diffSourceRows,
+    fetchSourceRows,
+    SYNC_RENDER_BATCH_SIZE,
+    SyncCampaignSourceEventData,
+} from "@/lib/campaigns/dataSync";
+import { CampaignDataSource, CampaignSyncSummary } from "@/types/database.types";
+
+/**
+ * Data source sync
+ * Re-fetches a campaign's bound source and diffs it against the pins by key
+ * column. Pins for removed and changed rows are marked stale, kept pins move
+ * to their row's new position and the campaign's rows are replaced; new and
+ * changed rows are then sent to render-batch-campaign, which completes the
+ * campaign when they are all back. Fetch errors only update the summary -
+ * the pins are left alone.
+ */
+export const syncCampaignSourceFunction = inngest.createFunction(
+    {
+        id: "sync-campaign-source",
+        concurrency: {
+            limit: 1, // Two syncs of one campaign would render the same rows twice
+            key: "event.data.campaignId",
+        },
+    },
+    { event: "campaign/sync.requested" },
+    async ({ event, step }) => {
+        const { campaignId } = event.data as SyncCampaignSourceEventData;
+
+        if (!campaignId) {
+            throw new NonRetriableError("Missing required field: campaignId");
+        }
+
+        // Rows stay inside this step; only the indexes to render come out of it
+        const result = await step.run("fetch-and-diff", async () => {
+            const supabase = createServiceRoleClient();
+
+            const { data: campaign, error: campaignError } = await supabase
+                .from('campaigns')
+                .select('id, status, data_source')
+                .eq('id', campaignId)
+                .maybeSingle();
+
+            if (campaignError) throw campaignError;
+            if (!campaign) throw new NonRetriableError(`Campaign not found: ${campaignId}`);
+
+            const source = campaign.data_source as CampaignDataSource | null;
+            if (!source) return { skipped: 'Campaign has no data source' };
+            if (campaign.status === 'processing') return { skipped: 'Campaign is still rendering' };
+
+            const syncedAt = new Date().toISOString();
+            const saveError = async (message: string) => {
+                const summary: CampaignSyncSummary = {
+                    synced_at: syncedAt,
+                    total_rows: 0,
+                    added: 0,
+                    changed: 0,
+                    removed: 0,
+                    unchanged: 0,
+                    skipped_rows: 0,
+                    error: message,
+                };
+                await supabase
+                    .from('campaigns')
+                    .update({ last_synced_at: syncedAt, last_sync_summary: summary })
+                    .eq('id', campaignId);
+                return { error: message };
+            };
+
+            const parsed = await fetchSourceRows(source);
+            if (!parsed.success) {
+                return saveError(parsed.error || 'Could not read the data source');
+            }
+            if (!parsed.headers.includes(source.key_column)) {
+                return saveError(`Key column "${source.key_column}" is missing from the source`);
+            }
+
+            const diff = diffSourceRows(await listCurrentPins(supabase, campaignId), parsed.data, source.key_column);
+            if (diff.rows.length === 0) {
+                return saveError(`No rows have a value in the key column "${source.key_column}"`);
+            }
+
+            const { error: rpcError } = await supabase.rpc('apply_source_sync', {
+                p_campaign_id: campaignId,
+                p_stale_ids: diff.stalePinIds,
+                p_row_indexes: diff.reindex,
+            });
+            if (rpcError) throw rpcError;
+
+            const summary: CampaignSyncSummary = {
+                synced_at: syncedAt,
+                total_rows: diff.rows.length,
+                added: diff.added,
+                changed: diff.changed,
+                removed: diff.removed,
+                unchanged: diff.unchanged,
+                skipped_rows: diff.skippedRows,
+            };
+            const hasWork = diff.renderRowIndexes.length > 0;
+
+            const { error: updateError } = await supabase
+                .from('campaigns')
+                .update({
+                    csv_data: diff.rows,
+                    total_pins: diff.rows.length,
+                    generated_pins: diff.unchanged,
+                    current_index: diff.unchanged,
+                    status: hasWork ? 'processing' : 'completed',
+                    paused_at: null,
+                    ...(hasWork ? {} : { completed_at: syncedAt }),
+                    last_synced_at: syncedAt,
+                    last_sync_summary: summary,
+                    updated_at: syncedAt,
+                })
+                .eq('id', campaignId);
+            if (updateError) throw updateError;
+
+            return { summary, renderRowIndexes: diff.renderRowIndexes };
+        });
+
+        if (!('renderRowIndexes' in result) || !result.renderRowIndexes || result.renderRowIndexes.length === 0) {
+            console.log(`[Inngest Sync] Campaign ${campaignId}: nothing to render`, result);
+            return result;
+        }
+
+        const rowIndexes = result.renderRowIndexes;
+
+        await step.run("init-progress", async () => {
+            await setProgress(campaignId, {
+                total: rowIndexes.length,
+                completed: 0,
+                failed: 0,
+                status: 'processing',
+            });
+        });
+
+        const events = [];
+        for (let i = 0; i < rowIndexes.length; i += SYNC_RENDER_BATCH_SIZE) {
+            const batch = rowIndexes.slice(i, i + SYNC_RENDER_BATCH_SIZE);
+            events.push({
+                name: "campaign/render.requested",
+                data: { campaignId, rowIndexes: batch, batchSize: batch.length },
+            });
+        }
+        await step.sendEvent("render-changed-rows", events);
+
+        console.log(`[Inngest Sync] Campaign ${campaignId}: rendering ${rowIndexes.length} rows in ${events.length} batches`);
+        return { summary: result.summary, rendered: rowIndexes.length };
+    }
+);
@@ -0,0 +1,31 @@
+import { inngest } from "@/inngest/client";
+import { createServiceRoleClient } from "@/lib/supabaseServer";
+import { listSyncDueCampaignIds } from "@/lib/db/campaignSync";
+import { SyncCampaignSourceEventData } from "@/lib/campaigns/dataSync";
+
+/**
+ * Scheduled data source syncs
+ * Every hour, hands each campaign whose hourly or daily sync has come to the
+ * sync-campaign-source function.
+ */
+export const syncDataSourcesFunction = inngest.createFunction(
+    { id: "sync-data-sources" },
+    { cron: "0 * * * *" },
+    async ({ step }) => {
+        const campaignIds = await step.run("find-due-sources", async () => {
+            return listSyncDueCampaignIds(createServiceRoleClient(), new Date());
+        });
+
+        if (campaignIds.length === 0) {
+            return { campaigns: 0 };
+        }
+
+        await step.sendEvent("sync-due-sources", campaignIds.map(campaignId => ({
+            name: "campaign/sync.requested",
+            data: { campaignId } satisfies SyncCampaignSourceEventData,
+        })));
+
+        console.log(`[Inngest Sync] ${campaignIds.length} campaigns due for a data source sync`);
+        return { campaigns: campaignIds.length };
+    }
+);
@@ -0,0 +1,83 @@
+/**
+ * Unit tests for the sliding window rate limiter
+ */
+
+// In-memory stand-in for the Upstash sorted set commands used by the limiter
+const sortedSets = new Map<string, { score: number; member: string }[]>();
+
+jest.mock('@upstash/redis', () => ({
+    Redis: jest.fn().mockImplementation(() => ({
+        zremrangebyscore: async (key: string, min: number, max: number) => {
+            const entries = sortedSets.get(key) || [];
+            sortedSets.set(key, entries.filter(e => e.score < min || e.score > max));
+        },
+        zcard: async (key: string) => (sortedSets.get(key) || []).length,
+        zadd: async (key: string, entry: { score: number; member: string }) => {
+            const entries = sortedSets.get(key) || [];
+            entries.push(entry);
+            entries.sort((a, b) => a.score - b.score);
+            sortedSets.set(key, entries);
+        },
+        zrange: async (key: string, start: number, stop: number) => {
+            const entries = (sortedSets.get(key) || []).slice(start, stop + 1);
+            return entries.flatMap(e => [e.member, e.score]);
+        },
+        expire: async () => 1,
+    })),
+}));
+
+import { consumeRateLimit, checkRateLimit } from '../redis';
+
+describe('consumeRateLimit', () => {
+    const NOW = 1_700_000_000_000;
+
+    beforeAll(() => {
+        process.env.KV_REST_API_URL = 'https://redis.example.com';
+        process.env.KV_REST_API_TOKEN = 'token';
+    });
+
+    beforeEach(() => {
+        sortedSets.clear();
+        jest.spyOn(Date, 'now').mockReturnValue(NOW);
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('counts down remaining requests in the window', async () => {
+        const first = await consumeRateLimit('api:key-1', 3, 60);
+        const second = await consumeRateLimit('api:key-1', 3, 60);
+
+        expect(first).toEqual({ allowed: true, limit: 3, remaining: 2, reset: NOW / 1000 + 60 });
+        expect(second.remaining).toBe(1);
+    });
+
+    it('counts requests made in the same millisecond separately', async () => {
+        await consumeRateLimit('api:key-1', 2, 60);
+        await consumeRateLimit('api:key-1', 2, 60);
+
+        expect((await consumeRateLimit('api:key-1', 2, 60)).allowed).toBe(false);
+    });
+
+    it('rejects once the limit is reached and resets when the oldest request expires', async () => {
+        await consumeRateLimit('api:key-1', 2, 60);
+        jest.spyOn(Date, 'now').mockReturnValue(NOW + 10_000);
+        await consumeRateLimit('api:key-1', 2, 60);
+
+        const blocked = await consumeRateLimit('api:key-1', 2, 60);
+        expect(blocked).toEqual({ allowed: false, limit: 2, remaining: 0, reset: NOW / 1000 + 60 });
+
+        // Oldest request falls out of the window
+        jest.spyOn(Date, 'now').mockReturnValue(NOW + 61_000);
+        expect((await consumeRateLimit('api:key-1', 2, 60)).allowed).toBe(true);
+    });
+
+    it('keeps separate windows per key', async () => {
+        await consumeRateLimit('api:key-1', 1, 60);
+
+        expect(await checkRateLimit('api:key-1', 1, 60)).toBe(false);
+        expect(await checkRateLimit('api:key-2', 1, 60)).toBe(true);
+    });
+});
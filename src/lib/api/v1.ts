@@ -0,0 +1,380 @@
+/**
+ * Shared helpers for the public /api/v1 endpoints
+ *
+ * Authentication, rate limiting, error responses and pin rendering used by
+ * both the synchronous generate endpoint and the asynchronous jobs API.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { StaticCanvas } from 'fabric/node';
+import { v4 as uuidv4 } from 'uuid';
+import { Element } from '@/types/editor';
+import { renderTemplateServer, RenderConfig, FieldMapping } from '@/lib/fabric/serverEngine';
+import { createServiceRoleClient } from '@/lib/supabaseServer';
+import { validateApiKey, getRemainingMonthlyPins, ApiKeyLimits } from '@/lib/db/apiKeys';
+import { hasApiKeyScope, isTemplateAllowed } from '@/lib/auth/apiKeyAuth';
+import { ApiKeyScope, TemplateStatus } from '@/types/database.types';
+import { consumeRateLimit, RateLimitResult } from '@/lib/redis';
+import { uploadToS3, isTebiConfigured } from '@/lib/s3';
+import { OUTPUT_FORMATS, OutputOptions, isOutputFormat, resolveOutputOptions } from '@/lib/output/formats';
+import { encodePin } from '@/lib/output/encode';
+
+// Error codes
+export type ApiErrorCode =
+    | 'INVALID_API_KEY'
+    | 'API_KEY_EXPIRED'
+    | 'INSUFFICIENT_SCOPE'
+    | 'TEMPLATE_NOT_ALLOWED'
+    | 'TEMPLATE_NOT_APPROVED'
+    | 'TEMPLATE_NOT_FOUND'
+    | 'JOB_NOT_FOUND'
+    | 'VALIDATION_ERROR'
+    | 'RATE_LIMIT'
+    | 'SERVER_ERROR';
+
+export interface ApiErrorResponse {
+    success: false;
+    error: string;
+    code: ApiErrorCode;
+}
+
+/**
+ * Extract API key from request headers
+ * Supports: Authorization: Bearer pingen_xxx OR X-API-Key: pingen_xxx
+ */
+export function extractApiKey(request: NextRequest): string | null {
+    // Try Authorization header first (Bearer token)
+    const authHeader = request.headers.get('Authorization');
+    if (authHeader?.startsWith('Bearer ')) {
+        return authHeader.substring(7);
+    }
+
+    // Try X-API-Key header
+    const apiKeyHeader = request.headers.get('X-API-Key');
+    if (apiKeyHeader) {
+        return apiKeyHeader;
+    }
+
+    return null;
+}
+
+/**
+ * Create error response helper
+ */
+export function apiErrorResponse(error: string, code: ApiErrorCode, status: number): NextResponse<ApiErrorResponse> {
+    return NextResponse.json({ success: false, error, code }, { status });
+}
+
+export interface ApiKeyContext {
+    id: string;
+    workspaceId: string; // Templates come from this workspace only
+    limits: ApiKeyLimits;
+    scopes: ApiKeyScope[];
+    allowedTemplateIds: string[] | null; // Template short ids, null = all
+}
+
+/**
+ * Standard rate limit headers for a per-key window
+ */
+export function rateLimitHeaders(rateLimit: RateLimitResult): Record<string, string> {
+    const headers: Record<string, string> = {
+        'X-RateLimit-Limit': String(rateLimit.limit),
+        'X-RateLimit-Remaining': String(rateLimit.remaining),
+        'X-RateLimit-Reset': String(rateLimit.reset),
+    };
+    if (!rateLimit.allowed) {
+        headers['Retry-After'] = String(Math.max(1, rateLimit.reset - Math.floor(Date.now() / 1000)));
+    }
+    return headers;
+}
+
+/**
+ * Attach X-RateLimit-* headers to a response
+ */
+export function withRateLimitHeaders<T>(response: NextResponse<T>, rateLimit: RateLimitResult): NextResponse<T> {
+    for (const [name, value] of Object.entries(rateLimitHeaders(rateLimit))) {
+        response.headers.set(name, value);
+    }
+    return response;
+}
+
+/**
+ * Authenticate a v1 request by API key, check it grants the endpoint's scope
+ * and apply the key's per-minute rate limit
+ * Returns the owning user ID and key, or a ready-to-return 401/403/429 response.
+ */
+export async function authenticateApiRequest(
+    request: NextRequest,
+    supabase: ReturnType<typeof createServiceRoleClient>,
+    requiredScope: ApiKeyScope
+): Promise<
+    | { userId: string; apiKey: ApiKeyContext; rateLimit: RateLimitResult; response?: never }
+    | { userId?: never; apiKey?: never; rateLimit?: never; response: NextResponse<ApiErrorResponse> }
+> {
+    const key = extractApiKey(request);
+    if (!key) {
+        return {
+            response: apiErrorResponse(
+                'Missing API key. Provide via Authorization: Bearer <key> or X-API-Key header.',
+                'INVALID_API_KEY',
+                401
+            ),
+        };
+    }
+
+    const validation = await validateApiKey(supabase, key);
+    const { userId, workspaceId, keyId, limits, scopes, allowedTemplateIds } = validation;
+    if (!validation.valid || !userId || !workspaceId || !keyId || !limits || !scopes || allowedTemplateIds === undefined) {
+        return {
+            response: validation.reason === 'expired'
+                ? apiErrorResponse(validation.error || 'API key has expired', 'API_KEY_EXPIRED', 401)
+                : apiErrorResponse(validation.error || 'Invalid API key', 'INVALID_API_KEY', 401),
+        };
+    }
+
+    if (!hasApiKeyScope(scopes, requiredScope)) {
+        return {
+            response: apiErrorResponse(
+                `API key is missing the required scope: ${requiredScope}`,
+                'INSUFFICIENT_SCOPE',
+                403
+            ),
+        };
+    }
+
+    const rateLimit = await consumeRateLimit(`api:${keyId}`, limits.rateLimitPerMinute, 60);
+    if (!rateLimit.allowed) {
+        return {
+            response: withRateLimitHeaders(
+                apiErrorResponse(
+                    `Rate limit exceeded: ${limits.rateLimitPerMinute} requests per minute for this API key`,
+                    'RATE_LIMIT',
+                    429
+                ),
+                rateLimit
+            ),
+        };
+    }
+
+    return { userId, apiKey: { id: keyId, workspaceId, limits, scopes, allowedTemplateIds }, rateLimit };
+}
+
+/**
+ * Check that a key may use a template
+ * Returns a ready-to-return 403 response when the template isn't on the key's allow-list.
+ */
+export function checkTemplateAccess(
+    apiKey: ApiKeyContext,
+    templateShortId: string
+): NextResponse<ApiErrorResponse> | null {
+    if (isTemplateAllowed(apiKey.allowedTemplateIds, templateShortId)) {
+        return null;
+    }
+
+    return apiErrorResponse(
+        `API key is not allowed to use template: ${templateShortId}`,
+        'TEMPLATE_NOT_ALLOWED',
+        403
+    );
+}
+
+/**
+ * Check that a template has passed review
+ * Returns a ready-to-return 403 response for drafts and templates still in review.
+ */
+export function checkTemplateApproved(
+    status: TemplateStatus,
+    templateShortId: string
+): NextResponse<ApiErrorResponse> | null {
+    if (status === 'approved') {
+        return null;
+    }
+
+    return apiErrorResponse(
+        `Template ${templateShortId} is not approved yet (status: ${status})`,
+        'TEMPLATE_NOT_APPROVED',
+        403
+    );
+}
+
+/**
+ * Check that a key's monthly pin quota covers a request
+ * Returns a ready-to-return 429 response when it doesn't, or 503 when usage
+ * can't be read.
+ */
+export async function checkPinQuota(
+    supabase: ReturnType<typeof createServiceRoleClient>,
+    apiKey: ApiKeyContext,
+    requestedPins: number
+): Promise<NextResponse<ApiErrorResponse> | null> {
+    let remaining: number | null;
+    try {
+        remaining = await getRemainingMonthlyPins(supabase, apiKey.id, apiKey.limits);
+    } catch {
+        return apiErrorResponse('Could not check the monthly pin quota, please retry', 'SERVER_ERROR', 503);
+    }
+
+    if (remaining === null || requestedPins <= remaining) {
+        return null;
+    }
+
+    return apiErrorResponse(
+        `Monthly pin quota exceeded: ${remaining} of ${apiKey.limits.monthlyPinQuota} pins remaining this month, ${requestedPins} requested`,
+        'RATE_LIMIT',
+        429
+    );
+}
+
+// Output fields accepted by the generate and jobs endpoints
+export interface OutputRequestFields {
+    format?: unknown;
+    quality?: unknown;
+    max_file_size_kb?: unknown;
+}
+
+/**
+ * Validate the optional format, quality and max_file_size_kb request fields
+ * Returns resolved output options, or a ready-to-return 400 response.
+ */
+export function parseOutputOptions(
+    body: OutputRequestFields
+): { options: OutputOptions; response?: never } | { options?: never; response: NextResponse<ApiErrorResponse> } {
+    const { format, quality, max_file_size_kb } = body;
+
+    if (format !== undefined && (typeof format !== 'string' || !isOutputFormat(format))) {
+        return {
+            response: apiErrorResponse(
+                `format must be one of: ${OUTPUT_FORMATS.map(f => f.format).join(', ')}`,
+                'VALIDATION_ERROR',
+                400
+            ),
+        };
+    }
+
+    if (quality !== undefined && (typeof quality !== 'number' || !Number.isInteger(quality) || quality < 1 || quality > 100)) {
+        return { response: apiErrorResponse('quality must be an integer from 1 to 100', 'VALIDATION_ERROR', 400) };
+    }
+
+    if (max_file_size_kb !== undefined && (typeof max_file_size_kb !== 'number' || !Number.isInteger(max_file_size_kb) || max_file_size_kb < 1)) {
+        return { response: apiErrorResponse('max_file_size_kb must be a positive integer', 'VALIDATION_ERROR', 400) };
+    }
+
+    return {
+        options: resolveOutputOptions({
+            format: format as OutputOptions['format'] | undefined,
+            quality: quality as number | undefined,
+            maxFileSizeKb: max_file_size_kb as number | undefined,
+        }),
+    };
+}
+
+// Resolution multiplier range accepted by the generate and jobs endpoints
+export const MIN_MULTIPLIER = 0.5;
+export const MAX_MULTIPLIER = 4;
+
+/**
+ * Check the optional multiplier request field
+ * Returns a ready-to-return 400 response when it isn't a number in range.
+ */
+export function checkMultiplier(multiplier: unknown): NextResponse<ApiErrorResponse> | null {
+    if (typeof multiplier === 'number' && multiplier >= MIN_MULTIPLIER && multiplier <= MAX_MULTIPLIER) {
+        return null;
+    }
+
+    return apiErrorResponse(
+        `multiplier must be a number from ${MIN_MULTIPLIER} to ${MAX_MULTIPLIER}`,
+        'VALIDATION_ERROR',
+        400
+    );
+}
+
+/**
+ * Bring a stored multiplier into range (jobs queued before it was validated)
+ */
+export function clampMultiplier(multiplier: unknown): number {
+    const value = Number(multiplier) || 1;
+    return Math.min(MAX_MULTIPLIER, Math.max(MIN_MULTIPLIER, value));
+}
+
+/**
+ * Render a single pin, encode it in the requested format and upload to storage
+ */
+export async function renderAndUploadPin(
+    elements: Element[],
+    canvasSize: { width: number; height: number },
+    backgroundColor: string,
+    rowData: Record<string, string>,
+    fieldMapping: FieldMapping,
+    userId: string,
+    multiplier: number,
+    supabase: ReturnType<typeof createServiceRoleClient>, // Reuse client for performance
+    output: OutputOptions = resolveOutputOptions()
+): Promise<{ url: string }> {
+
+    // Initialize Headless Canvas using fabric/node for server-side rendering
+    const canvas = new StaticCanvas(undefined, {
+        width: canvasSize.width,
+        height: canvasSize.height,
+    });
+
+    try {
+        // Render using shared engine
+        const config: RenderConfig = {
+            width: canvasSize.width,
+            height: canvasSize.height,
+            backgroundColor,
+        };
+
+        await renderTemplateServer(canvas, elements, config, rowData, fieldMapping);
+
+        // Export lossless, then encode in the requested format within its size budget
+        const dataUrl = canvas.toDataURL({
+            format: 'png',
+            multiplier,
+        });
+        const base64Data = dataUrl.replace(/^data:image\/\w+;base64,/, '');
+        const { buffer, contentType, extension } = await encodePin(
+            Buffer.from(base64Data, 'base64'),
+            output,
+            backgroundColor
+        );
+
+        // Upload to Tebi S3 Storage (preferred) or fall back to Supabase
+        const timestamp = Date.now();
+        const fileName = `pins/${userId}/${timestamp}_${uuidv4()}.${extension}`;
+
+        if (isTebiConfigured()) {
+            // Use Tebi S3
+            const publicUrl = await uploadToS3(fileName, buffer, contentType);
+            if (publicUrl) {
+                console.log(`[API] Uploaded to Tebi S3: ${publicUrl}`);
+                return { url: publicUrl };
+            }
+            // Fall through to Supabase if Tebi fails
+            console.warn('[API] Tebi upload failed, falling back to Supabase');
+        }
+
+        // Fallback: Upload to Supabase Storage
+        const bucketName = 'generated_pins';
+        const { error: uploadError } = await supabase.storage
+            .from(bucketName)
+            .upload(fileName, buffer, {
+                contentType,
+                upsert: false,
+            });
+
+        if (uploadError) {
+            throw new Error(`Upload failed: ${uploadError.message}`);
+        }
+
+        // Get public URL from Supabase
+        const { data: { publicUrl } } = supabase.storage
+            .from(bucketName)
+            .getPublicUrl(fileName);
+
+        console.log(`[API] Uploaded to Supabase: ${publicUrl}`);
+        return { url: publicUrl };
+    } finally {
+        // Always cleanup canvas
+        canvas.dispose();
+    }
+}
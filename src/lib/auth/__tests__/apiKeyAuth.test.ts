@@ -0,0 +1,72 @@
+/**
+ * Unit tests for API key generation and restriction checks
+ */
+
+import {
+    generateApiKey,
+    hasApiKeyScope,
+    isApiKeyExpired,
+    isTemplateAllowed,
+    rotationGraceExpiry,
+    verifyApiKey,
+} from '../apiKeyAuth';
+
+const NOW = new Date('2026-03-01T12:00:00.000Z');
+
+describe('generateApiKey', () => {
+    it('returns a prefixed key whose hash verifies', () => {
+        const { key, hash, prefix } = generateApiKey();
+
+        expect(key).toMatch(/^pingen_[0-9a-f]{64}$/);
+        expect(prefix).toBe(key.substring(0, 10));
+        expect(verifyApiKey(key, hash)).toBe(true);
+        expect(verifyApiKey(`${key}x`, hash)).toBe(false);
+    });
+});
+
+describe('isApiKeyExpired', () => {
+    it('never expires keys without an expiry date', () => {
+        expect(isApiKeyExpired(null, NOW)).toBe(false);
+    });
+
+    it('compares the expiry date with the current time', () => {
+        expect(isApiKeyExpired('2026-03-01T12:00:01.000Z', NOW)).toBe(false);
+        expect(isApiKeyExpired('2026-03-01T12:00:00.000Z', NOW)).toBe(true);
+        expect(isApiKeyExpired('2026-02-01T00:00:00.000Z', NOW)).toBe(true);
+    });
+});
+
+describe('hasApiKeyScope', () => {
+    it('only grants listed scopes', () => {
+        expect(hasApiKeyScope(['generate'], 'generate')).toBe(true);
+        expect(hasApiKeyScope(['generate'], 'templates:read')).toBe(false);
+        expect(hasApiKeyScope([], 'generate')).toBe(false);
+    });
+});
+
+describe('isTemplateAllowed', () => {
+    it('allows every template when there is no allow-list', () => {
+        expect(isTemplateAllowed(null, 'TMPL-abc123xy')).toBe(true);
+    });
+
+    it('only allows listed templates otherwise', () => {
+        expect(isTemplateAllowed(['TMPL-abc123xy'], 'TMPL-abc123xy')).toBe(true);
+        expect(isTemplateAllowed(['TMPL-abc123xy'], 'TMPL-zzz999zz')).toBe(false);
+        expect(isTemplateAllowed([], 'TMPL-abc123xy')).toBe(false);
+    });
+});
+
+describe('rotationGraceExpiry', () => {
+    it('keeps a rotated key alive for the grace period', () => {
+        expect(rotationGraceExpiry(null, 24, NOW)).toBe('2026-03-02T12:00:00.000Z');
+    });
+
+    it('never extends a key past its existing expiry', () => {
+        expect(rotationGraceExpiry('2026-03-01T18:00:00.000Z', 24, NOW)).toBe('2026-03-01T18:00:00.000Z');
+        expect(rotationGraceExpiry('2026-04-01T00:00:00.000Z', 24, NOW)).toBe('2026-03-02T12:00:00.000Z');
+    });
+
+    it('expires the old key immediately with no grace period', () => {
+        expect(rotationGraceExpiry(null, 0, NOW)).toBe(NOW.toISOString());
+    });
+});
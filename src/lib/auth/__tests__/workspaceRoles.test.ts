@@ -0,0 +1,47 @@
+/**
+ * Unit tests for workspace role checks and active workspace selection
+ */
+
+import { canEditWorkspace, canManageWorkspace, pickActiveWorkspace } from '../workspaceRoles';
+
+const workspace = (id: string, ownerId: string, isPersonal = false) => ({ id, owner_id: ownerId, is_personal: isPersonal });
+
+describe('canEditWorkspace', () => {
+    it('allows owners and editors', () => {
+        expect(canEditWorkspace('owner')).toBe(true);
+        expect(canEditWorkspace('editor')).toBe(true);
+    });
+
+    it('refuses viewers and non-members', () => {
+        expect(canEditWorkspace('viewer')).toBe(false);
+        expect(canEditWorkspace(null)).toBe(false);
+    });
+});
+
+describe('canManageWorkspace', () => {
+    it('allows owners only', () => {
+        expect(canManageWorkspace('owner')).toBe(true);
+        expect(canManageWorkspace('editor')).toBe(false);
+        expect(canManageWorkspace(undefined)).toBe(false);
+    });
+});
+
+describe('pickActiveWorkspace', () => {
+    const personal = workspace('personal', 'me', true);
+    const team = workspace('team', 'someone-else');
+    const othersPersonal = workspace('theirs', 'someone-else', true);
+
+    it('keeps the remembered workspace', () => {
+        expect(pickActiveWorkspace([personal, team], 'team', 'me')).toBe(team);
+    });
+
+    it('falls back to the personal workspace when no longer a member', () => {
+        expect(pickActiveWorkspace([othersPersonal, team, personal], 'removed', 'me')).toBe(personal);
+        expect(pickActiveWorkspace([team, personal], null, 'me')).toBe(personal);
+    });
+
+    it('falls back to the first workspace, then null', () => {
+        expect(pickActiveWorkspace([team], null, 'me')).toBe(team);
+        expect(pickActiveWorkspace([], 'team', 'me')).toBeNull();
+    });
+});
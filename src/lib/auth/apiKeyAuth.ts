@@ -1,4 +1,5 @@
 import { randomBytes, createHash, timingSafeEqual } from 'crypto';
+import { ApiKeyScope } from '@/types/database.types';
 
 // Configuration
 const KEY_PREFIX = 'pingen_';
@@ -55,3 +56,40 @@ export function verifyApiKey(inputKey: string, storedHash: string): boolean {
 
     return timingSafeEqual(inputBuffer, storedBuffer);
 }
+
+/**
+ * Whether a key's expiry date has passed (keys without one never expire)
+ */
+export function isApiKeyExpired(expiresAt: string | null, now: Date = new Date()): boolean {
+    if (!expiresAt) return false;
+    return new Date(expiresAt).getTime() <= now.getTime();
+}
+
+/**
+ * Whether a key has been granted a scope
+ */
+export function hasApiKeyScope(scopes: readonly ApiKeyScope[], required: ApiKeyScope): boolean {
+    return scopes.includes(required);
+}
+
+/**
+ * Whether a key may use a template (a null allow-list means every template)
+ */
+export function isTemplateAllowed(allowedTemplateIds: readonly string[] | null, shortId: string): boolean {
+    if (allowedTemplateIds === null) return true;
+    return allowedTemplateIds.includes(shortId);
+}
+
+/**
+ * Expiry for a key that is being rotated out
+ * The old key keeps working for the grace period, but never longer than it already would have.
+ */
+export function rotationGraceExpiry(
+    currentExpiresAt: string | null,
+    graceHours: number,
+    now: Date = new Date()
+): string {
+    const graceEnd = now.getTime() + graceHours * 60 * 60 * 1000;
+    const current = currentExpiresAt ? new Date(currentExpiresAt).getTime() : Infinity;
+    return new Date(Math.min(graceEnd, current)).toISOString();
+}
@@ -0,0 +1,21 @@
+import { ApiKeyScope } from '@/types/database.types';
+
+/**
+ * Scopes an API key can be granted
+ * Safe to import from client components (the dashboard renders this list).
+ */
+export const API_KEY_SCOPES: { scope: ApiKeyScope; label: string; description: string }[] = [
+    { scope: 'generate', label: 'Generate', description: 'Render pins with /api/v1/generate and /api/v1/jobs' },
+    { scope: 'templates:read', label: 'Read templates', description: 'List templates and their dynamic fields with /api/v1/templates' },
+    { scope: 'campaigns:write', label: 'Write campaigns', description: 'Create campaigns and start rendering them with /api/v1/campaigns' },
+];
+
+export const DEFAULT_API_KEY_SCOPES: ApiKeyScope[] = ['generate'];
+
+// Old key keeps working this long after a rotation unless told otherwise
+export const DEFAULT_ROTATION_GRACE_HOURS = 24;
+export const MAX_ROTATION_GRACE_HOURS = 24 * 7;
+
+export function isApiKeyScope(value: string): value is ApiKeyScope {
+    return API_KEY_SCOPES.some(s => s.scope === value);
+}
@@ -0,0 +1,41 @@
+import { DbWorkspace, WorkspaceRole } from '@/types/database.types';
+
+/**
+ * Workspace roles and what each one may do
+ * Safe to import from client components (the members dialog renders this list).
+ */
+export const WORKSPACE_ROLES: { role: WorkspaceRole; label: string; description: string }[] = [
+    { role: 'owner', label: 'Owner', description: 'Manages members and invitations, and can delete the workspace' },
+    { role: 'editor', label: 'Editor', description: 'Creates and edits templates, fonts, categories and campaigns' },
+    { role: 'viewer', label: 'Viewer', description: 'Opens and browses everything, but can\'t change it' },
+];
+
+/** Roles an invitation can grant (a workspace has one owner) */
+export const INVITABLE_ROLES = WORKSPACE_ROLES.filter(r => r.role !== 'owner');
+
+export function getRoleLabel(role: WorkspaceRole): string {
+    return WORKSPACE_ROLES.find(r => r.role === role)?.label ?? role;
+}
+
+export function canEditWorkspace(role: WorkspaceRole | null | undefined): boolean {
+    return role === 'owner' || role === 'editor';
+}
+
+export function canManageWorkspace(role: WorkspaceRole | null | undefined): boolean {
+    return role === 'owner';
+}
+
+/**
+ * Pick the workspace to work in: the remembered one while the user is still
+ * a member, otherwise their personal workspace
+ */
+export function pickActiveWorkspace<T extends Pick<DbWorkspace, 'id' | 'owner_id' | 'is_personal'>>(
+    workspaces: T[],
+    storedId: string | null,
+    userId: string
+): T | null {
+    return workspaces.find(ws => ws.id === storedId)
+        ?? workspaces.find(ws => ws.is_personal && ws.owner_id === userId)
+        ?? workspaces[0]
+        ?? null;
+}
@@ -2,7 +2,8 @@
 
 import React, { createContext, useContext, useState, useCallback, ReactNode } from 'react';
 import { TemplateListItem } from '@/lib/db/templates';
-import { DistributionMode } from '@/types/database.types';
+import { DistributionConfig, DistributionMode } from '@/types/database.types';
+import { OutputOptions, resolveOutputOptions } from '@/lib/output/formats';
 
 // ============================================
 // Types
@@ -37,9 +38,11 @@ export interface CampaignWizardState {
     selectedTemplates: TemplateListItem[]; // NEW: Multi-template array
     selectionMode: SelectionMode; // NEW: 'single' or 'multiple'
     distributionMode: DistributionMode; // NEW: How templates are assigned to rows
+    distributionConfig: DistributionConfig; // Weights / rules for the weighted and rules modes
     fieldMapping: FieldMapping;
     campaignName: string;
     campaignDescription: string;
+    outputOptions: OutputOptions; // Format, quality and size budget for generated pins
     previewStatus: PreviewStatus;
 }
 
@@ -56,6 +59,7 @@ export interface CampaignWizardActions {
     updateFieldMapping: (field: string, column: string) => void;
     setCampaignName: (name: string) => void;
     setCampaignDescription: (description: string) => void;
+    setOutputOptions: (options: OutputOptions) => void;
     setPreviewStatus: (status: PreviewStatus) => void;
     resetWizard: () => void;
     
@@ -66,6 +70,7 @@ export interface CampaignWizardActions {
     removeTemplate: (templateId: string) => void;
     reorderTemplates: (fromIndex: number, toIndex: number) => void;
     setDistributionMode: (mode: DistributionMode) => void;
+    setDistributionConfig: (config: DistributionConfig) => void;
     
     // Computed properties
     getActiveTemplates: () => TemplateListItem[]; // Returns single or multi based on mode
@@ -88,9 +93,11 @@ const initialState: CampaignWizardState = {
     selectedTemplates: [],
     selectionMode: 'single',
     distributionMode: 'sequential',
+    distributionConfig: {},
     fieldMapping: {},
     campaignName: '',
     campaignDescription: '',
+    outputOptions: resolveOutputOptions(),
     previewStatus: 'idle',
 };
 
@@ -157,6 +164,10 @@ export function CampaignWizardProvider({ children }: { children: ReactNode }) {
         setState((prev) => ({ ...prev, campaignDescription: description }));
     }, []);
 
+    const setOutputOptions = useCallback((options: OutputOptions) => {
+        setState((prev) => ({ ...prev, outputOptions: options }));
+    }, []);
+
     const setPreviewStatus = useCallback((status: PreviewStatus) => {
         setState((prev) => ({ ...prev, previewStatus: status }));
     }, []);
@@ -241,6 +252,10 @@ export function CampaignWizardProvider({ children }: { children: ReactNode }) {
         setState((prev) => ({ ...prev, distributionMode: mode }));
     }, []);
 
+    const setDistributionConfig = useCallback((config: DistributionConfig) => {
+        setState((prev) => ({ ...prev, distributionConfig: config }));
+    }, []);
+
     const getActiveTemplates = useCallback((): TemplateListItem[] => {
         if (state.selectionMode === 'multiple') {
             return state.selectedTemplates;
@@ -287,6 +302,18 @@ export function CampaignWizardProvider({ children }: { children: ReactNode }) {
             } else if (state.selectedTemplates.length > MAX_TEMPLATES) {
                 errors.push(`Maximum ${MAX_TEMPLATES} templates allowed`);
             }
+
+            // Weighted / rules modes need their settings
+            if (state.selectedTemplates.length > 1) {
+                const { weights, rules } = state.distributionConfig;
+                if (state.distributionMode === 'weighted' &&
+                    !state.selectedTemplates.some(t => (weights?.[t.id] ?? 0) > 0)) {
+                    errors.push('Give at least one template a percentage');
+                }
+                if (state.distributionMode === 'rules' && !rules?.some(r => r.column && r.template_id)) {
+                    errors.push('Add at least one distribution rule');
+                }
+            }
         } else {
             if (!state.selectedTemplate) {
                 errors.push('Please select a template');
@@ -319,6 +346,7 @@ export function CampaignWizardProvider({ children }: { children: ReactNode }) {
         updateFieldMapping,
         setCampaignName,
         setCampaignDescription,
+        setOutputOptions,
         setPreviewStatus,
         resetWizard,
         // Multi-template actions
@@ -328,6 +356,7 @@ export function CampaignWizardProvider({ children }: { children: ReactNode }) {
         removeTemplate,
         reorderTemplates,
         setDistributionMode,
+        setDistributionConfig,
         getActiveTemplates,
         // Validation
         canProceed,
@@ -0,0 +1,107 @@
+/**
+ * Unit tests for live data source sync
+ */
+
+import { diffSourceRows, isSyncDue, SyncPin } from '../dataSync';
+
+// ============================================
+// Test Fixtures
+// ============================================
+
+const pin = (id: string, row: Record<string, string>, rowIndex: number, status = 'generated'): SyncPin => ({
+    id,
+    status,
+    data_row: { ...row, rowIndex },
+});
+
+const mug = { SKU: 'A1', Title: 'Mug', Price: '12' };
+const cup = { SKU: 'B2', Title: 'Cup', Price: '8' };
+const bowl = { SKU: 'C3', Title: 'Bowl', Price: '15' };
+
+// ============================================
+// Tests
+// ============================================
+
+describe('diffSourceRows', () => {
+    it('keeps pins whose rows did not change', () => {
+        const diff = diffSourceRows([pin('p1', mug, 0), pin('p2', cup, 1)], [mug, cup], 'SKU');
+
+        expect(diff).toMatchObject({ renderRowIndexes: [], stalePinIds: [], reindex: [], unchanged: 2, added: 0 });
+    });
+
+    it('renders new rows and re-renders changed ones', () => {
+        const diff = diffSourceRows(
+            [pin('p1', mug, 0), pin('p2', cup, 1)],
+            [mug, { ...cup, Price: '9' }, bowl],
+            'SKU'
+        );
+
+        expect(diff.renderRowIndexes).toEqual([1, 2]);
+        expect(diff.stalePinIds).toEqual(['p2']);
+        expect(diff).toMatchObject({ added: 1, changed: 1, removed: 0, unchanged: 1 });
+    });
+
+    it('marks pins for removed rows stale and moves kept pins to their new position', () => {
+        const diff = diffSourceRows([pin('p1', mug, 0), pin('p2', cup, 1), pin('p3', bowl, 2)], [cup, bowl], 'SKU');
+
+        expect(diff.stalePinIds).toEqual(['p1']);
+        expect(diff.removed).toBe(1);
+        expect(diff.reindex).toEqual([{ id: 'p2', row_index: 0 }, { id: 'p3', row_index: 1 }]);
+        expect(diff.renderRowIndexes).toEqual([]);
+    });
+
+    it('treats added or dropped columns as changes', () => {
+        expect(diffSourceRows([pin('p1', mug, 0)], [{ ...mug, Badge: 'New' }], 'SKU').changed).toBe(1);
+        expect(diffSourceRows([pin('p1', mug, 0)], [{ ...mug, Badge: '' }], 'SKU').unchanged).toBe(1);
+        expect(diffSourceRows([pin('p1', { ...mug, Badge: 'New' }, 0)], [mug], 'SKU').changed).toBe(1);
+    });
+
+    it('matches keys after trimming', () => {
+        const diff = diffSourceRows([pin('p1', mug, 0)], [{ ...mug, SKU: ' A1 ' }], 'SKU');
+
+        expect(diff.stalePinIds).toEqual(['p1']);
+        expect(diff).toMatchObject({ changed: 1, removed: 0 });
+    });
+
+    it('skips rows with an empty or repeated key', () => {
+        const diff = diffSourceRows([], [mug, { ...cup, SKU: '' }, { ...mug, Title: 'Second mug' }, bowl], 'SKU');
+
+        expect(diff.rows).toEqual([mug, bowl]);
+        expect(diff.skippedRows).toBe(2);
+        expect(diff.renderRowIndexes).toEqual([0, 1]);
+    });
+
+    it('ignores failed pins and stales extra pins for the same key', () => {
+        const diff = diffSourceRows(
+            [pin('p1', mug, 0, 'failed'), pin('p2', cup, 1), pin('p3', cup, 1)],
+            [mug, cup],
+            'SKU'
+        );
+
+        expect(diff.renderRowIndexes).toEqual([0]);
+        expect(diff.stalePinIds).toEqual(['p3']);
+        expect(diff).toMatchObject({ added: 1, unchanged: 1, removed: 0 });
+    });
+});
+
+describe('isSyncDue', () => {
+    const now = new Date('2026-03-10T12:00:00Z');
+
+    it('never schedules manual sources', () => {
+        expect(isSyncDue('manual', null, now)).toBe(false);
+    });
+
+    it('syncs scheduled sources that never ran', () => {
+        expect(isSyncDue('hourly', null, now)).toBe(true);
+    });
+
+    it('allows the hourly cron to run a little early', () => {
+        expect(isSyncDue('hourly', '2026-03-10T11:03:00Z', now)).toBe(true);
+        expect(isSyncDue('hourly', '2026-03-10T11:30:00Z', now)).toBe(false);
+    });
+
+    it('waits a day between daily syncs', () => {
+        expect(isSyncDue('daily', '2026-03-09T12:02:00Z', now)).toBe(true);
+        expect(isSyncDue('daily', '2026-03-10T00:00:00Z', now)).toBe(false);
+    });
+});
@@ -8,10 +8,13 @@ import {
     calculateDistributionCounts,
     initializeDistributionSession,
     resetDistributionSession,
+    matchesDistributionRule,
     DistributionContext,
     RowContext,
 } from '../distributionEngine';
-import { TemplateSnapshot } from '@/types/database.types';
+import { DistributionConfig, TemplateSnapshot } from '@/types/database.types';
+import { VisibilityRule } from '@/types/editor';
+import { evaluateVisibilityRule } from '@/lib/fabric/visibility-shared';
 
 // ============================================
 // Test Fixtures
@@ -258,6 +261,171 @@ describe('CSV Column Distribution', () => {
     });
 });
 
+// ============================================
+// Weighted Distribution Tests
+// ============================================
+
+describe('Weighted Distribution', () => {
+    const config: DistributionConfig = {
+        weights: { 'uuid-a': 60, 'uuid-b': 30, 'uuid-c': 10 },
+    };
+    const context: DistributionContext = {
+        templates: [templateA, templateB, templateC],
+        mode: 'weighted',
+        totalRows: 100,
+        config,
+    };
+
+    const assign = (ctx: DistributionContext, rows: number) =>
+        Array.from({ length: rows }, (_, rowIndex) =>
+            getTemplateForRow(ctx, { rowIndex, csvRow: {} }).template.id
+        );
+
+    it('matches the percentages exactly over 100 rows', () => {
+        const ids = assign(context, 100);
+
+        expect(ids.filter(id => id === 'uuid-a')).toHaveLength(60);
+        expect(ids.filter(id => id === 'uuid-b')).toHaveLength(30);
+        expect(ids.filter(id => id === 'uuid-c')).toHaveLength(10);
+    });
+
+    it('interleaves templates instead of grouping them', () => {
+        expect(assign(context, 6)).toEqual(['uuid-a', 'uuid-b', 'uuid-a', 'uuid-a', 'uuid-b', 'uuid-c']);
+    });
+
+    it('depends only on the row index (resumable)', () => {
+        const first = getTemplateForRow(context, { rowIndex: 57, csvRow: {} });
+        assign(context, 100);
+        const second = getTemplateForRow(context, { rowIndex: 57, csvRow: {} });
+
+        expect(second.templateIndex).toBe(first.templateIndex);
+    });
+
+    it('never uses templates weighted 0', () => {
+        const ids = assign({ ...context, config: { weights: { 'uuid-a': 1, 'uuid-c': 1 } } }, 20);
+
+        expect(ids).not.toContain('uuid-b');
+        expect(ids.filter(id => id === 'uuid-a')).toHaveLength(10);
+    });
+
+    it('cycles in order with a warning when no weights are set', () => {
+        const result = getTemplateForRow({ ...context, config: null }, { rowIndex: 1, csvRow: {} });
+
+        expect(result.template.id).toBe('uuid-b');
+        expect(result.warning).toBeDefined();
+    });
+});
+
+// ============================================
+// Rules Distribution Tests
+// ============================================
+
+describe('Rules Distribution', () => {
+    const config: DistributionConfig = {
+        rules: [
+            { column: 'title', operator: 'longer_than', value: '20', template_id: 'uuid-b' },
+            { column: 'category', operator: 'equals', value: 'recipe', template_id: 'uuid-c' },
+        ],
+        fallback_template_id: 'uuid-a',
+    };
+    const context: DistributionContext = {
+        templates: [templateA, templateB, templateC],
+        mode: 'rules',
+        totalRows: 3,
+        config,
+    };
+
+    it('uses the first matching rule', () => {
+        const result = getTemplateForRow(context, {
+            rowIndex: 0,
+            csvRow: { title: 'A rather long recipe title', category: 'Recipe' },
+        });
+
+        expect(result.template.id).toBe('uuid-b');
+    });
+
+    it('checks later rules when earlier ones do not match', () => {
+        const result = getTemplateForRow(context, {
+            rowIndex: 0,
+            csvRow: { title: 'Soup', category: ' RECIPE ' },
+        });
+
+        expect(result.template.id).toBe('uuid-c');
+    });
+
+    it('uses the fallback template when nothing matches', () => {
+        const result = getTemplateForRow(context, {
+            rowIndex: 0,
+            csvRow: { title: 'Soup', category: 'travel' },
+        });
+
+        expect(result.template.id).toBe('uuid-a');
+        expect(result.warning).toBeUndefined();
+    });
+
+    it('skips rules pointing at templates not in the campaign', () => {
+        const result = getTemplateForRow({
+            ...context,
+            config: {
+                rules: [{ column: 'category', operator: 'is_not_empty', value: '', template_id: 'uuid-gone' }],
+                fallback_template_id: 'uuid-b',
+            },
+        }, { rowIndex: 0, csvRow: { category: 'recipe' } });
+
+        expect(result.template.id).toBe('uuid-b');
+    });
+
+    it('falls back to the first template with a warning when the fallback is missing', () => {
+        const result = getTemplateForRow({
+            ...context,
+            config: { rules: [], fallback_template_id: 'uuid-gone' },
+        }, { rowIndex: 0, csvRow: {} });
+
+        expect(result.template.id).toBe('uuid-a');
+        expect(result.warning).toBeDefined();
+    });
+});
+
+describe('matchesDistributionRule', () => {
+    const rule = (operator: string, value = '', column = 'cell') =>
+        ({ column, operator, value, template_id: 'uuid-a' }) as Parameters<typeof matchesDistributionRule>[0];
+
+    it('compares text ignoring case', () => {
+        expect(matchesDistributionRule(rule('equals', 'Recipe'), { cell: 'recipe' })).toBe(true);
+        expect(matchesDistributionRule(rule('not_equals', 'recipe'), { cell: 'Travel' })).toBe(true);
+        expect(matchesDistributionRule(rule('contains', 'CAKE'), { cell: 'Carrot cake' })).toBe(true);
+        expect(matchesDistributionRule(rule('contains', ''), { cell: 'anything' })).toBe(false);
+    });
+
+    it('compares numbers, ignoring non-numeric cells', () => {
+        expect(matchesDistributionRule(rule('greater_than', '1000'), { cell: '1,299.00' })).toBe(true);
+        expect(matchesDistributionRule(rule('less_than', '10'), { cell: 9 })).toBe(true);
+        expect(matchesDistributionRule(rule('greater_than', '10'), { cell: 'n/a' })).toBe(false);
+        expect(matchesDistributionRule(rule('less_than', '10'), { cell: '' })).toBe(false);
+    });
+
+    it('reads currency and percent cells like visibility rules do', () => {
+        expect(matchesDistributionRule(rule('greater_than', '20'), { cell: '$25' })).toBe(true);
+
+        const visibility: VisibilityRule = { action: 'show', field: 'cell', operator: 'greater_than', value: '20' };
+        for (const cell of ['$25', '15 %', '€1,299.00', '19.99', 'n/a']) {
+            expect(matchesDistributionRule(rule('greater_than', '20'), { cell }))
+                .toBe(evaluateVisibilityRule(visibility, { cell }));
+        }
+    });
+
+    it('compares text length', () => {
+        expect(matchesDistributionRule(rule('longer_than', '3'), { cell: 'four' })).toBe(true);
+        expect(matchesDistributionRule(rule('shorter_than', '3'), { cell: 'four' })).toBe(false);
+    });
+
+    it('checks emptiness, treating missing columns as empty', () => {
+        expect(matchesDistributionRule(rule('is_empty'), { cell: '   ' })).toBe(true);
+        expect(matchesDistributionRule(rule('is_empty', '', 'missing'), {})).toBe(true);
+        expect(matchesDistributionRule(rule('is_not_empty'), { cell: 'x' })).toBe(true);
+    });
+});
+
 // ============================================
 // Edge Cases
 // ============================================
@@ -309,6 +477,19 @@ describe('previewDistribution', () => {
         expect(preview[2].templateName).toBe('Template A');
         expect(preview[3].templateName).toBe('Template B');
     });
+
+    it('reads row values for rules mode', () => {
+        const context: DistributionContext = {
+            templates: [templateA, templateB],
+            mode: 'rules',
+            totalRows: 3,
+            config: { rules: [{ column: 'type', operator: 'equals', value: 'video', template_id: 'uuid-b' }] },
+        };
+
+        const preview = previewDistribution(context, 3, [{ type: 'photo' }, { type: 'video' }, {}]);
+
+        expect(preview.map(p => p.templateIndex)).toEqual([0, 1, 0]);
+    });
 });
 
 describe('calculateDistributionCounts', () => {
@@ -351,4 +532,28 @@ describe('calculateDistributionCounts', () => {
         expect(counts['uuid-a']).toBe(-1);
         expect(counts['uuid-b']).toBe(-1);
     });
+
+    it('calculates weighted counts from the percentages', () => {
+        const context: DistributionContext = {
+            templates: [templateA, templateB, templateC],
+            mode: 'weighted',
+            totalRows: 50,
+            config: { weights: { 'uuid-a': 60, 'uuid-b': 30, 'uuid-c': 10 } },
+        };
+
+        expect(calculateDistributionCounts(context)).toEqual({ 'uuid-a': 30, 'uuid-b': 15, 'uuid-c': 5 });
+    });
+
+    it('counts rules mode from the rows when they are given', () => {
+        const context: DistributionContext = {
+            templates: [templateA, templateB],
+            mode: 'rules',
+            totalRows: 4,
+            config: { rules: [{ column: 'price', operator: 'greater_than', value: '50', template_id: 'uuid-b' }] },
+        };
+        const rows = [{ price: '10' }, { price: '99' }, { price: '51' }, { price: '' }];
+
+        expect(calculateDistributionCounts(context)['uuid-a']).toBe(-1);
+        expect(calculateDistributionCounts(context, rows)).toEqual({ 'uuid-a': 2, 'uuid-b': 2 });
+    });
 });
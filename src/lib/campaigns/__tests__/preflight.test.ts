@@ -0,0 +1,174 @@
+/**
+ * Unit tests for campaign pre-flight checks
+ */
+
+import Papa from 'papaparse';
+import {
+    buildIssuesCsv,
+    buildPreflightReport,
+    collectImageUrls,
+    excludeRows,
+    PREFLIGHT_ISSUES_COLUMN,
+} from '../preflight';
+import { Element, ImageElement, TextElement } from '@/types/editor';
+import type { ImageCheckResult } from '@/lib/images/safeFetch';
+
+// ============================================
+// Test Fixtures
+// ============================================
+
+const base = {
+    x: 0,
+    y: 0,
+    rotation: 0,
+    opacity: 1,
+    locked: false,
+    visible: true,
+    zIndex: 0,
+};
+
+const photo: ImageElement = {
+    ...base,
+    id: 'photo',
+    name: 'Photo',
+    type: 'image',
+    width: 500,
+    height: 500,
+    imageUrl: '',
+    fitMode: 'cover',
+    cornerRadius: 0,
+    isDynamic: true,
+    dynamicSource: 'image1',
+};
+
+const logo: ImageElement = { ...photo, id: 'logo', name: 'Logo', isDynamic: false, imageUrl: 'https://cdn.test/logo.png' };
+
+const title: TextElement = {
+    ...base,
+    id: 'title',
+    name: 'Title',
+    type: 'text',
+    width: 400,
+    height: 100,
+    text: '{{title}}',
+    fontFamily: 'Arial',
+    fontSize: 24,
+    fontStyle: 'normal',
+    fill: '#000000',
+    align: 'left',
+    verticalAlign: 'top',
+    lineHeight: 1.2,
+    letterSpacing: 0,
+    textDecoration: '',
+    isDynamic: true,
+    autoFit: true,
+};
+
+const elements: Element[] = [photo, logo, title];
+const fieldMapping = { image1: 'Image URL', title: 'Title' };
+
+const rows = [
+    { 'Image URL': 'https://cdn.test/a.png', Title: 'Short' },
+    { 'Image URL': 'https://cdn.test/missing.png', Title: 'Short' },
+    { 'Image URL': 'https://cdn.test/tiny.png', Title: 'A title far too long to fit' },
+    { 'Image URL': '', Title: 'Short' },
+    { 'Image URL': 'https://cdn.test/a.png', Title: 'Short' },
+];
+
+const ok = (url: string, width = 1000, height = 1000): ImageCheckResult => ({
+    url,
+    probe: { contentType: 'image/png', width, height, bytes: 1000, finalUrl: url },
+    error: null,
+});
+
+const imageResults: ImageCheckResult[] = [
+    ok('https://cdn.test/a.png'),
+    { url: 'https://cdn.test/missing.png', probe: null, error: { code: 'upstream_error', message: 'Upstream returned 404' } },
+    ok('https://cdn.test/tiny.png', 100, 100),
+];
+
+const overflows = (text: string) => text.length > 20;
+
+// ============================================
+// Tests
+// ============================================
+
+describe('collectImageUrls', () => {
+    it('lists each row image URL once, skipping static images and blanks', () => {
+        expect(collectImageUrls(elements, rows, fieldMapping)).toEqual([
+            'https://cdn.test/a.png',
+            'https://cdn.test/missing.png',
+            'https://cdn.test/tiny.png',
+        ]);
+    });
+
+    it('skips data URLs and hidden elements', () => {
+        const hidden: ImageElement = { ...photo, visibilityRule: { action: 'hide', field: 'Title', operator: 'equals', value: 'skip' } };
+        const urls = collectImageUrls([hidden], [
+            { 'Image URL': 'data:image/png;base64,AAAA', Title: 'a' },
+            { 'Image URL': 'https://cdn.test/hidden.png', Title: 'skip' },
+        ], fieldMapping);
+
+        expect(urls).toEqual([]);
+    });
+});
+
+describe('buildPreflightReport', () => {
+    const report = buildPreflightReport({ elements, rows, fieldMapping, imageResults, overflows });
+
+    it('only lists rows with issues', () => {
+        expect(report.rows.map(r => r.rowIndex)).toEqual([1, 2, 3]);
+        expect(report.checkedRows).toBe(5);
+        expect(report.checkedImages).toBe(3);
+    });
+
+    it('separates failing rows from rows that only have warnings', () => {
+        expect(report.errorRowIndexes).toEqual([1, 3]);
+        expect(report.warningRowIndexes).toEqual([2]);
+    });
+
+    it('describes each problem', () => {
+        expect(report.rows[0].issues).toEqual([
+            expect.objectContaining({ type: 'image_unreachable', severity: 'error', elementName: 'Photo' }),
+        ]);
+        expect(report.rows[1].issues.map(i => i.type)).toEqual(['image_low_resolution', 'text_overflow']);
+        expect(report.rows[2].issues[0].message).toContain('no image URL');
+    });
+
+    it('measures repeated text once', () => {
+        const measure = jest.fn(overflows);
+        buildPreflightReport({ elements, rows, fieldMapping, imageResults, overflows: measure });
+
+        expect(measure).toHaveBeenCalledTimes(2);
+    });
+
+    it('flags images too large for the renderer', () => {
+        const huge = buildPreflightReport({
+            elements: [photo],
+            rows: [rows[0]],
+            fieldMapping,
+            imageResults: [ok('https://cdn.test/a.png', 8000, 6000)],
+            overflows,
+        });
+
+        expect(huge.rows[0].issues[0]).toMatchObject({ type: 'image_oversized', severity: 'error' });
+    });
+});
+
+describe('excludeRows', () => {
+    it('drops the given indexes', () => {
+        expect(excludeRows(['a', 'b', 'c', 'd'], [1, 3])).toEqual(['a', 'c']);
+    });
+});
+
+describe('buildIssuesCsv', () => {
+    it('adds a column with each row\'s problems', () => {
+        const report = buildPreflightReport({ elements, rows, fieldMapping, imageResults, overflows });
+        const parsed = Papa.parse<Record<string, string>>(buildIssuesCsv(['Image URL', 'Title'], rows, report), { header: true });
+
+        expect(parsed.meta.fields).toEqual(['Image URL', 'Title', PREFLIGHT_ISSUES_COLUMN]);
+        expect(parsed.data[0][PREFLIGHT_ISSUES_COLUMN]).toBe('');
+        expect(parsed.data[1][PREFLIGHT_ISSUES_COLUMN]).toContain('Upstream returned 404');
+        expect(parsed.data[2][PREFLIGHT_ISSUES_COLUMN].split('; ')).toHaveLength(2);
+    });
+});
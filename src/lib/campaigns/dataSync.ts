@@ -0,0 +1,232 @@
+/**
+ * Live Data Source Sync
+ *
+ * Campaigns can be bound to a remote source (a Google Sheets link, a CSV or
+ * .xlsx URL or a JSON feed). A sync re-fetches the rows and matches them to
+ * the campaign's pins by a key column: new rows and rows whose values changed
+ * are rendered, pins for removed or changed rows are marked stale and the
+ * rest are kept as they are. The Inngest sync function does the database
+ * work; this module holds the fetch, the diff and the schedule check.
+ */
+
+import { CampaignDataSource, DataSyncSchedule } from '@/types/database.types';
+import { DataParseResult, DataSourceFormat, detectDataSourceFormat, parseDataSource } from '@/lib/utils/dataSourceParser';
+import { transformCsvUrl } from '@/lib/utils/csvUrlParser';
+import { MAX_DATA_FILE_SIZE } from '@/lib/utils/csvParser';
+import { ImageFetchError, requestSafely, SafeResponse } from '@/lib/images/safeFetch';
+
+// ============================================
+// Types
+// ============================================
+
+export interface SyncCampaignSourceEventData {
+    campaignId: string;
+}
+
+/** The parts of a generated pin a sync compares */
+export interface SyncPin {
+    id: string;
+    status: string;
+    data_row: Record<string, unknown> | null;
+}
+
+export interface SourceRowDiff {
+    /** Rows with a usable key, in source order - pin row indexes point into this list */
+    rows: Record<string, string>[];
+    /** Indexes into rows for new and changed rows */
+    renderRowIndexes: number[];
+    /** Pins whose row was removed or changed, plus extra pins for the same key */
+    stalePinIds: string[];
+    /** Kept pins whose row moved to a new position */
+    reindex: { id: string; row_index: number }[];
+    added: number;
+    changed: number;
+    removed: number;
+    unchanged: number;
+    /** Rows dropped for an empty or repeated key */
+    skippedRows: number;
+}
+
+// Rows per render event, as for launches (/api/render-batch)
+export const SYNC_RENDER_BATCH_SIZE = 75;
+
+// Re-fetching a source that doesn't answer shouldn't hold up the cron
+const FETCH_TIMEOUT_MS = 30000;
+
+const SYNC_INTERVALS_MS: Record<Exclude<DataSyncSchedule, 'manual'>, number> = {
+    hourly: 60 * 60 * 1000,
+    daily: 24 * 60 * 60 * 1000,
+};
+
+// The hourly cron fires a little after the previous sync finished
+const SCHEDULE_SLACK_MS = 5 * 60 * 1000;
+
+// ============================================
+// Diff
+// ============================================
+
+const rowKey = (row: Record<string, unknown> | null, keyColumn: string): string => {
+    const value = row?.[keyColumn];
+    return value === undefined || value === null ? '' : String(value).trim();
+};
+
+/**
+ * Whether a pin was rendered from different values than the row has now
+ * Columns missing on either side count as empty.
+ */
+function rowChanged(pinRow: Record<string, unknown>, row: Record<string, string>): boolean {
+    const columns = new Set([...Object.keys(pinRow), ...Object.keys(row)]);
+    columns.delete('rowIndex');
+
+    for (const column of columns) {
+        const before = pinRow[column] === undefined || pinRow[column] === null ? '' : String(pinRow[column]);
+        if (before !== (row[column] ?? '')) return true;
+    }
+    return false;
+}
+
+/**
+ * Match freshly fetched rows to a campaign's current pins by key column
+ * Failed pins are ignored, so their rows are rendered again.
+ */
+export function diffSourceRows(
+    pins: SyncPin[],
+    sourceRows: Record<string, string>[],
+    keyColumn: string
+): SourceRowDiff {
+    const rows: Record<string, string>[] = [];
+    const rowIndexByKey = new Map<string, number>();
+    let skippedRows = 0;
+
+    for (const row of sourceRows) {
+        const key = rowKey(row, keyColumn);
+        if (!key || rowIndexByKey.has(key)) {
+            skippedRows++;
+            continue;
+        }
+        rowIndexByKey.set(key, rows.length);
+        rows.push(row);
+    }
+
+    const renderRowIndexes: number[] = [];
+    const stalePinIds: string[] = [];
+    const reindex: { id: string; row_index: number }[] = [];
+    const matchedKeys = new Set<string>();
+    let changed = 0;
+    let removed = 0;
+    let unchanged = 0;
+
+    for (const pin of pins) {
+        if (pin.status === 'failed') continue;
+
+        const key = rowKey(pin.data_row, keyColumn);
+        const rowIndex = key ? rowIndexByKey.get(key) : undefined;
+
+        if (rowIndex === undefined) {
+            stalePinIds.push(pin.id);
+            removed++;
+            continue;
+        }
+
+        // A key rendered twice (e.g. a campaign that was generated again) keeps its first pin
+        if (matchedKeys.has(key)) {
+            stalePinIds.push(pin.id);
+            continue;
+        }
+        matchedKeys.add(key);
+
+        if (rowChanged(pin.data_row || {}, rows[rowIndex])) {
+            stalePinIds.push(pin.id);
+            renderRowIndexes.push(rowIndex);
+            changed++;
+            continue;
+        }
+
+        unchanged++;
+        if (pin.data_row?.rowIndex !== rowIndex) {
+            reindex.push({ id: pin.id, row_index: rowIndex });
+        }
+    }
+
+    let added = 0;
+    rows.forEach((row, index) => {
+        if (!matchedKeys.has(rowKey(row, keyColumn))) {
+            renderRowIndexes.push(index);
+            added++;
+        }
+    });
+    renderRowIndexes.sort((a, b) => a - b);
+
+    return { rows, renderRowIndexes, stalePinIds, reindex, added, changed, removed, unchanged, skippedRows };
+}
+
+// ============================================
+// Schedule
+// ============================================
+
+/**
+ * Whether a scheduled source is due for another sync
+ */
+export function isSyncDue(schedule: DataSyncSchedule, lastSyncedAt: string | null, now: Date = new Date()): boolean {
+    if (schedule === 'manual') return false;
+    if (!lastSyncedAt) return true;
+
+    const elapsed = now.getTime() - new Date(lastSyncedAt).getTime();
+    return elapsed >= SYNC_INTERVALS_MS[schedule] - SCHEDULE_SLACK_MS;
+}
+
+// ============================================
+// Fetch
+// ============================================
+
+const failure = (error: string, format: DataSourceFormat = 'csv'): DataParseResult => ({
+    success: false,
+    headers: [],
+    data: [],
+    rowCount: 0,
+    format,
+    error,
+});
+
+/**
+ * Download and parse a campaign's data source (Server-side)
+ * Google Sheets share links are turned into CSV exports like on import.
+ * Source URLs are user-supplied, so every redirect hop is checked against
+ * private addresses and the download is capped at MAX_DATA_FILE_SIZE.
+ */
+export async function fetchSourceRows(source: CampaignDataSource): Promise<DataParseResult> {
+    const { url } = transformCsvUrl(source.url);
+
+    let response: SafeResponse;
+    try {
+        response = await requestSafely(url, {
+            headers: { 'User-Agent': 'PinterestPinGenerator/1.0' },
+            maxBytes: MAX_DATA_FILE_SIZE,
+            timeoutMs: FETCH_TIMEOUT_MS,
+        });
+    } catch (error) {
+        if (error instanceof ImageFetchError && error.code === 'timeout') {
+            return failure(`Source did not respond within ${FETCH_TIMEOUT_MS / 1000} seconds`);
+        }
+        if (error instanceof ImageFetchError && error.code === 'too_large') {
+            return failure(`Source is larger than ${MAX_DATA_FILE_SIZE / 1024 / 1024}MB`);
+        }
+        return failure(`Could not reach the source: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+
+    if (!response.ok) {
+        return failure(`Source returned HTTP ${response.status}`);
+    }
+
+    const bytes = new Uint8Array(response.body);
+    const format = source.format
+        || detectDataSourceFormat({ fileName: new URL(url).pathname, contentType: response.headers['content-type'], bytes })
+        || 'csv';
+
+    const head = new TextDecoder().decode(bytes.subarray(0, 4096));
+    if (format !== 'xlsx' && (head.includes('<!DOCTYPE html') || head.includes('<html'))) {
+        return failure('Source returned a web page instead of data - check that it is still published', format);
+    }
+
+    return parseDataSource(bytes, format, { sheet: source.sheet, jsonPath: source.json_path });
+}
@@ -2,10 +2,18 @@
  * Distribution Engine for Multi-Template Campaigns
  * 
  * Determines which template to use for each CSV row based on the selected
- * distribution mode: sequential, random, equal split, or CSV column.
+ * distribution mode: sequential, random, equal split, CSV column, weighted
+ * percentages, or rules on the row's values.
  */
 
-import { TemplateSnapshot, DistributionMode } from '@/types/database.types';
+import {
+    TemplateSnapshot,
+    DistributionMode,
+    DistributionConfig,
+    DistributionRule,
+} from '@/types/database.types';
+import { lookupFieldValue, parseNumber } from '@/lib/fabric/expression-shared';
+import { evaluateVisibilityRule } from '@/lib/fabric/visibility-shared';
 
 // ============================================
 // Types
@@ -17,6 +25,8 @@ export interface DistributionContext {
     totalRows: number;
     /** Random seed for reproducible results (optional) */
     seed?: number;
+    /** Weights / rules for the weighted and rules modes */
+    config?: DistributionConfig | null;
 }
 
 export interface RowContext {
@@ -184,6 +194,151 @@ function getCsvColumnTemplate(
     };
 }
 
+/**
+ * Weights of each template in the weighted mode (null when none are set)
+ */
+function getTemplateWeights(
+    templates: TemplateSnapshot[],
+    config: DistributionConfig | null | undefined
+): number[] | null {
+    const weights = templates.map(t => Math.max(0, Number(config?.weights?.[t.id]) || 0));
+    return weights.some(w => w > 0) ? weights : null;
+}
+
+// Row-by-row template order per set of weights, grown as rows are requested
+const weightedSequences = new Map<string, { sequence: number[]; counts: number[] }>();
+const MAX_WEIGHTED_SEQUENCES = 20;
+
+/**
+ * Template indices for the first `length` rows under the given weights
+ * Each row goes to the template furthest below its share (Sainte-Laguë), so
+ * templates interleave and any run of rows from the start stays as close to
+ * the percentages as whole rows allow - 60/30/10 over 100 rows is exact.
+ */
+function getWeightedSequence(weights: number[], length: number): number[] {
+    const key = weights.join(',');
+    let entry = weightedSequences.get(key);
+    if (!entry) {
+        if (weightedSequences.size >= MAX_WEIGHTED_SEQUENCES) {
+            weightedSequences.clear();
+        }
+        entry = { sequence: [], counts: weights.map(() => 0) };
+        weightedSequences.set(key, entry);
+    }
+
+    const { sequence, counts } = entry;
+    while (sequence.length < length) {
+        let best = 0;
+        let bestPriority = -1;
+        weights.forEach((weight, i) => {
+            const priority = weight / (2 * counts[i] + 1);
+            if (priority > bestPriority) {
+                best = i;
+                bestPriority = priority;
+            }
+        });
+        sequence.push(best);
+        counts[best]++;
+    }
+    return sequence;
+}
+
+/**
+ * Weighted distribution: templates get rows in proportion to their percentage
+ * With 60/30/10: A, B, A, A, B, C, A, A, B, A, ... (60 A, 30 B, 10 C per 100 rows)
+ */
+function getWeightedTemplate(
+    rowIndex: number,
+    templates: TemplateSnapshot[],
+    config: DistributionConfig | null | undefined
+): DistributionResult {
+    const weights = getTemplateWeights(templates, config);
+    if (!weights) {
+        return {
+            ...getSequentialTemplate(rowIndex, templates),
+            warning: 'No template weights set, cycling templates in order',
+        };
+    }
+
+    const templateIndex = getWeightedSequence(weights, rowIndex + 1)[rowIndex];
+    return {
+        template: templates[templateIndex],
+        templateIndex,
+    };
+}
+
+/**
+ * Check a rules-mode condition against a CSV row
+ * Shares its comparisons with element visibility rules, so "$25" is greater
+ * than 20 in both; only the text length operators are specific to distribution.
+ */
+export function matchesDistributionRule(
+    rule: DistributionRule,
+    csvRow: Record<string, unknown>
+): boolean {
+    switch (rule.operator) {
+        case 'equals':
+        case 'not_equals':
+        case 'contains':
+        case 'greater_than':
+        case 'less_than':
+        case 'is_empty':
+        case 'is_not_empty':
+            return evaluateVisibilityRule(
+                { action: 'show', field: rule.column, operator: rule.operator, value: rule.value },
+                csvRow as Record<string, string>
+            );
+
+        case 'longer_than':
+        case 'shorter_than': {
+            const cell = lookupFieldValue(rule.column, csvRow as Record<string, string>, {}).trim();
+            const limit = parseNumber(rule.value);
+            if (limit === null) return false;
+            return rule.operator === 'longer_than' ? cell.length > limit : cell.length < limit;
+        }
+
+        default:
+            return false;
+    }
+}
+
+/**
+ * Rules distribution: the first rule the row matches picks the template
+ * Rows no rule matches use the fallback template (or the first template)
+ */
+function getRulesTemplate(
+    csvRow: Record<string, unknown>,
+    templates: TemplateSnapshot[],
+    config: DistributionConfig | null | undefined
+): DistributionResult {
+    for (const rule of config?.rules ?? []) {
+        if (!matchesDistributionRule(rule, csvRow)) continue;
+
+        const matchIndex = templates.findIndex(t => t.id === rule.template_id);
+        if (matchIndex !== -1) {
+            return {
+                template: templates[matchIndex],
+                templateIndex: matchIndex,
+            };
+        }
+    }
+
+    const fallbackId = config?.fallback_template_id;
+    const fallbackIndex = fallbackId ? templates.findIndex(t => t.id === fallbackId) : -1;
+    if (fallbackIndex === -1) {
+        return {
+            template: templates[0],
+            templateIndex: 0,
+            ...(fallbackId ? { warning: 'Fallback template not found, using first template' } : {}),
+        };
+    }
+
+    return {
+        template: templates[fallbackIndex],
+        templateIndex: fallbackIndex,
+    };
+}
+
 // ============================================
 // Main Distribution Function
 // ============================================
@@ -214,7 +369,7 @@ export function getTemplateForRow(
     context: DistributionContext,
     row: RowContext
 ): DistributionResult {
-    const { templates, mode, totalRows } = context;
+    const { templates, mode, totalRows, config } = context;
     const { rowIndex, csvRow } = row;
 
     // Edge case: no templates
@@ -242,6 +397,12 @@ export function getTemplateForRow(
         
         case 'csv_column':
             return getCsvColumnTemplate(csvRow, templates);
+
+        case 'weighted':
+            return getWeightedTemplate(rowIndex, templates, config);
+
+        case 'rules':
+            return getRulesTemplate(csvRow, templates, config);
         
         default:
             // Fallback to sequential for unknown modes
@@ -260,11 +421,13 @@ export function getTemplateForRow(
  * 
  * @param context - Distribution configuration
  * @param sampleSize - Number of rows to preview (default: first 10)
+ * @param rows - CSV rows, for modes that read row values (csv_column, rules)
  * @returns Array of template assignments for preview
  */
 export function previewDistribution(
     context: DistributionContext,
-    sampleSize: number = 10
+    sampleSize: number = 10,
+    rows?: Record<string, unknown>[]
 ): { rowIndex: number; templateName: string; templateIndex: number }[] {
     const preview: { rowIndex: number; templateName: string; templateIndex: number }[] = [];
     const rowsToPreview = Math.min(sampleSize, context.totalRows);
@@ -276,7 +439,7 @@ export function previewDistribution(
     }
 
     for (let i = 0; i < rowsToPreview; i++) {
-        const result = getTemplateForRow(context, { rowIndex: i, csvRow: {} });
+        const result = getTemplateForRow(context, { rowIndex: i, csvRow: rows?.[i] ?? {} });
         preview.push({
             rowIndex: i,
             templateName: result.template.name,
@@ -294,12 +457,15 @@ export function previewDistribution(
  * Calculate the expected distribution counts for each template
  * 
  * @param context - Distribution configuration
+ * @param rows - CSV rows; without them, modes that read row values (csv_column,
+ *               rules) can't be predicted
  * @returns Record mapping template ID to expected row count
  */
 export function calculateDistributionCounts(
-    context: DistributionContext
+    context: DistributionContext,
+    rows?: Record<string, unknown>[]
 ): Record<string, number> {
-    const { templates, mode, totalRows } = context;
+    const { templates, mode, totalRows, config } = context;
     const counts: Record<string, number> = {};
 
     // Initialize all templates to 0
@@ -336,10 +502,31 @@ export function calculateDistributionCounts(
             });
             break;
 
+        case 'weighted': {
+            const weights = getTemplateWeights(templates, config);
+            if (!weights) {
+                // Falls back to cycling in order
+                return calculateDistributionCounts({ ...context, mode: 'sequential' });
+            }
+            getWeightedSequence(weights, totalRows)
+                .slice(0, totalRows)
+                .forEach(templateIndex => {
+                    counts[templates[templateIndex].id]++;
+                });
+            break;
+        }
+
         case 'csv_column':
-            // Can't predict - depends on CSV data
-            templates.forEach(t => {
-                counts[t.id] = -1; // -1 indicates "unknown"
+        case 'rules':
+            if (!rows) {
+                // Can't predict - depends on CSV data
+                templates.forEach(t => {
+                    counts[t.id] = -1; // -1 indicates "unknown"
+                });
+                break;
+            }
+            rows.slice(0, totalRows).forEach((csvRow, rowIndex) => {
+                counts[getTemplateForRow(context, { rowIndex, csvRow }).template.id]++;
             });
             break;
     }
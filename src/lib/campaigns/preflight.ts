@@ -0,0 +1,248 @@
+/**
+ * Campaign Pre-flight Checks
+ *
+ * Finds the rows that would fail or look broken before a campaign is
+ * launched: image URLs that don't load, aren't renderable images or are far
+ * too big, and auto-fit text that overflows its box even at the smallest size.
+ * Image checks run on the server (/api/campaign-preflight); this module turns
+ * their results into a per-row report and handles the follow-up actions.
+ */
+
+import Papa from 'papaparse';
+import { Element, ImageElement, TextElement } from '@/types/editor';
+import type { ImageCheckResult } from '@/lib/images/safeFetch';
+import { resolveRowImageUrl } from '@/lib/fabric/image-shared';
+import { applyTextTransform, FieldMapping, replaceDynamicFields } from '@/lib/fabric/text-shared';
+import { isElementVisibleForRow } from '@/lib/fabric/visibility-shared';
+import { resolveGroupsForRow } from '@/lib/fabric/group-shared';
+import { resolveFramesForRow } from '@/lib/fabric/frame-shared';
+
+// ============================================
+// Types
+// ============================================
+
+export type PreflightIssueType =
+    | 'image_unreachable'
+    | 'image_unsupported'
+    | 'image_too_large'
+    | 'image_oversized'
+    | 'image_low_resolution'
+    | 'text_overflow';
+
+export interface PreflightIssue {
+    type: PreflightIssueType;
+    severity: 'error' | 'warning';
+    elementName: string;
+    message: string;
+    value?: string;
+}
+
+export interface PreflightRowReport {
+    rowIndex: number;
+    issues: PreflightIssue[];
+}
+
+export interface PreflightReport {
+    /** Only rows with at least one issue, in row order */
+    rows: PreflightRowReport[];
+    checkedRows: number;
+    checkedImages: number;
+    errorRowIndexes: number[];
+    warningRowIndexes: number[];
+}
+
+/** Whether auto-fit text overflows at its smallest size (see overflowsAtMinFontSize) */
+export type TextOverflowCheck = (text: string, element: TextElement) => boolean;
+
+// ============================================
+// Limits
+// ============================================
+
+/** URLs per /api/campaign-preflight request */
+export const PREFLIGHT_URLS_PER_REQUEST = 50;
+/** Longest side the renderer handles reliably; beyond this pins run out of memory */
+export const MAX_IMAGE_DIMENSION = 5000;
+/** Upscaling past this makes images visibly blurry */
+const MAX_UPSCALE = 2;
+
+// ============================================
+// Row resolution
+// ============================================
+
+/**
+ * Elements drawn for a row, with group/frame visibility applied
+ */
+function getRowElements(elements: Element[], rowData: Record<string, string>, fieldMapping: FieldMapping): Element[] {
+    return resolveGroupsForRow(resolveFramesForRow(elements, rowData, fieldMapping), rowData, fieldMapping)
+        .filter(el => isElementVisibleForRow(el, rowData, fieldMapping));
+}
+
+// Only images whose URL comes from the row; static images were seen in the editor
+function isRowImage(element: Element): element is ImageElement {
+    return element.type === 'image' && (element.isDynamic || (element.imageUrl || '').includes('{{'));
+}
+
+function isCheckableUrl(url: string): boolean {
+    return !!url && !url.startsWith('data:');
+}
+
+/**
+ * Every distinct image URL the campaign's rows point at
+ */
+export function collectImageUrls(
+    elements: Element[],
+    rows: Record<string, string>[],
+    fieldMapping: FieldMapping
+): string[] {
+    const urls = new Set<string>();
+    rows.forEach(row => {
+        getRowElements(elements, row, fieldMapping).forEach(el => {
+            if (!isRowImage(el)) return;
+            const url = resolveRowImageUrl(el, row, fieldMapping).trim();
+            if (isCheckableUrl(url)) urls.add(url);
+        });
+    });
+    return Array.from(urls);
+}
+
+// ============================================
+// Assessment
+// ============================================
+
+function truncate(value: string, length = 60): string {
+    return value.length > length ? `${value.substring(0, length)}...` : value;
+}
+
+function assessImage(element: ImageElement, url: string, result: ImageCheckResult | undefined): PreflightIssue[] {
+    const base = { elementName: element.name, value: truncate(url) };
+
+    if (!url.trim()) {
+        return [{ ...base, type: 'image_unreachable', severity: 'error', message: `"${element.name}" has no image URL in this row` }];
+    }
+    if (!isCheckableUrl(url) || !result) return [];
+
+    if (result.error) {
+        const { code, message } = result.error;
+        if (code === 'unsupported_type') {
+            return [{ ...base, type: 'image_unsupported', severity: 'error', message: `"${element.name}": ${message}` }];
+        }
+        if (code === 'too_large') {
+            return [{ ...base, type: 'image_too_large', severity: 'error', message: `"${element.name}": ${message}` }];
+        }
+        return [{ ...base, type: 'image_unreachable', severity: 'error', message: `"${element.name}" can't be loaded: ${message}` }];
+    }
+
+    const { width, height } = result.probe || {};
+    if (!width || !height) return [];
+
+    if (Math.max(width, height) > MAX_IMAGE_DIMENSION) {
+        return [{
+            ...base,
+            type: 'image_oversized',
+            severity: 'error',
+            message: `"${element.name}" is ${width}×${height}px - resize it to at most ${MAX_IMAGE_DIMENSION}px on the longest side`,
+        }];
+    }
+
+    const upscale = Math.max(element.width / width, element.height / height);
+    if (upscale > MAX_UPSCALE) {
+        return [{
+            ...base,
+            type: 'image_low_resolution',
+            severity: 'warning',
+            message: `"${element.name}" is only ${width}×${height}px for a ${Math.round(element.width)}×${Math.round(element.height)} frame and will look blurry`,
+        }];
+    }
+
+    return [];
+}
+
+/**
+ * Per-row report from image check results and a text measurer
+ */
+export function buildPreflightReport({
+    elements,
+    rows,
+    fieldMapping,
+    imageResults,
+    overflows,
+}: {
+    elements: Element[];
+    rows: Record<string, string>[];
+    fieldMapping: FieldMapping;
+    imageResults: ImageCheckResult[];
+    overflows: TextOverflowCheck;
+}): PreflightReport {
+    const resultsByUrl = new Map(imageResults.map(result => [result.url, result]));
+    // The same title in many rows only needs measuring once
+    const overflowCache = new Map<string, boolean>();
+
+    const reports: PreflightRowReport[] = [];
+    rows.forEach((row, rowIndex) => {
+        const issues: PreflightIssue[] = [];
+
+        getRowElements(elements, row, fieldMapping).forEach(el => {
+            if (isRowImage(el)) {
+                const url = resolveRowImageUrl(el, row, fieldMapping).trim();
+                issues.push(...assessImage(el, url, resultsByUrl.get(url)));
+            }
+
+            if (el.type === 'text' && el.autoFit && el.text.includes('{{')) {
+                const text = applyTextTransform(replaceDynamicFields(el.text, row, fieldMapping), el.textTransform);
+                const key = `${el.id}\u0000${text}`;
+                if (!overflowCache.has(key)) overflowCache.set(key, overflows(text, el));
+                if (overflowCache.get(key)) {
+                    issues.push({
+                        type: 'text_overflow',
+                        severity: 'warning',
+                        elementName: el.name,
+                        message: `"${el.name}" overflows its box even at ${el.fontSize}px`,
+                        value: truncate(text),
+                    });
+                }
+            }
+        });
+
+        if (issues.length > 0) reports.push({ rowIndex, issues });
+    });
+
+    return {
+        rows: reports,
+        checkedRows: rows.length,
+        checkedImages: imageResults.length,
+        errorRowIndexes: reports.filter(r => r.issues.some(i => i.severity === 'error')).map(r => r.rowIndex),
+        warningRowIndexes: reports.filter(r => r.issues.every(i => i.severity === 'warning')).map(r => r.rowIndex),
+    };
+}
+
+// ============================================
+// Follow-up actions
+// ============================================
+
+/**
+ * Rows without the excluded ones
+ */
+export function excludeRows<T>(rows: T[], rowIndexes: number[]): T[] {
+    const excluded = new Set(rowIndexes);
+    return rows.filter((_, index) => !excluded.has(index));
+}
+
+/** Column added to the downloadable CSV listing each row's problems */
+export const PREFLIGHT_ISSUES_COLUMN = 'preflight_issues';
+
+/**
+ * The CSV with a column describing each row's problems, for fixing and re-uploading
+ */
+export function buildIssuesCsv(
+    headers: string[],
+    rows: Record<string, string>[],
+    report: PreflightReport
+): string {
+    const issuesByRow = new Map(report.rows.map(r => [r.rowIndex, r.issues.map(i => i.message).join('; ')]));
+    const columns = headers.filter(h => h !== PREFLIGHT_ISSUES_COLUMN);
+
+    return Papa.unparse({
+        fields: [...columns, PREFLIGHT_ISSUES_COLUMN],
+        data: rows.map((row, index) => [...columns.map(h => row[h] ?? ''), issuesByRow.get(index) || '']),
+    });
+}
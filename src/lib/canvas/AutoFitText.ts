@@ -242,3 +242,49 @@ export function applyAutoFit(
 }
 
 
+
+/**
+ * Whether text spills out of its box even at the smallest size auto-fit may use.
+ * calculateBestFitFontSize falls back to minFontSize when nothing fits, so a
+ * minFontSize result is measured once more to tell "fits small" from "overflows".
+ *
+ * @param text The text to fit
+ * @param targetWidth Fixed width of the bounding box
+ * @param targetHeight Fixed height of the bounding box
+ * @param config Text properties and constraints
+ * @returns true when the text is taller than the box at minFontSize
+ */
+export function overflowsAtMinFontSize(
+    text: string,
+    targetWidth: number,
+    targetHeight: number,
+    config: AutoFitConfig
+): boolean {
+    if (!text.trim() || targetWidth <= 0 || targetHeight <= 0) return false;
+
+    const fontSize = calculateBestFitFontSize(text, targetWidth, targetHeight, config);
+    if (fontSize > config.minFontSize) return false;
+
+    const fabricImpl = config.fabricContext || fabric;
+    // Same SSR guard as calculateBestFitFontSize: nothing to measure with
+    if (!config.fabricContext && typeof document === 'undefined') return false;
+
+    const measured = new fabricImpl.Textbox(text, {
+        width: targetWidth,
+        fontSize: config.minFontSize,
+        fontFamily: config.fontFamily,
+        fontWeight: config.fontWeight,
+        fontStyle: config.fontStyle as 'normal' | 'italic',
+        lineHeight: config.lineHeight,
+        textAlign: config.textAlign,
+        charSpacing: config.charSpacing || 0,
+        splitByGrapheme: false,
+        underline: config.underline,
+        linethrough: config.linethrough,
+    });
+    if (typeof measured.initDimensions === 'function') {
+        measured.initDimensions();
+    }
+
+    return (measured.height || 0) > targetHeight;
+}
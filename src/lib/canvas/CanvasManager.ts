@@ -1,6 +1,6 @@
 import * as fabric from 'fabric';
 import { debounce } from 'lodash';
-import { Element } from '@/types/editor';
+import { Element, GroupElement } from '@/types/editor';
 import { AlignmentGuides } from '../fabric/AlignmentGuides';
 import { SnappingSettings } from '@/stores/snappingSettingsStore';
 import { SpatialHashGrid } from './SpatialHashGrid';
@@ -12,15 +12,22 @@ import {
     CanvasConfig,
     ElementChangeCallback,
     SelectionChangeCallback,
-    PerformanceMetrics
+    PerformanceMetrics,
+    RemoteCollaborator,
+    EditorFabricObject,
+    isEditorFabricObject
 } from './types';
 import { createFabricObject, syncElementToFabric, syncFabricToElement, loadFabricImage } from './ObjectFactory';
 import { PerformanceMonitor } from './PerformanceMonitor';
 import { ViewportManager } from './ViewportManager';
 import { applyAutoFit } from './AutoFitText';
+import { isElementVisibleForRow } from '@/lib/fabric/visibility-shared';
+import { applyStyleBindings } from '@/lib/fabric/style-shared';
+import { buildGroupParentMap, getAncestorGroups, resolveGroupsForRow } from '@/lib/fabric/group-shared';
+import { getGroupLeafIds } from '@/lib/utils/groupOperations';
 
 // Re-export types for backward compatibility
-export type { CanvasConfig, ElementChangeCallback, SelectionChangeCallback };
+export type { CanvasConfig, ElementChangeCallback, SelectionChangeCallback, RemoteCollaborator };
 
 /**
  * CanvasManager - Imperative Core (Layer 1)
@@ -52,6 +59,12 @@ export class CanvasManager {
     private onElementsChangedCallback: ElementChangeCallback | null = null;
     private onSelectionChangedCallback: SelectionChangeCallback | null = null;
 
+    // Set while the selection is changed from code, so it isn't reported back
+    private suppressSelectionEvents: boolean = false;
+
+    // Other people editing the template: selections are outlined, drags soft-lock
+    private remoteCollaborators: RemoteCollaborator[] = [];
+
     // Sub-modules
     private performanceMonitor: PerformanceMonitor = new PerformanceMonitor();
     private viewportManager: ViewportManager = new ViewportManager();
@@ -223,6 +236,9 @@ export class CanvasManager {
             return;
         }
 
+        // Groups draw nothing - their members are objects of their own
+        if (element.type === 'group') return;
+
         console.log('[CanvasManager] Adding element:', element.id, element.type);
 
         // Create Fabric object from element (via ObjectFactory)
@@ -235,6 +251,7 @@ export class CanvasManager {
 
         // Store in element map
         this.elementMap.set(element.id, fabricObject);
+        this.applySoftLock(element.id, fabricObject);
 
         // Add to canvas
         this.canvas.add(fabricObject);
@@ -279,6 +296,7 @@ export class CanvasManager {
                     // Add loaded image
                     this.canvas.add(img);
                     this.elementMap.set(element.id, img);
+                    this.applySoftLock(element.id, img);
                     
                     // CRITICAL FIX: Re-order all elements after async image load
                     // canvas.add() places new objects at top, breaking z-order
@@ -305,14 +323,20 @@ export class CanvasManager {
         const fabricObject = this.elementMap.get(id);
 
         if (!fabricObject) {
-            console.warn('[CanvasManager] Element not found for update:', id);
+            if (updates.type !== 'group') {
+                console.warn('[CanvasManager] Element not found for update:', id);
+            }
             return;
         }
 
         console.log('[CanvasManager] Updating element:', id);
 
         // Apply updates to Fabric object (via ObjectFactory)
-        syncElementToFabric(fabricObject, updates);
+        if (fabricObject.group instanceof fabric.ActiveSelection) {
+            this.withSelectionReleased(() => syncElementToFabric(fabricObject, updates));
+        } else {
+            syncElementToFabric(fabricObject, updates);
+        }
 
         // Update spatial grid if position/size changed
         if (this.spatialGrid && (updates.x !== undefined || updates.y !== undefined || updates.width !== undefined || updates.height !== undefined)) {
@@ -370,6 +394,11 @@ export class CanvasManager {
         // This prevents losing focus when editing properties like Preview Text
         const currentSelectionIds = this.getSelection();
 
+        // Drop a multi-selection so members are synced in canvas coordinates
+        this.suppressSelectionEvents = true;
+        this.canvas.discardActiveObject();
+        this.suppressSelectionEvents = false;
+
         // Get current element IDs
         const currentIds = new Set(this.elementMap.keys());
         const newIds = new Set(elements.map(el => el.id));
@@ -506,6 +535,48 @@ export class CanvasManager {
         this.viewportManager.setBackgroundColor(color);
     }
 
+    /**
+     * Show elements as a CSV row would render them: visibility rules and
+     * style bindings (colors, opacity)
+     * Display only - the elements themselves keep their stored values.
+     * @param rowData Sample row to preview, or null to show elements as stored
+     */
+    applyPreviewRow(elements: Element[], rowData: Record<string, string> | null): void {
+        if (!this.canvas) return;
+
+        // Members of hidden groups are left out; the rest carry their groups' opacity
+        const shown = new Map(resolveGroupsForRow(elements, rowData ?? {}).map(el => [el.id, el]));
+
+        for (const element of elements) {
+            const fabricObject = this.elementMap.get(element.id);
+            if (!fabricObject) continue;
+
+            const resolved = shown.get(element.id);
+            const visible = !!resolved && (rowData
+                ? isElementVisibleForRow(resolved, rowData)
+                : resolved.visible !== false);
+            if (fabricObject.visible !== visible) {
+                fabricObject.set('visible', visible);
+            }
+            if (!resolved) continue;
+
+            const styled = rowData ? applyStyleBindings(resolved, rowData) : resolved;
+            if (fabricObject.opacity !== (styled.opacity ?? 1)) {
+                fabricObject.set('opacity', styled.opacity ?? 1);
+            }
+
+            // Only touch bound colors, so unbound ones keep what the element sync set
+            const bindings = element.styleBindings;
+            if (!bindings) continue;
+            const styles: Record<string, unknown> = {};
+            if (bindings.fill && 'fill' in styled) styles.fill = styled.fill;
+            if (bindings.backgroundColor && styled.type === 'text') styles.backgroundColor = styled.backgroundColor || '';
+            fabricObject.set(styles);
+        }
+
+        this.debouncedRender();
+    }
+
     /**
      * Get current element state from canvas
      */
@@ -522,16 +593,14 @@ export class CanvasManager {
 
     /**
      * Get current selection
+     * Groups whose members are all selected are reported as the group.
      */
     getSelection(): string[] {
         if (!this.canvas) {
             return [];
         }
 
-        const activeObjects = this.canvas.getActiveObjects();
-        return activeObjects
-            .map(obj => (obj as any).id)
-            .filter((id): id is string => typeof id === 'string');
+        return this.collapseToGroups(this.getObjectIds(this.canvas.getActiveObjects()));
     }
 
     /**
@@ -544,37 +613,12 @@ export class CanvasManager {
             return;
         }
 
-        // Clear current selection first
-        this.canvas.discardActiveObject();
-
-        if (ids.length === 0) {
-            this.canvas.requestRenderAll();
-            return;
-        }
-
-        // Get fabric objects for the given IDs
-        const objectsToSelect: fabric.FabricObject[] = [];
-        for (const id of ids) {
-            const fabricObject = this.elementMap.get(id);
-            if (fabricObject) {
-                objectsToSelect.push(fabricObject);
-            }
-        }
-
-        if (objectsToSelect.length === 0) {
-            this.canvas.requestRenderAll();
-            return;
-        }
-
-        if (objectsToSelect.length === 1) {
-            // Single selection
-            this.canvas.setActiveObject(objectsToSelect[0]);
-        } else {
-            // Multi-selection
-            const selection = new fabric.ActiveSelection(objectsToSelect, {
-                canvas: this.canvas,
-            });
-            this.canvas.setActiveObject(selection);
+        // The store already holds this selection - don't report it back
+        this.suppressSelectionEvents = true;
+        try {
+            this.selectObjects(this.expandGroups(ids));
+        } finally {
+            this.suppressSelectionEvents = false;
         }
 
         this.canvas.requestRenderAll();
@@ -604,6 +648,27 @@ export class CanvasManager {
         this.guides.setEnabled(settings.enabled);
     }
 
+    /**
+     * Show other collaborators on the canvas
+     * Their selections get an outline in their color with their name, and
+     * elements they're dragging can't be moved, scaled or rotated here (a soft
+     * lock - property edits still apply).
+     */
+    setRemoteCollaborators(collaborators: RemoteCollaborator[]): void {
+        this.remoteCollaborators = collaborators;
+        for (const [id, fabricObject] of this.elementMap) {
+            this.applySoftLock(id, fabricObject);
+        }
+        this.canvas?.requestRenderAll();
+    }
+
+    /**
+     * Name of the collaborator dragging an element, if any
+     */
+    getSoftLockOwner(id: string): string | null {
+        return this.remoteCollaborators.find(c => c.lockedIds.includes(id))?.name ?? null;
+    }
+
     /**
      * Register callback for element changes
      */
@@ -636,6 +701,9 @@ export class CanvasManager {
         // Text editing events
         this.canvas.on('mouse:dblclick', this.handleDoubleClick as any);
         this.canvas.on('text:editing:exited', this.handleTextEditingExit as any);
+
+        // Collaborator outlines
+        this.canvas.on('after:render', this.drawRemoteSelections);
     }
 
     /**
@@ -654,6 +722,8 @@ export class CanvasManager {
         // Text editing events (P1-1 FIX: These were missing before)
         this.canvas.off('mouse:dblclick', this.handleDoubleClick as any);
         this.canvas.off('text:editing:exited', this.handleTextEditingExit as any);
+
+        this.canvas.off('after:render', this.drawRemoteSelections);
     }
 
     /**
@@ -664,18 +734,23 @@ export class CanvasManager {
         const target = e.transform?.target || (e as any).target;
         if (!target || !this.onElementsChangedCallback) return;
 
-        const modifiedObjects = target.type === 'activeselection'
-            ? (target as fabric.ActiveSelection).getObjects()
-            : [target];
-
         // Extract updated element data
         const updatedElements: Element[] = [];
-
-        for (const obj of modifiedObjects) {
-            const element = syncFabricToElement(obj);
-            if (element) {
-                updatedElements.push(element);
+        const collect = (objects: fabric.FabricObject[]) => {
+            for (const obj of objects) {
+                const element = syncFabricToElement(obj);
+                if (element) {
+                    updatedElements.push(element);
+                }
             }
+        };
+
+        if (target.type === 'activeselection') {
+            // Read members in canvas coordinates, not relative to the selection
+            const members = (target as fabric.ActiveSelection).getObjects();
+            this.withSelectionReleased(() => collect(members));
+        } else {
+            collect([target]);
         }
 
         if (updatedElements.length > 0) {
@@ -688,13 +763,214 @@ export class CanvasManager {
      * Handle selection change events
      */
     private handleSelectionChanged = (): void => {
-        if (!this.onSelectionChangedCallback) return;
+        if (!this.onSelectionChangedCallback || this.suppressSelectionEvents || !this.canvas) return;
+
+        // Picking a group member on the canvas selects the whole (outermost) group
+        const activeIds = this.getObjectIds(this.canvas.getActiveObjects());
+        const expandedIds = this.expandGroups(this.outermostGroups(activeIds));
+        const sameObjects = expandedIds.length === activeIds.length && expandedIds.every(id => activeIds.includes(id));
+        if (!sameObjects) {
+            this.suppressSelectionEvents = true;
+            try {
+                this.selectObjects(expandedIds);
+            } finally {
+                this.suppressSelectionEvents = false;
+            }
+            this.canvas.requestRenderAll();
+        }
 
         const selectedIds = this.getSelection();
         console.log('[CanvasManager] Selection changed:', selectedIds);
         this.onSelectionChangedCallback(selectedIds);
     };
 
+    /**
+     * Lock or unlock an object's transforms for a collaborator's drag
+     * Only touches objects it locked itself, so `selectable` (the element's
+     * own locked flag) is left alone.
+     */
+    private applySoftLock(id: string, fabricObject: fabric.FabricObject): void {
+        const obj = fabricObject as EditorFabricObject;
+        const locked = this.remoteCollaborators.some(c => c.lockedIds.includes(id));
+        if (!locked && !obj._softLocked) return;
+
+        obj.set({
+            lockMovementX: locked,
+            lockMovementY: locked,
+            lockScalingX: locked,
+            lockScalingY: locked,
+            lockRotation: locked,
+            hasControls: !locked,
+            hoverCursor: locked ? 'not-allowed' : null,
+        });
+        obj._softLocked = locked;
+    }
+
+    /**
+     * Outline each collaborator's selection in their color, named above the
+     * first selected element (drawn over the canvas after every render)
+     */
+    private drawRemoteSelections = (): void => {
+        if (!this.canvas || this.remoteCollaborators.length === 0) return;
+
+        const ctx = this.canvas.getContext();
+        const zoom = this.canvas.getZoom();
+        const vpt = this.canvas.viewportTransform;
+
+        ctx.save();
+        if (vpt) {
+            ctx.transform(vpt[0], vpt[1], vpt[2], vpt[3], vpt[4], vpt[5]);
+        }
+        ctx.lineWidth = 2 / zoom;
+        ctx.font = `${12 / zoom}px sans-serif`;
+        ctx.textBaseline = 'middle';
+
+        for (const collaborator of this.remoteCollaborators) {
+            const rects = collaborator.selectedIds
+                .map(id => this.elementMap.get(id))
+                .filter((obj): obj is fabric.FabricObject => !!obj && obj.visible !== false)
+                .map(obj => obj.getBoundingRect());
+            if (rects.length === 0) continue;
+
+            ctx.strokeStyle = collaborator.color;
+            ctx.setLineDash(collaborator.lockedIds.length > 0 ? [] : [6 / zoom, 4 / zoom]);
+            for (const rect of rects) {
+                ctx.strokeRect(rect.left, rect.top, rect.width, rect.height);
+            }
+
+            // Name tag
+            const padding = 4 / zoom;
+            const tagHeight = 18 / zoom;
+            const tagWidth = ctx.measureText(collaborator.name).width + padding * 2;
+            ctx.fillStyle = collaborator.color;
+            ctx.fillRect(rects[0].left, rects[0].top - tagHeight, tagWidth, tagHeight);
+            ctx.fillStyle = '#FFFFFF';
+            ctx.fillText(collaborator.name, rects[0].left + padding, rects[0].top - tagHeight / 2);
+        }
+
+        ctx.restore();
+    };
+
+    /**
+     * Element IDs of Fabric objects
+     */
+    private getObjectIds(objects: fabric.FabricObject[]): string[] {
+        return objects.filter(isEditorFabricObject).map(obj => obj.id);
+    }
+
+    /**
+     * Make the given elements the active object(s), replacing the selection
+     * A multi-selection containing locked elements can't be moved, scaled or rotated.
+     */
+    private selectObjects(ids: string[]): void {
+        if (!this.canvas) return;
+
+        this.canvas.discardActiveObject();
+
+        const objectsToSelect = ids
+            .map(id => this.elementMap.get(id))
+            .filter((obj): obj is fabric.FabricObject => !!obj);
+
+        if (objectsToSelect.length === 1) {
+            // Single selection
+            this.canvas.setActiveObject(objectsToSelect[0]);
+        } else if (objectsToSelect.length > 1) {
+            // Multi-selection
+            const hasLocked = objectsToSelect.some(obj => obj.selectable === false || (obj as EditorFabricObject)._softLocked);
+            const selection = new fabric.ActiveSelection(objectsToSelect, {
+                canvas: this.canvas,
+                lockMovementX: hasLocked,
+                lockMovementY: hasLocked,
+                lockScalingX: hasLocked,
+                lockScalingY: hasLocked,
+                lockRotation: hasLocked,
+            });
+            this.canvas.setActiveObject(selection);
+        }
+    }
+
+    /**
+     * Run a change in canvas coordinates
+     * Members of a multi-selection are positioned relative to it, so the
+     * selection is dropped for the change and then restored.
+     */
+    private withSelectionReleased(change: () => void): void {
+        if (!this.canvas) return;
+
+        const active = this.canvas.getActiveObject();
+        if (!(active instanceof fabric.ActiveSelection)) {
+            change();
+            return;
+        }
+
+        const members = active.getObjects();
+        this.suppressSelectionEvents = true;
+        try {
+            this.canvas.discardActiveObject();
+            change();
+            this.selectObjects(this.getObjectIds(members));
+        } finally {
+            this.suppressSelectionEvents = false;
+        }
+    }
+
+    /**
+     * Replace group IDs with the IDs of the objects drawn for their members
+     */
+    private expandGroups(ids: string[]): string[] {
+        const elements = useEditorStore.getState().elements;
+        const expanded = new Set<string>();
+        for (const id of ids) {
+            const element = elements.find(el => el.id === id);
+            if (element?.type === 'group') {
+                getGroupLeafIds(elements, id).forEach(leafId => expanded.add(leafId));
+            } else {
+                expanded.add(id);
+            }
+        }
+        return Array.from(expanded);
+    }
+
+    /**
+     * Outermost group of each element (or the element itself when ungrouped)
+     */
+    private outermostGroups(ids: string[]): string[] {
+        const elements = useEditorStore.getState().elements;
+        if (!elements.some(el => el.type === 'group')) return ids;
+
+        const elementsById = new Map(elements.map(el => [el.id, el]));
+        const parents = buildGroupParentMap(elements);
+        const result = new Set<string>();
+        for (const id of ids) {
+            const ancestors = getAncestorGroups(id, elementsById, parents);
+            result.add(ancestors.length > 0 ? ancestors[ancestors.length - 1].id : id);
+        }
+        return Array.from(result);
+    }
+
+    /**
+     * Report selected objects as the highest groups whose members are all selected
+     */
+    private collapseToGroups(ids: string[]): string[] {
+        const elements = useEditorStore.getState().elements;
+        if (!elements.some(el => el.type === 'group')) return ids;
+
+        const active = new Set(ids);
+        const elementsById = new Map(elements.map(el => [el.id, el]));
+        const parents = buildGroupParentMap(elements);
+        const result: string[] = [];
+
+        for (const id of ids) {
+            let top = id;
+            for (const group of getAncestorGroups(id, elementsById, parents)) {
+                if (!getGroupLeafIds(elements, (group as GroupElement).id).every(leafId => active.has(leafId))) break;
+                top = group.id;
+            }
+            if (!result.includes(top)) result.push(top);
+        }
+        return result;
+    }
+
     /**
      * Handle double-click to enable text editing
      */
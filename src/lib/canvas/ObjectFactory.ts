@@ -8,6 +8,7 @@
 import * as fabric from 'fabric';
 import { Element, TextElement, ShapeElement, ImageElement } from '@/types/editor';
 import { applyTextTransform } from '@/lib/fabric/text-shared';
+import { applyImageFilters } from '@/lib/fabric/image-shared';
 import { applyAutoFit } from '@/lib/canvas/AutoFitText';
 
 /**
@@ -65,6 +66,7 @@ export function createFabricObject(element: Element): fabric.FabricObject | null
                 fontWeight: textEl.fontWeight || 'normal',
                 fontStyle: textEl.fontStyle?.includes('italic') ? 'italic' : 'normal',
                 fill: textEl.fill || '#000000',
+                backgroundColor: textEl.backgroundColor || '',
                 textAlign: textEl.align || 'left',
                 lineHeight: textEl.lineHeight || 1.2,
                 angle: element.rotation || 0,
@@ -347,6 +349,9 @@ export function syncElementToFabric(
         if (textUpdates.fill !== undefined) {
             batchedUpdates.fill = textUpdates.fill;
         }
+        if ('backgroundColor' in textUpdates) {
+            batchedUpdates.backgroundColor = textUpdates.backgroundColor || '';
+        }
         
         // Alignment
         if (textUpdates.align !== undefined) {
@@ -572,6 +577,7 @@ export function syncFabricToElement(fabricObject: fabric.FabricObject): Element
                 autoFit: storedText.autoFit,
                 minFontSize: storedText.minFontSize,
                 maxFontSize: storedText.maxFontSize,
+                backgroundColor: storedText.backgroundColor,
             };
         }
         
@@ -600,6 +606,9 @@ export function syncFabricToElement(fabricObject: fabric.FabricObject): Element
                 cropWidth: storedImage.cropWidth,
                 cropHeight: storedImage.cropHeight,
                 fitMode: storedImage.fitMode,
+                focalPoint: storedImage.focalPoint,
+                focalPointField: storedImage.focalPointField,
+                smartCrop: storedImage.smartCrop,
                 cornerRadius: storedImage.cornerRadius,
                 filters: storedImage.filters,
                 isDynamic: storedImage.isDynamic,
@@ -626,6 +635,9 @@ export function syncFabricToElement(fabricObject: fabric.FabricObject): Element
                 cropWidth: storedImage.cropWidth,
                 cropHeight: storedImage.cropHeight,
                 fitMode: storedImage.fitMode,
+                focalPoint: storedImage.focalPoint,
+                focalPointField: storedImage.focalPointField,
+                smartCrop: storedImage.smartCrop,
                 cornerRadius: storedImage.cornerRadius,
                 filters: storedImage.filters,
                 isDynamic: storedImage.isDynamic,
@@ -744,6 +756,8 @@ export async function loadFabricImage(
             });
         }
 
+        applyImageFilters(fabric, img, element.filters);
+
         console.log('[ObjectFactory] Image loaded successfully:', element.id);
         return img;
     } catch (error) {
@@ -772,6 +786,8 @@ export async function loadFabricImage(
                     });
                 }
 
+                applyImageFilters(fabric, img, element.filters);
+
                 console.log('[ObjectFactory] Image loaded via proxy fallback:', element.id);
                 return img;
             } catch (proxyError) {
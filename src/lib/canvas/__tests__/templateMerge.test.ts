@@ -0,0 +1,107 @@
+/**
+ * Unit tests for merging a rejected save with the stored template
+ */
+
+import { ShapeElement } from '@/types/editor';
+import { applyMergeChoices, CANVAS_MERGE_KEY, findMergeItems } from '../templateMerge';
+import { TemplateContent } from '@/lib/utils/templateDiff';
+
+// ============================================
+// Test Fixtures
+// ============================================
+
+const shape = (id: string, overrides: Partial<ShapeElement> = {}): ShapeElement => ({
+    id,
+    name: `Shape ${id}`,
+    type: 'shape',
+    x: 0,
+    y: 0,
+    width: 100,
+    height: 100,
+    rotation: 0,
+    opacity: 1,
+    locked: false,
+    visible: true,
+    zIndex: 0,
+    shapeType: 'rect',
+    fill: '#FF0000',
+    stroke: '#000000',
+    strokeWidth: 1,
+    ...overrides,
+});
+
+const design = (elements: ShapeElement[], overrides: Partial<TemplateContent> = {}): TemplateContent => ({
+    elements,
+    canvas_size: { width: 1000, height: 1500 },
+    background_color: '#FFFFFF',
+    ...overrides,
+});
+
+const ids = (content: TemplateContent) => content.elements.map(el => el.id);
+
+// ============================================
+// Tests
+// ============================================
+
+describe('findMergeItems', () => {
+    it('finds nothing when both sides match', () => {
+        expect(findMergeItems(design([shape('a')]), design([shape('a')]))).toEqual([]);
+    });
+
+    it('lists elements only one side has and elements both changed', () => {
+        const mine = design([shape('a', { x: 10 }), shape('b'), shape('mine')]);
+        const theirs = design([shape('a', { x: 20 }), shape('b'), shape('theirs')]);
+
+        expect(findMergeItems(mine, theirs).map(item => [item.key, item.kind])).toEqual([
+            ['a', 'modified'],
+            ['mine', 'mine-only'],
+            ['theirs', 'theirs-only'],
+        ]);
+    });
+
+    it('catches edits to properties the canvas sync ignores', () => {
+        const items = findMergeItems(design([shape('a', { name: 'Logo' })]), design([shape('a')]));
+
+        expect(items.map(item => item.kind)).toEqual(['modified']);
+    });
+
+    it('lists canvas changes', () => {
+        const items = findMergeItems(design([]), design([], { background_color: '#000000' }));
+
+        expect(items).toEqual([{ key: CANVAS_MERGE_KEY, kind: 'canvas', label: 'Canvas size & background' }]);
+    });
+});
+
+describe('applyMergeChoices', () => {
+    const mine = design([shape('a', { x: 10 }), shape('mine'), shape('b')]);
+    const theirs = design([shape('a', { x: 20 }), shape('b'), shape('theirs')], { background_color: '#000000' });
+
+    it('keeps my design when nothing is chosen', () => {
+        expect(applyMergeChoices(mine, theirs, {})).toEqual(mine);
+    });
+
+    it('applies per-element choices', () => {
+        const merged = applyMergeChoices(mine, theirs, { a: 'theirs', mine: 'theirs', theirs: 'theirs' });
+
+        expect(ids(merged)).toEqual(['a', 'b', 'theirs']);
+        expect(merged.elements[0]).toMatchObject({ x: 20 });
+        expect(merged.background_color).toBe('#FFFFFF');
+    });
+
+    it('places elements taken from theirs above their neighbour', () => {
+        const merged = applyMergeChoices(
+            design([shape('a'), shape('b')]),
+            design([shape('new'), shape('a'), shape('added'), shape('b')]),
+            { new: 'theirs', added: 'theirs' }
+        );
+
+        expect(ids(merged)).toEqual(['new', 'a', 'added', 'b']);
+    });
+
+    it('takes their canvas settings when chosen', () => {
+        const merged = applyMergeChoices(mine, theirs, { [CANVAS_MERGE_KEY]: 'theirs' });
+
+        expect(merged.background_color).toBe('#000000');
+        expect(ids(merged)).toEqual(ids(mine));
+    });
+});
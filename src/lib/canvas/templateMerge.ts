@@ -0,0 +1,117 @@
+import { Element } from '@/types/editor';
+import { detectElementChange } from './elementChangeDetection';
+import { stableStringify, TemplateContent } from '@/lib/utils/templateDiff';
+
+/**
+ * Template Merge Utility
+ *
+ * When a save is rejected because the template changed elsewhere, the editor
+ * holds "mine" (the unsaved design) and the stored copy holds "theirs".
+ * Each element that differs becomes a merge item the user resolves with
+ * "keep mine" or "take theirs"; anything not listed is identical in both.
+ */
+
+export type MergeChoice = 'mine' | 'theirs';
+
+export interface MergeItem {
+    /** Element id, or CANVAS_MERGE_KEY for canvas size and background */
+    key: string;
+    /**
+     * - mine-only: in my design but not theirs (I added it or they deleted it)
+     * - theirs-only: in theirs but not mine (they added it or I deleted it)
+     * - modified: in both with different properties
+     * - canvas: canvas size or background color differ
+     */
+    kind: 'mine-only' | 'theirs-only' | 'modified' | 'canvas';
+    label: string;
+    elementType?: Element['type'];
+}
+
+export const CANVAS_MERGE_KEY = '__canvas__';
+
+/**
+ * List what differs between my design and theirs
+ */
+export function findMergeItems(mine: TemplateContent, theirs: TemplateContent): MergeItem[] {
+    const items: MergeItem[] = [];
+    // Elements only one side has
+    const change = detectElementChange(theirs.elements, mine.elements);
+    const theirsById = new Map(theirs.elements.map(el => [el.id, el]));
+    const mineOnly = new Set(change.added ?? []);
+    const theirsOnly = new Set(change.removed ?? []);
+
+    for (const element of mine.elements) {
+        if (mineOnly.has(element.id)) {
+            items.push({ key: element.id, kind: 'mine-only', label: element.name, elementType: element.type });
+            continue;
+        }
+
+        // detectElementChange only compares the properties that affect canvas
+        // sync, so compare whole elements here to not drop any edit
+        const other = theirsById.get(element.id);
+        if (other && stableStringify(other) !== stableStringify(element)) {
+            items.push({ key: element.id, kind: 'modified', label: element.name, elementType: element.type });
+        }
+    }
+
+    for (const element of theirs.elements) {
+        if (theirsOnly.has(element.id)) {
+            items.push({ key: element.id, kind: 'theirs-only', label: element.name, elementType: element.type });
+        }
+    }
+
+    if (stableStringify(mine.canvas_size) !== stableStringify(theirs.canvas_size)
+        || mine.background_color !== theirs.background_color) {
+        items.push({ key: CANVAS_MERGE_KEY, kind: 'canvas', label: 'Canvas size & background' });
+    }
+
+    return items;
+}
+
+/**
+ * Build the merged design from the user's choices (unlisted items keep mine)
+ * Layer order follows my design; elements taken only from theirs go right
+ * above the element they sat above in theirs.
+ */
+export function applyMergeChoices(
+    mine: TemplateContent,
+    theirs: TemplateContent,
+    choices: Record<string, MergeChoice>
+): TemplateContent {
+    const choose = (key: string): MergeChoice => choices[key] ?? 'mine';
+    const theirsById = new Map(theirs.elements.map(el => [el.id, el]));
+    const mineIds = new Set(mine.elements.map(el => el.id));
+
+    const merged: Element[] = [];
+    for (const element of mine.elements) {
+        const other = theirsById.get(element.id);
+        if (other) {
+            merged.push(choose(element.id) === 'theirs' ? other : element);
+        } else if (choose(element.id) === 'mine') {
+            merged.push(element);
+        }
+    }
+
+    theirs.elements.forEach((element, index) => {
+        if (mineIds.has(element.id) || choose(element.id) !== 'theirs') return;
+
+        // Find the closest element below it in theirs that made it into the merge
+        let insertAt = 0;
+        for (let i = index - 1; i >= 0; i--) {
+            const position = merged.findIndex(el => el.id === theirs.elements[i].id);
+            if (position >= 0) {
+                insertAt = position + 1;
+                break;
+            }
+        }
+        merged.splice(insertAt, 0, element);
+    });
+
+    const canvasSource = choose(CANVAS_MERGE_KEY) === 'theirs' ? theirs : mine;
+
+    return {
+        elements: merged,
+        canvas_size: canvasSource.canvas_size,
+        background_color: canvasSource.background_color,
+    };
+}
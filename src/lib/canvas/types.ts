@@ -27,6 +27,19 @@ export type ElementChangeCallback = (elements: Element[]) => void;
  */
 export type SelectionChangeCallback = (selectedIds: string[]) => void;
 
+/**
+ * Another person editing the same template, as the canvas draws them
+ */
+export interface RemoteCollaborator {
+    id: string;
+    name: string;
+    color: string;
+    /** Outlined in the collaborator's color */
+    selectedIds: string[];
+    /** Being dragged by the collaborator - can't be moved here meanwhile */
+    lockedIds: string[];
+}
+
 /**
  * Performance metrics
  */
@@ -69,6 +82,8 @@ export interface EditorFabricObject extends fabric.FabricObject {
     _needsAsyncImageLoad?: boolean;
     /** Image URL for async loading */
     _imageUrl?: string;
+    /** Movement locked because a collaborator is dragging it */
+    _softLocked?: boolean;
 }
 
 /**
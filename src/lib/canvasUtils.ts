@@ -173,12 +173,14 @@ export function extractBase64(dataUrl: string): string | null {
  * @param templateId Template ID
  * @param userId User ID
  * @param dataUrl Base64 data URL of the thumbnail
+ * @param versionId Template version the thumbnail belongs to (optional)
  * @returns URL of uploaded thumbnail or null on error
  */
 export async function uploadThumbnail(
     templateId: string,
     userId: string,
-    dataUrl: string
+    dataUrl: string,
+    versionId?: string
 ): Promise<string | null> {
     try {
         // Get current session token
@@ -200,6 +202,7 @@ export async function uploadThumbnail(
                 templateId,
                 userId,
                 imageData: dataUrl,
+                versionId,
             }),
         });
 
@@ -0,0 +1,214 @@
+import { generateId } from '@/lib/utils';
+import { canEditWorkspace } from '@/lib/auth/workspaceRoles';
+import { WorkspaceRole } from '@/types/database.types';
+import { TemplateContent } from '@/lib/utils/templateDiff';
+import { applyElementOps, diffTemplateContent } from './operations';
+import { CollabMessage, CollabPeer, CollabTransport } from './types';
+
+/**
+ * The design a session keeps in sync (the editor store in the app)
+ */
+export interface CollabDocument {
+    getContent(): TemplateContent;
+    /** Replace the design with one that includes other clients' changes */
+    applyRemote(content: TemplateContent): void;
+    /** Called after every change to the design, local or remote */
+    subscribe(listener: (content: TemplateContent) => void): () => void;
+}
+
+export interface CollabSessionOptions {
+    transport: CollabTransport;
+    document: CollabDocument;
+    /** Viewers follow along without sharing local edits */
+    user: { id: string; name: string; avatarUrl: string | null; role: WorkspaceRole | null };
+    /** Other connected clients changed (joined, left, selected, dragged) */
+    onPeersChange?: (peers: CollabPeer[]) => void;
+    /** Another client saved the shared design with this revision */
+    onRemoteSave?: (revision: number) => void;
+}
+
+const PEER_COLORS = ['#E11D48', '#2563EB', '#16A34A', '#D97706', '#9333EA', '#0891B2', '#DB2777', '#65A30D'];
+
+/**
+ * Stable outline color for a user, so their tabs all look the same
+ */
+export function getPeerColor(userId: string): string {
+    let hash = 0;
+    for (let i = 0; i < userId.length; i++) {
+        hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+    }
+    return PEER_COLORS[Math.abs(hash) % PEER_COLORS.length];
+}
+
+/**
+ * CollabSession - one client's connection to a shared template
+ *
+ * Broadcasts local design changes as element operations, applies operations
+ * from other clients, and publishes this client's selection and drag state
+ * as presence. Changes are last-writer-wins per property; elements another
+ * client is dragging are soft-locked (the UI blocks moving them, nothing else).
+ * Changes are only taken from clients whose presence says they can edit.
+ */
+export class CollabSession {
+    readonly clientId = generateId();
+
+    private readonly readOnly: boolean;
+    private presence: CollabPeer;
+    private peers: CollabPeer[] = [];
+    private lastContent: TemplateContent;
+    private applyingRemote = false;
+    private synced = false;
+    private cleanups: Array<() => void> = [];
+
+    constructor(private options: CollabSessionOptions) {
+        const { user } = options;
+        this.presence = {
+            clientId: this.clientId,
+            userId: user.id,
+            name: user.name,
+            avatarUrl: user.avatarUrl,
+            role: user.role,
+            color: getPeerColor(user.id),
+            joinedAt: Date.now(),
+            selectedIds: [],
+            draggingIds: [],
+        };
+        this.readOnly = !canEditWorkspace(user.role);
+        this.lastContent = options.document.getContent();
+    }
+
+    /**
+     * Join the template's channel and ask a connected client for its design
+     * Viewers can't broadcast, so they start from the saved design.
+     */
+    async start(): Promise<void> {
+        const { transport, document } = this.options;
+
+        this.lastContent = document.getContent();
+        this.cleanups.push(
+            document.subscribe(this.handleLocalChange),
+            transport.onMessage(this.handleMessage),
+            transport.onPresence(this.handlePresence)
+        );
+
+        await transport.connect(this.presence);
+        if (!this.readOnly) transport.send({ type: 'sync-request', from: this.clientId });
+    }
+
+    stop(): void {
+        this.cleanups.forEach(cleanup => cleanup());
+        this.cleanups = [];
+        this.options.transport.disconnect();
+        this.peers = [];
+    }
+
+    getPeers(): CollabPeer[] {
+        return this.peers;
+    }
+
+    /**
+     * The other client dragging this element, if any
+     */
+    getLockOwner(elementId: string): CollabPeer | null {
+        return this.peers.find(peer => peer.draggingIds.includes(elementId)) ?? null;
+    }
+
+    setSelection(selectedIds: string[]): void {
+        if (sameIds(selectedIds, this.presence.selectedIds)) return;
+        this.updatePresence({ selectedIds });
+    }
+
+    setDragging(draggingIds: string[]): void {
+        if (sameIds(draggingIds, this.presence.draggingIds)) return;
+        this.updatePresence({ draggingIds });
+    }
+
+    /**
+     * Tell other clients the shared design was saved, so their next save
+     * builds on this revision instead of conflicting with it
+     */
+    announceSave(revision: number): void {
+        if (this.readOnly) return;
+        this.options.transport.send({ type: 'saved', from: this.clientId, revision });
+    }
+
+    private updatePresence(changes: Partial<CollabPeer>): void {
+        this.presence = { ...this.presence, ...changes };
+        this.options.transport.updatePresence(this.presence);
+    }
+
+    private handleLocalChange = (content: TemplateContent): void => {
+        if (this.applyingRemote || this.readOnly) return;
+
+        const ops = diffTemplateContent(this.lastContent, content);
+        this.lastContent = content;
+        if (ops.length === 0) return;
+
+        // Once this client has edited, a late sync must not overwrite the edit
+        this.synced = true;
+        this.options.transport.send({ type: 'ops', from: this.clientId, ops });
+    };
+
+    private handleMessage = (message: CollabMessage): void => {
+        // Design changes count only from clients that may make them
+        if (message.type !== 'sync-request' && !this.canPeerEdit(message.from)) return;
+
+        switch (message.type) {
+            case 'ops':
+                this.applyRemote(applyElementOps(this.options.document.getContent(), message.ops));
+                break;
+            case 'sync-request':
+                if (this.isSyncSource(message.from)) {
+                    this.options.transport.send({
+                        type: 'sync',
+                        from: this.clientId,
+                        to: message.from,
+                        content: this.options.document.getContent(),
+                    });
+                }
+                break;
+            case 'sync':
+                if (message.to !== this.clientId || this.synced) return;
+                this.synced = true;
+                this.applyRemote(message.content);
+                break;
+            case 'saved':
+                this.options.onRemoteSave?.(message.revision);
+                break;
+        }
+    };
+
+    private handlePresence = (peers: CollabPeer[]): void => {
+        this.peers = peers.filter(peer => peer.clientId !== this.clientId);
+        this.options.onPeersChange?.(this.peers);
+    };
+
+    private applyRemote(content: TemplateContent): void {
+        this.applyingRemote = true;
+        try {
+            this.options.document.applyRemote(content);
+        } finally {
+            this.applyingRemote = false;
+        }
+        this.lastContent = this.options.document.getContent();
+    }
+
+    private canPeerEdit(clientId: string): boolean {
+        const peer = this.peers.find(p => p.clientId === clientId);
+        return !!peer && canEditWorkspace(peer.role);
+    }
+
+    /**
+     * Only the longest-connected client that can edit answers a sync request
+     */
+    private isSyncSource(requesterId: string): boolean {
+        const [source] = [this.presence, ...this.peers]
+            .filter(peer => peer.clientId !== requesterId && canEditWorkspace(peer.role))
+            .sort((a, b) => a.joinedAt - b.joinedAt || a.clientId.localeCompare(b.clientId));
+        return source?.clientId === this.clientId;
+    }
+}
+
+function sameIds(a: string[], b: string[]): boolean {
+    return a.length === b.length && a.every((id, index) => id === b[index]);
+}
@@ -0,0 +1,98 @@
+import { CollabMessage, CollabPeer, CollabTransport } from './types';
+
+/**
+ * In-process collaboration channel
+ *
+ * Connects transports created from the same channel within one JS process.
+ * Delivery is synchronous, which keeps tests deterministic. Mirrors the
+ * Supabase transport: broadcasts skip the sender, presence includes everyone.
+ */
+export class InProcessChannel {
+    private transports = new Set<InProcessTransport>();
+
+    createTransport(): CollabTransport {
+        return new InProcessTransport(this);
+    }
+
+    /** @internal */
+    join(transport: InProcessTransport): void {
+        this.transports.add(transport);
+        this.syncPresence();
+    }
+
+    /** @internal */
+    leave(transport: InProcessTransport): void {
+        this.transports.delete(transport);
+        this.syncPresence();
+    }
+
+    /** @internal */
+    broadcast(sender: InProcessTransport, message: CollabMessage): void {
+        for (const transport of [...this.transports]) {
+            if (transport !== sender) transport.deliver(message);
+        }
+    }
+
+    /** @internal */
+    syncPresence(): void {
+        const peers = [...this.transports]
+            .map(transport => transport.presence)
+            .filter((presence): presence is CollabPeer => !!presence);
+
+        for (const transport of [...this.transports]) {
+            transport.deliverPresence(peers);
+        }
+    }
+}
+
+class InProcessTransport implements CollabTransport {
+    presence: CollabPeer | null = null;
+    private messageHandlers = new Set<(message: CollabMessage) => void>();
+    private presenceHandlers = new Set<(peers: CollabPeer[]) => void>();
+    private connected = false;
+
+    constructor(private channel: InProcessChannel) {}
+
+    async connect(presence: CollabPeer): Promise<void> {
+        this.presence = presence;
+        this.connected = true;
+        this.channel.join(this);
+    }
+
+    disconnect(): void {
+        if (!this.connected) return;
+        this.connected = false;
+        this.presence = null;
+        this.channel.leave(this);
+    }
+
+    send(message: CollabMessage): void {
+        if (this.connected) this.channel.broadcast(this, message);
+    }
+
+    updatePresence(presence: CollabPeer): void {
+        if (!this.connected) return;
+        this.presence = presence;
+        this.channel.syncPresence();
+    }
+
+    onMessage(handler: (message: CollabMessage) => void): () => void {
+        this.messageHandlers.add(handler);
+        return () => this.messageHandlers.delete(handler);
+    }
+
+    onPresence(handler: (peers: CollabPeer[]) => void): () => void {
+        this.presenceHandlers.add(handler);
+        return () => this.presenceHandlers.delete(handler);
+    }
+
+    deliver(message: CollabMessage): void {
+        // Deep copy, like a message that went over the network
+        const copy = JSON.parse(JSON.stringify(message)) as CollabMessage;
+        this.messageHandlers.forEach(handler => handler(copy));
+    }
+
+    deliverPresence(peers: CollabPeer[]): void {
+        this.presenceHandlers.forEach(handler => handler(peers));
+    }
+}
@@ -0,0 +1,84 @@
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { CollabMessage, CollabPeer, CollabTransport } from './types';
+
+const MESSAGE_EVENT = 'collab';
+
+/**
+ * Supabase Realtime collaboration transport
+ *
+ * One channel per template: operations go out as broadcasts (not echoed to
+ * the sender) and each client tracks its presence under its client id, so a
+ * closed tab drops out of presence and releases its soft locks.
+ * Channels are private: Realtime checks the realtime.messages policies
+ * (027_private_collab_channels.sql) on join, so only workspace members
+ * listen and only owners and editors broadcast.
+ */
+export class SupabaseRealtimeTransport implements CollabTransport {
+    private channel: RealtimeChannel | null = null;
+    private messageHandlers = new Set<(message: CollabMessage) => void>();
+    private presenceHandlers = new Set<(peers: CollabPeer[]) => void>();
+
+    constructor(private templateId: string) {}
+
+    connect(presence: CollabPeer): Promise<void> {
+        const channel = supabase.channel(`template-collab-${this.templateId}`, {
+            config: {
+                private: true,
+                broadcast: { self: false },
+                presence: { key: presence.clientId },
+            },
+        });
+        this.channel = channel;
+
+        channel
+            .on('broadcast', { event: MESSAGE_EVENT }, ({ payload }) => {
+                this.messageHandlers.forEach(handler => handler(payload as CollabMessage));
+            })
+            .on('presence', { event: 'sync' }, () => {
+                const state = channel.presenceState<CollabPeer>();
+                // A key can hold several entries briefly while a client reconnects
+                const peers = Object.values(state).map(entries => {
+                    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+                    const { presence_ref, ...peer } = entries[entries.length - 1];
+                    return peer as CollabPeer;
+                });
+                this.presenceHandlers.forEach(handler => handler(peers));
+            });
+
+        return new Promise((resolve, reject) => {
+            channel.subscribe(async (status, error) => {
+                if (status === 'SUBSCRIBED') {
+                    await channel.track({ ...presence });
+                    resolve();
+                } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+                    reject(error ?? new Error(`Realtime channel ${status.toLowerCase()}`));
+                }
+            });
+        });
+    }
+
+    disconnect(): void {
+        if (!this.channel) return;
+        supabase.removeChannel(this.channel);
+        this.channel = null;
+    }
+
+    send(message: CollabMessage): void {
+        this.channel?.send({ type: 'broadcast', event: MESSAGE_EVENT, payload: message });
+    }
+
+    updatePresence(presence: CollabPeer): void {
+        this.channel?.track({ ...presence });
+    }
+
+    onMessage(handler: (message: CollabMessage) => void): () => void {
+        this.messageHandlers.add(handler);
+        return () => this.messageHandlers.delete(handler);
+    }
+
+    onPresence(handler: (peers: CollabPeer[]) => void): () => void {
+        this.presenceHandlers.add(handler);
+        return () => this.presenceHandlers.delete(handler);
+    }
+}
@@ -0,0 +1,223 @@
+/**
+ * Unit tests for CollabSession over the in-process transport
+ */
+
+import { ShapeElement } from '@/types/editor';
+import { TemplateContent } from '@/lib/utils/templateDiff';
+import { WorkspaceRole } from '@/types/database.types';
+import { CollabDocument, CollabSession, getPeerColor } from '../CollabSession';
+import { InProcessChannel } from '../InProcessTransport';
+import { CollabPeer } from '../types';
+
+// ============================================
+// Test Fixtures
+// ============================================
+
+const shape = (id: string, overrides: Partial<ShapeElement> = {}): ShapeElement => ({
+    id,
+    name: `Shape ${id}`,
+    type: 'shape',
+    x: 0,
+    y: 0,
+    width: 100,
+    height: 100,
+    rotation: 0,
+    opacity: 1,
+    locked: false,
+    visible: true,
+    zIndex: 0,
+    shapeType: 'rect',
+    fill: '#FF0000',
+    stroke: '#000000',
+    strokeWidth: 1,
+    ...overrides,
+});
+
+const design = (elements: ShapeElement[]): TemplateContent => ({
+    elements,
+    canvas_size: { width: 1000, height: 1500 },
+    background_color: '#FFFFFF',
+});
+
+/**
+ * In-memory design that notifies on every change, like editorStore
+ */
+function createDocument(initial: TemplateContent): CollabDocument & { edit: (content: TemplateContent) => void } {
+    let content = initial;
+    const listeners = new Set<(content: TemplateContent) => void>();
+    const set = (next: TemplateContent) => {
+        content = next;
+        listeners.forEach(listener => listener(content));
+    };
+
+    return {
+        getContent: () => content,
+        applyRemote: set,
+        edit: set,
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        },
+    };
+}
+
+async function join(channel: InProcessChannel, userId: string, initial: TemplateContent, role: WorkspaceRole = 'editor') {
+    const document = createDocument(initial);
+    const transport = channel.createTransport();
+    const peers: CollabPeer[][] = [];
+    const savedRevisions: number[] = [];
+    const session = new CollabSession({
+        transport,
+        document,
+        user: { id: userId, name: userId, avatarUrl: null, role },
+        onPeersChange: (list) => peers.push(list),
+        onRemoteSave: (revision) => savedRevisions.push(revision),
+    });
+    await session.start();
+    return { session, document, transport, peers, savedRevisions };
+}
+
+// ============================================
+// Tests
+// ============================================
+
+describe('CollabSession', () => {
+    let channel: InProcessChannel;
+
+    beforeEach(() => {
+        channel = new InProcessChannel();
+        // Clients join in order, a millisecond apart
+        let now = 1_000;
+        jest.spyOn(Date, 'now').mockImplementation(() => now++);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('applies one client\'s edits on the other', async () => {
+        const alice = await join(channel, 'alice', design([shape('a')]));
+        const bob = await join(channel, 'bob', design([shape('a')]));
+
+        alice.document.edit(design([shape('a', { x: 50 }), shape('b')]));
+
+        expect(bob.document.getContent()).toEqual(alice.document.getContent());
+    });
+
+    it('does not broadcast changes it received', async () => {
+        const alice = await join(channel, 'alice', design([shape('a')]));
+        const bob = await join(channel, 'bob', design([shape('a')]));
+        const bobSend = jest.spyOn(bob.transport, 'send');
+
+        alice.document.edit(design([shape('a', { x: 50 })]));
+
+        expect(bobSend).not.toHaveBeenCalled();
+    });
+
+    it('merges concurrent edits to different properties', async () => {
+        const alice = await join(channel, 'alice', design([shape('a')]));
+        const bob = await join(channel, 'bob', design([shape('a')]));
+
+        alice.document.edit(design([shape('a', { x: 50 })]));
+        bob.document.edit(design([{ ...bob.document.getContent().elements[0], fill: '#0000FF' } as ShapeElement]));
+
+        expect(alice.document.getContent().elements[0]).toMatchObject({ x: 50, fill: '#0000FF' });
+        expect(bob.document.getContent()).toEqual(alice.document.getContent());
+    });
+
+    it('gives a late joiner the unsaved design of a connected client', async () => {
+        const alice = await join(channel, 'alice', design([shape('a')]));
+        alice.document.edit(design([shape('a'), shape('unsaved')]));
+
+        const bob = await join(channel, 'bob', design([shape('a')]));
+
+        expect(bob.document.getContent()).toEqual(alice.document.getContent());
+    });
+
+    it('answers a sync request from the longest-connected client only', async () => {
+        await join(channel, 'alice', design([shape('a')]));
+        const bob = await join(channel, 'bob', design([shape('a')]));
+        const bobSend = jest.spyOn(bob.transport, 'send');
+
+        await join(channel, 'carol', design([]));
+
+        expect(bobSend).not.toHaveBeenCalled();
+    });
+
+    it('shares selection and drags as presence', async () => {
+        const alice = await join(channel, 'alice', design([shape('a')]));
+        const bob = await join(channel, 'bob', design([shape('a')]));
+
+        alice.session.setSelection(['a']);
+        alice.session.setDragging(['a']);
+
+        expect(bob.session.getPeers()).toEqual([
+            expect.objectContaining({ userId: 'alice', color: getPeerColor('alice'), selectedIds: ['a'], draggingIds: ['a'] }),
+        ]);
+        expect(bob.session.getLockOwner('a')?.userId).toBe('alice');
+
+        alice.session.setDragging([]);
+        expect(bob.session.getLockOwner('a')).toBeNull();
+    });
+
+    it('releases soft locks when a client leaves', async () => {
+        const alice = await join(channel, 'alice', design([shape('a')]));
+        const bob = await join(channel, 'bob', design([shape('a')]));
+
+        alice.session.setDragging(['a']);
+        alice.session.stop();
+
+        expect(bob.session.getLockOwner('a')).toBeNull();
+        expect(bob.peers[bob.peers.length - 1]).toEqual([]);
+    });
+
+    it('stops syncing after stop()', async () => {
+        const alice = await join(channel, 'alice', design([shape('a')]));
+        const bob = await join(channel, 'bob', design([shape('a')]));
+
+        bob.session.stop();
+        alice.document.edit(design([shape('a', { x: 99 })]));
+
+        expect(bob.document.getContent()).toEqual(design([shape('a')]));
+    });
+
+    it('does not share a viewer\'s edits', async () => {
+        const viewer = await join(channel, 'viewer', design([shape('a')]), 'viewer');
+        const alice = await join(channel, 'alice', design([shape('a')]));
+
+        viewer.document.edit(design([shape('a', { x: 99 })]));
+        expect(alice.document.getContent()).toEqual(design([shape('a')]));
+
+        // The longer-connected viewer can't broadcast, so an editor hands out the shared design
+        const viewerSend = jest.spyOn(viewer.transport, 'send');
+        const bob = await join(channel, 'bob', design([]));
+        expect(viewerSend).not.toHaveBeenCalled();
+        expect(bob.document.getContent()).toEqual(design([shape('a')]));
+
+        alice.document.edit(design([shape('a', { fill: '#0000FF' })]));
+        expect(viewer.document.getContent().elements[0]).toMatchObject({ fill: '#0000FF' });
+    });
+
+    it('ignores changes from viewers and unknown clients', async () => {
+        const alice = await join(channel, 'alice', design([shape('a')]));
+        const viewer = await join(channel, 'viewer', design([shape('a')]), 'viewer');
+
+        // A modified client could still try to send, bypassing the session
+        viewer.transport.send({ type: 'ops', from: viewer.session.clientId, ops: [{ op: 'delete', id: 'a' }] });
+        viewer.transport.send({ type: 'saved', from: viewer.session.clientId, revision: 9 });
+        viewer.transport.send({ type: 'ops', from: 'not-in-presence', ops: [{ op: 'delete', id: 'a' }] });
+
+        expect(alice.document.getContent()).toEqual(design([shape('a')]));
+        expect(alice.savedRevisions).toEqual([]);
+    });
+
+    it('passes saved revisions to other clients', async () => {
+        const alice = await join(channel, 'alice', design([shape('a')]));
+        const bob = await join(channel, 'bob', design([shape('a')]));
+
+        alice.session.announceSave(7);
+
+        expect(bob.savedRevisions).toEqual([7]);
+        expect(alice.savedRevisions).toEqual([]);
+    });
+});
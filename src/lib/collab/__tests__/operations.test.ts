@@ -0,0 +1,123 @@
+/**
+ * Unit tests for collaboration operations (diff and apply)
+ */
+
+import { ShapeElement } from '@/types/editor';
+import { TemplateContent } from '@/lib/utils/templateDiff';
+import { applyElementOps, diffTemplateContent } from '../operations';
+
+// ============================================
+// Test Fixtures
+// ============================================
+
+const shape = (id: string, overrides: Partial<ShapeElement> = {}): ShapeElement => ({
+    id,
+    name: `Shape ${id}`,
+    type: 'shape',
+    x: 0,
+    y: 0,
+    width: 100,
+    height: 100,
+    rotation: 0,
+    opacity: 1,
+    locked: false,
+    visible: true,
+    zIndex: 0,
+    shapeType: 'rect',
+    fill: '#FF0000',
+    stroke: '#000000',
+    strokeWidth: 1,
+    ...overrides,
+});
+
+const design = (elements: ShapeElement[], overrides: Partial<TemplateContent> = {}): TemplateContent => ({
+    elements,
+    canvas_size: { width: 1000, height: 1500 },
+    background_color: '#FFFFFF',
+    ...overrides,
+});
+
+const ids = (content: TemplateContent) => content.elements.map(el => el.id);
+
+// ============================================
+// Tests
+// ============================================
+
+describe('diffTemplateContent', () => {
+    it('returns no operations for an unchanged design', () => {
+        expect(diffTemplateContent(design([shape('a')]), design([shape('a')]))).toEqual([]);
+    });
+
+    it('sends only the properties that changed', () => {
+        const ops = diffTemplateContent(design([shape('a')]), design([shape('a', { x: 40, fill: '#00FF00' })]));
+
+        expect(ops).toEqual([{ op: 'update', id: 'a', changes: { x: 40, fill: '#00FF00' } }]);
+    });
+
+    it('lists removed properties separately', () => {
+        const ops = diffTemplateContent(
+            design([shape('a', { cornerRadius: 8 })]),
+            design([shape('a')])
+        );
+
+        expect(ops).toEqual([{ op: 'update', id: 'a', changes: {}, unset: ['cornerRadius'] }]);
+    });
+
+    it('describes adds, deletes and canvas changes', () => {
+        const ops = diffTemplateContent(
+            design([shape('a'), shape('b')]),
+            design([shape('new'), shape('a')], { background_color: '#000000' })
+        );
+
+        expect(ops).toEqual([
+            { op: 'delete', id: 'b' },
+            { op: 'add', element: shape('new'), index: 0 },
+            { op: 'canvas', background_color: '#000000' },
+        ]);
+    });
+
+    it('adds an order operation only when layers move', () => {
+        const ops = diffTemplateContent(design([shape('a'), shape('b')]), design([shape('b'), shape('a')]));
+
+        expect(ops).toEqual([{ op: 'order', ids: ['b', 'a'] }]);
+    });
+
+    it('round-trips through applyElementOps', () => {
+        const prev = design([shape('a'), shape('b', { cornerRadius: 4 }), shape('c')]);
+        const next = design([shape('c', { y: 90 }), shape('d'), shape('b')], { canvas_size: { width: 1000, height: 2100 } });
+
+        expect(applyElementOps(prev, diffTemplateContent(prev, next))).toEqual(next);
+    });
+});
+
+describe('applyElementOps', () => {
+    it('keeps edits to different properties of the same element', () => {
+        const base = design([shape('a')]);
+        const mine = applyElementOps(base, [{ op: 'update', id: 'a', changes: { x: 10 } }]);
+        const merged = applyElementOps(mine, [{ op: 'update', id: 'a', changes: { fill: '#0000FF' } }]);
+
+        expect(merged.elements[0]).toMatchObject({ x: 10, fill: '#0000FF' });
+    });
+
+    it('drops updates to elements deleted here', () => {
+        const result = applyElementOps(design([shape('a')]), [{ op: 'update', id: 'gone', changes: { x: 5 } }]);
+
+        expect(result).toEqual(design([shape('a')]));
+    });
+
+    it('keeps elements the sender did not know about above their neighbour on reorder', () => {
+        const result = applyElementOps(
+            design([shape('a'), shape('local'), shape('b')]),
+            [{ op: 'order', ids: ['b', 'a'] }]
+        );
+
+        expect(ids(result)).toEqual(['b', 'a', 'local']);
+    });
+
+    it('does not duplicate an element that is added twice', () => {
+        const result = applyElementOps(design([shape('a')]), [{ op: 'add', element: shape('a', { x: 3 }), index: 1 }]);
+
+        expect(ids(result)).toEqual(['a']);
+        expect(result.elements[0]).toMatchObject({ x: 3 });
+    });
+});
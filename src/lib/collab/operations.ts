@@ -0,0 +1,155 @@
+import { Element } from '@/types/editor';
+import { stableStringify, TemplateContent } from '@/lib/utils/templateDiff';
+import { ElementOp } from './types';
+
+/**
+ * Collaboration Operations
+ *
+ * Turns a local design change into element operations to broadcast, and
+ * applies operations received from other clients. Operations address
+ * elements by id, so they still apply when the receiver's design has moved on
+ * (an update to an element someone else deleted is dropped).
+ */
+
+/**
+ * Operations that turn `prev` into `next`
+ */
+export function diffTemplateContent(prev: TemplateContent, next: TemplateContent): ElementOp[] {
+    const ops: ElementOp[] = [];
+    const prevById = new Map(prev.elements.map(el => [el.id, el]));
+    const nextIds = new Set(next.elements.map(el => el.id));
+
+    for (const element of prev.elements) {
+        if (!nextIds.has(element.id)) {
+            ops.push({ op: 'delete', id: element.id });
+        }
+    }
+
+    next.elements.forEach((element, index) => {
+        const before = prevById.get(element.id);
+        if (!before) {
+            ops.push({ op: 'add', element, index });
+            return;
+        }
+
+        const update = diffElement(before, element);
+        if (update) ops.push(update);
+    });
+
+    // Adds and deletes alone may not give the new layer order
+    const expectedOrder = applyElementOps(prev, ops).elements.map(el => el.id);
+    const nextOrder = next.elements.map(el => el.id);
+    if (expectedOrder.join(',') !== nextOrder.join(',')) {
+        ops.push({ op: 'order', ids: nextOrder });
+    }
+
+    const canvasSizeChanged = stableStringify(prev.canvas_size) !== stableStringify(next.canvas_size);
+    const backgroundChanged = prev.background_color !== next.background_color;
+    if (canvasSizeChanged || backgroundChanged) {
+        ops.push({
+            op: 'canvas',
+            ...(canvasSizeChanged && { canvas_size: next.canvas_size }),
+            ...(backgroundChanged && { background_color: next.background_color }),
+        });
+    }
+
+    return ops;
+}
+
+/**
+ * Changed and removed properties of one element, or null if it's unchanged
+ */
+function diffElement(before: Element, after: Element): ElementOp | null {
+    const changes: Record<string, unknown> = {};
+    const unset: string[] = [];
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+    for (const key of keys) {
+        const oldValue = (before as unknown as Record<string, unknown>)[key];
+        const newValue = (after as unknown as Record<string, unknown>)[key];
+        if (stableStringify(oldValue) === stableStringify(newValue)) continue;
+
+        if (newValue === undefined) {
+            unset.push(key);
+        } else {
+            changes[key] = newValue;
+        }
+    }
+
+    if (Object.keys(changes).length === 0 && unset.length === 0) return null;
+    return {
+        op: 'update',
+        id: after.id,
+        changes: changes as Partial<Element>,
+        ...(unset.length > 0 && { unset }),
+    };
+}
+
+/**
+ * Apply operations to a design (returns a new design)
+ */
+export function applyElementOps(content: TemplateContent, ops: ElementOp[]): TemplateContent {
+    let elements = [...content.elements];
+    let canvasSize = content.canvas_size;
+    let backgroundColor = content.background_color;
+
+    for (const op of ops) {
+        switch (op.op) {
+            case 'add': {
+                const existing = elements.findIndex(el => el.id === op.element.id);
+                if (existing >= 0) {
+                    elements[existing] = op.element;
+                } else {
+                    elements.splice(Math.min(op.index, elements.length), 0, op.element);
+                }
+                break;
+            }
+            case 'update':
+                elements = elements.map(el => {
+                    if (el.id !== op.id) return el;
+                    const updated = { ...el, ...op.changes } as Record<string, unknown>;
+                    for (const key of op.unset ?? []) delete updated[key];
+                    return updated as unknown as Element;
+                });
+                break;
+            case 'delete':
+                elements = elements.filter(el => el.id !== op.id);
+                break;
+            case 'order':
+                elements = reorderByIds(elements, op.ids);
+                break;
+            case 'canvas':
+                canvasSize = op.canvas_size ?? canvasSize;
+                backgroundColor = op.background_color ?? backgroundColor;
+                break;
+        }
+    }
+
+    return { elements, canvas_size: canvasSize, background_color: backgroundColor };
+}
+
+/**
+ * Put elements in the given order; elements the sender didn't know about
+ * (added here meanwhile) stay right above the element they were above
+ */
+function reorderByIds(elements: Element[], ids: string[]): Element[] {
+    const byId = new Map(elements.map(el => [el.id, el]));
+    const ordered = ids.map(id => byId.get(id)).filter((el): el is Element => !!el);
+    const listed = new Set(ids);
+
+    elements.forEach((element, index) => {
+        if (listed.has(element.id)) return;
+
+        let insertAt = 0;
+        for (let i = index - 1; i >= 0; i--) {
+            const position = ordered.findIndex(el => el.id === elements[i].id);
+            if (position >= 0) {
+                insertAt = position + 1;
+                break;
+            }
+        }
+        ordered.splice(insertAt, 0, element);
+    });
+
+    return ordered;
+}
@@ -0,0 +1,85 @@
+/**
+ * Collaboration Types
+ *
+ * Shared shapes for live multi-user template editing: the element operations
+ * clients broadcast, the presence each client publishes, and the transport
+ * that carries both (Supabase Realtime in the app, in-process in tests).
+ */
+
+import { CanvasSize, Element } from '@/types/editor';
+import { WorkspaceRole } from '@/types/database.types';
+import { TemplateContent } from '@/lib/utils/templateDiff';
+
+// ============================================
+// Operations
+// ============================================
+
+/**
+ * One change to a template design
+ * Updates carry only the properties that changed, so two people editing
+ * different properties of the same element both keep their edit.
+ */
+export type ElementOp =
+    | { op: 'add'; element: Element; index: number }
+    | { op: 'update'; id: string; changes: Partial<Element>; unset?: string[] }
+    | { op: 'delete'; id: string }
+    /** Full layer order (bottom to top) after adds, deletes and moves */
+    | { op: 'order'; ids: string[] }
+    | { op: 'canvas'; canvas_size?: CanvasSize; background_color?: string };
+
+// ============================================
+// Presence
+// ============================================
+
+/**
+ * What each connected client publishes about itself
+ * A client is one editor tab, so the same user can appear twice.
+ */
+export interface CollabPeer {
+    clientId: string;
+    userId: string;
+    name: string;
+    avatarUrl: string | null;
+    /**
+     * Workspace role of the user. Receivers ignore changes from viewers; the
+     * channel policy stops viewers broadcasting, so a forged role gains nothing
+     */
+    role: WorkspaceRole | null;
+    /** Outline color for this client's selection */
+    color: string;
+    /** Used to pick which client answers a late joiner's sync request */
+    joinedAt: number;
+    selectedIds: string[];
+    /** Elements this client is dragging right now (soft-locked for others) */
+    draggingIds: string[];
+}
+
+// ============================================
+// Messages
+// ============================================
+
+export type CollabMessage =
+    | { type: 'ops'; from: string; ops: ElementOp[] }
+    /** Sent on join so a connected client shares its unsaved design */
+    | { type: 'sync-request'; from: string }
+    | { type: 'sync'; from: string; to: string; content: TemplateContent }
+    /** The sender saved the shared design; receivers adopt the new revision */
+    | { type: 'saved'; from: string; revision: number };
+
+// ============================================
+// Transport
+// ============================================
+
+/**
+ * Carries messages and presence between the clients editing one template
+ * Broadcasts are not echoed back to the sender. Presence handlers receive
+ * every connected client, including this one.
+ */
+export interface CollabTransport {
+    connect(presence: CollabPeer): Promise<void>;
+    disconnect(): void;
+    send(message: CollabMessage): void;
+    updatePresence(presence: CollabPeer): void;
+    onMessage(handler: (message: CollabMessage) => void): () => void;
+    onPresence(handler: (peers: CollabPeer[]) => void): () => void;
+}
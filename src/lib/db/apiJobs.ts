@@ -0,0 +1,257 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { DbApiJob, DbApiJobInsert, DbApiJobUpdate, DbApiJobResult, DbApiJobResultInsert } from '@/types/database.types';
+
+/**
+ * API Jobs (Server-side only)
+ * All functions REQUIRE a Service Role client - jobs are written by API routes
+ * and the Inngest worker, never by the browser.
+ */
+
+export type ApiJobResultItem = Pick<DbApiJobResult, 'row_index' | 'status' | 'url' | 'error'>;
+
+/** A job without its rows, for status checks while rendering */
+export type ApiJobSummary = Omit<DbApiJob, 'rows'>;
+
+// Row limit per job, for inline rows and downloaded CSVs alike
+export const MAX_ROWS_PER_JOB = 10000;
+
+const SUMMARY_COLUMNS = 'id, user_id, api_key_id, template_id, template_short_id, csv_url, field_mapping, multiplier, '
+    + 'output_format, output_quality, max_file_size_kb, total_rows, status, error_message, created_at, started_at, '
+    + 'completed_at, cancelled_at';
+
+/**
+ * Create a queued job
+ */
+export async function createApiJob(client: SupabaseClient, job: DbApiJobInsert): Promise<DbApiJob | null> {
+    try {
+        const { data, error } = await client
+            .from('api_jobs')
+            .insert({ ...job, status: job.status || 'queued' })
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Error creating API job:', error);
+            return null;
+        }
+
+        return data;
+    } catch (error) {
+        console.error('Error creating API job:', error);
+        return null;
+    }
+}
+
+/**
+ * Get a job by ID
+ * @param userId Optional - restrict to jobs owned by this user (API routes)
+ */
+export async function getApiJob(client: SupabaseClient, jobId: string, userId?: string): Promise<DbApiJob | null> {
+    try {
+        let query = client
+            .from('api_jobs')
+            .select('*')
+            .eq('id', jobId);
+
+        if (userId) {
+            query = query.eq('user_id', userId);
+        }
+
+        const { data, error } = await query.maybeSingle();
+
+        if (error) {
+            console.error('Error fetching API job:', error);
+            return null;
+        }
+
+        return data;
+    } catch (error) {
+        console.error('Error fetching API job:', error);
+        return null;
+    }
+}
+
+/**
+ * Get a job without its rows
+ * Workers and status polls read this; the rows can be megabytes of JSON.
+ * @param userId Optional - restrict to jobs owned by this user (API routes)
+ */
+export async function getApiJobSummary(client: SupabaseClient, jobId: string, userId?: string): Promise<ApiJobSummary | null> {
+    try {
+        let query = client
+            .from('api_jobs')
+            .select(SUMMARY_COLUMNS)
+            .eq('id', jobId);
+
+        if (userId) {
+            query = query.eq('user_id', userId);
+        }
+
+        const { data, error } = await query.maybeSingle();
+
+        if (error) {
+            console.error('Error fetching API job summary:', error);
+            return null;
+        }
+
+        return data as ApiJobSummary | null;
+    } catch (error) {
+        console.error('Error fetching API job summary:', error);
+        return null;
+    }
+}
+
+/**
+ * Update job fields (status transitions, row count)
+ */
+export async function updateApiJob(client: SupabaseClient, jobId: string, updates: DbApiJobUpdate): Promise<boolean> {
+    try {
+        const { error } = await client
+            .from('api_jobs')
+            .update(updates)
+            .eq('id', jobId);
+
+        if (error) {
+            console.error('Error updating API job:', error);
+            return false;
+        }
+
+        return true;
+    } catch (error) {
+        console.error('Error updating API job:', error);
+        return false;
+    }
+}
+
+/**
+ * Mark a job as cancelled if it hasn't finished yet
+ * @returns The updated job, or null if it was already finished / not found
+ */
+export async function cancelApiJob(client: SupabaseClient, jobId: string, userId: string): Promise<ApiJobSummary | null> {
+    try {
+        const { data, error } = await client
+            .from('api_jobs')
+            .update({ status: 'cancelled', cancelled_at: new Date().toISOString() })
+            .eq('id', jobId)
+            .eq('user_id', userId) // Ensure ownership
+            .in('status', ['queued', 'processing'])
+            .select(SUMMARY_COLUMNS)
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error cancelling API job:', error);
+            return null;
+        }
+
+        return data as ApiJobSummary | null;
+    } catch (error) {
+        console.error('Error cancelling API job:', error);
+        return null;
+    }
+}
+
+/**
+ * Mark a processing job as completed
+ * @returns The updated job, or null if another batch already finished it / not found
+ */
+export async function completeApiJob(client: SupabaseClient, jobId: string): Promise<ApiJobSummary | null> {
+    try {
+        const { data, error } = await client
+            .from('api_jobs')
+            .update({ status: 'completed', completed_at: new Date().toISOString() })
+            .eq('id', jobId)
+            .eq('status', 'processing') // Only the batch that flips it reports completion
+            .select(SUMMARY_COLUMNS)
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error completing API job:', error);
+            return null;
+        }
+
+        return data as ApiJobSummary | null;
+    } catch (error) {
+        console.error('Error completing API job:', error);
+        return null;
+    }
+}
+
+/**
+ * Record per-row results for a job
+ * Rows that already have a result (a retried Inngest step) are left alone.
+ * @returns Only the results this call inserted, so callers count each row once
+ */
+export async function insertApiJobResults(
+    client: SupabaseClient,
+    results: DbApiJobResultInsert[]
+): Promise<Pick<DbApiJobResult, 'row_index' | 'status'>[]> {
+    if (results.length === 0) return [];
+
+    const { data, error } = await client
+        .from('api_job_results')
+        .upsert(results, { onConflict: 'job_id,row_index', ignoreDuplicates: true })
+        .select('row_index, status');
+
+    if (error) {
+        throw error;
+    }
+
+    return data || [];
+}
+
+/**
+ * Row indexes in [startIndex, endIndex) that already have a result
+ * Lets a retried batch skip rows it rendered before failing.
+ */
+export async function listApiJobResultIndexes(
+    client: SupabaseClient,
+    jobId: string,
+    startIndex: number,
+    endIndex: number
+): Promise<Set<number>> {
+    const { data, error } = await client
+        .from('api_job_results')
+        .select('row_index')
+        .eq('job_id', jobId)
+        .gte('row_index', startIndex)
+        .lt('row_index', endIndex);
+
+    if (error) {
+        throw error;
+    }
+
+    return new Set((data || []).map(r => r.row_index));
+}
+
+/**
+ * List results for a job ordered by row index
+ * Pages through the table since PostgREST caps responses at 1000 rows.
+ */
+export async function listApiJobResults(client: SupabaseClient, jobId: string): Promise<ApiJobResultItem[]> {
+    const PAGE_SIZE = 1000;
+    const results: ApiJobResultItem[] = [];
+
+    try {
+        for (let from = 0; ; from += PAGE_SIZE) {
+            const { data, error } = await client
+                .from('api_job_results')
+                .select('row_index, status, url, error')
+                .eq('job_id', jobId)
+                .order('row_index', { ascending: true })
+                .range(from, from + PAGE_SIZE - 1);
+
+            if (error) {
+                console.error('Error listing API job results:', error);
+                return results;
+            }
+
+            results.push(...(data || []));
+            if (!data || data.length < PAGE_SIZE) break;
+        }
+
+        return results;
+    } catch (error) {
+        console.error('Error listing API job results:', error);
+        return results;
+    }
+}
@@ -1,21 +1,61 @@
 import { supabase, isSupabaseConfigured, getCurrentUserId } from '../supabase';
-import { generateApiKey } from '../auth/apiKeyAuth';
-import { DbApiKey, DbApiKeyInsert } from '@/types/database.types';
+import { generateApiKey, rotationGraceExpiry } from '../auth/apiKeyAuth';
+import { DEFAULT_API_KEY_SCOPES } from '../auth/apiKeyScopes';
+import { canEditWorkspace } from '../auth/workspaceRoles';
+import { getWorkspaceRole } from './workspaces';
+import { ApiKeyScope, DbApiKey, DbApiKeyInsert, DbApiKeyUpdate, DbUsageStatsInsert } from '@/types/database.types';
 import { SupabaseClient } from '@supabase/supabase-js';
 
-export type ApiKeyListItem = Pick<DbApiKey, 'id' | 'name' | 'key_prefix' | 'is_active' | 'created_at' | 'last_used_at'>;
+export type ApiKeyListItem = Pick<DbApiKey, 'id' | 'name' | 'key_prefix' | 'is_active' | 'created_at' | 'last_used_at' | 'rate_limit_per_minute' | 'monthly_pin_quota' | 'scopes' | 'expires_at' | 'allowed_template_ids' | 'replaced_by'>;
+
+const API_KEY_LIST_COLUMNS = 'id, name, key_prefix, is_active, created_at, last_used_at, rate_limit_per_minute, monthly_pin_quota, scopes, expires_at, allowed_template_ids, replaced_by';
+
+// Limits enforced on every /api/v1 request made with a key
+export interface ApiKeyLimits {
+    rateLimitPerMinute: number;
+    monthlyPinQuota: number | null; // null = unlimited
+}
+
+// What a key may do, until when, and with which templates
+export interface ApiKeyRestrictions {
+    scopes?: ApiKeyScope[];
+    expiresAt?: string | null;            // null = never expires
+    allowedTemplateIds?: string[] | null; // Template short ids, null = all
+    workspaceId?: string | null;          // Workspace whose templates the key renders, null = personal
+}
+
+export type ApiKeyRestrictionsUpdate = Pick<DbApiKeyUpdate, 'name' | 'scopes' | 'expires_at' | 'allowed_template_ids'>;
+
+export interface ApiKeyValidationResult {
+    valid: boolean;
+    userId?: string;
+    workspaceId?: string;
+    keyId?: string;
+    limits?: ApiKeyLimits;
+    scopes?: ApiKeyScope[];
+    allowedTemplateIds?: string[] | null;
+    reason?: 'invalid' | 'expired';
+    error?: string;
+}
+
+export interface ApiKeyDailyUsage {
+    day: string; // YYYY-MM-DD (UTC)
+    pins: number;
+}
 
 /**
  * Create a new API key for a user
  * @param name User-friendly name for the key
  * @param userId Optional - user ID for server-side calls (from API route auth)
  * @param client Optional - Supabase client (use service role client for server-side to bypass RLS)
+ * @param restrictions Optional - scopes, expiry and template allow-list (defaults: generate only, no expiry, all templates)
  * @returns The generated key (shown once) and the DB record
  */
 export async function createApiKey(
     name: string, 
     userId?: string, 
-    client?: SupabaseClient
+    client?: SupabaseClient,
+    restrictions: ApiKeyRestrictions = {}
 ): Promise<{ key: string; apiKey: DbApiKey } | null> {
     if (!isSupabaseConfigured()) {
         console.warn('Supabase not configured');
@@ -41,6 +81,10 @@ export async function createApiKey(
             key_hash: hash,
             key_prefix: prefix,
             is_active: true,
+            scopes: restrictions.scopes ?? DEFAULT_API_KEY_SCOPES,
+            expires_at: restrictions.expiresAt ?? null,
+            allowed_template_ids: restrictions.allowedTemplateIds ?? null,
+            ...(restrictions.workspaceId ? { workspace_id: restrictions.workspaceId } : {}),
         };
 
         const { data, error } = await db
@@ -83,7 +127,7 @@ export async function listApiKeys(userId?: string, client?: SupabaseClient): Pro
     try {
         const { data, error } = await db
             .from('api_keys')
-            .select('id, name, key_prefix, is_active, created_at, last_used_at')
+            .select(API_KEY_LIST_COLUMNS)
             .eq('user_id', resolvedUserId)
             .order('created_at', { ascending: false });
 
@@ -138,6 +182,116 @@ export async function revokeApiKey(keyId: string, userId?: string, client?: Supa
     }
 }
 
+/**
+ * Update a key's name, scopes, expiry or template allow-list (Server-side only)
+ * Revoked and rotated keys can't be changed - rotate the replacement instead.
+ */
+export async function updateApiKey(
+    client: SupabaseClient,
+    keyId: string,
+    userId: string,
+    updates: ApiKeyRestrictionsUpdate
+): Promise<ApiKeyListItem | null> {
+    try {
+        const { data, error } = await client
+            .from('api_keys')
+            .update(updates)
+            .eq('id', keyId)
+            .eq('user_id', userId) // Ensure ownership
+            .eq('is_active', true)
+            .is('replaced_by', null)
+            .select(API_KEY_LIST_COLUMNS)
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error updating API key:', error);
+            return null;
+        }
+
+        return data;
+    } catch (error) {
+        console.error('Error updating API key:', error);
+        return null;
+    }
+}
+
+/**
+ * Rotate an API key (Server-side only)
+ * Creates a new key with the same name, restrictions and limits, and lets the
+ * old key keep working for a grace period so callers can switch over.
+ * @returns The new key (shown once) and its DB record, or null if the key can't be rotated
+ */
+export async function rotateApiKey(
+    client: SupabaseClient,
+    keyId: string,
+    userId: string,
+    graceHours: number
+): Promise<{ key: string; apiKey: DbApiKey; previousKeyExpiresAt: string } | null> {
+    try {
+        const { data: current, error: fetchError } = await client
+            .from('api_keys')
+            .select('*')
+            .eq('id', keyId)
+            .eq('user_id', userId) // Ensure ownership
+            .eq('is_active', true)
+            .is('replaced_by', null) // Only the latest key in a rotation chain
+            .maybeSingle();
+
+        if (fetchError || !current) {
+            if (fetchError) console.error('Error fetching API key for rotation:', fetchError);
+            return null;
+        }
+
+        const { key, hash, prefix } = generateApiKey();
+
+        const insertData: DbApiKeyInsert = {
+            user_id: userId,
+            name: current.name,
+            key_hash: hash,
+            key_prefix: prefix,
+            is_active: true,
+            rate_limit_per_minute: current.rate_limit_per_minute,
+            monthly_pin_quota: current.monthly_pin_quota,
+            scopes: current.scopes,
+            expires_at: current.expires_at,
+            allowed_template_ids: current.allowed_template_ids,
+            workspace_id: current.workspace_id,
+        };
+
+        const { data: created, error: insertError } = await client
+            .from('api_keys')
+            .insert(insertData)
+            .select()
+            .single();
+
+        if (insertError || !created) {
+            console.error('Error creating rotated API key:', insertError);
+            return null;
+        }
+
+        const previousKeyExpiresAt = rotationGraceExpiry(current.expires_at, graceHours);
+        const { data: retired, error: updateError } = await client
+            .from('api_keys')
+            .update({ expires_at: previousKeyExpiresAt, replaced_by: created.id })
+            .eq('id', keyId)
+            .is('replaced_by', null) // Lost a race with a concurrent rotation
+            .select('id')
+            .maybeSingle();
+
+        if (updateError || !retired) {
+            // Don't leave two unrelated live keys behind
+            if (updateError) console.error('Error retiring rotated API key:', updateError);
+            await client.from('api_keys').delete().eq('id', created.id);
+            return null;
+        }
+
+        return { key, apiKey: created, previousKeyExpiresAt };
+    } catch (error) {
+        console.error('Error rotating API key:', error);
+        return null;
+    }
+}
+
 /**
  * Validate an API key (Server-side only)
  * REQUIRES a Service Role client to bypass RLS
@@ -145,40 +299,197 @@ export async function revokeApiKey(keyId: string, userId?: string, client?: Supa
 export async function validateApiKey(
     supabaseServiceDetail: SupabaseClient, 
     key: string
-): Promise<{ valid: boolean; userId?: string; error?: string }> {
+): Promise<ApiKeyValidationResult> {
     try {
         const prefix = key.substring(0, 10);
         
         // Find keys with this prefix
         const { data: keys, error } = await supabaseServiceDetail
             .from('api_keys')
-            .select('user_id, key_hash')
+            .select('id, user_id, workspace_id, key_hash, rate_limit_per_minute, monthly_pin_quota, scopes, expires_at, allowed_template_ids, replaced_by')
             .eq('key_prefix', prefix)
             .eq('is_active', true);
 
         if (error || !keys || keys.length === 0) {
-            return { valid: false, error: 'Invalid API key' };
+            return { valid: false, reason: 'invalid', error: 'Invalid API key' };
         }
 
         // Import here to avoid circular dependencies if any
-        const { verifyApiKey } = await import('../auth/apiKeyAuth');
+        const { verifyApiKey, isApiKeyExpired } = await import('../auth/apiKeyAuth');
 
         // Verify hash (should only be one match due to random probability, but we handle multiple)
         for (const apiKey of keys) {
             if (verifyApiKey(key, apiKey.key_hash)) {
+                if (isApiKeyExpired(apiKey.expires_at)) {
+                    return {
+                        valid: false,
+                        reason: 'expired',
+                        error: apiKey.replaced_by
+                            ? 'API key was rotated and its grace period has ended. Use the replacement key.'
+                            : 'API key has expired',
+                    };
+                }
+
+                // Keys act for their creator, so stop working once they lose write access
+                const role = await getWorkspaceRole(apiKey.workspace_id, apiKey.user_id, supabaseServiceDetail);
+                if (!canEditWorkspace(role)) {
+                    return { valid: false, reason: 'invalid', error: 'API key no longer has access to its workspace' };
+                }
+
                 // Update usage stats (fire and forget)
                 await supabaseServiceDetail
                     .from('api_keys')
                     .update({ last_used_at: new Date().toISOString() })
-                    .eq('key_hash', apiKey.key_hash); // Use hash to ID row since we didn't select ID
+                    .eq('id', apiKey.id);
 
-                return { valid: true, userId: apiKey.user_id };
+                return {
+                    valid: true,
+                    userId: apiKey.user_id,
+                    workspaceId: apiKey.workspace_id,
+                    keyId: apiKey.id,
+                    limits: {
+                        rateLimitPerMinute: apiKey.rate_limit_per_minute,
+                        monthlyPinQuota: apiKey.monthly_pin_quota,
+                    },
+                    scopes: apiKey.scopes,
+                    allowedTemplateIds: apiKey.allowed_template_ids,
+                };
             }
         }
 
-        return { valid: false, error: 'Invalid API key' };
+        return { valid: false, reason: 'invalid', error: 'Invalid API key' };
     } catch (error) {
         console.error('Error validating API key:', error);
-        return { valid: false, error: 'Validation failed' };
+        return { valid: false, reason: 'invalid', error: 'Validation failed' };
+    }
+}
+
+/**
+ * Get the limits configured for a key (Server-side only)
+ */
+export async function getApiKeyLimits(client: SupabaseClient, keyId: string): Promise<ApiKeyLimits | null> {
+    try {
+        const { data, error } = await client
+            .from('api_keys')
+            .select('rate_limit_per_minute, monthly_pin_quota')
+            .eq('id', keyId)
+            .maybeSingle();
+
+        if (error || !data) {
+            if (error) console.error('Error fetching API key limits:', error);
+            return null;
+        }
+
+        return {
+            rateLimitPerMinute: data.rate_limit_per_minute,
+            monthlyPinQuota: data.monthly_pin_quota,
+        };
+    } catch (error) {
+        console.error('Error fetching API key limits:', error);
+        return null;
+    }
+}
+
+/**
+ * Record pins generated with a key in usage_stats (Server-side only)
+ */
+export async function recordApiKeyUsage(
+    client: SupabaseClient,
+    usage: { userId: string; keyId: string; pins: number; metadata?: Record<string, unknown> }
+): Promise<boolean> {
+    if (usage.pins <= 0) return true;
+
+    try {
+        const insertData: DbUsageStatsInsert = {
+            user_id: usage.userId,
+            api_key_id: usage.keyId,
+            action_type: 'pin_generated',
+            count: usage.pins,
+            metadata: usage.metadata || null,
+        };
+
+        const { error } = await client
+            .from('usage_stats')
+            .insert(insertData);
+
+        if (error) {
+            console.error('Error recording API key usage:', error);
+            return false;
+        }
+
+        return true;
+    } catch (error) {
+        console.error('Error recording API key usage:', error);
+        return false;
+    }
+}
+
+/**
+ * Total pins generated with a key since a date (Server-side only)
+ * @returns null when usage couldn't be read
+ */
+export async function getApiKeyPinUsage(client: SupabaseClient, keyId: string, since: Date): Promise<number | null> {
+    try {
+        const { data, error } = await client.rpc('get_api_key_pin_usage', {
+            p_api_key_id: keyId,
+            p_since: since.toISOString(),
+        });
+
+        if (error) {
+            console.error('Error fetching API key usage:', error);
+            return null;
+        }
+
+        return Number(data) || 0;
+    } catch (error) {
+        console.error('Error fetching API key usage:', error);
+        return null;
+    }
+}
+
+/**
+ * Pins generated with a key per UTC day since a date (Server-side only)
+ */
+export async function getApiKeyDailyUsage(client: SupabaseClient, keyId: string, since: Date): Promise<ApiKeyDailyUsage[]> {
+    try {
+        const { data, error } = await client.rpc('get_api_key_daily_usage', {
+            p_api_key_id: keyId,
+            p_since: since.toISOString(),
+        });
+
+        if (error) {
+            console.error('Error fetching API key daily usage:', error);
+            return [];
+        }
+
+        return (data || []).map((row: { day: string; pins: number | string }) => ({
+            day: row.day,
+            pins: Number(row.pins) || 0,
+        }));
+    } catch (error) {
+        console.error('Error fetching API key daily usage:', error);
+        return [];
+    }
+}
+
+/**
+ * Pins a key may still generate this calendar month (UTC)
+ * @returns null when the key has no monthly quota
+ * @throws when usage can't be read, so a database error never lifts the quota
+ */
+export async function getRemainingMonthlyPins(
+    client: SupabaseClient,
+    keyId: string,
+    limits: ApiKeyLimits
+): Promise<number | null> {
+    if (limits.monthlyPinQuota === null) return null;
+
+    const now = new Date();
+    const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const used = await getApiKeyPinUsage(client, keyId, monthStart);
+    if (used === null) {
+        throw new Error('Could not read API key usage');
     }
+
+    return Math.max(0, limits.monthlyPinQuota - used);
 }
@@ -0,0 +1,72 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { CampaignDataSource } from '@/types/database.types';
+import { isSyncDue, SyncPin } from '@/lib/campaigns/dataSync';
+
+/**
+ * Campaign data source sync (Server-side only)
+ * All functions REQUIRE a Service Role client - syncs run in Inngest, on
+ * demand from the sync API or on the hourly cron.
+ */
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+/**
+ * A campaign's pins that aren't stale, oldest first
+ * @throws on query errors - a partial list would make kept rows look removed
+ */
+export async function listCurrentPins(client: SupabaseClient, campaignId: string): Promise<SyncPin[]> {
+    const pins: SyncPin[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await client
+            .from('generated_pins')
+            .select('id, status, data_row')
+            .eq('campaign_id', campaignId)
+            .is('stale_at', null)
+            .order('created_at', { ascending: true })
+            .range(from, from + PAGE_SIZE - 1);
+
+        if (error) {
+            throw new Error(`Failed to list pins for campaign ${campaignId}: ${error.message}`);
+        }
+
+        pins.push(...(data || []) as SyncPin[]);
+        if (!data || data.length < PAGE_SIZE) return pins;
+    }
+}
+
+/**
+ * Campaigns on an hourly or daily sync schedule whose next sync has come
+ * Campaigns still rendering are left for the next run.
+ */
+export async function listSyncDueCampaignIds(client: SupabaseClient, now: Date): Promise<string[]> {
+    const ids: string[] = [];
+
+    try {
+        for (let from = 0; ; from += PAGE_SIZE) {
+            const { data, error } = await client
+                .from('campaigns')
+                .select('id, data_source, last_synced_at')
+                .not('data_source', 'is', null)
+                .neq('data_source->>schedule', 'manual')
+                .neq('status', 'processing')
+                .order('created_at', { ascending: true })
+                .range(from, from + PAGE_SIZE - 1);
+
+            if (error) {
+                console.error('Error listing campaigns due for sync:', error);
+                return ids;
+            }
+
+            for (const campaign of data || []) {
+                const source = campaign.data_source as CampaignDataSource;
+                if (isSyncDue(source.schedule, campaign.last_synced_at, now)) ids.push(campaign.id);
+            }
+            if (!data || data.length < PAGE_SIZE) return ids;
+        }
+    } catch (error) {
+        console.error('Error listing campaigns due for sync:', error);
+        return ids;
+    }
+}
@@ -1,13 +1,19 @@
 // Campaign database operations
 import { supabase, isSupabaseConfigured, getCurrentUserId } from '../supabase';
+import { DEFAULT_OUTPUT_FORMAT } from '@/lib/output/formats';
 import { 
     DbCampaign, 
     CampaignStatus, 
     FieldMapping, 
     DistributionMode, 
+    DistributionConfig,
+    OutputFormat,
     TemplateSnapshot,
-    CampaignStatistics 
+    CampaignStatistics,
+    DbTemplateVersion
 } from '@/types/database.types';
+import { getCurrentTemplateVersion, recordTemplateVersion } from './templateVersions';
+import { getActiveWorkspaceId } from './workspaces';
 
 // ============================================
 // Types for campaign operations
@@ -16,6 +22,7 @@ export interface CreateCampaignData {
     template_id?: string; // Optional for backward compat
     template_ids?: string[]; // NEW: Array of template IDs
     distribution_mode?: DistributionMode; // NEW
+    distribution_config?: DistributionConfig; // Weights / rules for those modes
     template_snapshot?: TemplateSnapshot[]; // NEW
     name: string;
     csv_data: Record<string, unknown>[];
@@ -25,6 +32,9 @@ export interface CreateCampaignData {
     pinterest_board_id?: string;
     auto_post?: boolean;
     schedule_time?: string;
+    output_format?: OutputFormat;
+    output_quality?: number | null;
+    max_file_size_kb?: number | null;
 }
 
 export interface CampaignListItem {
@@ -45,6 +55,7 @@ export interface CampaignWithDetails extends DbCampaign {
     current_index?: number;
     paused_at?: string;
     generation_settings?: Record<string, unknown>;
+    template_version?: Pick<DbTemplateVersion, 'version_number' | 'name'> | null; // Joined from template_version_id
 }
 
 // ============================================
@@ -63,7 +74,8 @@ export async function createCampaign(data: CreateCampaignData): Promise<DbCampai
     }
 
     const userId = await getCurrentUserId();
-    if (!userId) {
+    const workspaceId = await getActiveWorkspaceId();
+    if (!userId || !workspaceId) {
         console.error('User not authenticated');
         return null;
     }
@@ -71,13 +83,46 @@ export async function createCampaign(data: CreateCampaignData): Promise<DbCampai
     try {
         // Determine template_id for backward compatibility
         const primaryTemplateId = data.template_id || (data.template_ids?.[0] ?? '');
-        
+
+        // Clients sign off on designs first: only approved templates start a campaign
+        const templateIds = data.template_ids || (primaryTemplateId ? [primaryTemplateId] : []);
+        if (templateIds.length > 0) {
+            const { data: unapproved, error: statusError } = await supabase
+                .from('templates')
+                .select('name')
+                .in('id', templateIds)
+                .neq('status', 'approved');
+
+            if (statusError || (unapproved && unapproved.length > 0)) {
+                console.error('Campaign templates must be approved:', statusError ?? unapproved?.map(t => t.name));
+                return null;
+            }
+        }
+
+        // Record the template versions the campaign renders from. Missing
+        // versions (e.g. the history table isn't there yet) don't block creation.
+        const templateSnapshot = data.template_snapshot
+            ? await Promise.all(data.template_snapshot.map(async (snapshot) => {
+                const version = await recordTemplateVersion(snapshot.id, snapshot, { source: 'autosave' });
+                return { ...snapshot, version_id: version?.id ?? null, version_number: version?.version_number ?? null };
+            }))
+            : null;
+        const primarySnapshot = templateSnapshot?.find(snapshot => snapshot.id === primaryTemplateId);
+        const templateVersionId = primarySnapshot
+            ? primarySnapshot.version_id
+            : primaryTemplateId
+                ? (await getCurrentTemplateVersion(primaryTemplateId))?.id ?? null
+                : null;
+
         const insertData = {
             user_id: userId,
+            workspace_id: workspaceId,
             template_id: primaryTemplateId, // Keep for backward compat
             template_ids: data.template_ids || (data.template_id ? [data.template_id] : null),
             distribution_mode: data.distribution_mode || 'sequential',
-            template_snapshot: data.template_snapshot || null,
+            distribution_config: data.distribution_config || null,
+            template_snapshot: templateSnapshot,
+            template_version_id: templateVersionId,
             name: data.name,
             csv_data: data.csv_url ? [] : data.csv_data, // Don't store data if we have URL
             csv_url: data.csv_url || null,
@@ -86,6 +131,9 @@ export async function createCampaign(data: CreateCampaignData): Promise<DbCampai
             pinterest_board_id: data.pinterest_board_id || null,
             auto_post: data.auto_post ?? false,
             schedule_time: data.schedule_time || null,
+            output_format: data.output_format || DEFAULT_OUTPUT_FORMAT,
+            output_quality: data.output_quality ?? null,
+            max_file_size_kb: data.max_file_size_kb ?? null,
         };
 
         const { data: campaign, error } = await supabase
@@ -107,7 +155,7 @@ export async function createCampaign(data: CreateCampaignData): Promise<DbCampai
 }
 
 /**
- * Get all campaigns for the current user
+ * Get all campaigns in the active workspace
  * @returns Array of campaigns or empty array on error
  */
 export async function getCampaigns(): Promise<CampaignListItem[]> {
@@ -116,8 +164,8 @@ export async function getCampaigns(): Promise<CampaignListItem[]> {
         return [];
     }
 
-    const userId = await getCurrentUserId();
-    if (!userId) {
+    const workspaceId = await getActiveWorkspaceId();
+    if (!workspaceId) {
         console.warn('User not authenticated');
         return [];
     }
@@ -127,7 +175,7 @@ export async function getCampaigns(): Promise<CampaignListItem[]> {
         const { data: campaigns, error } = await supabase
             .from('campaigns')
             .select('id, name, template_id, template_ids, distribution_mode, total_pins, generated_pins, status, created_at, updated_at')
-            .eq('user_id', userId)
+            .eq('workspace_id', workspaceId)
             .order('created_at', { ascending: false });
 
         if (error) {
@@ -162,9 +210,8 @@ export async function getCampaign(campaignId: string): Promise<CampaignWithDetai
     try {
         const { data: campaign, error } = await supabase
             .from('campaigns')
-            .select('*')
+            .select('*, template_version:template_versions(version_number, name)')
             .eq('id', campaignId)
-            .eq('user_id', userId)
             .single();
 
         if (error) {
@@ -217,8 +264,7 @@ export async function updateCampaignProgress(
         const { error } = await supabase
             .from('campaigns')
             .update(updateData)
-            .eq('id', campaignId)
-            .eq('user_id', userId);
+            .eq('id', campaignId);
 
         if (error) {
             console.error('Error updating campaign progress:', error);
@@ -253,8 +299,7 @@ export async function deleteCampaign(campaignId: string): Promise<boolean> {
         const { error } = await supabase
             .from('campaigns')
             .delete()
-            .eq('id', campaignId)
-            .eq('user_id', userId);
+            .eq('id', campaignId);
 
         if (error) {
             console.error('Error deleting campaign:', error);
@@ -289,8 +334,7 @@ export async function deleteCampaigns(campaignIds: string[]): Promise<boolean> {
         const { error } = await supabase
             .from('campaigns')
             .delete()
-            .in('id', campaignIds)
-            .eq('user_id', userId);
+            .in('id', campaignIds);
 
         if (error) {
             console.error('Error deleting campaigns:', error);
@@ -332,8 +376,7 @@ export async function updateCampaign(
                 ...updates,
                 updated_at: new Date().toISOString(),
             })
-            .eq('id', campaignId)
-            .eq('user_id', userId);
+            .eq('id', campaignId);
 
         if (error) {
             console.error('Error updating campaign:', error);
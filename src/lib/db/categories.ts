@@ -4,6 +4,7 @@
 import { supabase, isSupabaseConfigured, getCurrentUserId } from '../supabase';
 import { DbCategory } from '@/types/database.types';
 import { cacheGet, cacheInvalidate } from '../redis';
+import { getActiveWorkspaceId } from './workspaces';
 
 // ============================================
 // Types for category operations
@@ -40,7 +41,7 @@ function generateSlug(name: string): string {
 // ============================================
 
 /**
- * Get all categories for the current user (CACHED)
+ * Get all categories in the active workspace (CACHED)
  * @returns Array of categories ordered by name
  */
 export async function getCategories(): Promise<DbCategory[]> {
@@ -49,19 +50,19 @@ export async function getCategories(): Promise<DbCategory[]> {
         return [];
     }
 
-    const userId = await getCurrentUserId();
-    if (!userId) {
+    const workspaceId = await getActiveWorkspaceId();
+    if (!workspaceId) {
         console.warn('User not authenticated');
         return [];
     }
 
-    // Cache categories for 6 hours per user
-    return cacheGet(`categories:${userId}`, async () => {
+    // Cache categories for 6 hours per workspace
+    return cacheGet(`categories:${workspaceId}`, async () => {
         try {
             const { data, error } = await supabase
                 .from('categories')
                 .select('*')
-                .eq('user_id', userId)
+                .eq('workspace_id', workspaceId)
                 .order('name', { ascending: true });
 
             if (error) {
@@ -88,8 +89,8 @@ export async function getCategoryById(id: string): Promise<DbCategory | null> {
         return null;
     }
 
-    const userId = await getCurrentUserId();
-    if (!userId) {
+    const workspaceId = await getActiveWorkspaceId();
+    if (!workspaceId) {
         console.warn('User not authenticated');
         return null;
     }
@@ -99,7 +100,7 @@ export async function getCategoryById(id: string): Promise<DbCategory | null> {
             .from('categories')
             .select('*')
             .eq('id', id)
-            .eq('user_id', userId)  // Ensure user owns the category
+            .eq('workspace_id', workspaceId)  // Keep to the active workspace
             .single();
 
         if (error) {
@@ -126,7 +127,8 @@ export async function createCategory(data: CreateCategoryData): Promise<DbCatego
     }
 
     const userId = await getCurrentUserId();
-    if (!userId) {
+    const workspaceId = await getActiveWorkspaceId();
+    if (!userId || !workspaceId) {
         console.error('User not authenticated');
         return null;
     }
@@ -136,6 +138,7 @@ export async function createCategory(data: CreateCategoryData): Promise<DbCatego
 
         const insertData = {
             user_id: userId,
+            workspace_id: workspaceId,
             name: data.name,
             slug,
             description: data.description || null,
@@ -155,7 +158,7 @@ export async function createCategory(data: CreateCategoryData): Promise<DbCatego
         }
 
         // Invalidate cache
-        await cacheInvalidate(`categories:${userId}`);
+        await cacheInvalidate(`categories:${workspaceId}`);
 
         return category;
     } catch (error) {
@@ -179,8 +182,8 @@ export async function updateCategory(
         return null;
     }
 
-    const userId = await getCurrentUserId();
-    if (!userId) {
+    const workspaceId = await getActiveWorkspaceId();
+    if (!workspaceId) {
         console.error('User not authenticated');
         return null;
     }
@@ -209,7 +212,7 @@ export async function updateCategory(
             .from('categories')
             .update(updateData)
             .eq('id', id)
-            .eq('user_id', userId)  // Ensure user owns the category
+            .eq('workspace_id', workspaceId)  // Keep to the active workspace
             .select()
             .single();
 
@@ -219,7 +222,7 @@ export async function updateCategory(
         }
 
         // Invalidate cache
-        await cacheInvalidate(`categories:${userId}`);
+        await cacheInvalidate(`categories:${workspaceId}`);
 
         return data;
     } catch (error) {
@@ -239,8 +242,8 @@ export async function deleteCategory(id: string): Promise<boolean> {
         return false;
     }
 
-    const userId = await getCurrentUserId();
-    if (!userId) {
+    const workspaceId = await getActiveWorkspaceId();
+    if (!workspaceId) {
         console.error('User not authenticated');
         return false;
     }
@@ -250,7 +253,7 @@ export async function deleteCategory(id: string): Promise<boolean> {
             .from('categories')
             .delete()
             .eq('id', id)
-            .eq('user_id', userId);  // Ensure user owns the category
+            .eq('workspace_id', workspaceId);  // Keep to the active workspace
 
         if (error) {
             console.error('Error deleting category:', error);
@@ -258,7 +261,7 @@ export async function deleteCategory(id: string): Promise<boolean> {
         }
 
         // Invalidate cache
-        await cacheInvalidate(`categories:${userId}`);
+        await cacheInvalidate(`categories:${workspaceId}`);
 
         return true;
     } catch (error) {
@@ -278,8 +281,8 @@ export async function getCategoriesWithCount(): Promise<DbCategory[]> {
         return [];
     }
 
-    const userId = await getCurrentUserId();
-    if (!userId) {
+    const workspaceId = await getActiveWorkspaceId();
+    if (!workspaceId) {
         console.warn('User not authenticated');
         return [];
     }
@@ -292,7 +295,7 @@ export async function getCategoriesWithCount(): Promise<DbCategory[]> {
                 *,
                 templates:templates(count)
             `)
-            .eq('user_id', userId)
+            .eq('workspace_id', workspaceId)
             .order('name', { ascending: true });
 
         if (error) {
@@ -331,8 +334,8 @@ export async function getCategoryBySlug(slug: string): Promise<DbCategory | null
         return null;
     }
 
-    const userId = await getCurrentUserId();
-    if (!userId) {
+    const workspaceId = await getActiveWorkspaceId();
+    if (!workspaceId) {
         console.warn('User not authenticated');
         return null;
     }
@@ -342,7 +345,7 @@ export async function getCategoryBySlug(slug: string): Promise<DbCategory | null
             .from('categories')
             .select('*')
             .eq('slug', slug)
-            .eq('user_id', userId)
+            .eq('workspace_id', workspaceId)
             .single();
 
         if (error) {
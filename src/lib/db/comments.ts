@@ -0,0 +1,197 @@
+// Review comment database operations (template and pin comments)
+import { supabase, isSupabaseConfigured, getCurrentUserId } from '../supabase';
+import { DbComment } from '@/types/database.types';
+import { CommentAnchor } from '../review/comments';
+
+// ============================================
+// Types
+// ============================================
+
+/** What a new comment is on: a template (optionally pinned to a spot) or a generated pin */
+export type CommentTarget =
+    | { templateId: string; anchor?: CommentAnchor | null }
+    | { pinId: string }
+    | { parentId: string };
+
+// ============================================
+// Queries
+// ============================================
+
+async function listComments(column: 'template_id' | 'pin_id', id: string): Promise<DbComment[]> {
+    if (!isSupabaseConfigured()) {
+        return [];
+    }
+
+    try {
+        const { data, error } = await supabase
+            .from('comments')
+            .select('*')
+            .eq(column, id)
+            .order('created_at', { ascending: true });
+
+        if (error) {
+            console.error('Error fetching comments:', error);
+            return [];
+        }
+
+        return data || [];
+    } catch (error) {
+        console.error('Error fetching comments:', error);
+        return [];
+    }
+}
+
+/**
+ * List all comments on a template, oldest first
+ * @returns Array of comments or empty array on error
+ */
+export function listTemplateComments(templateId: string): Promise<DbComment[]> {
+    return listComments('template_id', templateId);
+}
+
+/**
+ * List all comments on a generated pin, oldest first
+ * @returns Array of comments or empty array on error
+ */
+export function listPinComments(pinId: string): Promise<DbComment[]> {
+    return listComments('pin_id', pinId);
+}
+
+/**
+ * Count comments per pin in a campaign, for the badges on the pins grid
+ * @returns Map of pin id to comment count (empty on error)
+ */
+export async function getCampaignCommentCounts(campaignId: string): Promise<Record<string, number>> {
+    if (!isSupabaseConfigured()) {
+        return {};
+    }
+
+    try {
+        const { data, error } = await supabase
+            .from('comments')
+            .select('pin_id')
+            .eq('campaign_id', campaignId);
+
+        if (error) {
+            console.error('Error fetching comment counts:', error);
+            return {};
+        }
+
+        const counts: Record<string, number> = {};
+        for (const row of data || []) {
+            if (row.pin_id) counts[row.pin_id] = (counts[row.pin_id] || 0) + 1;
+        }
+        return counts;
+    } catch (error) {
+        console.error('Error fetching comment counts:', error);
+        return {};
+    }
+}
+
+// ============================================
+// Writes
+// ============================================
+
+/**
+ * Add a comment, or a reply to a thread (the database copies the
+ * thread's target onto replies)
+ * @returns The created comment or null on error
+ */
+export async function createComment(target: CommentTarget, body: string): Promise<DbComment | null> {
+    if (!isSupabaseConfigured()) {
+        return null;
+    }
+
+    const userId = await getCurrentUserId();
+    if (!userId) {
+        console.error('User not authenticated');
+        return null;
+    }
+
+    try {
+        const { data, error } = await supabase
+            .from('comments')
+            .insert({
+                author_id: userId,
+                body: body.trim(),
+                ...('templateId' in target && { template_id: target.templateId, ...target.anchor }),
+                ...('pinId' in target && { pin_id: target.pinId }),
+                ...('parentId' in target && { parent_id: target.parentId }),
+            })
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Error creating comment:', error);
+            return null;
+        }
+
+        return data;
+    } catch (error) {
+        console.error('Error creating comment:', error);
+        return null;
+    }
+}
+
+/**
+ * Resolve or reopen a thread
+ * @returns true on success, false on error
+ */
+export async function setCommentResolved(commentId: string, resolved: boolean): Promise<boolean> {
+    if (!isSupabaseConfigured()) {
+        return false;
+    }
+
+    const userId = await getCurrentUserId();
+    if (!userId) {
+        console.error('User not authenticated');
+        return false;
+    }
+
+    try {
+        const { error } = await supabase
+            .from('comments')
+            .update(resolved
+                ? { resolved_at: new Date().toISOString(), resolved_by: userId }
+                : { resolved_at: null, resolved_by: null })
+            .eq('id', commentId);
+
+        if (error) {
+            console.error('Error updating comment:', error);
+            return false;
+        }
+
+        return true;
+    } catch (error) {
+        console.error('Error updating comment:', error);
+        return false;
+    }
+}
+
+/**
+ * Delete a comment (and its replies). Authors delete their own; workspace
+ * owners delete any.
+ * @returns true on success, false on error
+ */
+export async function deleteComment(commentId: string): Promise<boolean> {
+    if (!isSupabaseConfigured()) {
+        return false;
+    }
+
+    try {
+        const { error } = await supabase
+            .from('comments')
+            .delete()
+            .eq('id', commentId);
+
+        if (error) {
+            console.error('Error deleting comment:', error);
+            return false;
+        }
+
+        return true;
+    } catch (error) {
+        console.error('Error deleting comment:', error);
+        return false;
+    }
+}
@@ -1,5 +1,6 @@
-import { supabase, isSupabaseConfigured, getCurrentUserId } from '../supabase';
+import { supabase, isSupabaseConfigured } from '../supabase';
 import { CampaignListItem } from './campaigns';
+import { getActiveWorkspaceId } from './workspaces';
 import { CampaignStatus } from '@/types/database.types';
 
 export interface DashboardStats {
@@ -16,7 +17,7 @@ export interface DashboardProject extends CampaignListItem {
 }
 
 /**
- * Fetch aggregated dashboard statistics
+ * Fetch aggregated dashboard statistics for the active workspace
  */
 export async function getDashboardStats(): Promise<DashboardStats> {
     if (!isSupabaseConfigured()) {
@@ -24,8 +25,8 @@ export async function getDashboardStats(): Promise<DashboardStats> {
         return { templates: 0, activeCampaigns: 0, pinsGenerated: 0, thisMonthPins: 0 };
     }
 
-    const userId = await getCurrentUserId();
-    if (!userId) {
+    const workspaceId = await getActiveWorkspaceId();
+    if (!workspaceId) {
         console.warn('User not authenticated');
         return { templates: 0, activeCampaigns: 0, pinsGenerated: 0, thisMonthPins: 0 };
     }
@@ -35,7 +36,7 @@ export async function getDashboardStats(): Promise<DashboardStats> {
         const { count: templatesCount, error: templatesError } = await supabase
             .from('templates')
             .select('id', { count: 'exact', head: true })
-            .eq('user_id', userId);
+            .eq('workspace_id', workspaceId);
 
         if (templatesError) console.error('Error counting templates:', templatesError);
 
@@ -43,7 +44,7 @@ export async function getDashboardStats(): Promise<DashboardStats> {
         const { count: activeCampaignsCount, error: campaignsError } = await supabase
             .from('campaigns')
             .select('id', { count: 'exact', head: true })
-            .eq('user_id', userId)
+            .eq('workspace_id', workspaceId)
             .in('status', ['processing'] as CampaignStatus[]);
 
         if (campaignsError) console.error('Error counting active campaigns:', campaignsError);
@@ -53,7 +54,7 @@ export async function getDashboardStats(): Promise<DashboardStats> {
         const { data: campaignsData, error: pinsError } = await supabase
             .from('campaigns')
             .select('generated_pins, created_at')
-            .eq('user_id', userId);
+            .eq('workspace_id', workspaceId);
 
         let totalPins = 0;
         let thisMonthPins = 0;
@@ -92,14 +93,14 @@ export async function getRecentProjects(): Promise<DashboardProject[]> {
         return [];
     }
 
-    const userId = await getCurrentUserId();
-    if (!userId) return [];
+    const workspaceId = await getActiveWorkspaceId();
+    if (!workspaceId) return [];
 
     try {
         const { data: campaigns, error } = await supabase
             .from('campaigns')
             .select('id, name, template_id, template_ids, distribution_mode, total_pins, generated_pins, status, created_at, updated_at')
-            .eq('user_id', userId)
+            .eq('workspace_id', workspaceId)
             .order('updated_at', { ascending: false })
             .limit(10); // Limit to recent 10
 
@@ -1,6 +1,7 @@
 import { supabase } from '../supabase';
 import { getCurrentUserId } from '../supabase';
 import { cacheGet, cacheInvalidate } from '../redis';
+import { getActiveWorkspaceId } from './workspaces';
 
 // ============================================
 // Types
@@ -9,6 +10,7 @@ import { cacheGet, cacheInvalidate } from '../redis';
 export interface Font {
     id: string;
     user_id: string;
+    workspace_id: string;
     family: string;
     file_url: string;
     format: 'ttf' | 'otf' | 'woff' | 'woff2';
@@ -43,7 +45,8 @@ export async function uploadFont(
     category: Font['category']
 ): Promise<Font | null> {
     const userId = await getCurrentUserId();
-    if (!userId) {
+    const workspaceId = await getActiveWorkspaceId();
+    if (!userId || !workspaceId) {
         console.error('User not authenticated');
         return null;
     }
@@ -92,6 +95,7 @@ export async function uploadFont(
         .insert({
             ...fontData,
             user_id: userId,
+            workspace_id: workspaceId,
         })
         .select()
         .single();
@@ -106,25 +110,25 @@ export async function uploadFont(
     }
 
     // Invalidate cache after adding font
-    await cacheInvalidate(`fonts:${userId}`);
+    await cacheInvalidate(`fonts:${workspaceId}`);
 
     return data;
 }
 
 /**
- * Get all fonts for the current user (CACHED)
- * @returns Array of user's fonts
+ * Get all fonts in the active workspace (CACHED)
+ * @returns Array of the workspace's fonts
  */
 export async function getFonts(): Promise<Font[]> {
-    const userId = await getCurrentUserId();
-    if (!userId) return [];
+    const workspaceId = await getActiveWorkspaceId();
+    if (!workspaceId) return [];
 
-    // Cache fonts for 1 hour per user
-    return cacheGet(`fonts:${userId}`, async () => {
+    // Cache fonts for 1 hour per workspace
+    return cacheGet(`fonts:${workspaceId}`, async () => {
         const { data, error } = await supabase
             .from('custom_fonts')
             .select('*')
-            .eq('user_id', userId)
+            .eq('workspace_id', workspaceId)
             .order('created_at', { ascending: false });
 
         if (error) {
@@ -164,17 +168,17 @@ export async function getFontsByCategory(): Promise<Record<string, Font[]>> {
  * @returns Success status
  */
 export async function deleteFont(fontId: string): Promise<boolean> {
-    const userId = await getCurrentUserId();
-    if (!userId) return false;
+    const workspaceId = await getActiveWorkspaceId();
+    if (!workspaceId) return false;
 
     // Get font data first to retrieve file URL
     const { data: font, error: fetchError } = await supabase
         .from('custom_fonts')
-        .select('file_url, user_id')
+        .select('file_url, workspace_id')
         .eq('id', fontId)
         .single();
 
-    if (fetchError || !font || font.user_id !== userId) {
+    if (fetchError || !font || font.workspace_id !== workspaceId) {
         console.error('Font not found or unauthorized');
         return false;
     }
@@ -190,8 +194,7 @@ export async function deleteFont(fontId: string): Promise<boolean> {
     const { error: deleteError } = await supabase
         .from('custom_fonts')
         .delete()
-        .eq('id', fontId)
-        .eq('user_id', userId);
+        .eq('id', fontId); // RLS limits deletes to the workspace's editors
 
     if (deleteError) {
         console.error('Font deletion error:', deleteError);
@@ -199,7 +202,7 @@ export async function deleteFont(fontId: string): Promise<boolean> {
     }
 
     // Invalidate cache after deleting font
-    await cacheInvalidate(`fonts:${userId}`);
+    await cacheInvalidate(`fonts:${workspaceId}`);
 
     return true;
 }
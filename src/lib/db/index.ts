@@ -5,6 +5,8 @@ export * from './categories';
 export * from './tags';
 export * from './dashboard';
 export * from './fonts';
+export * from './workspaces';
+export * from './comments';
 
 // Export utils separately to avoid naming conflicts with generateSlug
 export {
@@ -13,6 +15,7 @@ export {
     ForeignKeyError,
     NotFoundError,
     UnauthorizedError,
+    TemplateConflictError,
     parseDbError,
     logDbError,
     isValidUUID,
@@ -0,0 +1,212 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { DbGeneratedPin } from '@/types/database.types';
+import { DayBookings } from '@/lib/pinterest/schedule';
+
+/**
+ * Pinterest publish queue (Server-side only)
+ * All functions REQUIRE a Service Role client - slots are assigned by the
+ * schedule API and drained by the Inngest cron, never by the browser.
+ */
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+export type ScheduledPinItem = Pick<
+    DbGeneratedPin,
+    'id' | 'image_url' | 'scheduled_at' | 'posted_at' | 'pinterest_pin_id' | 'publish_error'
+>;
+
+export interface PinSlot {
+    id: string;
+    scheduled_at: string | null;
+}
+
+/**
+ * Ids of a campaign's pins that can still be scheduled (not posted, not stale, rendered), oldest first
+ * @param onlyUnscheduled Skip pins that already have a slot
+ */
+export async function listSchedulablePinIds(
+    client: SupabaseClient,
+    campaignId: string,
+    onlyUnscheduled = false
+): Promise<string[]> {
+    const ids: string[] = [];
+
+    try {
+        for (let from = 0; ; from += PAGE_SIZE) {
+            let query = client
+                .from('generated_pins')
+                .select('id')
+                .eq('campaign_id', campaignId)
+                .is('pinterest_pin_id', null)
+                .is('stale_at', null)
+                .not('status', 'in', '(failed,posting)')
+                .not('image_url', 'is', null);
+
+            if (onlyUnscheduled) query = query.is('scheduled_at', null);
+
+            const { data, error } = await query
+                .order('created_at', { ascending: true })
+                .range(from, from + PAGE_SIZE - 1);
+
+            if (error) {
+                console.error('Error listing schedulable pins:', error);
+                return ids;
+            }
+
+            ids.push(...(data || []).map(pin => pin.id));
+            if (!data || data.length < PAGE_SIZE) return ids;
+        }
+    } catch (error) {
+        console.error('Error listing schedulable pins:', error);
+        return ids;
+    }
+}
+
+/**
+ * Pins of a campaign with a slot (queued or already posted from the queue), by slot time
+ */
+export async function listScheduledPins(client: SupabaseClient, campaignId: string): Promise<ScheduledPinItem[]> {
+    const pins: ScheduledPinItem[] = [];
+
+    try {
+        for (let from = 0; ; from += PAGE_SIZE) {
+            const { data, error } = await client
+                .from('generated_pins')
+                .select('id, image_url, scheduled_at, posted_at, pinterest_pin_id, publish_error')
+                .eq('campaign_id', campaignId)
+                .not('scheduled_at', 'is', null)
+                .order('scheduled_at', { ascending: true })
+                .range(from, from + PAGE_SIZE - 1);
+
+            if (error) {
+                console.error('Error listing scheduled pins:', error);
+                return pins;
+            }
+
+            pins.push(...(data || []));
+            if (!data || data.length < PAGE_SIZE) return pins;
+        }
+    } catch (error) {
+        console.error('Error listing scheduled pins:', error);
+        return pins;
+    }
+}
+
+/**
+ * Assign (or clear, with scheduled_at null) slots for a campaign's unposted pins
+ * @returns Number of pins updated, or null on error
+ */
+export async function saveScheduleSlots(
+    client: SupabaseClient,
+    campaignId: string,
+    boardId: string | null,
+    slots: PinSlot[]
+): Promise<number | null> {
+    let updated = 0;
+
+    try {
+        for (let i = 0; i < slots.length; i += PAGE_SIZE) {
+            const { data, error } = await client.rpc('schedule_generated_pins', {
+                p_campaign_id: campaignId,
+                p_board_id: boardId,
+                p_slots: slots.slice(i, i + PAGE_SIZE),
+            });
+
+            if (error) {
+                console.error('Error saving schedule slots:', error);
+                return null;
+            }
+
+            updated += Number(data) || 0;
+        }
+
+        return updated;
+    } catch (error) {
+        console.error('Error saving schedule slots:', error);
+        return null;
+    }
+}
+
+/**
+ * Remove every queued slot of a campaign (posted pins keep theirs)
+ */
+export async function clearScheduleSlots(client: SupabaseClient, campaignId: string): Promise<boolean> {
+    try {
+        const { error } = await client
+            .from('generated_pins')
+            .update({ scheduled_at: null, pinterest_board_id: null })
+            .eq('campaign_id', campaignId)
+            .is('pinterest_pin_id', null)
+            .not('scheduled_at', 'is', null);
+
+        if (error) {
+            console.error('Error clearing schedule slots:', error);
+            return false;
+        }
+
+        return true;
+    } catch (error) {
+        console.error('Error clearing schedule slots:', error);
+        return false;
+    }
+}
+
+/**
+ * Pins already booked on a board per local day within [from, to)
+ * @param excludeCampaignId Ignore this campaign's queued pins (it is being rescheduled)
+ */
+export async function getBoardBookings(
+    client: SupabaseClient,
+    params: { userId: string; boardId: string; from: Date; to: Date; timezone: string; excludeCampaignId?: string }
+): Promise<DayBookings | null> {
+    try {
+        const { data, error } = await client.rpc('get_board_daily_bookings', {
+            p_user_id: params.userId,
+            p_board_id: params.boardId,
+            p_from: params.from.toISOString(),
+            p_to: params.to.toISOString(),
+            p_timezone: params.timezone,
+            p_exclude_campaign_id: params.excludeCampaignId ?? null,
+        });
+
+        if (error) {
+            console.error('Error fetching board bookings:', error);
+            return null;
+        }
+
+        return Object.fromEntries(
+            ((data || []) as { day: string; pins: number | string }[]).map(row => [row.day, Number(row.pins)])
+        );
+    } catch (error) {
+        console.error('Error fetching board bookings:', error);
+        return null;
+    }
+}
+
+/**
+ * Campaigns with at least one queued pin whose slot has come
+ */
+export async function listDueCampaignIds(client: SupabaseClient, now: Date): Promise<string[]> {
+    try {
+        const { data, error } = await client
+            .from('generated_pins')
+            .select('campaign_id')
+            .lte('scheduled_at', now.toISOString())
+            .is('pinterest_pin_id', null)
+            .is('publish_error', null)
+            .neq('status', 'posting')
+            .order('scheduled_at', { ascending: true })
+            .limit(PAGE_SIZE);
+
+        if (error) {
+            console.error('Error listing due campaigns:', error);
+            return [];
+        }
+
+        return [...new Set((data || []).map(pin => pin.campaign_id as string))];
+    } catch (error) {
+        console.error('Error listing due campaigns:', error);
+        return [];
+    }
+}
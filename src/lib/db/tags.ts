@@ -4,6 +4,7 @@
 import { supabase, isSupabaseConfigured, getCurrentUserId } from '../supabase';
 import { DbTag } from '@/types/database.types';
 import { cacheGet, cacheInvalidate } from '../redis';
+import { getActiveWorkspaceId } from './workspaces';
 
 // ============================================
 // Types for tag operations
@@ -38,7 +39,7 @@ function generateSlug(name: string): string {
 // ============================================
 
 /**
- * Get all tags for the current user (CACHED)
+ * Get all tags in the active workspace (CACHED)
  * @returns Array of tags ordered by name
  */
 export async function getTags(): Promise<DbTag[]> {
@@ -47,19 +48,19 @@ export async function getTags(): Promise<DbTag[]> {
         return [];
     }
 
-    const userId = await getCurrentUserId();
-    if (!userId) {
+    const workspaceId = await getActiveWorkspaceId();
+    if (!workspaceId) {
         console.warn('User not authenticated');
         return [];
     }
 
-    // Cache tags for 6 hours per user
-    return cacheGet(`tags:${userId}`, async () => {
+    // Cache tags for 6 hours per workspace
+    return cacheGet(`tags:${workspaceId}`, async () => {
         try {
             const { data, error } = await supabase
                 .from('tags')
                 .select('*')
-                .eq('user_id', userId)
+                .eq('workspace_id', workspaceId)
                 .order('name', { ascending: true });
 
             if (error) {
@@ -86,8 +87,8 @@ export async function getTagById(id: string): Promise<DbTag | null> {
         return null;
     }
 
-    const userId = await getCurrentUserId();
-    if (!userId) {
+    const workspaceId = await getActiveWorkspaceId();
+    if (!workspaceId) {
         console.warn('User not authenticated');
         return null;
     }
@@ -97,7 +98,7 @@ export async function getTagById(id: string): Promise<DbTag | null> {
             .from('tags')
             .select('*')
             .eq('id', id)
-            .eq('user_id', userId)  // Ensure user owns the tag
+            .eq('workspace_id', workspaceId)  // Keep to the active workspace
             .single();
 
         if (error) {
@@ -124,7 +125,8 @@ export async function createTag(data: CreateTagData): Promise<DbTag | null> {
     }
 
     const userId = await getCurrentUserId();
-    if (!userId) {
+    const workspaceId = await getActiveWorkspaceId();
+    if (!userId || !workspaceId) {
         console.error('User not authenticated');
         return null;
     }
@@ -134,6 +136,7 @@ export async function createTag(data: CreateTagData): Promise<DbTag | null> {
 
         const insertData = {
             user_id: userId,
+            workspace_id: workspaceId,
             name: data.name,
             slug,
             description: data.description || null,
@@ -151,7 +154,7 @@ export async function createTag(data: CreateTagData): Promise<DbTag | null> {
         }
 
         // Invalidate cache
-        await cacheInvalidate(`tags:${userId}`);
+        await cacheInvalidate(`tags:${workspaceId}`);
 
         return tag;
     } catch (error) {
@@ -175,8 +178,8 @@ export async function updateTag(
         return null;
     }
 
-    const userId = await getCurrentUserId();
-    if (!userId) {
+    const workspaceId = await getActiveWorkspaceId();
+    if (!workspaceId) {
         console.error('User not authenticated');
         return null;
     }
@@ -199,7 +202,7 @@ export async function updateTag(
             .from('tags')
             .update(updateData)
             .eq('id', id)
-            .eq('user_id', userId)  // Ensure user owns the tag
+            .eq('workspace_id', workspaceId)  // Keep to the active workspace
             .select()
             .single();
 
@@ -209,7 +212,7 @@ export async function updateTag(
         }
 
         // Invalidate cache
-        await cacheInvalidate(`tags:${userId}`);
+        await cacheInvalidate(`tags:${workspaceId}`);
 
         return data;
     } catch (error) {
@@ -230,8 +233,8 @@ export async function deleteTag(id: string): Promise<boolean> {
         return false;
     }
 
-    const userId = await getCurrentUserId();
-    if (!userId) {
+    const workspaceId = await getActiveWorkspaceId();
+    if (!workspaceId) {
         console.error('User not authenticated');
         return false;
     }
@@ -241,7 +244,7 @@ export async function deleteTag(id: string): Promise<boolean> {
             .from('tags')
             .delete()
             .eq('id', id)
-            .eq('user_id', userId);  // Ensure user owns the tag
+            .eq('workspace_id', workspaceId);  // Keep to the active workspace
 
         if (error) {
             console.error('Error deleting tag:', error);
@@ -249,7 +252,7 @@ export async function deleteTag(id: string): Promise<boolean> {
         }
 
         // Invalidate cache
-        await cacheInvalidate(`tags:${userId}`);
+        await cacheInvalidate(`tags:${workspaceId}`);
 
         return true;
     } catch (error) {
@@ -269,8 +272,8 @@ export async function getTemplateTags(templateId: string): Promise<DbTag[]> {
         return [];
     }
 
-    const userId = await getCurrentUserId();
-    if (!userId) {
+    const workspaceId = await getActiveWorkspaceId();
+    if (!workspaceId) {
         console.warn('User not authenticated');
         return [];
     }
@@ -316,8 +319,8 @@ export async function assignTagsToTemplate(
         return false;
     }
 
-    const userId = await getCurrentUserId();
-    if (!userId) {
+    const workspaceId = await getActiveWorkspaceId();
+    if (!workspaceId) {
         console.error('User not authenticated');
         return false;
     }
@@ -369,8 +372,8 @@ export async function searchTags(query: string): Promise<DbTag[]> {
         return [];
     }
 
-    const userId = await getCurrentUserId();
-    if (!userId) {
+    const workspaceId = await getActiveWorkspaceId();
+    if (!workspaceId) {
         console.warn('User not authenticated');
         return [];
     }
@@ -383,7 +386,7 @@ export async function searchTags(query: string): Promise<DbTag[]> {
         const { data, error } = await supabase
             .from('tags')
             .select('*')
-            .eq('user_id', userId)
+            .eq('workspace_id', workspaceId)
             .ilike('name', `%${query}%`)
             .order('name', { ascending: true })
             .limit(10);
@@ -410,8 +413,8 @@ export async function getTagsWithCount(): Promise<DbTag[]> {
         return [];
     }
 
-    const userId = await getCurrentUserId();
-    if (!userId) {
+    const workspaceId = await getActiveWorkspaceId();
+    if (!workspaceId) {
         console.warn('User not authenticated');
         return [];
     }
@@ -423,7 +426,7 @@ export async function getTagsWithCount(): Promise<DbTag[]> {
                 *,
                 template_tags:template_tags(count)
             `)
-            .eq('user_id', userId)
+            .eq('workspace_id', workspaceId)
             .order('name', { ascending: true });
 
         if (error) {
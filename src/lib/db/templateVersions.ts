@@ -0,0 +1,215 @@
+// Template version history database operations
+import { supabase, isSupabaseConfigured, getCurrentUserId } from '../supabase';
+import { DbTemplateVersion, TemplateVersionSource } from '@/types/database.types';
+import { hashTemplateContent, TemplateContent } from '../utils/templateDiff';
+
+// ============================================
+// Types
+// ============================================
+
+/** Version row without its design, for the history list */
+export type TemplateVersionListItem = Omit<DbTemplateVersion, 'elements' | 'canvas_size' | 'background_color'>;
+
+export interface RecordVersionOptions {
+    source: TemplateVersionSource;
+    name?: string | null;
+    /** Data URL of a small preview, uploaded after the version is saved */
+    thumbnailDataUrl?: string | null;
+    /** Already uploaded preview (e.g. the one of a restored version) */
+    thumbnailUrl?: string | null;
+}
+
+const LIST_COLUMNS = 'id, template_id, user_id, version_number, source, name, content_hash, thumbnail_url, created_at';
+const MAX_LISTED_VERSIONS = 100;
+
+// ============================================
+// Queries
+// ============================================
+
+/**
+ * List a template's versions, newest first
+ * @returns Array of versions or empty array on error
+ */
+export async function listTemplateVersions(templateId: string): Promise<TemplateVersionListItem[]> {
+    if (!isSupabaseConfigured()) {
+        return [];
+    }
+
+    try {
+        const { data, error } = await supabase
+            .from('template_versions')
+            .select(LIST_COLUMNS)
+            .eq('template_id', templateId)
+            .order('version_number', { ascending: false })
+            .limit(MAX_LISTED_VERSIONS);
+
+        if (error) {
+            console.error('Error fetching template versions:', error);
+            return [];
+        }
+
+        return data || [];
+    } catch (error) {
+        console.error('Error fetching template versions:', error);
+        return [];
+    }
+}
+
+/**
+ * Get one version with its design
+ * @returns Version or null if not found
+ */
+export async function getTemplateVersion(versionId: string): Promise<DbTemplateVersion | null> {
+    if (!isSupabaseConfigured()) {
+        return null;
+    }
+
+    try {
+        const { data, error } = await supabase
+            .from('template_versions')
+            .select('*')
+            .eq('id', versionId)
+            .single();
+
+        if (error) {
+            console.error('Error fetching template version:', error);
+            return null;
+        }
+
+        return data;
+    } catch (error) {
+        console.error('Error fetching template version:', error);
+        return null;
+    }
+}
+
+async function getLatestVersion(templateId: string): Promise<TemplateVersionListItem | null> {
+    const { data, error } = await supabase
+        .from('template_versions')
+        .select(LIST_COLUMNS)
+        .eq('template_id', templateId)
+        .order('version_number', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+    if (error) {
+        console.error('Error fetching latest template version:', error);
+        return null;
+    }
+
+    return data;
+}
+
+// ============================================
+// Writes
+// ============================================
+
+/**
+ * Save the current design of a template as a new version
+ *
+ * Saves and auto-saves that didn't change the design return the latest
+ * version instead of adding a duplicate. Checkpoints and restores are
+ * always added, since their point is the marker in the history.
+ *
+ * @returns The version holding this design, or null on error
+ */
+export async function recordTemplateVersion(
+    templateId: string,
+    content: TemplateContent,
+    options: RecordVersionOptions
+): Promise<TemplateVersionListItem | null> {
+    if (!isSupabaseConfigured()) {
+        return null;
+    }
+
+    const userId = await getCurrentUserId();
+    if (!userId) {
+        console.error('User not authenticated');
+        return null;
+    }
+
+    try {
+        // Same sanitizing as saveTemplate, so the hash matches what's stored
+        const elements = JSON.parse(JSON.stringify(content.elements ?? []));
+        const contentHash = hashTemplateContent({ ...content, elements });
+
+        if (options.source === 'manual' || options.source === 'autosave') {
+            const latest = await getLatestVersion(templateId);
+            if (latest && latest.content_hash === contentHash) {
+                return latest;
+            }
+        }
+
+        const { data: version, error } = await supabase
+            .from('template_versions')
+            .insert({
+                template_id: templateId,
+                user_id: userId,
+                source: options.source,
+                name: options.name?.trim() || null,
+                elements,
+                canvas_size: content.canvas_size,
+                background_color: content.background_color,
+                content_hash: contentHash,
+                thumbnail_url: options.thumbnailUrl ?? null,
+            })
+            .select(LIST_COLUMNS)
+            .single();
+
+        if (error) {
+            console.error('Error recording template version:', error);
+            return null;
+        }
+
+        if (options.thumbnailDataUrl) {
+            // Loaded lazily: canvasUtils pulls in fabric, which campaign code doesn't need
+            const { uploadThumbnail } = await import('../canvasUtils');
+            const thumbnailUrl = await uploadThumbnail(templateId, userId, options.thumbnailDataUrl, version.id);
+            if (thumbnailUrl) {
+                const { error: thumbError } = await supabase
+                    .from('template_versions')
+                    .update({ thumbnail_url: thumbnailUrl })
+                    .eq('id', version.id);
+
+                if (thumbError) {
+                    console.error('Error saving version thumbnail:', thumbError);
+                } else {
+                    version.thumbnail_url = thumbnailUrl;
+                }
+            }
+        }
+
+        return version;
+    } catch (error) {
+        console.error('Error recording template version:', error);
+        return null;
+    }
+}
+
+/**
+ * Version holding a template's current saved design, added if no version
+ * has it yet (the last edits may have been an auto-save that wasn't kept)
+ */
+export async function getCurrentTemplateVersion(templateId: string): Promise<TemplateVersionListItem | null> {
+    if (!isSupabaseConfigured()) {
+        return null;
+    }
+
+    try {
+        const { data: template, error } = await supabase
+            .from('templates')
+            .select('elements, canvas_size, background_color')
+            .eq('id', templateId)
+            .single();
+
+        if (error || !template) {
+            console.error('Error fetching template for version:', error);
+            return null;
+        }
+
+        return recordTemplateVersion(templateId, template, { source: 'autosave' });
+    } catch (error) {
+        console.error('Error fetching template for version:', error);
+        return null;
+    }
+}
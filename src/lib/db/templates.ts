@@ -1,16 +1,22 @@
 // Template database operations
 import { supabase, isSupabaseConfigured, getCurrentUserId } from '../supabase';
-import { DbTemplate, DbCategory, DbTag } from '@/types/database.types';
+import { DbTemplate, DbCategory, DbTag, TemplateStatus } from '@/types/database.types';
+import { SupabaseClient } from '@supabase/supabase-js';
 import { Element } from '@/types/editor';
 import { assignTagsToTemplate } from './tags';
 import { customAlphabet } from 'nanoid';
 import { cacheGet } from '../redis';
+import { TemplateConflictError, parseDbError } from './utils';
+import { getActiveWorkspaceId } from './workspaces';
 
 // Configuration
 const SHORT_ID_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
 const SHORT_ID_LENGTH = 8;
 const nanoid = customAlphabet(SHORT_ID_ALPHABET, SHORT_ID_LENGTH);
 
+// Raised by the templates revision trigger for a save based on a stale revision
+const STALE_REVISION_CODE = '40001';
+
 // Import shared types from templates module
 import type {
     SaveTemplateData,
@@ -65,6 +71,34 @@ export async function getTemplateByShortId(
     }
 }
 
+/**
+ * List a workspace's templates with the data needed to render them (Server-side only)
+ * @param workspaceId Workspace the templates are shared in
+ * @param client Supabase client (service role, the caller has already authenticated the user)
+ */
+export async function getTemplatesForWorkspace(
+    workspaceId: string,
+    client: SupabaseClient
+): Promise<Pick<DbTemplate, 'id' | 'short_id' | 'name' | 'canvas_size' | 'elements' | 'updated_at'>[]> {
+    try {
+        const { data, error } = await client
+            .from('templates')
+            .select('id, short_id, name, canvas_size, elements, updated_at')
+            .eq('workspace_id', workspaceId)
+            .order('updated_at', { ascending: false });
+
+        if (error) {
+            console.error('Error fetching templates for workspace:', error);
+            return [];
+        }
+
+        return data || [];
+    } catch (error) {
+        console.error('Error fetching templates for workspace:', error);
+        return [];
+    }
+}
+
 // ============================================
 // Template Name Helpers
 // ============================================
@@ -83,8 +117,8 @@ export async function checkTemplateNameExists(
         return { exists: false };
     }
 
-    const userId = await getCurrentUserId();
-    if (!userId) {
+    const workspaceId = await getActiveWorkspaceId();
+    if (!workspaceId) {
         return { exists: false };
     }
 
@@ -92,7 +126,7 @@ export async function checkTemplateNameExists(
         let query = supabase
             .from('templates')
             .select('id')
-            .eq('user_id', userId)
+            .eq('workspace_id', workspaceId)
             .ilike('name', name); // Case-insensitive match
 
         if (excludeId) {
@@ -125,6 +159,7 @@ export async function checkTemplateNameExists(
  * Save a template (insert or update)
  * @param data Template data to save
  * @returns The saved template or null on error
+ * @throws TemplateConflictError when `data.revision` is older than the stored revision
  */
 export async function saveTemplate(data: SaveTemplateData): Promise<DbTemplate | null> {
     if (!isSupabaseConfigured()) {
@@ -133,7 +168,8 @@ export async function saveTemplate(data: SaveTemplateData): Promise<DbTemplate |
     }
 
     const userId = await getCurrentUserId();
-    if (!userId) {
+    const workspaceId = await getActiveWorkspaceId();
+    if (!userId || !workspaceId) {
         console.error('User not authenticated');
         return null;
     }
@@ -162,15 +198,23 @@ export async function saveTemplate(data: SaveTemplateData): Promise<DbTemplate |
             if (data.category_id !== undefined) updateData.category_id = data.category_id;
             if (data.is_public !== undefined) updateData.is_public = data.is_public;
             if (data.is_featured !== undefined) updateData.is_featured = data.is_featured;
+            // Optimistic concurrency: the database rejects a stale revision
+            if (data.revision != null) updateData.revision = data.revision;
 
             const { data: template, error } = await supabase
                 .from('templates')
                 .update(updateData)
-                .eq('id', data.id)
-                .eq('user_id', userId) // Ensure user owns the template
+                .eq('id', data.id) // RLS limits writes to the template's workspace editors
                 .select()
                 .single();
 
+            if (error?.code === STALE_REVISION_CODE) {
+                const latest = await getTemplate(data.id);
+                if (latest) {
+                    throw new TemplateConflictError(latest);
+                }
+            }
+
             if (error) {
                 console.error('Error updating template:', error);
                 console.error('Template data that failed:', {
@@ -186,6 +230,7 @@ export async function saveTemplate(data: SaveTemplateData): Promise<DbTemplate |
             // Insert new template
             const insertData = {
                 user_id: userId,
+                workspace_id: workspaceId,
                 name: data.name,
                 short_id: generateShortId(), // Auto-generate short ID
                 description: data.description || null,
@@ -218,6 +263,10 @@ export async function saveTemplate(data: SaveTemplateData): Promise<DbTemplate |
             return template;
         }
     } catch (error) {
+        // Callers resolve conflicts (merge dialog), so let them through
+        if (error instanceof TemplateConflictError) {
+            throw error;
+        }
         console.error('Error saving template:', error);
         if (error instanceof Error) {
             console.error('Error details:', error.message, error.stack);
@@ -227,7 +276,7 @@ export async function saveTemplate(data: SaveTemplateData): Promise<DbTemplate |
 }
 
 /**
- * Get all templates for the current user
+ * Get all templates in the active workspace
  * @returns Array of templates or empty array on error
  */
 export async function getTemplates(): Promise<TemplateListItem[]> {
@@ -236,8 +285,8 @@ export async function getTemplates(): Promise<TemplateListItem[]> {
         return [];
     }
 
-    const userId = await getCurrentUserId();
-    if (!userId) {
+    const workspaceId = await getActiveWorkspaceId();
+    if (!workspaceId) {
         console.warn('User not authenticated');
         return [];
     }
@@ -245,8 +294,8 @@ export async function getTemplates(): Promise<TemplateListItem[]> {
     try {
         const { data: templates, error } = await supabase
             .from('templates')
-            .select('id, short_id, name, thumbnail_url, category, category_id, is_featured, view_count, created_at, updated_at')
-            .eq('user_id', userId)
+            .select('id, short_id, name, thumbnail_url, category, category_id, is_featured, view_count, status, created_at, updated_at')
+            .eq('workspace_id', workspaceId)
             .order('updated_at', { ascending: false });
 
         if (error) {
@@ -282,8 +331,8 @@ export async function getTemplatesWithElements(
         return [];
     }
 
-    const userId = await getCurrentUserId();
-    if (!userId && !filters?.isPublic) {
+    const workspaceId = await getActiveWorkspaceId();
+    if (!workspaceId && !filters?.isPublic) {
         console.warn('User not authenticated');
         return [];
     }
@@ -317,7 +366,7 @@ export async function getTemplatesWithElements(
             .from('templates')
             .select(`
                 id, short_id, name, thumbnail_url, category, category_id, 
-                is_featured, view_count, created_at, updated_at,
+                is_featured, view_count, status, created_at, updated_at,
                 elements,
                 category_data:categories(id, name, slug, icon, color)
             `);
@@ -325,8 +374,8 @@ export async function getTemplatesWithElements(
         // Apply filters
         if (filters?.isPublic) {
             query = query.eq('is_public', true);
-        } else if (userId) {
-            query = query.eq('user_id', userId);
+        } else if (workspaceId) {
+            query = query.eq('workspace_id', workspaceId);
         }
 
         if (filters?.categoryId) {
@@ -364,6 +413,7 @@ export async function getTemplatesWithElements(
             category_id: t.category_id,
             is_featured: t.is_featured,
             view_count: t.view_count,
+            status: t.status,
             created_at: t.created_at,
             updated_at: t.updated_at,
             elements: (t.elements as Element[]) || [],
@@ -394,7 +444,7 @@ export async function getPublicTemplates(): Promise<TemplateListItem[]> {
         try {
             const { data: templates, error } = await supabase
                 .from('templates')
-                .select('id, short_id, name, thumbnail_url, category, category_id, is_featured, view_count, created_at, updated_at')
+                .select('id, short_id, name, thumbnail_url, category, category_id, is_featured, view_count, status, created_at, updated_at')
                 .eq('is_public', true)
                 .order('created_at', { ascending: false })
                 .limit(50);
@@ -463,8 +513,7 @@ export async function deleteTemplate(templateId: string): Promise<boolean> {
         const { error } = await supabase
             .from('templates')
             .delete()
-            .eq('id', templateId)
-            .eq('user_id', userId); // Ensure user owns the template
+            .eq('id', templateId); // RLS limits deletes to the template's workspace editors
 
         if (error) {
             console.error('Error deleting template:', error);
@@ -580,8 +629,8 @@ export async function getTemplatesFiltered(
         return [];
     }
 
-    const userId = await getCurrentUserId();
-    if (!userId && !filters.isPublic) {
+    const workspaceId = await getActiveWorkspaceId();
+    if (!workspaceId && !filters.isPublic) {
         console.warn('User not authenticated');
         return [];
     }
@@ -617,15 +666,15 @@ export async function getTemplatesFiltered(
             .from('templates')
             .select(`
                 id, short_id, name, thumbnail_url, category, category_id, 
-                is_featured, view_count, created_at, updated_at,
+                is_featured, view_count, status, created_at, updated_at,
                 category_data:categories(id, name, slug, icon, color)
             `);
 
         // Apply filters
         if (filters.isPublic) {
             query = query.eq('is_public', true);
-        } else if (userId) {
-            query = query.eq('user_id', userId);
+        } else if (workspaceId) {
+            query = query.eq('workspace_id', workspaceId);
         }
 
         if (filters.categoryId) {
@@ -669,6 +718,49 @@ export async function getTemplatesFiltered(
     }
 }
 
+/**
+ * Get a template's review status
+ * @returns Status fields or null if not found
+ */
+export async function getTemplateStatus(
+    templateId: string
+): Promise<Pick<DbTemplate, 'status' | 'status_changed_at' | 'status_changed_by'> | null> {
+    if (!isSupabaseConfigured()) {
+        return null;
+    }
+
+    try {
+        const { data, error } = await supabase
+            .from('templates')
+            .select('status, status_changed_at, status_changed_by')
+            .eq('id', templateId)
+            .single();
+
+        if (error) {
+            console.error('Error fetching template status:', error);
+            return null;
+        }
+
+        return data;
+    } catch (error) {
+        console.error('Error fetching template status:', error);
+        return null;
+    }
+}
+
+/**
+ * Move a template through review (draft -> in_review -> approved)
+ * Goes through an RPC so viewers can approve templates they can't edit.
+ * @throws DatabaseError when the move isn't allowed for the user's role
+ */
+export async function setTemplateStatus(templateId: string, status: TemplateStatus): Promise<void> {
+    const { error } = await supabase.rpc('set_template_status', { template: templateId, new_status: status });
+
+    if (error) {
+        throw parseDbError(error, 'templates', 'update');
+    }
+}
+
 /**
  * Update template metadata (category, tags, featured status)
  * @param templateId - Template ID
@@ -713,8 +805,7 @@ export async function updateTemplateMetadata(
         const { error } = await supabase
             .from('templates')
             .update(updateData)
-            .eq('id', templateId)
-            .eq('user_id', userId);
+            .eq('id', templateId);
 
         if (error) {
             console.error('Error updating template metadata:', error);
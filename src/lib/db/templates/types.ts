@@ -5,7 +5,7 @@
  * Used across CRUD, filter, and metadata modules.
  */
 
-import { DbCategory, DbTag } from '@/types/database.types';
+import { DbCategory, DbTag, TemplateStatus } from '@/types/database.types';
 import { Element, CanvasSize } from '@/types/editor';
 
 // ============================================
@@ -27,6 +27,8 @@ export interface SaveTemplateData {
     category_id?: string;
     is_public?: boolean;
     is_featured?: boolean;
+    /** Revision the editor loaded; updates based on an older one are rejected */
+    revision?: number | null;
 }
 
 /**
@@ -41,6 +43,7 @@ export interface TemplateListItem {
     category_id: string | null;
     is_featured: boolean;
     view_count: number;
+    status: TemplateStatus;  // Review status; only approved templates start campaigns
     created_at: string;
     updated_at: string;
     // Joined data
@@ -5,6 +5,8 @@
  * Provides consistent error types and helper functions across all db modules.
  */
 
+import type { DbTemplate } from '@/types/database.types';
+
 // ============================================
 // Error Types
 // ============================================
@@ -97,6 +99,24 @@ export class UnauthorizedError extends DatabaseError {
     }
 }
 
+/**
+ * A template save was based on an older revision than the one stored
+ * (another tab or teammate saved in between). Carries the stored template
+ * so the editor can offer a merge.
+ */
+export class TemplateConflictError extends DatabaseError {
+    public readonly latest: DbTemplate;
+
+    constructor(latest: DbTemplate) {
+        super(
+            `Template was changed elsewhere (now at revision ${latest.revision})`,
+            { code: 'CONFLICT', table: 'templates', operation: 'update' }
+        );
+        this.name = 'TemplateConflictError';
+        this.latest = latest;
+    }
+}
+
 // ============================================
 // Error Code Mapping
 // ============================================
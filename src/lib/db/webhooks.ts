@@ -0,0 +1,297 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+    DbWebhookEndpoint,
+    DbWebhookEndpointInsert,
+    DbWebhookEndpointUpdate,
+    DbWebhookDelivery,
+    DbWebhookDeliveryInsert,
+    DbWebhookDeliveryUpdate,
+    WebhookDeliveryStatus,
+    WebhookEventType,
+} from '@/types/database.types';
+
+/**
+ * Webhooks (Server-side only)
+ * All functions REQUIRE a Service Role client - endpoints are managed through
+ * /api/webhooks and deliveries are written by the Inngest worker.
+ */
+
+// Secrets are only returned once, when the endpoint is created
+export type WebhookEndpointListItem = Omit<DbWebhookEndpoint, 'secret'>;
+
+export type WebhookDeliveryListItem = Omit<DbWebhookDelivery, 'user_id'>;
+
+const ENDPOINT_LIST_COLUMNS = 'id, user_id, url, description, events, is_active, created_at, updated_at';
+
+/**
+ * Register a webhook endpoint
+ */
+export async function createWebhookEndpoint(
+    client: SupabaseClient,
+    endpoint: DbWebhookEndpointInsert
+): Promise<DbWebhookEndpoint | null> {
+    try {
+        const { data, error } = await client
+            .from('webhook_endpoints')
+            .insert(endpoint)
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Error creating webhook endpoint:', error);
+            return null;
+        }
+
+        return data;
+    } catch (error) {
+        console.error('Error creating webhook endpoint:', error);
+        return null;
+    }
+}
+
+/**
+ * List a user's webhook endpoints (without secrets)
+ */
+export async function listWebhookEndpoints(client: SupabaseClient, userId: string): Promise<WebhookEndpointListItem[]> {
+    try {
+        const { data, error } = await client
+            .from('webhook_endpoints')
+            .select(ENDPOINT_LIST_COLUMNS)
+            .eq('user_id', userId)
+            .order('created_at', { ascending: false });
+
+        if (error) {
+            console.error('Error listing webhook endpoints:', error);
+            return [];
+        }
+
+        return data || [];
+    } catch (error) {
+        console.error('Error listing webhook endpoints:', error);
+        return [];
+    }
+}
+
+/**
+ * Get an endpoint by ID, including its signing secret
+ */
+export async function getWebhookEndpoint(client: SupabaseClient, endpointId: string): Promise<DbWebhookEndpoint | null> {
+    try {
+        const { data, error } = await client
+            .from('webhook_endpoints')
+            .select('*')
+            .eq('id', endpointId)
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error fetching webhook endpoint:', error);
+            return null;
+        }
+
+        return data;
+    } catch (error) {
+        console.error('Error fetching webhook endpoint:', error);
+        return null;
+    }
+}
+
+/**
+ * Active endpoints of a user that subscribe to an event type
+ * An endpoint with an empty events list receives every event.
+ */
+export async function listSubscribedWebhookEndpoints(
+    client: SupabaseClient,
+    userId: string,
+    eventType: WebhookEventType
+): Promise<DbWebhookEndpoint[]> {
+    try {
+        const { data, error } = await client
+            .from('webhook_endpoints')
+            .select('*')
+            .eq('user_id', userId)
+            .eq('is_active', true);
+
+        if (error) {
+            console.error('Error listing subscribed webhook endpoints:', error);
+            return [];
+        }
+
+        return (data || []).filter((endpoint: DbWebhookEndpoint) =>
+            !endpoint.events || endpoint.events.length === 0 || endpoint.events.includes(eventType)
+        );
+    } catch (error) {
+        console.error('Error listing subscribed webhook endpoints:', error);
+        return [];
+    }
+}
+
+/**
+ * Update an endpoint owned by the user
+ */
+export async function updateWebhookEndpoint(
+    client: SupabaseClient,
+    endpointId: string,
+    userId: string,
+    updates: DbWebhookEndpointUpdate
+): Promise<WebhookEndpointListItem | null> {
+    try {
+        const { data, error } = await client
+            .from('webhook_endpoints')
+            .update({ ...updates, updated_at: new Date().toISOString() })
+            .eq('id', endpointId)
+            .eq('user_id', userId) // Ensure ownership
+            .select(ENDPOINT_LIST_COLUMNS)
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error updating webhook endpoint:', error);
+            return null;
+        }
+
+        return data;
+    } catch (error) {
+        console.error('Error updating webhook endpoint:', error);
+        return null;
+    }
+}
+
+/**
+ * Delete an endpoint owned by the user (its delivery log cascades)
+ */
+export async function deleteWebhookEndpoint(client: SupabaseClient, endpointId: string, userId: string): Promise<boolean> {
+    try {
+        const { error } = await client
+            .from('webhook_endpoints')
+            .delete()
+            .eq('id', endpointId)
+            .eq('user_id', userId); // Ensure ownership
+
+        if (error) {
+            console.error('Error deleting webhook endpoint:', error);
+            return false;
+        }
+
+        return true;
+    } catch (error) {
+        console.error('Error deleting webhook endpoint:', error);
+        return false;
+    }
+}
+
+/**
+ * Record pending deliveries for an event
+ */
+export async function createWebhookDeliveries(
+    client: SupabaseClient,
+    deliveries: DbWebhookDeliveryInsert[]
+): Promise<DbWebhookDelivery[]> {
+    if (deliveries.length === 0) return [];
+
+    try {
+        const { data, error } = await client
+            .from('webhook_deliveries')
+            .insert(deliveries)
+            .select();
+
+        if (error) {
+            console.error('Error creating webhook deliveries:', error);
+            return [];
+        }
+
+        return data || [];
+    } catch (error) {
+        console.error('Error creating webhook deliveries:', error);
+        return [];
+    }
+}
+
+/**
+ * Get a delivery by ID
+ */
+export async function getWebhookDelivery(client: SupabaseClient, deliveryId: string): Promise<DbWebhookDelivery | null> {
+    try {
+        const { data, error } = await client
+            .from('webhook_deliveries')
+            .select('*')
+            .eq('id', deliveryId)
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error fetching webhook delivery:', error);
+            return null;
+        }
+
+        return data;
+    } catch (error) {
+        console.error('Error fetching webhook delivery:', error);
+        return null;
+    }
+}
+
+/**
+ * Record the outcome of a delivery attempt
+ */
+export async function updateWebhookDelivery(
+    client: SupabaseClient,
+    deliveryId: string,
+    updates: DbWebhookDeliveryUpdate
+): Promise<boolean> {
+    try {
+        const { error } = await client
+            .from('webhook_deliveries')
+            .update(updates)
+            .eq('id', deliveryId);
+
+        if (error) {
+            console.error('Error updating webhook delivery:', error);
+            return false;
+        }
+
+        return true;
+    } catch (error) {
+        console.error('Error updating webhook delivery:', error);
+        return false;
+    }
+}
+
+/**
+ * Delivery log for a user, newest first
+ */
+export async function listWebhookDeliveries(
+    client: SupabaseClient,
+    userId: string,
+    options: { endpointId?: string; status?: WebhookDeliveryStatus; limit?: number; offset?: number } = {}
+): Promise<{ data: WebhookDeliveryListItem[]; total: number }> {
+    const { endpointId, status, limit = 50, offset = 0 } = options;
+
+    try {
+        let query = client
+            .from('webhook_deliveries')
+            .select(
+                'id, endpoint_id, event_id, event_type, payload, status, attempts, response_status, response_body, error, created_at, last_attempt_at, delivered_at',
+                { count: 'exact' }
+            )
+            .eq('user_id', userId)
+            .order('created_at', { ascending: false })
+            .range(offset, offset + limit - 1);
+
+        if (endpointId) {
+            query = query.eq('endpoint_id', endpointId);
+        }
+        if (status) {
+            query = query.eq('status', status);
+        }
+
+        const { data, error, count } = await query;
+
+        if (error) {
+            console.error('Error listing webhook deliveries:', error);
+            return { data: [], total: 0 };
+        }
+
+        return { data: data || [], total: count || 0 };
+    } catch (error) {
+        console.error('Error listing webhook deliveries:', error);
+        return { data: [], total: 0 };
+    }
+}
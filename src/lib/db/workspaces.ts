@@ -0,0 +1,479 @@
+// Workspace, membership and invitation database operations
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase, isSupabaseConfigured, getCurrentUserId } from '../supabase';
+import { pickActiveWorkspace } from '../auth/workspaceRoles';
+import { parseDbError } from './utils';
+import {
+    DbWorkspace,
+    DbWorkspaceInvitation,
+    WorkspaceRole,
+} from '@/types/database.types';
+
+// ============================================
+// Types
+// ============================================
+
+/** Workspace with the current user's role in it */
+export interface WorkspaceWithRole extends DbWorkspace {
+    role: WorkspaceRole;
+}
+
+/** Member with the account details shown in the members dialog */
+export interface WorkspaceMember {
+    user_id: string;
+    role: WorkspaceRole;
+    email: string;
+    full_name: string | null;
+    avatar_url: string | null;
+    created_at: string;
+}
+
+export type InvitableRole = Exclude<WorkspaceRole, 'owner'>;
+
+// ============================================
+// Active Workspace
+// ============================================
+
+const ACTIVE_WORKSPACE_KEY = 'pinterest-editor-workspace';
+
+/**
+ * Workspace the lib/db queries read from and write to, resolved once per user
+ */
+let activeWorkspace: { userId: string; workspaceId: string } | null = null;
+
+function readStoredWorkspaceId(): string | null {
+    if (typeof window === 'undefined') return null;
+    try {
+        return window.localStorage.getItem(ACTIVE_WORKSPACE_KEY);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Get the workspace the current user is working in
+ *
+ * Remembered across sessions; falls back to the personal workspace when the
+ * user has left (or been removed from) the remembered one.
+ * Returns null if not authenticated or Supabase is not configured.
+ */
+export async function getActiveWorkspaceId(): Promise<string | null> {
+    const userId = await getCurrentUserId();
+    if (!userId) return null;
+
+    if (activeWorkspace?.userId === userId) {
+        return activeWorkspace.workspaceId;
+    }
+
+    const workspace = pickActiveWorkspace(await listWorkspaces(), readStoredWorkspaceId(), userId);
+    if (!workspace) return null;
+
+    activeWorkspace = { userId, workspaceId: workspace.id };
+    return workspace.id;
+}
+
+/**
+ * Switch the workspace lib/db queries use (callers refetch their data)
+ */
+export async function setActiveWorkspaceId(workspaceId: string): Promise<void> {
+    const userId = await getCurrentUserId();
+    if (!userId) return;
+
+    activeWorkspace = { userId, workspaceId };
+    if (typeof window !== 'undefined') {
+        try {
+            window.localStorage.setItem(ACTIVE_WORKSPACE_KEY, workspaceId);
+        } catch {
+            // Private mode - the choice lasts for this session only
+        }
+    }
+}
+
+/**
+ * Forget the resolved workspace (call on logout or after leaving one)
+ */
+export function clearActiveWorkspace(): void {
+    activeWorkspace = null;
+}
+
+// ============================================
+// Workspaces
+// ============================================
+
+/**
+ * List the workspaces the current user belongs to, personal workspace first
+ * @returns Array of workspaces or empty array on error
+ */
+export async function listWorkspaces(): Promise<WorkspaceWithRole[]> {
+    if (!isSupabaseConfigured()) {
+        return [];
+    }
+
+    const userId = await getCurrentUserId();
+    if (!userId) {
+        return [];
+    }
+
+    try {
+        const { data, error } = await supabase
+            .from('workspace_members')
+            .select('role, workspace:workspaces(*)')
+            .eq('user_id', userId);
+
+        if (error) {
+            console.error('Error fetching workspaces:', error);
+            return [];
+        }
+
+        return (data || [])
+            .map(row => {
+                const workspace = (Array.isArray(row.workspace) ? row.workspace[0] : row.workspace) as DbWorkspace | null;
+                return workspace ? { ...workspace, role: row.role as WorkspaceRole } : null;
+            })
+            .filter((ws): ws is WorkspaceWithRole => ws !== null)
+            .sort((a, b) => Number(b.is_personal) - Number(a.is_personal) || a.name.localeCompare(b.name));
+    } catch (error) {
+        console.error('Error fetching workspaces:', error);
+        return [];
+    }
+}
+
+/**
+ * Create a team workspace owned by the current user
+ * @returns The created workspace or null on error
+ */
+export async function createWorkspace(name: string): Promise<WorkspaceWithRole | null> {
+    if (!isSupabaseConfigured()) {
+        return null;
+    }
+
+    const userId = await getCurrentUserId();
+    if (!userId) {
+        console.error('User not authenticated');
+        return null;
+    }
+
+    try {
+        const { data, error } = await supabase
+            .from('workspaces')
+            .insert({ name: name.trim(), owner_id: userId })
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Error creating workspace:', error);
+            return null;
+        }
+
+        return { ...data, role: 'owner' };
+    } catch (error) {
+        console.error('Error creating workspace:', error);
+        return null;
+    }
+}
+
+/**
+ * Rename a workspace (owners only)
+ * @returns true on success, false on error
+ */
+export async function renameWorkspace(workspaceId: string, name: string): Promise<boolean> {
+    if (!isSupabaseConfigured()) {
+        return false;
+    }
+
+    try {
+        const { error } = await supabase
+            .from('workspaces')
+            .update({ name: name.trim(), updated_at: new Date().toISOString() })
+            .eq('id', workspaceId);
+
+        if (error) {
+            console.error('Error renaming workspace:', error);
+            return false;
+        }
+
+        return true;
+    } catch (error) {
+        console.error('Error renaming workspace:', error);
+        return false;
+    }
+}
+
+/**
+ * Delete a team workspace and everything shared in it (owners only)
+ * @returns true on success, false on error
+ */
+export async function deleteWorkspace(workspaceId: string): Promise<boolean> {
+    if (!isSupabaseConfigured()) {
+        return false;
+    }
+
+    try {
+        const { error } = await supabase
+            .from('workspaces')
+            .delete()
+            .eq('id', workspaceId)
+            .eq('is_personal', false);
+
+        if (error) {
+            console.error('Error deleting workspace:', error);
+            return false;
+        }
+
+        if (activeWorkspace?.workspaceId === workspaceId) {
+            clearActiveWorkspace();
+        }
+
+        return true;
+    } catch (error) {
+        console.error('Error deleting workspace:', error);
+        return false;
+    }
+}
+
+// ============================================
+// Members
+// ============================================
+
+/**
+ * List a workspace's members, owner first
+ * @returns Array of members or empty array on error
+ */
+export async function listWorkspaceMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+    if (!isSupabaseConfigured()) {
+        return [];
+    }
+
+    try {
+        const { data, error } = await supabase.rpc('list_workspace_members', { ws: workspaceId });
+
+        if (error) {
+            console.error('Error fetching workspace members:', error);
+            return [];
+        }
+
+        return (data as WorkspaceMember[]) || [];
+    } catch (error) {
+        console.error('Error fetching workspace members:', error);
+        return [];
+    }
+}
+
+/**
+ * Change a member between editor and viewer (owners only)
+ * @returns true on success, false on error
+ */
+export async function updateWorkspaceMemberRole(
+    workspaceId: string,
+    userId: string,
+    role: InvitableRole
+): Promise<boolean> {
+    if (!isSupabaseConfigured()) {
+        return false;
+    }
+
+    try {
+        const { error } = await supabase
+            .from('workspace_members')
+            .update({ role })
+            .eq('workspace_id', workspaceId)
+            .eq('user_id', userId);
+
+        if (error) {
+            console.error('Error updating workspace member:', error);
+            return false;
+        }
+
+        return true;
+    } catch (error) {
+        console.error('Error updating workspace member:', error);
+        return false;
+    }
+}
+
+/**
+ * Remove a member (owners), or leave a workspace (pass your own user id)
+ * @returns true on success, false on error
+ */
+export async function removeWorkspaceMember(workspaceId: string, userId: string): Promise<boolean> {
+    if (!isSupabaseConfigured()) {
+        return false;
+    }
+
+    try {
+        const { error } = await supabase
+            .from('workspace_members')
+            .delete()
+            .eq('workspace_id', workspaceId)
+            .eq('user_id', userId);
+
+        if (error) {
+            console.error('Error removing workspace member:', error);
+            return false;
+        }
+
+        if (activeWorkspace?.workspaceId === workspaceId && activeWorkspace.userId === userId) {
+            clearActiveWorkspace();
+        }
+
+        return true;
+    } catch (error) {
+        console.error('Error removing workspace member:', error);
+        return false;
+    }
+}
+
+// ============================================
+// Invitations
+// ============================================
+
+/**
+ * Invite someone by email (owners only). The returned token goes in the
+ * link they open to join.
+ * @returns The invitation or null on error
+ */
+export async function createWorkspaceInvitation(
+    workspaceId: string,
+    email: string,
+    role: InvitableRole
+): Promise<DbWorkspaceInvitation | null> {
+    if (!isSupabaseConfigured()) {
+        return null;
+    }
+
+    const userId = await getCurrentUserId();
+    if (!userId) {
+        console.error('User not authenticated');
+        return null;
+    }
+
+    try {
+        const { data, error } = await supabase
+            .from('workspace_invitations')
+            .insert({
+                workspace_id: workspaceId,
+                email: email.trim().toLowerCase(),
+                role,
+                invited_by: userId,
+            })
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Error creating workspace invitation:', error);
+            return null;
+        }
+
+        return data;
+    } catch (error) {
+        console.error('Error creating workspace invitation:', error);
+        return null;
+    }
+}
+
+/**
+ * List invitations that haven't been accepted and haven't expired
+ * @returns Array of invitations or empty array on error
+ */
+export async function listPendingInvitations(workspaceId: string): Promise<DbWorkspaceInvitation[]> {
+    if (!isSupabaseConfigured()) {
+        return [];
+    }
+
+    try {
+        const { data, error } = await supabase
+            .from('workspace_invitations')
+            .select('*')
+            .eq('workspace_id', workspaceId)
+            .is('accepted_at', null)
+            .gt('expires_at', new Date().toISOString())
+            .order('created_at', { ascending: false });
+
+        if (error) {
+            console.error('Error fetching workspace invitations:', error);
+            return [];
+        }
+
+        return data || [];
+    } catch (error) {
+        console.error('Error fetching workspace invitations:', error);
+        return [];
+    }
+}
+
+/**
+ * Revoke an invitation (owners only)
+ * @returns true on success, false on error
+ */
+export async function revokeWorkspaceInvitation(invitationId: string): Promise<boolean> {
+    if (!isSupabaseConfigured()) {
+        return false;
+    }
+
+    try {
+        const { error } = await supabase
+            .from('workspace_invitations')
+            .delete()
+            .eq('id', invitationId);
+
+        if (error) {
+            console.error('Error revoking workspace invitation:', error);
+            return false;
+        }
+
+        return true;
+    } catch (error) {
+        console.error('Error revoking workspace invitation:', error);
+        return false;
+    }
+}
+
+/**
+ * Join a workspace from an invitation link
+ * @returns Id of the joined workspace
+ * @throws DatabaseError with a message to show when the invitation is
+ * expired, already used or for another email address
+ */
+export async function acceptWorkspaceInvitation(token: string): Promise<string> {
+    const { data, error } = await supabase.rpc('accept_workspace_invitation', { invite_token: token });
+
+    if (error) {
+        throw parseDbError(error, 'workspace_invitations', 'update');
+    }
+
+    return data as string;
+}
+
+// ============================================
+// Server-side helpers
+// ============================================
+
+/**
+ * Get a user's role in a workspace (Server-side only)
+ * @param client Supabase client (service role, the caller has already authenticated the user)
+ * @returns The role or null when the user isn't a member
+ */
+export async function getWorkspaceRole(
+    workspaceId: string,
+    userId: string,
+    client: SupabaseClient
+): Promise<WorkspaceRole | null> {
+    try {
+        const { data, error } = await client
+            .from('workspace_members')
+            .select('role')
+            .eq('workspace_id', workspaceId)
+            .eq('user_id', userId)
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error fetching workspace role:', error);
+            return null;
+        }
+
+        return (data?.role as WorkspaceRole) ?? null;
+    } catch (error) {
+        console.error('Error fetching workspace role:', error);
+        return null;
+    }
+}
@@ -258,6 +258,42 @@ describe('Shared Engine (Node Environment)', () => {
             expect(addedObject.fill).toBe('#ff0000');
         });
 
+        it('should render lines and arrows with the shared shape geometry', async () => {
+            const base = {
+                type: 'shape' as const,
+                x: 100,
+                y: 200,
+                width: 300,
+                height: 0,
+                rotation: 0,
+                opacity: 1,
+                locked: false,
+                visible: true,
+                fill: '#ff0000',
+                stroke: '#000000',
+                strokeWidth: 2,
+                strokeDashArray: [12, 6],
+                points: [0, 0, 100, 0],
+            };
+            const elements = [
+                { ...base, id: 'line', name: 'Line', shapeType: 'line' as const, zIndex: 0 },
+                { ...base, id: 'arrow', name: 'Arrow', shapeType: 'arrow' as const, zIndex: 1 },
+            ];
+
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            await renderTemplate(mockCanvas as any, elements, { width: 800, height: 600 });
+
+            const [line, arrow] = mockCanvas.add.mock.calls.map(call => call[0]);
+            expect(line.type).toBe('line');
+            expect(line.points).toEqual([100, 200, 200, 200]);
+            expect(line.strokeDashArray).toEqual([12, 6]);
+            expect(line.left).toBeUndefined();
+            expect(arrow.type).toBe('path');
+            expect(arrow.fill).toBeNull();
+            expect(arrow.strokeDashArray).toEqual([12, 6]);
+            expect(arrow.path).toMatch(/^M 100 200 L 200 200 M [\d.]+ [\d.]+ L 200 200 L [\d.]+ [\d.]+$/);
+        });
+
         it('should sort elements by zIndex', async () => {
             const elements = [
                 {
@@ -0,0 +1,242 @@
+import {
+    evaluateTemplate,
+    validateTemplate,
+    extractTemplateFields,
+    lookupFieldValue,
+    parseNumber,
+} from '../expression-shared';
+import { replaceDynamicFields } from '../text-shared';
+
+const row = {
+    title: 'Handmade ceramic mug with speckled glaze',
+    price: '1299.5',
+    brand: 'Acme',
+    model: 'X200',
+    empty: '',
+    date: '2026-03-02',
+    datetime: '2026-03-02T18:05:00Z',
+};
+
+describe('expression-shared', () => {
+    describe('plain fields', () => {
+        it('should substitute fields and keep surrounding text', () => {
+            expect(evaluateTemplate('Only {{brand}}!', row)).toBe('Only Acme!');
+            expect(evaluateTemplate('{{ brand }}', row)).toBe('Acme');
+        });
+
+        it('should leave text without tags untouched', () => {
+            expect(evaluateTemplate('No tags here', row)).toBe('No tags here');
+            expect(evaluateTemplate('', row)).toBe('');
+        });
+
+        it('should use the mapped column first, then the field name', () => {
+            const data = { 'Product Name': 'Mapped', name: 'Direct' };
+            expect(evaluateTemplate('{{name}}', data, { name: 'Product Name' })).toBe('Mapped');
+            expect(evaluateTemplate('{{name}}', data)).toBe('Direct');
+        });
+
+        it('should support column names with spaces and apostrophes', () => {
+            expect(evaluateTemplate("{{Sale Price}} / {{Men's size}}", { 'Sale Price': '5', "Men's size": 'L' })).toBe('5 / L');
+        });
+
+        it('should render missing fields as empty', () => {
+            expect(evaluateTemplate('Price: {{missing}}', row)).toBe('Price: ');
+        });
+
+        it('should substitute every occurrence of a repeated tag', () => {
+            expect(evaluateTemplate('{{brand}} loves {{brand}}', row)).toBe('Acme loves Acme');
+        });
+    });
+
+    describe('filters', () => {
+        it('should apply default only to empty values', () => {
+            expect(evaluateTemplate("{{empty | default:'Our pick'}}", row)).toBe('Our pick');
+            expect(evaluateTemplate("{{missing | default:'Our pick'}}", row)).toBe('Our pick');
+            expect(evaluateTemplate("{{brand | default:'Our pick'}}", row)).toBe('Acme');
+        });
+
+        it('should format currency', () => {
+            expect(evaluateTemplate("{{price | currency:'USD'}}", row)).toBe('$1,299.50');
+            expect(evaluateTemplate('{{price | currency:usd}}', row)).toBe('$1,299.50');
+            expect(evaluateTemplate("{{price | currency:'EUR', 'de-DE'}}", row)).toBe('1.299,50 €');
+        });
+
+        it('should read spreadsheet-formatted numbers', () => {
+            expect(evaluateTemplate("{{p | currency:'USD'}}", { p: '$2,000' })).toBe('$2,000.00');
+        });
+
+        it('should pass non-numeric values through number filters unchanged', () => {
+            expect(evaluateTemplate("{{p | currency:'USD'}}", { p: 'Call us' })).toBe('Call us');
+            expect(evaluateTemplate('{{p | number:2}}', { p: 'n/a' })).toBe('n/a');
+        });
+
+        it('should format numbers with fixed decimals', () => {
+            expect(evaluateTemplate('{{price | number:0}}', row)).toBe('1,300');
+            expect(evaluateTemplate('{{price | number:2}}', row)).toBe('1,299.50');
+            expect(evaluateTemplate('{{price | number}}', row)).toBe('1,299.5');
+        });
+
+        it('should truncate on a word boundary with an ellipsis', () => {
+            expect(evaluateTemplate('{{title | truncate:20}}', row)).toBe('Handmade ceramic…');
+            expect(evaluateTemplate("{{title | truncate:20, '...'}}", row)).toBe('Handmade ceramic...');
+            expect(evaluateTemplate('{{brand | truncate:20}}', row)).toBe('Acme');
+        });
+
+        it('should cut mid-word when the last space is too early', () => {
+            expect(evaluateTemplate('{{w | truncate:8}}', { w: 'a Supercalifragilistic' })).toBe('a Super…');
+        });
+
+        it('should count characters, not UTF-16 units, when truncating', () => {
+            expect(evaluateTemplate('{{e | truncate:3}}', { e: '😀😀😀😀' })).toBe('😀😀…');
+        });
+
+        it('should format ISO dates', () => {
+            expect(evaluateTemplate("{{date | format:'MMM d'}}", row)).toBe('Mar 2');
+            expect(evaluateTemplate("{{date | format:'EEEE, MMMM dd yyyy'}}", row)).toBe('Monday, March 02 2026');
+            expect(evaluateTemplate("{{date | format:'MM/dd/yy'}}", row)).toBe('03/02/26');
+            expect(evaluateTemplate("{{datetime | format:'h:mm a [on] EEE'}}", row)).toBe('6:05 PM on Mon');
+        });
+
+        it('should leave values that are not dates unchanged', () => {
+            expect(evaluateTemplate("{{d | format:'MMM d'}}", { d: 'next week' })).toBe('next week');
+            expect(evaluateTemplate("{{d | format:'MMM d'}}", { d: '2026-02-30' })).toBe('2026-02-30');
+        });
+
+        it('should change case and trim', () => {
+            expect(evaluateTemplate('{{brand | upper}}', row)).toBe('ACME');
+            expect(evaluateTemplate('{{brand | lower}}', row)).toBe('acme');
+            expect(evaluateTemplate('{{t | capitalize}}', { t: 'hello big world' })).toBe('Hello Big World');
+            expect(evaluateTemplate('[{{t | trim}}]', { t: '  x  ' })).toBe('[x]');
+        });
+
+        it('should add prefixes and suffixes only to values', () => {
+            expect(evaluateTemplate("{{model | prefix:'Model '}}", row)).toBe('Model X200');
+            expect(evaluateTemplate("{{empty | prefix:'Model '}}", row)).toBe('');
+            expect(evaluateTemplate("{{price | suffix:' USD'}}", row)).toBe('1299.5 USD');
+        });
+
+        it('should chain filters left to right', () => {
+            expect(evaluateTemplate('{{title | truncate:10 | upper}}', row)).toBe('HANDMADE…');
+            expect(evaluateTemplate("{{empty | default:'10' | currency:'USD'}}", row)).toBe('$10.00');
+        });
+
+        it('should allow "}}" and "|" inside quoted arguments', () => {
+            expect(evaluateTemplate("{{empty | default:'a}}b|c'}}!", row)).toBe('a}}b|c!');
+            expect(evaluateTemplate("{{empty | default:'it\\'s'}}", row)).toBe("it's");
+        });
+    });
+
+    describe('separator groups', () => {
+        it('should join tags with the separator only when both have values', () => {
+            expect(evaluateTemplate('{{brand}} – {{model}}', row)).toBe('Acme – X200');
+            expect(evaluateTemplate('{{brand}} – {{empty}}', row)).toBe('Acme');
+            expect(evaluateTemplate('{{empty}} – {{model}}', row)).toBe('X200');
+            expect(evaluateTemplate('{{empty}} – {{missing}}', row)).toBe('');
+        });
+
+        it('should keep the remaining separators when a middle value is empty', () => {
+            expect(evaluateTemplate('{{brand}}, {{empty}}, {{model}}', row)).toBe('Acme, X200');
+            expect(evaluateTemplate('{{empty}}, {{brand}} | {{model}}', row)).toBe('Acme | X200');
+        });
+
+        it('should keep text around the group', () => {
+            expect(evaluateTemplate('By {{brand}} / {{empty}}.', row)).toBe('By Acme.');
+        });
+
+        it('should not treat words between tags as separators', () => {
+            expect(evaluateTemplate('{{brand}} and {{empty}}', row)).toBe('Acme and ');
+            expect(evaluateTemplate('{{brand}} 2 {{empty}}', row)).toBe('Acme 2 ');
+        });
+
+        it('should group across line breaks', () => {
+            expect(evaluateTemplate('{{brand}}\n{{empty}}', row)).toBe('Acme');
+        });
+    });
+
+    describe('validateTemplate', () => {
+        it('should accept valid templates', () => {
+            expect(validateTemplate("{{title | truncate:60}} {{price | currency:'USD' | default:'Free'}}")).toEqual([]);
+            expect(validateTemplate('No tags')).toEqual([]);
+        });
+
+        it('should suggest the closest filter for typos', () => {
+            const [error] = validateTemplate('Hi {{title | truncat:60}}');
+            expect(error.message).toBe('Unknown filter "truncat" - did you mean "truncate"?');
+            expect(error.tag).toBe('{{title | truncat:60}}');
+            expect(error.index).toBe(3);
+        });
+
+        it('should list filters when nothing is close', () => {
+            expect(validateTemplate('{{a | sparkle}}')[0].message).toMatch(/Unknown filter "sparkle" \(available: default, currency/);
+        });
+
+        it('should report missing and extra arguments', () => {
+            expect(validateTemplate('{{a | truncate}}')[0].message).toBe('truncate takes 1 to 2 arguments (e.g. truncate:60)');
+            expect(validateTemplate("{{a | upper:'x'}}")[0].message).toBe('upper takes 0 arguments (e.g. upper)');
+            expect(validateTemplate('{{a | default:}}')[0].message).toBe('default: Missing argument after ":" or ","');
+        });
+
+        it('should validate argument values', () => {
+            expect(validateTemplate('{{a | truncate:0}}')[0].message).toMatch(/whole number above 0/);
+            expect(validateTemplate("{{a | currency:'dollars'}}")[0].message).toMatch(/not a currency code/);
+            expect(validateTemplate("{{a | currency:'USD', 'not a locale!'}}")[0].message).toMatch(/not a valid locale/);
+            expect(validateTemplate('{{a | number:20}}')[0].message).toMatch(/0 to 10/);
+        });
+
+        it('should report syntax errors', () => {
+            expect(validateTemplate('{{}}')[0].message).toMatch(/Empty tag/);
+            expect(validateTemplate('{{ | upper}}')[0].message).toMatch(/Missing field name/);
+            expect(validateTemplate('{{a | }}')[0].message).toMatch(/Missing filter name/);
+            expect(validateTemplate('{{a | truncate 60}}')[0].message).toMatch(/Expected ":" after "truncate"/);
+            expect(validateTemplate("{{a | default:'x}}")[0].message).toMatch(/closing quote/);
+            expect(validateTemplate('{{a | default:two words}}')[0].message).toMatch(/Put text arguments in quotes/);
+            expect(validateTemplate('{{a {{b}}')[0].message).toMatch(/Missing "}}" before the next "{{"/);
+            expect(validateTemplate('Hello {{name')[0].message).toBe('Missing closing "}}"');
+        });
+
+        it('should report every broken tag', () => {
+            const errors = validateTemplate('{{a | nope}} ok {{b | upper:1}}');
+            expect(errors.map(e => e.tag)).toEqual(['{{a | nope}}', '{{b | upper:1}}']);
+        });
+    });
+
+    describe('rendering broken templates', () => {
+        it('should render invalid tags as empty values', () => {
+            expect(evaluateTemplate('{{brand | nope}} – {{model}}', row)).toBe('X200');
+        });
+
+        it('should keep an unclosed tag as literal text', () => {
+            expect(evaluateTemplate('{{brand}} {{model', row)).toBe('Acme {{model');
+        });
+    });
+
+    describe('extractTemplateFields', () => {
+        it('should list fields of valid tags in order, without duplicates', () => {
+            expect(extractTemplateFields("{{price | currency:'USD'}} {{title}} {{price}} {{bad | nope}}"))
+                .toEqual(['price', 'title']);
+            expect(extractTemplateFields('plain')).toEqual([]);
+        });
+    });
+
+    describe('helpers', () => {
+        it('should look up mapped, direct and missing fields', () => {
+            expect(lookupFieldValue('a', { col: '1' }, { a: 'col' })).toBe('1');
+            expect(lookupFieldValue('a', { a: '2' }, {})).toBe('2');
+            expect(lookupFieldValue('a', {}, {})).toBe('');
+        });
+
+        it('should parse formatted numbers', () => {
+            expect(parseNumber('$1,299.00')).toBe(1299);
+            expect(parseNumber('15 %')).toBe(15);
+            expect(parseNumber('-3.5')).toBe(-3.5);
+            expect(parseNumber('abc')).toBeNull();
+            expect(parseNumber('')).toBeNull();
+        });
+    });
+
+    describe('replaceDynamicFields', () => {
+        it('should render expressions for both renderers', () => {
+            expect(replaceDynamicFields("{{brand}} – {{price | currency:'USD'}}", row, {})).toBe('Acme – $1,299.50');
+        });
+    });
+});
@@ -0,0 +1,266 @@
+import type * as fabric from 'fabric';
+import {
+    applyFrameLayouts,
+    applyFrameLayoutToElements,
+    computeFrameLayout,
+    getFramesInnermostFirst,
+    resolveFramesForRow,
+} from '../frame-shared';
+import { Element, FrameElement, ShapeElement, TextElement } from '@/types/editor';
+
+const makeFrame = (overrides: Partial<FrameElement> = {}): FrameElement => ({
+    id: 'frame',
+    name: 'Frame 1',
+    type: 'frame',
+    x: 100,
+    y: 100,
+    width: 400,
+    height: 200,
+    rotation: 0,
+    opacity: 1,
+    locked: false,
+    visible: true,
+    zIndex: 0,
+    layoutDirection: 'horizontal',
+    layoutGap: 10,
+    layoutPadding: 20,
+    layoutAlign: 'start',
+    fill: '#ffffff',
+    stroke: '',
+    strokeWidth: 0,
+    cornerRadius: 0,
+    childIds: [],
+    ...overrides,
+});
+
+const makeShape = (id: string, overrides: Partial<ShapeElement> = {}): ShapeElement => ({
+    id,
+    name: id,
+    type: 'shape',
+    shapeType: 'rect',
+    x: 0,
+    y: 0,
+    width: 100,
+    height: 50,
+    rotation: 0,
+    opacity: 1,
+    locked: false,
+    visible: true,
+    zIndex: 1,
+    fill: '#ff0000',
+    stroke: '',
+    strokeWidth: 0,
+    ...overrides,
+});
+
+const makeText = (id: string, overrides: Partial<TextElement> = {}): TextElement => ({
+    id,
+    name: id,
+    type: 'text',
+    x: 0,
+    y: 0,
+    width: 200,
+    height: 30,
+    rotation: 0,
+    opacity: 1,
+    locked: false,
+    visible: true,
+    zIndex: 1,
+    text: 'Title',
+    fontFamily: 'Inter',
+    fontSize: 24,
+    fontStyle: 'normal',
+    fill: '#000000',
+    align: 'left',
+    verticalAlign: 'top',
+    lineHeight: 1.2,
+    letterSpacing: 0,
+    textDecoration: '',
+    isDynamic: false,
+    ...overrides,
+});
+
+// Minimal stand-in for drawn Fabric objects
+const drawn = (props: Record<string, unknown>) => {
+    const obj: Record<string, unknown> = {
+        scaleX: 1,
+        scaleY: 1,
+        ...props,
+        set(values: Record<string, unknown>) {
+            Object.assign(obj, values);
+        },
+    };
+    return obj as unknown as fabric.FabricObject;
+};
+
+const fabricStub = {
+    Rect: jest.fn().mockImplementation((options) => drawn({ type: 'rect', ...options })),
+} as unknown as Pick<typeof fabric, 'Rect'>;
+
+describe('frame-shared', () => {
+    describe('computeFrameLayout', () => {
+        const items = [
+            { id: 'a', width: 100, height: 50 },
+            { id: 'b', width: 60, height: 80 },
+        ];
+
+        it('should flow children horizontally with padding and gap', () => {
+            const layout = computeFrameLayout(makeFrame(), items);
+
+            expect(layout.children.get('a')).toEqual({ x: 120, y: 120, width: 100, height: 50 });
+            expect(layout.children.get('b')).toEqual({ x: 230, y: 120, width: 60, height: 80 });
+            expect(layout.frame).toEqual({ x: 100, y: 100, width: 400, height: 200 });
+        });
+
+        it('should flow children vertically', () => {
+            const layout = computeFrameLayout(makeFrame({ layoutDirection: 'vertical' }), items);
+
+            expect(layout.children.get('b')).toMatchObject({ x: 120, y: 180 });
+        });
+
+        it('should align and stretch across the flow', () => {
+            const center = computeFrameLayout(makeFrame({ layoutAlign: 'center' }), items);
+            expect(center.children.get('a')?.y).toBe(175);
+
+            const end = computeFrameLayout(makeFrame({ layoutAlign: 'end' }), items);
+            expect(end.children.get('b')?.y).toBe(200);
+
+            const stretch = computeFrameLayout(makeFrame({ layoutAlign: 'stretch' }), items);
+            expect(stretch.children.get('a')?.height).toBe(160);
+        });
+
+        it('should hug its content', () => {
+            const layout = computeFrameLayout(
+                makeFrame({ layoutSizingHorizontal: 'hug', layoutSizingVertical: 'hug' }),
+                items
+            );
+
+            expect(layout.frame).toEqual({ x: 100, y: 100, width: 210, height: 120 });
+        });
+
+        it('should share leftover space between fill children', () => {
+            const layout = computeFrameLayout(makeFrame(), [
+                { id: 'a', width: 100, height: 50 },
+                { id: 'b', width: 10, height: 50, fill: true },
+                { id: 'c', width: 10, height: 50, fill: true },
+            ]);
+
+            // 360 inside - 100 - 2 gaps = 240, split in two
+            expect(layout.children.get('b')).toMatchObject({ x: 230, width: 120 });
+            expect(layout.children.get('c')).toMatchObject({ x: 360, width: 120 });
+        });
+
+        it('should wrap onto new lines', () => {
+            const layout = computeFrameLayout(
+                makeFrame({ width: 300, layoutWrap: true, layoutSizingVertical: 'hug' }),
+                [
+                    { id: 'a', width: 150, height: 40 },
+                    { id: 'b', width: 150, height: 60 },
+                    { id: 'c', width: 50, height: 30 },
+                ]
+            );
+
+            expect(layout.children.get('b')).toMatchObject({ x: 120, y: 170 });
+            expect(layout.children.get('c')).toMatchObject({ x: 280, y: 170 });
+            expect(layout.frame.height).toBe(150);
+        });
+    });
+
+    describe('structure', () => {
+        it('should order nested frames before their parents', () => {
+            const inner = makeFrame({ id: 'inner', childIds: ['a'] });
+            const outer = makeFrame({ id: 'outer', childIds: ['inner'] });
+
+            expect(getFramesInnermostFirst([outer, inner, makeShape('a')]).map(f => f.id)).toEqual(['inner', 'outer']);
+        });
+
+        it('should hide the contents of frames hidden for the row', () => {
+            const frame = makeFrame({
+                childIds: ['a'],
+                visibilityRule: { action: 'show', field: 'price', operator: 'is_not_empty' },
+            });
+            const elements: Element[] = [frame, makeShape('a'), makeShape('b')];
+
+            expect(resolveFramesForRow(elements, { price: '' }).map(el => el.id)).toEqual(['frame', 'b']);
+            expect(resolveFramesForRow(elements, { price: '5' })).toBe(elements);
+        });
+    });
+
+    describe('applyFrameLayoutToElements', () => {
+        it('should move children and resize a hugging frame', () => {
+            const frame = makeFrame({ childIds: ['a', 'b'], layoutSizingHorizontal: 'hug' });
+            const result = applyFrameLayoutToElements([frame, makeShape('a'), makeShape('b', { x: 500 })], 'frame');
+
+            expect(result.find(el => el.id === 'a')).toMatchObject({ x: 120, y: 120 });
+            expect(result.find(el => el.id === 'b')).toMatchObject({ x: 230, y: 120 });
+            expect(result.find(el => el.id === 'frame')?.width).toBe(250);
+        });
+    });
+
+    describe('applyFrameLayouts', () => {
+        it('should push siblings along when text wraps taller', () => {
+            const frame = makeFrame({ layoutDirection: 'vertical', childIds: ['title', 'badge'] });
+            const title = makeText('title', { x: 120, y: 120 });
+            const badge = makeShape('badge', { x: 120, y: 160 });
+
+            const titleObj = drawn({ type: 'textbox', left: 120, top: 120, width: 200, height: 90 });
+            const badgeObj = drawn({ type: 'rect', left: 120, top: 160, width: 100, height: 50 });
+            const frameObj = drawn({ type: 'rect', left: 100, top: 100, width: 400, height: 200 });
+
+            applyFrameLayouts(fabricStub, [frame, title, badge], new Map([
+                ['frame', [frameObj]],
+                ['title', [titleObj]],
+                ['badge', [badgeObj]],
+            ]));
+
+            // 120 + 90 (three wrapped lines) + 10 gap
+            expect(badgeObj.top).toBe(220);
+            expect(titleObj.top).toBe(120);
+        });
+
+        it('should close the gap left by a child hidden for the row', () => {
+            const frame = makeFrame({ childIds: ['a', 'b'] });
+            const bObj = drawn({ type: 'rect', left: 230, top: 120, width: 100, height: 50 });
+
+            applyFrameLayouts(fabricStub, [frame, makeShape('a'), makeShape('b', { x: 230, y: 120 })], new Map([
+                ['frame', [drawn({ type: 'rect', left: 100, top: 100 })]],
+                ['b', [bObj]],
+            ]));
+
+            expect(bObj.left).toBe(120);
+        });
+
+        it('should resize a hugging frame background and clip its contents', () => {
+            const frame = makeFrame({
+                childIds: ['a'],
+                layoutSizingHorizontal: 'hug',
+                layoutSizingVertical: 'hug',
+                clipContent: true,
+            });
+            const frameObj = drawn({ type: 'rect', left: 100, top: 100, width: 400, height: 200 });
+            const aObj = drawn({ type: 'rect', left: 0, top: 0, width: 100, height: 50 });
+
+            applyFrameLayouts(fabricStub, [frame, makeShape('a')], new Map([
+                ['frame', [frameObj]],
+                ['a', [aObj]],
+            ]));
+
+            expect(frameObj).toMatchObject({ width: 140, height: 90 });
+            expect(aObj.clipPath).toMatchObject({ left: 100, top: 100, width: 140, height: 90, absolutePositioned: true });
+        });
+
+        it('should move nested frames with everything inside them', () => {
+            const inner = makeFrame({ id: 'inner', x: 0, y: 0, width: 140, height: 90, layoutPadding: 0, childIds: ['a'] });
+            const outer = makeFrame({ id: 'outer', childIds: ['inner'] });
+            const aObj = drawn({ type: 'rect', left: 0, top: 0, width: 100, height: 50 });
+
+            applyFrameLayouts(fabricStub, [outer, inner, makeShape('a')], new Map([
+                ['outer', [drawn({ type: 'rect', left: 100, top: 100 })]],
+                ['inner', [drawn({ type: 'rect', left: 0, top: 0 })]],
+                ['a', [aObj]],
+            ]));
+
+            expect(aObj).toMatchObject({ left: 120, top: 120 });
+        });
+    });
+});
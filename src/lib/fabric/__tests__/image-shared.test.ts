@@ -0,0 +1,217 @@
+import {
+    buildImageFilters,
+    applyImageFilters,
+    createImageClipPath,
+    FabricImageContext,
+    findSalientFocalPoint,
+    getCoverPlacement,
+    parseFocalPoint,
+    resolveImageFocus,
+} from '../image-shared';
+import { ImageElement } from '@/types/editor';
+
+// Minimal Fabric namespace stand-in - the helpers only touch filters and Rect
+const makeFilter = (type: string) =>
+    jest.fn().mockImplementation((options) => ({ type, ...options }));
+
+const mockFabric = {
+    filters: {
+        Brightness: makeFilter('Brightness'),
+        Contrast: makeFilter('Contrast'),
+        Saturation: makeFilter('Saturation'),
+        Blur: makeFilter('Blur'),
+    },
+    Rect: jest.fn().mockImplementation((options) => ({ type: 'rect', ...options })),
+} as unknown as FabricImageContext;
+
+const makeImage = (overrides: Partial<ImageElement> = {}): ImageElement => ({
+    id: 'img',
+    name: 'Image',
+    type: 'image',
+    x: 0,
+    y: 0,
+    width: 100,
+    height: 100,
+    rotation: 0,
+    opacity: 1,
+    locked: false,
+    visible: true,
+    zIndex: 0,
+    imageUrl: '',
+    fitMode: 'cover',
+    cornerRadius: 0,
+    isDynamic: false,
+    ...overrides,
+});
+
+// Flat grey RGBA image with a bright square of detail at (left, top)
+const makePixels = (width: number, height: number, square: { left: number; top: number; size: number }) => {
+    const data = new Uint8ClampedArray(width * height * 4).fill(128);
+    for (let y = square.top; y < square.top + square.size; y++) {
+        for (let x = square.left; x < square.left + square.size; x++) {
+            const value = (x + y) % 2 === 0 ? 255 : 0;
+            data.fill(value, (y * width + x) * 4, (y * width + x) * 4 + 3);
+        }
+    }
+    return data;
+};
+
+describe('image-shared', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe('buildImageFilters', () => {
+        it('should return an empty chain when no filters are set', () => {
+            expect(buildImageFilters(mockFabric, undefined)).toEqual([]);
+            expect(buildImageFilters(mockFabric, { brightness: 0, blur: 0 })).toEqual([]);
+        });
+
+        it('should build filters in a fixed order', () => {
+            const chain = buildImageFilters(mockFabric, {
+                blur: 0.2,
+                saturation: -0.5,
+                contrast: 0.3,
+                brightness: 0.1,
+            });
+
+            expect(chain.map((f) => (f as unknown as { type: string }).type)).toEqual([
+                'Brightness',
+                'Contrast',
+                'Saturation',
+                'Blur',
+            ]);
+        });
+
+        it('should clamp values to Fabric ranges', () => {
+            const chain = buildImageFilters(mockFabric, { brightness: 4, blur: -1, contrast: -3 });
+
+            expect(chain).toEqual([
+                { type: 'Brightness', brightness: 1 },
+                { type: 'Contrast', contrast: -1 },
+            ]);
+        });
+    });
+
+    describe('applyImageFilters', () => {
+        it('should set filters and apply them to the image', () => {
+            const img = { filters: [], applyFilters: jest.fn() };
+
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            applyImageFilters(mockFabric, img as any, { contrast: 0.5 });
+
+            expect(img.filters).toEqual([{ type: 'Contrast', contrast: 0.5 }]);
+            expect(img.applyFilters).toHaveBeenCalledTimes(1);
+        });
+
+        it('should leave the image untouched without filters', () => {
+            const img = { filters: [], applyFilters: jest.fn() };
+
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            applyImageFilters(mockFabric, img as any, {});
+
+            expect(img.applyFilters).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('createImageClipPath', () => {
+        it('should create an absolute rounded clip rect for the element frame', () => {
+            const clip = createImageClipPath(mockFabric, { x: 20, y: 30, cornerRadius: 12 }, 100, 80);
+
+            expect(clip).toEqual({
+                type: 'rect',
+                left: 20,
+                top: 30,
+                width: 100,
+                height: 80,
+                rx: 12,
+                ry: 12,
+                absolutePositioned: true,
+            });
+        });
+
+        it('should create square corners without a radius', () => {
+            const clip = createImageClipPath(mockFabric, { x: 0, y: 0, cornerRadius: 0 }, 50, 50);
+
+            expect(clip).toMatchObject({ rx: 0, ry: 0 });
+        });
+    });
+
+    describe('parseFocalPoint', () => {
+        it('should read percentages', () => {
+            expect(parseFocalPoint('30,70')).toEqual({ x: 30, y: 70 });
+            expect(parseFocalPoint(' 25% 10.5% ')).toEqual({ x: 25, y: 10.5 });
+        });
+
+        it('should read keywords', () => {
+            expect(parseFocalPoint('top')).toEqual({ x: 50, y: 0 });
+            expect(parseFocalPoint('Bottom Left')).toEqual({ x: 0, y: 100 });
+            expect(parseFocalPoint('center')).toEqual({ x: 50, y: 50 });
+            expect(parseFocalPoint('smart')).toBe('smart');
+        });
+
+        it('should reject anything else', () => {
+            expect(parseFocalPoint('')).toBeNull();
+            expect(parseFocalPoint('150,20')).toBeNull();
+            expect(parseFocalPoint('somewhere')).toBeNull();
+        });
+    });
+
+    describe('resolveImageFocus', () => {
+        const dynamic = { isDynamic: true, dynamicSource: 'image1' };
+
+        it('should prefer a valid value from the row', () => {
+            const element = makeImage({ ...dynamic, focalPoint: { x: 10, y: 10 }, smartCrop: true });
+
+            expect(resolveImageFocus(element, { image1_focus: '80,20' })).toEqual({ x: 80, y: 20 });
+            expect(resolveImageFocus(element, { image1_focus: 'nonsense' })).toBe('smart');
+        });
+
+        it('should read an explicit column through the field mapping', () => {
+            const element = makeImage({ focalPointField: '{{focus}}' });
+
+            expect(resolveImageFocus(element, { 'Crop Focus': 'right' }, { focus: 'Crop Focus' })).toEqual({ x: 100, y: 50 });
+        });
+
+        it('should fall back to the element focal point, then the center', () => {
+            expect(resolveImageFocus(makeImage({ focalPoint: { x: 10, y: 90 } }), {})).toEqual({ x: 10, y: 90 });
+            expect(resolveImageFocus(makeImage(), {})).toEqual({ x: 50, y: 50 });
+        });
+    });
+
+    describe('getCoverPlacement', () => {
+        it('should center by default', () => {
+            // 200x100 into 100x100: scale 1, 100px of overflow
+            expect(getCoverPlacement(200, 100, 100, 100)).toEqual({ scale: 1, offsetX: 50, offsetY: 0 });
+        });
+
+        it('should keep the focal point in view without leaving gaps', () => {
+            expect(getCoverPlacement(200, 100, 100, 100, { x: 60, y: 50 }).offsetX).toBe(70);
+            expect(getCoverPlacement(200, 100, 100, 100, { x: 0, y: 50 }).offsetX).toBe(0);
+            expect(getCoverPlacement(200, 100, 100, 100, { x: 100, y: 50 }).offsetX).toBe(100);
+        });
+    });
+
+    describe('findSalientFocalPoint', () => {
+        it('should slide a wide crop towards the detail', () => {
+            const pixels = makePixels(60, 20, { left: 44, top: 5, size: 10 });
+            const point = findSalientFocalPoint(pixels, 60, 20, 1);
+
+            expect(point.y).toBe(50);
+            expect(point.x).toBeGreaterThan(70);
+        });
+
+        it('should slide a tall crop towards the detail', () => {
+            const pixels = makePixels(20, 60, { left: 5, top: 2, size: 10 });
+            const point = findSalientFocalPoint(pixels, 20, 60, 1);
+
+            expect(point.x).toBe(50);
+            expect(point.y).toBeLessThan(30);
+        });
+
+        it('should stay centered on a flat image', () => {
+            const flat = new Uint8ClampedArray(40 * 20 * 4).fill(128);
+            expect(findSalientFocalPoint(flat, 40, 20, 1)).toEqual({ x: 50, y: 50 });
+        });
+    });
+});
@@ -0,0 +1,162 @@
+/**
+ * Render Parity Tests
+ *
+ * Renders fixture templates through the shared engine (editor preview) and
+ * the server engine (/api/v1/generate, Inngest batches) and compares the
+ * resulting pixels. Requires the native `canvas` binding; skipped when it
+ * isn't built (e.g. installs with --ignore-scripts).
+ */
+
+import { Element, ImageElement, ShapeElement } from '@/types/editor';
+
+// The shared engine imports 'fabric' (browser build) - point it at the Node build
+jest.mock('fabric', () => jest.requireActual('fabric/node'));
+
+const hasNativeCanvas = (() => {
+    try {
+        // eslint-disable-next-line @typescript-eslint/no-require-imports
+        require('canvas');
+        return true;
+    } catch {
+        return false;
+    }
+})();
+
+const describeParity = hasNativeCanvas ? describe : describe.skip;
+
+const WIDTH = 200;
+const HEIGHT = 200;
+
+/** Per-channel difference below which two pixels count as equal (anti-aliasing noise) */
+const CHANNEL_TOLERANCE = 8;
+/** Maximum share of differing pixels allowed per fixture */
+const MAX_DIFF_RATIO = 0.005;
+
+const baseImage = (overrides: Partial<ImageElement>): ImageElement => ({
+    id: 'img',
+    name: 'Image',
+    type: 'image',
+    x: 20,
+    y: 20,
+    width: 160,
+    height: 120,
+    rotation: 0,
+    opacity: 1,
+    locked: false,
+    visible: true,
+    zIndex: 1,
+    fitMode: 'fill',
+    cornerRadius: 0,
+    isDynamic: false,
+    ...overrides,
+});
+
+const backgroundRect: ShapeElement = {
+    id: 'bg',
+    name: 'Background',
+    type: 'shape',
+    shapeType: 'rect',
+    x: 0,
+    y: 0,
+    width: WIDTH,
+    height: HEIGHT,
+    rotation: 0,
+    opacity: 1,
+    locked: false,
+    visible: true,
+    zIndex: 0,
+    fill: '#1e3a8a',
+    stroke: '',
+    strokeWidth: 0,
+};
+
+function countDiffPixels(a: Uint8ClampedArray, b: Uint8ClampedArray): number {
+    let diff = 0;
+    for (let i = 0; i < a.length; i += 4) {
+        if (
+            Math.abs(a[i] - b[i]) > CHANNEL_TOLERANCE ||
+            Math.abs(a[i + 1] - b[i + 1]) > CHANNEL_TOLERANCE ||
+            Math.abs(a[i + 2] - b[i + 2]) > CHANNEL_TOLERANCE ||
+            Math.abs(a[i + 3] - b[i + 3]) > CHANNEL_TOLERANCE
+        ) {
+            diff++;
+        }
+    }
+    return diff;
+}
+
+describeParity('Render parity (shared engine vs server engine)', () => {
+    let fabricNode: typeof import('fabric/node');
+    let engine: typeof import('../engine');
+    let serverEngine: typeof import('../serverEngine');
+    let fixtureImageUrl: string;
+
+    beforeAll(async () => {
+        fabricNode = await import('fabric/node');
+        engine = await import('../engine');
+        serverEngine = await import('../serverEngine');
+
+        // Four-quadrant source image so fit offsets, clipping and filters all show up
+        const source = new fabricNode.StaticCanvas(undefined, { width: 120, height: 80 });
+        source.add(new fabricNode.Rect({ left: 0, top: 0, width: 60, height: 40, fill: '#ef4444' }));
+        source.add(new fabricNode.Rect({ left: 60, top: 0, width: 60, height: 40, fill: '#22c55e' }));
+        source.add(new fabricNode.Rect({ left: 0, top: 40, width: 60, height: 40, fill: '#3b82f6' }));
+        source.add(new fabricNode.Rect({ left: 60, top: 40, width: 60, height: 40, fill: '#facc15' }));
+        source.renderAll();
+        fixtureImageUrl = source.toDataURL({ format: 'png', multiplier: 1 });
+        source.dispose();
+    });
+
+    const renderShared = async (elements: Element[]): Promise<Uint8ClampedArray> => {
+        const canvas = new fabricNode.StaticCanvas(undefined, { width: WIDTH, height: HEIGHT });
+        await engine.renderTemplate(canvas as unknown as Parameters<typeof engine.renderTemplate>[0], elements, {
+            width: WIDTH,
+            height: HEIGHT,
+            backgroundColor: '#ffffff',
+        });
+        const data = canvas.getContext().getImageData(0, 0, WIDTH, HEIGHT).data;
+        canvas.dispose();
+        return data;
+    };
+
+    const renderServer = async (elements: Element[]): Promise<Uint8ClampedArray> => {
+        const canvas = new fabricNode.StaticCanvas(undefined, { width: WIDTH, height: HEIGHT });
+        await serverEngine.renderTemplateServer(canvas, elements, {
+            width: WIDTH,
+            height: HEIGHT,
+            backgroundColor: '#ffffff',
+        });
+        const data = canvas.getContext().getImageData(0, 0, WIDTH, HEIGHT).data;
+        canvas.dispose();
+        return data;
+    };
+
+    const fixtures: Array<[string, Partial<ImageElement>]> = [
+        ['fill with rounded corners', { fitMode: 'fill', cornerRadius: 24 }],
+        ['cover with rounded corners', { fitMode: 'cover', cornerRadius: 32, height: 160 }],
+        ['contain with rounded corners', { fitMode: 'contain', cornerRadius: 16 }],
+        ['brightness and contrast', { filters: { brightness: 0.2, contrast: 0.3 } }],
+        ['saturation', { filters: { saturation: -0.8 } }],
+        ['blur with rounded corners', { cornerRadius: 20, filters: { blur: 0.1 } }],
+    ];
+
+    it.each(fixtures)('should match for %s', async (_name, overrides) => {
+        const elements: Element[] = [backgroundRect, baseImage({ imageUrl: fixtureImageUrl, ...overrides })];
+
+        const shared = await renderShared(elements);
+        const server = await renderServer(elements);
+
+        const diffRatio = countDiffPixels(shared, server) / (WIDTH * HEIGHT);
+        expect(diffRatio).toBeLessThanOrEqual(MAX_DIFF_RATIO);
+    });
+
+    it('should actually apply filters on the server', async () => {
+        const plain = await renderServer([backgroundRect, baseImage({ imageUrl: fixtureImageUrl })]);
+        const filtered = await renderServer([
+            backgroundRect,
+            baseImage({ imageUrl: fixtureImageUrl, filters: { brightness: 0.5 } }),
+        ]);
+
+        expect(countDiffPixels(plain, filtered)).toBeGreaterThan(0);
+    });
+});
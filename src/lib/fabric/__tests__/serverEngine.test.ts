@@ -0,0 +1,206 @@
+import { renderTemplateServer } from '../serverEngine';
+import { FrameElement, GroupElement, ShapeElement } from '@/types/editor';
+
+// Mock Fabric.js Node build - capture constructor arguments as plain objects
+jest.mock('fabric/node', () => ({
+    StaticCanvas: jest.fn(),
+    Textbox: jest.fn().mockImplementation((text, options) => ({ type: 'textbox', text, ...options })),
+    FabricImage: { fromURL: jest.fn() },
+    Rect: jest.fn().mockImplementation((options) => ({ type: 'rect', ...options })),
+    Circle: jest.fn().mockImplementation((options) => ({ type: 'circle', ...options })),
+    Line: jest.fn().mockImplementation((points, options) => ({ type: 'line', points, ...options })),
+    Path: jest.fn().mockImplementation((path, options) => ({ type: 'path', path, ...options })),
+    Color: jest.fn(),
+    filters: {},
+}));
+
+// AutoFitText pulls in the browser build; not exercised by shape rendering
+jest.mock('fabric', () => ({}));
+
+describe('Server Engine (shapes)', () => {
+    let mockCanvas: {
+        add: jest.Mock;
+        renderAll: jest.Mock;
+        backgroundColor: string;
+    };
+
+    const createShape = (overrides: Partial<ShapeElement> = {}): ShapeElement => ({
+        id: '1',
+        name: 'Shape',
+        type: 'shape',
+        shapeType: 'rect',
+        x: 100,
+        y: 200,
+        width: 300,
+        height: 40,
+        rotation: 0,
+        opacity: 1,
+        locked: false,
+        visible: true,
+        zIndex: 0,
+        fill: '#ff0000',
+        stroke: '#000000',
+        strokeWidth: 4,
+        ...overrides,
+    });
+
+    const renderOne = async (element: ShapeElement) => {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        await renderTemplateServer(mockCanvas as any, [element], { width: 1000, height: 1500 });
+        expect(mockCanvas.add).toHaveBeenCalledTimes(1);
+        return mockCanvas.add.mock.calls[0][0];
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        mockCanvas = {
+            add: jest.fn(),
+            renderAll: jest.fn(),
+            backgroundColor: '',
+        };
+    });
+
+    it('should render a line from absolute endpoints', async () => {
+        const line = await renderOne(createShape({ shapeType: 'line', points: [0, 20, 300, 20] }));
+
+        expect(line.type).toBe('line');
+        expect(line.points).toEqual([100, 220, 400, 220]);
+        expect(line.stroke).toBe('#000000');
+        expect(line.strokeWidth).toBe(4);
+        expect(line.fill).toBeNull();
+        expect(line.left).toBeUndefined();
+    });
+
+    it('should default a line without points to the top edge', async () => {
+        const line = await renderOne(createShape({ shapeType: 'line' }));
+
+        expect(line.points).toEqual([100, 200, 400, 200]);
+    });
+
+    it('should fall back to the fill color for lines without a stroke', async () => {
+        const line = await renderOne(createShape({ shapeType: 'line', stroke: '', strokeWidth: 0 }));
+
+        expect(line.stroke).toBe('#ff0000');
+        expect(line.strokeWidth).toBe(1);
+    });
+
+    it('should render an arrow as a stroked path with a head at the end point', async () => {
+        const arrow = await renderOne(createShape({
+            shapeType: 'arrow',
+            points: [0, 0, 100, 0],
+            strokeWidth: 2,
+        }));
+
+        expect(arrow.type).toBe('path');
+        expect(arrow.fill).toBeNull();
+        expect(arrow.stroke).toBe('#000000');
+        // Shaft, then chevron ending at the tip (200, 200)
+        expect(arrow.path).toMatch(/^M 100 200 L 200 200 M [\d.]+ [\d.]+ L 200 200 L [\d.]+ [\d.]+$/);
+    });
+
+    it('should pass dash, cap and join settings through', async () => {
+        const line = await renderOne(createShape({
+            shapeType: 'line',
+            strokeDashArray: [12, 6],
+            strokeLineCap: 'round',
+            strokeLineJoin: 'bevel',
+        }));
+
+        expect(line.strokeDashArray).toEqual([12, 6]);
+        expect(line.strokeLineCap).toBe('round');
+        expect(line.strokeLineJoin).toBe('bevel');
+    });
+
+    it('should apply stroke properties to rects and circles', async () => {
+        const rect = await renderOne(createShape({ strokeDashArray: [4, 4], cornerRadius: 8 }));
+        expect(rect.type).toBe('rect');
+        expect(rect.strokeDashArray).toEqual([4, 4]);
+        expect(rect.rx).toBe(8);
+
+        mockCanvas.add.mockClear();
+        const circle = await renderOne(createShape({ shapeType: 'circle', strokeLineCap: 'square' }));
+        expect(circle.type).toBe('circle');
+        expect(circle.radius).toBe(150);
+        expect(circle.strokeLineCap).toBe('square');
+    });
+
+    it('should treat empty dash arrays and "none" strokes as solid/no stroke', async () => {
+        const path = await renderOne(createShape({
+            shapeType: 'path',
+            pathData: 'M 0 0 L 10 10',
+            stroke: 'none',
+            strokeDashArray: [],
+        }));
+
+        expect(path.type).toBe('path');
+        expect(path.stroke).toBeNull();
+        expect(path.strokeDashArray).toBeNull();
+    });
+
+    it('should skip elements whose visibility rule hides them for the row', async () => {
+        const badge = createShape({ visibilityRule: { action: 'show', field: 'price', operator: 'is_not_empty' } });
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        await renderTemplateServer(mockCanvas as any, [badge], { width: 1000, height: 1500 }, { price: '' });
+        expect(mockCanvas.add).not.toHaveBeenCalled();
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        await renderTemplateServer(mockCanvas as any, [badge], { width: 1000, height: 1500 }, { price: '9.99' });
+        expect(mockCanvas.add).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fill bound colors and opacity from the row', async () => {
+        const badge = createShape({
+            styleBindings: {
+                fill: { field: 'accent', fallback: '#00ff00' },
+                opacity: { field: 'strength' },
+            },
+        });
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        await renderTemplateServer(mockCanvas as any, [badge], { width: 1000, height: 1500 }, { accent: '0af', strength: '50%' });
+        expect(mockCanvas.add.mock.calls[0][0].fill).toBe('#0af');
+        expect(mockCanvas.add.mock.calls[0][0].opacity).toBe(0.5);
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        await renderTemplateServer(mockCanvas as any, [badge], { width: 1000, height: 1500 }, { accent: 'teal', strength: '2' });
+        expect(mockCanvas.add.mock.calls[1][0].fill).toBe('#00ff00');
+        expect(mockCanvas.add.mock.calls[1][0].opacity).toBe(1);
+    });
+
+    it('should draw frames without editor chrome', async () => {
+        const frame: FrameElement = {
+            id: 'frame', name: 'Frame 1', type: 'frame', childIds: [],
+            x: 0, y: 0, width: 300, height: 100, rotation: 0, opacity: 1,
+            locked: false, visible: true, zIndex: 0,
+            layoutDirection: 'horizontal', layoutGap: 8, layoutPadding: 8, layoutAlign: 'start',
+            fill: '', stroke: '#cccccc', strokeWidth: 0, cornerRadius: 4,
+        };
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        await renderTemplateServer(mockCanvas as any, [frame], { width: 1000, height: 1500 });
+        const rect = mockCanvas.add.mock.calls[0][0];
+        expect(rect.strokeDashArray).toBeUndefined();
+        expect(rect.stroke).toBeNull();
+        expect(rect.fill).toBe('');
+    });
+
+    it('should apply group visibility and opacity to members', async () => {
+        const member = createShape({ id: 'member', opacity: 0.8 });
+        const group: GroupElement = {
+            id: 'group', name: 'Group 1', type: 'group', childIds: ['member'],
+            x: 0, y: 0, width: 300, height: 300, rotation: 0, opacity: 0.5,
+            locked: false, visible: true, zIndex: 2,
+            visibilityRule: { action: 'show', field: 'price', operator: 'is_not_empty' },
+        };
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        await renderTemplateServer(mockCanvas as any, [member, group], { width: 1000, height: 1500 }, { price: '' });
+        expect(mockCanvas.add).not.toHaveBeenCalled();
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        await renderTemplateServer(mockCanvas as any, [member, group], { width: 1000, height: 1500 }, { price: '9.99' });
+        expect(mockCanvas.add).toHaveBeenCalledTimes(1);
+        expect(mockCanvas.add.mock.calls[0][0].opacity).toBeCloseTo(0.4);
+    });
+});
@@ -0,0 +1,153 @@
+import {
+    parseColorValue,
+    parseOpacityValue,
+    isValidStyleValue,
+    resolveStyleBindings,
+    applyStyleBindings,
+    extractStyleBindingFields,
+} from '../style-shared';
+import { ImageElement, ShapeElement, TextElement } from '@/types/editor';
+
+const base = {
+    id: '1',
+    name: 'Layer',
+    x: 0,
+    y: 0,
+    width: 100,
+    height: 100,
+    rotation: 0,
+    opacity: 1,
+    locked: false,
+    visible: true,
+    zIndex: 0,
+};
+
+const shape = (overrides: Partial<ShapeElement> = {}): ShapeElement => ({
+    ...base,
+    type: 'shape',
+    shapeType: 'rect',
+    fill: '#ff0000',
+    stroke: '#000000',
+    strokeWidth: 0,
+    ...overrides,
+});
+
+describe('style-shared', () => {
+    describe('parseColorValue', () => {
+        it('should normalize hex colors with or without "#"', () => {
+            expect(parseColorValue('#FF6600')).toBe('#ff6600');
+            expect(parseColorValue('f60')).toBe('#f60');
+            expect(parseColorValue(' #ff660080 ')).toBe('#ff660080');
+        });
+
+        it('should normalize rgb() and rgba() colors', () => {
+            expect(parseColorValue('rgb(255,102,0)')).toBe('rgb(255, 102, 0)');
+            expect(parseColorValue('RGBA(255, 102, 0, 0.5)')).toBe('rgba(255, 102, 0, 0.5)');
+            expect(parseColorValue('rgb(255 102 0 / 50%)')).toBe('rgba(255, 102, 0, 0.5)');
+        });
+
+        it('should reject anything else', () => {
+            expect(parseColorValue('')).toBeNull();
+            expect(parseColorValue('orange')).toBeNull();
+            expect(parseColorValue('#ff66')).toBe('#ff66');
+            expect(parseColorValue('#ff660')).toBeNull();
+            expect(parseColorValue('rgb(256, 0, 0)')).toBeNull();
+            expect(parseColorValue('rgb(1.5, 0, 0)')).toBeNull();
+            expect(parseColorValue('rgba(0, 0, 0, 2)')).toBeNull();
+            expect(parseColorValue('rgb(0, 0)')).toBeNull();
+        });
+    });
+
+    describe('parseOpacityValue', () => {
+        it('should read fractions and percentages', () => {
+            expect(parseOpacityValue('0.25')).toBe(0.25);
+            expect(parseOpacityValue('1')).toBe(1);
+            expect(parseOpacityValue(' 40% ')).toBe(0.4);
+        });
+
+        it('should reject out-of-range and non-numeric values', () => {
+            expect(parseOpacityValue('')).toBeNull();
+            expect(parseOpacityValue('1.5')).toBeNull();
+            expect(parseOpacityValue('-0.1')).toBeNull();
+            expect(parseOpacityValue('120%')).toBeNull();
+            expect(parseOpacityValue('half')).toBeNull();
+        });
+
+        it('should validate by kind', () => {
+            expect(isValidStyleValue('color', '#000')).toBe(true);
+            expect(isValidStyleValue('color', '0.5')).toBe(false);
+            expect(isValidStyleValue('opacity', '0.5')).toBe(true);
+        });
+    });
+
+    describe('resolveStyleBindings', () => {
+        const bound = shape({
+            styleBindings: {
+                fill: { field: 'accent', fallback: '#222222' },
+                opacity: { field: 'alpha' },
+            },
+        });
+
+        it('should use valid row values', () => {
+            expect(resolveStyleBindings(bound, { accent: 'rgb(0,0,255)', alpha: '0.5' }))
+                .toEqual({ fill: 'rgb(0, 0, 255)', opacity: 0.5 });
+        });
+
+        it('should use the fallback, then nothing, for invalid values', () => {
+            expect(resolveStyleBindings(bound, { accent: 'blue', alpha: 'lots' })).toEqual({ fill: '#222222' });
+        });
+
+        it('should read the mapped column', () => {
+            expect(resolveStyleBindings(bound, { 'Brand Color': '#0f0' }, { accent: 'Brand Color' }))
+                .toEqual({ fill: '#0f0' });
+        });
+
+        it('should accept fields written as {{tags}}', () => {
+            const tagged = shape({ styleBindings: { fill: { field: '{{accent}}' } } });
+            expect(resolveStyleBindings(tagged, { accent: '#abc' })).toEqual({ fill: '#abc' });
+        });
+
+        it('should resolve nothing without row data', () => {
+            expect(resolveStyleBindings(bound)).toEqual({});
+            expect(applyStyleBindings(bound)).toBe(bound);
+        });
+
+        it('should ignore properties the element type cannot bind', () => {
+            const image = {
+                ...base,
+                type: 'image',
+                imageUrl: '',
+                fitMode: 'cover',
+                styleBindings: { fill: { field: 'accent' }, opacity: { field: 'alpha' } },
+            } as ImageElement;
+            expect(resolveStyleBindings(image, { accent: '#000', alpha: '0.3' })).toEqual({ opacity: 0.3 });
+        });
+
+        it('should return a patched copy of the element', () => {
+            const patched = applyStyleBindings(bound, { accent: '#123456', alpha: '1' });
+            expect(patched).not.toBe(bound);
+            expect(patched.fill).toBe('#123456');
+            expect(bound.fill).toBe('#ff0000');
+        });
+    });
+
+    describe('extractStyleBindingFields', () => {
+        it('should list each bound field once with its value kind', () => {
+            const text = {
+                ...base,
+                id: '2',
+                name: 'Title',
+                type: 'text',
+                text: 'Hi',
+                styleBindings: { backgroundColor: { field: 'badge_bg' }, opacity: { field: 'alpha' } },
+            } as unknown as TextElement;
+            const bound = shape({ name: 'Badge', styleBindings: { fill: { field: 'accent' }, opacity: { field: 'alpha' } } });
+
+            expect(extractStyleBindingFields([bound, text])).toEqual([
+                { field: 'accent', kind: 'color', layerName: 'Badge' },
+                { field: 'alpha', kind: 'opacity', layerName: 'Badge' },
+                { field: 'badge_bg', kind: 'color', layerName: 'Title' },
+            ]);
+        });
+    });
+});
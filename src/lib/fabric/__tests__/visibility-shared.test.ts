@@ -0,0 +1,80 @@
+import { evaluateVisibilityRule, isElementVisibleForRow } from '../visibility-shared';
+import { Element, VisibilityRule } from '@/types/editor';
+
+const makeElement = (overrides: Partial<Element> = {}): Element => ({
+    id: 'badge',
+    name: 'Sale badge',
+    type: 'shape',
+    shapeType: 'rect',
+    x: 0,
+    y: 0,
+    width: 100,
+    height: 40,
+    rotation: 0,
+    opacity: 1,
+    locked: false,
+    visible: true,
+    zIndex: 1,
+    fill: '#ff0000',
+    stroke: '',
+    strokeWidth: 0,
+    ...overrides,
+} as Element);
+
+describe('visibility-shared', () => {
+    describe('evaluateVisibilityRule', () => {
+        it('should check empty and non-empty fields', () => {
+            const notEmpty: VisibilityRule = { action: 'show', field: 'price', operator: 'is_not_empty' };
+
+            expect(evaluateVisibilityRule(notEmpty, { price: '19.99' })).toBe(true);
+            expect(evaluateVisibilityRule(notEmpty, { price: '   ' })).toBe(false);
+            expect(evaluateVisibilityRule(notEmpty, {})).toBe(false);
+            expect(evaluateVisibilityRule({ ...notEmpty, operator: 'is_empty' }, { price: '' })).toBe(true);
+        });
+
+        it('should compare text ignoring case and braces', () => {
+            const rule: VisibilityRule = { action: 'hide', field: '{{category}}', operator: 'equals', value: 'free' };
+
+            expect(evaluateVisibilityRule(rule, { category: 'FREE' })).toBe(true);
+            expect(evaluateVisibilityRule(rule, { category: 'paid' })).toBe(false);
+            expect(evaluateVisibilityRule({ ...rule, operator: 'not_equals' }, { category: 'paid' })).toBe(true);
+            expect(evaluateVisibilityRule({ ...rule, operator: 'contains', value: 'sale' }, { category: 'Summer Sale' })).toBe(true);
+        });
+
+        it('should compare formatted numbers', () => {
+            const rule: VisibilityRule = { action: 'show', field: 'price', operator: 'greater_than', value: '1000' };
+
+            expect(evaluateVisibilityRule(rule, { price: '$1,299.00' })).toBe(true);
+            expect(evaluateVisibilityRule({ ...rule, operator: 'less_than' }, { price: '$1,299.00' })).toBe(false);
+            expect(evaluateVisibilityRule(rule, { price: 'call us' })).toBe(false);
+        });
+
+        it('should resolve fields through the field mapping', () => {
+            const rule: VisibilityRule = { action: 'show', field: 'price', operator: 'is_not_empty' };
+
+            expect(evaluateVisibilityRule(rule, { 'Sale Price': '5' }, { price: 'Sale Price' })).toBe(true);
+        });
+    });
+
+    describe('isElementVisibleForRow', () => {
+        const showWhenPrice: VisibilityRule = { action: 'show', field: 'price', operator: 'is_not_empty' };
+        const hideWhenFree: VisibilityRule = { action: 'hide', field: 'category', operator: 'equals', value: 'free' };
+
+        it('should apply show and hide rules', () => {
+            expect(isElementVisibleForRow(makeElement({ visibilityRule: showWhenPrice }), { price: '10' })).toBe(true);
+            expect(isElementVisibleForRow(makeElement({ visibilityRule: showWhenPrice }), { price: '' })).toBe(false);
+            expect(isElementVisibleForRow(makeElement({ visibilityRule: hideWhenFree }), { category: 'free' })).toBe(false);
+            expect(isElementVisibleForRow(makeElement({ visibilityRule: hideWhenFree }), { category: 'shoes' })).toBe(true);
+        });
+
+        it('should ignore rules without row data', () => {
+            expect(isElementVisibleForRow(makeElement({ visibilityRule: showWhenPrice }))).toBe(true);
+            expect(isElementVisibleForRow(makeElement({ visibilityRule: showWhenPrice }), {})).toBe(true);
+        });
+
+        it('should never show elements hidden in the editor', () => {
+            expect(isElementVisibleForRow(makeElement({ visible: false }), { price: '10' })).toBe(false);
+            expect(isElementVisibleForRow(makeElement({ visible: false, visibilityRule: showWhenPrice }), { price: '10' })).toBe(false);
+        });
+    });
+});
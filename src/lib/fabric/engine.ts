@@ -1,6 +1,21 @@
 import * as fabric from 'fabric';
 import { Element, TextElement, ImageElement, ShapeElement, FrameElement } from '@/types/editor';
 import { getImageCache } from '@/lib/canvas/ImagePreloadCache';
+import {
+  applyImageFilters,
+  createImageClipPath,
+  DEFAULT_FOCAL_POINT,
+  FocalPoint,
+  getCoverPlacement,
+  resolveImageFocus,
+  resolveRowImageUrl,
+} from './image-shared';
+import { isElementVisibleForRow } from './visibility-shared';
+import { replaceDynamicFields } from './text-shared';
+import { applyStyleBindings } from './style-shared';
+import { resolveGroupsForRow } from './group-shared';
+import { applyFrameLayouts, hasFrameLayouts, resolveFramesForRow } from './frame-shared';
+import { getShapeStrokeOptions, getLinePoints, buildArrowPathData } from './shape-shared';
 
 // Debug flag for verbose logging - disabled in production for performance
 const DEBUG_RENDER = process.env.NODE_ENV === 'development' || process.env.DEBUG_RENDER === 'true';
@@ -15,6 +30,14 @@ let serverImageCache: Map<string, string> | null = null;
 // Level 2: URL → FabricImage object (populated on first load, cloned for reuse)
 let fabricImageCache: Map<string, fabric.FabricImage> | null = null;
 
+// Cache misses on the server: URL → data URL, registered by the server
+// (the SSRF-safe image cache lives in Node-only code this module can't import)
+let serverImageLoader: ((url: string) => Promise<string>) | null = null;
+
+export function setServerImageLoader(loader: ((url: string) => Promise<string>) | null): void {
+    serverImageLoader = loader;
+}
+
 /**
  * MERGE new images into the server image cache (don't replace!)
  * This is critical for concurrent batch rendering - each batch adds its images
@@ -132,37 +155,18 @@ async function loadImageToCanvas(url: string, options: Partial<fabric.ImageProps
         }
     }
 
-    // Node/Server Logic - fetch images directly (no CORS restrictions on server)
+    // Node/Server Logic - load through the registered server loader (no CORS restrictions on server)
     if (!isBrowser) {
+        if (url.startsWith('data:')) {
+            try { return await tryLoad(url); }
+            catch { return createErrorPlaceholder(options.width as number, options.height as number); }
+        }
+        if (!serverImageLoader) {
+            console.error(`[Engine] No server image loader registered, skipping: ${url.substring(0, 60)}`);
+            return createErrorPlaceholder(options.width as number, options.height as number);
+        }
         try {
-            // Handle proxy URLs on server - extract the original URL and fetch directly
-            // Server doesn't have CORS restrictions, so we can fetch external images directly
-            let fetchUrl = url;
-            if (url.startsWith('/api/proxy-image')) {
-                // Extract the original URL from the proxy URL
-                const urlParams = new URLSearchParams(url.split('?')[1] || '');
-                const originalUrl = urlParams.get('url');
-                if (originalUrl) {
-                    fetchUrl = decodeURIComponent(originalUrl);
-                }
-            }
-            
-            // Add browser-like headers to bypass CDN restrictions
-            // Note: Some CDNs (like Midjourney) block server-side requests regardless of headers
-            const response = await fetch(fetchUrl, {
-                headers: {
-                    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-                    'Accept': 'image/avif,image/webp,image/apng,image/svg+xml,image/*,*/*;q=0.8',
-                },
-            });
-            if (!response.ok) {
-                console.warn(`[Engine] Image fetch failed (${response.status}): ${fetchUrl.substring(0, 80)}`);
-                throw new Error(`Failed to fetch image: ${response.status}`);
-            }
-            const arrayBuffer = await response.arrayBuffer();
-            const base64 = Buffer.from(arrayBuffer).toString('base64');
-            const dataUrl = `data:${response.headers.get('content-type') || 'image/png'};base64,${base64}`;
-            return await tryLoad(dataUrl);
+            return await tryLoad(await serverImageLoader(url));
         } catch (error) {
             console.error(`[Engine] Server image load failed for ${url.substring(0, 60)}:`, error);
             return createErrorPlaceholder(options.width as number, options.height as number);
@@ -191,20 +195,6 @@ async function loadImageToCanvas(url: string, options: Partial<fabric.ImageProps
     }
 }
 
-function replaceDynamicFields(text: string, rowData: Record<string, string>, fieldMapping: FieldMapping): string {
-    let result = text;
-    const matches = text.match(/\{\{([^}]+)\}\}/g);
-    if (matches) {
-        matches.forEach((match) => {
-            const fieldName = match.replace(/\{\{|\}\}/g, '').trim();
-            const csvColumn = fieldMapping[fieldName];
-            if (csvColumn && rowData[csvColumn] !== undefined) result = result.replace(match, rowData[csvColumn]);
-            else result = result.replace(match, '');
-        });
-    }
-    return result;
-}
-
 export function getDynamicImageUrl(element: ImageElement, rowData: Record<string, string>, fieldMapping: FieldMapping): string {
     const src = element.imageUrl || '';
     
@@ -224,13 +214,7 @@ export function getDynamicImageUrl(element: ImageElement, rowData: Record<string
         return `/api/proxy-image?url=${needsEncoding ? encodeURIComponent(src) : src}`;
     }
 
-    if (element.isDynamic && element.dynamicSource) {
-        const col = fieldMapping[element.dynamicSource];
-        if (col && rowData[col]) return rowData[col];
-        if (rowData[element.dynamicSource]) return rowData[element.dynamicSource];
-    }
-    if (src.includes('{{')) return replaceDynamicFields(src, rowData, fieldMapping);
-    return src;
+    return resolveRowImageUrl(element, rowData, fieldMapping);
 }
 
 /**
@@ -262,10 +246,12 @@ function applyTextTransform(
  * 
  * @param img - Fabric image object
  * @param imageEl - Image element from template
+ * @param focalPoint - Point kept in view when 'cover' crops
  */
 function applyImageFitMode(
   img: fabric.FabricImage,
-  imageEl: ImageElement
+  imageEl: ImageElement,
+  focalPoint: FocalPoint = DEFAULT_FOCAL_POINT
 ): void {
   const targetWidth = imageEl.width || img.width;
   const targetHeight = imageEl.height || img.height;
@@ -299,14 +285,8 @@ function applyImageFitMode(
     }
     
   } else if (fitMode === 'cover') {
-    // COVER MODE: Scale uniformly to cover, then clip overflow
-    const scale = Math.max(targetWidth / naturalWidth, targetHeight / naturalHeight);
-    
-    const scaledWidth = naturalWidth * scale;
-    const scaledHeight = naturalHeight * scale;
-    
-    const offsetX = (scaledWidth - targetWidth) / 2;
-    const offsetY = (scaledHeight - targetHeight) / 2;
+    // COVER MODE: Scale uniformly to cover, keep the focal point in view, then clip overflow
+    const { scale, offsetX, offsetY } = getCoverPlacement(naturalWidth, naturalHeight, targetWidth, targetHeight, focalPoint);
     
     img.set({
       left: imageEl.x - offsetX,
@@ -317,13 +297,7 @@ function applyImageFitMode(
       opacity: imageEl.opacity ?? 1,
       originX: 'left',
       originY: 'top',
-      clipPath: new fabric.Rect({
-        left: imageEl.x,
-        top: imageEl.y,
-        width: targetWidth,
-        height: targetHeight,
-        absolutePositioned: true,
-      }),
+      clipPath: createImageClipPath(fabric, imageEl, targetWidth, targetHeight),
     });
     
     if (DEBUG_RENDER) {
@@ -357,16 +331,10 @@ function applyImageFitMode(
   
   // Apply corner radius if specified (only for fill/contain, cover uses clipPath already)
   if (imageEl.cornerRadius && fitMode !== 'cover') {
-    img.clipPath = new fabric.Rect({
-      left: imageEl.x,
-      top: imageEl.y,
-      width: targetWidth,
-      height: targetHeight,
-      rx: imageEl.cornerRadius,
-      ry: imageEl.cornerRadius,
-      absolutePositioned: true,
-    });
+    img.clipPath = createImageClipPath(fabric, imageEl, targetWidth, targetHeight);
   }
+
+  applyImageFilters(fabric, img, imageEl.filters);
 }
 
 /**
@@ -386,7 +354,9 @@ async function preloadImages(
   fieldMapping: FieldMapping
 ): Promise<Map<string, fabric.FabricImage>> {
   // STEP 1: Find all image elements
-  const imageElements = elements.filter(el => el.type === 'image' && el.visible) as ImageElement[];
+  const imageElements = elements.filter(
+    el => el.type === 'image' && isElementVisibleForRow(el, rowData, fieldMapping)
+  ) as ImageElement[];
   
   if (imageElements.length === 0) {
     return new Map();
@@ -456,7 +426,10 @@ async function createFabricObject(
     fieldMapping: FieldMapping,
     imageCache?: Map<string, fabric.FabricImage> // ← NEW: Optional cache for parallel loading
 ): Promise<fabric.FabricObject | null> {
-    if (!el.visible) return null;
+    if (!isElementVisibleForRow(el, rowData, fieldMapping)) return null;
+
+    // Colors/opacity bound to CSV columns
+    el = applyStyleBindings(el, rowData, fieldMapping);
 
     const commonOptions = {
         left: el.x, top: el.y, angle: el.rotation || 0, opacity: el.opacity ?? 1,
@@ -487,6 +460,7 @@ async function createFabricObject(
             fontWeight: textEl.fontWeight || 'normal',
             fontStyle: textEl.fontStyle?.includes('italic') ? 'italic' : 'normal',
             fill: textEl.fill || '#000000',
+            backgroundColor: textEl.backgroundColor || '',
             textAlign: textEl.align || 'left',
             lineHeight: textEl.lineHeight || 1.2,
         });
@@ -495,6 +469,9 @@ async function createFabricObject(
     }
     else if (el.type === 'image') {
         const imageEl = el as ImageElement;
+        // Smart crop reads pixels with node-canvas, so it only runs on the server
+        const focus = resolveImageFocus(imageEl, rowData, fieldMapping);
+        const focalPoint = focus === 'smart' ? imageEl.focalPoint ?? DEFAULT_FOCAL_POINT : focus;
         
         // STEP 1: Check cache first (images pre-loaded in parallel)
         if (imageCache && imageCache.has(el.id)) {
@@ -506,7 +483,7 @@ async function createFabricObject(
             }
             
             // Apply fit mode using extracted function
-            applyImageFitMode(img, imageEl);
+            applyImageFitMode(img, imageEl, focalPoint);
             
             fabricObject = img;
             
@@ -541,7 +518,7 @@ async function createFabricObject(
                     }
                     
                     // Apply fit mode using extracted function
-                    applyImageFitMode(img as fabric.FabricImage, imageEl);
+                    applyImageFitMode(img as fabric.FabricImage, imageEl, focalPoint);
                     
                     fabricObject = img;
                     
@@ -571,9 +548,28 @@ async function createFabricObject(
     }
     else if (el.type === 'shape') {
         const shapeEl = el as ShapeElement;
-        if (shapeEl.shapeType === 'rect') fabricObject = new fabric.Rect({ ...commonOptions, width: shapeEl.width, height: shapeEl.height, fill: shapeEl.fill, stroke: shapeEl.stroke, strokeWidth: shapeEl.strokeWidth, rx: shapeEl.cornerRadius, ry: shapeEl.cornerRadius });
-        else if (shapeEl.shapeType === 'circle') fabricObject = new fabric.Circle({ ...commonOptions, radius: (shapeEl.width || 0) / 2, fill: shapeEl.fill, stroke: shapeEl.stroke, strokeWidth: shapeEl.strokeWidth });
-        else if (shapeEl.shapeType === 'line') fabricObject = new fabric.Line(shapeEl.points as [number, number, number, number] || [0, 0, shapeEl.width, 0], { ...commonOptions, stroke: shapeEl.stroke, strokeWidth: shapeEl.strokeWidth });
+        const strokeOptions = getShapeStrokeOptions(shapeEl);
+        if (shapeEl.shapeType === 'rect') fabricObject = new fabric.Rect({ ...commonOptions, ...strokeOptions, width: shapeEl.width, height: shapeEl.height, fill: shapeEl.fill, rx: shapeEl.cornerRadius, ry: shapeEl.cornerRadius });
+        else if (shapeEl.shapeType === 'circle') fabricObject = new fabric.Circle({ ...commonOptions, ...strokeOptions, radius: (shapeEl.width || 0) / 2, fill: shapeEl.fill });
+        else if (shapeEl.shapeType === 'line' || shapeEl.shapeType === 'arrow') {
+            // Lines are stroke-only; fall back to the fill color for legacy elements without a stroke
+            const lineOptions = {
+                ...strokeOptions,
+                stroke: strokeOptions.stroke || shapeEl.fill || '#000000',
+                strokeWidth: strokeOptions.strokeWidth || 1,
+                fill: null,
+                angle: commonOptions.angle,
+                opacity: commonOptions.opacity,
+                selectable: commonOptions.selectable,
+                evented: commonOptions.evented,
+            };
+            const points = getLinePoints(shapeEl);
+
+            // Position comes from the absolute endpoints, so left/top are not passed
+            fabricObject = shapeEl.shapeType === 'arrow'
+                ? new fabric.Path(buildArrowPathData(points, lineOptions.strokeWidth), lineOptions)
+                : new fabric.Line(points, lineOptions);
+        }
         else if (shapeEl.shapeType === 'path') {
             // BUG-SVG-003 FIX: Validate pathData exists and is not empty
             if (!shapeEl.pathData || shapeEl.pathData.trim() === '') {
@@ -611,10 +607,12 @@ async function createFabricObject(
     }
     else if (el.type === 'frame') {
         const frameEl = el as FrameElement;
+        // Only the frame's own fill and border - no editor placeholder chrome
+        const hasStroke = !!frameEl.stroke && frameEl.strokeWidth > 0;
         fabricObject = new fabric.Rect({
             ...commonOptions, width: frameEl.width, height: frameEl.height,
-            fill: frameEl.fill || 'rgba(0,0,0,0.05)', stroke: frameEl.stroke || '#cccccc',
-            strokeWidth: frameEl.strokeWidth || 1, strokeDashArray: [5, 5],
+            fill: frameEl.fill || '', stroke: hasStroke ? frameEl.stroke : null,
+            strokeWidth: hasStroke ? frameEl.strokeWidth : 0,
             rx: frameEl.cornerRadius, ry: frameEl.cornerRadius,
         });
     }
@@ -647,6 +645,12 @@ export async function renderTemplate(
     const isBrowser = typeof window !== 'undefined' && typeof document !== 'undefined';
     if (isBrowser && !canvas.getElement()) return;
 
+    // Frames hide their contents with them; groups draw nothing themselves -
+    // apply their visibility and opacity to members
+    const layoutElements = elements;
+    const runLayout = hasFrameLayouts(elements);
+    elements = resolveGroupsForRow(resolveFramesForRow(elements, rowData, fieldMapping), rowData, fieldMapping);
+
     // 🔍 DEBUG: Canvas state before render
     if (DEBUG_RENDER) {
         console.log('[Render] 🎯 Canvas state BEFORE render:', {
@@ -668,8 +672,14 @@ export async function renderTemplate(
     }
 
     // 1. BUILD INDEX of existing canvas objects by elementId
+    // Auto-layout depends on every child's drawn size, so templates with frames
+    // are drawn from scratch (nothing is kept, so everything is removed below)
     const existingObjectsMap = new Map<string, fabric.FabricObject>();
     canvas.getObjects().forEach(obj => {
+        if (runLayout) {
+            canvas.remove(obj);
+            return;
+        }
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         const id = (obj as any).elementId;
         if (id) existingObjectsMap.set(id, obj);
@@ -698,6 +708,14 @@ export async function renderTemplate(
         if (obj) canvas.remove(obj);
     });
 
+    // 5b. REMOVE objects this row's data hides (element visibility rules)
+    elements.forEach(el => {
+        const obj = existingObjectsMap.get(el.id);
+        if (obj && !isElementVisibleForRow(el, rowData, fieldMapping)) {
+            canvas.remove(obj);
+        }
+    });
+
     // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
     // 🚀 PHASE 1: Pre-load all images in PARALLEL
     // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -716,6 +734,7 @@ export async function renderTemplate(
             sortedNewElements.map(el => `${el.name} (${el.type})`));
     }
 
+    const objectsById = new Map<string, fabric.FabricObject[]>();
     for (const el of sortedNewElements) {
         if (DEBUG_RENDER) {
             console.log(`[Render] Creating fabric object for: ${el.name} (${el.type}, id: ${el.id})`);
@@ -740,6 +759,7 @@ export async function renderTemplate(
             }
             
             canvas.add(fabricObj);
+            objectsById.set(el.id, [fabricObj]);
             
             if (DEBUG_RENDER) {
                 console.log(`[Render] ✅ Added element: ${el.name} (${el.type})`);
@@ -767,6 +787,11 @@ export async function renderTemplate(
         })));
     }
 
+    // 6b. LAY OUT frames around the sizes children actually drew at for this row
+    if (runLayout) {
+        applyFrameLayouts(fabric, layoutElements, objectsById);
+    }
+
     // 7. UPDATE canvas dimensions and background (safe, doesn't affect objects)
     canvas.setDimensions({ width: config.width, height: config.height });
     if (config.backgroundColor) canvas.backgroundColor = config.backgroundColor;
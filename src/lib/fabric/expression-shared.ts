@@ -0,0 +1,588 @@
+import type { FieldMapping } from './text-shared';
+
+/**
+ * Shared Template Expression Language
+ * Used by both Client (engine) and Server (serverEngine) through
+ * replaceDynamicFields, so dynamic text renders identically everywhere.
+ *
+ *   {{title}}                        value of a column (mapped column first)
+ *   {{price | currency:'USD'}}       filters run left to right
+ *   {{title | truncate:60, '...'}}   arguments are quoted text, numbers or bare words
+ *
+ * Tags separated only by spaces or punctuation ({{a}} – {{b}}) are joined as a
+ * group: an empty value drops out along with the separator in front of it.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export interface ExpressionError {
+    message: string;
+    /** The tag the error is in, e.g. "{{title | truncat:60}}" */
+    tag: string;
+    /** Offset of the tag in the template text */
+    index: number;
+}
+
+type FilterArg = string | number;
+
+interface FilterCall {
+    name: string;
+    args: FilterArg[];
+}
+
+type TemplateSegment =
+    | { type: 'text'; value: string }
+    | { type: 'expression'; field: string; filters: FilterCall[] }
+    // Tags that failed to parse render as empty values
+    | { type: 'invalid' };
+
+interface ParsedTemplate {
+    segments: TemplateSegment[];
+    errors: ExpressionError[];
+}
+
+interface FilterDefinition {
+    usage: string;
+    description: string;
+    minArgs: number;
+    maxArgs: number;
+    /** Describe what is wrong with the arguments (null when valid) */
+    validate?: (args: FilterArg[]) => string | null;
+    apply: (value: string, args: FilterArg[]) => string;
+}
+
+// ============================================
+// Value helpers
+// ============================================
+
+/**
+ * Value of a template field in a row: mapped column first, then the field name itself
+ */
+export function lookupFieldValue(
+    field: string,
+    rowData: Record<string, string>,
+    fieldMapping: FieldMapping
+): string {
+    const value = rowData[fieldMapping[field]] || rowData[field];
+    return value === undefined || value === null ? '' : String(value);
+}
+
+/**
+ * Number from spreadsheet-formatted text: "$1,299.00", "15 %"
+ * @returns null when the text isn't a number
+ */
+export function parseNumber(value: string): number | null {
+    const cleaned = value.replace(/[\s,$€£¥%]/g, '');
+    if (cleaned === '') return null;
+    const parsed = Number(cleaned);
+    return Number.isFinite(parsed) ? parsed : null;
+}
+
+const numberFormatCache = new Map<string, Intl.NumberFormat>();
+
+function getNumberFormat(locale: string, options: Intl.NumberFormatOptions): Intl.NumberFormat {
+    const key = `${locale}|${JSON.stringify(options)}`;
+    let format = numberFormatCache.get(key);
+    if (!format) {
+        format = new Intl.NumberFormat(locale, options);
+        numberFormatCache.set(key, format);
+    }
+    return format;
+}
+
+function validateLocale(locale: FilterArg | undefined): string | null {
+    if (locale === undefined) return null;
+    try {
+        new Intl.NumberFormat(String(locale));
+        return null;
+    } catch {
+        return `"${locale}" is not a valid locale`;
+    }
+}
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Longest tokens first so "MMMM" isn't read as "MM" + "MM"; [text] is literal
+const DATE_TOKENS = /\[([^\]]*)\]|yyyy|yy|MMMM|MMM|MM|M|dd|d|EEEE|EEE|HH|H|hh|h|mm|ss|a/g;
+
+/**
+ * Calendar date of an ISO date/datetime ("2026-03-02", "2026-03-02T18:30:00Z")
+ * The wall-clock time is taken as written (no timezone conversion) so the
+ * browser and the server print the same date.
+ */
+function parseDateValue(value: string): Date | null {
+    const match = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2}))?)?/.exec(value.trim());
+    if (!match) return null;
+
+    const [year, month, day, hour, minute, second] = match.slice(1).map(part => Number(part || 0));
+    const date = new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+    // Reject dates that rolled over, e.g. 2026-02-30
+    if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+    return date;
+}
+
+function formatDate(date: Date, pattern: string): string {
+    const hours = date.getUTCHours();
+    const pad = (n: number) => String(n).padStart(2, '0');
+
+    return pattern.replace(DATE_TOKENS, (token, literal: string | undefined) => {
+        if (literal !== undefined) return literal;
+        switch (token) {
+            case 'yyyy': return String(date.getUTCFullYear());
+            case 'yy': return String(date.getUTCFullYear()).slice(-2);
+            case 'MMMM': return MONTHS[date.getUTCMonth()];
+            case 'MMM': return MONTHS[date.getUTCMonth()].slice(0, 3);
+            case 'MM': return pad(date.getUTCMonth() + 1);
+            case 'M': return String(date.getUTCMonth() + 1);
+            case 'dd': return pad(date.getUTCDate());
+            case 'd': return String(date.getUTCDate());
+            case 'EEEE': return WEEKDAYS[date.getUTCDay()];
+            case 'EEE': return WEEKDAYS[date.getUTCDay()].slice(0, 3);
+            case 'HH': return pad(hours);
+            case 'H': return String(hours);
+            case 'hh': return pad(hours % 12 || 12);
+            case 'h': return String(hours % 12 || 12);
+            case 'mm': return pad(date.getUTCMinutes());
+            case 'ss': return pad(date.getUTCSeconds());
+            case 'a': return hours < 12 ? 'AM' : 'PM';
+            default: return token;
+        }
+    });
+}
+
+function truncate(value: string, length: number, ellipsis: string): string {
+    const chars = Array.from(value);
+    if (chars.length <= length) return value;
+
+    let cut = chars.slice(0, Math.max(0, length - Array.from(ellipsis).length)).join('');
+    // Prefer ending on a word boundary unless that throws away too much
+    const lastSpace = cut.lastIndexOf(' ');
+    if (lastSpace >= cut.length * 0.6) cut = cut.slice(0, lastSpace);
+    return cut.replace(/[\s,;:.\-–—]+$/, '') + ellipsis;
+}
+
+// ============================================
+// Filters
+// ============================================
+
+const FILTERS: Record<string, FilterDefinition> = {
+    default: {
+        usage: "default:'Our pick'",
+        description: 'Text to use when the value is empty',
+        minArgs: 1,
+        maxArgs: 1,
+        apply: (value, [fallback]) => value.trim() === '' ? String(fallback) : value,
+    },
+    currency: {
+        usage: "currency:'USD'",
+        description: 'Format a number as money (optional locale, e.g. currency:\'EUR\', \'de-DE\')',
+        minArgs: 1,
+        maxArgs: 2,
+        validate: ([code, locale]) => {
+            if (!/^[A-Za-z]{3}$/.test(String(code))) return `"${code}" is not a currency code (use e.g. 'USD')`;
+            return validateLocale(locale);
+        },
+        apply: (value, [code, locale = 'en-US']) => {
+            const amount = parseNumber(value);
+            if (amount === null) return value;
+            return getNumberFormat(String(locale), { style: 'currency', currency: String(code).toUpperCase() }).format(amount);
+        },
+    },
+    number: {
+        usage: 'number:2',
+        description: 'Format a number with thousands separators and a fixed number of decimals',
+        minArgs: 0,
+        maxArgs: 2,
+        validate: ([decimals, locale]) => {
+            if (decimals !== undefined) {
+                const n = Number(decimals);
+                if (!Number.isInteger(n) || n < 0 || n > 10) return 'Decimals must be a whole number from 0 to 10';
+            }
+            return validateLocale(locale);
+        },
+        apply: (value, [decimals, locale = 'en-US']) => {
+            const amount = parseNumber(value);
+            if (amount === null) return value;
+            const options: Intl.NumberFormatOptions = decimals === undefined
+                ? {}
+                : { minimumFractionDigits: Number(decimals), maximumFractionDigits: Number(decimals) };
+            return getNumberFormat(String(locale), options).format(amount);
+        },
+    },
+    truncate: {
+        usage: 'truncate:60',
+        description: 'Shorten to at most this many characters, ending with … (or a custom ending)',
+        minArgs: 1,
+        maxArgs: 2,
+        validate: ([length]) => {
+            const n = Number(length);
+            return Number.isInteger(n) && n > 0 ? null : 'Length must be a whole number above 0';
+        },
+        apply: (value, [length, ellipsis = '…']) => truncate(value, Number(length), String(ellipsis)),
+    },
+    format: {
+        usage: "format:'MMM d'",
+        description: 'Format an ISO date (yyyy, MMM, MM, d, EEE, h, mm, a; [text] is kept as is)',
+        minArgs: 1,
+        maxArgs: 1,
+        validate: ([pattern]) => String(pattern).trim() === '' ? 'Date pattern is empty' : null,
+        apply: (value, [pattern]) => {
+            const date = parseDateValue(value);
+            return date ? formatDate(date, String(pattern)) : value;
+        },
+    },
+    prefix: {
+        usage: "prefix:'Size '",
+        description: 'Add text before the value (only when there is a value)',
+        minArgs: 1,
+        maxArgs: 1,
+        apply: (value, [text]) => value.trim() === '' ? '' : String(text) + value,
+    },
+    suffix: {
+        usage: "suffix:' off'",
+        description: 'Add text after the value (only when there is a value)',
+        minArgs: 1,
+        maxArgs: 1,
+        apply: (value, [text]) => value.trim() === '' ? '' : value + String(text),
+    },
+    upper: {
+        usage: 'upper',
+        description: 'UPPERCASE',
+        minArgs: 0,
+        maxArgs: 0,
+        apply: (value) => value.toUpperCase(),
+    },
+    lower: {
+        usage: 'lower',
+        description: 'lowercase',
+        minArgs: 0,
+        maxArgs: 0,
+        apply: (value) => value.toLowerCase(),
+    },
+    capitalize: {
+        usage: 'capitalize',
+        description: 'Capitalize Each Word',
+        minArgs: 0,
+        maxArgs: 0,
+        apply: (value) => value.replace(/\b\w/g, (char) => char.toUpperCase()),
+    },
+    trim: {
+        usage: 'trim',
+        description: 'Remove surrounding whitespace',
+        minArgs: 0,
+        maxArgs: 0,
+        apply: (value) => value.trim(),
+    },
+};
+
+/** Filters for editor help text */
+export const EXPRESSION_FILTERS = Object.entries(FILTERS).map(([name, filter]) => ({
+    name,
+    usage: filter.usage,
+    description: filter.description,
+}));
+
+// Edit distance for "did you mean" hints
+function editDistance(a: string, b: string): number {
+    const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        let diagonal = row[0];
+        row[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const above = row[j];
+            row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+            diagonal = above;
+        }
+    }
+    return row[b.length];
+}
+
+function unknownFilterMessage(name: string): string {
+    const suggestion = Object.keys(FILTERS).find(known => editDistance(name.toLowerCase(), known) <= 2);
+    return suggestion
+        ? `Unknown filter "${name}" - did you mean "${suggestion}"?`
+        : `Unknown filter "${name}" (available: ${Object.keys(FILTERS).join(', ')})`;
+}
+
+// ============================================
+// Parsing
+// ============================================
+
+// Split on "|" outside quotes; a quote only opens after the field name
+function splitPipes(source: string): string[] | string {
+    const parts: string[] = [];
+    let current = '';
+    let quote: string | null = null;
+
+    for (let i = 0; i < source.length; i++) {
+        const ch = source[i];
+        if (quote) {
+            current += ch;
+            if (ch === '\\' && i + 1 < source.length) current += source[++i];
+            else if (ch === quote) quote = null;
+        } else if (ch === '|') {
+            parts.push(current);
+            current = '';
+        } else {
+            if ((ch === "'" || ch === '"') && parts.length > 0) quote = ch;
+            current += ch;
+        }
+    }
+    if (quote) return 'Text argument is missing its closing quote';
+    parts.push(current);
+    return parts;
+}
+
+function parseArgs(source: string): FilterArg[] | string {
+    const args: FilterArg[] = [];
+    let i = 0;
+    const skipSpace = () => { while (i < source.length && /\s/.test(source[i])) i++; };
+
+    while (true) {
+        skipSpace();
+        if (i >= source.length) return 'Missing argument after ":" or ","';
+
+        const ch = source[i];
+        if (ch === "'" || ch === '"') {
+            let value = '';
+            i++;
+            while (i < source.length && source[i] !== ch) {
+                if (source[i] === '\\' && i + 1 < source.length) i++;
+                value += source[i++];
+            }
+            i++; // closing quote (splitPipes already checked it exists)
+            args.push(value);
+        } else {
+            const end = source.indexOf(',', i);
+            const token = source.slice(i, end === -1 ? source.length : end).trim();
+            i = end === -1 ? source.length : end;
+            if (/^-?\d+(\.\d+)?$/.test(token)) args.push(Number(token));
+            else if (/^[\w.-]+$/.test(token)) args.push(token);
+            else return `Put text arguments in quotes: '${token}'`;
+        }
+
+        skipSpace();
+        if (i >= source.length) return args;
+        if (source[i] !== ',') return `Expected "," between arguments, found "${source[i]}"`;
+        i++;
+    }
+}
+
+function parseFilter(source: string): FilterCall | string {
+    const trimmed = source.trim();
+    if (trimmed === '') return 'Missing filter name after "|"';
+
+    const nameMatch = /^[A-Za-z_]\w*/.exec(trimmed);
+    if (!nameMatch) return `"${trimmed}" is not a filter name`;
+
+    const name = nameMatch[0];
+    const filter = FILTERS[name];
+    if (!filter) return unknownFilterMessage(name);
+
+    const rest = trimmed.slice(name.length).trim();
+    let args: FilterArg[] = [];
+    if (rest !== '') {
+        if (rest[0] !== ':') return `Expected ":" after "${name}", found "${rest[0]}"`;
+        const parsed = parseArgs(rest.slice(1));
+        if (typeof parsed === 'string') return `${name}: ${parsed}`;
+        args = parsed;
+    }
+
+    if (args.length < filter.minArgs || args.length > filter.maxArgs) {
+        const expected = filter.minArgs === filter.maxArgs
+            ? `${filter.minArgs} argument${filter.minArgs === 1 ? '' : 's'}`
+            : `${filter.minArgs} to ${filter.maxArgs} arguments`;
+        return `${name} takes ${expected} (e.g. ${filter.usage})`;
+    }
+
+    const problem = filter.validate?.(args);
+    return problem ? `${name}: ${problem}` : { name, args };
+}
+
+// Parse the inside of one {{ }} tag
+function parseExpression(source: string): { field: string; filters: FilterCall[] } | string {
+    if (source.includes('{{')) return 'Missing "}}" before the next "{{"';
+
+    const parts = splitPipes(source);
+    if (typeof parts === 'string') return parts;
+
+    const field = parts[0].trim();
+    if (field === '') return parts.length > 1 ? 'Missing field name before "|"' : 'Empty tag - add a field name';
+
+    const filters: FilterCall[] = [];
+    for (const part of parts.slice(1)) {
+        const filter = parseFilter(part);
+        if (typeof filter === 'string') return filter;
+        filters.push(filter);
+    }
+    return { field, filters };
+}
+
+// End of the tag opened at `open`, skipping "}}" inside quoted arguments
+function findTagEnd(text: string, open: number): number {
+    let quote: string | null = null;
+    let afterPipe = false;
+
+    for (let i = open + 2; i < text.length - 1; i++) {
+        const ch = text[i];
+        if (quote) {
+            if (ch === '\\') i++;
+            else if (ch === quote) quote = null;
+        } else if (ch === '}' && text[i + 1] === '}') {
+            return i;
+        } else if (ch === '|') {
+            afterPipe = true;
+        } else if ((ch === "'" || ch === '"') && afterPipe) {
+            quote = ch;
+        }
+    }
+    // Unterminated quote: fall back to the first "}}" so the error names the right tag
+    return text.indexOf('}}', open + 2);
+}
+
+function parseTemplate(text: string): ParsedTemplate {
+    const segments: TemplateSegment[] = [];
+    const errors: ExpressionError[] = [];
+    let cursor = 0;
+
+    while (cursor < text.length) {
+        const open = text.indexOf('{{', cursor);
+        if (open === -1) break;
+
+        const close = findTagEnd(text, open);
+        if (close === -1) {
+            errors.push({ message: 'Missing closing "}}"', tag: text.slice(open, open + 30), index: open });
+            break;
+        }
+
+        if (open > cursor) segments.push({ type: 'text', value: text.slice(cursor, open) });
+
+        const tag = text.slice(open, close + 2);
+        const parsed = parseExpression(text.slice(open + 2, close));
+        if (typeof parsed === 'string') {
+            errors.push({ message: parsed, tag, index: open });
+            segments.push({ type: 'invalid' });
+        } else {
+            segments.push({ type: 'expression', ...parsed });
+        }
+        cursor = close + 2;
+    }
+
+    if (cursor < text.length) segments.push({ type: 'text', value: text.slice(cursor) });
+    return { segments, errors };
+}
+
+// Templates repeat for every row of a campaign, so parse each once
+const MAX_CACHED_TEMPLATES = 500;
+const templateCache = new Map<string, ParsedTemplate>();
+
+function getParsedTemplate(text: string): ParsedTemplate {
+    let parsed = templateCache.get(text);
+    if (!parsed) {
+        parsed = parseTemplate(text);
+        if (templateCache.size >= MAX_CACHED_TEMPLATES) templateCache.clear();
+        templateCache.set(text, parsed);
+    }
+    return parsed;
+}
+
+// ============================================
+// Public API
+// ============================================
+
+/**
+ * Problems with the {{ }} tags of a template, for display in the editor
+ * Rendering never throws: tags with errors render as empty values.
+ */
+export function validateTemplate(text: string): ExpressionError[] {
+    if (!text || !text.includes('{{')) return [];
+    return getParsedTemplate(text).errors;
+}
+
+/**
+ * Field names used by a template's valid tags, in order of first use
+ */
+export function extractTemplateFields(text: string): string[] {
+    if (!text || !text.includes('{{')) return [];
+    const fields = getParsedTemplate(text).segments
+        .filter((segment): segment is Extract<TemplateSegment, { type: 'expression' }> => segment.type === 'expression')
+        .map(segment => segment.field);
+    return Array.from(new Set(fields));
+}
+
+// Literal text between two tags that only separates them (", ", " – ", " | ", line breaks)
+// i.e. no digits, no cased letters and no CJK characters
+function isSeparator(value: string): boolean {
+    if (value === '') return false;
+    return Array.from(value).every(ch =>
+        !/[0-9\u3040-\u9fff\uac00-\ud7af]/.test(ch) && ch.toLowerCase() === ch.toUpperCase()
+    );
+}
+
+function evaluateSegment(
+    segment: TemplateSegment,
+    rowData: Record<string, string>,
+    fieldMapping: FieldMapping
+): string {
+    if (segment.type === 'text') return segment.value;
+    if (segment.type === 'invalid') return '';
+
+    return segment.filters.reduce(
+        (value, call) => FILTERS[call.name].apply(value, call.args),
+        lookupFieldValue(segment.field, rowData, fieldMapping)
+    );
+}
+
+/**
+ * Render a template's {{ }} tags for a row
+ */
+export function evaluateTemplate(
+    text: string,
+    rowData: Record<string, string>,
+    fieldMapping: FieldMapping = {}
+): string {
+    if (!text) return '';
+    if (!text.includes('{{')) return text;
+
+    const { segments } = getParsedTemplate(text);
+    const output: string[] = [];
+    let i = 0;
+
+    while (i < segments.length) {
+        const segment = segments[i];
+        if (segment.type === 'text') {
+            output.push(segment.value);
+            i++;
+            continue;
+        }
+
+        // Group tags joined by separators: {{a}}, {{b}} – {{c}}
+        const values = [evaluateSegment(segment, rowData, fieldMapping)];
+        const separators = [''];
+        let next = i + 1;
+        while (
+            next + 1 < segments.length &&
+            segments[next].type === 'text' &&
+            segments[next + 1].type !== 'text' &&
+            isSeparator((segments[next] as { value: string }).value)
+        ) {
+            separators.push((segments[next] as { value: string }).value);
+            values.push(evaluateSegment(segments[next + 1], rowData, fieldMapping));
+            next += 2;
+        }
+
+        // Each kept value brings the separator in front of it, except the first
+        let first = true;
+        values.forEach((value, index) => {
+            if (value.trim() === '') return;
+            output.push(first ? value : separators[index] + value);
+            first = false;
+        });
+        i = next;
+    }
+
+    return output.join('');
+}
@@ -0,0 +1,421 @@
+import type * as fabric from 'fabric';
+import { Element, FrameElement, GroupElement } from '@/types/editor';
+import { FieldMapping } from './text-shared';
+import { isElementVisibleForRow } from './visibility-shared';
+
+/**
+ * Shared Auto-Layout Logic
+ * Used by the editor (store), Client (engine) and Server (serverEngine) so
+ * frames lay out their children the same way everywhere. The renderers run
+ * the layout per row after drawing, so children are measured at the size they
+ * actually render at (e.g. a title that wrapped onto a third line).
+ *
+ * Layout works on unrotated boxes; element and frame rotation is ignored.
+ */
+
+/** The slice of the Fabric namespace the layout pass needs */
+export type FabricLayoutContext = Pick<typeof fabric, 'Rect'>;
+
+export interface LayoutBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface LayoutItem {
+    id: string;
+    width: number;
+    height: number;
+    /** Takes a share of the leftover space along the frame's direction */
+    fill?: boolean;
+}
+
+export interface FrameLayout {
+    /** The frame's box (resized when it hugs its content) */
+    frame: LayoutBox;
+    /** Box of each child */
+    children: Map<string, LayoutBox>;
+}
+
+// --- 1. Layout ---
+
+/**
+ * Lay out children in a frame
+ * Children flow in order from the padded top-left corner, separated by the
+ * gap, and wrap onto new lines when the frame allows it. Across the flow they
+ * follow layoutAlign within their line ('stretch' sizes them to the line).
+ * Frames that hug grow or shrink to fit; fixed frames keep their size.
+ */
+export function computeFrameLayout(frame: FrameElement, items: LayoutItem[]): FrameLayout {
+    const horizontal = frame.layoutDirection !== 'vertical';
+    const padding = Math.max(0, frame.layoutPadding || 0);
+    const gap = Math.max(0, frame.layoutGap || 0);
+    const hugMain = (horizontal ? frame.layoutSizingHorizontal : frame.layoutSizingVertical) === 'hug';
+    const hugCross = (horizontal ? frame.layoutSizingVertical : frame.layoutSizingHorizontal) === 'hug';
+
+    const mainOf = (box: { width: number; height: number }) => (horizontal ? box.width : box.height);
+    const crossOf = (box: { width: number; height: number }) => (horizontal ? box.height : box.width);
+    const frameMain = mainOf(frame);
+    const frameCross = crossOf(frame);
+
+    // Room along the flow (unbounded when the frame hugs)
+    const available = hugMain ? Infinity : Math.max(0, frameMain - padding * 2);
+
+    // 1. Break children into lines
+    const lines: LayoutItem[][] = [];
+    let line: LayoutItem[] = [];
+    let lineMain = 0;
+    for (const item of items) {
+        const size = mainOf(item);
+        if (frame.layoutWrap && line.length > 0 && lineMain + gap + size > available) {
+            lines.push(line);
+            line = [];
+            lineMain = 0;
+        }
+        lineMain += (line.length > 0 ? gap : 0) + size;
+        line.push(item);
+    }
+    if (line.length > 0) lines.push(line);
+
+    // 2. Sizes along the flow: fill children share what the others leave over
+    const mainSizes = new Map<string, number>();
+    for (const current of lines) {
+        const fills = current.filter(item => item.fill);
+        const used = current.filter(item => !item.fill).reduce((sum, item) => sum + mainOf(item), 0)
+            + gap * (current.length - 1);
+        const share = fills.length > 0 && Number.isFinite(available)
+            ? Math.max(0, (available - used) / fills.length)
+            : null;
+        current.forEach(item => mainSizes.set(item.id, item.fill && share !== null ? share : mainOf(item)));
+    }
+
+    // 3. Line thickness; a single line in a fixed frame spans the whole inside
+    const lineCross = lines.map(current => Math.max(0, ...current.map(crossOf)));
+    if (lines.length === 1 && !hugCross) {
+        lineCross[0] = Math.max(0, frameCross - padding * 2);
+    }
+
+    // 4. Place children
+    const children = new Map<string, LayoutBox>();
+    let crossPos = padding;
+    let contentMain = 0;
+
+    lines.forEach((current, lineIndex) => {
+        let mainPos = padding;
+        current.forEach(item => {
+            const main = mainSizes.get(item.id)!;
+            let cross = crossOf(item);
+            let offset = 0;
+            if (frame.layoutAlign === 'center') offset = (lineCross[lineIndex] - cross) / 2;
+            else if (frame.layoutAlign === 'end') offset = lineCross[lineIndex] - cross;
+            else if (frame.layoutAlign === 'stretch') cross = lineCross[lineIndex];
+
+            children.set(item.id, horizontal
+                ? { x: frame.x + mainPos, y: frame.y + crossPos + offset, width: main, height: cross }
+                : { x: frame.x + crossPos + offset, y: frame.y + mainPos, width: cross, height: main });
+            mainPos += main + gap;
+        });
+        contentMain = Math.max(contentMain, mainPos - gap - padding);
+        crossPos += lineCross[lineIndex] + gap;
+    });
+
+    const contentCross = lines.length > 0 ? crossPos - gap - padding : 0;
+    const main = hugMain ? contentMain + padding * 2 : frameMain;
+    const cross = hugCross ? contentCross + padding * 2 : frameCross;
+
+    return {
+        frame: {
+            x: frame.x,
+            y: frame.y,
+            width: horizontal ? main : cross,
+            height: horizontal ? cross : main,
+        },
+        children,
+    };
+}
+
+// --- 2. Structure ---
+
+function getContainerChildIds(element: Element | undefined): string[] {
+    if (element?.type === 'frame') return (element as FrameElement).childIds || [];
+    if (element?.type === 'group') return (element as GroupElement).childIds || [];
+    return [];
+}
+
+/** Everything inside a frame or group, nested containers included */
+function getDescendantIds(id: string, elementsById: Map<string, Element>): string[] {
+    const result: string[] = [];
+    const seen = new Set<string>([id]);
+    const visit = (parentId: string) => {
+        for (const childId of getContainerChildIds(elementsById.get(parentId))) {
+            if (seen.has(childId) || !elementsById.has(childId)) continue;
+            seen.add(childId);
+            result.push(childId);
+            visit(childId);
+        }
+    };
+    visit(id);
+    return result;
+}
+
+/**
+ * Frames ordered so nested frames come before the frames containing them
+ * (a parent needs its nested frames' final size)
+ */
+export function getFramesInnermostFirst(elements: Element[]): FrameElement[] {
+    const elementsById = new Map(elements.map(el => [el.id, el]));
+    const ordered: FrameElement[] = [];
+    const visited = new Set<string>();
+
+    const visit = (el: Element) => {
+        if (visited.has(el.id)) return;
+        visited.add(el.id);
+        for (const childId of getContainerChildIds(el)) {
+            const child = elementsById.get(childId);
+            if (child) visit(child);
+        }
+        if (el.type === 'frame') ordered.push(el as FrameElement);
+    };
+    elements.forEach(visit);
+    return ordered;
+}
+
+/** Whether any frame has children to lay out */
+export function hasFrameLayouts(elements: Element[]): boolean {
+    return elements.some(el => el.type === 'frame' && ((el as FrameElement).childIds || []).length > 0);
+}
+
+/**
+ * Elements to draw for a row, without the contents of frames hidden for it
+ * (frames are containers - hiding one hides what's inside)
+ */
+export function resolveFramesForRow(
+    elements: Element[],
+    rowData: Record<string, string> = {},
+    fieldMapping: FieldMapping = {}
+): Element[] {
+    if (!hasFrameLayouts(elements)) return elements;
+
+    const elementsById = new Map(elements.map(el => [el.id, el]));
+    const hidden = new Set<string>();
+    elements.forEach(el => {
+        if (el.type !== 'frame' || isElementVisibleForRow(el, rowData, fieldMapping)) return;
+        getDescendantIds(el.id, elementsById).forEach(id => hidden.add(id));
+    });
+    return hidden.size > 0 ? elements.filter(el => !hidden.has(el.id)) : elements;
+}
+
+/** Children that can be resized to fill or stretch (text takes a new width only) */
+export function isLayoutResizable(element: Element): boolean {
+    return element.type === 'text' || element.type === 'shape';
+}
+
+/**
+ * Lay out a frame's children in the element list (editor)
+ * Uses the children's element sizes; renderers redo this per row with the
+ * sizes they actually draw at. Moving a child frame or group moves what's
+ * inside it.
+ * @returns Updated elements, or the same array when the frame has no children
+ */
+export function applyFrameLayoutToElements(elements: Element[], frameId: string): Element[] {
+    const elementsById = new Map(elements.map(el => [el.id, el]));
+    const frame = elementsById.get(frameId);
+    if (!frame || frame.type !== 'frame') return elements;
+
+    const children = (frame as FrameElement).childIds
+        .map(id => elementsById.get(id))
+        .filter((child): child is Element => !!child);
+    if (children.length === 0) return elements;
+
+    const layout = computeFrameLayout(frame as FrameElement, children.map(child => ({
+        id: child.id,
+        width: child.width,
+        height: child.height,
+        fill: child.layoutSizing === 'fill' && isLayoutResizable(child),
+    })));
+
+    const updates = new Map<string, Partial<Element>>();
+    updates.set(frameId, { width: layout.frame.width, height: layout.frame.height });
+
+    for (const child of children) {
+        const target = layout.children.get(child.id)!;
+        const dx = target.x - child.x;
+        const dy = target.y - child.y;
+        const update: Partial<Element> = { x: target.x, y: target.y };
+        if (isLayoutResizable(child)) {
+            update.width = target.width;
+            if (child.type !== 'text') update.height = target.height;
+        }
+        updates.set(child.id, update);
+
+        for (const id of getDescendantIds(child.id, elementsById)) {
+            const descendant = elementsById.get(id)!;
+            updates.set(id, { x: descendant.x + dx, y: descendant.y + dy });
+        }
+    }
+
+    return elements.map(el => {
+        const update = updates.get(el.id);
+        return update ? ({ ...el, ...update } as Element) : el;
+    });
+}
+
+// --- 3. Layout pass over drawn objects ---
+
+function moveObject(obj: fabric.FabricObject, dx: number, dy: number): void {
+    obj.set({ left: (obj.left || 0) + dx, top: (obj.top || 0) + dy });
+    // Absolute clip paths (image corners, cover crops) stay in canvas space
+    const clip = obj.clipPath;
+    if (clip?.absolutePositioned) {
+        clip.set({ left: (clip.left || 0) + dx, top: (clip.top || 0) + dy });
+    }
+    obj.setCoords?.();
+}
+
+/**
+ * Run auto-layout on the objects drawn for a row
+ * `objectsById` holds the objects drawn for each element; elements hidden for
+ * the row have none and take no space. Text is measured at its wrapped
+ * height. Text and shapes are resized when they fill or stretch; other
+ * children keep their size. Frame backgrounds follow the laid-out box, and
+ * frames with clipContent clip everything inside them.
+ */
+export function applyFrameLayouts(
+    fabricImpl: FabricLayoutContext,
+    elements: Element[],
+    objectsById: Map<string, fabric.FabricObject[]>
+): void {
+    const frames = getFramesInnermostFirst(elements);
+    if (frames.length === 0) return;
+
+    const elementsById = new Map(elements.map(el => [el.id, el]));
+    const boxes = new Map<string, LayoutBox>();
+    const drawn = (id: string) => (objectsById.get(id) || []).length > 0;
+
+    // Current box of an element as drawn, or null when nothing was drawn
+    const boxOf = (id: string): LayoutBox | null => {
+        const cached = boxes.get(id);
+        if (cached) return cached;
+
+        const el = elementsById.get(id);
+        if (!el) return null;
+
+        let box: LayoutBox | null = null;
+        if (el.type === 'group') {
+            const childBoxes = getContainerChildIds(el).map(boxOf).filter((b): b is LayoutBox => !!b);
+            if (childBoxes.length > 0) {
+                const minX = Math.min(...childBoxes.map(b => b.x));
+                const minY = Math.min(...childBoxes.map(b => b.y));
+                const maxX = Math.max(...childBoxes.map(b => b.x + b.width));
+                const maxY = Math.max(...childBoxes.map(b => b.y + b.height));
+                box = { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+            }
+        } else if (drawn(id)) {
+            const obj = objectsById.get(id)![0];
+            // Text grows with its content; everything else draws at its element size
+            const height = el.type === 'text' ? (obj.height || el.height) * (obj.scaleY || 1) : el.height;
+            box = { x: el.x, y: el.y, width: el.width, height };
+        }
+        if (box) boxes.set(id, box);
+        return box;
+    };
+
+    const translate = (id: string, dx: number, dy: number) => {
+        if (dx === 0 && dy === 0) return;
+        for (const targetId of [id, ...getDescendantIds(id, elementsById)]) {
+            (objectsById.get(targetId) || []).forEach(obj => moveObject(obj, dx, dy));
+            const box = boxes.get(targetId);
+            if (box) boxes.set(targetId, { ...box, x: box.x + dx, y: box.y + dy });
+        }
+    };
+
+    // Resize a text/shape child; returns its new box
+    const resize = (el: Element, current: LayoutBox, target: LayoutBox): LayoutBox => {
+        const objects = objectsById.get(el.id) || [];
+        if (el.type === 'text') {
+            // Text only takes a new width and re-wraps to its own height
+            if (target.width === current.width) return current;
+            const textbox = objects[0] as fabric.Textbox;
+            textbox.set({ width: target.width });
+            textbox.initDimensions?.();
+            return { ...current, width: target.width, height: (textbox.height || current.height) * (textbox.scaleY || 1) };
+        }
+
+        if (target.width === current.width && target.height === current.height) return current;
+        const scaleX = current.width > 0 ? target.width / current.width : 1;
+        const scaleY = current.height > 0 ? target.height / current.height : 1;
+        objects.forEach(obj => {
+            if (obj.type === 'rect') {
+                obj.set({ width: target.width, height: target.height });
+            } else {
+                obj.set({ scaleX: (obj.scaleX || 1) * scaleX, scaleY: (obj.scaleY || 1) * scaleY });
+            }
+            obj.setCoords?.();
+        });
+        return { ...current, width: target.width, height: target.height };
+    };
+
+    for (const frame of frames) {
+        if (!drawn(frame.id)) continue;
+
+        const frameBox = boxOf(frame.id)!;
+        const items: LayoutItem[] = [];
+        for (const childId of frame.childIds) {
+            const child = elementsById.get(childId);
+            const box = boxOf(childId);
+            if (!child || !box) continue;
+            items.push({
+                id: childId,
+                width: box.width,
+                height: box.height,
+                fill: child.layoutSizing === 'fill' && isLayoutResizable(child),
+            });
+        }
+
+        const layout = computeFrameLayout({ ...frame, ...frameBox }, items);
+
+        for (const item of items) {
+            const child = elementsById.get(item.id)!;
+            const target = layout.children.get(item.id)!;
+            let current = boxOf(item.id)!;
+            if (isLayoutResizable(child)) {
+                current = resize(child, current, target);
+                boxes.set(item.id, current);
+            }
+            translate(item.id, target.x - current.x, target.y - current.y);
+        }
+
+        // Frame background follows the laid-out box
+        (objectsById.get(frame.id) || []).forEach(obj => {
+            obj.set({ width: layout.frame.width, height: layout.frame.height });
+            obj.setCoords?.();
+        });
+        boxes.set(frame.id, layout.frame);
+    }
+
+    // Clip after everything has moved, so nested frames clip at their final place
+    for (const frame of frames) {
+        if (!frame.clipContent || !drawn(frame.id)) continue;
+        const box = boxes.get(frame.id)!;
+        const radius = Math.max(0, frame.cornerRadius || 0);
+
+        for (const id of getDescendantIds(frame.id, elementsById)) {
+            for (const obj of objectsById.get(id) || []) {
+                const clip = new fabricImpl.Rect({
+                    left: box.x,
+                    top: box.y,
+                    width: box.width,
+                    height: box.height,
+                    rx: radius,
+                    ry: radius,
+                    absolutePositioned: true,
+                });
+                // Keep existing clips (image corners) by clipping the clip
+                let owner: Pick<fabric.FabricObject, 'clipPath'> = obj;
+                while (owner.clipPath) owner = owner.clipPath;
+                owner.clipPath = clip;
+            }
+        }
+    }
+}
@@ -0,0 +1,91 @@
+import { Element, GroupElement } from '@/types/editor';
+import { FieldMapping } from './text-shared';
+import { isElementVisibleForRow } from './visibility-shared';
+import { applyStyleBindings } from './style-shared';
+
+/**
+ * Shared Group Logic
+ * Used by both Client (engine) and Server (serverEngine) so a group's
+ * visibility and opacity reach its members the same way everywhere.
+ */
+
+/** Map of member element ID -> ID of the group that contains it */
+export function buildGroupParentMap(elements: Element[]): Map<string, string> {
+    const parents = new Map<string, string>();
+    elements.forEach(el => {
+        if (el.type !== 'group') return;
+        (el as GroupElement).childIds.forEach(childId => parents.set(childId, el.id));
+    });
+    return parents;
+}
+
+/**
+ * Groups containing an element, innermost first
+ * Stops at cycles so broken data can't loop forever.
+ */
+export function getAncestorGroups(
+    elementId: string,
+    elementsById: Map<string, Element>,
+    parents: Map<string, string>
+): GroupElement[] {
+    const ancestors: GroupElement[] = [];
+    const seen = new Set<string>([elementId]);
+    let parentId = parents.get(elementId);
+
+    while (parentId && !seen.has(parentId)) {
+        seen.add(parentId);
+        const parent = elementsById.get(parentId);
+        if (!parent || parent.type !== 'group') break;
+        ancestors.push(parent as GroupElement);
+        parentId = parents.get(parentId);
+    }
+    return ancestors;
+}
+
+/**
+ * Elements to draw for a row, with groups applied
+ * Group elements themselves are dropped. Members of a group that is hidden
+ * (or whose visibility rule fails for the row) are dropped too, and members
+ * get their groups' opacity multiplied in. Elements outside groups are
+ * returned unchanged.
+ */
+export function resolveGroupsForRow(
+    elements: Element[],
+    rowData: Record<string, string> = {},
+    fieldMapping: FieldMapping = {}
+): Element[] {
+    if (!elements.some(el => el.type === 'group')) return elements;
+
+    const elementsById = new Map(elements.map(el => [el.id, el]));
+    const parents = buildGroupParentMap(elements);
+    const resolved: Element[] = [];
+
+    for (const el of elements) {
+        if (el.type === 'group') continue;
+
+        const ancestors = getAncestorGroups(el.id, elementsById, parents);
+        if (ancestors.length === 0) {
+            resolved.push(el);
+            continue;
+        }
+        if (!ancestors.every(group => isElementVisibleForRow(group, rowData, fieldMapping))) continue;
+
+        const groupOpacity = ancestors.reduce(
+            (product, group) => product * (applyStyleBindings(group, rowData, fieldMapping).opacity ?? 1),
+            1
+        );
+        if (groupOpacity === 1) {
+            resolved.push(el);
+            continue;
+        }
+
+        // Resolve the member's own bindings now so a bound opacity is multiplied too
+        const styled = applyStyleBindings(el, rowData, fieldMapping);
+        resolved.push({
+            ...styled,
+            opacity: (styled.opacity ?? 1) * groupOpacity,
+            styleBindings: undefined,
+        });
+    }
+    return resolved;
+}
@@ -0,0 +1,277 @@
+import type * as fabric from 'fabric';
+import { ImageElement } from '@/types/editor';
+import { FieldMapping, replaceDynamicFields } from './text-shared';
+import { lookupFieldValue } from './expression-shared';
+
+/**
+ * Shared Image Processing Logic
+ * Used by both Client (ObjectFactory, engine) and Server (serverEngine)
+ * to ensure identical rendering results.
+ *
+ * Functions take the Fabric namespace as an argument so the same code runs
+ * against the browser build ('fabric') and the Node build ('fabric/node').
+ */
+
+/** The slice of the Fabric namespace these helpers need */
+export type FabricImageContext = Pick<typeof fabric, 'filters' | 'Rect'>;
+
+export type ImageFilters = NonNullable<ImageElement['filters']>;
+
+// --- 1. Filter Pipeline ---
+
+/**
+ * Build the Fabric filter chain for an element's filter settings.
+ *
+ * Values use Fabric's own ranges: brightness/contrast/saturation in [-1, 1]
+ * (0 = unchanged), blur in [0, 1]. Zero or missing values produce no filter,
+ * and the chain order is fixed so client and server composite identically.
+ */
+export function buildImageFilters(
+    fabricImpl: FabricImageContext,
+    filters: ImageElement['filters']
+): fabric.filters.BaseFilter<string>[] {
+    if (!filters) return [];
+
+    const chain: fabric.filters.BaseFilter<string>[] = [];
+
+    if (filters.brightness) {
+        chain.push(new fabricImpl.filters.Brightness({ brightness: clamp(filters.brightness, -1, 1) }));
+    }
+    if (filters.contrast) {
+        chain.push(new fabricImpl.filters.Contrast({ contrast: clamp(filters.contrast, -1, 1) }));
+    }
+    if (filters.saturation) {
+        chain.push(new fabricImpl.filters.Saturation({ saturation: clamp(filters.saturation, -1, 1) }));
+    }
+    if (filters.blur && filters.blur > 0) {
+        chain.push(new fabricImpl.filters.Blur({ blur: clamp(filters.blur, 0, 1) }));
+    }
+
+    return chain;
+}
+
+/**
+ * Apply an element's filters to a loaded image.
+ * No-op when the element has no active filters.
+ */
+export function applyImageFilters(
+    fabricImpl: FabricImageContext,
+    img: fabric.FabricImage,
+    filters: ImageElement['filters']
+): void {
+    const chain = buildImageFilters(fabricImpl, filters);
+    if (chain.length === 0) return;
+
+    img.filters = chain;
+    img.applyFilters();
+}
+
+// --- 2. Corner Clipping ---
+
+/**
+ * Create the absolutely-positioned clip rect for an image element's frame.
+ * Rounded when the element has a cornerRadius; also used by 'cover' fit mode
+ * to hide the overflow, so both concerns share one clip path.
+ */
+export function createImageClipPath(
+    fabricImpl: FabricImageContext,
+    element: Pick<ImageElement, 'x' | 'y' | 'cornerRadius'>,
+    width: number,
+    height: number
+): fabric.Rect {
+    const radius = Math.max(0, element.cornerRadius || 0);
+
+    return new fabricImpl.Rect({
+        left: element.x,
+        top: element.y,
+        width,
+        height,
+        rx: radius,
+        ry: radius,
+        absolutePositioned: true,
+    });
+}
+
+// --- 3. Row Data ---
+
+/**
+ * Image URL for a CSV row
+ * Dynamic images read their mapped column (or the column named like the
+ * source); otherwise {{field}} placeholders in imageUrl are filled in.
+ */
+export function resolveRowImageUrl(
+    element: Pick<ImageElement, 'imageUrl' | 'isDynamic' | 'dynamicSource'>,
+    rowData: Record<string, string>,
+    fieldMapping: FieldMapping
+): string {
+    const src = element.imageUrl || '';
+    if (element.isDynamic && element.dynamicSource) {
+        const col = fieldMapping[element.dynamicSource];
+        if (col && rowData[col]) return rowData[col];
+        if (rowData[element.dynamicSource]) return rowData[element.dynamicSource];
+    }
+    if (src.includes('{{')) return replaceDynamicFields(src, rowData, fieldMapping);
+    return src;
+}
+
+// --- 4. Cover Cropping ---
+
+/** Position in an image, in % of its width/height */
+export interface FocalPoint {
+    x: number;
+    y: number;
+}
+
+export const DEFAULT_FOCAL_POINT: FocalPoint = { x: 50, y: 50 };
+
+const FOCAL_KEYWORDS: Record<string, Partial<FocalPoint>> = {
+    left: { x: 0 },
+    right: { x: 100 },
+    top: { y: 0 },
+    bottom: { y: 100 },
+    center: {},
+    middle: {},
+};
+
+/**
+ * Focal point from a CSV cell
+ * Accepts "30,70", "30% 70%", keywords like "top", "bottom left" or
+ * "center", and "smart" to let the server choose.
+ * @returns The point (0-100 each), 'smart', or null when invalid
+ */
+export function parseFocalPoint(value: string): FocalPoint | 'smart' | null {
+    const trimmed = value.trim().toLowerCase();
+    if (!trimmed) return null;
+    if (trimmed === 'smart' || trimmed === 'auto') return 'smart';
+
+    const numbers = /^(-?\d+(?:\.\d+)?)%?\s*[,;\s]\s*(-?\d+(?:\.\d+)?)%?$/.exec(trimmed);
+    if (numbers) {
+        const x = Number(numbers[1]);
+        const y = Number(numbers[2]);
+        if (x < 0 || x > 100 || y < 0 || y > 100) return null;
+        return { x, y };
+    }
+
+    const words = trimmed.split(/[\s,-]+/);
+    if (!words.every(word => word in FOCAL_KEYWORDS)) return null;
+    return words.reduce<FocalPoint>((point, word) => ({ ...point, ...FOCAL_KEYWORDS[word] }), { ...DEFAULT_FOCAL_POINT });
+}
+
+/** Column that can override an image's focal point per row */
+export function getFocalPointField(element: Pick<ImageElement, 'focalPointField' | 'isDynamic' | 'dynamicSource'>): string | undefined {
+    const explicit = element.focalPointField?.replace(/\{\{|\}\}/g, '').trim();
+    if (explicit) return explicit;
+    return element.isDynamic && element.dynamicSource ? `${element.dynamicSource}_focus` : undefined;
+}
+
+/**
+ * Where a 'cover' crop should center for a row
+ * A valid value in the row's focus column wins, then smart cropping, then the
+ * element's own focal point, then the image center.
+ */
+export function resolveImageFocus(
+    element: ImageElement,
+    rowData: Record<string, string> = {},
+    fieldMapping: FieldMapping = {}
+): FocalPoint | 'smart' {
+    const field = getFocalPointField(element);
+    if (field) {
+        const fromRow = parseFocalPoint(lookupFieldValue(field, rowData, fieldMapping));
+        if (fromRow) return fromRow;
+    }
+    if (element.smartCrop) return 'smart';
+    return element.focalPoint ?? DEFAULT_FOCAL_POINT;
+}
+
+/**
+ * Scale and offset for 'cover' that keep the focal point as close to the
+ * middle of the frame as the image's overflow allows.
+ * Offsets are how far the scaled image extends past the frame's left/top.
+ */
+export function getCoverPlacement(
+    naturalWidth: number,
+    naturalHeight: number,
+    targetWidth: number,
+    targetHeight: number,
+    focalPoint: FocalPoint = DEFAULT_FOCAL_POINT
+): { scale: number; offsetX: number; offsetY: number } {
+    const scale = Math.max(targetWidth / naturalWidth, targetHeight / naturalHeight);
+    const scaledWidth = naturalWidth * scale;
+    const scaledHeight = naturalHeight * scale;
+
+    const offsetX = clamp((clamp(focalPoint.x, 0, 100) / 100) * scaledWidth - targetWidth / 2, 0, scaledWidth - targetWidth);
+    const offsetY = clamp((clamp(focalPoint.y, 0, 100) / 100) * scaledHeight - targetHeight / 2, 0, scaledHeight - targetHeight);
+
+    return { scale, offsetX, offsetY };
+}
+
+/**
+ * Pick a focal point from image content (smart crop)
+ * Scores each pixel by edge energy (luminance gradient) plus a little
+ * saturation, then slides a window with the crop's aspect ratio along the
+ * axis the crop cuts and centers on the window with the most energy. Faces,
+ * products and text score high; sky, walls and studio backdrops score low.
+ * @param data - RGBA pixels (a small downscaled copy is plenty)
+ * @param cropAspect - Width / height of the frame being filled
+ */
+export function findSalientFocalPoint(
+    data: Uint8ClampedArray,
+    width: number,
+    height: number,
+    cropAspect: number
+): FocalPoint {
+    if (width < 3 || height < 3 || !(cropAspect > 0)) return { ...DEFAULT_FOCAL_POINT };
+
+    const luminance = new Float32Array(width * height);
+    const saturation = new Float32Array(width * height);
+    for (let i = 0; i < width * height; i++) {
+        const r = data[i * 4];
+        const g = data[i * 4 + 1];
+        const b = data[i * 4 + 2];
+        luminance[i] = 0.299 * r + 0.587 * g + 0.114 * b;
+        saturation[i] = Math.max(r, g, b) - Math.min(r, g, b);
+    }
+
+    const columnEnergy = new Float64Array(width);
+    const rowEnergy = new Float64Array(height);
+    for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+            const i = y * width + x;
+            const gx = luminance[i + 1] - luminance[i - 1];
+            const gy = luminance[i + width] - luminance[i - width];
+            const energy = Math.abs(gx) + Math.abs(gy) + saturation[i] * 0.25;
+            columnEnergy[x] += energy;
+            rowEnergy[y] += energy;
+        }
+    }
+
+    // Best window along one axis, as the % position of its center; ties go to the middle
+    const bestCenter = (energy: Float64Array, window: number): number => {
+        const size = energy.length;
+        if (window >= size) return 50;
+        const middle = (size - window) / 2;
+        let sum = 0;
+        for (let i = 0; i < window; i++) sum += energy[i];
+        let best = sum;
+        let bestStart = 0;
+        for (let start = 1; start + window <= size; start++) {
+            sum += energy[start + window - 1] - energy[start - 1];
+            const tieCloserToMiddle = sum === best && Math.abs(start - middle) < Math.abs(bestStart - middle);
+            if (sum > best || tieCloserToMiddle) {
+                best = sum;
+                bestStart = start;
+            }
+        }
+        return ((bestStart + window / 2) / size) * 100;
+    };
+
+    const imageAspect = width / height;
+    if (imageAspect > cropAspect) {
+        return { x: bestCenter(columnEnergy, Math.round(height * cropAspect)), y: 50 };
+    }
+    return { x: 50, y: bestCenter(rowEnergy, Math.round(width / cropAspect)) };
+}
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.min(max, Math.max(min, value));
+}
@@ -9,13 +9,29 @@
  */
 
 import * as fabricNode from 'fabric/node';
-import { StaticCanvas, Rect, FabricImage, Textbox, Circle, Path, Color } from 'fabric/node';
+import { StaticCanvas, Rect, FabricImage, Textbox, Circle, Path, Line, Color } from 'fabric/node';
 import { Element, TextElement, ImageElement, ShapeElement, FrameElement } from '@/types/editor';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as os from 'os';
 import * as opentype from 'opentype.js';
 import { replaceDynamicFields, applyTextTransform } from './text-shared';
+import {
+    applyImageFilters,
+    createImageClipPath,
+    DEFAULT_FOCAL_POINT,
+    FocalPoint,
+    findSalientFocalPoint,
+    getCoverPlacement,
+    resolveImageFocus,
+} from './image-shared';
+import { getCachedImage, toDataUrl } from '@/lib/images/cache';
+import { ImageFetchError, unwrapProxyUrl } from '@/lib/images/safeFetch';
+import { getShapeStrokeOptions, getLinePoints, buildArrowPathData } from './shape-shared';
+import { isElementVisibleForRow } from './visibility-shared';
+import { applyStyleBindings } from './style-shared';
+import { resolveGroupsForRow } from './group-shared';
+import { applyFrameLayouts, hasFrameLayouts, resolveFramesForRow } from './frame-shared';
 
 // CRITICAL: Configure FontConfig for serverless environment (Vercel)
 // Without this, you get: "Fontconfig error: Cannot load default config file"
@@ -58,7 +74,7 @@ try {
 } catch (e) {
     console.warn('[ServerEngine] Canvas module not found (this is expected during build time)');
 }
-const { registerFont } = canvasModule || {};
+const { registerFont, createCanvas } = canvasModule || {};
 
 // Types
 export interface RenderConfig {
@@ -587,48 +603,62 @@ function getDynamicImageUrl(element: ImageElement, rowData: Record<string, strin
 
 /**
  * Load image from URL (server-side)
+ * Downloads go through the SSRF-safe image cache, so every pin of a campaign
+ * that shows the same CSV image shares one download.
  */
 async function loadImageServer(url: string): Promise<FabricImage | null> {
     if (!url) return null;
     
     try {
-        // Decode proxy URL if present
-        let fetchUrl = url;
-        if (url.startsWith('/api/proxy-image')) {
-            const urlParams = new URLSearchParams(url.split('?')[1] || '');
-            const originalUrl = urlParams.get('url');
-            if (originalUrl) {
-                fetchUrl = decodeURIComponent(originalUrl);
-            }
-        }
-        
-        // Fetch image data
-        const response = await fetch(fetchUrl, {
-            headers: {
-                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-                'Accept': 'image/*',
-            },
-        });
-        
-        if (!response.ok) {
-            console.error(`[ServerEngine] Failed to fetch image: ${response.status} - ${fetchUrl.substring(0, 80)}`);
-            return null;
+        if (url.startsWith('data:')) {
+            return await FabricImage.fromURL(url);
         }
         
-        const arrayBuffer = await response.arrayBuffer();
-        const base64 = Buffer.from(arrayBuffer).toString('base64');
-        const contentType = response.headers.get('content-type') || 'image/png';
-        const dataUrl = `data:${contentType};base64,${base64}`;
+        const image = await getCachedImage(unwrapProxyUrl(url));
         
         // Create FabricImage from data URL
-        const img = await FabricImage.fromURL(dataUrl);
+        const img = await FabricImage.fromURL(toDataUrl(image));
         return img;
     } catch (error) {
+        if (error instanceof ImageFetchError) {
+            console.error(`[ServerEngine] Image refused (${error.code}): ${error.message} - ${url.substring(0, 80)}`);
+            return null;
+        }
         console.error(`[ServerEngine] Image load error:`, error);
         return null;
     }
 }
 
+/** Longest side of the copy smart cropping analyses; detail below this doesn't move the crop */
+const SMART_CROP_SAMPLE_SIZE = 96;
+
+/**
+ * Focal point picked from the image's content (smart crop)
+ * @returns null when node-canvas isn't available or the pixels can't be read
+ */
+function findSmartFocalPoint(img: FabricImage, cropAspect: number): FocalPoint | null {
+    if (!createCanvas) return null;
+
+    try {
+        const source = img.getElement();
+        const naturalWidth = img.width || 1;
+        const naturalHeight = img.height || 1;
+        const sample = Math.min(1, SMART_CROP_SAMPLE_SIZE / Math.max(naturalWidth, naturalHeight));
+        const width = Math.max(3, Math.round(naturalWidth * sample));
+        const height = Math.max(3, Math.round(naturalHeight * sample));
+
+        const scratch = createCanvas(width, height);
+        const ctx = scratch.getContext('2d');
+        ctx.drawImage(source, 0, 0, width, height);
+        const { data } = ctx.getImageData(0, 0, width, height);
+
+        return findSalientFocalPoint(data, width, height, cropAspect);
+    } catch (error) {
+        console.warn(`[ServerEngine] Smart crop failed, using the center:`, error);
+        return null;
+    }
+}
+
 
 
 /**
@@ -653,7 +683,10 @@ async function renderElement(
     rowData: Record<string, string>,
     fieldMapping: FieldMapping
 ): Promise<void> {
-    if (!el.visible) return;
+    if (!isElementVisibleForRow(el, rowData, fieldMapping)) return;
+
+    // Colors/opacity bound to CSV columns
+    el = applyStyleBindings(el, rowData, fieldMapping);
 
     const commonOptions = {
         left: el.x,
@@ -734,6 +767,7 @@ async function renderElement(
             fontSize: fontSize,
             fontFamily: safeFontFamily,  // Use SAME font as measurement
             fill: textEl.fill || '#000000',
+            backgroundColor: textEl.backgroundColor || '',
             textAlign: textEl.align || 'left',
             lineHeight: textEl.lineHeight || 1.2,
             charSpacing: (textEl.letterSpacing || 0) * 10,
@@ -780,9 +814,12 @@ async function renderElement(
                     scaleY: targetHeight / naturalHeight,
                 });
             } else if (fitMode === 'cover') {
-                const scale = Math.max(targetWidth / naturalWidth, targetHeight / naturalHeight);
-                const offsetX = ((naturalWidth * scale) - targetWidth) / 2;
-                const offsetY = ((naturalHeight * scale) - targetHeight) / 2;
+                const focus = resolveImageFocus(imageEl, rowData, fieldMapping);
+                const focalPoint = focus === 'smart'
+                    ? findSmartFocalPoint(img, targetWidth / targetHeight) ?? imageEl.focalPoint ?? DEFAULT_FOCAL_POINT
+                    : focus;
+                const { scale, offsetX, offsetY } = getCoverPlacement(naturalWidth, naturalHeight, targetWidth, targetHeight, focalPoint);
+                console.log(`[ServerEngine] IMAGE: Cover focal point ${focalPoint.x.toFixed(1)}%, ${focalPoint.y.toFixed(1)}%${focus === 'smart' ? ' (smart)' : ''}`);
                 
                 img.set({
                     left: el.x - offsetX,
@@ -791,13 +828,7 @@ async function renderElement(
                     scaleY: scale,
                     angle: el.rotation || 0,
                     opacity: el.opacity ?? 1,
-                    clipPath: new Rect({
-                        left: el.x,
-                        top: el.y,
-                        width: targetWidth,
-                        height: targetHeight,
-                        absolutePositioned: true,
-                    }),
+                    clipPath: createImageClipPath(fabricNode, imageEl, targetWidth, targetHeight),
                 });
             } else { // contain
                 const scale = Math.min(targetWidth / naturalWidth, targetHeight / naturalHeight);
@@ -814,6 +845,13 @@ async function renderElement(
                 });
             }
             
+            // Corner radius for fill/contain (cover already clips to the rounded frame)
+            if (imageEl.cornerRadius && fitMode !== 'cover') {
+                img.clipPath = createImageClipPath(fabricNode, imageEl, targetWidth, targetHeight);
+            }
+            
+            applyImageFilters(fabricNode, img, imageEl.filters);
+            
             canvas.add(img);
             console.log(`[ServerEngine] IMAGE: Added to canvas at (${img.left}, ${img.top})`);
         } else {
@@ -832,15 +870,15 @@ async function renderElement(
     }
     else if (el.type === 'shape') {
         const shapeEl = el as ShapeElement;
+        const strokeOptions = getShapeStrokeOptions(shapeEl);
         
         if (shapeEl.shapeType === 'rect') {
             const rect = new Rect({
                 ...commonOptions,
+                ...strokeOptions,
                 width: shapeEl.width,
                 height: shapeEl.height,
                 fill: shapeEl.fill,
-                stroke: shapeEl.stroke,
-                strokeWidth: shapeEl.strokeWidth,
                 rx: shapeEl.cornerRadius,
                 ry: shapeEl.cornerRadius,
             });
@@ -849,36 +887,52 @@ async function renderElement(
         else if (shapeEl.shapeType === 'circle') {
             const circle = new Circle({
                 ...commonOptions,
+                ...strokeOptions,
                 radius: (shapeEl.width || 0) / 2,
                 fill: shapeEl.fill,
-                stroke: shapeEl.stroke,
-                strokeWidth: shapeEl.strokeWidth,
             });
             canvas.add(circle);
         }
+        else if (shapeEl.shapeType === 'line' || shapeEl.shapeType === 'arrow') {
+            // Lines are stroke-only; fall back to the fill color for legacy elements without a stroke
+            const lineOptions = {
+                ...strokeOptions,
+                stroke: strokeOptions.stroke || shapeEl.fill || '#000000',
+                strokeWidth: strokeOptions.strokeWidth || 1,
+                fill: null,
+                angle: commonOptions.angle,
+                opacity: commonOptions.opacity,
+            };
+            const points = getLinePoints(shapeEl);
+            
+            // Position comes from the absolute endpoints, so left/top are not passed
+            const line = shapeEl.shapeType === 'arrow'
+                ? new Path(buildArrowPathData(points, lineOptions.strokeWidth), lineOptions)
+                : new Line(points, lineOptions);
+            canvas.add(line);
+        }
         else if (shapeEl.shapeType === 'path' && shapeEl.pathData) {
             const pathFill = shapeEl.fill === 'none' ? null : shapeEl.fill;
-            const pathStroke = shapeEl.stroke === 'none' ? null : shapeEl.stroke;
             
             const path = new Path(shapeEl.pathData, {
                 ...commonOptions,
+                ...strokeOptions,
                 fill: pathFill || '#000000',
-                stroke: pathStroke,
-                strokeWidth: shapeEl.strokeWidth || 0,
             });
             canvas.add(path);
         }
     }
     else if (el.type === 'frame') {
         const frameEl = el as FrameElement;
+        // Only the frame's own fill and border - no editor placeholder chrome
+        const hasStroke = !!frameEl.stroke && frameEl.strokeWidth > 0;
         const frame = new Rect({
             ...commonOptions,
             width: frameEl.width,
             height: frameEl.height,
-            fill: frameEl.fill || 'rgba(0,0,0,0.05)',
-            stroke: frameEl.stroke || '#cccccc',
-            strokeWidth: frameEl.strokeWidth || 1,
-            strokeDashArray: [5, 5],
+            fill: frameEl.fill || '',
+            stroke: hasStroke ? frameEl.stroke : null,
+            strokeWidth: hasStroke ? frameEl.strokeWidth : 0,
             rx: frameEl.cornerRadius,
             ry: frameEl.cornerRadius,
         });
@@ -901,16 +955,29 @@ export async function renderTemplateServer(
         canvas.backgroundColor = config.backgroundColor;
     }
     
+    // Frames hide their contents with them; groups draw nothing themselves -
+    // apply their visibility and opacity to members
+    const drawable = resolveGroupsForRow(resolveFramesForRow(elements, rowData, fieldMapping), rowData, fieldMapping);
+
     // Sort elements by zIndex (lower first = bottom of stack)
-    const sortedElements = [...elements].sort((a, b) => a.zIndex - b.zIndex);
+    const sortedElements = [...drawable].sort((a, b) => a.zIndex - b.zIndex);
     
     if (DEBUG) {
         console.log(`[ServerEngine] Rendering ${sortedElements.length} elements`);
     }
     
-    // Render each element
+    // Render each element, keeping track of what it drew for auto-layout
+    const runLayout = hasFrameLayouts(elements);
+    const objectsById = new Map<string, fabricNode.FabricObject[]>();
     for (const el of sortedElements) {
+        const drawnBefore = runLayout ? canvas.getObjects().length : 0;
         await renderElement(canvas, el, rowData, fieldMapping);
+        if (runLayout) objectsById.set(el.id, canvas.getObjects().slice(drawnBefore));
+    }
+
+    // Lay frames out around the sizes children actually drew at for this row
+    if (runLayout) {
+        applyFrameLayouts(fabricNode, elements, objectsById);
     }
     
     // Render all
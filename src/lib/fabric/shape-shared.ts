@@ -0,0 +1,79 @@
+import { ShapeElement } from '@/types/editor';
+
+/**
+ * Shared Shape Geometry Logic
+ * Used by both Client (engine) and Server (serverEngine)
+ * to ensure identical rendering results.
+ */
+
+// --- 1. Stroke Properties ---
+
+export interface ShapeStrokeOptions {
+    stroke: string | null;
+    strokeWidth: number;
+    strokeLineCap: CanvasLineCap;
+    strokeLineJoin: CanvasLineJoin;
+    strokeDashArray: number[] | null;
+}
+
+/**
+ * Map an element's stroke settings to Fabric object options.
+ * 'none' and empty strokes are treated as no stroke, and empty dash arrays
+ * as a solid line.
+ */
+export function getShapeStrokeOptions(element: ShapeElement): ShapeStrokeOptions {
+    const stroke = element.stroke && element.stroke !== 'none' ? element.stroke : null;
+
+    return {
+        stroke,
+        strokeWidth: element.strokeWidth || 0,
+        strokeLineCap: element.strokeLineCap || 'butt',
+        strokeLineJoin: element.strokeLineJoin || 'miter',
+        strokeDashArray: element.strokeDashArray && element.strokeDashArray.length > 0
+            ? [...element.strokeDashArray]
+            : null,
+    };
+}
+
+// --- 2. Line & Arrow Geometry ---
+
+export type LinePoints = [number, number, number, number];
+
+/**
+ * Resolve absolute line endpoints for a line/arrow element.
+ * `points` are relative to the element position; without them the line runs
+ * along the top edge of the element box.
+ */
+export function getLinePoints(element: ShapeElement): LinePoints {
+    const [x1, y1, x2, y2] = element.points && element.points.length >= 4
+        ? element.points
+        : [0, 0, element.width || 0, 0];
+
+    return [element.x + x1, element.y + y1, element.x + x2, element.y + y2];
+}
+
+/** Arrowhead wing length - scales with stroke so thick arrows keep a visible head */
+export function getArrowHeadLength(strokeWidth: number): number {
+    return Math.max(10, strokeWidth * 3);
+}
+
+/**
+ * Build SVG path data for an arrow: the shaft plus an open chevron head at
+ * the end point, with wings at ±30° from the shaft.
+ */
+export function buildArrowPathData(points: LinePoints, strokeWidth: number): string {
+    const [x1, y1, x2, y2] = points;
+    const angle = Math.atan2(y2 - y1, x2 - x1);
+    const headLength = getArrowHeadLength(strokeWidth);
+    const spread = Math.PI / 6;
+
+    const leftX = x2 - headLength * Math.cos(angle - spread);
+    const leftY = y2 - headLength * Math.sin(angle - spread);
+    const rightX = x2 - headLength * Math.cos(angle + spread);
+    const rightY = y2 - headLength * Math.sin(angle + spread);
+
+    return [
+        `M ${x1} ${y1} L ${x2} ${y2}`,
+        `M ${leftX} ${leftY} L ${x2} ${y2} L ${rightX} ${rightY}`,
+    ].join(' ');
+}
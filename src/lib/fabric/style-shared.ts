@@ -0,0 +1,150 @@
+import { Element, StyleBindingProperty } from '@/types/editor';
+import { FieldMapping } from './text-shared';
+import { lookupFieldValue } from './expression-shared';
+
+/**
+ * Shared Style Binding Logic
+ * Used by both Client (engine) and Server (serverEngine) so colors and opacity
+ * read from a row resolve to exactly the same values everywhere.
+ */
+
+export type StyleValueKind = 'color' | 'opacity';
+
+/** Which style properties each element type can bind */
+export const BINDABLE_STYLE_PROPERTIES: Record<Element['type'], StyleBindingProperty[]> = {
+    text: ['fill', 'backgroundColor', 'opacity'],
+    shape: ['fill', 'opacity'],
+    frame: ['fill', 'opacity'],
+    image: ['opacity'],
+    group: ['opacity'],
+};
+
+export function getStyleValueKind(property: StyleBindingProperty): StyleValueKind {
+    return property === 'opacity' ? 'opacity' : 'color';
+}
+
+// 0-1, or a percentage
+function parseAlpha(value: string): number | null {
+    const isPercent = value.endsWith('%');
+    const n = Number(isPercent ? value.slice(0, -1) : value);
+    if (value === '' || !Number.isFinite(n)) return null;
+    const alpha = isPercent ? n / 100 : n;
+    return alpha >= 0 && alpha <= 1 ? alpha : null;
+}
+
+/**
+ * Normalize a hex or rgb()/rgba() color from a CSV cell
+ * Accepts "#f60", "ff6600", "#ff660080", "rgb(255, 102, 0)", "rgba(255,102,0,0.5)"
+ * and "rgb(255 102 0 / 50%)".
+ * @returns "#rrggbb"-style hex or "rgb(...)"/"rgba(...)", or null when invalid
+ */
+export function parseColorValue(value: string): string | null {
+    const trimmed = value.trim();
+
+    const hex = /^#?([0-9a-f]{3}|[0-9a-f]{4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.exec(trimmed);
+    if (hex) return `#${hex[1].toLowerCase()}`;
+
+    const rgb = /^rgba?\(([^)]*)\)$/i.exec(trimmed);
+    if (!rgb) return null;
+
+    const parts = rgb[1].trim().split(/\s*[,/]\s*|\s+/).filter(Boolean);
+    if (parts.length !== 3 && parts.length !== 4) return null;
+
+    const channels = parts.slice(0, 3).map(part => (/^\d{1,3}$/.test(part) ? Number(part) : NaN));
+    if (channels.some(c => !(c >= 0 && c <= 255))) return null;
+
+    if (parts.length === 3) return `rgb(${channels.join(', ')})`;
+    const alpha = parseAlpha(parts[3]);
+    return alpha === null ? null : `rgba(${channels.join(', ')}, ${alpha})`;
+}
+
+/**
+ * Opacity from a CSV cell: "0.5" or "50%"
+ * @returns 0-1, or null when invalid or out of range
+ */
+export function parseOpacityValue(value: string): number | null {
+    return parseAlpha(value.trim());
+}
+
+/** Whether a CSV value is usable for a style property */
+export function isValidStyleValue(kind: StyleValueKind, value: string): boolean {
+    return kind === 'color' ? parseColorValue(value) !== null : parseOpacityValue(value) !== null;
+}
+
+export interface ResolvedStyles {
+    fill?: string;
+    backgroundColor?: string;
+    opacity?: number;
+}
+
+/**
+ * Style values an element's bindings resolve to for a row
+ * The row value wins when valid, then the binding's fallback; properties with
+ * neither are left out so the element keeps its own value. Without row data
+ * (template thumbnails, the editor) nothing is resolved.
+ */
+export function resolveStyleBindings(
+    element: Element,
+    rowData: Record<string, string> = {},
+    fieldMapping: FieldMapping = {}
+): ResolvedStyles {
+    const bindings = element.styleBindings;
+    if (!bindings || Object.keys(rowData).length === 0) return {};
+
+    const resolved: ResolvedStyles = {};
+    for (const property of BINDABLE_STYLE_PROPERTIES[element.type]) {
+        const binding = bindings[property];
+        if (!binding?.field) continue;
+
+        const field = binding.field.replace(/\{\{|\}\}/g, '').trim();
+        const candidates = [lookupFieldValue(field, rowData, fieldMapping), binding.fallback ?? ''];
+
+        for (const candidate of candidates) {
+            if (property === 'opacity') {
+                const opacity = parseOpacityValue(candidate);
+                if (opacity !== null) {
+                    resolved.opacity = opacity;
+                    break;
+                }
+            } else {
+                const color = parseColorValue(candidate);
+                if (color !== null) {
+                    resolved[property] = color;
+                    break;
+                }
+            }
+        }
+    }
+    return resolved;
+}
+
+/**
+ * Copy of the element with its bound style properties filled in for a row
+ * Returns the element itself when nothing is bound.
+ */
+export function applyStyleBindings<T extends Element>(
+    element: T,
+    rowData: Record<string, string> = {},
+    fieldMapping: FieldMapping = {}
+): T {
+    const resolved = resolveStyleBindings(element, rowData, fieldMapping);
+    return Object.keys(resolved).length > 0 ? { ...element, ...resolved } : element;
+}
+
+/**
+ * Fields that style bindings read, for the campaign field-mapping step
+ */
+export function extractStyleBindingFields(elements: Element[]): { field: string; kind: StyleValueKind; layerName: string }[] {
+    const fields: { field: string; kind: StyleValueKind; layerName: string }[] = [];
+    const seen = new Set<string>();
+
+    elements.forEach(element => {
+        Object.entries(element.styleBindings || {}).forEach(([property, binding]) => {
+            const field = binding?.field.replace(/\{\{|\}\}/g, '').trim();
+            if (!field || seen.has(field)) return;
+            seen.add(field);
+            fields.push({ field, kind: getStyleValueKind(property as StyleBindingProperty), layerName: element.name });
+        });
+    });
+    return fields;
+}
@@ -1,4 +1,5 @@
 import { TextElement } from '@/types/editor';
+import { evaluateTemplate } from './expression-shared';
 
 /**
  * Shared Text Processing Logic
@@ -12,32 +13,16 @@ export interface FieldMapping {
     [templateField: string]: string;
 }
 
+/**
+ * Render {{field}} tags, including filters like {{price | currency:'USD'}}
+ * See expression-shared for the syntax.
+ */
 export function replaceDynamicFields(
     text: string, 
     rowData: Record<string, string>, 
     fieldMapping: FieldMapping
 ): string {
-    if (!text) return '';
-    
-    let result = text;
-    const matches = text.match(/\{\{([^}]+)\}\}/g);
-    
-    if (matches) {
-        matches.forEach((match) => {
-            const fieldName = match.replace(/\{\{|\}\}/g, '').trim();
-            // Try mapped column first, then direct field name
-            const val = rowData[fieldMapping[fieldName]] || rowData[fieldName];
-            
-            if (val !== undefined) {
-                result = result.replace(match, val);
-            } else {
-                // If no data found, replace with empty string or keep tag? 
-                // Currently keeping empty string to clean up
-                result = result.replace(match, '');
-            }
-        });
-    }
-    return result;
+    return evaluateTemplate(text, rowData, fieldMapping);
 }
 
 // --- 2. Text Transformation ---
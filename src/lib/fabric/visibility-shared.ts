@@ -0,0 +1,74 @@
+import { Element, VisibilityRule } from '@/types/editor';
+import { FieldMapping } from './text-shared';
+import { lookupFieldValue, parseNumber } from './expression-shared';
+
+/**
+ * Shared Visibility Logic
+ * Used by both Client (engine) and Server (serverEngine) so an element's
+ * visibility rule hides it for exactly the same rows everywhere.
+ */
+
+// Rules name fields like tags do; "{{price}}" and "price" are the same field
+function resolveFieldValue(
+    field: string,
+    rowData: Record<string, string>,
+    fieldMapping: FieldMapping
+): string {
+    const name = field.replace(/\{\{|\}\}/g, '').trim();
+    return lookupFieldValue(name, rowData, fieldMapping).trim();
+}
+
+/**
+ * Whether a row meets a rule's condition (ignoring show/hide)
+ * Text comparisons ignore case and surrounding whitespace; numeric comparisons
+ * are false when either side isn't a number.
+ */
+export function evaluateVisibilityRule(
+    rule: VisibilityRule,
+    rowData: Record<string, string>,
+    fieldMapping: FieldMapping = {}
+): boolean {
+    const actual = resolveFieldValue(rule.field, rowData, fieldMapping);
+    const expected = (rule.value ?? '').trim();
+
+    switch (rule.operator) {
+        case 'is_empty':
+            return actual === '';
+        case 'is_not_empty':
+            return actual !== '';
+        case 'equals':
+            return actual.toLowerCase() === expected.toLowerCase();
+        case 'not_equals':
+            return actual.toLowerCase() !== expected.toLowerCase();
+        case 'contains':
+            return expected !== '' && actual.toLowerCase().includes(expected.toLowerCase());
+        case 'greater_than':
+        case 'less_than': {
+            const a = parseNumber(actual);
+            const b = parseNumber(expected);
+            if (a === null || b === null) return false;
+            return rule.operator === 'greater_than' ? a > b : a < b;
+        }
+        default:
+            return true;
+    }
+}
+
+/**
+ * Whether an element is drawn for a row
+ * Without row data (template thumbnails, the editor) rules are not applied, so
+ * every visible element shows.
+ */
+export function isElementVisibleForRow(
+    element: Element,
+    rowData: Record<string, string> = {},
+    fieldMapping: FieldMapping = {}
+): boolean {
+    if (!element.visible) return false;
+
+    const rule = element.visibilityRule;
+    if (!rule?.field || Object.keys(rowData).length === 0) return true;
+
+    const matches = evaluateVisibilityRule(rule, rowData, fieldMapping);
+    return rule.action === 'hide' ? !matches : matches;
+}
@@ -0,0 +1,122 @@
+/**
+ * Unit tests for the content-addressed image cache (disk tier; Redis is not configured)
+ */
+
+import crypto from 'crypto';
+import dns from 'dns';
+import { promises as fs } from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { getCachedImage, toDataUrl } from '../cache';
+
+const PNG = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.alloc(24, 7)]);
+
+const fakeLookup = ((hostname: string, options: dns.LookupOptions, callback: (...args: unknown[]) => void) => {
+    if (options.all) return callback(null, [{ address: '127.0.0.1', family: 4 }]);
+    callback(null, '127.0.0.1', 4);
+}) as unknown as typeof dns.lookup;
+
+let server: http.Server;
+let baseUrl: string;
+let downloads: number;
+let cacheDir: string;
+
+beforeAll(async () => {
+    server = http.createServer((req, res) => {
+        downloads++;
+        // Answer slowly enough for concurrent requests to overlap
+        setTimeout(() => {
+            res.writeHead(200, { 'Content-Type': 'image/png' });
+            // /unique/ paths get their own bytes, so they don't share a blob
+            res.end(req.url?.startsWith('/unique/') ? Buffer.concat([PNG, Buffer.from(req.url)]) : PNG);
+        }, 20);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://images.test:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+beforeEach(async () => {
+    downloads = 0;
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'image-cache-test-'));
+});
+
+afterEach(async () => {
+    await fs.rm(cacheDir, { recursive: true, force: true });
+});
+
+const cacheOptions = () => ({ cacheDir, lookup: fakeLookup, trustedHosts: ['images.test'] });
+
+describe('getCachedImage', () => {
+    it('downloads once and serves repeats from disk', async () => {
+        const first = await getCachedImage(`${baseUrl}/a.png`, cacheOptions());
+        const second = await getCachedImage(`${baseUrl}/a.png`, cacheOptions());
+
+        expect(downloads).toBe(1);
+        expect(second.buffer.equals(PNG)).toBe(true);
+        expect(second.hash).toBe(first.hash);
+    });
+
+    it('stores bytes under their content hash', async () => {
+        const image = await getCachedImage(`${baseUrl}/a.png`, cacheOptions());
+
+        expect(image.hash).toBe(crypto.createHash('sha256').update(PNG).digest('hex'));
+        await expect(fs.readFile(path.join(cacheDir, `${image.hash}.bin`))).resolves.toEqual(PNG);
+    });
+
+    it('shares one download between concurrent requests', async () => {
+        await Promise.all([1, 2, 3].map(() => getCachedImage(`${baseUrl}/b.png`, cacheOptions())));
+
+        expect(downloads).toBe(1);
+    });
+
+    it('downloads again once the entry expires', async () => {
+        await getCachedImage(`${baseUrl}/c.png`, { ...cacheOptions(), ttlSeconds: 0 });
+        await getCachedImage(`${baseUrl}/c.png`, { ...cacheOptions(), ttlSeconds: 0 });
+
+        expect(downloads).toBe(2);
+    });
+
+    it('evicts the least recently used files once the disk tier passes its cap', async () => {
+        const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+        const dirSize = async () => {
+            const names = await fs.readdir(cacheDir);
+            const sizes = await Promise.all(names.map(async name => (await fs.stat(path.join(cacheDir, name))).size));
+            return sizes.reduce((sum, size) => sum + size, 0);
+        };
+
+        await getCachedImage(`${baseUrl}/unique/a.png`, cacheOptions());
+        const maxDiskBytes = Math.floor((await dirSize()) * 2.6);
+        const options = { ...cacheOptions(), maxDiskBytes };
+
+        await sleep(20);
+        await getCachedImage(`${baseUrl}/unique/b.png`, options);
+        await sleep(20);
+        await getCachedImage(`${baseUrl}/unique/a.png`, options); // a is now the more recently used
+        await sleep(20);
+        await getCachedImage(`${baseUrl}/unique/c.png`, options);
+
+        expect(downloads).toBe(3);
+        expect(await dirSize()).toBeLessThanOrEqual(maxDiskBytes);
+
+        await getCachedImage(`${baseUrl}/unique/a.png`, options);
+        expect(downloads).toBe(3);
+        await getCachedImage(`${baseUrl}/unique/b.png`, options);
+        expect(downloads).toBe(4);
+    });
+
+    it('refuses disallowed URLs before looking in the cache', async () => {
+        await expect(getCachedImage('http://127.0.0.1/a.png', { cacheDir })).rejects.toMatchObject({ code: 'blocked_address' });
+    });
+});
+
+describe('toDataUrl', () => {
+    it('builds a data URL with the sniffed type', () => {
+        expect(toDataUrl({ buffer: Buffer.from('hi'), contentType: 'image/png' })).toBe('data:image/png;base64,aGk=');
+    });
+});
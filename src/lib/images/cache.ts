@@ -0,0 +1,277 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { getRedis } from '@/lib/redis';
+import { FetchedImage, fetchImageSafely, ImageType, SafeFetchOptions, validateImageUrl } from './safeFetch';
+
+/**
+ * Content-addressed image cache (Server-side only)
+ * Campaign renders use the same CSV image in many pins and many batches,
+ * so downloads are kept for a while instead of refetched per pin:
+ * - Disk: bytes under their SHA-256, plus a URL -> hash entry with an expiry;
+ *   capped in total size, least recently used files go first
+ * - Redis: the URL -> hash entry, and small images themselves, so other
+ *   workers skip the download too
+ * Concurrent requests for one URL share a single download.
+ */
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60; // 1 day
+const DEFAULT_MAX_DISK_BYTES = 512 * 1024 * 1024;
+// Pruning goes below the cap so the next few writes don't prune again
+const PRUNE_TARGET_RATIO = 0.8;
+// Temp files this young may still be renamed into place
+const TMP_FILE_GRACE_MS = 60 * 1000;
+// Upstash caps request size at 1MB; base64 adds a third
+const REDIS_MAX_IMAGE_BYTES = 512 * 1024;
+
+export interface CachedImage extends FetchedImage {
+    /** SHA-256 of the bytes */
+    hash: string;
+}
+
+export interface ImageCacheOptions extends SafeFetchOptions {
+    ttlSeconds?: number;
+    /** Defaults to IMAGE_CACHE_DIR, then <tmp>/image-cache */
+    cacheDir?: string;
+    /** Total size of the disk tier; defaults to IMAGE_CACHE_MAX_BYTES, then 512MB */
+    maxDiskBytes?: number;
+}
+
+interface UrlEntry {
+    hash: string;
+    contentType: ImageType;
+    finalUrl: string;
+    expiresAt: number; // ms
+}
+
+const inFlight = new Map<string, Promise<CachedImage>>();
+// Bytes on disk per cache directory, as of the last prune plus later writes
+const diskUsage = new Map<string, number>();
+const pruning = new Map<string, Promise<void>>();
+
+function sha256(data: string | Buffer): string {
+    return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function getCacheDir(options: ImageCacheOptions): string {
+    return options.cacheDir || process.env.IMAGE_CACHE_DIR || path.join(os.tmpdir(), 'image-cache');
+}
+
+function getMaxDiskBytes(options: ImageCacheOptions): number {
+    if (options.maxDiskBytes !== undefined) return options.maxDiskBytes;
+    const fromEnv = Number(process.env.IMAGE_CACHE_MAX_BYTES);
+    return fromEnv > 0 ? fromEnv : DEFAULT_MAX_DISK_BYTES;
+}
+
+// ============================================
+// Disk tier
+// ============================================
+
+async function readDiskEntry(dir: string, urlKey: string): Promise<UrlEntry | null> {
+    try {
+        const entry = JSON.parse(await fs.readFile(path.join(dir, `url-${urlKey}.json`), 'utf8')) as UrlEntry;
+        return entry.expiresAt > Date.now() ? entry : null;
+    } catch {
+        return null;
+    }
+}
+
+async function readDiskBlob(dir: string, hash: string): Promise<Buffer | null> {
+    try {
+        const buffer = await fs.readFile(path.join(dir, `${hash}.bin`));
+        return sha256(buffer) === hash ? buffer : null; // Torn or tampered files are a miss
+    } catch {
+        return null;
+    }
+}
+
+// Mark a hit as recently used so pruning keeps it
+async function touchDisk(dir: string, urlKey: string, hash: string): Promise<void> {
+    const now = new Date();
+    await Promise.all([
+        fs.utimes(path.join(dir, `url-${urlKey}.json`), now, now),
+        fs.utimes(path.join(dir, `${hash}.bin`), now, now),
+    ]).catch(() => undefined);
+}
+
+/**
+ * Delete least recently used files until the directory is under the target
+ * size. A URL entry whose blob is gone (or the reverse) is just a miss.
+ */
+async function pruneDisk(dir: string, maxBytes: number): Promise<void> {
+    let names: string[];
+    try {
+        names = await fs.readdir(dir);
+    } catch {
+        diskUsage.set(dir, 0);
+        return;
+    }
+
+    const now = Date.now();
+    const files: { filePath: string; size: number; usedAt: number }[] = [];
+    for (const name of names) {
+        try {
+            const stats = await fs.stat(path.join(dir, name));
+            if (!stats.isFile()) continue;
+            if (name.endsWith('.tmp') && now - stats.mtimeMs < TMP_FILE_GRACE_MS) continue;
+            files.push({ filePath: path.join(dir, name), size: stats.size, usedAt: stats.mtimeMs });
+        } catch {
+            // Removed by another worker
+        }
+    }
+
+    let total = files.reduce((sum, file) => sum + file.size, 0);
+    if (total > maxBytes) {
+        const target = maxBytes * PRUNE_TARGET_RATIO;
+        files.sort((a, b) => a.usedAt - b.usedAt);
+        for (const file of files) {
+            if (total <= target) break;
+            await fs.rm(file.filePath, { force: true }).catch(() => undefined);
+            total -= file.size;
+        }
+    }
+
+    diskUsage.set(dir, total);
+}
+
+async function pruneDiskOnce(dir: string, maxBytes: number): Promise<void> {
+    const pending = pruning.get(dir);
+    if (pending) return pending;
+
+    const promise = pruneDisk(dir, maxBytes).finally(() => pruning.delete(dir));
+    pruning.set(dir, promise);
+    return promise;
+}
+
+async function writeDisk(dir: string, urlKey: string, entry: UrlEntry, buffer: Buffer, maxBytes: number): Promise<void> {
+    try {
+        await fs.mkdir(dir, { recursive: true });
+        // Size what earlier processes left behind before adding to it
+        if (!diskUsage.has(dir)) await pruneDiskOnce(dir, maxBytes);
+
+        // Write-then-rename so readers never see half a file
+        const blobPath = path.join(dir, `${entry.hash}.bin`);
+        const tmpPath = `${blobPath}.${process.pid}.${Date.now()}.tmp`;
+        const entryJson = JSON.stringify(entry);
+        await fs.writeFile(tmpPath, buffer);
+        await fs.rename(tmpPath, blobPath);
+        await fs.writeFile(path.join(dir, `url-${urlKey}.json`), entryJson);
+
+        const usage = (diskUsage.get(dir) ?? 0) + buffer.length + Buffer.byteLength(entryJson);
+        diskUsage.set(dir, usage);
+        if (usage > maxBytes) await pruneDiskOnce(dir, maxBytes);
+    } catch (error) {
+        console.warn('[ImageCache] Failed to write disk cache:', error);
+    }
+}
+
+// ============================================
+// Redis tier
+// ============================================
+
+async function readRedisEntry(urlKey: string): Promise<UrlEntry | null> {
+    const redis = getRedis();
+    if (!redis) return null;
+    try {
+        const entry = await redis.get<UrlEntry>(`imgcache:url:${urlKey}`);
+        return entry && entry.expiresAt > Date.now() ? entry : null;
+    } catch (error) {
+        console.error('[ImageCache] Redis read failed:', error);
+        return null;
+    }
+}
+
+async function readRedisBlob(hash: string): Promise<Buffer | null> {
+    const redis = getRedis();
+    if (!redis) return null;
+    try {
+        const base64 = await redis.get<string>(`imgcache:blob:${hash}`);
+        if (!base64) return null;
+        const buffer = Buffer.from(base64, 'base64');
+        return sha256(buffer) === hash ? buffer : null;
+    } catch (error) {
+        console.error('[ImageCache] Redis read failed:', error);
+        return null;
+    }
+}
+
+async function writeRedis(urlKey: string, entry: UrlEntry, buffer: Buffer, ttlSeconds: number): Promise<void> {
+    const redis = getRedis();
+    if (!redis) return;
+    try {
+        await redis.setex(`imgcache:url:${urlKey}`, ttlSeconds, entry);
+        if (buffer.length <= REDIS_MAX_IMAGE_BYTES) {
+            await redis.setex(`imgcache:blob:${entry.hash}`, ttlSeconds, buffer.toString('base64'));
+        }
+    } catch (error) {
+        console.error('[ImageCache] Redis write failed:', error);
+    }
+}
+
+// ============================================
+// Public API
+// ============================================
+
+async function loadImage(url: string, urlKey: string, options: ImageCacheOptions): Promise<CachedImage> {
+    const dir = getCacheDir(options);
+    const ttlSeconds = options.ttlSeconds ?? DEFAULT_TTL_SECONDS;
+    const maxDiskBytes = getMaxDiskBytes(options);
+
+    const diskEntry = await readDiskEntry(dir, urlKey);
+    if (diskEntry) {
+        const buffer = await readDiskBlob(dir, diskEntry.hash);
+        if (buffer) {
+            await touchDisk(dir, urlKey, diskEntry.hash);
+            return { ...diskEntry, buffer };
+        }
+    }
+
+    const redisEntry = await readRedisEntry(urlKey);
+    if (redisEntry) {
+        const buffer = await readDiskBlob(dir, redisEntry.hash) ?? await readRedisBlob(redisEntry.hash);
+        if (buffer) {
+            await writeDisk(dir, urlKey, redisEntry, buffer, maxDiskBytes);
+            return { ...redisEntry, buffer };
+        }
+    }
+
+    const fetched = await fetchImageSafely(url, options);
+    const entry: UrlEntry = {
+        hash: sha256(fetched.buffer),
+        contentType: fetched.contentType,
+        finalUrl: fetched.finalUrl,
+        expiresAt: Date.now() + ttlSeconds * 1000,
+    };
+    await Promise.all([
+        writeDisk(dir, urlKey, entry, fetched.buffer, maxDiskBytes),
+        writeRedis(urlKey, entry, fetched.buffer, ttlSeconds),
+    ]);
+
+    return { ...entry, buffer: fetched.buffer };
+}
+
+/**
+ * Fetch an image through the cache
+ * Cache problems never fail the call - it just downloads again.
+ * @throws ImageFetchError when a download is needed and is refused or fails
+ */
+export async function getCachedImage(url: string, options: ImageCacheOptions = {}): Promise<CachedImage> {
+    // Refuse disallowed URLs even when they were cached under older settings
+    validateImageUrl(url, options);
+    const urlKey = sha256(url);
+
+    const pending = inFlight.get(urlKey);
+    if (pending) return pending;
+
+    const promise = loadImage(url, urlKey, options).finally(() => inFlight.delete(urlKey));
+    inFlight.set(urlKey, promise);
+    return promise;
+}
+
+/**
+ * Data URL for a cached image, the form Fabric loads server-side
+ */
+export function toDataUrl(image: Pick<CachedImage, 'buffer' | 'contentType'>): string {
+    return `data:${image.contentType};base64,${image.buffer.toString('base64')}`;
+}
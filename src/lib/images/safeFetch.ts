@@ -0,0 +1,655 @@
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+
+/**
+ * Hardened image fetching (Server-side only)
+ * Used by /api/proxy-image and the server renderer for URLs that come from
+ * users and CSV files, and (through requestSafely) for data source URLs and
+ * webhook endpoints. Every hop - including redirects - is checked:
+ * - http(s) only, optional host allow-list (IMAGE_FETCH_ALLOWED_HOSTS)
+ * - Private, loopback and link-local addresses are refused after DNS
+ *   resolution, at connect time, so DNS rebinding can't slip past the check
+ * - Redirects are followed manually up to a cap
+ * - The body is capped while streaming and must really be an image
+ * probeImage runs the same checks on just the start of the file, for
+ * reading type and dimensions before a campaign is launched.
+ */
+
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024; // 10MB
+const DEFAULT_MAX_REDIRECTS = 3;
+const DEFAULT_TIMEOUT_MS = 10000;
+const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36';
+// Image headers (and JPEG metadata before the size marker) fit in this
+const PROBE_BYTES = 64 * 1024;
+
+export type ImageType = 'image/png' | 'image/jpeg' | 'image/gif' | 'image/webp' | 'image/avif' | 'image/bmp';
+
+export interface FetchedImage {
+    buffer: Buffer;
+    contentType: ImageType;
+    /** URL the bytes came from after redirects */
+    finalUrl: string;
+}
+
+export interface ImageProbe {
+    contentType: ImageType;
+    /** null when the header doesn't say within the probed bytes */
+    width: number | null;
+    height: number | null;
+    /** Full file size, when the server reports it */
+    bytes: number | null;
+    finalUrl: string;
+}
+
+type LookupFunction = typeof dns.lookup;
+
+export interface SafeFetchOptions {
+    maxBytes?: number;
+    maxRedirects?: number;
+    timeoutMs?: number;
+    /** Hosts that may be fetched; '*.example.com' matches subdomains. Empty = any public host */
+    allowedHosts?: string[];
+    /** Hosts trusted even on private addresses (our own storage in local dev) */
+    trustedHosts?: string[];
+    /** DNS resolver, for tests */
+    lookup?: LookupFunction;
+}
+
+export type ImageFetchErrorCode =
+    | 'invalid_url'
+    | 'host_not_allowed'
+    | 'blocked_address'
+    | 'too_many_redirects'
+    | 'upstream_error'
+    | 'too_large'
+    | 'unsupported_type'
+    | 'timeout';
+
+const STATUS_BY_CODE: Record<ImageFetchErrorCode, number> = {
+    invalid_url: 400,
+    host_not_allowed: 403,
+    blocked_address: 403,
+    too_many_redirects: 502,
+    upstream_error: 502,
+    too_large: 413,
+    unsupported_type: 415,
+    timeout: 504,
+};
+
+/**
+ * An image URL that was refused or couldn't be fetched
+ */
+export class ImageFetchError extends Error {
+    constructor(
+        message: string,
+        public readonly code: ImageFetchErrorCode,
+        public readonly upstreamStatus: number | null = null
+    ) {
+        super(message);
+        this.name = 'ImageFetchError';
+    }
+
+    /** HTTP status to answer with when proxying */
+    get status(): number {
+        return STATUS_BY_CODE[this.code];
+    }
+}
+
+// ============================================
+// Address checks
+// ============================================
+
+const blockedAddresses = new net.BlockList();
+// IPv4: "this" network, private, CGNAT, loopback, link-local (cloud metadata), protocol assignments,
+// documentation, benchmarking, multicast and reserved
+for (const [prefix, bits] of [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+    ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+    blockedAddresses.addSubnet(prefix, bits, 'ipv4');
+}
+// IPv6: unspecified, loopback, NAT64, unique local, link-local, multicast
+for (const [prefix, bits] of [
+    ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+    blockedAddresses.addSubnet(prefix, bits, 'ipv6');
+}
+
+/**
+ * Whether an IP address points somewhere a user-supplied URL must not reach
+ */
+export function isBlockedAddress(address: string): boolean {
+    const family = net.isIP(address);
+    if (family === 4) return blockedAddresses.check(address, 'ipv4');
+    if (family !== 6) return true;
+
+    // IPv4-mapped IPv6 (::ffff:10.0.0.1) is the IPv4 address in disguise
+    const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+    if (mapped) return blockedAddresses.check(mapped[1], 'ipv4');
+    return blockedAddresses.check(address, 'ipv6');
+}
+
+function hostMatches(hostname: string, patterns: string[]): boolean {
+    const host = hostname.toLowerCase();
+    return patterns.some(pattern => {
+        const p = pattern.trim().toLowerCase();
+        if (!p) return false;
+        if (p.startsWith('*.')) return host.endsWith(p.slice(1)) || host === p.slice(2);
+        return host === p;
+    });
+}
+
+function listFromEnv(value: string | undefined): string[] {
+    return (value || '').split(',').map(s => s.trim()).filter(Boolean);
+}
+
+/** Our own storage host, so locally-run Supabase keeps working */
+function defaultTrustedHosts(): string[] {
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    if (!supabaseUrl) return [];
+    try {
+        return [new URL(supabaseUrl).hostname];
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Parse and vet a URL before any connection is made
+ * @throws ImageFetchError for non-http(s) URLs, hosts off the allow-list and private IP literals
+ */
+export function validateImageUrl(
+    rawUrl: string,
+    options: Pick<SafeFetchOptions, 'allowedHosts' | 'trustedHosts'> = {}
+): URL {
+    let url: URL;
+    try {
+        url = new URL(rawUrl);
+    } catch {
+        throw new ImageFetchError('Invalid URL format', 'invalid_url');
+    }
+
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new ImageFetchError('Only HTTP/HTTPS URLs allowed', 'invalid_url');
+    }
+    if (url.username || url.password) {
+        throw new ImageFetchError('URLs with credentials are not allowed', 'invalid_url');
+    }
+
+    const hostname = url.hostname.replace(/^\[|\]$/g, '');
+    const trustedHosts = options.trustedHosts ?? defaultTrustedHosts();
+    if (hostMatches(hostname, trustedHosts)) return url;
+
+    const allowedHosts = options.allowedHosts ?? listFromEnv(process.env.IMAGE_FETCH_ALLOWED_HOSTS);
+    if (allowedHosts.length > 0 && !hostMatches(hostname, allowedHosts)) {
+        throw new ImageFetchError(`Host not allowed: ${hostname}`, 'host_not_allowed');
+    }
+    if (net.isIP(hostname) && isBlockedAddress(hostname)) {
+        throw new ImageFetchError(`Address not allowed: ${hostname}`, 'blocked_address');
+    }
+
+    return url;
+}
+
+/**
+ * DNS lookup that refuses to hand private addresses to the socket
+ * Runs at connect time, so the address checked is the address used.
+ */
+function createGuardedLookup(resolve: LookupFunction): LookupFunction {
+    const guarded = (hostname: string, options: dns.LookupOptions, callback: (...args: unknown[]) => void) => {
+        resolve(hostname, { ...options, all: true }, (error, addresses) => {
+            if (error) return callback(error);
+            const list = addresses as unknown as dns.LookupAddress[];
+            const blocked = list.find(entry => isBlockedAddress(entry.address));
+            if (blocked || list.length === 0) {
+                return callback(new ImageFetchError(
+                    `Address not allowed: ${hostname} resolves to ${blocked?.address ?? 'nothing'}`,
+                    'blocked_address'
+                ));
+            }
+            if (options.all) return callback(null, list);
+            callback(null, list[0].address, list[0].family);
+        });
+    };
+    return guarded as unknown as LookupFunction;
+}
+
+// ============================================
+// Content checks
+// ============================================
+
+/**
+ * Image type from the file's magic bytes
+ * Servers often send images as application/octet-stream, and an HTML
+ * error page can arrive labelled image/png - the bytes are what count.
+ */
+export function detectImageType(buffer: Buffer): ImageType | null {
+    if (buffer.length < 12) return null;
+    if (buffer[0] === 0x89 && buffer.toString('ascii', 1, 4) === 'PNG') return 'image/png';
+    if (buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return 'image/jpeg';
+    if (buffer.toString('ascii', 0, 4) === 'GIF8') return 'image/gif';
+    if (buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') return 'image/webp';
+    if (buffer.toString('ascii', 4, 8) === 'ftyp' && /^avi[fs]$/.test(buffer.toString('ascii', 8, 12))) return 'image/avif';
+    if (buffer.toString('ascii', 0, 2) === 'BM') return 'image/bmp';
+    return null;
+}
+
+/**
+ * Name of a recognisable image format the renderer can't draw
+ * Lets reports say "TIFF isn't supported" rather than "not an image".
+ */
+export function describeUnsupportedFormat(buffer: Buffer): string | null {
+    const head = buffer.toString('ascii', 0, 12);
+    if (head.startsWith('II*\0') || head.startsWith('MM\0*')) return 'TIFF';
+    if (head.slice(4, 8) === 'ftyp' && /^(heic|heix|hevc|mif1)$/.test(head.slice(8, 12))) return 'HEIC';
+    if (/^\s*(<\?xml|<svg)/i.test(buffer.toString('utf8', 0, 256))) return 'SVG';
+    return null;
+}
+
+/**
+ * Pixel size from an image's header bytes
+ * @returns null when the header is cut off or malformed
+ */
+export function readImageDimensions(buffer: Buffer, type: ImageType): { width: number; height: number } | null {
+    try {
+        switch (type) {
+            case 'image/png':
+                return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+            case 'image/gif':
+                return { width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+            case 'image/bmp':
+                return { width: buffer.readInt32LE(18), height: Math.abs(buffer.readInt32LE(22)) };
+            case 'image/webp':
+                return readWebpDimensions(buffer);
+            case 'image/jpeg':
+                return readJpegDimensions(buffer);
+            case 'image/avif': {
+                // The 'ispe' property box holds the image extent
+                const ispe = buffer.indexOf('ispe');
+                if (ispe < 0) return null;
+                return { width: buffer.readUInt32BE(ispe + 8), height: buffer.readUInt32BE(ispe + 12) };
+            }
+        }
+    } catch {
+        return null; // Read past the end of a truncated header
+    }
+    return null;
+}
+
+function readWebpDimensions(buffer: Buffer): { width: number; height: number } | null {
+    const chunk = buffer.toString('ascii', 12, 16);
+    if (chunk === 'VP8 ') {
+        return { width: buffer.readUInt16LE(26) & 0x3fff, height: buffer.readUInt16LE(28) & 0x3fff };
+    }
+    if (chunk === 'VP8L') {
+        const bits = buffer.readUInt32LE(21);
+        return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (chunk === 'VP8X') {
+        return { width: buffer.readUIntLE(24, 3) + 1, height: buffer.readUIntLE(27, 3) + 1 };
+    }
+    return null;
+}
+
+function readJpegDimensions(buffer: Buffer): { width: number; height: number } | null {
+    let offset = 2;
+    while (offset + 9 < buffer.length) {
+        if (buffer[offset] !== 0xff) {
+            offset++;
+            continue;
+        }
+        const marker = buffer[offset + 1];
+        // Start-of-frame markers carry the size (C4, C8 and CC are other tables)
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+            return { width: buffer.readUInt16BE(offset + 7), height: buffer.readUInt16BE(offset + 5) };
+        }
+        // Fill bytes and markers without a length
+        if (marker === 0xff || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd9)) {
+            offset += marker === 0xff ? 1 : 2;
+            continue;
+        }
+        offset += 2 + buffer.readUInt16BE(offset + 2);
+    }
+    return null;
+}
+
+// Declared types worth reading the body for; the bytes still decide
+function isAcceptableContentType(header: string | undefined): boolean {
+    if (!header) return true;
+    const type = header.split(';')[0].trim().toLowerCase();
+    return type.startsWith('image/') || type === 'application/octet-stream' || type === 'binary/octet-stream';
+}
+
+// ============================================
+// Fetching
+// ============================================
+
+interface RawResponse {
+    status: number;
+    headers: http.IncomingHttpHeaders;
+    body: Buffer;
+}
+
+interface RequestOptions extends Required<Pick<SafeFetchOptions, 'maxBytes' | 'timeoutMs'>> {
+    lookup?: LookupFunction;
+    /** Stop reading (without failing) after this many bytes */
+    truncateAt?: number;
+    /** Refuse non-image content types and skip error bodies (false for data files and webhooks) */
+    imagesOnly: boolean;
+    method?: 'GET' | 'POST';
+    headers?: Record<string, string>;
+    body?: string;
+}
+
+function requestOnce(url: URL, options: RequestOptions): Promise<RawResponse> {
+    const client = url.protocol === 'https:' ? https : http;
+    const { truncateAt, imagesOnly } = options;
+    const subject = imagesOnly ? 'Image' : 'Response';
+    const tooLarge = () => new ImageFetchError(
+        `${subject} too large (max ${Math.round(options.maxBytes / 1024 / 1024)}MB)`,
+        'too_large'
+    );
+
+    return new Promise((resolve, reject) => {
+        const request = client.request(url, {
+            method: options.method ?? 'GET',
+            headers: {
+                'User-Agent': USER_AGENT,
+                ...(imagesOnly ? { 'Accept': 'image/*' } : {}),
+                ...(truncateAt && imagesOnly ? { 'Range': `bytes=0-${truncateAt - 1}` } : {}),
+                ...options.headers,
+            },
+            lookup: options.lookup,
+            timeout: options.timeoutMs,
+        }, (response) => {
+            const status = response.statusCode || 0;
+            const isSuccess = status >= 200 && status < 300;
+
+            // Redirects (and errors, for images): the body doesn't matter
+            if ((status >= 300 && status < 400) || (!isSuccess && imagesOnly)) {
+                response.resume();
+                resolve({ status, headers: response.headers, body: Buffer.alloc(0) });
+                return;
+            }
+
+            if (isSuccess && imagesOnly && !isAcceptableContentType(response.headers['content-type'])) {
+                response.destroy();
+                reject(new ImageFetchError(`Not an image: ${response.headers['content-type']}`, 'unsupported_type'));
+                return;
+            }
+
+            const declaredLength = Number(response.headers['content-length'] || 0);
+            if (!truncateAt && declaredLength > options.maxBytes) {
+                response.destroy();
+                reject(tooLarge());
+                return;
+            }
+
+            const chunks: Buffer[] = [];
+            let received = 0;
+            response.on('data', (chunk: Buffer) => {
+                received += chunk.length;
+                if (truncateAt && received >= truncateAt) {
+                    chunks.push(chunk);
+                    response.destroy();
+                    resolve({ status, headers: response.headers, body: Buffer.concat(chunks).subarray(0, truncateAt) });
+                    return;
+                }
+                if (received > options.maxBytes) {
+                    response.destroy();
+                    reject(tooLarge());
+                    return;
+                }
+                chunks.push(chunk);
+            });
+            response.on('end', () => resolve({ status, headers: response.headers, body: Buffer.concat(chunks) }));
+            response.on('error', reject);
+        });
+
+        request.on('timeout', () => {
+            request.destroy(new ImageFetchError('Request timeout', 'timeout'));
+        });
+        request.on('error', (error) => {
+            if (error instanceof ImageFetchError) return reject(error);
+            reject(new ImageFetchError(
+                `${imagesOnly ? 'Failed to fetch image' : 'Request failed'}: ${error.message}`,
+                'upstream_error'
+            ));
+        });
+        request.end(options.body);
+    });
+}
+
+/**
+ * Send a request with every hop vetted; resolves with the final non-redirect response
+ */
+async function requestFollowingRedirects(
+    rawUrl: string,
+    options: SafeFetchOptions,
+    request: Omit<RequestOptions, 'maxBytes' | 'timeoutMs' | 'lookup'>
+): Promise<{ response: RawResponse; url: URL }> {
+    const maxRedirects = options.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+    const requestOptions = {
+        ...request,
+        maxBytes: options.maxBytes ?? DEFAULT_MAX_BYTES,
+        timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    };
+    const trustedHosts = options.trustedHosts ?? defaultTrustedHosts();
+    const guardedLookup = createGuardedLookup(options.lookup ?? dns.lookup);
+
+    let url = validateImageUrl(rawUrl, { ...options, trustedHosts });
+
+    for (let redirects = 0; ; redirects++) {
+        const trusted = hostMatches(url.hostname.replace(/^\[|\]$/g, ''), trustedHosts);
+        const response = await requestOnce(url, {
+            ...requestOptions,
+            lookup: trusted ? options.lookup : guardedLookup,
+        });
+
+        if (response.status >= 300 && response.status < 400 && response.headers.location) {
+            if (redirects >= maxRedirects) {
+                throw new ImageFetchError(
+                    maxRedirects === 0 ? `Redirected to ${response.headers.location}` : `Too many redirects (max ${maxRedirects})`,
+                    'too_many_redirects'
+                );
+            }
+            // Every hop gets the same checks as the original URL
+            url = validateImageUrl(new URL(response.headers.location, url).toString(), { ...options, trustedHosts });
+            continue;
+        }
+
+        return { response, url };
+    }
+}
+
+/**
+ * Fetch an image URL; anything but a 2xx answer is an upstream error
+ */
+async function requestImage(
+    rawUrl: string,
+    options: SafeFetchOptions,
+    truncateAt?: number
+): Promise<{ response: RawResponse; url: URL }> {
+    const result = await requestFollowingRedirects(rawUrl, options, { imagesOnly: true, truncateAt });
+    const { status } = result.response;
+    if (status < 200 || status >= 300) {
+        throw new ImageFetchError(`Failed to fetch image: HTTP ${status}`, 'upstream_error', status);
+    }
+    return result;
+}
+
+function unsupportedImageError(body: Buffer): ImageFetchError {
+    const format = describeUnsupportedFormat(body);
+    return new ImageFetchError(
+        format ? `${format} images are not supported` : 'Response is not a supported image',
+        'unsupported_type'
+    );
+}
+
+/**
+ * Fetch an image from a user-supplied URL with SSRF protection
+ * @throws ImageFetchError when the URL is refused, the fetch fails or the body isn't an image
+ */
+export async function fetchImageSafely(rawUrl: string, options: SafeFetchOptions = {}): Promise<FetchedImage> {
+    const { response, url } = await requestImage(rawUrl, options);
+
+    const contentType = detectImageType(response.body);
+    if (!contentType) throw unsupportedImageError(response.body);
+
+    return { buffer: response.body, contentType, finalUrl: url.toString() };
+}
+
+/**
+ * Check an image without downloading all of it
+ * Reads the first 64KB (a range request where the server supports it) for
+ * the real type and pixel size, and the full size from the headers.
+ * @throws ImageFetchError like fetchImageSafely, including too_large for files over the cap
+ */
+export async function probeImage(rawUrl: string, options: SafeFetchOptions = {}): Promise<ImageProbe> {
+    const { response, url } = await requestImage(rawUrl, options, PROBE_BYTES);
+
+    const contentType = detectImageType(response.body);
+    if (!contentType) throw unsupportedImageError(response.body);
+
+    // "bytes 0-65535/1234567" on a range reply, otherwise the plain length
+    const rangeTotal = /\/(\d+)$/.exec(String(response.headers['content-range'] || ''));
+    const length = rangeTotal ? Number(rangeTotal[1]) : response.status === 200 ? Number(response.headers['content-length'] || 0) : 0;
+    const bytes = length > 0 ? length : null;
+
+    const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+    if (bytes !== null && bytes > maxBytes) {
+        throw new ImageFetchError(`Image too large (max ${Math.round(maxBytes / 1024 / 1024)}MB)`, 'too_large');
+    }
+
+    const dimensions = readImageDimensions(response.body, contentType);
+    return {
+        contentType,
+        width: dimensions?.width ?? null,
+        height: dimensions?.height ?? null,
+        bytes,
+        finalUrl: url.toString(),
+    };
+}
+
+export interface ImageCheckResult {
+    url: string;
+    probe: ImageProbe | null;
+    error: { code: ImageFetchErrorCode; message: string } | null;
+}
+
+/**
+ * Probe many images, a few at a time
+ * Failures are reported per URL instead of thrown.
+ */
+export async function probeImages(
+    urls: string[],
+    options: SafeFetchOptions & { concurrency?: number } = {}
+): Promise<ImageCheckResult[]> {
+    const results: ImageCheckResult[] = new Array(urls.length);
+    let next = 0;
+
+    const worker = async () => {
+        while (next < urls.length) {
+            const index = next++;
+            const url = urls[index];
+            try {
+                results[index] = { url, probe: await probeImage(url, options), error: null };
+            } catch (error) {
+                results[index] = {
+                    url,
+                    probe: null,
+                    error: error instanceof ImageFetchError
+                        ? { code: error.code, message: error.message }
+                        : { code: 'upstream_error', message: error instanceof Error ? error.message : 'Failed to fetch image' },
+                };
+            }
+        }
+    };
+
+    const workers = Math.max(1, Math.min(options.concurrency ?? 6, urls.length));
+    await Promise.all(Array.from({ length: workers }, worker));
+    return results;
+}
+
+// ============================================
+// Other user-supplied URLs
+// ============================================
+
+export interface SafeRequestOptions extends SafeFetchOptions {
+    method?: 'GET' | 'POST';
+    headers?: Record<string, string>;
+    body?: string;
+    /** Keep only this many bytes of the body instead of failing on long ones */
+    truncateAt?: number;
+}
+
+export interface SafeResponse {
+    status: number;
+    ok: boolean;
+    headers: http.IncomingHttpHeaders;
+    body: Buffer;
+    /** URL the response came from after redirects */
+    finalUrl: string;
+}
+
+/**
+ * Request a user-supplied URL that isn't an image (data files, webhook endpoints)
+ * Same address, redirect, timeout and size checks as images, but any content
+ * type is read and error responses resolve with their body, like fetch.
+ * The image host allow-list doesn't apply.
+ * @throws ImageFetchError when the URL is refused, the request fails or the body is over the cap
+ */
+export async function requestSafely(rawUrl: string, options: SafeRequestOptions = {}): Promise<SafeResponse> {
+    const { method, headers, body, truncateAt, ...fetchOptions } = options;
+    const { response, url } = await requestFollowingRedirects(
+        rawUrl,
+        { allowedHosts: [], ...fetchOptions },
+        { imagesOnly: false, method, headers, body, truncateAt }
+    );
+
+    return {
+        status: response.status,
+        ok: response.status >= 200 && response.status < 300,
+        headers: response.headers,
+        body: response.body,
+        finalUrl: url.toString(),
+    };
+}
+
+/**
+ * Check that a URL's host resolves to public addresses only
+ * For vetting URLs when they are saved (webhook endpoints); requests are
+ * still checked again at connect time.
+ * @throws ImageFetchError when the URL is malformed, doesn't resolve or resolves to a private address
+ */
+export async function assertPublicUrl(
+    rawUrl: string,
+    options: Pick<SafeFetchOptions, 'lookup'> = {}
+): Promise<URL> {
+    const url = validateImageUrl(rawUrl, { allowedHosts: [], trustedHosts: [] });
+    const hostname = url.hostname.replace(/^\[|\]$/g, '');
+    if (net.isIP(hostname)) return url;
+
+    const lookup = createGuardedLookup(options.lookup ?? dns.lookup);
+    await new Promise<void>((resolve, reject) => {
+        lookup(hostname, { all: true }, (error) => {
+            if (!error) return resolve();
+            reject(error instanceof ImageFetchError
+                ? error
+                : new ImageFetchError(`Could not resolve ${hostname}`, 'invalid_url'));
+        });
+    });
+    return url;
+}
+
+/**
+ * The original URL behind an /api/proxy-image?url=... link, or the URL itself
+ */
+export function unwrapProxyUrl(url: string): string {
+    if (!url.startsWith('/api/proxy-image')) return url;
+    const original = new URLSearchParams(url.split('?')[1] || '').get('url');
+    return original || url;
+}
@@ -0,0 +1,70 @@
+/**
+ * Unit tests for server-side pin encoding and size budgets
+ */
+
+import sharp from 'sharp';
+import { encodePin, FileSizeBudgetError, qualitySteps } from '../encode';
+import { resolveOutputOptions } from '../formats';
+
+// Noisy image so lossy quality settings visibly change the file size
+async function renderedPin(width = 200, height = 300): Promise<Buffer> {
+    const pixels = Buffer.alloc(width * height * 4);
+    for (let i = 0; i < pixels.length; i += 4) {
+        pixels[i] = (i * 7) % 256;
+        pixels[i + 1] = (i * 13) % 256;
+        pixels[i + 2] = (i * 31) % 256;
+        pixels[i + 3] = 255;
+    }
+    return sharp(pixels, { raw: { width, height, channels: 4 } }).png().toBuffer();
+}
+
+describe('qualitySteps', () => {
+    it('only tries the requested quality without a budget', () => {
+        expect(qualitySteps(80, false)).toEqual([80]);
+    });
+
+    it('steps down to the quality floor with a budget', () => {
+        expect(qualitySteps(80, true)).toEqual([80, 70, 60, 50, 40, 30]);
+        expect(qualitySteps(75, true)).toEqual([75, 65, 55, 45, 35, 30]);
+        expect(qualitySteps(20, true)).toEqual([20]);
+    });
+});
+
+describe('encodePin', () => {
+    it.each([
+        ['jpeg', 'image/jpeg', 'jpg'],
+        ['png', 'image/png', 'png'],
+        ['webp', 'image/webp', 'webp'],
+        ['avif', 'image/avif', 'avif'],
+    ] as const)('encodes %s with matching content type and extension', async (format, contentType, extension) => {
+        const encoded = await encodePin(await renderedPin(), resolveOutputOptions({ format }));
+
+        expect(encoded.contentType).toBe(contentType);
+        expect(encoded.extension).toBe(extension);
+        const metadata = await sharp(encoded.buffer).metadata();
+        expect(metadata.width).toBe(200);
+        expect(metadata.format).toBe(format === 'avif' ? 'heif' : format);
+    });
+
+    it('steps quality down until the pin fits its budget', async () => {
+        const input = await renderedPin();
+        const full = await encodePin(input, resolveOutputOptions({ format: 'jpeg', quality: 95 }));
+        const budgetKb = Math.floor(full.buffer.length / 1024 / 2);
+
+        const encoded = await encodePin(input, resolveOutputOptions({ format: 'jpeg', quality: 95, maxFileSizeKb: budgetKb }));
+
+        expect(encoded.buffer.length).toBeLessThanOrEqual(budgetKb * 1024);
+        expect(encoded.quality).toBeLessThan(95);
+    });
+
+    it('keeps lossless PNG when it already fits', async () => {
+        const encoded = await encodePin(await renderedPin(), resolveOutputOptions({ format: 'png', maxFileSizeKb: 10000 }));
+        expect(encoded.quality).toBe(100);
+    });
+
+    it('throws when the budget cannot be met', async () => {
+        await expect(
+            encodePin(await renderedPin(), resolveOutputOptions({ format: 'webp', maxFileSizeKb: 1 }))
+        ).rejects.toBeInstanceOf(FileSizeBudgetError);
+    });
+});
@@ -0,0 +1,64 @@
+/**
+ * Unit tests for pin output format helpers
+ */
+
+import {
+    extensionForDownload,
+    formatFromContentType,
+    isOutputFormat,
+    resolveOutputOptions,
+} from '../formats';
+
+describe('resolveOutputOptions', () => {
+    it('defaults to JPEG at its default quality with no budget', () => {
+        expect(resolveOutputOptions()).toEqual({ format: 'jpeg', quality: 80, maxFileSizeKb: null });
+    });
+
+    it('uses the default quality of the chosen format', () => {
+        expect(resolveOutputOptions({ format: 'avif' }).quality).toBe(60);
+        expect(resolveOutputOptions({ format: 'png', quality: null }).quality).toBe(100);
+    });
+
+    it('keeps explicit settings and clamps quality to 1-100', () => {
+        expect(resolveOutputOptions({ format: 'webp', quality: 55, maxFileSizeKb: 300 }))
+            .toEqual({ format: 'webp', quality: 55, maxFileSizeKb: 300 });
+        expect(resolveOutputOptions({ quality: 250 }).quality).toBe(100);
+        expect(resolveOutputOptions({ quality: 0 }).quality).toBe(1);
+    });
+});
+
+describe('formatFromContentType', () => {
+    it('maps image MIME types to formats', () => {
+        expect(formatFromContentType('image/jpeg')).toBe('jpeg');
+        expect(formatFromContentType('image/jpg')).toBe('jpeg');
+        expect(formatFromContentType('image/webp; charset=binary')).toBe('webp');
+        expect(formatFromContentType('image/avif')).toBe('avif');
+    });
+
+    it('returns null for anything else', () => {
+        expect(formatFromContentType('application/octet-stream')).toBeNull();
+        expect(formatFromContentType(null)).toBeNull();
+    });
+});
+
+describe('extensionForDownload', () => {
+    it('prefers the content type', () => {
+        expect(extensionForDownload('image/webp', 'https://cdn.test/pins/1.png')).toBe('webp');
+    });
+
+    it('falls back to the URL extension', () => {
+        expect(extensionForDownload('', 'https://cdn.test/pins/1.avif?v=2')).toBe('avif');
+        expect(extensionForDownload(null, 'https://cdn.test/pins/1.jpeg')).toBe('jpg');
+    });
+
+    it('falls back to png when neither is known', () => {
+        expect(extensionForDownload('application/octet-stream', 'https://cdn.test/pins/1')).toBe('png');
+    });
+});
+
+describe('isOutputFormat', () => {
+    it('accepts only supported formats', () => {
+        expect(isOutputFormat('avif')).toBe(true);
+        expect(isOutputFormat('gif')).toBe(false);
+    });
+});
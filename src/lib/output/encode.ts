@@ -0,0 +1,120 @@
+/**
+ * Server-side pin encoding
+ *
+ * Converts a rendered pin (any format sharp can read, usually lossless PNG from
+ * the canvas) into the requested output format, stepping quality down until the
+ * file fits its size budget.
+ */
+import sharp from 'sharp';
+import { OutputFormat } from '@/types/database.types';
+import {
+    OutputOptions,
+    contentTypeForFormat,
+    extensionForFormat,
+    getOutputFormatInfo,
+    MIN_OUTPUT_QUALITY,
+    QUALITY_STEP,
+} from './formats';
+
+export interface EncodedPin {
+    buffer: Buffer;
+    format: OutputFormat;
+    contentType: string;
+    extension: string;
+    quality: number;
+}
+
+/**
+ * Thrown when a pin can't be made small enough for its size budget
+ */
+export class FileSizeBudgetError extends Error {
+    constructor(
+        public readonly maxFileSizeKb: number,
+        public readonly smallestSizeKb: number,
+        public readonly format: OutputFormat
+    ) {
+        super(
+            `Pin does not fit the ${maxFileSizeKb} KB size budget as ${format.toUpperCase()} ` +
+            `(smallest attempt was ${smallestSizeKb} KB)`
+        );
+        this.name = 'FileSizeBudgetError';
+    }
+}
+
+// Qualities to try, from the requested one down to the floor
+export function qualitySteps(startQuality: number, withBudget: boolean): number[] {
+    if (!withBudget) return [startQuality];
+
+    const steps = [startQuality];
+    for (let q = startQuality - QUALITY_STEP; q > MIN_OUTPUT_QUALITY; q -= QUALITY_STEP) {
+        steps.push(q);
+    }
+    if (startQuality > MIN_OUTPUT_QUALITY) steps.push(MIN_OUTPUT_QUALITY);
+    return steps;
+}
+
+async function encodeAt(
+    input: Buffer,
+    format: OutputFormat,
+    quality: number,
+    quantize: boolean,
+    background: string
+): Promise<Buffer> {
+    const image = sharp(input);
+
+    switch (format) {
+        case 'jpeg':
+            // JPEG has no alpha channel - composite onto the template background
+            return image.flatten({ background }).jpeg({ quality, mozjpeg: true }).toBuffer();
+        case 'png':
+            return quantize
+                ? image.png({ palette: true, quality, compressionLevel: 9 }).toBuffer()
+                : image.png({ compressionLevel: 9 }).toBuffer();
+        case 'webp':
+            return image.webp({ quality }).toBuffer();
+        case 'avif':
+            return image.avif({ quality }).toBuffer();
+    }
+}
+
+/**
+ * Encode a rendered pin
+ * @param input Rendered image bytes
+ * @param options Target format, starting quality and optional size budget
+ * @param background Fill for transparent areas when the format has no alpha (JPEG)
+ * @throws FileSizeBudgetError when even the lowest quality is over budget
+ */
+export async function encodePin(
+    input: Buffer,
+    options: OutputOptions,
+    background = '#ffffff'
+): Promise<EncodedPin> {
+    const { format, quality, maxFileSizeKb } = options;
+    const maxBytes = maxFileSizeKb !== null ? maxFileSizeKb * 1024 : null;
+    const result = (buffer: Buffer, usedQuality: number): EncodedPin => ({
+        buffer,
+        format,
+        contentType: contentTypeForFormat(format),
+        extension: extensionForFormat(format),
+        quality: usedQuality,
+    });
+
+    // Lossless PNG first - quantizing is only worth it when the budget demands it
+    if (getOutputFormatInfo(format).lossless) {
+        const lossless = await encodeAt(input, format, 100, false, background);
+        if (maxBytes === null || lossless.length <= maxBytes) {
+            return result(lossless, 100);
+        }
+    }
+
+    let smallest: Buffer | null = null;
+    for (const q of qualitySteps(quality, maxBytes !== null)) {
+        const buffer = await encodeAt(input, format, q, format === 'png', background);
+        if (maxBytes === null || buffer.length <= maxBytes) {
+            return result(buffer, q);
+        }
+        if (!smallest || buffer.length < smallest.length) smallest = buffer;
+    }
+
+    throw new FileSizeBudgetError(maxFileSizeKb!, Math.ceil(smallest!.length / 1024), format);
+}
@@ -0,0 +1,98 @@
+/**
+ * Pin output formats
+ *
+ * Format metadata (content types, extensions, default qualities) shared by the
+ * browser, the upload routes and the server renderers. Safe to import from
+ * client components - encoding lives in ./encode.
+ */
+import { OutputFormat } from '@/types/database.types';
+
+export interface OutputFormatInfo {
+    format: OutputFormat;
+    label: string;
+    contentType: string;
+    extension: string;
+    defaultQuality: number;
+    lossless: boolean; // Quality only applies once a size budget forces quantization
+}
+
+export const OUTPUT_FORMATS: OutputFormatInfo[] = [
+    { format: 'jpeg', label: 'JPEG', contentType: 'image/jpeg', extension: 'jpg', defaultQuality: 80, lossless: false },
+    { format: 'png', label: 'PNG', contentType: 'image/png', extension: 'png', defaultQuality: 100, lossless: true },
+    { format: 'webp', label: 'WebP', contentType: 'image/webp', extension: 'webp', defaultQuality: 80, lossless: false },
+    { format: 'avif', label: 'AVIF', contentType: 'image/avif', extension: 'avif', defaultQuality: 60, lossless: false },
+];
+
+export const DEFAULT_OUTPUT_FORMAT: OutputFormat = 'jpeg';
+
+// Size budgets step quality down by this much per attempt, but never below the floor
+export const QUALITY_STEP = 10;
+export const MIN_OUTPUT_QUALITY = 30;
+
+export interface OutputOptions {
+    format: OutputFormat;
+    quality: number;               // 1-100
+    maxFileSizeKb: number | null;  // null = no budget
+}
+
+export function isOutputFormat(value: string): value is OutputFormat {
+    return OUTPUT_FORMATS.some(f => f.format === value);
+}
+
+export function getOutputFormatInfo(format: OutputFormat): OutputFormatInfo {
+    return OUTPUT_FORMATS.find(f => f.format === format) ?? OUTPUT_FORMATS[0];
+}
+
+export function contentTypeForFormat(format: OutputFormat): string {
+    return getOutputFormatInfo(format).contentType;
+}
+
+export function extensionForFormat(format: OutputFormat): string {
+    return getOutputFormatInfo(format).extension;
+}
+
+/**
+ * Map a MIME type back to an output format (null for anything else)
+ */
+export function formatFromContentType(contentType: string | null | undefined): OutputFormat | null {
+    if (!contentType) return null;
+    const mime = contentType.split(';')[0].trim().toLowerCase();
+    if (mime === 'image/jpg') return 'jpeg';
+    return OUTPUT_FORMATS.find(f => f.contentType === mime)?.format ?? null;
+}
+
+/**
+ * Fill in defaults for stored or requested output settings
+ * (DB columns and API fields are snake_case and nullable)
+ */
+export function resolveOutputOptions(settings: {
+    format?: OutputFormat | null;
+    quality?: number | null;
+    maxFileSizeKb?: number | null;
+} = {}): OutputOptions {
+    const format = settings.format ?? DEFAULT_OUTPUT_FORMAT;
+    const quality = settings.quality ?? getOutputFormatInfo(format).defaultQuality;
+
+    return {
+        format,
+        quality: Math.min(100, Math.max(1, Math.round(quality))),
+        maxFileSizeKb: settings.maxFileSizeKb ?? null,
+    };
+}
+
+/**
+ * File extension for a downloaded pin
+ * Prefers the response's content type, then the URL, and falls back to png.
+ */
+export function extensionForDownload(contentType: string | null | undefined, url: string): string {
+    const format = formatFromContentType(contentType);
+    if (format) return extensionForFormat(format);
+
+    const match = url.split(/[?#]/)[0].match(/\.([a-z0-9]+)$/i);
+    const urlExtension = match?.[1].toLowerCase();
+    if (urlExtension && OUTPUT_FORMATS.some(f => f.extension === urlExtension || f.format === urlExtension)) {
+        return urlExtension === 'jpeg' ? 'jpg' : urlExtension;
+    }
+
+    return 'png';
+}
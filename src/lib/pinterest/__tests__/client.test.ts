@@ -0,0 +1,170 @@
+/**
+ * Unit tests for the Pinterest API client
+ * Runs against a local HTTP stand-in for api.pinterest.com/v5
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createPin, listBoards, PinterestApiError, refreshAccessToken } from '../client';
+import { needsTokenRefresh } from '../tokens';
+
+interface RecordedRequest {
+    method: string;
+    url: string;
+    headers: http.IncomingHttpHeaders;
+    body: string;
+}
+
+type Handler = (request: RecordedRequest) => { status: number; body: unknown };
+
+let server: http.Server;
+let baseUrl: string;
+let handler: Handler;
+let requests: RecordedRequest[];
+
+beforeAll(async () => {
+    server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+            const recorded = { method: req.method || 'GET', url: req.url || '/', headers: req.headers, body };
+            requests.push(recorded);
+            const reply = handler(recorded);
+            res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(reply.body));
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v5`;
+});
+
+afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+    requests = [];
+    process.env.PINTEREST_APP_ID = 'app-id';
+    process.env.PINTEREST_APP_SECRET = 'app-secret';
+});
+
+describe('refreshAccessToken', () => {
+    it('exchanges the refresh token with the app credentials', async () => {
+        handler = () => ({ status: 200, body: { access_token: 'new-access', refresh_token: 'new-refresh', expires_in: 3600 } });
+
+        const before = Date.now();
+        const tokens = await refreshAccessToken('old-refresh', { baseUrl });
+
+        expect(requests).toHaveLength(1);
+        expect(requests[0].method).toBe('POST');
+        expect(requests[0].url).toBe('/v5/oauth/token');
+        expect(requests[0].headers.authorization).toBe(`Basic ${Buffer.from('app-id:app-secret').toString('base64')}`);
+        expect(Object.fromEntries(new URLSearchParams(requests[0].body))).toEqual({
+            grant_type: 'refresh_token',
+            refresh_token: 'old-refresh',
+        });
+
+        expect(tokens.accessToken).toBe('new-access');
+        expect(tokens.refreshToken).toBe('new-refresh');
+        expect(new Date(tokens.expiresAt).getTime()).toBeGreaterThanOrEqual(before + 3600 * 1000);
+    });
+
+    it('keeps the refresh token when Pinterest does not rotate it', async () => {
+        handler = () => ({ status: 200, body: { access_token: 'new-access', expires_in: 3600 } });
+
+        const tokens = await refreshAccessToken('old-refresh', { baseUrl });
+        expect(tokens.refreshToken).toBeNull();
+    });
+
+    it('throws a non-retryable error for a rejected refresh token', async () => {
+        handler = () => ({ status: 400, body: { code: 1, message: 'Invalid refresh token' } });
+
+        const error = await refreshAccessToken('bad', { baseUrl }).catch(e => e);
+        expect(error).toBeInstanceOf(PinterestApiError);
+        expect(error.status).toBe(400);
+        expect(error.retryable).toBe(false);
+        expect(error.message).toContain('Invalid refresh token');
+    });
+});
+
+describe('listBoards', () => {
+    it('follows bookmarks until every page is read', async () => {
+        handler = ({ url }) => url.includes('bookmark=page2')
+            ? { status: 200, body: { items: [{ id: '2', name: 'Recipes', privacy: 'SECRET' }], bookmark: null } }
+            : { status: 200, body: { items: [{ id: '1', name: 'Travel', description: 'Trips' }], bookmark: 'page2' } };
+
+        const boards = await listBoards('token', { baseUrl });
+
+        expect(requests.map(r => r.headers.authorization)).toEqual(['Bearer token', 'Bearer token']);
+        expect(boards).toEqual([
+            { id: '1', name: 'Travel', description: 'Trips', privacy: 'PUBLIC' },
+            { id: '2', name: 'Recipes', description: null, privacy: 'SECRET' },
+        ]);
+    });
+});
+
+describe('createPin', () => {
+    it('posts the image URL and pin text to the board', async () => {
+        handler = () => ({ status: 201, body: { id: '987654321' } });
+
+        const pinId = await createPin('token', {
+            boardId: 'board-1',
+            imageUrl: 'https://cdn.example.com/pin.jpg',
+            title: 'Summer sale',
+            link: 'https://shop.example.com/sale',
+        }, { baseUrl });
+
+        expect(pinId).toBe('987654321');
+        expect(requests[0].method).toBe('POST');
+        expect(requests[0].url).toBe('/v5/pins');
+        expect(JSON.parse(requests[0].body)).toEqual({
+            board_id: 'board-1',
+            title: 'Summer sale',
+            link: 'https://shop.example.com/sale',
+            media_source: { source_type: 'image_url', url: 'https://cdn.example.com/pin.jpg' },
+        });
+    });
+
+    it('marks rate limits and server errors as retryable', async () => {
+        handler = () => ({ status: 429, body: { code: 8, message: 'Rate limited' } });
+        const rateLimited = await createPin('token', { boardId: 'b', imageUrl: 'https://x.test/a.png' }, { baseUrl }).catch(e => e);
+        expect(rateLimited.retryable).toBe(true);
+        expect(rateLimited.code).toBe(8);
+
+        handler = () => ({ status: 503, body: {} });
+        const unavailable = await createPin('token', { boardId: 'b', imageUrl: 'https://x.test/a.png' }, { baseUrl }).catch(e => e);
+        expect(unavailable.retryable).toBe(true);
+    });
+
+    it('flags rejected access tokens', async () => {
+        handler = () => ({ status: 401, body: { code: 2, message: 'Authentication failed' } });
+
+        const error = await createPin('token', { boardId: 'b', imageUrl: 'https://x.test/a.png' }, { baseUrl }).catch(e => e);
+        expect(error.unauthorized).toBe(true);
+        expect(error.retryable).toBe(false);
+    });
+
+    it('treats an unreachable API as retryable', async () => {
+        const error = await createPin('token', { boardId: 'b', imageUrl: 'https://x.test/a.png' }, {
+            baseUrl: 'http://127.0.0.1:1/v5',
+        }).catch(e => e);
+
+        expect(error).toBeInstanceOf(PinterestApiError);
+        expect(error.status).toBe(0);
+        expect(error.retryable).toBe(true);
+    });
+});
+
+describe('needsTokenRefresh', () => {
+    const NOW = new Date('2026-03-01T12:00:00.000Z');
+
+    it('refreshes tokens that expire within five minutes', () => {
+        expect(needsTokenRefresh('2026-03-01T12:04:00.000Z', NOW)).toBe(true);
+        expect(needsTokenRefresh('2026-03-01T11:00:00.000Z', NOW)).toBe(true);
+        expect(needsTokenRefresh('2026-03-01T13:00:00.000Z', NOW)).toBe(false);
+    });
+
+    it('keeps tokens without a known expiry', () => {
+        expect(needsTokenRefresh(null, NOW)).toBe(false);
+    });
+});
@@ -0,0 +1,62 @@
+/**
+ * Unit tests for building Pinterest pin text from CSV rows
+ */
+
+import { buildPinContent, PIN_DESCRIPTION_MAX_LENGTH, PIN_TITLE_MAX_LENGTH } from '../content';
+
+const ROW = {
+    name: 'Summer   Sale',
+    blurb: 'Everything\nhalf price',
+    url: 'https://shop.example.com/sale?utm_source=pinterest',
+    alt: 'Beach towels on sand',
+    empty: '   ',
+};
+
+describe('buildPinContent', () => {
+    it('returns no text without a mapping', () => {
+        expect(buildPinContent(ROW, null)).toEqual({});
+    });
+
+    it('reads mapped columns and collapses whitespace', () => {
+        expect(buildPinContent(ROW, {
+            title_column: 'name',
+            description_column: 'blurb',
+            link_column: 'url',
+            alt_text_column: 'alt',
+        })).toEqual({
+            title: 'Summer Sale',
+            description: 'Everything half price',
+            link: 'https://shop.example.com/sale?utm_source=pinterest',
+            altText: 'Beach towels on sand',
+        });
+    });
+
+    it('leaves out unmapped, missing and empty columns', () => {
+        expect(buildPinContent(ROW, {
+            title_column: 'empty',
+            description_column: 'missing',
+            link_column: null,
+        })).toEqual({});
+    });
+
+    it('truncates text to the Pinterest limits', () => {
+        const row = { title: 'a'.repeat(300), description: 'b'.repeat(800) };
+        const content = buildPinContent(row, { title_column: 'title', description_column: 'description' });
+
+        expect(content.title).toHaveLength(PIN_TITLE_MAX_LENGTH);
+        expect(content.description).toHaveLength(PIN_DESCRIPTION_MAX_LENGTH);
+    });
+
+    it('only keeps absolute http(s) links', () => {
+        const mapping = { link_column: 'link' };
+
+        expect(buildPinContent({ link: 'javascript:alert(1)' }, mapping)).toEqual({});
+        expect(buildPinContent({ link: 'shop.example.com' }, mapping)).toEqual({});
+        expect(buildPinContent({ link: `https://example.com/${'x'.repeat(2100)}` }, mapping)).toEqual({});
+        expect(buildPinContent({ link: 'http://example.com' }, mapping)).toEqual({ link: 'http://example.com/' });
+    });
+
+    it('stringifies non-string cell values', () => {
+        expect(buildPinContent({ price: 19.99 }, { title_column: 'price' })).toEqual({ title: '19.99' });
+    });
+});
@@ -0,0 +1,123 @@
+/**
+ * Unit tests for publishing schedule math
+ */
+
+import { PublishSchedule } from '@/types/database.types';
+import {
+    listScheduleDays,
+    localDayKey,
+    planPublishSlots,
+    slotTimeForDrop,
+    validatePublishSchedule,
+    zonedTimeToUtc,
+} from '../schedule';
+
+const SCHEDULE: PublishSchedule = {
+    start_date: '2026-03-02',
+    end_date: '2026-03-04',
+    timezone: 'America/New_York',
+    window_start: '09:00',
+    window_end: '17:00',
+    daily_cap: 4,
+};
+
+// Well before the schedule starts
+const NOW = new Date('2026-02-01T00:00:00Z');
+
+describe('zonedTimeToUtc', () => {
+    it('converts local wall-clock time to UTC', () => {
+        expect(zonedTimeToUtc('2026-03-02', 9 * 60, 'America/New_York').toISOString()).toBe('2026-03-02T14:00:00.000Z');
+        expect(zonedTimeToUtc('2026-07-01', 9 * 60, 'America/New_York').toISOString()).toBe('2026-07-01T13:00:00.000Z');
+        expect(zonedTimeToUtc('2026-07-01', 0, 'Asia/Tokyo').toISOString()).toBe('2026-06-30T15:00:00.000Z');
+    });
+
+    it('moves times skipped by a DST jump past the gap', () => {
+        // 02:30 does not exist on 2026-03-08 in New York (clocks jump 02:00 -> 03:00)
+        const instant = zonedTimeToUtc('2026-03-08', 2 * 60 + 30, 'America/New_York');
+        expect(instant.toISOString()).toBe('2026-03-08T07:30:00.000Z');
+        expect(localDayKey(instant, 'America/New_York')).toBe('2026-03-08');
+    });
+});
+
+describe('listScheduleDays', () => {
+    it('lists every day inclusive, across month ends', () => {
+        expect(listScheduleDays({ start_date: '2026-02-27', end_date: '2026-03-02' }))
+            .toEqual(['2026-02-27', '2026-02-28', '2026-03-01', '2026-03-02']);
+    });
+});
+
+describe('validatePublishSchedule', () => {
+    it('accepts a valid schedule', () => {
+        expect(validatePublishSchedule(SCHEDULE)).toBeNull();
+    });
+
+    it('rejects bad ranges, windows, caps and timezones', () => {
+        expect(validatePublishSchedule({ ...SCHEDULE, end_date: '2026-03-01' })).toMatch(/End date/);
+        expect(validatePublishSchedule({ ...SCHEDULE, end_date: '2027-06-01' })).toMatch(/at most/);
+        expect(validatePublishSchedule({ ...SCHEDULE, window_end: '08:00' })).toMatch(/end after/);
+        expect(validatePublishSchedule({ ...SCHEDULE, window_start: '9am' })).toMatch(/HH:MM/);
+        expect(validatePublishSchedule({ ...SCHEDULE, daily_cap: 0 })).toMatch(/Daily cap/);
+        expect(validatePublishSchedule({ ...SCHEDULE, timezone: 'Mars/Olympus' })).toMatch(/timezone/);
+    });
+});
+
+describe('planPublishSlots', () => {
+    const dayOf = (slot: string) => localDayKey(new Date(slot), SCHEDULE.timezone);
+    const perDay = (slots: string[]) => slots.reduce<Record<string, number>>((counts, slot) => {
+        counts[dayOf(slot)] = (counts[dayOf(slot)] || 0) + 1;
+        return counts;
+    }, {});
+
+    it('spreads pins evenly over the days and within the window', () => {
+        const slots = planPublishSlots(6, SCHEDULE, {}, NOW);
+        expect(perDay(slots)).toEqual({ '2026-03-02': 2, '2026-03-03': 2, '2026-03-04': 2 });
+        // Two pins in a 9-17 window land at 11:00 and 15:00 local
+        expect(slots.slice(0, 2)).toEqual(['2026-03-02T16:00:00.000Z', '2026-03-02T20:00:00.000Z']);
+        expect([...slots].sort()).toEqual(slots);
+    });
+
+    it('never exceeds the daily cap and returns fewer slots when full', () => {
+        const slots = planPublishSlots(20, SCHEDULE, {}, NOW);
+        expect(slots).toHaveLength(12);
+        expect(Object.values(perDay(slots))).toEqual([4, 4, 4]);
+    });
+
+    it('counts pins already booked on the board', () => {
+        const slots = planPublishSlots(6, SCHEDULE, { '2026-03-02': 4, '2026-03-03': 3 }, NOW);
+        expect(perDay(slots)).toEqual({ '2026-03-03': 1, '2026-03-04': 4 });
+    });
+
+    it('front-loads when later days cannot absorb an even share', () => {
+        const slots = planPublishSlots(7, SCHEDULE, { '2026-03-04': 4 }, NOW);
+        expect(perDay(slots)).toEqual({ '2026-03-02': 4, '2026-03-03': 3 });
+    });
+
+    it('skips the part of today that has passed', () => {
+        const now = new Date('2026-03-02T21:00:00Z'); // 16:00 in New York
+        const slots = planPublishSlots(3, SCHEDULE, {}, now);
+        expect(slots.every(slot => new Date(slot) > now)).toBe(true);
+        expect(dayOf(slots[0])).toBe('2026-03-02');
+
+        const lateNow = new Date('2026-03-02T22:30:00Z'); // After today's window
+        expect(planPublishSlots(3, SCHEDULE, {}, lateNow).map(dayOf)).not.toContain('2026-03-02');
+    });
+});
+
+describe('slotTimeForDrop', () => {
+    const dayTimes = ['2026-03-02T15:00:00.000Z', '2026-03-02T19:00:00.000Z'];
+
+    it('lands between the neighbouring pins', () => {
+        expect(slotTimeForDrop('2026-03-02', 1, dayTimes, SCHEDULE, NOW)).toBe('2026-03-02T17:00:00.000Z');
+    });
+
+    it('uses the window edges at either end', () => {
+        // Window opens 14:00Z and closes 22:00Z
+        expect(slotTimeForDrop('2026-03-02', 0, dayTimes, SCHEDULE, NOW)).toBe('2026-03-02T14:30:00.000Z');
+        expect(slotTimeForDrop('2026-03-02', 2, dayTimes, SCHEDULE, NOW)).toBe('2026-03-02T20:30:00.000Z');
+        expect(slotTimeForDrop('2026-03-03', 0, [], SCHEDULE, NOW)).toBe('2026-03-03T18:00:00.000Z');
+    });
+
+    it('refuses days whose window has passed', () => {
+        expect(slotTimeForDrop('2026-03-02', 0, [], SCHEDULE, new Date('2026-03-03T00:00:00Z'))).toBeNull();
+    });
+});
@@ -0,0 +1,202 @@
+/**
+ * Pinterest API v5 client (Server-side only)
+ * Thin wrappers around the endpoints the publisher needs: OAuth token refresh,
+ * board listing and pin creation. Every call takes the base URL from
+ * PINTEREST_API_BASE_URL so tests and staging can point at a stand-in.
+ */
+
+const DEFAULT_API_BASE_URL = 'https://api.pinterest.com/v5';
+const REQUEST_TIMEOUT_MS = 15000;
+// Boards are listed 100 at a time; stop paging after this many pages
+const MAX_BOARD_PAGES = 10;
+
+export interface PinterestBoard {
+    id: string;
+    name: string;
+    description: string | null;
+    privacy: string;
+}
+
+export interface PinterestTokens {
+    accessToken: string;
+    refreshToken: string | null; // Only returned when Pinterest rotates the refresh token
+    expiresAt: string;
+}
+
+export interface CreatePinInput {
+    boardId: string;
+    imageUrl: string;
+    title?: string;
+    description?: string;
+    link?: string;
+    altText?: string;
+}
+
+export interface PinterestClientOptions {
+    baseUrl?: string;
+}
+
+/**
+ * Error response from Pinterest (or a network failure reaching it)
+ */
+export class PinterestApiError extends Error {
+    constructor(
+        message: string,
+        public readonly status: number, // 0 when the request never got a response
+        public readonly code: number | null = null
+    ) {
+        super(message);
+        this.name = 'PinterestApiError';
+    }
+
+    /** Rate limits, server errors and network failures are worth retrying */
+    get retryable(): boolean {
+        return this.status === 0 || this.status === 429 || this.status >= 500;
+    }
+
+    /** The access token was rejected - the user has to reconnect */
+    get unauthorized(): boolean {
+        return this.status === 401;
+    }
+}
+
+export function getPinterestApiBaseUrl(options: PinterestClientOptions = {}): string {
+    return (options.baseUrl || process.env.PINTEREST_API_BASE_URL || DEFAULT_API_BASE_URL).replace(/\/+$/, '');
+}
+
+async function pinterestRequest<T>(
+    path: string,
+    init: RequestInit,
+    options: PinterestClientOptions
+): Promise<T> {
+    let response: Response;
+    try {
+        response = await fetch(`${getPinterestApiBaseUrl(options)}${path}`, {
+            ...init,
+            signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Request failed';
+        throw new PinterestApiError(`Pinterest request failed: ${message}`, 0);
+    }
+
+    const text = await response.text();
+    let body: Record<string, unknown> = {};
+    try {
+        body = text ? JSON.parse(text) : {};
+    } catch {
+        // Non-JSON error pages fall through with an empty body
+    }
+
+    if (!response.ok) {
+        const message = typeof body.message === 'string' ? body.message : response.statusText || 'Request failed';
+        const code = typeof body.code === 'number' ? body.code : null;
+        throw new PinterestApiError(`Pinterest API error (${response.status}): ${message}`, response.status, code);
+    }
+
+    return body as T;
+}
+
+/**
+ * Exchange a refresh token for a new access token
+ * Requires PINTEREST_APP_ID and PINTEREST_APP_SECRET.
+ */
+export async function refreshAccessToken(
+    refreshToken: string,
+    options: PinterestClientOptions = {}
+): Promise<PinterestTokens> {
+    const appId = process.env.PINTEREST_APP_ID;
+    const appSecret = process.env.PINTEREST_APP_SECRET;
+    if (!appId || !appSecret) {
+        throw new PinterestApiError('Pinterest app credentials are not configured', 500);
+    }
+
+    const data = await pinterestRequest<{
+        access_token: string;
+        refresh_token?: string;
+        expires_in: number;
+    }>('/oauth/token', {
+        method: 'POST',
+        headers: {
+            'Authorization': `Basic ${Buffer.from(`${appId}:${appSecret}`).toString('base64')}`,
+            'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({
+            grant_type: 'refresh_token',
+            refresh_token: refreshToken,
+        }).toString(),
+    }, options);
+
+    return {
+        accessToken: data.access_token,
+        refreshToken: data.refresh_token ?? null,
+        expiresAt: new Date(Date.now() + data.expires_in * 1000).toISOString(),
+    };
+}
+
+/**
+ * List every board the token's account can pin to
+ */
+export async function listBoards(
+    accessToken: string,
+    options: PinterestClientOptions = {}
+): Promise<PinterestBoard[]> {
+    const boards: PinterestBoard[] = [];
+    let bookmark: string | null = null;
+
+    for (let page = 0; page < MAX_BOARD_PAGES; page++) {
+        const params = new URLSearchParams({ page_size: '100' });
+        if (bookmark) params.set('bookmark', bookmark);
+
+        const data: { items?: Record<string, unknown>[]; bookmark?: string | null } = await pinterestRequest(
+            `/boards?${params.toString()}`,
+            { headers: { 'Authorization': `Bearer ${accessToken}` } },
+            options
+        );
+
+        for (const item of data.items || []) {
+            boards.push({
+                id: String(item.id),
+                name: String(item.name ?? ''),
+                description: typeof item.description === 'string' && item.description ? item.description : null,
+                privacy: String(item.privacy ?? 'PUBLIC'),
+            });
+        }
+
+        bookmark = data.bookmark || null;
+        if (!bookmark) break;
+    }
+
+    return boards;
+}
+
+/**
+ * Create a pin from a publicly reachable image URL
+ * @returns The new Pinterest pin id
+ */
+export async function createPin(
+    accessToken: string,
+    input: CreatePinInput,
+    options: PinterestClientOptions = {}
+): Promise<string> {
+    const data = await pinterestRequest<{ id: string }>('/pins', {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+            board_id: input.boardId,
+            title: input.title,
+            description: input.description,
+            link: input.link,
+            alt_text: input.altText,
+            media_source: {
+                source_type: 'image_url',
+                url: input.imageUrl,
+            },
+        }),
+    }, options);
+
+    return String(data.id);
+}
@@ -0,0 +1,68 @@
+import { PinContentMapping } from '@/types/database.types';
+
+/**
+ * Pin text for Pinterest publishing
+ * Safe to import from client components (the campaign page previews it).
+ */
+
+// Pinterest rejects longer values
+export const PIN_TITLE_MAX_LENGTH = 100;
+export const PIN_DESCRIPTION_MAX_LENGTH = 500;
+export const PIN_ALT_TEXT_MAX_LENGTH = 500;
+export const PIN_LINK_MAX_LENGTH = 2048;
+
+export interface PinContent {
+    title?: string;
+    description?: string;
+    link?: string;
+    altText?: string;
+}
+
+function readColumn(
+    dataRow: Record<string, unknown>,
+    column: string | null | undefined,
+    maxLength: number
+): string | undefined {
+    if (!column) return undefined;
+
+    const value = dataRow[column];
+    if (value === null || value === undefined) return undefined;
+
+    const text = String(value).replace(/\s+/g, ' ').trim();
+    return text ? text.slice(0, maxLength).trim() : undefined;
+}
+
+// Pinterest only accepts absolute http(s) destination links
+function readLink(dataRow: Record<string, unknown>, column: string | null | undefined): string | undefined {
+    const value = readColumn(dataRow, column, Infinity);
+    if (!value || value.length > PIN_LINK_MAX_LENGTH) return undefined;
+
+    try {
+        const url = new URL(value);
+        return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Build a pin's title, description, link and alt text from its CSV row
+ * Empty or missing columns are left out; overlong text is truncated.
+ */
+export function buildPinContent(
+    dataRow: Record<string, unknown>,
+    mapping: PinContentMapping | null
+): PinContent {
+    if (!mapping) return {};
+
+    const content: PinContent = {
+        title: readColumn(dataRow, mapping.title_column, PIN_TITLE_MAX_LENGTH),
+        description: readColumn(dataRow, mapping.description_column, PIN_DESCRIPTION_MAX_LENGTH),
+        link: readLink(dataRow, mapping.link_column),
+        altText: readColumn(dataRow, mapping.alt_text_column, PIN_ALT_TEXT_MAX_LENGTH),
+    };
+
+    return Object.fromEntries(
+        Object.entries(content).filter(([, value]) => value !== undefined)
+    ) as PinContent;
+}
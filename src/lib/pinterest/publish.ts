@@ -0,0 +1,53 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { inngest } from '@/inngest/client';
+import { scheduleCampaignPins } from './scheduler';
+
+/**
+ * Pinterest publish requests (Server-side only)
+ * Hands a campaign to the Inngest publish-pins function, which posts every
+ * generated pin that has not been published yet.
+ */
+
+export interface PublishPinsEventData {
+    campaignId: string;
+    dueBefore?: string; // Set by the queue drain: post scheduled pins due by this time
+}
+
+/**
+ * Queue a campaign for publishing
+ * @param auto Auto-post requests are deduplicated so completion being reported
+ *             from several places only publishes once
+ */
+export async function requestCampaignPublish(campaignId: string, auto = false): Promise<void> {
+    await inngest.send({
+        name: 'pinterest/publish.requested',
+        ...(auto ? { id: `pinterest-auto-publish-${campaignId}` } : {}),
+        data: { campaignId } satisfies PublishPinsEventData,
+    });
+}
+
+/**
+ * Queue publishing if the campaign has finished generating and has auto_post on
+ * Campaigns with a publish schedule get their pins slotted into the queue
+ * instead of posted at once. Never throws - a publishing problem must not fail
+ * generation.
+ */
+export async function queueAutoPublishIfCompleted(client: SupabaseClient, campaignId: string): Promise<void> {
+    try {
+        const { data: campaign } = await client
+            .from('campaigns')
+            .select('status, auto_post, publish_schedule')
+            .eq('id', campaignId)
+            .maybeSingle();
+
+        if (campaign?.status !== 'completed' || !campaign.auto_post) return;
+
+        if (campaign.publish_schedule) {
+            await scheduleCampaignPins(client, campaignId);
+        } else {
+            await requestCampaignPublish(campaignId, true);
+        }
+    } catch (error) {
+        console.error('[Pinterest] Failed to queue auto-publish:', error);
+    }
+}
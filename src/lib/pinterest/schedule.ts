@@ -0,0 +1,227 @@
+import { PublishSchedule } from '@/types/database.types';
+
+/**
+ * Publishing schedule math
+ * Plans when each pin of a campaign is posted: pins are spread evenly over the
+ * schedule's days, never more than daily_cap per board per day, and evenly
+ * within each day's posting window. All calendar math happens in the
+ * schedule's timezone. Safe to import from client components (the calendar
+ * uses it to place dragged pins).
+ */
+
+export const MAX_DAILY_CAP = 100;
+export const MAX_SCHEDULE_DAYS = 366;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/** Pins already booked on the board, keyed by local day (YYYY-MM-DD) */
+export type DayBookings = Record<string, number>;
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+    let formatter = formatterCache.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit',
+            second: '2-digit',
+        });
+        formatterCache.set(timeZone, formatter);
+    }
+    return formatter;
+}
+
+function zonedParts(instant: Date, timeZone: string) {
+    const parts = getFormatter(timeZone).formatToParts(instant);
+    const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+    return {
+        year: get('year'),
+        month: get('month'),
+        day: get('day'),
+        hour: get('hour'),
+        minute: get('minute'),
+        second: get('second'),
+    };
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        getFormatter(timeZone);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/** "HH:MM" -> minutes after midnight (null if malformed) */
+export function parseTimeOfDay(value: string): number | null {
+    const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(value);
+    return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+export function formatTimeOfDay(minutes: number): string {
+    return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/** Local calendar day (YYYY-MM-DD) of an instant */
+export function localDayKey(instant: Date, timeZone: string): string {
+    const { year, month, day } = zonedParts(instant, timeZone);
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/** Minutes after local midnight of an instant */
+export function localMinutes(instant: Date, timeZone: string): number {
+    const { hour, minute } = zonedParts(instant, timeZone);
+    return hour * 60 + minute;
+}
+
+// Offset of the timezone from UTC at an instant, in ms
+function timeZoneOffset(instantMs: number, timeZone: string): number {
+    const { year, month, day, hour, minute, second } = zonedParts(new Date(instantMs), timeZone);
+    return Date.UTC(year, month - 1, day, hour, minute, second) - Math.floor(instantMs / 1000) * 1000;
+}
+
+/**
+ * Instant of a local day + time in a timezone
+ * Times skipped by a DST jump resolve to the instant just after the gap.
+ */
+export function zonedTimeToUtc(day: string, minutes: number, timeZone: string): Date {
+    const [year, month, date] = day.split('-').map(Number);
+    const wallClock = Date.UTC(year, month - 1, date, 0, minutes);
+
+    const firstOffset = timeZoneOffset(wallClock, timeZone);
+    const secondOffset = timeZoneOffset(wallClock - firstOffset, timeZone);
+    if (timeZoneOffset(wallClock - secondOffset, timeZone) === secondOffset) {
+        return new Date(wallClock - secondOffset);
+    }
+
+    // Neither offset reproduces the wall clock: it is inside the gap
+    return new Date(Math.max(wallClock - firstOffset, wallClock - secondOffset));
+}
+
+function dayKeyToUtcMs(day: string): number {
+    const [year, month, date] = day.split('-').map(Number);
+    return Date.UTC(year, month - 1, date);
+}
+
+/** The calendar day after a YYYY-MM-DD day */
+export function nextDayKey(day: string): string {
+    return new Date(dayKeyToUtcMs(day) + DAY_MS).toISOString().slice(0, 10);
+}
+
+/** Every local day of the schedule, in order */
+export function listScheduleDays(schedule: Pick<PublishSchedule, 'start_date' | 'end_date'>): string[] {
+    const days: string[] = [];
+    const end = dayKeyToUtcMs(schedule.end_date);
+    for (let t = dayKeyToUtcMs(schedule.start_date); t <= end && days.length < MAX_SCHEDULE_DAYS; t += DAY_MS) {
+        days.push(new Date(t).toISOString().slice(0, 10));
+    }
+    return days;
+}
+
+/**
+ * Describe what is wrong with a schedule (null when it is valid)
+ */
+export function validatePublishSchedule(schedule: PublishSchedule): string | null {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(schedule.start_date) || !/^\d{4}-\d{2}-\d{2}$/.test(schedule.end_date)) {
+        return 'Dates must be YYYY-MM-DD';
+    }
+    if (schedule.end_date < schedule.start_date) return 'End date must be on or after the start date';
+    if ((dayKeyToUtcMs(schedule.end_date) - dayKeyToUtcMs(schedule.start_date)) / DAY_MS >= MAX_SCHEDULE_DAYS) {
+        return `A schedule can span at most ${MAX_SCHEDULE_DAYS} days`;
+    }
+    if (!isValidTimeZone(schedule.timezone)) return 'Unknown timezone';
+
+    const windowStart = parseTimeOfDay(schedule.window_start);
+    const windowEnd = parseTimeOfDay(schedule.window_end);
+    if (windowStart === null || windowEnd === null) return 'Posting window times must be HH:MM';
+    if (windowEnd <= windowStart) return 'Posting window must end after it starts';
+
+    if (!Number.isInteger(schedule.daily_cap) || schedule.daily_cap < 1 || schedule.daily_cap > MAX_DAILY_CAP) {
+        return `Daily cap must be between 1 and ${MAX_DAILY_CAP}`;
+    }
+    return null;
+}
+
+/**
+ * Posting window of one day as instants, clipped so it never starts before now
+ * @returns null when nothing of the window is left
+ */
+export function dayWindow(day: string, schedule: PublishSchedule, now: Date): { start: number; end: number } | null {
+    const start = zonedTimeToUtc(day, parseTimeOfDay(schedule.window_start)!, schedule.timezone).getTime();
+    const end = zonedTimeToUtc(day, parseTimeOfDay(schedule.window_end)!, schedule.timezone).getTime();
+
+    // Leave a minute so the first slot isn't already due while it is being saved
+    const clippedStart = Math.max(start, now.getTime() + MINUTE_MS);
+    return clippedStart < end ? { start: clippedStart, end } : null;
+}
+
+/**
+ * Plan publish times for a number of pins
+ * @param bookings Pins already booked on the same board per local day (other campaigns, posted pins)
+ * @returns ISO timestamps in ascending order - fewer than count when the schedule is full
+ */
+export function planPublishSlots(
+    count: number,
+    schedule: PublishSchedule,
+    bookings: DayBookings = {},
+    now: Date = new Date()
+): string[] {
+    const days = listScheduleDays(schedule)
+        .map(day => ({
+            window: dayWindow(day, schedule, now),
+            capacity: Math.max(0, schedule.daily_cap - (bookings[day] || 0)),
+        }))
+        .filter((d): d is { window: { start: number; end: number }; capacity: number } => d.window !== null && d.capacity > 0);
+
+    const slots: string[] = [];
+    let remaining = count;
+    let laterCapacity = days.reduce((sum, d) => sum + d.capacity, 0);
+
+    days.forEach((d, index) => {
+        laterCapacity -= d.capacity;
+        if (remaining <= 0) return;
+
+        // Even share of what is left, but never so few that later days can't absorb the rest
+        const evenShare = Math.ceil(remaining / (days.length - index));
+        const quota = Math.min(d.capacity, remaining, Math.max(evenShare, remaining - laterCapacity));
+
+        const step = (d.window.end - d.window.start) / quota;
+        for (let i = 0; i < quota; i++) {
+            const at = Math.floor((d.window.start + (i + 0.5) * step) / MINUTE_MS) * MINUTE_MS;
+            slots.push(new Date(at).toISOString());
+        }
+        remaining -= quota;
+    });
+
+    return slots;
+}
+
+/**
+ * Publish time for a pin dropped into a day of the calendar
+ * Lands halfway between the pins it was dropped between (or the window edges).
+ * @param dayTimes ISO times of the day's other pins, ascending
+ * @param index Position the pin was dropped at among them
+ */
+export function slotTimeForDrop(
+    day: string,
+    index: number,
+    dayTimes: string[],
+    schedule: PublishSchedule,
+    now: Date = new Date()
+): string | null {
+    const window = dayWindow(day, schedule, now);
+    if (!window) return null;
+
+    const before = index > 0 ? new Date(dayTimes[index - 1]).getTime() : window.start;
+    const after = index < dayTimes.length ? new Date(dayTimes[index]).getTime() : window.end;
+    const at = Math.max(window.start, Math.floor((before + after) / 2 / MINUTE_MS) * MINUTE_MS);
+    return new Date(at).toISOString();
+}
@@ -0,0 +1,110 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { PublishSchedule } from '@/types/database.types';
+import { getBoardBookings, listSchedulablePinIds, saveScheduleSlots } from '@/lib/db/publishQueue';
+import { getPinterestConnection } from './tokens';
+import { listScheduleDays, nextDayKey, planPublishSlots, zonedTimeToUtc } from './schedule';
+
+/**
+ * Campaign publish scheduling (Server-side only)
+ * Turns a campaign's publish_schedule into per-pin slots. A full replan moves
+ * every unposted pin (the schedule changed); otherwise only pins without a slot
+ * are fitted around the existing ones, so slots moved by hand stay put.
+ */
+
+export interface ScheduleResult {
+    scheduled: number;
+    unscheduled: number; // Pins that did not fit the date range / daily cap
+    firstSlot: string | null;
+    lastSlot: string | null;
+}
+
+/**
+ * The [from, to) instants a schedule's days cover
+ */
+export function scheduleRange(schedule: PublishSchedule): { from: Date; to: Date } {
+    const days = listScheduleDays(schedule);
+    return {
+        from: zonedTimeToUtc(days[0], 0, schedule.timezone),
+        to: zonedTimeToUtc(nextDayKey(days[days.length - 1]), 0, schedule.timezone),
+    };
+}
+
+/**
+ * Board a campaign publishes to (its own, or the user's default)
+ */
+export async function resolveCampaignBoard(
+    client: SupabaseClient,
+    campaign: { user_id: string; pinterest_board_id: string | null }
+): Promise<string | null> {
+    if (campaign.pinterest_board_id) return campaign.pinterest_board_id;
+    const connection = await getPinterestConnection(client, campaign.user_id);
+    return connection?.default_pinterest_board_id ?? null;
+}
+
+/**
+ * Assign publish slots to a campaign's unposted pins
+ * @param replan Reschedule pins that already have a slot too
+ * @returns null when the campaign has no schedule or board, or on a database error
+ */
+export async function scheduleCampaignPins(
+    client: SupabaseClient,
+    campaignId: string,
+    replan = false,
+    now: Date = new Date()
+): Promise<ScheduleResult | null> {
+    try {
+        const { data: campaign, error } = await client
+            .from('campaigns')
+            .select('id, user_id, pinterest_board_id, publish_schedule')
+            .eq('id', campaignId)
+            .maybeSingle();
+
+        if (error || !campaign?.publish_schedule) {
+            if (error) console.error('Error loading campaign schedule:', error);
+            return null;
+        }
+
+        const schedule = campaign.publish_schedule as PublishSchedule;
+        const boardId = await resolveCampaignBoard(client, campaign);
+        if (!boardId) return null;
+
+        const { from, to } = scheduleRange(schedule);
+        const [bookings, pinIds] = await Promise.all([
+            getBoardBookings(client, {
+                userId: campaign.user_id,
+                boardId,
+                from,
+                to,
+                timezone: schedule.timezone,
+                excludeCampaignId: replan ? campaignId : undefined,
+            }),
+            listSchedulablePinIds(client, campaignId, !replan),
+        ]);
+        if (!bookings) return null;
+
+        const slots = planPublishSlots(pinIds.length, schedule, bookings, now);
+        const updated = await saveScheduleSlots(client, campaignId, boardId, pinIds.map((id, i) => ({
+            id,
+            scheduled_at: slots[i] ?? null,
+        })));
+        if (updated === null) return null;
+
+        const firstSlot = slots[0] ?? null;
+        if (replan) {
+            await client
+                .from('campaigns')
+                .update({ schedule_time: firstSlot })
+                .eq('id', campaignId);
+        }
+
+        return {
+            scheduled: slots.length,
+            unscheduled: pinIds.length - slots.length,
+            firstSlot,
+            lastSlot: slots[slots.length - 1] ?? null,
+        };
+    } catch (error) {
+        console.error('Error scheduling campaign pins:', error);
+        return null;
+    }
+}
@@ -0,0 +1,81 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { DbUserPreferences } from '@/types/database.types';
+import { PinterestClientOptions, refreshAccessToken } from './client';
+
+/**
+ * Stored Pinterest credentials (Server-side only)
+ * Tokens live on user_preferences; access tokens are refreshed shortly before
+ * they expire and the new ones are written back.
+ */
+
+// Refresh this long before the stored expiry so a request never races it
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+export type PinterestConnection = Pick<
+    DbUserPreferences,
+    'pinterest_access_token' | 'pinterest_refresh_token' | 'pinterest_token_expires_at' | 'default_pinterest_board_id'
+>;
+
+export function needsTokenRefresh(expiresAt: string | null, now: Date = new Date()): boolean {
+    if (!expiresAt) return false; // Unknown expiry - use the token until Pinterest rejects it
+    return new Date(expiresAt).getTime() - REFRESH_MARGIN_MS <= now.getTime();
+}
+
+export async function getPinterestConnection(
+    client: SupabaseClient,
+    userId: string
+): Promise<PinterestConnection | null> {
+    try {
+        const { data, error } = await client
+            .from('user_preferences')
+            .select('pinterest_access_token, pinterest_refresh_token, pinterest_token_expires_at, default_pinterest_board_id')
+            .eq('user_id', userId)
+            .maybeSingle();
+
+        if (error) {
+            console.error('Error fetching Pinterest connection:', error);
+            return null;
+        }
+
+        return data as PinterestConnection | null;
+    } catch (error) {
+        console.error('Error fetching Pinterest connection:', error);
+        return null;
+    }
+}
+
+/**
+ * Get a usable access token for a user, refreshing it if it is about to expire
+ * @returns null when the user has not connected Pinterest
+ * @throws PinterestApiError when the refresh is rejected
+ */
+export async function getPinterestAccessToken(
+    client: SupabaseClient,
+    userId: string,
+    options: PinterestClientOptions = {}
+): Promise<string | null> {
+    const connection = await getPinterestConnection(client, userId);
+    if (!connection?.pinterest_access_token) return null;
+
+    if (!needsTokenRefresh(connection.pinterest_token_expires_at) || !connection.pinterest_refresh_token) {
+        return connection.pinterest_access_token;
+    }
+
+    const tokens = await refreshAccessToken(connection.pinterest_refresh_token, options);
+
+    const { error } = await client
+        .from('user_preferences')
+        .update({
+            pinterest_access_token: tokens.accessToken,
+            pinterest_refresh_token: tokens.refreshToken ?? connection.pinterest_refresh_token,
+            pinterest_token_expires_at: tokens.expiresAt,
+        })
+        .eq('user_id', userId);
+
+    if (error) {
+        // The new token still works for this request; the next call refreshes again
+        console.error('Error saving refreshed Pinterest token:', error);
+    }
+
+    return tokens.accessToken;
+}
@@ -128,25 +128,35 @@ export async function cacheInvalidatePattern(pattern: string): Promise<void> {
 // RATE LIMITING
 // =============================================================================
 
+export interface RateLimitResult {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+    reset: number; // Unix seconds when a slot frees up
+}
+
 /**
- * Simple rate limiter using sliding window
- * Returns true if allowed, false if rate limit exceeded.
- * If Redis is unavailable, always returns true (no rate limiting).
- * 
- * @example
- * const allowed = await checkRateLimit('generate:user123', 10, 60); // 10 per minute
- * if (!allowed) throw new Error('Rate limit exceeded');
+ * Sliding window rate limiter that also reports quota state
+ * Used where callers need X-RateLimit-* headers (public API).
+ * If Redis is unavailable, always allows (no rate limiting).
  */
-export async function checkRateLimit(
+export async function consumeRateLimit(
     key: string,
     maxRequests: number,
     windowSeconds: number
-): Promise<boolean> {
+): Promise<RateLimitResult> {
+    const now = Date.now();
+    const unlimited: RateLimitResult = {
+        allowed: true,
+        limit: maxRequests,
+        remaining: maxRequests,
+        reset: Math.ceil(now / 1000) + windowSeconds,
+    };
+
     const redis = getRedis();
-    if (!redis) return true; // No rate limiting if Redis unavailable
+    if (!redis) return unlimited; // No rate limiting if Redis unavailable
     
     try {
-        const now = Date.now();
         const windowKey = `ratelimit:${key}`;
         
         // Remove old entries and count current window
@@ -155,20 +165,52 @@ export async function checkRateLimit(
         
         if (count >= maxRequests) {
             console.log(`[RateLimit] Exceeded: ${key} (${count}/${maxRequests})`);
-            return false;
+
+            // The window reopens when the oldest request in it expires
+            const oldest = await redis.zrange<string[]>(windowKey, 0, 0, { withScores: true });
+            const oldestScore = Number(oldest[1]) || now;
+            return {
+                allowed: false,
+                limit: maxRequests,
+                remaining: 0,
+                reset: Math.ceil((oldestScore + windowSeconds * 1000) / 1000),
+            };
         }
         
         // Add current request
-        await redis.zadd(windowKey, { score: now, member: `${now}` });
+        await redis.zadd(windowKey, { score: now, member: `${now}:${Math.random().toString(36).slice(2, 8)}` });
         await redis.expire(windowKey, windowSeconds);
         
-        return true;
+        return {
+            allowed: true,
+            limit: maxRequests,
+            remaining: Math.max(0, maxRequests - count - 1),
+            reset: Math.ceil(now / 1000) + windowSeconds,
+        };
     } catch (error) {
         console.error(`[RateLimit] Redis error, allowing request:`, error);
-        return true; // Allow request on Redis failure
+        return unlimited; // Allow request on Redis failure
     }
 }
 
+/**
+ * Simple rate limiter using sliding window
+ * Returns true if allowed, false if rate limit exceeded.
+ * If Redis is unavailable, always returns true (no rate limiting).
+ * 
+ * @example
+ * const allowed = await checkRateLimit('generate:user123', 10, 60); // 10 per minute
+ * if (!allowed) throw new Error('Rate limit exceeded');
+ */
+export async function checkRateLimit(
+    key: string,
+    maxRequests: number,
+    windowSeconds: number
+): Promise<boolean> {
+    const { allowed } = await consumeRateLimit(key, maxRequests, windowSeconds);
+    return allowed;
+}
+
 // =============================================================================
 // CAMPAIGN PROGRESS TRACKING
 // =============================================================================
@@ -178,7 +220,7 @@ export interface CampaignProgress {
     total: number;
     completed: number;
     failed: number;
-    status: 'pending' | 'processing' | 'completed' | 'failed';
+    status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
     startedAt?: string;
     completedAt?: string;
     errors?: string[];
@@ -215,7 +257,7 @@ export async function setProgress(
         if (progress.status === 'processing') {
             hashData.startedAt = new Date().toISOString();
         }
-        if (progress.status === 'completed' || progress.status === 'failed') {
+        if (progress.status === 'completed' || progress.status === 'failed' || progress.status === 'cancelled') {
             hashData.completedAt = new Date().toISOString();
         }
         
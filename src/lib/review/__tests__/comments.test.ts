@@ -0,0 +1,108 @@
+/**
+ * Unit tests for review comment threads and canvas anchors
+ */
+
+import { DbComment } from '@/types/database.types';
+import { ShapeElement } from '@/types/editor';
+import { createAnchor, findElementAt, groupIntoThreads, resolveAnchor } from '../comments';
+
+// ============================================
+// Test Fixtures
+// ============================================
+
+const shape = (id: string, overrides: Partial<ShapeElement> = {}): ShapeElement => ({
+    id,
+    name: `Shape ${id}`,
+    type: 'shape',
+    x: 100,
+    y: 100,
+    width: 200,
+    height: 100,
+    rotation: 0,
+    opacity: 1,
+    locked: false,
+    visible: true,
+    zIndex: 0,
+    shapeType: 'rect',
+    fill: '#FF0000',
+    stroke: '#000000',
+    strokeWidth: 1,
+    ...overrides,
+});
+
+const comment = (id: string, createdAt: string, overrides: Partial<DbComment> = {}): DbComment => ({
+    id,
+    template_id: 'template-1',
+    pin_id: null,
+    workspace_id: 'ws-1',
+    campaign_id: null,
+    author_id: 'user-1',
+    parent_id: null,
+    body: `Comment ${id}`,
+    element_id: null,
+    anchor_x: null,
+    anchor_y: null,
+    resolved_at: null,
+    resolved_by: null,
+    created_at: createdAt,
+    ...overrides,
+});
+
+// ============================================
+// Tests
+// ============================================
+
+describe('groupIntoThreads', () => {
+    it('puts replies under their thread in order', () => {
+        const threads = groupIntoThreads([
+            comment('reply-2', '2026-01-01T10:05:00Z', { parent_id: 'a' }),
+            comment('b', '2026-01-01T11:00:00Z'),
+            comment('a', '2026-01-01T10:00:00Z'),
+            comment('reply-1', '2026-01-01T10:01:00Z', { parent_id: 'a' }),
+        ]);
+
+        expect(threads.map(t => t.root.id)).toEqual(['a', 'b']);
+        expect(threads[0].replies.map(r => r.id)).toEqual(['reply-1', 'reply-2']);
+        expect(threads[1].replies).toEqual([]);
+    });
+
+    it('drops replies to deleted threads', () => {
+        const threads = groupIntoThreads([comment('orphan', '2026-01-01T10:00:00Z', { parent_id: 'gone' })]);
+
+        expect(threads).toEqual([]);
+    });
+});
+
+describe('findElementAt', () => {
+    it('returns the topmost visible element under the point', () => {
+        const elements = [
+            shape('bottom', { zIndex: 0 }),
+            shape('top', { zIndex: 2 }),
+            shape('hidden', { zIndex: 5, visible: false }),
+        ];
+
+        expect(findElementAt(elements, 150, 150)?.id).toBe('top');
+        expect(findElementAt(elements, 10, 10)).toBeNull();
+    });
+});
+
+describe('comment anchors', () => {
+    it('anchors to the element under the point and follows it', () => {
+        const anchor = createAnchor([shape('a')], 150, 120);
+        expect(anchor).toEqual({ element_id: 'a', anchor_x: 50, anchor_y: 20 });
+
+        expect(resolveAnchor(anchor, [shape('a', { x: 400, y: 500 })])).toEqual({ x: 450, y: 520 });
+    });
+
+    it('anchors to the canvas on empty space', () => {
+        const anchor = createAnchor([shape('a')], 20, 30);
+
+        expect(anchor).toEqual({ element_id: null, anchor_x: 20, anchor_y: 30 });
+        expect(resolveAnchor(anchor, [])).toEqual({ x: 20, y: 30 });
+    });
+
+    it('has no position once the element is deleted', () => {
+        expect(resolveAnchor({ element_id: 'a', anchor_x: 5, anchor_y: 5 }, [])).toBeNull();
+        expect(resolveAnchor({ element_id: null, anchor_x: null, anchor_y: null }, [shape('a')])).toBeNull();
+    });
+});
@@ -0,0 +1,38 @@
+/**
+ * Unit tests for the template review flow
+ */
+
+import { getAllowedStatusTransitions, isTemplateSelectable } from '../templateStatus';
+
+const targets = (...args: Parameters<typeof getAllowedStatusTransitions>) =>
+    getAllowedStatusTransitions(...args).map(t => t.to);
+
+describe('getAllowedStatusTransitions', () => {
+    it('lets editors submit drafts for review', () => {
+        expect(targets('draft', 'editor')).toEqual(['in_review']);
+        expect(targets('draft', 'viewer')).toEqual([]);
+    });
+
+    it('lets any member approve or send back a template in review', () => {
+        expect(targets('in_review', 'viewer')).toEqual(['approved', 'draft']);
+        expect(targets('in_review', 'owner')).toEqual(['approved', 'draft']);
+    });
+
+    it('lets editors reopen approved templates', () => {
+        expect(targets('approved', 'owner')).toEqual(['draft']);
+        expect(targets('approved', 'viewer')).toEqual([]);
+    });
+
+    it('allows nothing outside the workspace', () => {
+        expect(targets('in_review', null)).toEqual([]);
+    });
+});
+
+describe('isTemplateSelectable', () => {
+    it('accepts approved templates only', () => {
+        expect(isTemplateSelectable('approved')).toBe(true);
+        expect(isTemplateSelectable('in_review')).toBe(false);
+        expect(isTemplateSelectable('draft')).toBe(false);
+        expect(isTemplateSelectable(undefined)).toBe(false);
+    });
+});
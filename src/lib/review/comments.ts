@@ -0,0 +1,73 @@
+import { DbComment } from '@/types/database.types';
+import { Element } from '@/types/editor';
+
+/**
+ * Review comment helpers shared by the editor and the campaign pins page
+ */
+
+export interface CommentThread {
+    root: DbComment;
+    replies: DbComment[];
+}
+
+export interface CommentAnchor {
+    element_id: string | null;
+    anchor_x: number;
+    anchor_y: number;
+}
+
+/**
+ * Group comments into threads, oldest first; replies whose thread was
+ * deleted are dropped
+ */
+export function groupIntoThreads(comments: DbComment[]): CommentThread[] {
+    const byCreated = [...comments].sort((a, b) => a.created_at.localeCompare(b.created_at));
+    const threads = new Map<string, CommentThread>();
+
+    for (const comment of byCreated) {
+        if (!comment.parent_id) threads.set(comment.id, { root: comment, replies: [] });
+    }
+    for (const comment of byCreated) {
+        if (comment.parent_id) threads.get(comment.parent_id)?.replies.push(comment);
+    }
+
+    return [...threads.values()];
+}
+
+/**
+ * Topmost visible element under a canvas point (rotation ignored)
+ */
+export function findElementAt(elements: Element[], x: number, y: number): Element | null {
+    return [...elements]
+        .filter(el => el.visible)
+        .sort((a, b) => b.zIndex - a.zIndex)
+        .find(el => x >= el.x && x <= el.x + el.width && y >= el.y && y <= el.y + el.height)
+        ?? null;
+}
+
+/**
+ * Anchor for a comment placed at a canvas point: relative to the element
+ * under it, so the comment follows the element when it moves
+ */
+export function createAnchor(elements: Element[], x: number, y: number): CommentAnchor {
+    const element = findElementAt(elements, x, y);
+    return element
+        ? { element_id: element.id, anchor_x: x - element.x, anchor_y: y - element.y }
+        : { element_id: null, anchor_x: x, anchor_y: y };
+}
+
+/**
+ * Canvas point to draw a thread's marker at, or null when it has no anchor
+ * or its element was deleted
+ */
+export function resolveAnchor(
+    comment: Pick<DbComment, 'element_id' | 'anchor_x' | 'anchor_y'>,
+    elements: Element[]
+): { x: number; y: number } | null {
+    if (comment.anchor_x === null || comment.anchor_y === null) return null;
+    if (!comment.element_id) return { x: Number(comment.anchor_x), y: Number(comment.anchor_y) };
+
+    const element = elements.find(el => el.id === comment.element_id);
+    if (!element) return null;
+    return { x: element.x + Number(comment.anchor_x), y: element.y + Number(comment.anchor_y) };
+}
@@ -0,0 +1,51 @@
+import { TemplateStatus, WorkspaceRole } from '@/types/database.types';
+import { canEditWorkspace } from '@/lib/auth/workspaceRoles';
+
+/**
+ * Template review flow: draft -> in_review -> approved
+ * Only approved templates can start a campaign. The rules here mirror
+ * set_template_status in migration 026, which enforces them.
+ */
+
+export interface StatusTransition {
+    to: TemplateStatus;
+    /** Button label for the move */
+    action: string;
+}
+
+export const TEMPLATE_STATUS_LABELS: Record<TemplateStatus, string> = {
+    draft: 'Draft',
+    in_review: 'In review',
+    approved: 'Approved',
+};
+
+/**
+ * Moves the user can make from a status. Editors submit and reopen;
+ * any member (clients are usually viewers) approves or requests changes.
+ */
+export function getAllowedStatusTransitions(
+    status: TemplateStatus,
+    role: WorkspaceRole | null | undefined
+): StatusTransition[] {
+    if (!role) return [];
+    const canEdit = canEditWorkspace(role);
+
+    switch (status) {
+        case 'draft':
+            return canEdit ? [{ to: 'in_review', action: 'Submit for review' }] : [];
+        case 'in_review':
+            return [
+                { to: 'approved', action: 'Approve' },
+                { to: 'draft', action: 'Request changes' },
+            ];
+        case 'approved':
+            return canEdit ? [{ to: 'draft', action: 'Reopen as draft' }] : [];
+    }
+}
+
+/**
+ * Whether a template can be picked for a new campaign
+ */
+export function isTemplateSelectable(status: TemplateStatus | undefined): boolean {
+    return status === 'approved';
+}
@@ -157,6 +157,20 @@ export function getThumbnailKey(userId: string, templateId: string): string {
     return `thumbnails/${userId}/${templateId}.png`;
 }
 
+/**
+ * Generate S3 key for a template version's thumbnail
+ */
+export function getTemplateVersionThumbnailKey(userId: string, templateId: string, versionId: string): string {
+    return `${getTemplateVersionsPrefix(userId, templateId)}${versionId}.png`;
+}
+
+/**
+ * Generate S3 key prefix for a template's version thumbnails
+ */
+export function getTemplateVersionsPrefix(userId: string, templateId: string): string {
+    return `thumbnails/${userId}/versions/${templateId}/`;
+}
+
 /**
  * Generate S3 key for generated pin
  */
@@ -1,8 +1,10 @@
 /**
- * Server-side Supabase client with Service Role key
- * Bypasses RLS for API routes that need admin access
+ * Server-side Supabase clients
+ * Service Role clients bypass RLS for API routes that need admin access;
+ * the authenticated client acts as the user who made the request.
  */
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { cookies, headers } from 'next/headers';
 
 let serviceRoleClient: SupabaseClient | null = null;
 
@@ -57,3 +59,38 @@ export function createFreshServiceRoleClient(): SupabaseClient {
         },
     });
 }
+
+/**
+ * Creates a Supabase client authenticated as the requesting user
+ * Uses the Authorization header (Bearer token) when present, otherwise the
+ * request cookies. Only call it while handling a request (API routes).
+ * @returns null when the Supabase URL or anon key isn't configured
+ */
+export async function getAuthenticatedSupabase(): Promise<SupabaseClient | null> {
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+    if (!supabaseUrl || !supabaseAnonKey) {
+        console.error('[supabaseServer] Missing Supabase configuration');
+        return null;
+    }
+
+    const cookieStore = await cookies();
+    const headersStore = await headers();
+    const requestHeaders: Record<string, string> = {};
+
+    // Authorization header (Bearer token) is preferred over cookies
+    const authHeader = headersStore.get('authorization');
+    if (authHeader) {
+        requestHeaders['Authorization'] = authHeader;
+    } else {
+        const allCookies = cookieStore.getAll();
+        if (allCookies.length > 0) {
+            requestHeaders['Cookie'] = allCookies.map(c => `${c.name}=${c.value}`).join('; ');
+        }
+    }
+
+    return createClient(supabaseUrl, supabaseAnonKey, {
+        global: { headers: requestHeaders },
+    });
+}
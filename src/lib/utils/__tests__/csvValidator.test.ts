@@ -148,6 +148,35 @@ describe('csvValidator', () => {
         });
     });
 
+    describe('validateCSV with style fields', () => {
+        it('should warn about values that are not colors or opacities', () => {
+            const csvData = [
+                { name: 'A', accent: '#ff6600', fade: '50%' },
+                { name: 'B', accent: 'orange-ish', fade: '1.5' },
+                { name: 'C', accent: 'rgb(0, 0, 0)', fade: '' }
+            ];
+            const fieldMapping = { text1: 'name', accent: 'accent', fade: 'fade' };
+
+            const result = validateCSV(csvData, fieldMapping, ['text1'], { accent: 'color', fade: 'opacity' });
+
+            expect(result.valid).toBe(true);
+            expect(result.warnings.map(w => [w.type, w.rowIndex, w.field])).toEqual([
+                ['invalid_style_value', 1, 'accent'],
+                ['invalid_style_value', 1, 'fade']
+            ]);
+            expect(result.warnings[0].message).toMatch(/not a hex or rgb\(\) color - the fallback is used/);
+        });
+
+        it('should not run text or URL checks on style fields', () => {
+            const csvData = [{ image_tint: '#ffffff' }];
+
+            const result = validateCSV(csvData, { image_tint: 'image_tint' }, [], { image_tint: 'color' });
+
+            expect(result.errors).toHaveLength(0);
+            expect(result.warnings).toHaveLength(0);
+        });
+    });
+
     describe('getValidationSummary', () => {
         it('should return success message for no issues', () => {
             const result: CSVValidationResult = {
@@ -0,0 +1,224 @@
+/**
+ * Unit tests for the CSV / Excel / JSON data source parser
+ */
+
+import JSZip from 'jszip';
+import {
+    detectDataSourceFormat,
+    evaluateJsonPath,
+    MAX_XLSX_PART_SIZE,
+    parseDataSource,
+    parseJsonRows,
+    tableFromMatrix,
+} from '../dataSourceParser';
+
+// ============================================
+// Test Fixtures
+// ============================================
+
+type Cell = string | number | { value: number; style: number } | null;
+
+// Smallest workbook Excel writes: shared strings, one date style and the given sheets
+async function buildWorkbook(sheets: Record<string, Cell[][]>, hidden: string[] = []): Promise<Uint8Array> {
+    const zip = new JSZip();
+    const strings: string[] = [];
+    const names = Object.keys(sheets);
+
+    zip.file('xl/workbook.xml', `<?xml version="1.0"?>
+<workbook xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${names
+        .map((name, i) => `<sheet name="${name}" sheetId="${i + 1}"${hidden.includes(name) ? ' state="hidden"' : ''} r:id="rId${i + 1}"/>`)
+        .join('')}</sheets></workbook>`);
+    zip.file('xl/_rels/workbook.xml.rels', `<?xml version="1.0"?>
+<Relationships>${names.map((_, i) => `<Relationship Id="rId${i + 1}" Type="worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('')}</Relationships>`);
+    zip.file('xl/styles.xml', `<?xml version="1.0"?>
+<styleSheet><numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy\\-mm\\-dd"/></numFmts>
+<cellXfs count="3"><xf numFmtId="0"/><xf numFmtId="14"/><xf numFmtId="164"/></cellXfs></styleSheet>`);
+
+    names.forEach((name, i) => {
+        const rows = sheets[name].map((row, r) => `<row r="${r + 1}">${row.map((cell, c) => {
+            const ref = `${String.fromCharCode(65 + c)}${r + 1}`;
+            if (cell === null) return '';
+            if (typeof cell === 'string') {
+                strings.push(cell);
+                return `<c r="${ref}" t="s"><v>${strings.length - 1}</v></c>`;
+            }
+            if (typeof cell === 'number') return `<c r="${ref}"><v>${cell}</v></c>`;
+            return `<c r="${ref}" s="${cell.style}"><v>${cell.value}</v></c>`;
+        }).join('')}</row>`).join('');
+        zip.file(`xl/worksheets/sheet${i + 1}.xml`, `<?xml version="1.0"?><worksheet><sheetData>${rows}</sheetData></worksheet>`);
+    });
+
+    const escape = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+    zip.file('xl/sharedStrings.xml', `<?xml version="1.0"?>
+<sst>${strings.map(value => `<si><t>${escape(value)}</t></si>`).join('')}</sst>`);
+
+    return zip.generateAsync({ type: 'uint8array' });
+}
+
+// ============================================
+// Tests
+// ============================================
+
+describe('detectDataSourceFormat', () => {
+    it('prefers the file extension', () => {
+        expect(detectDataSourceFormat({ fileName: 'feed.JSON' })).toBe('json');
+        expect(detectDataSourceFormat({ fileName: '/exports/products.xlsx?download=1' })).toBe('xlsx');
+    });
+
+    it('falls back to the content type, then the bytes', () => {
+        expect(detectDataSourceFormat({ contentType: 'application/json; charset=utf-8' })).toBe('json');
+        expect(detectDataSourceFormat({ bytes: new Uint8Array([0x50, 0x4b, 0x03, 0x04]) })).toBe('xlsx');
+        expect(detectDataSourceFormat({ bytes: new TextEncoder().encode('  [{"a":1}]') })).toBe('json');
+        expect(detectDataSourceFormat({ bytes: new TextEncoder().encode('title,price') })).toBe('csv');
+        expect(detectDataSourceFormat({})).toBeNull();
+    });
+});
+
+describe('tableFromMatrix', () => {
+    it('uses the first non-empty row as headers', () => {
+        const { headers, data } = tableFromMatrix([
+            [],
+            ['', ''],
+            [' Title ', 'Price', '', 'Price'],
+            ['Mug', '12', 'ignored', '10'],
+            ['', ''],
+        ]);
+
+        expect(headers).toEqual(['Title', 'Price', 'Price_1']);
+        expect(data).toEqual([{ Title: 'Mug', Price: '12', Price_1: '10' }]);
+    });
+});
+
+describe('parseDataSource (xlsx)', () => {
+    it('reads the first visible sheet and lists the others', async () => {
+        const workbook = await buildWorkbook({
+            Notes: [['hidden']],
+            Products: [['Title', 'Price', 'Launch'], ['Mug & Co', 0.30000000000000004, { value: 45658, style: 1 }]],
+            Archive: [['Title', 'Price'], ['Old', 5]],
+        }, ['Notes']);
+
+        const result = await parseDataSource(workbook, 'xlsx');
+
+        expect(result.success).toBe(true);
+        expect(result.sheets).toEqual(['Products', 'Archive']);
+        expect(result.sheet).toBe('Products');
+        expect(result.data).toEqual([{ Title: 'Mug & Co', Price: '0.3', Launch: '2025-01-01' }]);
+    });
+
+    it('reads a chosen sheet', async () => {
+        const workbook = await buildWorkbook({
+            Products: [['Title', 'Price'], ['Mug', 12]],
+            Archive: [['Title', 'Price'], ['Old', { value: 45658.5, style: 2 }]],
+        });
+
+        const result = await parseDataSource(workbook, 'xlsx', { sheet: 'Archive' });
+
+        expect(result.data).toEqual([{ Title: 'Old', Price: '2025-01-01 12:00:00' }]);
+    });
+
+    it('keeps empty cells as empty strings', async () => {
+        const workbook = await buildWorkbook({ Sheet1: [['Title', 'Price', 'Badge'], ['Mug', null, 'New']] });
+
+        const result = await parseDataSource(workbook, 'xlsx');
+
+        expect(result.data).toEqual([{ Title: 'Mug', Price: '', Badge: 'New' }]);
+    });
+
+    it('applies the same validation as CSV', async () => {
+        const workbook = await buildWorkbook({ Sheet1: [['Title'], ['Mug']] });
+
+        const result = await parseDataSource(workbook, 'xlsx');
+
+        expect(result.success).toBe(false);
+        expect(result.error).toBe('Excel file must have at least 2 columns');
+    });
+
+    it('reports missing sheets and broken files', async () => {
+        const workbook = await buildWorkbook({ Sheet1: [['Title', 'Price']] });
+
+        await expect(parseDataSource(workbook, 'xlsx', { sheet: 'Nope' })).resolves.toMatchObject({ success: false, error: expect.stringContaining('Sheet "Nope" not found') });
+        await expect(parseDataSource(new Uint8Array([1, 2, 3]), 'xlsx')).resolves.toMatchObject({ success: false, error: expect.stringContaining('Failed to parse Excel file') });
+    });
+
+    it('refuses parts that inflate past the size cap, even when the zip directory lies', async () => {
+        const workbook = await buildWorkbook({ Sheet1: [['Title', 'Price'], ['Mug', 10]] });
+        const zip = await JSZip.loadAsync(workbook);
+        zip.file('xl/sharedStrings.xml', '<sst>' + ' '.repeat(MAX_XLSX_PART_SIZE) + '</sst>');
+        const bomb = await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE', compressionOptions: { level: 1 } });
+
+        await expect(parseDataSource(bomb, 'xlsx')).resolves.toMatchObject({ success: false, error: expect.stringContaining('larger than') });
+
+        // Claim a tiny uncompressed size in the zip's central directory
+        const bytes = Buffer.from(bomb);
+        const signature = Buffer.from([0x50, 0x4b, 0x01, 0x02]);
+        for (let entry = bytes.indexOf(signature); entry >= 0; entry = bytes.indexOf(signature, entry + 4)) {
+            const name = bytes.toString('utf8', entry + 46, entry + 46 + bytes.readUInt16LE(entry + 28));
+            if (name === 'xl/sharedStrings.xml') bytes.writeUInt32LE(100, entry + 24);
+        }
+
+        await expect(parseDataSource(new Uint8Array(bytes), 'xlsx')).resolves.toMatchObject({ success: false, error: expect.stringContaining('larger than') });
+    });
+});
+
+describe('evaluateJsonPath', () => {
+    const document = { data: { 'product list': [{ id: 1 }], pages: [{ items: [1, 2] }, { items: [3] }] } };
+
+    it('follows keys, quoted keys and indexes', () => {
+        expect(evaluateJsonPath(document, '$')).toEqual([document]);
+        expect(evaluateJsonPath(document, "$.data['product list'][0].id")).toEqual([1]);
+    });
+
+    it('expands wildcards', () => {
+        expect(evaluateJsonPath(document, '$.data.pages[*].items')).toEqual([[1, 2], [3]]);
+    });
+
+    it('rejects unsupported syntax', () => {
+        expect(() => evaluateJsonPath(document, 'data.pages')).toThrow('must start with $');
+        expect(() => evaluateJsonPath(document, '$..items')).toThrow('Unsupported JSONPath');
+    });
+});
+
+describe('parseJsonRows', () => {
+    it('reads an array of objects, flattening nested values', () => {
+        const result = parseJsonRows(JSON.stringify([
+            { title: 'Mug', price: { amount: 12, currency: 'USD' }, tags: ['new', 'sale'] },
+            { title: 'Cup', badge: 'Hot', price: null },
+        ]));
+
+        expect(result.headers).toEqual(['title', 'price.amount', 'price.currency', 'tags', 'badge', 'price']);
+        expect(result.data[0]).toMatchObject({ title: 'Mug', 'price.amount': '12', tags: 'new, sale', badge: '' });
+        expect(result.data[1]).toMatchObject({ title: 'Cup', badge: 'Hot', 'price.amount': '' });
+    });
+
+    it('reads rows behind a JSONPath', () => {
+        const feed = JSON.stringify({ meta: { page: 1 }, data: { products: [{ title: 'Mug', price: 12 }] } });
+
+        expect(parseJsonRows(feed, '$.data.products').data).toEqual([{ title: 'Mug', price: '12' }]);
+        expect(parseJsonRows(feed).error).toContain('set a JSONPath');
+        expect(parseJsonRows(feed, '$.meta').error).toContain('does not point to an array');
+    });
+
+    it('treats an array of arrays as a header row plus data', () => {
+        const result = parseJsonRows(JSON.stringify([['title', 'price'], ['Mug', 12], [null, null]]));
+
+        expect(result).toMatchObject({ success: true, headers: ['title', 'price'], data: [{ title: 'Mug', price: '12' }] });
+    });
+
+    it('reports invalid JSON', () => {
+        expect(parseJsonRows('{nope').error).toContain('Failed to parse JSON');
+        expect(parseJsonRows('[1, 2]').error).toContain('rows must be objects');
+    });
+});
+
+describe('parseDataSource (csv)', () => {
+    it('parses quoted multi-line values with trimmed headers', async () => {
+        const result = await parseDataSource('\uFEFF Title ,Description\nMug,"Line one\nline two"\n\n', 'csv');
+
+        expect(result).toMatchObject({
+            success: true,
+            format: 'csv',
+            headers: ['Title', 'Description'],
+            data: [{ Title: 'Mug', Description: 'Line one\nline two' }],
+        });
+    });
+});
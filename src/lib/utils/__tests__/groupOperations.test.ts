@@ -0,0 +1,229 @@
+import {
+    buildLayerTree,
+    computeElementsBounds,
+    copyElementsLogic,
+    deleteElementsLogic,
+    getGroupLeafIds,
+    groupElementsLogic,
+    moveLayerLogic,
+    pasteElementsLogic,
+    reorderLayersLogic,
+    ungroupElementsLogic,
+    updateElementLogic,
+} from '../groupOperations';
+import { Element, GroupElement } from '@/types/editor';
+
+const makeShape = (id: string, overrides: Partial<Element> = {}): Element => ({
+    id,
+    name: id,
+    type: 'shape',
+    shapeType: 'rect',
+    x: 0,
+    y: 0,
+    width: 100,
+    height: 100,
+    rotation: 0,
+    opacity: 1,
+    locked: false,
+    visible: true,
+    zIndex: 0,
+    fill: '#ff0000',
+    stroke: '',
+    strokeWidth: 0,
+    ...overrides,
+} as Element);
+
+const byId = (elements: Element[], id: string) => elements.find(el => el.id === id)!;
+
+// a (0,0 100x100, z0), b (200,100 100x100, z1), c (z2)
+const threeShapes = (): Element[] => [
+    makeShape('a', { zIndex: 0 }),
+    makeShape('b', { x: 200, y: 100, zIndex: 1 }),
+    makeShape('c', { x: 500, y: 500, zIndex: 2 }),
+];
+
+const groupOf = (elements: Element[], ids: string[]) => {
+    const result = groupElementsLogic(elements, ids);
+    if (!result) throw new Error('expected a group');
+    return { elements: result.elements, group: byId(result.elements, result.groupId) as GroupElement };
+};
+
+describe('groupOperations', () => {
+    describe('computeElementsBounds', () => {
+        it('should cover all elements', () => {
+            expect(computeElementsBounds(threeShapes().slice(0, 2))).toEqual({ x: 0, y: 0, width: 300, height: 200 });
+            expect(computeElementsBounds([])).toBeNull();
+        });
+
+        it('should follow rotation around the top-left corner', () => {
+            const bounds = computeElementsBounds([makeShape('r', { width: 100, height: 50, rotation: 90 })])!;
+            expect(bounds.x).toBeCloseTo(-50);
+            expect(bounds.y).toBeCloseTo(0);
+            expect(bounds.width).toBeCloseTo(50);
+            expect(bounds.height).toBeCloseTo(100);
+        });
+    });
+
+    describe('groupElementsLogic', () => {
+        it('should create a group around its members', () => {
+            const { group } = groupOf(threeShapes(), ['a', 'b']);
+
+            expect(group.childIds).toEqual(['a', 'b']);
+            expect(group).toMatchObject({ x: 0, y: 0, width: 300, height: 200, name: 'Group 1' });
+        });
+
+        it('should stack members together under the group', () => {
+            const { elements, group } = groupOf(threeShapes(), ['a', 'c']);
+
+            const order = [...elements].sort((x, y) => x.zIndex - y.zIndex).map(el => el.id);
+            expect(order).toEqual(['b', 'a', 'c', group.id]);
+        });
+
+        it('should need at least two elements', () => {
+            expect(groupElementsLogic(threeShapes(), ['a'])).toBeNull();
+        });
+
+        it('should nest a group inside the group its members share', () => {
+            const outer = groupOf(threeShapes(), ['a', 'b', 'c']);
+            const inner = groupOf(outer.elements, ['a', 'b']);
+
+            const updatedOuter = byId(inner.elements, outer.group.id) as GroupElement;
+            expect(updatedOuter.childIds).toEqual(expect.arrayContaining([inner.group.id, 'c']));
+            expect(updatedOuter.childIds).not.toContain('a');
+            expect(getGroupLeafIds(inner.elements, outer.group.id).sort()).toEqual(['a', 'b', 'c']);
+        });
+    });
+
+    describe('updateElementLogic', () => {
+        it('should move members with the group', () => {
+            const { elements, group } = groupOf(threeShapes(), ['a', 'b']);
+            const moved = updateElementLogic(elements, group.id, { x: 50, y: 10 });
+
+            expect(byId(moved, 'a')).toMatchObject({ x: 50, y: 10 });
+            expect(byId(moved, 'b')).toMatchObject({ x: 250, y: 110 });
+            expect(byId(moved, 'c')).toMatchObject({ x: 500, y: 500 });
+        });
+
+        it('should scale members from the group corner', () => {
+            const { elements, group } = groupOf(threeShapes(), ['a', 'b']);
+            const scaled = updateElementLogic(elements, group.id, { width: 600, height: 400 });
+
+            expect(byId(scaled, 'b')).toMatchObject({ x: 400, y: 200, width: 200, height: 200 });
+            expect(byId(scaled, group.id)).toMatchObject({ x: 0, y: 0, width: 600, height: 400 });
+        });
+
+        it('should scale text font sizes with the group', () => {
+            const text = { ...makeShape('t', { x: 200, y: 100, zIndex: 1 }), type: 'text', text: 'Hi', fontSize: 24 } as Element;
+            const { elements, group } = groupOf([makeShape('a'), text], ['a', 't']);
+
+            const doubled = updateElementLogic(elements, group.id, { width: 600, height: 400 });
+            expect(byId(doubled, 't')).toMatchObject({ width: 200, height: 200, fontSize: 48 });
+
+            // Stretched wider than tall, the text follows the smaller factor
+            const stretched = updateElementLogic(elements, group.id, { width: 900, height: 400 });
+            expect(byId(stretched, 't')).toMatchObject({ fontSize: 48 });
+
+            const moved = updateElementLogic(elements, group.id, { x: 50 });
+            expect(byId(moved, 't')).toMatchObject({ fontSize: 24 });
+        });
+
+        it('should rotate members around the group center', () => {
+            const { elements, group } = groupOf(threeShapes(), ['a', 'b']);
+            const rotated = updateElementLogic(elements, group.id, { rotation: 180 });
+
+            // Center is (150, 100): a's corner (0,0) ends up at (300, 200)
+            const a = byId(rotated, 'a');
+            expect(a.x).toBeCloseTo(300);
+            expect(a.y).toBeCloseTo(200);
+            expect(a.rotation).toBe(180);
+        });
+
+        it('should lock members with the group', () => {
+            const { elements, group } = groupOf(threeShapes(), ['a', 'b']);
+            const locked = updateElementLogic(elements, group.id, { locked: true });
+
+            expect(byId(locked, 'a').locked).toBe(true);
+            expect(byId(locked, 'b').locked).toBe(true);
+            expect(byId(locked, 'c').locked).toBe(false);
+        });
+
+        it('should refresh the group box when a member moves', () => {
+            const { elements, group } = groupOf(threeShapes(), ['a', 'b']);
+            const moved = updateElementLogic(elements, 'b', { x: 400 });
+
+            expect(byId(moved, group.id)).toMatchObject({ width: 500 });
+        });
+    });
+
+    describe('ungroupElementsLogic', () => {
+        it('should release members and carry over opacity and visibility', () => {
+            const { elements, group } = groupOf(threeShapes(), ['a', 'b']);
+            const faded = updateElementLogic(elements, group.id, { opacity: 0.5, visible: false });
+
+            const result = ungroupElementsLogic(faded, group.id)!;
+            expect(result.childIds).toEqual(['a', 'b']);
+            expect(result.elements.some(el => el.type === 'group')).toBe(false);
+            expect(byId(result.elements, 'a')).toMatchObject({ opacity: 0.5, visible: false });
+        });
+
+        it('should hand members to the surrounding group', () => {
+            const outer = groupOf(threeShapes(), ['a', 'b', 'c']);
+            const inner = groupOf(outer.elements, ['a', 'b']);
+
+            const result = ungroupElementsLogic(inner.elements, inner.group.id)!;
+            expect((byId(result.elements, outer.group.id) as GroupElement).childIds.sort()).toEqual(['a', 'b', 'c']);
+        });
+
+        it('should ignore elements that are not groups', () => {
+            expect(ungroupElementsLogic(threeShapes(), 'a')).toBeNull();
+        });
+    });
+
+    describe('deleteElementsLogic', () => {
+        it('should delete a group with its members', () => {
+            const { elements, group } = groupOf(threeShapes(), ['a', 'b']);
+            expect(deleteElementsLogic(elements, [group.id]).map(el => el.id)).toEqual(['c']);
+        });
+
+        it('should remove groups left empty', () => {
+            const { elements } = groupOf(threeShapes(), ['a', 'b']);
+            expect(deleteElementsLogic(elements, ['a', 'b']).map(el => el.id)).toEqual(['c']);
+        });
+    });
+
+    describe('copy and paste', () => {
+        it('should paste groups with fresh, consistent IDs', () => {
+            const { elements, group } = groupOf(threeShapes(), ['a', 'b']);
+            const clipboard = copyElementsLogic(elements, [group.id, 'c']);
+            expect(clipboard).toHaveLength(4);
+
+            const { pasted, topLevelIds } = pasteElementsLogic(elements, clipboard);
+            expect(topLevelIds).toHaveLength(2);
+            expect(pasted.every(el => !elements.some(existing => existing.id === el.id))).toBe(true);
+
+            const pastedGroup = pasted.find(el => el.type === 'group') as GroupElement;
+            expect(pastedGroup.childIds.every(id => pasted.some(el => el.id === id))).toBe(true);
+            expect(byId(pasted, pastedGroup.childIds[0])).toMatchObject({ x: 20, y: 20 });
+            expect(Math.min(...pasted.map(el => el.zIndex))).toBeGreaterThan(Math.max(...elements.map(el => el.zIndex)));
+        });
+    });
+
+    describe('layers', () => {
+        it('should list groups with their members, front to back', () => {
+            const { elements, group } = groupOf(threeShapes(), ['a', 'b']);
+            const tree = buildLayerTree(elements);
+
+            expect(tree.map(node => node.element.id)).toEqual(['c', group.id]);
+            expect(tree[1].children.map(node => node.element.id)).toEqual(['b', 'a']);
+        });
+
+        it('should move a group as one block', () => {
+            const { elements, group } = groupOf(threeShapes(), ['a', 'b']);
+            const reordered = reorderLayersLogic(elements, 1, 0);
+
+            const order = [...reordered].sort((x, y) => y.zIndex - x.zIndex).map(el => el.id);
+            expect(order).toEqual([group.id, 'b', 'a', 'c']);
+            expect(moveLayerLogic(elements, 'a', 'front')).toEqual(reordered);
+        });
+    });
+});
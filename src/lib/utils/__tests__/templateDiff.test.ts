@@ -0,0 +1,157 @@
+/**
+ * Unit tests for template version diffing and hashing
+ */
+
+import { ShapeElement, TextElement } from '@/types/editor';
+import {
+    AUTOSAVE_VERSION_INTERVAL_MS,
+    diffTemplateVersions,
+    formatDiffValue,
+    hashTemplateContent,
+    shouldRecordAutoSaveVersion,
+    TemplateContent,
+} from '../templateDiff';
+
+// ============================================
+// Test Fixtures
+// ============================================
+
+const text = (overrides: Partial<TextElement> = {}): TextElement => ({
+    id: 'title',
+    name: 'Title',
+    type: 'text',
+    x: 50,
+    y: 50,
+    width: 400,
+    height: 80,
+    rotation: 0,
+    opacity: 1,
+    locked: false,
+    visible: true,
+    zIndex: 0,
+    text: 'Hello',
+    fontFamily: 'Inter',
+    fontSize: 32,
+    fontStyle: 'normal',
+    fill: '#000000',
+    align: 'left',
+    verticalAlign: 'top',
+    lineHeight: 1.2,
+    letterSpacing: 0,
+    textDecoration: '',
+    isDynamic: false,
+    ...overrides,
+});
+
+const box = (overrides: Partial<ShapeElement> = {}): ShapeElement => ({
+    id: 'box',
+    name: 'Box',
+    type: 'shape',
+    x: 0,
+    y: 0,
+    width: 100,
+    height: 100,
+    rotation: 0,
+    opacity: 1,
+    locked: false,
+    visible: true,
+    zIndex: 1,
+    shapeType: 'rect',
+    fill: '#FF0000',
+    stroke: '#000000',
+    strokeWidth: 1,
+    ...overrides,
+});
+
+const design = (elements: TemplateContent['elements'], overrides: Partial<TemplateContent> = {}): TemplateContent => ({
+    elements,
+    canvas_size: { width: 1000, height: 1500 },
+    background_color: '#FFFFFF',
+    ...overrides,
+});
+
+// ============================================
+// Tests
+// ============================================
+
+describe('diffTemplateVersions', () => {
+    it('finds nothing between identical designs', () => {
+        const diff = diffTemplateVersions(design([text(), box()]), design([text(), box()]));
+
+        expect(diff).toEqual({ added: [], removed: [], changed: [], canvas: [], reordered: false });
+    });
+
+    it('lists added and removed elements', () => {
+        const diff = diffTemplateVersions(design([text()]), design([box()]));
+
+        expect(diff.added.map(el => el.id)).toEqual(['box']);
+        expect(diff.removed.map(el => el.id)).toEqual(['title']);
+        expect(diff.changed).toEqual([]);
+    });
+
+    it('lists changed, added and removed properties of kept elements', () => {
+        const before = text({ backgroundColor: '#000000' });
+        const after = text({ text: 'Hi there', fontSize: 40, textTransform: 'uppercase' });
+
+        const [change] = diffTemplateVersions(design([before]), design([after])).changed;
+
+        expect(change).toMatchObject({ id: 'title', name: 'Title', type: 'text' });
+        expect(change.changes).toEqual([
+            { property: 'backgroundColor', before: '#000000', after: undefined },
+            { property: 'fontSize', before: 32, after: 40 },
+            { property: 'text', before: 'Hello', after: 'Hi there' },
+            { property: 'textTransform', before: undefined, after: 'uppercase' },
+        ]);
+    });
+
+    it('reports canvas size, background and layer order changes', () => {
+        const diff = diffTemplateVersions(
+            design([text(), box()]),
+            design([box(), text()], { canvas_size: { width: 1000, height: 2100 }, background_color: '#111111' })
+        );
+
+        expect(diff.canvas.map(change => change.property)).toEqual(['canvas_size', 'background_color']);
+        expect(diff.reordered).toBe(true);
+    });
+
+    it('ignores order changes caused only by added or removed elements', () => {
+        const diff = diffTemplateVersions(design([text(), box()]), design([box({ id: 'new' }), text(), box()]));
+
+        expect(diff.reordered).toBe(false);
+    });
+});
+
+describe('hashTemplateContent', () => {
+    it('ignores object key order', () => {
+        const reordered = Object.fromEntries(Object.entries(text()).reverse()) as unknown as TextElement;
+
+        expect(hashTemplateContent(design([reordered]))).toBe(hashTemplateContent(design([text()])));
+    });
+
+    it('changes when the design changes', () => {
+        expect(hashTemplateContent(design([text({ text: 'Hi' })]))).not.toBe(hashTemplateContent(design([text()])));
+        expect(hashTemplateContent(design([text()], { background_color: '#000000' })))
+            .not.toBe(hashTemplateContent(design([text()])));
+    });
+});
+
+describe('shouldRecordAutoSaveVersion', () => {
+    const now = 1_000_000_000;
+
+    it('records the first auto-save', () => {
+        expect(shouldRecordAutoSaveVersion(null, now)).toBe(true);
+    });
+
+    it('waits out the interval between recorded auto-saves', () => {
+        expect(shouldRecordAutoSaveVersion(now - AUTOSAVE_VERSION_INTERVAL_MS + 1, now)).toBe(false);
+        expect(shouldRecordAutoSaveVersion(now - AUTOSAVE_VERSION_INTERVAL_MS, now)).toBe(true);
+    });
+});
+
+describe('formatDiffValue', () => {
+    it('shows missing values as a dash and truncates long values', () => {
+        expect(formatDiffValue(undefined)).toBe('—');
+        expect(formatDiffValue({ b: 1, a: 2 })).toBe('{"a":2,"b":1}');
+        expect(formatDiffValue('x'.repeat(100), 10)).toBe(`${'x'.repeat(9)}…`);
+    });
+});
@@ -11,19 +11,69 @@ export interface CSVParseResult {
     error?: string;
 }
 
+/** Largest file accepted for upload, whatever its format */
+export const MAX_DATA_FILE_SIZE = 5 * 1024 * 1024;
+
 export interface CSVValidationError {
     type: 'format' | 'empty' | 'no_headers' | 'too_few_columns' | 'size';
     message: string;
 }
 
+// ============================================
+// Validate Parsed Rows
+// ============================================
+
+/**
+ * Header and row checks shared by every data source (CSV, XLSX, JSON)
+ * @param label Name of the source used in error messages
+ */
+export function validateParsedRows(
+    headers: string[],
+    data: Record<string, string>[],
+    label: string = 'CSV'
+): CSVParseResult {
+    // Validate headers exist
+    if (headers.length === 0) {
+        return { success: false, headers: [], data: [], rowCount: 0, error: `${label} must have a header row with column names` };
+    }
+
+    // Validate minimum columns
+    if (headers.length < 2) {
+        return { success: false, headers, data: [], rowCount: 0, error: `${label} must have at least 2 columns` };
+    }
+
+    // Validate data rows exist
+    if (data.length === 0) {
+        return { success: false, headers, data: [], rowCount: 0, error: `${label} must have at least 1 data row` };
+    }
+
+    // Filter out completely empty rows
+    const validData = data.filter((row) => {
+        return Object.values(row).some((value) => value && value.trim() !== '');
+    });
+
+    if (validData.length === 0) {
+        return { success: false, headers, data: [], rowCount: 0, error: 'All data rows are empty' };
+    }
+
+    return { success: true, headers, data: validData, rowCount: validData.length };
+}
+
 // ============================================
 // Parse CSV File
 // ============================================
+
+/** Header row handling used for uploaded files and fetched text alike */
+export const CSV_PARSE_CONFIG = {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: (header: string) => header.trim(),
+};
+
 export function parseCSVFile(file: File): Promise<CSVParseResult> {
     return new Promise((resolve) => {
         // Validate file size (max 5MB)
-        const maxSize = 5 * 1024 * 1024;
-        if (file.size > maxSize) {
+        if (file.size > MAX_DATA_FILE_SIZE) {
             resolve({
                 success: false,
                 headers: [],
@@ -47,71 +97,9 @@ export function parseCSVFile(file: File): Promise<CSVParseResult> {
         }
 
         Papa.parse(file, {
-            header: true,
-            skipEmptyLines: true,
-            transformHeader: (header) => header.trim(),
+            ...CSV_PARSE_CONFIG,
             complete: (results) => {
-                const headers = results.meta.fields || [];
-                const data = results.data as Record<string, string>[];
-
-                // Validate headers exist
-                if (headers.length === 0) {
-                    resolve({
-                        success: false,
-                        headers: [],
-                        data: [],
-                        rowCount: 0,
-                        error: 'CSV must have a header row with column names',
-                    });
-                    return;
-                }
-
-                // Validate minimum columns
-                if (headers.length < 2) {
-                    resolve({
-                        success: false,
-                        headers,
-                        data: [],
-                        rowCount: 0,
-                        error: 'CSV must have at least 2 columns',
-                    });
-                    return;
-                }
-
-                // Validate data rows exist
-                if (data.length === 0) {
-                    resolve({
-                        success: false,
-                        headers,
-                        data: [],
-                        rowCount: 0,
-                        error: 'CSV must have at least 1 data row',
-                    });
-                    return;
-                }
-
-                // Filter out completely empty rows
-                const validData = data.filter((row) => {
-                    return Object.values(row).some((value) => value && value.trim() !== '');
-                });
-
-                if (validData.length === 0) {
-                    resolve({
-                        success: false,
-                        headers,
-                        data: [],
-                        rowCount: 0,
-                        error: 'All data rows are empty',
-                    });
-                    return;
-                }
-
-                resolve({
-                    success: true,
-                    headers,
-                    data: validData,
-                    rowCount: validData.length,
-                });
+                resolve(validateParsedRows(results.meta.fields || [], results.data as Record<string, string>[]));
             },
             error: (error) => {
                 resolve({
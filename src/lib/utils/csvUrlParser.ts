@@ -1,8 +1,11 @@
 /**
  * CSV URL Parser Utility
  * Handles fetching and parsing CSV from URLs including Google Sheets, Dropbox, and direct links
+ * Direct links may also point at Excel (.xlsx) or JSON files.
  */
 
+import type { DataSourceFormat, DataSourceOptions } from './dataSourceParser';
+
 export interface CSVUrlResult {
     success: boolean;
     headers: string[];
@@ -12,6 +15,10 @@ export interface CSVUrlResult {
     transformedUrl?: string;
     error?: string;
     suggestion?: string;
+    format?: DataSourceFormat;
+    /** Worksheets in an Excel workbook, for sheet selection */
+    sheets?: string[];
+    sheet?: string;
 }
 
 type GoogleSheetsUrlType = 'ALREADY_CSV' | 'PUBHTML' | 'PUB' | 'PUBLISHED_2PACX' | 'EDIT_URL' | 'UNKNOWN';
@@ -259,9 +266,10 @@ function parseCSVRow(row: string): string[] {
 }
 
 /**
- * Fetch and parse CSV from a URL
+ * Fetch and parse CSV (or Excel/JSON) from a URL
+ * @param options Sheet to read from a workbook, or JSONPath to the row array
  */
-export async function fetchCsvFromUrl(url: string): Promise<CSVUrlResult> {
+export async function fetchCsvFromUrl(url: string, options: DataSourceOptions = {}): Promise<CSVUrlResult> {
     // Validate URL
     const validation = validateCsvUrl(url);
     if (!validation.valid) {
@@ -289,7 +297,9 @@ export async function fetchCsvFromUrl(url: string): Promise<CSVUrlResult> {
             body: JSON.stringify({
                 url: transformedUrl,
                 originalUrl: url,
-                urlType: type
+                urlType: type,
+                sheet: options.sheet,
+                jsonPath: options.jsonPath,
             }),
         });
 
@@ -304,7 +314,9 @@ export async function fetchCsvFromUrl(url: string): Promise<CSVUrlResult> {
                 sourceUrl: url,
                 transformedUrl,
                 error: result.error || `Failed to fetch: ${response.status}`,
-                suggestion: result.suggestion
+                suggestion: result.suggestion,
+                format: result.format,
+                sheets: result.sheets,
             };
         }
 
@@ -314,7 +326,10 @@ export async function fetchCsvFromUrl(url: string): Promise<CSVUrlResult> {
             data: result.data,
             rowCount: result.rowCount,
             sourceUrl: url,
-            transformedUrl
+            transformedUrl,
+            format: result.format,
+            sheets: result.sheets,
+            sheet: result.sheet,
         };
 
     } catch (error) {
@@ -3,6 +3,8 @@
  * Validates CSV data against field mappings and provides warnings for suspicious data
  */
 
+import { isValidStyleValue, StyleValueKind } from '@/lib/fabric/style-shared';
+
 export interface CSVValidationResult {
     valid: boolean;
     errors: ValidationError[];
@@ -17,7 +19,7 @@ export interface ValidationError {
 }
 
 export interface ValidationWarning {
-    type: 'text_too_long' | 'suspicious_url' | 'missing_optional' | 'special_characters';
+    type: 'text_too_long' | 'suspicious_url' | 'missing_optional' | 'special_characters' | 'invalid_style_value';
     rowIndex: number;
     field: string;
     message: string;
@@ -26,11 +28,13 @@ export interface ValidationWarning {
 
 /**
  * Validate CSV data against field mappings
+ * @param styleFields Fields bound to colors/opacity (from style bindings) and the kind of value they expect
  */
 export function validateCSV(
     csvData: Record<string, string>[],
     fieldMapping: Record<string, string>,
-    requiredFields: string[]
+    requiredFields: string[],
+    styleFields: Record<string, StyleValueKind> = {}
 ): CSVValidationResult {
     const errors: ValidationError[] = [];
     const warnings: ValidationWarning[] = [];
@@ -76,6 +80,23 @@ export function validateCSV(
 
             if (!value) return;
 
+            // Validate colors/opacity - bad values fall back rather than fail the pin
+            const styleKind = styleFields[templateField];
+            if (styleKind) {
+                if (!isValidStyleValue(styleKind, value)) {
+                    warnings.push({
+                        type: 'invalid_style_value',
+                        rowIndex,
+                        field: csvColumn,
+                        message: styleKind === 'color'
+                            ? `"${csvColumn}" in row ${rowIndex + 1} is not a hex or rgb() color - the fallback is used`
+                            : `"${csvColumn}" in row ${rowIndex + 1} is not an opacity (0-1 or a percentage) - the fallback is used`,
+                        value: value.substring(0, 50) + (value.length > 50 ? '...' : '')
+                    });
+                }
+                return;
+            }
+
             // Validate image URLs (fields starting with 'image')
             if (templateField.toLowerCase().includes('image')) {
                 const urlValidation = validateImageUrl(value);
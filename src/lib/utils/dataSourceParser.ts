@@ -0,0 +1,517 @@
+/**
+ * Data Source Parser
+ * Reads campaign rows from CSV, Excel (.xlsx) and JSON into the same
+ * Record<string, string>[] shape, with the header and row checks CSV uploads use.
+ * Runs in the browser (file uploads) and on the server (/api/fetch-csv).
+ */
+
+import JSZip from 'jszip';
+import Papa from 'papaparse';
+import { CSV_PARSE_CONFIG, CSVParseResult, MAX_DATA_FILE_SIZE, validateParsedRows } from './csvParser';
+
+// ============================================
+// Types
+// ============================================
+
+export type DataSourceFormat = 'csv' | 'xlsx' | 'json';
+
+export interface DataSourceOptions {
+    /** Worksheet to read from an .xlsx file (defaults to the first visible one) */
+    sheet?: string;
+    /** JSONPath to the row array, e.g. $.data.products (defaults to the document root) */
+    jsonPath?: string;
+}
+
+export interface DataParseResult extends CSVParseResult {
+    format: DataSourceFormat;
+    /** Worksheets in the workbook, for sheet selection */
+    sheets?: string[];
+    /** Worksheet the rows were read from */
+    sheet?: string;
+}
+
+const FORMAT_LABELS: Record<DataSourceFormat, string> = {
+    csv: 'CSV',
+    xlsx: 'Excel file',
+    json: 'JSON',
+};
+
+/** File extensions accepted for upload */
+export const DATA_FILE_EXTENSIONS = ['.csv', '.xlsx', '.json'];
+
+// Inflated size allowed for one workbook part (a sheet, the shared strings).
+// Sheet XML compresses very well, but a 5MB file past this is a zip bomb.
+export const MAX_XLSX_PART_SIZE = 50 * 1024 * 1024;
+
+// ============================================
+// Format Detection
+// ============================================
+
+/**
+ * Work out a source's format from its name, content type or first bytes
+ * @returns null when nothing points at a supported format
+ */
+export function detectDataSourceFormat(
+    { fileName, contentType, bytes }: { fileName?: string; contentType?: string | null; bytes?: Uint8Array }
+): DataSourceFormat | null {
+    const extension = (fileName || '').toLowerCase().split(/[?#]/)[0].match(/\.(csv|xlsx|json)$/);
+    if (extension) return extension[1] as DataSourceFormat;
+
+    const type = (contentType || '').toLowerCase();
+    if (type.includes('spreadsheetml')) return 'xlsx';
+    if (type.includes('json')) return 'json';
+    if (type.includes('csv')) return 'csv';
+
+    if (bytes && bytes.length > 0) {
+        // Zip local file header - an OOXML workbook
+        if (bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04) return 'xlsx';
+        const start = new TextDecoder().decode(bytes.subarray(0, 64)).replace(/^\uFEFF/, '').trimStart();
+        if (start.startsWith('[') || start.startsWith('{')) return 'json';
+        return 'csv';
+    }
+
+    return null;
+}
+
+// ============================================
+// Header Detection
+// ============================================
+
+/**
+ * Rows from a grid whose first non-empty row holds the column names
+ * Headers are trimmed, blank header cells are dropped and repeated names get
+ * a _1, _2 suffix - the same as CSV uploads.
+ */
+export function tableFromMatrix(matrix: string[][]): { headers: string[]; data: Record<string, string>[] } {
+    const headerIndex = matrix.findIndex(row => row.some(cell => cell.trim() !== ''));
+    if (headerIndex < 0) return { headers: [], data: [] };
+
+    const seen = new Map<string, number>();
+    const columns: { index: number; name: string }[] = [];
+    matrix[headerIndex].forEach((cell, index) => {
+        const name = cell.trim();
+        if (!name) return;
+        const count = seen.get(name) || 0;
+        seen.set(name, count + 1);
+        columns.push({ index, name: count > 0 ? `${name}_${count}` : name });
+    });
+
+    const data = matrix.slice(headerIndex + 1)
+        .filter(row => row.some(cell => cell.trim() !== ''))
+        .map(row => {
+            const record: Record<string, string> = {};
+            columns.forEach(({ index, name }) => {
+                record[name] = row[index] ?? '';
+            });
+            return record;
+        });
+
+    return { headers: columns.map(c => c.name), data };
+}
+
+// ============================================
+// CSV
+// ============================================
+
+function parseCsvText(text: string): CSVParseResult {
+    const results = Papa.parse<Record<string, string>>(text.replace(/^\uFEFF/, ''), CSV_PARSE_CONFIG);
+    if (results.errors.length > 0 && results.data.length === 0) {
+        return { success: false, headers: [], data: [], rowCount: 0, error: `Failed to parse CSV: ${results.errors[0].message}` };
+    }
+    return validateParsedRows(results.meta.fields || [], results.data);
+}
+
+// ============================================
+// Excel (.xlsx)
+// ============================================
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeXml(value: string): string {
+    return value
+        .replace(/&(amp|lt|gt|quot|apos);/g, (_, name: string) => XML_ENTITIES[name])
+        .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+        .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+        // OOXML escapes control characters as _xHHHH_
+        .replace(/_x([0-9a-f]{4})_/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+function readAttribute(attributes: string, name: string): string | undefined {
+    const match = new RegExp(`(?:^|\\s)${name}="([^"]*)"`).exec(attributes);
+    return match ? decodeXml(match[1]) : undefined;
+}
+
+// Text of an <si> or <is> element: every <t> run, skipping phonetic hints
+function readRichText(xml: string): string {
+    const text = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '');
+    let result = '';
+    for (const match of text.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)) {
+        result += decodeXml(match[1]);
+    }
+    return result;
+}
+
+// "BC12" -> 54
+function columnIndex(ref: string): number {
+    const letters = /^[A-Z]+/.exec(ref)?.[0] || '';
+    let index = 0;
+    for (const letter of letters) index = index * 26 + (letter.charCodeAt(0) - 64);
+    return index - 1;
+}
+
+// Built-in number formats that display dates and times
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+function isDateFormatCode(code: string): boolean {
+    // Ignore quoted text, escapes and [color]/[h] sections before looking for date parts
+    const bare = code.replace(/"[^"]*"|\\.|\[[^\]]*\]/g, '');
+    return /[dmyhs]/i.test(bare) && !/^general$/i.test(bare);
+}
+
+/**
+ * Text of a workbook part, without inflating more than MAX_XLSX_PART_SIZE
+ * The size in the zip directory is checked before inflating, and the inflated
+ * bytes are counted as they come since that size can lie.
+ */
+async function readZipText(zip: JSZip, path: string): Promise<string | undefined> {
+    const file = zip.file(path);
+    if (!file) return undefined;
+
+    const tooLarge = () => new Error(`${path} is larger than ${MAX_XLSX_PART_SIZE / 1024 / 1024}MB uncompressed`);
+    // JSZip keeps the directory entry's sizes on the (untyped) _data field
+    const declaredSize = (file as unknown as { _data?: { uncompressedSize?: number } })._data?.uncompressedSize;
+    if (declaredSize !== undefined && declaredSize > MAX_XLSX_PART_SIZE) throw tooLarge();
+
+    const stream = (file as unknown as { internalStream(type: 'uint8array'): JSZip.JSZipStreamHelper<Uint8Array> })
+        .internalStream('uint8array');
+
+    const bytes = await new Promise<Uint8Array>((resolve, reject) => {
+        const chunks: Uint8Array[] = [];
+        let size = 0;
+        stream
+            .on('data', (chunk) => {
+                size += chunk.length;
+                if (size > MAX_XLSX_PART_SIZE) {
+                    stream.pause();
+                    reject(tooLarge());
+                    return;
+                }
+                chunks.push(chunk);
+            })
+            .on('error', reject)
+            .on('end', () => {
+                const result = new Uint8Array(size);
+                let offset = 0;
+                for (const chunk of chunks) {
+                    result.set(chunk, offset);
+                    offset += chunk.length;
+                }
+                resolve(result);
+            })
+            .resume();
+    });
+
+    return new TextDecoder().decode(bytes);
+}
+
+// Style index -> whether that cell style formats numbers as dates
+async function readDateStyles(zip: JSZip): Promise<boolean[]> {
+    const xml = await readZipText(zip, 'xl/styles.xml');
+    if (!xml) return [];
+
+    const customDateFormats = new Set<number>();
+    for (const match of xml.matchAll(/<numFmt\b([^>]*)\/?>/g)) {
+        const id = Number(readAttribute(match[1], 'numFmtId'));
+        if (isDateFormatCode(readAttribute(match[1], 'formatCode') || '')) customDateFormats.add(id);
+    }
+
+    const cellXfs = /<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/.exec(xml)?.[1] || '';
+    return Array.from(cellXfs.matchAll(/<xf\b([^>]*?)\/?>/g), match => {
+        const id = Number(readAttribute(match[1], 'numFmtId') || 0);
+        return DATE_FORMAT_IDS.has(id) || customDateFormats.has(id);
+    });
+}
+
+// Excel serial day (1900 date system) -> ISO date, with the time when there is one
+function excelSerialToIso(serial: number): string {
+    const date = new Date(Math.round((serial - 25569) * 86400 * 1000));
+    const iso = date.toISOString();
+    return serial % 1 === 0 ? iso.slice(0, 10) : iso.slice(0, 19).replace('T', ' ');
+}
+
+// Trim float noise such as 0.30000000000000004
+function formatNumber(value: string): string {
+    const number = Number(value);
+    return Number.isFinite(number) ? String(parseFloat(number.toPrecision(15))) : value;
+}
+
+function resolveZipPath(target: string): string {
+    if (target.startsWith('/')) return target.slice(1);
+    return `xl/${target}`.replace(/\/\.\//g, '/');
+}
+
+async function listWorksheets(zip: JSZip): Promise<{ name: string; path: string }[]> {
+    const workbook = await readZipText(zip, 'xl/workbook.xml');
+    const rels = await readZipText(zip, 'xl/_rels/workbook.xml.rels');
+    if (!workbook || !rels) throw new Error('Not a valid Excel workbook');
+
+    const targets = new Map<string, string>();
+    for (const match of rels.matchAll(/<Relationship\b([^>]*?)\/?>/g)) {
+        const id = readAttribute(match[1], 'Id');
+        const target = readAttribute(match[1], 'Target');
+        if (id && target) targets.set(id, resolveZipPath(target));
+    }
+
+    const sheets: { name: string; path: string }[] = [];
+    for (const match of workbook.matchAll(/<sheet\b([^>]*?)\/?>/g)) {
+        const state = readAttribute(match[1], 'state');
+        const path = targets.get(readAttribute(match[1], 'r:id') || '');
+        if (state === 'hidden' || state === 'veryHidden' || !path) continue;
+        sheets.push({ name: readAttribute(match[1], 'name') || `Sheet${sheets.length + 1}`, path });
+    }
+    return sheets;
+}
+
+/**
+ * Cell values of a workbook's worksheet as strings
+ * Numbers keep their stored value and date-formatted cells become ISO dates.
+ */
+export async function readXlsxSheet(
+    bytes: Uint8Array | ArrayBuffer,
+    sheetName?: string
+): Promise<{ sheets: string[]; sheet: string; matrix: string[][] }> {
+    const zip = await JSZip.loadAsync(bytes);
+    const sheets = await listWorksheets(zip);
+    if (sheets.length === 0) throw new Error('Workbook has no visible sheets');
+
+    const sheet = sheetName ? sheets.find(s => s.name === sheetName) : sheets[0];
+    if (!sheet) throw new Error(`Sheet "${sheetName}" not found`);
+
+    const sharedStringsXml = await readZipText(zip, 'xl/sharedStrings.xml');
+    const sharedStrings = sharedStringsXml
+        ? Array.from(sharedStringsXml.matchAll(/<si\b[^>]*>([\s\S]*?)<\/si>/g), match => readRichText(match[1]))
+        : [];
+    const dateStyles = await readDateStyles(zip);
+
+    const xml = await readZipText(zip, sheet.path);
+    if (!xml) throw new Error(`Sheet "${sheet.name}" is missing from the workbook`);
+
+    const matrix: string[][] = [];
+    for (const rowMatch of xml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+        const rowNumber = Number(readAttribute(rowMatch[1], 'r')) || matrix.length + 1;
+        const row: string[] = [];
+        let nextColumn = 0;
+
+        for (const cellMatch of (rowMatch[2] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+            const attributes = cellMatch[1];
+            const body = cellMatch[2] || '';
+            const ref = readAttribute(attributes, 'r');
+            const column = ref ? columnIndex(ref) : nextColumn;
+            nextColumn = column + 1;
+
+            const type = readAttribute(attributes, 't');
+            const raw = /<v\b[^>]*>([\s\S]*?)<\/v>/.exec(body)?.[1];
+            let value = '';
+            if (type === 's') value = sharedStrings[Number(raw)] ?? '';
+            else if (type === 'inlineStr') value = readRichText(body);
+            else if (type === 'b') value = raw === '1' ? 'TRUE' : 'FALSE';
+            else if (raw !== undefined && (type === 'str' || type === 'e')) value = decodeXml(raw);
+            else if (raw !== undefined) {
+                const style = Number(readAttribute(attributes, 's') || 0);
+                value = dateStyles[style] && Number.isFinite(Number(raw)) ? excelSerialToIso(Number(raw)) : formatNumber(raw);
+            }
+
+            row[column] = value;
+        }
+
+        // Keep row positions so blank rows stay blank
+        while (matrix.length < rowNumber - 1) matrix.push([]);
+        matrix.push(Array.from(row, cell => cell ?? ''));
+    }
+
+    return { sheets: sheets.map(s => s.name), sheet: sheet.name, matrix };
+}
+
+// ============================================
+// JSON
+// ============================================
+
+type PathSegment = string | number | '*';
+
+function parseJsonPath(path: string): PathSegment[] {
+    const trimmed = path.trim();
+    if (!trimmed || trimmed === '$') return [];
+    if (!trimmed.startsWith('$')) throw new Error(`JSONPath must start with $ (got "${path}")`);
+
+    const segments: PathSegment[] = [];
+    const pattern = /\.([A-Za-z_$][\w$-]*|\*)|\[\s*(?:(\d+)|\*|'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)")\s*\]/y;
+    let position = 1;
+    while (position < trimmed.length) {
+        pattern.lastIndex = position;
+        const match = pattern.exec(trimmed);
+        if (!match) throw new Error(`Unsupported JSONPath near "${trimmed.slice(position)}"`);
+
+        if (match[1] !== undefined) segments.push(match[1]);
+        else if (match[2] !== undefined) segments.push(Number(match[2]));
+        else if (match[3] !== undefined) segments.push(match[3].replace(/\\(.)/g, '$1'));
+        else if (match[4] !== undefined) segments.push(match[4].replace(/\\(.)/g, '$1'));
+        else segments.push('*');
+        position = pattern.lastIndex;
+    }
+    return segments;
+}
+
+/**
+ * Values a JSONPath selects
+ * Supports the common subset: $.a.b, $['a b'], $.items[0] and [*] / .* wildcards.
+ */
+export function evaluateJsonPath(document: unknown, path: string): unknown[] {
+    let nodes: unknown[] = [document];
+    for (const segment of parseJsonPath(path)) {
+        nodes = nodes.flatMap(node => {
+            if (node === null || typeof node !== 'object') return [];
+            if (segment === '*') return Object.values(node);
+            const value = (node as Record<string | number, unknown>)[segment];
+            return value === undefined ? [] : [value];
+        });
+    }
+    return nodes;
+}
+
+// One cell per key; nested objects become dotted columns (price.amount)
+function flattenRecord(value: Record<string, unknown>, prefix = '', into: Record<string, string> = {}): Record<string, string> {
+    Object.entries(value).forEach(([key, child]) => {
+        const name = prefix ? `${prefix}.${key}` : key;
+        if (child === null || child === undefined) {
+            into[name] = '';
+        } else if (Array.isArray(child)) {
+            into[name] = child.every(item => item === null || typeof item !== 'object')
+                ? child.filter(item => item !== null).join(', ')
+                : JSON.stringify(child);
+        } else if (typeof child === 'object') {
+            flattenRecord(child as Record<string, unknown>, name, into);
+        } else {
+            into[name] = String(child);
+        }
+    });
+    return into;
+}
+
+/**
+ * Rows from a JSON document: an array of objects, or an array of arrays with
+ * a header row. Use jsonPath when the rows sit inside a wrapper object.
+ */
+export function parseJsonRows(text: string, jsonPath?: string): CSVParseResult {
+    let document: unknown;
+    try {
+        document = JSON.parse(text.replace(/^\uFEFF/, ''));
+    } catch (error) {
+        return { success: false, headers: [], data: [], rowCount: 0, error: `Failed to parse JSON: ${error instanceof Error ? error.message : 'invalid JSON'}` };
+    }
+
+    let selected: unknown[];
+    try {
+        selected = evaluateJsonPath(document, jsonPath || '$');
+    } catch (error) {
+        return { success: false, headers: [], data: [], rowCount: 0, error: error instanceof Error ? error.message : 'Invalid JSONPath' };
+    }
+
+    // A single match is the row array itself; a wildcard match is a list of rows (or of row arrays)
+    const rows = selected.length === 1 ? selected[0] : selected.flatMap(item => Array.isArray(item) ? item : [item]);
+    if (!Array.isArray(rows)) {
+        return {
+            success: false,
+            headers: [],
+            data: [],
+            rowCount: 0,
+            error: jsonPath
+                ? `JSONPath ${jsonPath} does not point to an array of rows`
+                : 'JSON must be an array of rows - set a JSONPath to the row array (e.g. $.data.items)',
+        };
+    }
+
+    if (rows.length > 0 && rows.every(Array.isArray)) {
+        const matrix = (rows as unknown[][]).map(row => row.map(cell => cell === null || cell === undefined ? '' : typeof cell === 'object' ? JSON.stringify(cell) : String(cell)));
+        const { headers, data } = tableFromMatrix(matrix);
+        return validateParsedRows(headers, data, FORMAT_LABELS.json);
+    }
+
+    if (!rows.every(row => row !== null && typeof row === 'object' && !Array.isArray(row))) {
+        return { success: false, headers: [], data: [], rowCount: 0, error: 'JSON rows must be objects (or arrays with a header row)' };
+    }
+
+    const records = (rows as Record<string, unknown>[]).map(row => flattenRecord(row));
+    // Columns in first-seen order across all rows, so sparse objects still line up
+    const headers = Array.from(new Set(records.flatMap(record => Object.keys(record).map(key => key.trim())))).filter(Boolean);
+    const data = records.map(record => {
+        const row: Record<string, string> = {};
+        Object.entries(record).forEach(([key, value]) => {
+            if (key.trim()) row[key.trim()] = value;
+        });
+        headers.forEach(header => {
+            if (!(header in row)) row[header] = '';
+        });
+        return row;
+    });
+
+    return validateParsedRows(headers, data, FORMAT_LABELS.json);
+}
+
+// ============================================
+// Parse Any Source
+// ============================================
+
+/**
+ * Parse a data source's bytes (or text) into rows
+ */
+export async function parseDataSource(
+    content: Uint8Array | ArrayBuffer | string,
+    format: DataSourceFormat,
+    options: DataSourceOptions = {}
+): Promise<DataParseResult> {
+    const text = () => typeof content === 'string' ? content : new TextDecoder().decode(content);
+
+    try {
+        if (format === 'xlsx') {
+            if (typeof content === 'string') throw new Error('Excel files must be read as binary');
+            const { sheets, sheet, matrix } = await readXlsxSheet(content, options.sheet);
+            const { headers, data } = tableFromMatrix(matrix);
+            return { ...validateParsedRows(headers, data, FORMAT_LABELS.xlsx), format, sheets, sheet };
+        }
+
+        if (format === 'json') {
+            return { ...parseJsonRows(text(), options.jsonPath), format };
+        }
+
+        return { ...parseCsvText(text()), format };
+    } catch (error) {
+        return {
+            success: false,
+            headers: [],
+            data: [],
+            rowCount: 0,
+            format,
+            error: `Failed to parse ${FORMAT_LABELS[format]}: ${error instanceof Error ? error.message : 'unknown error'}`,
+        };
+    }
+}
+
+/**
+ * Parse an uploaded .csv, .xlsx or .json file
+ */
+export async function parseDataFile(file: File, options: DataSourceOptions = {}): Promise<DataParseResult> {
+    const format = detectDataSourceFormat({ fileName: file.name });
+    if (!format) {
+        return { success: false, headers: [], data: [], rowCount: 0, format: 'csv', error: 'Please upload a CSV, Excel (.xlsx) or JSON file' };
+    }
+
+    if (file.size > MAX_DATA_FILE_SIZE) {
+        return { success: false, headers: [], data: [], rowCount: 0, format, error: 'File size exceeds 5MB limit' };
+    }
+
+    try {
+        return await parseDataSource(new Uint8Array(await file.arrayBuffer()), format, options);
+    } catch {
+        return { success: false, headers: [], data: [], rowCount: 0, format, error: 'Failed to read file' };
+    }
+}
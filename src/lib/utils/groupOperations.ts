@@ -0,0 +1,499 @@
+import { Element, GroupElement, ShapeElement, TextElement } from '@/types/editor';
+import { generateId } from '@/lib/utils';
+import { buildGroupParentMap } from '@/lib/fabric/group-shared';
+import { cloneDeep } from 'lodash';
+
+/**
+ * Group operations on the flat element list.
+ * Members stay in the list with canvas coordinates; a group only records its
+ * childIds, and its box is recomputed from its members after every change.
+ */
+
+export interface Bounds {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface LayerNode {
+    element: Element;
+    children: LayerNode[];
+}
+
+const GEOMETRY_KEYS = ['x', 'y', 'width', 'height', 'rotation'] as const;
+
+function hasGroups(elements: Element[]): boolean {
+    return elements.some(el => el.type === 'group');
+}
+
+/**
+ * IDs of everything inside a group, nested groups included
+ */
+export function getGroupDescendantIds(elements: Element[], groupId: string): string[] {
+    const byId = new Map(elements.map(el => [el.id, el]));
+    const result: string[] = [];
+    const seen = new Set<string>([groupId]);
+
+    const visit = (id: string) => {
+        const el = byId.get(id);
+        if (!el || el.type !== 'group') return;
+        for (const childId of (el as GroupElement).childIds) {
+            if (seen.has(childId) || !byId.has(childId)) continue;
+            seen.add(childId);
+            result.push(childId);
+            visit(childId);
+        }
+    };
+    visit(groupId);
+    return result;
+}
+
+/**
+ * IDs of the drawn elements inside a group (its descendants minus nested groups)
+ */
+export function getGroupLeafIds(elements: Element[], groupId: string): string[] {
+    const byId = new Map(elements.map(el => [el.id, el]));
+    return getGroupDescendantIds(elements, groupId).filter(id => byId.get(id)?.type !== 'group');
+}
+
+/**
+ * Axis-aligned box around elements, following their rotation
+ * (elements rotate around their top-left corner, like Fabric's default origin)
+ */
+export function computeElementsBounds(elements: Element[]): Bounds | null {
+    if (elements.length === 0) return null;
+
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (const el of elements) {
+        const rad = ((el.rotation || 0) * Math.PI) / 180;
+        const cos = Math.cos(rad);
+        const sin = Math.sin(rad);
+        const corners = [[0, 0], [el.width, 0], [el.width, el.height], [0, el.height]];
+        for (const [cx, cy] of corners) {
+            const px = el.x + cx * cos - cy * sin;
+            const py = el.y + cx * sin + cy * cos;
+            minX = Math.min(minX, px);
+            minY = Math.min(minY, py);
+            maxX = Math.max(maxX, px);
+            maxY = Math.max(maxY, py);
+        }
+    }
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * Recompute every group's box from its members
+ * Unchanged groups keep their object identity.
+ */
+export function refreshGroupBoundsLogic(elements: Element[]): Element[] {
+    if (!hasGroups(elements)) return elements;
+
+    const byId = new Map(elements.map(el => [el.id, el]));
+    const round = (n: number) => Math.round(n * 100) / 100;
+
+    return elements.map(el => {
+        if (el.type !== 'group') return el;
+        const leaves = getGroupLeafIds(elements, el.id)
+            .map(id => byId.get(id))
+            .filter((leaf): leaf is Element => !!leaf);
+        const bounds = computeElementsBounds(leaves);
+        if (!bounds) return el;
+
+        const next = { x: round(bounds.x), y: round(bounds.y), width: round(bounds.width), height: round(bounds.height) };
+        if (next.x === el.x && next.y === el.y && next.width === el.width && next.height === el.height) return el;
+        return { ...el, ...next };
+    });
+}
+
+/**
+ * Reassign zIndex 0..n-1 following the given bottom-to-top order
+ */
+function restack(bottomToTop: Element[]): Element[] {
+    return bottomToTop.map((el, index) => (el.zIndex === index ? el : { ...el, zIndex: index }));
+}
+
+/**
+ * Drop IDs whose group is also listed, so a selection names each unit once
+ */
+export function getTopLevelIds(elements: Element[], ids: string[]): string[] {
+    const wanted = new Set(ids);
+    const byId = new Map(elements.map(el => [el.id, el]));
+    const parents = buildGroupParentMap(elements);
+
+    return ids.filter(id => {
+        if (!byId.has(id)) return false;
+        const seen = new Set<string>([id]);
+        let parentId = parents.get(id);
+        while (parentId && !seen.has(parentId)) {
+            if (wanted.has(parentId)) return false;
+            seen.add(parentId);
+            parentId = parents.get(parentId);
+        }
+        return true;
+    });
+}
+
+/**
+ * Move a group's members to match a new box and/or rotation
+ * Members are scaled from the group's top-left corner (text font sizes too),
+ * then rotated by the change in rotation around the group's center.
+ */
+function transformGroupMembers(elements: Element[], group: GroupElement, updates: Partial<Element>): Element[] {
+    const x = updates.x ?? group.x;
+    const y = updates.y ?? group.y;
+    const width = updates.width ?? group.width;
+    const height = updates.height ?? group.height;
+    const sx = group.width > 0 ? width / group.width : 1;
+    const sy = group.height > 0 ? height / group.height : 1;
+    const delta = (updates.rotation ?? group.rotation) - group.rotation;
+
+    const rad = (delta * Math.PI) / 180;
+    const cos = Math.cos(rad);
+    const sin = Math.sin(rad);
+    const cx = x + width / 2;
+    const cy = y + height / 2;
+
+    const leafIds = new Set(getGroupLeafIds(elements, group.id));
+
+    return elements.map(el => {
+        if (!leafIds.has(el.id)) return el;
+
+        let nx = x + (el.x - group.x) * sx;
+        let ny = y + (el.y - group.y) * sy;
+        if (delta !== 0) {
+            const dx = nx - cx;
+            const dy = ny - cy;
+            nx = cx + dx * cos - dy * sin;
+            ny = cy + dx * sin + dy * cos;
+        }
+
+        const next = {
+            ...el,
+            x: nx,
+            y: ny,
+            width: el.width * sx,
+            height: el.height * sy,
+            rotation: delta !== 0 ? ((el.rotation || 0) + delta) % 360 : el.rotation,
+        } as Element;
+
+        // Line/arrow points are relative to the element, so they scale with it
+        if (next.type === 'shape' && (next as ShapeElement).points && (sx !== 1 || sy !== 1)) {
+            (next as ShapeElement).points = (next as ShapeElement).points!.map((v, i) => (i % 2 === 0 ? v * sx : v * sy));
+        }
+        // Text grows with its box; the smaller factor keeps it inside a stretched box
+        if (next.type === 'text' && (sx !== 1 || sy !== 1)) {
+            (next as TextElement).fontSize = (next as TextElement).fontSize * Math.min(sx, sy);
+        }
+        return next;
+    });
+}
+
+/**
+ * Apply an update to one element, keeping groups consistent
+ * - Moving/resizing/rotating a group transforms its members
+ * - Locking a group locks its members (so they can't be picked on the canvas)
+ * - Changing a member's geometry refreshes the boxes of its groups
+ */
+export function updateElementLogic(elements: Element[], id: string, updates: Partial<Element>): Element[] {
+    const target = elements.find(el => el.id === id);
+    if (!target) return elements;
+
+    const merge = (list: Element[], patch: Partial<Element>) =>
+        list.map(el => (el.id === id ? ({ ...el, ...patch } as Element) : el));
+
+    if (!hasGroups(elements)) return merge(elements, updates);
+
+    if (target.type !== 'group') {
+        return refreshGroupBoundsLogic(merge(elements, updates));
+    }
+
+    let next = elements;
+    const geometryChanged = GEOMETRY_KEYS.some(key => updates[key] !== undefined && updates[key] !== target[key]);
+    if (geometryChanged) {
+        next = transformGroupMembers(next, target as GroupElement, updates);
+    }
+    if (updates.locked !== undefined) {
+        const memberIds = new Set(getGroupDescendantIds(next, id));
+        next = next.map(el => (memberIds.has(el.id) ? ({ ...el, locked: updates.locked } as Element) : el));
+    }
+    return refreshGroupBoundsLogic(merge(next, updates));
+}
+
+/**
+ * Group elements into a new group
+ * Members are stacked together directly below the new group, at the height of
+ * the topmost member. When all members share a group, the new group is nested
+ * in it.
+ * @returns Updated elements and the new group's ID, or null with fewer than two elements
+ */
+export function groupElementsLogic(
+    elements: Element[],
+    ids: string[]
+): { elements: Element[]; groupId: string } | null {
+    const memberIds = getTopLevelIds(elements, ids);
+    if (memberIds.length < 2) return null;
+
+    const parents = buildGroupParentMap(elements);
+    const memberParents = new Set(memberIds.map(id => parents.get(id)));
+    const sharedParentId = memberParents.size === 1 ? memberParents.values().next().value : undefined;
+
+    const groupNumbers = elements
+        .filter(el => el.type === 'group')
+        .map(el => {
+            const match = el.name.match(/^Group\s*(\d+)$/i);
+            return match ? parseInt(match[1]) : 0;
+        });
+    const nextNumber = groupNumbers.length > 0 ? Math.max(...groupNumbers) + 1 : 1;
+
+    const movedIds = new Set(memberIds);
+    memberIds.forEach(id => getGroupDescendantIds(elements, id).forEach(d => movedIds.add(d)));
+
+    const sorted = [...elements].sort((a, b) => a.zIndex - b.zIndex);
+    const moved = sorted.filter(el => movedIds.has(el.id));
+    const topZ = Math.max(...moved.map(el => el.zIndex));
+
+    const group: GroupElement = {
+        id: generateId(),
+        name: `Group ${nextNumber}`,
+        type: 'group',
+        x: 0,
+        y: 0,
+        width: 0,
+        height: 0,
+        rotation: 0,
+        opacity: 1,
+        locked: false,
+        visible: true,
+        zIndex: 0,
+        childIds: sorted.filter(el => memberIds.includes(el.id)).map(el => el.id),
+    };
+
+    // Take members out of their old groups; the shared group gets the new group in their place
+    const rest = sorted
+        .filter(el => !movedIds.has(el.id))
+        .map(el => {
+            if (el.type !== 'group') return el;
+            const childIds = (el as GroupElement).childIds;
+            if (!childIds.some(childId => movedIds.has(childId))) return el;
+            const kept = childIds.filter(childId => !movedIds.has(childId));
+            return { ...el, childIds: el.id === sharedParentId ? [...kept, group.id] : kept } as Element;
+        });
+
+    const insertAt = rest.filter(el => el.zIndex < topZ).length;
+    const ordered = [...rest.slice(0, insertAt), ...moved, group, ...rest.slice(insertAt)];
+
+    const cleaned = removeEmptyGroups(restack(ordered));
+    return { elements: refreshGroupBoundsLogic(cleaned), groupId: group.id };
+}
+
+/**
+ * Dissolve a group, handing its members to the group around it (if any)
+ * The group's hidden state, opacity and visibility rule carry over to members
+ * so nothing changes on the canvas.
+ * @returns Updated elements and the released member IDs, or null when not a group
+ */
+export function ungroupElementsLogic(
+    elements: Element[],
+    groupId: string
+): { elements: Element[]; childIds: string[] } | null {
+    const group = elements.find(el => el.id === groupId);
+    if (!group || group.type !== 'group') return null;
+
+    const { childIds } = group as GroupElement;
+    const children = new Set(childIds);
+
+    const next = elements
+        .filter(el => el.id !== groupId)
+        .map(el => {
+            if (children.has(el.id)) {
+                return {
+                    ...el,
+                    opacity: (el.opacity ?? 1) * (group.opacity ?? 1),
+                    visible: el.visible && group.visible,
+                    visibilityRule: el.visibilityRule ?? group.visibilityRule,
+                } as Element;
+            }
+            if (el.type === 'group' && (el as GroupElement).childIds.includes(groupId)) {
+                const parentChildIds = (el as GroupElement).childIds.flatMap(id => (id === groupId ? childIds : [id]));
+                return { ...el, childIds: parentChildIds } as Element;
+            }
+            return el;
+        });
+
+    return {
+        elements: refreshGroupBoundsLogic(restack([...next].sort((a, b) => a.zIndex - b.zIndex))),
+        childIds,
+    };
+}
+
+/**
+ * Remove groups left without members (repeatedly, as emptying one can empty its parent)
+ */
+function removeEmptyGroups(elements: Element[]): Element[] {
+    let current = elements;
+    for (;;) {
+        const ids = new Set(current.map(el => el.id));
+        const empty = new Set(
+            current
+                .filter(el => el.type === 'group' && !(el as GroupElement).childIds.some(id => ids.has(id)))
+                .map(el => el.id)
+        );
+        if (empty.size === 0) return current;
+        current = current
+            .filter(el => !empty.has(el.id))
+            .map(el =>
+                el.type === 'group' && (el as GroupElement).childIds.some(id => empty.has(id))
+                    ? ({ ...el, childIds: (el as GroupElement).childIds.filter(id => !empty.has(id)) } as Element)
+                    : el
+            );
+    }
+}
+
+/**
+ * Delete elements; deleting a group deletes everything in it
+ * Groups emptied by the deletion are removed too.
+ */
+export function deleteElementsLogic(elements: Element[], ids: string[]): Element[] {
+    const removed = new Set(ids);
+    ids.forEach(id => getGroupDescendantIds(elements, id).forEach(d => removed.add(d)));
+
+    const next = elements
+        .filter(el => !removed.has(el.id))
+        .map(el =>
+            el.type === 'group' && (el as GroupElement).childIds.some(id => removed.has(id))
+                ? ({ ...el, childIds: (el as GroupElement).childIds.filter(id => !removed.has(id)) } as Element)
+                : el
+        );
+
+    return refreshGroupBoundsLogic(removeEmptyGroups(next));
+}
+
+/**
+ * Deep copies of elements (and everything inside selected groups), bottom to top
+ */
+export function copyElementsLogic(elements: Element[], ids: string[]): Element[] {
+    const copied = new Set<string>();
+    getTopLevelIds(elements, ids).forEach(id => {
+        copied.add(id);
+        getGroupDescendantIds(elements, id).forEach(d => copied.add(d));
+    });
+    return cloneDeep(elements.filter(el => copied.has(el.id)).sort((a, b) => a.zIndex - b.zIndex));
+}
+
+/**
+ * Fresh copies of clipboard elements, offset and stacked on top of the canvas
+ * Group membership is kept between pasted elements.
+ * @returns The new elements and the IDs of the pasted top-level elements (to select)
+ */
+export function pasteElementsLogic(
+    elements: Element[],
+    clipboard: Element[],
+    offset = 20
+): { pasted: Element[]; topLevelIds: string[] } {
+    const idMap = new Map(clipboard.map(el => [el.id, generateId()]));
+    const baseZ = elements.length > 0 ? Math.max(...elements.map(el => el.zIndex)) + 1 : 0;
+
+    const pasted = clipboard.map((el, index) => {
+        const copy = cloneDeep(el);
+        copy.id = idMap.get(el.id)!;
+        copy.x += offset;
+        copy.y += offset;
+        copy.zIndex = baseZ + index;
+        if (copy.type === 'group') {
+            (copy as GroupElement).childIds = (copy as GroupElement).childIds
+                .filter(id => idMap.has(id))
+                .map(id => idMap.get(id)!);
+        }
+        return copy;
+    });
+
+    const nested = new Set(pasted.flatMap(el => (el.type === 'group' ? (el as GroupElement).childIds : [])));
+    return { pasted, topLevelIds: pasted.filter(el => !nested.has(el.id)).map(el => el.id) };
+}
+
+/**
+ * Layers as a tree, front to back
+ * A group sorts by its frontmost member and lists its members beneath it.
+ */
+export function buildLayerTree(elements: Element[]): LayerNode[] {
+    const byId = new Map(elements.map(el => [el.id, el]));
+    const parents = buildGroupParentMap(elements);
+    const visited = new Set<string>();
+
+    const build = (el: Element): LayerNode => {
+        visited.add(el.id);
+        const children = el.type === 'group'
+            ? (el as GroupElement).childIds
+                .map(id => byId.get(id))
+                .filter((child): child is Element => !!child && !visited.has(child.id))
+                .map(build)
+            : [];
+        return { element: el, children: sortNodes(children) };
+    };
+
+    const topLevel = elements.filter(el => !parents.has(el.id) || !byId.has(parents.get(el.id)!));
+    const roots = topLevel.map(build);
+    // Anything unreachable (broken membership data) is listed at the top level
+    elements.forEach(el => {
+        if (!visited.has(el.id)) roots.push(build(el));
+    });
+    return sortNodes(roots);
+}
+
+function frontmostZ(node: LayerNode): number {
+    return Math.max(node.element.zIndex, ...node.children.map(frontmostZ));
+}
+
+function sortNodes(nodes: LayerNode[]): LayerNode[] {
+    return nodes.sort((a, b) => frontmostZ(b) - frontmostZ(a));
+}
+
+/**
+ * Move a top-level layer (a group moves with its members)
+ * Indexes refer to buildLayerTree's top-level list, front to back.
+ * Returns a new array with updated zIndex values.
+ */
+export function reorderLayersLogic(elements: Element[], fromIndex: number, toIndex: number): Element[] {
+    const roots = buildLayerTree(elements);
+    const [removed] = roots.splice(fromIndex, 1);
+    if (!removed) return elements;
+    roots.splice(toIndex, 0, removed);
+
+    const frontToBack: Element[] = [];
+    const flatten = (node: LayerNode) => {
+        frontToBack.push(node.element);
+        node.children.forEach(flatten);
+    };
+    roots.forEach(flatten);
+
+    return frontToBack.map((el, idx) => ({ ...el, zIndex: frontToBack.length - 1 - idx }));
+}
+
+/**
+ * Bring forward / send backward with groups
+ * Moves the top-level layer containing the element (so a group member moves
+ * its whole group) one step or all the way.
+ */
+export function moveLayerLogic(
+    elements: Element[],
+    id: string,
+    direction: 'forward' | 'backward' | 'front' | 'back'
+): Element[] {
+    const roots = buildLayerTree(elements);
+    const contains = (node: LayerNode): boolean =>
+        node.element.id === id || node.children.some(contains);
+    const fromIndex = roots.findIndex(contains);
+    if (fromIndex === -1) return elements;
+
+    // Indexes run front to back
+    const toIndex = {
+        forward: Math.max(0, fromIndex - 1),
+        backward: Math.min(roots.length - 1, fromIndex + 1),
+        front: 0,
+        back: roots.length - 1,
+    }[direction];
+    if (toIndex === fromIndex) return elements;
+
+    return reorderLayersLogic(elements, fromIndex, toIndex);
+}
@@ -0,0 +1,160 @@
+/**
+ * Template Version Diff
+ * Compares two saved copies of a template design element by element (matched
+ * by id) and lists the properties that changed, for the editor's version
+ * history. Also hashes a design so unchanged saves don't create versions.
+ */
+
+import { CanvasSize, Element } from '@/types/editor';
+
+// ============================================
+// Types
+// ============================================
+
+/** The part of a template a version stores */
+export interface TemplateContent {
+    elements: Element[];
+    canvas_size: CanvasSize;
+    background_color: string;
+}
+
+export interface PropertyChange {
+    property: string;
+    before: unknown;
+    after: unknown;
+}
+
+export interface ElementChange {
+    id: string;
+    name: string;
+    type: Element['type'];
+    changes: PropertyChange[];
+}
+
+export interface TemplateDiff {
+    added: Element[];
+    removed: Element[];
+    changed: ElementChange[];
+    /** Canvas size and background color */
+    canvas: PropertyChange[];
+    /** Elements kept in both versions are in a different layer order */
+    reordered: boolean;
+}
+
+/** Minimum gap between auto-saves that are kept as versions */
+export const AUTOSAVE_VERSION_INTERVAL_MS = 10 * 60 * 1000;
+
+// ============================================
+// Hashing
+// ============================================
+
+/**
+ * JSON with object keys sorted, so a design read back from a JSONB column
+ * (which reorders keys) serializes the same as the one in the editor
+ */
+export function stableStringify(value: unknown): string {
+    if (value === null || typeof value !== 'object') {
+        return JSON.stringify(value) ?? 'null';
+    }
+    if (Array.isArray(value)) {
+        return `[${value.map(item => item === undefined ? 'null' : stableStringify(item)).join(',')}]`;
+    }
+
+    const entries = Object.keys(value)
+        .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+        .sort()
+        .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+}
+
+/**
+ * Short fingerprint of a design (FNV-1a over its stable JSON)
+ */
+export function hashTemplateContent(content: TemplateContent): string {
+    const text = stableStringify({
+        elements: content.elements,
+        canvas_size: content.canvas_size,
+        background_color: content.background_color,
+    });
+
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return `${(hash >>> 0).toString(16).padStart(8, '0')}-${text.length.toString(16)}`;
+}
+
+/**
+ * Whether an auto-save should also be kept as a version
+ * Auto-saves run every few seconds of editing; one every interval is plenty.
+ */
+export function shouldRecordAutoSaveVersion(lastRecordedAt: number | null, now: number = Date.now()): boolean {
+    return lastRecordedAt === null || now - lastRecordedAt >= AUTOSAVE_VERSION_INTERVAL_MS;
+}
+
+// ============================================
+// Diff
+// ============================================
+
+const isSame = (a: unknown, b: unknown) => stableStringify(a) === stableStringify(b);
+
+function diffProperties(before: Element, after: Element): PropertyChange[] {
+    const properties = new Set([...Object.keys(before), ...Object.keys(after)]);
+    const changes: PropertyChange[] = [];
+
+    for (const property of properties) {
+        const from = (before as unknown as Record<string, unknown>)[property];
+        const to = (after as unknown as Record<string, unknown>)[property];
+        if (!isSame(from, to)) {
+            changes.push({ property, before: from, after: to });
+        }
+    }
+
+    return changes.sort((a, b) => a.property.localeCompare(b.property));
+}
+
+/**
+ * What changed from one version of a design to another
+ */
+export function diffTemplateVersions(before: TemplateContent, after: TemplateContent): TemplateDiff {
+    const beforeById = new Map(before.elements.map(element => [element.id, element]));
+    const afterIds = new Set(after.elements.map(element => element.id));
+
+    const added = after.elements.filter(element => !beforeById.has(element.id));
+    const removed = before.elements.filter(element => !afterIds.has(element.id));
+
+    const changed: ElementChange[] = [];
+    for (const element of after.elements) {
+        const previous = beforeById.get(element.id);
+        if (!previous) continue;
+
+        const changes = diffProperties(previous, element);
+        if (changes.length > 0) {
+            changed.push({ id: element.id, name: element.name, type: element.type, changes });
+        }
+    }
+
+    const canvas: PropertyChange[] = [];
+    if (!isSame(before.canvas_size, after.canvas_size)) {
+        canvas.push({ property: 'canvas_size', before: before.canvas_size, after: after.canvas_size });
+    }
+    if (before.background_color !== after.background_color) {
+        canvas.push({ property: 'background_color', before: before.background_color, after: after.background_color });
+    }
+
+    const keptBefore = before.elements.filter(element => afterIds.has(element.id)).map(element => element.id);
+    const keptAfter = after.elements.filter(element => beforeById.has(element.id)).map(element => element.id);
+    const reordered = keptBefore.some((id, index) => keptAfter[index] !== id);
+
+    return { added, removed, changed, canvas, reordered };
+}
+
+/**
+ * Short text for a changed value in the diff view
+ */
+export function formatDiffValue(value: unknown, maxLength = 60): string {
+    if (value === undefined) return '—';
+    const text = typeof value === 'string' ? value : stableStringify(value);
+    return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
@@ -6,6 +6,12 @@
  */
 
 import { z } from 'zod';
+import { isWebhookEventType } from '@/lib/webhooks/events';
+import { API_KEY_SCOPES, DEFAULT_API_KEY_SCOPES, DEFAULT_ROTATION_GRACE_HOURS, MAX_ROTATION_GRACE_HOURS } from '@/lib/auth/apiKeyScopes';
+import { validatePublishSchedule } from '@/lib/pinterest/schedule';
+import { PREFLIGHT_URLS_PER_REQUEST } from '@/lib/campaigns/preflight';
+import { validateImageUrl } from '@/lib/images/safeFetch';
+import { ApiKeyScope, PublishSchedule } from '@/types/database.types';
 
 // ============================================
 // Generated Pins Schemas
@@ -68,6 +74,191 @@ export const UpdateCampaignProgressSchema = z.object({
 
 export type UpdateCampaignProgressInput = z.infer<typeof UpdateCampaignProgressSchema>;
 
+/**
+ * Schema for campaign status transitions reported by the generation UI
+ */
+export const UpdateCampaignStatusSchema = z.object({
+    status: z.enum(['pending', 'processing', 'paused', 'completed', 'failed']),
+});
+
+export type UpdateCampaignStatusInput = z.infer<typeof UpdateCampaignStatusSchema>;
+
+// ============================================
+// Webhook Schemas
+// ============================================
+
+// Private and loopback IPs written into the URL; host names are resolved and checked by the route
+function isPublicUrlLiteral(url: string): boolean {
+    try {
+        const { hostname } = validateImageUrl(url, { allowedHosts: [], trustedHosts: [] });
+        return hostname !== 'localhost' && !hostname.endsWith('.localhost');
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Schema for registering a webhook endpoint
+ */
+export const CreateWebhookEndpointSchema = z.object({
+    url: z.string().url('Invalid URL').refine(
+        url => url.startsWith('https://') || (process.env.NODE_ENV !== 'production' && url.startsWith('http://')),
+        'Webhook URL must use https'
+    ).refine(isPublicUrlLiteral, 'Webhook URL must point to a public address'),
+    description: z.string().max(200).optional(),
+    events: z.array(z.string())
+        .refine(events => events.every(isWebhookEventType), 'Unknown webhook event type')
+        .default([]),
+});
+
+export type CreateWebhookEndpointInput = z.infer<typeof CreateWebhookEndpointSchema>;
+
+/**
+ * Schema for updating a webhook endpoint
+ */
+export const UpdateWebhookEndpointSchema = z.object({
+    description: z.string().max(200).nullable().optional(),
+    events: z.array(z.string())
+        .refine(events => events.every(isWebhookEventType), 'Unknown webhook event type')
+        .optional(),
+    is_active: z.boolean().optional(),
+});
+
+export type UpdateWebhookEndpointInput = z.infer<typeof UpdateWebhookEndpointSchema>;
+
+// ============================================
+// API Key Schemas
+// ============================================
+
+const apiKeyScopeSchema = z.enum(API_KEY_SCOPES.map(s => s.scope) as [ApiKeyScope, ...ApiKeyScope[]]);
+
+const apiKeyExpirySchema = z.string()
+    .datetime({ offset: true, message: 'Invalid expiry date' })
+    .refine(value => new Date(value).getTime() > Date.now(), 'Expiry date must be in the future');
+
+// null = every template; an empty list would make the key useless
+const allowedTemplateIdsSchema = z.array(z.string().min(1).max(50))
+    .min(1, 'List at least one template or allow all templates')
+    .max(100);
+
+/**
+ * Schema for POST /api/keys
+ */
+export const CreateApiKeySchema = z.object({
+    name: z.string().trim().min(1, 'Name is required').max(100),
+    scopes: z.array(apiKeyScopeSchema).min(1, 'Select at least one scope').default(DEFAULT_API_KEY_SCOPES),
+    expires_at: apiKeyExpirySchema.nullable().default(null),
+    allowed_template_ids: allowedTemplateIdsSchema.nullable().default(null),
+    workspace_id: z.string().uuid().nullable().default(null), // null = personal workspace
+});
+
+export type CreateApiKeyInput = z.infer<typeof CreateApiKeySchema>;
+
+/**
+ * Schema for PATCH /api/keys
+ */
+export const UpdateApiKeySchema = z.object({
+    name: z.string().trim().min(1, 'Name is required').max(100).optional(),
+    scopes: z.array(apiKeyScopeSchema).min(1, 'Select at least one scope').optional(),
+    expires_at: apiKeyExpirySchema.nullable().optional(),
+    allowed_template_ids: allowedTemplateIdsSchema.nullable().optional(),
+});
+
+export type UpdateApiKeyInput = z.infer<typeof UpdateApiKeySchema>;
+
+/**
+ * Schema for POST /api/keys/rotate
+ */
+export const RotateApiKeySchema = z.object({
+    grace_hours: z.number().int().min(0).max(MAX_ROTATION_GRACE_HOURS).default(DEFAULT_ROTATION_GRACE_HOURS),
+});
+
+export type RotateApiKeyInput = z.infer<typeof RotateApiKeySchema>;
+
+// ============================================
+// Pinterest Schemas
+// ============================================
+
+/**
+ * Schema for POST /api/pinterest/publish
+ */
+export const PublishCampaignSchema = z.object({
+    campaign_id: z.string().uuid('Invalid campaign ID format'),
+    board_id: z.string().min(1).max(50).optional(), // Saved on the campaign before publishing
+    retry_failed: z.boolean().default(false),       // Clear earlier publish errors and try those pins again
+});
+
+export type PublishCampaignInput = z.infer<typeof PublishCampaignSchema>;
+
+const publishScheduleSchema = z.object({
+    start_date: z.string(),
+    end_date: z.string(),
+    timezone: z.string().min(1).max(64),
+    window_start: z.string(),
+    window_end: z.string(),
+    daily_cap: z.number().int(),
+}).superRefine((schedule, ctx) => {
+    const problem = validatePublishSchedule(schedule as PublishSchedule);
+    if (problem) ctx.addIssue({ code: 'custom', message: problem });
+});
+
+/**
+ * Schema for POST /api/pinterest/schedule
+ */
+export const SchedulePublishingSchema = z.object({
+    campaign_id: z.string().uuid('Invalid campaign ID format'),
+    board_id: z.string().min(1).max(50).optional(), // Saved on the campaign before scheduling
+    schedule: publishScheduleSchema,
+});
+
+export type SchedulePublishingInput = z.infer<typeof SchedulePublishingSchema>;
+
+/**
+ * Schema for PATCH /api/pinterest/schedule (move one pin to another slot)
+ */
+export const MoveScheduledPinSchema = z.object({
+    pin_id: z.string().uuid('Invalid pin ID format'),
+    scheduled_at: z.string().datetime({ offset: true, message: 'Invalid slot time' }),
+});
+
+export type MoveScheduledPinInput = z.infer<typeof MoveScheduledPinSchema>;
+
+// ============================================
+// Campaign Pre-flight Schemas
+// ============================================
+
+/**
+ * Schema for POST /api/campaign-preflight
+ * The wizard sends a campaign's image URLs in chunks of PREFLIGHT_URLS_PER_REQUEST
+ */
+export const CampaignPreflightSchema = z.object({
+    urls: z.array(z.string().min(1).max(2048)).min(1).max(PREFLIGHT_URLS_PER_REQUEST),
+});
+
+export type CampaignPreflightInput = z.infer<typeof CampaignPreflightSchema>;
+
+// ============================================
+// Campaign Data Sync Schemas
+// ============================================
+
+/**
+ * Schema for PUT /api/campaign-sync/[campaignId]
+ * A null data_source unbinds the campaign
+ */
+export const CampaignDataSourceSchema = z.object({
+    data_source: z.object({
+        url: z.string().trim().url('Invalid source URL').max(2048)
+            .refine(url => /^https?:\/\//i.test(url), 'Source URL must be http(s)'),
+        format: z.enum(['csv', 'xlsx', 'json']).optional(),
+        sheet: z.string().min(1).max(100).optional(),
+        json_path: z.string().min(1).max(500).optional(),
+        key_column: z.string().min(1, 'Choose a key column').max(255),
+        schedule: z.enum(['manual', 'hourly', 'daily']),
+    }).nullable(),
+});
+
+export type CampaignDataSourceInput = z.infer<typeof CampaignDataSourceSchema>;
+
 // ============================================
 // Validation Helper
 // ============================================
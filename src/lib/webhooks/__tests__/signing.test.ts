@@ -0,0 +1,61 @@
+/**
+ * Unit tests for webhook payload signing
+ */
+
+import { createHmac } from 'crypto';
+import {
+    generateWebhookSecret,
+    signWebhookPayload,
+    verifyWebhookSignature,
+} from '../signing';
+
+const SECRET = 'whsec_test_secret';
+const BODY = JSON.stringify({ id: 'evt_1', type: 'pin.generated', data: { campaign_id: 'c1' } });
+const NOW = 1_700_000_000;
+
+describe('generateWebhookSecret', () => {
+    it('returns a prefixed random secret', () => {
+        const a = generateWebhookSecret();
+        const b = generateWebhookSecret();
+
+        expect(a).toMatch(/^whsec_[0-9a-f]{48}$/);
+        expect(a).not.toBe(b);
+    });
+});
+
+describe('signWebhookPayload', () => {
+    it('signs "<timestamp>.<body>" with HMAC-SHA256', () => {
+        const header = signWebhookPayload(SECRET, BODY, NOW);
+        const expected = createHmac('sha256', SECRET).update(`${NOW}.${BODY}`).digest('hex');
+
+        expect(header).toBe(`t=${NOW},v1=${expected}`);
+    });
+});
+
+describe('verifyWebhookSignature', () => {
+    it('accepts a valid signature', () => {
+        const header = signWebhookPayload(SECRET, BODY, NOW);
+        expect(verifyWebhookSignature(SECRET, BODY, header, 300, NOW + 10)).toBe(true);
+    });
+
+    it('rejects a tampered body', () => {
+        const header = signWebhookPayload(SECRET, BODY, NOW);
+        expect(verifyWebhookSignature(SECRET, BODY.replace('c1', 'c2'), header, 300, NOW)).toBe(false);
+    });
+
+    it('rejects the wrong secret', () => {
+        const header = signWebhookPayload(SECRET, BODY, NOW);
+        expect(verifyWebhookSignature('whsec_other', BODY, header, 300, NOW)).toBe(false);
+    });
+
+    it('rejects signatures outside the tolerance window', () => {
+        const header = signWebhookPayload(SECRET, BODY, NOW);
+        expect(verifyWebhookSignature(SECRET, BODY, header, 300, NOW + 301)).toBe(false);
+    });
+
+    it('rejects malformed headers', () => {
+        expect(verifyWebhookSignature(SECRET, BODY, 'garbage', 300, NOW)).toBe(false);
+        expect(verifyWebhookSignature(SECRET, BODY, `t=${NOW}`, 300, NOW)).toBe(false);
+        expect(verifyWebhookSignature(SECRET, BODY, `t=${NOW},v1=abc`, 300, NOW)).toBe(false);
+    });
+});
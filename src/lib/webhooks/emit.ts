@@ -0,0 +1,205 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { v4 as uuidv4 } from 'uuid';
+import { inngest } from '@/inngest/client';
+import { acquireLock } from '@/lib/redis';
+import { createWebhookDeliveries, listSubscribedWebhookEndpoints } from '@/lib/db/webhooks';
+import { DbApiJob, DbGeneratedPin, DbWebhookDeliveryInsert, WebhookEventType } from '@/types/database.types';
+
+/**
+ * Outgoing webhook emission (Server-side only)
+ * Records one pending delivery per subscribed endpoint and hands it to the
+ * Inngest deliver-webhook function, which signs, sends and retries it.
+ * Emitting never throws - a webhook problem must not fail a render.
+ */
+
+export interface WebhookEventPayload {
+    id: string;
+    type: WebhookEventType;
+    created_at: string;
+    data: Record<string, unknown>;
+}
+
+export interface WebhookEventInput {
+    type: WebhookEventType;
+    data: Record<string, unknown>;
+}
+
+interface EmitOptions {
+    /** Skip the event if the same key was emitted within dedupeTtlSeconds */
+    dedupeKey?: string;
+    dedupeTtlSeconds?: number;
+}
+
+/**
+ * Emit several events for one user (e.g. one pin.generated per rendered pin)
+ */
+export async function emitWebhookEvents(
+    client: SupabaseClient,
+    userId: string,
+    events: WebhookEventInput[]
+): Promise<number> {
+    if (!userId || events.length === 0) return 0;
+
+    try {
+        const endpointsByType = new Map<WebhookEventType, string[]>();
+        for (const type of new Set(events.map(e => e.type))) {
+            const endpoints = await listSubscribedWebhookEndpoints(client, userId, type);
+            endpointsByType.set(type, endpoints.map(endpoint => endpoint.id));
+        }
+
+        const deliveries: DbWebhookDeliveryInsert[] = [];
+        for (const event of events) {
+            const endpointIds = endpointsByType.get(event.type) || [];
+            if (endpointIds.length === 0) continue;
+
+            const payload: WebhookEventPayload = {
+                id: `evt_${uuidv4()}`,
+                type: event.type,
+                created_at: new Date().toISOString(),
+                data: event.data,
+            };
+
+            for (const endpointId of endpointIds) {
+                deliveries.push({
+                    endpoint_id: endpointId,
+                    user_id: userId,
+                    event_id: payload.id,
+                    event_type: event.type,
+                    payload: payload as unknown as Record<string, unknown>,
+                });
+            }
+        }
+
+        if (deliveries.length === 0) return 0;
+
+        const created = await createWebhookDeliveries(client, deliveries);
+        if (created.length === 0) return 0;
+
+        await inngest.send(created.map(delivery => ({
+            name: 'webhook/delivery.requested',
+            id: `webhook-delivery-${delivery.id}`, // Inngest drops duplicate sends of the same delivery
+            data: { deliveryId: delivery.id, endpointId: delivery.endpoint_id },
+        })));
+
+        return created.length;
+    } catch (error) {
+        console.error('[Webhooks] Failed to emit events:', error);
+        return 0;
+    }
+}
+
+/**
+ * Emit a single event for one user
+ */
+export async function emitWebhookEvent(
+    client: SupabaseClient,
+    userId: string,
+    type: WebhookEventType,
+    data: Record<string, unknown>,
+    options: EmitOptions = {}
+): Promise<number> {
+    if (options.dedupeKey) {
+        const first = await acquireLock(`webhook:${options.dedupeKey}`, options.dedupeTtlSeconds ?? 60);
+        if (!first) return 0;
+    }
+
+    return emitWebhookEvents(client, userId, [{ type, data }]);
+}
+
+/** A generated pin as reported in pin.* events - id is null for renders that were never saved */
+export type PinEventSource = Pick<DbGeneratedPin, 'campaign_id' | 'status' | 'error_message'> & {
+    id: string | null;
+    image_url: string | null;
+    data_row: Record<string, unknown> | null;
+};
+
+/**
+ * Map a generated pin to its pin.generated / pin.failed event
+ * Every producer (browser saves and the render worker) goes through this so
+ * endpoints always get the same payload shape.
+ */
+export function toPinWebhookEvent(pin: PinEventSource): WebhookEventInput {
+    const base = { campaign_id: pin.campaign_id, pin_id: pin.id, data_row: pin.data_row };
+    return pin.status === 'failed'
+        ? { type: 'pin.failed', data: { ...base, error: pin.error_message } }
+        : { type: 'pin.generated', data: { ...base, image_url: pin.image_url } };
+}
+
+/**
+ * Campaign lifecycle events
+ * Looks up the campaign so every caller sends the same payload shape.
+ */
+export async function emitCampaignEvent(
+    client: SupabaseClient,
+    campaignId: string,
+    type: 'campaign.started' | 'campaign.paused' | 'campaign.completed',
+    extra: Record<string, unknown> = {}
+): Promise<number> {
+    try {
+        const { data: campaign, error } = await client
+            .from('campaigns')
+            .select('id, user_id, name, status, total_pins, generated_pins, completed_at')
+            .eq('id', campaignId)
+            .maybeSingle();
+
+        if (error || !campaign) {
+            console.error('[Webhooks] Campaign not found for event:', campaignId, error);
+            return 0;
+        }
+
+        // Completion is reported by both the database auto-complete and the browser; keep the first
+        const options: EmitOptions = type === 'campaign.completed'
+            ? { dedupeKey: `${type}:${campaignId}`, dedupeTtlSeconds: 86400 }
+            : {};
+
+        return emitWebhookEvent(client, campaign.user_id, type, {
+            campaign_id: campaign.id,
+            name: campaign.name,
+            status: campaign.status,
+            total_pins: campaign.total_pins,
+            generated_pins: campaign.generated_pins,
+            ...extra,
+        }, options);
+    } catch (error) {
+        console.error('[Webhooks] Failed to emit campaign event:', error);
+        return 0;
+    }
+}
+
+/**
+ * Emit campaign.completed if increment_campaign_pins just auto-completed the campaign
+ */
+export async function emitCampaignCompletedIfFinished(client: SupabaseClient, campaignId: string): Promise<void> {
+    try {
+        const { data: campaign } = await client
+            .from('campaigns')
+            .select('status')
+            .eq('id', campaignId)
+            .maybeSingle();
+
+        if (campaign?.status === 'completed') {
+            await emitCampaignEvent(client, campaignId, 'campaign.completed');
+        }
+    } catch (error) {
+        console.error('[Webhooks] Failed to check campaign completion:', error);
+    }
+}
+
+/**
+ * API job lifecycle events (/api/v1/jobs)
+ * Each event fires at most once per job - concurrent batches can race to finalize.
+ */
+export async function emitApiJobEvent(
+    client: SupabaseClient,
+    job: Pick<DbApiJob, 'id' | 'user_id' | 'template_short_id' | 'total_rows'>,
+    type: 'job.started' | 'job.completed' | 'job.failed' | 'job.cancelled',
+    extra: Record<string, unknown> = {}
+): Promise<number> {
+    return emitWebhookEvent(client, job.user_id, type, {
+        job_id: job.id,
+        template_id: job.template_short_id,
+        total_rows: job.total_rows,
+        status_url: `/api/v1/jobs/${job.id}`,
+        ...extra,
+    }, { dedupeKey: `${type}:${job.id}`, dedupeTtlSeconds: 86400 });
+}
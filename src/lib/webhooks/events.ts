@@ -0,0 +1,24 @@
+import { WebhookEventType } from '@/types/database.types';
+
+/**
+ * Webhook event catalogue
+ * Shared by the endpoint API (validation) and the settings UI (subscription checkboxes).
+ */
+export const WEBHOOK_EVENTS: { type: WebhookEventType; description: string }[] = [
+    { type: 'campaign.started', description: 'A campaign started or resumed generating pins' },
+    { type: 'campaign.paused', description: 'A campaign was paused' },
+    { type: 'campaign.completed', description: 'Every pin of a campaign has been generated' },
+    { type: 'pin.generated', description: 'A campaign pin was rendered and uploaded' },
+    { type: 'pin.failed', description: 'A campaign pin failed to render' },
+    { type: 'pin.posted', description: 'A campaign pin was published to Pinterest' },
+    { type: 'job.started', description: 'An /api/v1/jobs job started processing' },
+    { type: 'job.completed', description: 'An /api/v1/jobs job finished' },
+    { type: 'job.failed', description: 'An /api/v1/jobs job failed before rendering' },
+    { type: 'job.cancelled', description: 'An /api/v1/jobs job was cancelled' },
+];
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = WEBHOOK_EVENTS.map(e => e.type);
+
+export function isWebhookEventType(value: unknown): value is WebhookEventType {
+    return typeof value === 'string' && (WEBHOOK_EVENT_TYPES as string[]).includes(value);
+}
@@ -0,0 +1,72 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+// Configuration
+const SECRET_PREFIX = 'whsec_';
+const SECRET_LENGTH_BYTES = 24;
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+// Receivers should reject signatures older than this to prevent replays
+export const DEFAULT_TOLERANCE_SECONDS = 300;
+
+/**
+ * Generates a new signing secret for a webhook endpoint
+ */
+export function generateWebhookSecret(): string {
+    return `${SECRET_PREFIX}${randomBytes(SECRET_LENGTH_BYTES).toString('hex')}`;
+}
+
+/**
+ * HMAC-SHA256 of "<timestamp>.<body>" as hex
+ */
+export function computeSignature(secret: string, timestamp: number, body: string): string {
+    return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Builds the signature header value: "t=<unix seconds>,v1=<hex hmac>"
+ * The timestamp is part of the signed content so it cannot be swapped.
+ */
+export function signWebhookPayload(
+    secret: string,
+    body: string,
+    timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+    return `t=${timestamp},v1=${computeSignature(secret, timestamp, body)}`;
+}
+
+/**
+ * Verifies a signature header produced by signWebhookPayload
+ * Exposed for receivers written in TypeScript and for tests.
+ */
+export function verifyWebhookSignature(
+    secret: string,
+    body: string,
+    header: string,
+    toleranceSeconds: number = DEFAULT_TOLERANCE_SECONDS,
+    now: number = Math.floor(Date.now() / 1000)
+): boolean {
+    const parts = Object.fromEntries(
+        header.split(',').map(part => {
+            const [key, ...rest] = part.trim().split('=');
+            return [key, rest.join('=')];
+        })
+    );
+
+    const timestamp = Number(parts.t);
+    if (!parts.v1 || !Number.isFinite(timestamp)) {
+        return false;
+    }
+
+    if (Math.abs(now - timestamp) > toleranceSeconds) {
+        return false;
+    }
+
+    const expected = Buffer.from(computeSignature(secret, timestamp, body));
+    const received = Buffer.from(parts.v1);
+
+    // Ensure buffers are same length before comparing
+    if (expected.length !== received.length) {
+        return false;
+    }
+
+    return timingSafeEqual(expected, received);
+}
@@ -14,7 +14,7 @@
  */
 
 import { useEditorStore } from '../editorStore';
-import { Element, TextElement, ImageElement, ShapeElement } from '@/types/editor';
+import { Element, TextElement, ImageElement, ShapeElement, GroupElement } from '@/types/editor';
 
 // Helper to reset store before each test
 const resetStore = () => {
@@ -488,6 +488,39 @@ describe('editorStore', () => {
                 expect(useEditorStore.getState().canRedo()).toBe(true);
             });
         });
+
+        describe('restoreVersion', () => {
+            it('should replace the design with the saved version', () => {
+                useEditorStore.getState().addElement(createTextElement({ id: 'text-1' }));
+                useEditorStore.getState().selectElement('text-1');
+
+                useEditorStore.getState().restoreVersion({
+                    elements: [createShapeElement({ id: 'shape-1' })],
+                    canvas_size: { width: 1000, height: 1500 },
+                    background_color: '#000000',
+                });
+
+                const state = useEditorStore.getState();
+                expect(state.elements.map(el => el.id)).toEqual(['shape-1']);
+                expect(state.canvasSize).toEqual({ width: 1000, height: 1500 });
+                expect(state.backgroundColor).toBe('#000000');
+                expect(state.selectedIds).toEqual([]);
+            });
+
+            it('should be undoable', () => {
+                useEditorStore.getState().addElement(createTextElement({ id: 'text-1' }));
+                useEditorStore.getState().pushHistory();
+
+                useEditorStore.getState().restoreVersion({
+                    elements: [],
+                    canvas_size: { width: 1000, height: 1500 },
+                    background_color: '#FFFFFF',
+                });
+                useEditorStore.getState().undo();
+
+                expect(useEditorStore.getState().elements.map(el => el.id)).toEqual(['text-1']);
+            });
+        });
     });
 
     // ========================================
@@ -689,7 +722,7 @@ describe('editorStore', () => {
 
                 const clipboard = useEditorStore.getState().clipboard;
                 expect(clipboard).not.toBeNull();
-                expect((clipboard as TextElement).text).toBe('Copy me');
+                expect((clipboard![0] as TextElement).text).toBe('Copy me');
             });
 
             it('should paste element from clipboard', () => {
@@ -713,6 +746,73 @@ describe('editorStore', () => {
                 expect(pasted.x).toBe(120); // +20
                 expect(pasted.y).toBe(120); // +20
             });
+
+            it('should copy and paste every selected element', () => {
+                useEditorStore.getState().addElement(createShapeElement({ id: 'shape-1' }));
+                useEditorStore.getState().addElement(createShapeElement({ id: 'shape-2' }));
+                useEditorStore.setState({ selectedIds: ['shape-1', 'shape-2'] });
+
+                useEditorStore.getState().copyElement();
+                useEditorStore.getState().pasteElement();
+
+                const { elements, selectedIds } = useEditorStore.getState();
+                expect(elements).toHaveLength(4);
+                expect(selectedIds).toHaveLength(2);
+                expect(selectedIds).not.toContain('shape-1');
+            });
+        });
+    });
+
+    // ========================================
+    // GROUPING
+    // ========================================
+    describe('Grouping', () => {
+        const addTwoShapes = () => {
+            useEditorStore.getState().addElement(createShapeElement({ id: 'shape-1', x: 0, y: 0 }));
+            useEditorStore.getState().addElement(createShapeElement({ id: 'shape-2', x: 200, y: 50 }));
+            useEditorStore.setState({ selectedIds: ['shape-1', 'shape-2'] });
+        };
+
+        it('should group the selection and select the group', () => {
+            addTwoShapes();
+            useEditorStore.getState().groupSelectedElements();
+
+            const { elements, selectedIds } = useEditorStore.getState();
+            const group = elements.find(el => el.type === 'group') as GroupElement;
+            expect(group.childIds).toEqual(['shape-1', 'shape-2']);
+            expect(selectedIds).toEqual([group.id]);
+            expect(group).toMatchObject({ x: 0, y: 0, width: 300, height: 150 });
+        });
+
+        it('should move members when the group moves', () => {
+            addTwoShapes();
+            useEditorStore.getState().groupSelectedElements();
+            const groupId = useEditorStore.getState().selectedIds[0];
+
+            useEditorStore.getState().updateElement(groupId, { x: 10 });
+
+            const { elements } = useEditorStore.getState();
+            expect(elements.find(el => el.id === 'shape-1')?.x).toBe(10);
+            expect(elements.find(el => el.id === 'shape-2')?.x).toBe(210);
+        });
+
+        it('should ungroup back to the members', () => {
+            addTwoShapes();
+            useEditorStore.getState().groupSelectedElements();
+            useEditorStore.getState().ungroupSelectedElements();
+
+            const { elements, selectedIds } = useEditorStore.getState();
+            expect(elements.some(el => el.type === 'group')).toBe(false);
+            expect(selectedIds).toEqual(['shape-1', 'shape-2']);
+        });
+
+        it('should undo grouping', () => {
+            addTwoShapes();
+            useEditorStore.getState().pushHistory();
+            useEditorStore.getState().groupSelectedElements();
+            useEditorStore.getState().undo();
+
+            expect(useEditorStore.getState().elements.some(el => el.type === 'group')).toBe(false);
         });
     });
 });
@@ -0,0 +1,35 @@
+/**
+ * Collaboration Store
+ *
+ * Live-editing state shared between the collaboration hook, the canvas
+ * (remote outlines, soft locks, local drags) and the header (avatars).
+ * Not persisted - it only describes the current connection.
+ */
+
+import { create } from 'zustand';
+import type { CollabPeer } from '@/lib/collab/types';
+
+export type CollabStatus = 'offline' | 'connecting' | 'connected' | 'error';
+
+interface CollabState {
+    status: CollabStatus;
+    /** Other clients editing the template (this tab excluded) */
+    peers: CollabPeer[];
+    /** Elements this tab is dragging right now */
+    draggingIds: string[];
+    setStatus: (status: CollabStatus) => void;
+    setPeers: (peers: CollabPeer[]) => void;
+    setDraggingIds: (ids: string[]) => void;
+    reset: () => void;
+}
+
+export const useCollabStore = create<CollabState>((set) => ({
+    status: 'offline',
+    peers: [],
+    draggingIds: [],
+
+    setStatus: (status) => set({ status }),
+    setPeers: (peers) => set({ peers }),
+    setDraggingIds: (draggingIds) => set({ draggingIds }),
+    reset: () => set({ status: 'offline', peers: [], draggingIds: [] }),
+}));
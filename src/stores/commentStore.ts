@@ -0,0 +1,39 @@
+/**
+ * Comment Store
+ *
+ * Review-comment UI state shared between the header (toggle), the comments
+ * panel and the canvas comment layer (markers, placing a new comment).
+ * Not persisted - comments themselves live in the database.
+ */
+
+import { create } from 'zustand';
+import type { CommentAnchor } from '@/lib/review/comments';
+
+interface CommentState {
+    /** Comments panel and canvas markers shown */
+    isOpen: boolean;
+    /** Next click on the canvas places a new comment */
+    isPlacing: boolean;
+    /** Thread highlighted on the canvas and expanded in the panel */
+    activeThreadId: string | null;
+    /** Spot picked for a comment that hasn't been posted yet */
+    draftAnchor: CommentAnchor | null;
+    setOpen: (isOpen: boolean) => void;
+    setPlacing: (isPlacing: boolean) => void;
+    setActiveThreadId: (id: string | null) => void;
+    setDraftAnchor: (anchor: CommentAnchor | null) => void;
+    reset: () => void;
+}
+
+export const useCommentStore = create<CommentState>((set) => ({
+    isOpen: false,
+    isPlacing: false,
+    activeThreadId: null,
+    draftAnchor: null,
+
+    setOpen: (isOpen) => set(isOpen ? { isOpen } : { isOpen, isPlacing: false, draftAnchor: null }),
+    setPlacing: (isPlacing) => set(isPlacing ? { isPlacing, isOpen: true } : { isPlacing }),
+    setActiveThreadId: (activeThreadId) => set({ activeThreadId, draftAnchor: null }),
+    setDraftAnchor: (draftAnchor) => set({ draftAnchor, isPlacing: false, activeThreadId: null }),
+    reset: () => set({ isOpen: false, isPlacing: false, activeThreadId: null, draftAnchor: null }),
+}));
@@ -7,6 +7,7 @@ import {
     ImageElement,
     ShapeElement,
     FrameElement,
+    GroupElement,
     Guide,
     CanvasSize,
 
@@ -17,12 +18,25 @@ import { generateId } from '@/lib/utils';
 import { generateUniqueName } from '@/lib/utils/nameValidation';
 import {
     duplicateElementLogic,
-    reorderElementsLogic,
     moveElementForwardLogic,
     moveElementBackwardLogic,
     moveElementToFrontLogic,
     moveElementToBackLogic
 } from '@/lib/utils/elementOperations';
+import {
+    updateElementLogic,
+    deleteElementsLogic,
+    groupElementsLogic,
+    ungroupElementsLogic,
+    copyElementsLogic,
+    pasteElementsLogic,
+    reorderLayersLogic,
+    moveLayerLogic,
+    refreshGroupBoundsLogic,
+    getTopLevelIds,
+} from '@/lib/utils/groupOperations';
+import { buildGroupParentMap } from '@/lib/fabric/group-shared';
+import { applyFrameLayoutToElements } from '@/lib/fabric/frame-shared';
 
 
 interface EditorState {
@@ -52,14 +66,16 @@ interface EditorState {
     snapToGrid: boolean;
     gridSize: number;
     previewMode: boolean;
+    previewRows: Record<string, string>[]; // Sample CSV rows stepped through in preview mode
+    previewRowIndex: number;
     guides: Guide[];
     activeTab: 'properties' | 'layers';
     isSaving: boolean;
     isNewTemplate: boolean;
     snappingEnabled: boolean; // ✅ New State
 
-    // Clipboard
-    clipboard: Element | null;
+    // Clipboard (copied elements bottom to top, with the members of copied groups)
+    clipboard: Element[] | null;
     styleClipboard: Partial<TextElement> | null;
 
     // Template list for sidebar
@@ -127,6 +143,11 @@ interface EditorActions {
         background_color: string;
         canvas_size?: { width: number; height: number };
     }) => void;
+    restoreVersion: (version: {
+        elements: Element[];
+        background_color: string;
+        canvas_size: { width: number; height: number };
+    }) => void;
     setTemplates: (templates: EditorState['templates']) => void;
     resetToNewTemplate: () => void;
 
@@ -147,6 +168,8 @@ interface EditorActions {
     setSnappingEnabled: (enabled: boolean) => void;
     toggleSnapping: () => void;
     setPreviewMode: (preview: boolean) => void;
+    setPreviewRows: (rows: Record<string, string>[]) => void;
+    setPreviewRowIndex: (index: number) => void;
     setGuides: (guides: Guide[]) => void;
     clearGuides: () => void;
     setActiveTab: (tab: 'properties' | 'layers') => void;
@@ -164,6 +187,10 @@ interface EditorActions {
     // Frame layout
     createFrame: () => void;
     applyFrameLayout: (frameId: string) => void;
+
+    // Groups
+    groupSelectedElements: () => void;
+    ungroupSelectedElements: () => void;
 }
 
 export const useEditorStore = create(
@@ -186,6 +213,8 @@ export const useEditorStore = create(
             snapToGrid: true,
             gridSize: 10,
             previewMode: false,
+            previewRows: [],
+            previewRowIndex: 0,
             guides: [],
             activeTab: 'properties',
             isSaving: false,
@@ -206,17 +235,19 @@ export const useEditorStore = create(
 
             updateElement: (id, updates) => {
                 set((state) => ({
-                    elements: state.elements.map((el) =>
-                        el.id === id ? { ...el, ...updates } as Element : el
-                    )
+                    elements: updateElementLogic(state.elements, id, updates)
                 }));
             },
 
             deleteElement: (id) => {
-                set((state) => ({
-                    elements: state.elements.filter((el) => el.id !== id),
-                    selectedIds: state.selectedIds.filter((selectedId) => selectedId !== id)
-                }));
+                set((state) => {
+                    const elements = deleteElementsLogic(state.elements, [id]);
+                    const remaining = new Set(elements.map((el) => el.id));
+                    return {
+                        elements,
+                        selectedIds: state.selectedIds.filter((selectedId) => selectedId !== id && remaining.has(selectedId))
+                    };
+                });
                 get().pushHistory();
             },
 
@@ -225,9 +256,22 @@ export const useEditorStore = create(
                 const element = state.elements.find((el) => el.id === id);
                 if (!element) return;
 
-                const newElement = duplicateElementLogic(element, state.elements);
+                // Groups are copied with their members, like a paste
+                const { pasted, topLevelIds } = element.type === 'group'
+                    ? pasteElementsLogic(state.elements, copyElementsLogic(state.elements, [id]))
+                    : { pasted: [duplicateElementLogic(element, state.elements)], topLevelIds: [] as string[] };
+                const newIds = element.type === 'group' ? topLevelIds : [pasted[0].id];
 
-                state.addElement(newElement);
+                // The copy joins the original's group
+                const parentId = buildGroupParentMap(state.elements).get(id);
+                const elements = state.elements.map((el) =>
+                    el.id === parentId ? { ...el, childIds: [...(el as GroupElement).childIds, ...newIds] } as Element : el
+                );
+
+                set({
+                    elements: refreshGroupBoundsLogic([...elements, ...pasted]),
+                    selectedIds: newIds
+                });
                 state.pushHistory();
             },
 
@@ -249,37 +293,31 @@ export const useEditorStore = create(
 
             lockElement: (id, locked) => {
                 set((state) => ({
-                    elements: state.elements.map((el) =>
-                        el.id === id ? { ...el, locked } as Element : el
-                    )
+                    elements: updateElementLogic(state.elements, id, { locked })
                 }));
                 get().pushHistory();
             },
 
+            // Copies every selected element (groups with their members)
             copyElement: () => {
                 const { elements, selectedIds } = get();
                 if (selectedIds.length === 0) return;
-                const element = elements.find(el => el.id === selectedIds[0]);
-                if (element) {
-                    set({ clipboard: cloneDeep(element) });
+                const copied = copyElementsLogic(elements, selectedIds);
+                if (copied.length > 0) {
+                    set({ clipboard: copied });
                 }
             },
 
             pasteElement: () => {
                 const { clipboard, elements } = get();
-                if (!clipboard) return;
+                if (!clipboard || clipboard.length === 0) return;
 
-                const newElement = cloneDeep(clipboard);
-                newElement.id = generateId();
-                newElement.x += 20;
-                newElement.y += 20;
-                newElement.zIndex = elements.length;
+                const { pasted, topLevelIds } = pasteElementsLogic(elements, clipboard);
 
-                // If pasting a Canva background that was previously a background, ensure it's treated as a normal element now?
-                // Actually, just pasting it as is works, it's just another element.
-
-                get().addElement(newElement);
-                get().selectElement(newElement.id); // Select the new element
+                set((state) => ({
+                    elements: [...state.elements, ...pasted],
+                    selectedIds: topLevelIds // Select the pasted elements
+                }));
                 get().pushHistory();
             },
 
@@ -321,33 +359,42 @@ export const useEditorStore = create(
             },
 
             // Reorder operations
+            // Indexes are positions in the layers list (groups move with their members)
             reorderElements: (fromIndex, toIndex) => {
                 set((state) => ({
-                    elements: reorderElementsLogic(state.elements, fromIndex, toIndex)
+                    elements: reorderLayersLogic(state.elements, fromIndex, toIndex)
                 }));
             },
 
             moveElementForward: (id) => {
                 set((state) => ({
-                    elements: moveElementForwardLogic(state.elements, id)
+                    elements: state.elements.some(el => el.type === 'group')
+                        ? moveLayerLogic(state.elements, id, 'forward')
+                        : moveElementForwardLogic(state.elements, id)
                 }));
             },
 
             moveElementBackward: (id) => {
                 set((state) => ({
-                    elements: moveElementBackwardLogic(state.elements, id)
+                    elements: state.elements.some(el => el.type === 'group')
+                        ? moveLayerLogic(state.elements, id, 'backward')
+                        : moveElementBackwardLogic(state.elements, id)
                 }));
             },
 
             moveElementToFront: (id) => {
                 set((state) => ({
-                    elements: moveElementToFrontLogic(state.elements, id)
+                    elements: state.elements.some(el => el.type === 'group')
+                        ? moveLayerLogic(state.elements, id, 'front')
+                        : moveElementToFrontLogic(state.elements, id)
                 }));
             },
 
             moveElementToBack: (id) => {
                 set((state) => ({
-                    elements: moveElementToBackLogic(state.elements, id)
+                    elements: state.elements.some(el => el.type === 'group')
+                        ? moveLayerLogic(state.elements, id, 'back')
+                        : moveElementToBackLogic(state.elements, id)
                 }));
             },
 
@@ -381,11 +428,7 @@ export const useEditorStore = create(
                         break;
                 }
 
-                const updatedElements = elements.map((el) =>
-                    el.id === id ? { ...el, ...update } as Element : el
-                );
-
-                set({ elements: updatedElements });
+                set({ elements: updateElementLogic(elements, id, update) });
             },
 
             // Align selected elements relative to selection bounding box
@@ -405,9 +448,7 @@ export const useEditorStore = create(
                 const centerY = (minY + maxY) / 2;
 
                 set((state) => {
-                    const updatedElements = state.elements.map((el) => {
-                        if (!selectedIds.includes(el.id)) return el;
-
+                    const updatedElements = selectedElements.reduce((list, el) => {
                         let update: Partial<Element> = {};
                         switch (alignment) {
                             case 'left':
@@ -429,8 +470,9 @@ export const useEditorStore = create(
                                 update = { y: maxY - el.height };
                                 break;
                         }
-                        return { ...el, ...update } as Element;
-                    });
+                        // Through updateElementLogic so groups move their members
+                        return updateElementLogic(list, el.id, update);
+                    }, state.elements);
                     return { elements: updatedElements };
                 });
                 get().pushHistory();
@@ -482,15 +524,12 @@ export const useEditorStore = create(
                     }
                 }
 
-                // Apply all updates immutably
+                // Apply all updates immutably (groups move their members)
                 set((state) => ({
-                    elements: state.elements.map((el) => {
-                        const update = positionUpdates.get(el.id);
-                        if (update) {
-                            return { ...el, ...update } as Element;
-                        }
-                        return el;
-                    })
+                    elements: Array.from(positionUpdates.entries()).reduce(
+                        (list, [id, update]) => updateElementLogic(list, id, update),
+                        state.elements
+                    )
                 }));
                 get().pushHistory();
             },
@@ -596,6 +635,17 @@ export const useEditorStore = create(
                 });
             },
 
+            // Unlike loadTemplate, keeps undo history so the restore can be undone
+            restoreVersion: (version) => {
+                set({
+                    elements: cloneDeep(version.elements),
+                    canvasSize: { ...version.canvas_size },
+                    backgroundColor: version.background_color,
+                    selectedIds: []
+                });
+                get().pushHistory();
+            },
+
             setTemplates: (templates) => set({ templates }),
 
             resetToNewTemplate: () => {
@@ -693,6 +743,10 @@ export const useEditorStore = create(
             setSnappingEnabled: (enabled) => set({ snappingEnabled: enabled }),
             toggleSnapping: () => set((state) => ({ snappingEnabled: !state.snappingEnabled })),
             setPreviewMode: (preview) => set({ previewMode: preview }),
+            setPreviewRows: (rows) => set({ previewRows: rows, previewRowIndex: 0 }),
+            setPreviewRowIndex: (index) => set((state) => ({
+                previewRowIndex: Math.max(0, Math.min(index, state.previewRows.length - 1)),
+            })),
             setGuides: (guides) => set({ guides }),
             clearGuides: () => set({ guides: [] }),
             setActiveTab: (tab) => set({ activeTab: tab }),
@@ -947,7 +1001,8 @@ export const useEditorStore = create(
                     stroke: '#E5E7EB',
                     strokeWidth: 1,
                     cornerRadius: 12,
-                    childIds: selectedIds
+                    // Layout order follows the current left-to-right order
+                    childIds: [...selectedElements].sort((a, b) => a.x - b.x).map(el => el.id)
                 };
 
                 set((state) => ({
@@ -960,57 +1015,38 @@ export const useEditorStore = create(
             // Apply frame layout to child elements
             applyFrameLayout: (frameId) => {
                 const { elements, pushHistory } = get();
-                const frame = elements.find(el => el.id === frameId) as FrameElement | undefined;
-                if (!frame || frame.type !== 'frame') return;
+                const next = applyFrameLayoutToElements(elements, frameId);
+                if (next === elements) return;
 
-                const children = elements.filter(el => frame.childIds.includes(el.id));
-                if (children.length === 0) return;
-
-                // Sort children by their current position
-                const sortedChildren = frame.layoutDirection === 'horizontal'
-                    ? [...children].sort((a, b) => a.x - b.x)
-                    : [...children].sort((a, b) => a.y - b.y);
-
-                // Calculate layout
-                const contentStart = frame.layoutDirection === 'horizontal'
-                    ? frame.x + frame.layoutPadding
-                    : frame.y + frame.layoutPadding;
+                set({ elements: refreshGroupBoundsLogic(next) });
+                pushHistory();
+            },
 
-                let currentPos = contentStart;
+            // Group selected elements (Ctrl/Cmd + G)
+            groupSelectedElements: () => {
+                const { selectedIds, elements, pushHistory } = get();
+                const result = groupElementsLogic(elements, selectedIds);
+                if (!result) return;
 
-                const updates: { id: string; x?: number; y?: number }[] = [];
+                set({ elements: result.elements, selectedIds: [result.groupId] });
+                pushHistory();
+            },
 
-                sortedChildren.forEach((child, idx) => {
-                    if (frame.layoutDirection === 'horizontal') {
-                        let yPos = frame.y + frame.layoutPadding;
-                        if (frame.layoutAlign === 'center') {
-                            yPos = frame.y + (frame.height - child.height) / 2;
-                        } else if (frame.layoutAlign === 'end') {
-                            yPos = frame.y + frame.height - frame.layoutPadding - child.height;
-                        }
-                        updates.push({ id: child.id, x: currentPos, y: yPos });
-                        currentPos += child.width + frame.layoutGap;
-                    } else {
-                        let xPos = frame.x + frame.layoutPadding;
-                        if (frame.layoutAlign === 'center') {
-                            xPos = frame.x + (frame.width - child.width) / 2;
-                        } else if (frame.layoutAlign === 'end') {
-                            xPos = frame.x + frame.width - frame.layoutPadding - child.width;
-                        }
-                        updates.push({ id: child.id, x: xPos, y: currentPos });
-                        currentPos += child.height + frame.layoutGap;
-                    }
-                });
+            // Ungroup selected groups (Ctrl/Cmd + Shift + G), selecting their former members
+            ungroupSelectedElements: () => {
+                const { selectedIds, elements, pushHistory } = get();
+                let next = elements;
+                const released: string[] = [];
+
+                for (const id of getTopLevelIds(elements, selectedIds)) {
+                    const result = ungroupElementsLogic(next, id);
+                    if (!result) continue;
+                    next = result.elements;
+                    released.push(...result.childIds);
+                }
+                if (released.length === 0) return;
 
-                set((state) => ({
-                    elements: state.elements.map(el => {
-                        const update = updates.find(u => u.id === el.id);
-                        if (update) {
-                            return { ...el, x: update.x ?? el.x, y: update.y ?? el.y } as Element;
-                        }
-                        return el;
-                    })
-                }));
+                set({ elements: next, selectedIds: released });
                 pushHistory();
             }
         }),
@@ -1029,7 +1065,7 @@ export const useEditorStore = create(
                 nextImageFieldNumber: state.nextImageFieldNumber,
                 isNewTemplate: state.isNewTemplate,
                 // Excluded: history, historyIndex, selectedIds, zoom, guides, 
-                // clipboard, styleClipboard, isSaving, previewMode, activeTab, templates
+                // clipboard, styleClipboard, isSaving, previewMode, previewRows, activeTab, templates
             }) as unknown as EditorState & EditorActions,
             onRehydrateStorage: () => (state, error) => {
                 if (error) {
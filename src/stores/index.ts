@@ -17,6 +17,9 @@
  * - categoryStore: Category CRUD for template organization
  * - tagStore: Tag CRUD with autocomplete search
  * - templateMetadataStore: Template's category/tags assignment
+ *
+ * Live Collaboration:
+ * - collabStore: Connected collaborators, their selections and soft locks
  */
 
 // Main consolidated store
@@ -36,6 +39,8 @@ export { useSnappingSettingsStore } from './snappingSettingsStore';
 export { useToastStore } from './toastStore';
 export { useGenerationStore } from './generationStore';
 export { useSettingsStore } from './settingsStore';
+export { useCollabStore } from './collabStore';
+export { useCommentStore } from './commentStore';
 
 // Re-export types
 export type { TemplateState, TemplateActions, TemplateListItem } from './templateStore';
@@ -9,6 +9,7 @@
  * - Template source (native or canva_import)
  * - New template flag
  * - Saving state
+ * - Loaded revision and unresolved save conflict (optimistic concurrency)
  * - Template gallery list
  * 
  * FIX (2025-12-17): Don't persist template name for new templates
@@ -18,6 +19,7 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import { generateId } from '@/lib/utils';
+import type { DbTemplate } from '@/types/database.types';
 
 interface TemplateListItem {
     id: string;
@@ -31,6 +33,10 @@ interface TemplateState {
     templateSource: 'native' | 'canva_import';
     isNewTemplate: boolean;
     isSaving: boolean;
+    /** Revision the editor's design is based on (null until saved/loaded) */
+    templateRevision: number | null;
+    /** Newer copy of the template found when a save was rejected */
+    saveConflict: DbTemplate | null;
     templates: TemplateListItem[];
 }
 
@@ -41,6 +47,8 @@ interface TemplateActions {
     setIsSaving: (saving: boolean) => void;
     setTemplates: (templates: TemplateListItem[]) => void;
     setTemplateId: (id: string) => void;
+    setTemplateRevision: (revision: number | null) => void;
+    setSaveConflict: (latest: DbTemplate | null) => void;
     resetTemplate: () => void;
 }
 
@@ -50,6 +58,8 @@ const initialState: TemplateState = {
     templateSource: 'native',
     isNewTemplate: true,
     isSaving: false,
+    templateRevision: null,
+    saveConflict: null,
     templates: [],
 };
 
@@ -72,11 +82,17 @@ export const useTemplateStore = create<TemplateState & TemplateActions>()(
 
             setTemplateId: (id) => set({ templateId: id }),
 
+            setTemplateRevision: (revision) => set({ templateRevision: revision }),
+
+            setSaveConflict: (latest) => set({ saveConflict: latest }),
+
             resetTemplate: () => set({
                 templateId: generateId(),
                 templateName: 'Untitled Template',
                 templateSource: 'native',
                 isNewTemplate: true,
+                templateRevision: null,
+                saveConflict: null,
             }),
         }),
         {
@@ -100,6 +116,7 @@ export const useTemplateStore = create<TemplateState & TemplateActions>()(
                     templateName: state.templateName,
                     templateSource: state.templateSource,
                     isNewTemplate: state.isNewTemplate,
+                    templateRevision: state.templateRevision,
                 };
             },
             // FIX: Merge function to handle partial persisted state
@@ -124,6 +141,7 @@ export const useTemplateStore = create<TemplateState & TemplateActions>()(
                     templateName: p.templateName || 'Untitled Template',
                     templateSource: p.templateSource || 'native',
                     isNewTemplate: false,
+                    templateRevision: p.templateRevision ?? null,
                 };
             },
         }
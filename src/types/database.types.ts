@@ -3,12 +3,64 @@
 
 import { Element, CanvasSize } from "./editor";
 
+// ============================================
+// Workspaces
+// ============================================
+export type WorkspaceRole = "owner" | "editor" | "viewer";
+
+export interface DbWorkspace {
+  id: string;
+  name: string;
+  owner_id: string;
+  is_personal: boolean; // Created with the account, can't be shared or deleted
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DbWorkspaceInsert {
+  id?: string;
+  name: string;
+  owner_id: string;
+}
+
+export interface DbWorkspaceUpdate {
+  name?: string;
+}
+
+export interface DbWorkspaceMember {
+  workspace_id: string;
+  user_id: string;
+  role: WorkspaceRole;
+  created_at: string;
+}
+
+export interface DbWorkspaceInvitation {
+  id: string;
+  workspace_id: string;
+  email: string;
+  role: Exclude<WorkspaceRole, "owner">;
+  token: string;
+  invited_by: string;
+  created_at: string;
+  expires_at: string;
+  accepted_at: string | null;
+  accepted_by: string | null;
+}
+
+export interface DbWorkspaceInvitationInsert {
+  workspace_id: string;
+  email: string;
+  role: Exclude<WorkspaceRole, "owner">;
+  invited_by: string;
+}
+
 // ============================================
 // Categories
 // ============================================
 export interface DbCategory {
   id: string;
   user_id: string;
+  workspace_id: string;
   name: string;
   slug: string;
   description: string | null;
@@ -22,6 +74,7 @@ export interface DbCategory {
 export interface DbCategoryInsert {
   id?: string;
   user_id: string;
+  workspace_id?: string; // Defaults to the user's personal workspace
   name: string;
   slug: string;
   description?: string | null;
@@ -45,6 +98,7 @@ export interface DbCategoryUpdate {
 export interface DbTag {
   id: string;
   user_id: string;
+  workspace_id: string;
   name: string;
   slug: string;
   description: string | null;
@@ -56,6 +110,7 @@ export interface DbTag {
 export interface DbTagInsert {
   id?: string;
   user_id: string;
+  workspace_id?: string; // Defaults to the user's personal workspace
   name: string;
   slug: string;
   description?: string | null;
@@ -86,9 +141,12 @@ export interface DbTemplateTagInsert {
 // ============================================
 // Templates
 // ============================================
+export type TemplateStatus = "draft" | "in_review" | "approved";
+
 export interface DbTemplate {
   id: string;
   user_id: string;
+  workspace_id: string;
   name: string;
   description: string | null;
   canvas_size: CanvasSize;
@@ -107,11 +165,16 @@ export interface DbTemplate {
   category_data?: DbCategory | null;
   tags?: DbTag[];
   short_id: string | null; // NEW: User-friendly ID
+  revision: number; // Bumped on each design change (optimistic concurrency)
+  status: TemplateStatus; // Review status; only approved templates start campaigns
+  status_changed_at: string | null;
+  status_changed_by: string | null;
 }
 
 export interface DbTemplateInsert {
   id?: string;
   user_id: string;
+  workspace_id?: string; // Defaults to the user's personal workspace
   name: string;
   description?: string | null;
   canvas_size: CanvasSize;
@@ -139,37 +202,238 @@ export interface DbTemplateUpdate {
   view_count?: number;
   like_count?: number;
   short_id?: string;
+  revision?: number; // Revision the change is based on; stale values are rejected
+}
+
+// ============================================
+// Template Versions
+// ============================================
+export type TemplateVersionSource = "manual" | "autosave" | "checkpoint" | "restore";
+
+export interface DbTemplateVersion {
+  id: string;
+  template_id: string;
+  user_id: string;
+  version_number: number; // 1, 2, 3... per template
+  source: TemplateVersionSource;
+  name: string | null; // Checkpoint label
+  elements: Element[];
+  canvas_size: CanvasSize;
+  background_color: string;
+  content_hash: string;
+  thumbnail_url: string | null;
+  created_at: string;
 }
 
 // ============================================
 // API Keys
 // ============================================
+export type ApiKeyScope = "generate" | "templates:read" | "campaigns:write";
+
 export interface DbApiKey {
   id: string;
   user_id: string;
+  workspace_id: string;
   key_hash: string;
   key_prefix: string;
   name: string;
   is_active: boolean;
   created_at: string;
   last_used_at: string | null;
+  rate_limit_per_minute: number;
+  monthly_pin_quota: number | null; // null = unlimited
+  scopes: ApiKeyScope[];
+  expires_at: string | null;
+  allowed_template_ids: string[] | null; // Template short ids, null = all
+  replaced_by: string | null;
 }
 
 export interface DbApiKeyInsert {
   id?: string;
   user_id: string;
+  workspace_id?: string; // Defaults to the user's personal workspace
   key_hash: string;
   key_prefix: string;
   name?: string;
   is_active?: boolean;
   created_at?: string;
   last_used_at?: string | null;
+  rate_limit_per_minute?: number;
+  monthly_pin_quota?: number | null;
+  scopes?: ApiKeyScope[];
+  expires_at?: string | null;
+  allowed_template_ids?: string[] | null;
 }
 
 export interface DbApiKeyUpdate {
   name?: string;
   is_active?: boolean;
   last_used_at?: string | null;
+  rate_limit_per_minute?: number;
+  monthly_pin_quota?: number | null;
+  scopes?: ApiKeyScope[];
+  expires_at?: string | null;
+  allowed_template_ids?: string[] | null;
+  replaced_by?: string | null;
+}
+
+// ============================================
+// API Jobs
+// ============================================
+export type ApiJobStatus =
+  | "queued"
+  | "processing"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export interface DbApiJob {
+  id: string;
+  user_id: string;
+  api_key_id: string | null;
+  template_id: string;
+  template_short_id: string;
+  rows: Record<string, string>[] | null;
+  csv_url: string | null;
+  field_mapping: FieldMapping;
+  multiplier: number;
+  output_format: OutputFormat;
+  output_quality: number | null; // null = format default
+  max_file_size_kb: number | null; // null = no budget
+  total_rows: number;
+  status: ApiJobStatus;
+  error_message: string | null;
+  created_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+  cancelled_at: string | null;
+}
+
+export interface DbApiJobInsert {
+  id?: string;
+  user_id: string;
+  api_key_id?: string | null;
+  template_id: string;
+  template_short_id: string;
+  rows?: Record<string, string>[] | null;
+  csv_url?: string | null;
+  field_mapping?: FieldMapping;
+  multiplier?: number;
+  output_format?: OutputFormat;
+  output_quality?: number | null;
+  max_file_size_kb?: number | null;
+  total_rows?: number;
+  status?: ApiJobStatus;
+}
+
+export interface DbApiJobUpdate {
+  total_rows?: number;
+  status?: ApiJobStatus;
+  error_message?: string | null;
+  started_at?: string | null;
+  completed_at?: string | null;
+  cancelled_at?: string | null;
+}
+
+export interface DbApiJobResult {
+  id: string;
+  job_id: string;
+  row_index: number;
+  status: "success" | "error";
+  url: string | null;
+  error: string | null;
+  created_at: string;
+}
+
+export interface DbApiJobResultInsert {
+  job_id: string;
+  row_index: number;
+  status: "success" | "error";
+  url?: string | null;
+  error?: string | null;
+}
+
+// ============================================
+// Webhooks
+// ============================================
+export type WebhookEventType =
+  | "campaign.started"
+  | "campaign.paused"
+  | "campaign.completed"
+  | "pin.generated"
+  | "pin.failed"
+  | "pin.posted"
+  | "job.started"
+  | "job.completed"
+  | "job.failed"
+  | "job.cancelled";
+
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+export interface DbWebhookEndpoint {
+  id: string;
+  user_id: string;
+  url: string;
+  secret: string;
+  description: string | null;
+  events: WebhookEventType[];
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DbWebhookEndpointInsert {
+  id?: string;
+  user_id: string;
+  url: string;
+  secret: string;
+  description?: string | null;
+  events?: WebhookEventType[];
+  is_active?: boolean;
+}
+
+export interface DbWebhookEndpointUpdate {
+  url?: string;
+  description?: string | null;
+  events?: WebhookEventType[];
+  is_active?: boolean;
+  updated_at?: string;
+}
+
+export interface DbWebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  user_id: string;
+  event_id: string;
+  event_type: WebhookEventType;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  response_status: number | null;
+  response_body: string | null;
+  error: string | null;
+  created_at: string;
+  last_attempt_at: string | null;
+  delivered_at: string | null;
+}
+
+export interface DbWebhookDeliveryInsert {
+  endpoint_id: string;
+  user_id: string;
+  event_id: string;
+  event_type: WebhookEventType;
+  payload: Record<string, unknown>;
+  status?: WebhookDeliveryStatus;
+}
+
+export interface DbWebhookDeliveryUpdate {
+  status?: WebhookDeliveryStatus;
+  attempts?: number;
+  response_status?: number | null;
+  response_body?: string | null;
+  error?: string | null;
+  last_attempt_at?: string | null;
+  delivered_at?: string | null;
 }
 
 // ============================================
@@ -183,12 +447,84 @@ export type CampaignStatus =
   | "failed";
 
 // Distribution modes for multi-template campaigns
-export type DistributionMode = "sequential" | "random" | "equal" | "csv_column";
+export type DistributionMode = "sequential" | "random" | "equal" | "csv_column" | "weighted" | "rules";
+
+// How a distribution rule compares a CSV cell with its value
+export type DistributionRuleOperator =
+  | "equals"
+  | "not_equals"
+  | "contains"
+  | "greater_than" // Numeric
+  | "less_than" // Numeric
+  | "longer_than" // Text length
+  | "shorter_than" // Text length
+  | "is_empty"
+  | "is_not_empty";
+
+// "When <column> <operator> <value>, use <template>"
+export interface DistributionRule {
+  column: string;
+  operator: DistributionRuleOperator;
+  value: string;
+  template_id: string;
+}
+
+// Settings for the weighted and rules distribution modes
+export interface DistributionConfig {
+  weights?: Record<string, number>; // template_id -> percentage (weighted mode)
+  rules?: DistributionRule[]; // First match wins (rules mode)
+  fallback_template_id?: string | null; // Rows no rule matches (rules mode; null = first template)
+}
+
+// Image format generated pins are encoded in
+export type OutputFormat = "jpeg" | "png" | "webp" | "avif";
 
 export interface FieldMapping {
   [templateField: string]: string; // Maps template dynamic field to CSV column name
 }
 
+// CSV columns that fill in the Pinterest pin text when publishing (null = leave empty)
+export interface PinContentMapping {
+  title_column?: string | null;
+  description_column?: string | null;
+  link_column?: string | null;
+  alt_text_column?: string | null;
+}
+
+// Spreads a campaign's pins over a date range when publishing to Pinterest
+export interface PublishSchedule {
+  start_date: string;   // YYYY-MM-DD in timezone
+  end_date: string;     // YYYY-MM-DD in timezone, inclusive
+  timezone: string;     // IANA name, e.g. "America/New_York"
+  window_start: string; // HH:MM local time
+  window_end: string;   // HH:MM local time
+  daily_cap: number;    // Max pins per day on the board, across campaigns
+}
+
+// Remote rows a campaign re-fetches and diffs by key column
+export type DataSyncSchedule = "manual" | "hourly" | "daily";
+
+export interface CampaignDataSource {
+  url: string;
+  format?: "csv" | "xlsx" | "json"; // Detected from the response when unset
+  sheet?: string;                   // Worksheet of an .xlsx source
+  json_path?: string;               // Path to the row array of a JSON feed
+  key_column: string;               // Column that identifies a row across syncs
+  schedule: DataSyncSchedule;
+}
+
+// Outcome of the latest sync, shown on the campaign page
+export interface CampaignSyncSummary {
+  synced_at: string;
+  total_rows: number;
+  added: number;
+  changed: number;
+  removed: number;    // Pins marked stale because their row is gone
+  unchanged: number;
+  skipped_rows: number; // Rows with an empty or repeated key
+  error?: string;
+}
+
 // Snapshot of template data preserved at campaign creation time
 export interface TemplateSnapshot {
   id: string;
@@ -197,6 +533,8 @@ export interface TemplateSnapshot {
   elements: Element[];
   canvas_size: CanvasSize;
   background_color: string;
+  version_id?: string | null; // Template version the snapshot was taken from
+  version_number?: number | null;
 }
 
 // Statistics tracking for campaign generation
@@ -209,10 +547,13 @@ export interface CampaignStatistics {
 export interface DbCampaign {
   id: string;
   user_id: string;
+  workspace_id: string;
   template_id: string; // Keep for backward compatibility
   template_ids: string[] | null; // NEW: Array of template UUIDs (1-10)
   distribution_mode: DistributionMode; // NEW: How templates are assigned
+  distribution_config: DistributionConfig | null; // Weights / rules for those modes
   template_snapshot: TemplateSnapshot[] | null; // NEW: Preserved template data
+  template_version_id: string | null; // Version of the primary template rendered from
   statistics: CampaignStatistics | null; // NEW: Generation stats
   name: string;
   csv_data: Record<string, unknown>[];
@@ -224,6 +565,14 @@ export interface DbCampaign {
   pinterest_board_id: string | null;
   auto_post: boolean;
   schedule_time: string | null;
+  pin_content_mapping: PinContentMapping | null;
+  publish_schedule: PublishSchedule | null;
+  output_format: OutputFormat;
+  output_quality: number | null; // null = format default
+  max_file_size_kb: number | null; // null = no budget
+  data_source: CampaignDataSource | null;
+  last_synced_at: string | null;
+  last_sync_summary: CampaignSyncSummary | null;
   created_at: string;
   updated_at: string;
   completed_at: string | null;
@@ -232,10 +581,13 @@ export interface DbCampaign {
 export interface DbCampaignInsert {
   id?: string;
   user_id: string;
+  workspace_id?: string; // Defaults to the user's personal workspace
   template_id?: string; // Optional for backward compat
   template_ids?: string[]; // NEW: Array of template IDs
   distribution_mode?: DistributionMode; // NEW
+  distribution_config?: DistributionConfig | null;
   template_snapshot?: TemplateSnapshot[]; // NEW
+  template_version_id?: string | null;
   statistics?: CampaignStatistics; // NEW
   name: string;
   csv_data: Record<string, unknown>[];
@@ -247,13 +599,21 @@ export interface DbCampaignInsert {
   pinterest_board_id?: string | null;
   auto_post?: boolean;
   schedule_time?: string | null;
+  pin_content_mapping?: PinContentMapping | null;
+  publish_schedule?: PublishSchedule | null;
+  output_format?: OutputFormat;
+  output_quality?: number | null;
+  max_file_size_kb?: number | null;
+  data_source?: CampaignDataSource | null;
 }
 
 export interface DbCampaignUpdate {
   name?: string;
   template_ids?: string[]; // NEW
   distribution_mode?: DistributionMode; // NEW
+  distribution_config?: DistributionConfig | null;
   template_snapshot?: TemplateSnapshot[]; // NEW
+  template_version_id?: string | null;
   statistics?: CampaignStatistics; // NEW
   csv_data?: Record<string, unknown>[];
   field_mapping?: FieldMapping;
@@ -264,13 +624,58 @@ export interface DbCampaignUpdate {
   pinterest_board_id?: string | null;
   auto_post?: boolean;
   schedule_time?: string | null;
+  pin_content_mapping?: PinContentMapping | null;
+  publish_schedule?: PublishSchedule | null;
+  output_format?: OutputFormat;
+  output_quality?: number | null;
+  max_file_size_kb?: number | null;
+  data_source?: CampaignDataSource | null;
+  last_synced_at?: string | null;
+  last_sync_summary?: CampaignSyncSummary | null;
   completed_at?: string | null;
 }
 
+// ============================================
+// Comments
+// ============================================
+export interface DbComment {
+  id: string;
+  template_id: string | null; // Exactly one of template_id / pin_id
+  pin_id: string | null;
+  workspace_id: string; // Set from the template or pin
+  campaign_id: string | null; // Set for pin comments
+  author_id: string;
+  parent_id: string | null; // First comment of the thread, for replies
+  body: string;
+  element_id: string | null; // Template threads: element the comment is pinned to
+  anchor_x: number | null; // Canvas coordinates (relative to element_id when set)
+  anchor_y: number | null;
+  resolved_at: string | null;
+  resolved_by: string | null;
+  created_at: string;
+}
+
+export interface DbCommentInsert {
+  id?: string;
+  template_id?: string | null;
+  pin_id?: string | null;
+  author_id: string;
+  parent_id?: string | null;
+  body: string;
+  element_id?: string | null;
+  anchor_x?: number | null;
+  anchor_y?: number | null;
+}
+
+export interface DbCommentUpdate {
+  resolved_at?: string | null;
+  resolved_by?: string | null;
+}
+
 // ============================================
 // Generated Pins
 // ============================================
-export type PinStatus = "generated" | "posted" | "failed";
+export type PinStatus = "generated" | "posting" | "posted" | "failed";
 
 export interface DbGeneratedPin {
   id: string;
@@ -282,6 +687,10 @@ export interface DbGeneratedPin {
   posted_at: string | null;
   status: PinStatus;
   error_message: string | null;
+  publish_error: string | null;
+  scheduled_at: string | null;
+  pinterest_board_id: string | null;
+  stale_at: string | null; // Row was removed or changed at the campaign's data source
   created_at: string;
 }
 
@@ -295,6 +704,9 @@ export interface DbGeneratedPinInsert {
   posted_at?: string | null;
   status?: PinStatus;
   error_message?: string | null;
+  publish_error?: string | null;
+  scheduled_at?: string | null;
+  pinterest_board_id?: string | null;
 }
 
 // ============================================
@@ -351,6 +763,7 @@ export interface DbUsageStats {
   action_type: UsageActionType;
   count: number;
   metadata: Record<string, unknown> | null;
+  api_key_id: string | null;
   created_at: string;
 }
 
@@ -360,6 +773,7 @@ export interface DbUsageStatsInsert {
   action_type: UsageActionType;
   count?: number;
   metadata?: Record<string, unknown> | null;
+  api_key_id?: string | null;
 }
 
 // ============================================
@@ -368,6 +782,7 @@ export interface DbUsageStatsInsert {
 export interface DbFont {
   id: string;
   user_id: string;
+  workspace_id: string;
   family: string;
   file_url: string;
   format: "ttf" | "otf" | "woff" | "woff2";
@@ -386,6 +801,7 @@ export interface DbFont {
 export interface DbFontInsert {
   id?: string;
   user_id: string;
+  workspace_id?: string; // Defaults to the user's personal workspace
   family: string;
   file_url: string;
   format: DbFont["format"];
@@ -404,6 +820,21 @@ export interface DbFontUpdate {
 export interface Database {
   public: {
     Tables: {
+      workspaces: {
+        Row: DbWorkspace;
+        Insert: DbWorkspaceInsert;
+        Update: DbWorkspaceUpdate;
+      };
+      workspace_members: {
+        Row: DbWorkspaceMember;
+        Insert: never;
+        Update: Pick<DbWorkspaceMember, "role">;
+      };
+      workspace_invitations: {
+        Row: DbWorkspaceInvitation;
+        Insert: DbWorkspaceInvitationInsert;
+        Update: never;
+      };
       templates: {
         Row: DbTemplate;
         Insert: DbTemplateInsert;
@@ -429,6 +860,11 @@ export interface Database {
         Insert: DbCampaignInsert;
         Update: DbCampaignUpdate;
       };
+      comments: {
+        Row: DbComment;
+        Insert: DbCommentInsert;
+        Update: DbCommentUpdate;
+      };
       generated_pins: {
         Row: DbGeneratedPin;
         Insert: DbGeneratedPinInsert;
@@ -454,6 +890,26 @@ export interface Database {
         Insert: DbApiKeyInsert;
         Update: DbApiKeyUpdate;
       };
+      api_jobs: {
+        Row: DbApiJob;
+        Insert: DbApiJobInsert;
+        Update: DbApiJobUpdate;
+      };
+      api_job_results: {
+        Row: DbApiJobResult;
+        Insert: DbApiJobResultInsert;
+        Update: never;
+      };
+      webhook_endpoints: {
+        Row: DbWebhookEndpoint;
+        Insert: DbWebhookEndpointInsert;
+        Update: DbWebhookEndpointUpdate;
+      };
+      webhook_deliveries: {
+        Row: DbWebhookDelivery;
+        Insert: DbWebhookDeliveryInsert;
+        Update: DbWebhookDeliveryUpdate;
+      };
     };
   };
 }
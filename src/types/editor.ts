@@ -4,6 +4,38 @@
 // Core Element Types
 // ============================================
 
+// How a visibility rule tests a row value
+export type VisibilityOperator =
+  | "is_empty"
+  | "is_not_empty"
+  | "equals"
+  | "not_equals"
+  | "contains"
+  | "greater_than" // Numeric
+  | "less_than"; // Numeric
+
+// Shows or hides an element depending on the CSV row being rendered,
+// e.g. "show when {{price}} is not empty", "hide when {{category}} == 'free'"
+export interface VisibilityRule {
+  action: "show" | "hide";
+  /** Template field or CSV column, as written inside {{ }} */
+  field: string;
+  operator: VisibilityOperator;
+  /** Value to compare with (unused by is_empty / is_not_empty) */
+  value?: string;
+}
+
+// Style properties that can take their value from a CSV column
+export type StyleBindingProperty = "fill" | "backgroundColor" | "opacity";
+
+// Drives a style property from row data, e.g. a per-row accent color
+export interface StyleBinding {
+  /** Template field or CSV column, as written inside {{ }} */
+  field: string;
+  /** Used when the row's value is empty or not a valid color/opacity (defaults to the element's own value) */
+  fallback?: string;
+}
+
 export interface BaseElement {
   id: string;
   name: string;
@@ -16,6 +48,12 @@ export interface BaseElement {
   locked: boolean;
   visible: boolean;
   zIndex: number;
+  /** Only draw the element for rows that pass this rule */
+  visibilityRule?: VisibilityRule;
+  /** Style properties read from the row being rendered */
+  styleBindings?: Partial<Record<StyleBindingProperty, StyleBinding>>;
+  /** Size along a parent auto-layout frame's direction: 'fill' shares the leftover space */
+  layoutSizing?: "fixed" | "fill";
 }
 
 export interface TextElement extends BaseElement {
@@ -25,6 +63,8 @@ export interface TextElement extends BaseElement {
   fontSize: number;
   fontStyle: "normal" | "bold" | "italic" | "bold italic";
   fill: string;
+  /** Box color behind the text (none when unset) */
+  backgroundColor?: string;
   align: "left" | "center" | "right" | "justify";
   verticalAlign: "top" | "middle" | "bottom";
   lineHeight: number;
@@ -70,6 +110,12 @@ export interface ImageElement extends BaseElement {
   cropWidth?: number;
   cropHeight?: number;
   fitMode: "cover" | "contain" | "fill";
+  /** Point kept in view when 'cover' crops, in % of the image (50/50 = center) */
+  focalPoint?: { x: number; y: number };
+  /** Column with a per-row focal point ("30,70", "top left", "smart"); defaults to "<dynamicSource>_focus" */
+  focalPointField?: string;
+  /** Let the server pick the crop from the image's detail when the row gives no focal point */
+  smartCrop?: boolean;
   cornerRadius: number;
   filters?: {
     brightness?: number;
@@ -111,16 +157,32 @@ export interface FrameElement extends BaseElement {
   layoutGap: number;
   layoutPadding: number;
   layoutAlign: "start" | "center" | "end" | "stretch";
+  /** Start a new row/column when children overflow (fixed-size frames only) */
+  layoutWrap?: boolean;
+  /** 'hug' shrinks or grows the frame to fit its children */
+  layoutSizingHorizontal?: "fixed" | "hug";
+  layoutSizingVertical?: "fixed" | "hug";
+  /** Hide anything drawn outside the frame */
+  clipContent?: boolean;
   // Visual properties
   fill: string;
   stroke: string;
   strokeWidth: number;
   cornerRadius: number;
-  // Children element IDs (for grouping)
+  // Children element IDs, in layout order
+  childIds: string[];
+}
+
+// Group of elements that move, scale, rotate, lock and hide as a unit.
+// Children stay in the flat element list with canvas coordinates; the group's
+// box is kept as the bounds of its children and draws nothing itself.
+export interface GroupElement extends BaseElement {
+  type: "group";
+  // Member element IDs (may include other groups)
   childIds: string[];
 }
 
-export type Element = TextElement | ImageElement | ShapeElement | FrameElement;
+export type Element = TextElement | ImageElement | ShapeElement | FrameElement | GroupElement;
 
 export interface Guide {
   type: "vertical" | "horizontal";
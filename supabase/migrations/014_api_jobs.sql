@@ -0,0 +1,74 @@
+-- ============================================
+-- API Jobs Tables
+-- Purpose: Asynchronous render jobs submitted through POST /api/v1/jobs
+-- Jobs are processed by the Inngest render-api-job function
+-- ============================================
+
+-- Create api_jobs table
+CREATE TABLE IF NOT EXISTS public.api_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    template_id UUID NOT NULL REFERENCES public.templates(id) ON DELETE CASCADE,
+    template_short_id TEXT NOT NULL,              -- As passed by the caller (e.g. TMPL-abc123xy)
+    rows JSONB,                                   -- Inline rows (NULL when csv_url is used)
+    csv_url TEXT,                                 -- Remote CSV source (downloaded by the worker)
+    field_mapping JSONB NOT NULL DEFAULT '{}'::jsonb,
+    multiplier NUMERIC NOT NULL DEFAULT 1,
+    total_rows INTEGER NOT NULL DEFAULT 0,        -- 0 until the worker has parsed csv_url
+    status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'processing', 'completed', 'failed', 'cancelled')),
+    error_message TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    started_at TIMESTAMPTZ,
+    completed_at TIMESTAMPTZ,
+    cancelled_at TIMESTAMPTZ,
+    CONSTRAINT api_jobs_source_check CHECK (rows IS NOT NULL OR csv_url IS NOT NULL)
+);
+
+-- Create api_job_results table (one row per rendered input row)
+CREATE TABLE IF NOT EXISTS public.api_job_results (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    job_id UUID NOT NULL REFERENCES public.api_jobs(id) ON DELETE CASCADE,
+    row_index INTEGER NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('success', 'error')),
+    url TEXT,
+    error TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    UNIQUE (job_id, row_index)
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_api_jobs_user_id ON public.api_jobs(user_id);
+CREATE INDEX IF NOT EXISTS idx_api_jobs_status ON public.api_jobs(status);
+CREATE INDEX IF NOT EXISTS idx_api_jobs_created_at ON public.api_jobs(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_api_job_results_job_id ON public.api_job_results(job_id, row_index);
+
+-- Enable Row Level Security
+-- Jobs are created and processed with the service role; users can only read their own
+ALTER TABLE public.api_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.api_job_results ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can view their own jobs
+CREATE POLICY "Users can view own api_jobs"
+    ON public.api_jobs
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+-- Policy: Users can view results of their own jobs
+CREATE POLICY "Users can view own api_job_results"
+    ON public.api_job_results
+    FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.api_jobs
+            WHERE api_jobs.id = api_job_results.job_id
+            AND api_jobs.user_id = auth.uid()
+        )
+    );
+
+-- Grant permissions
+GRANT SELECT ON public.api_jobs TO authenticated;
+GRANT SELECT ON public.api_job_results TO authenticated;
+
+-- Add comment for documentation
+COMMENT ON TABLE public.api_jobs IS 'Asynchronous render jobs submitted through the public API';
+COMMENT ON TABLE public.api_job_results IS 'Per-row outcome of an API render job';
@@ -0,0 +1,66 @@
+-- ============================================
+-- Webhooks Tables
+-- Purpose: Per-account outgoing webhook endpoints and their delivery log
+-- Deliveries are sent (and retried) by the Inngest deliver-webhook function
+-- ============================================
+
+-- Create webhook_endpoints table
+CREATE TABLE IF NOT EXISTS public.webhook_endpoints (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    url TEXT NOT NULL,
+    secret TEXT NOT NULL,                         -- HMAC signing secret (whsec_...)
+    description TEXT,
+    events TEXT[] NOT NULL DEFAULT '{}',          -- Subscribed event types (empty = all events)
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Create webhook_deliveries table (one row per event per endpoint)
+CREATE TABLE IF NOT EXISTS public.webhook_deliveries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    endpoint_id UUID NOT NULL REFERENCES public.webhook_endpoints(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    event_id TEXT NOT NULL,                       -- Shared by all deliveries of the same event
+    event_type TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    response_status INTEGER,
+    response_body TEXT,                           -- Truncated response from the receiver
+    error TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    last_attempt_at TIMESTAMPTZ,
+    delivered_at TIMESTAMPTZ
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_user_id ON public.webhook_endpoints(user_id) WHERE is_active = true;
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_user_created ON public.webhook_deliveries(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint_id ON public.webhook_deliveries(endpoint_id);
+
+-- Enable Row Level Security
+-- Endpoints are managed through /api/webhooks with the service role; users can only read their own
+ALTER TABLE public.webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can view their own endpoints
+CREATE POLICY "Users can view own webhook_endpoints"
+    ON public.webhook_endpoints
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+-- Policy: Users can view their own delivery log
+CREATE POLICY "Users can view own webhook_deliveries"
+    ON public.webhook_deliveries
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+-- Grant permissions
+GRANT SELECT ON public.webhook_endpoints TO authenticated;
+GRANT SELECT ON public.webhook_deliveries TO authenticated;
+
+-- Add comment for documentation
+COMMENT ON TABLE public.webhook_endpoints IS 'Outgoing webhook endpoints registered per account';
+COMMENT ON TABLE public.webhook_deliveries IS 'Delivery log for outgoing webhook events';
@@ -0,0 +1,75 @@
+-- ============================================
+-- API Key Limits & Usage Metering
+-- Purpose: Per-key request rate limits and monthly pin quotas for /api/v1,
+-- with pin usage recorded in usage_stats against the key that generated it
+-- ============================================
+
+-- Per-key limits
+ALTER TABLE public.api_keys
+    ADD COLUMN IF NOT EXISTS rate_limit_per_minute INTEGER NOT NULL DEFAULT 60
+        CHECK (rate_limit_per_minute > 0),
+    ADD COLUMN IF NOT EXISTS monthly_pin_quota INTEGER DEFAULT 10000
+        CHECK (monthly_pin_quota IS NULL OR monthly_pin_quota >= 0);  -- NULL = unlimited
+
+COMMENT ON COLUMN public.api_keys.rate_limit_per_minute IS 'Maximum /api/v1 requests per rolling minute';
+COMMENT ON COLUMN public.api_keys.monthly_pin_quota IS 'Maximum pins generated per calendar month (UTC), NULL for unlimited';
+
+-- Limits are managed by the service role; users may still rename and revoke their keys
+REVOKE UPDATE ON public.api_keys FROM authenticated;
+GRANT UPDATE (name, is_active, last_used_at) ON public.api_keys TO authenticated;
+
+-- Attribute usage to the API key that produced it
+ALTER TABLE public.usage_stats
+    ADD COLUMN IF NOT EXISTS api_key_id UUID REFERENCES public.api_keys(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_usage_stats_api_key_created
+    ON public.usage_stats(api_key_id, created_at DESC)
+    WHERE api_key_id IS NOT NULL;
+
+-- Metered rows are written by the API only - users can't insert (or offset) them
+DROP POLICY IF EXISTS "Users can create own usage stats" ON public.usage_stats;
+CREATE POLICY "Users can create own usage stats"
+    ON public.usage_stats
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id AND api_key_id IS NULL);
+
+-- Jobs remember which key queued them so the worker can meter their pins
+ALTER TABLE public.api_jobs
+    ADD COLUMN IF NOT EXISTS api_key_id UUID REFERENCES public.api_keys(id) ON DELETE SET NULL;
+
+-- ============================================
+-- Usage aggregation helpers
+-- ============================================
+
+-- Total pins generated by a key since a point in time (quota checks)
+CREATE OR REPLACE FUNCTION public.get_api_key_pin_usage(
+    p_api_key_id UUID,
+    p_since TIMESTAMPTZ
+)
+RETURNS BIGINT AS $$
+    SELECT COALESCE(SUM(count), 0)
+    FROM public.usage_stats
+    WHERE api_key_id = p_api_key_id
+      AND action_type = 'pin_generated'
+      AND created_at >= p_since;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Pins generated by a key per UTC day since a point in time (dashboard chart)
+CREATE OR REPLACE FUNCTION public.get_api_key_daily_usage(
+    p_api_key_id UUID,
+    p_since TIMESTAMPTZ
+)
+RETURNS TABLE (day DATE, pins BIGINT) AS $$
+    SELECT (created_at AT TIME ZONE 'UTC')::date AS day, SUM(count) AS pins
+    FROM public.usage_stats
+    WHERE api_key_id = p_api_key_id
+      AND action_type = 'pin_generated'
+      AND created_at >= p_since
+    GROUP BY 1
+    ORDER BY 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.get_api_key_pin_usage(UUID, TIMESTAMPTZ) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.get_api_key_daily_usage(UUID, TIMESTAMPTZ) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_api_key_pin_usage(UUID, TIMESTAMPTZ) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_api_key_daily_usage(UUID, TIMESTAMPTZ) TO service_role;
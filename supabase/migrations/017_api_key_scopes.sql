@@ -0,0 +1,22 @@
+-- ============================================
+-- Scoped API Keys
+-- Purpose: Restrict what an API key can do (scopes), until when (expiry)
+-- and with which templates (allow-list), and support rotation with a grace period
+-- ============================================
+
+ALTER TABLE public.api_keys
+    ADD COLUMN IF NOT EXISTS scopes TEXT[] NOT NULL DEFAULT ARRAY['generate']::TEXT[],
+    ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ,                -- NULL = never expires
+    ADD COLUMN IF NOT EXISTS allowed_template_ids TEXT[],           -- Template short ids, NULL = all templates
+    ADD COLUMN IF NOT EXISTS replaced_by UUID REFERENCES public.api_keys(id) ON DELETE SET NULL;
+
+ALTER TABLE public.api_keys
+    ADD CONSTRAINT api_keys_scopes_check
+    CHECK (scopes <@ ARRAY['generate', 'templates:read', 'campaigns:write']::TEXT[]);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_expires_at ON public.api_keys(expires_at) WHERE expires_at IS NOT NULL;
+
+COMMENT ON COLUMN public.api_keys.scopes IS 'Permissions granted to the key: generate, templates:read, campaigns:write';
+COMMENT ON COLUMN public.api_keys.expires_at IS 'Key stops authenticating after this time (also set when the key is rotated)';
+COMMENT ON COLUMN public.api_keys.allowed_template_ids IS 'Template short ids the key may render, NULL for all of the owner''s templates';
+COMMENT ON COLUMN public.api_keys.replaced_by IS 'Key created by rotating this one';
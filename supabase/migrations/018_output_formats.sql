@@ -0,0 +1,26 @@
+-- ============================================
+-- Pin Output Formats
+-- Purpose: Per-campaign and per-API-job image format, quality and file size budget
+-- ============================================
+
+-- Campaign-level output settings (used by both client and server generation)
+ALTER TABLE public.campaigns
+    ADD COLUMN IF NOT EXISTS output_format TEXT NOT NULL DEFAULT 'jpeg'
+        CHECK (output_format IN ('jpeg', 'png', 'webp', 'avif')),
+    ADD COLUMN IF NOT EXISTS output_quality INTEGER
+        CHECK (output_quality IS NULL OR output_quality BETWEEN 1 AND 100),   -- NULL = format default
+    ADD COLUMN IF NOT EXISTS max_file_size_kb INTEGER
+        CHECK (max_file_size_kb IS NULL OR max_file_size_kb > 0);             -- NULL = no budget
+
+COMMENT ON COLUMN public.campaigns.output_format IS 'Image format pins are stored in: jpeg, png, webp or avif';
+COMMENT ON COLUMN public.campaigns.output_quality IS 'Starting encoder quality (1-100), NULL for the format default';
+COMMENT ON COLUMN public.campaigns.max_file_size_kb IS 'Quality is stepped down until each pin fits, NULL for no limit';
+
+-- Request-level output settings for asynchronous API jobs
+ALTER TABLE public.api_jobs
+    ADD COLUMN IF NOT EXISTS output_format TEXT NOT NULL DEFAULT 'jpeg'
+        CHECK (output_format IN ('jpeg', 'png', 'webp', 'avif')),
+    ADD COLUMN IF NOT EXISTS output_quality INTEGER
+        CHECK (output_quality IS NULL OR output_quality BETWEEN 1 AND 100),
+    ADD COLUMN IF NOT EXISTS max_file_size_kb INTEGER
+        CHECK (max_file_size_kb IS NULL OR max_file_size_kb > 0);
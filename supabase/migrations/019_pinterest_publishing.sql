@@ -0,0 +1,19 @@
+-- ============================================
+-- Pinterest Publishing
+-- Purpose: Map CSV columns to pin title/description/link per campaign and
+-- record per-pin publish failures so the publisher can skip and retry them
+-- ============================================
+
+ALTER TABLE public.campaigns
+    ADD COLUMN IF NOT EXISTS pin_content_mapping JSONB;   -- { title_column, description_column, link_column, alt_text_column }
+
+ALTER TABLE public.generated_pins
+    ADD COLUMN IF NOT EXISTS publish_error TEXT;          -- Last Pinterest error, NULL = not attempted or posted
+
+-- Publisher looks up a campaign's pins that still need posting
+CREATE INDEX IF NOT EXISTS idx_generated_pins_unpublished
+    ON public.generated_pins(campaign_id, created_at)
+    WHERE pinterest_pin_id IS NULL;
+
+COMMENT ON COLUMN public.campaigns.pin_content_mapping IS 'CSV columns used for the Pinterest pin title, description, link and alt text';
+COMMENT ON COLUMN public.generated_pins.publish_error IS 'Why posting this pin to Pinterest failed; cleared when publishing is retried';
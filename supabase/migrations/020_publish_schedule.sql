@@ -0,0 +1,79 @@
+-- ============================================
+-- Scheduled Publishing
+-- Purpose: Spread a campaign's pins over a date range with per-board daily
+-- caps and posting windows; a cron function posts pins as their slot comes due
+-- ============================================
+
+ALTER TABLE public.campaigns
+    ADD COLUMN IF NOT EXISTS publish_schedule JSONB;      -- { start_date, end_date, timezone, window_start, window_end, daily_cap }
+
+ALTER TABLE public.generated_pins
+    ADD COLUMN IF NOT EXISTS scheduled_at TIMESTAMPTZ,    -- NULL = not scheduled (posted by "publish now")
+    ADD COLUMN IF NOT EXISTS pinterest_board_id TEXT;     -- Board the pin is scheduled for / was posted to
+
+-- Queue drain: unposted pins whose slot has come
+CREATE INDEX IF NOT EXISTS idx_generated_pins_publish_queue
+    ON public.generated_pins(scheduled_at)
+    WHERE scheduled_at IS NOT NULL AND pinterest_pin_id IS NULL;
+
+-- Daily cap checks count a board's pins per day
+CREATE INDEX IF NOT EXISTS idx_generated_pins_board_schedule
+    ON public.generated_pins(user_id, pinterest_board_id, scheduled_at)
+    WHERE pinterest_board_id IS NOT NULL;
+
+-- Assign slots to many pins in one statement (clears a failed attempt's error)
+-- p_slots: [{ "id": "<pin uuid>", "scheduled_at": "<timestamptz or null>" }, ...]
+CREATE OR REPLACE FUNCTION public.schedule_generated_pins(
+    p_campaign_id UUID,
+    p_board_id TEXT,
+    p_slots JSONB
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_updated INTEGER;
+BEGIN
+    UPDATE public.generated_pins AS p
+    SET scheduled_at = s.scheduled_at,
+        pinterest_board_id = CASE WHEN s.scheduled_at IS NULL THEN NULL ELSE p_board_id END,
+        publish_error = NULL                              -- A new slot is a fresh attempt
+    FROM jsonb_to_recordset(p_slots) AS s(id UUID, scheduled_at TIMESTAMPTZ)
+    WHERE p.id = s.id
+      AND p.campaign_id = p_campaign_id
+      AND p.pinterest_pin_id IS NULL;
+
+    GET DIAGNOSTICS v_updated = ROW_COUNT;
+    RETURN v_updated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Pins booked on a board per local day: posted pins count on the day they went
+-- out, queued pins on their slot. A campaign being rescheduled excludes its own
+-- queued pins.
+CREATE OR REPLACE FUNCTION public.get_board_daily_bookings(
+    p_user_id UUID,
+    p_board_id TEXT,
+    p_from TIMESTAMPTZ,
+    p_to TIMESTAMPTZ,
+    p_timezone TEXT,
+    p_exclude_campaign_id UUID DEFAULT NULL
+)
+RETURNS TABLE (day DATE, pins BIGINT) AS $$
+    SELECT (COALESCE(posted_at, scheduled_at) AT TIME ZONE p_timezone)::date AS day, COUNT(*) AS pins
+    FROM public.generated_pins
+    WHERE user_id = p_user_id
+      AND pinterest_board_id = p_board_id
+      AND COALESCE(posted_at, scheduled_at) >= p_from
+      AND COALESCE(posted_at, scheduled_at) < p_to
+      AND NOT (pinterest_pin_id IS NULL AND campaign_id IS NOT DISTINCT FROM p_exclude_campaign_id)
+    GROUP BY 1
+    ORDER BY 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.schedule_generated_pins(UUID, TEXT, JSONB) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.get_board_daily_bookings(UUID, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, TEXT, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.schedule_generated_pins(UUID, TEXT, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_board_daily_bookings(UUID, TEXT, TIMESTAMPTZ, TIMESTAMPTZ, TEXT, UUID) TO service_role;
+
+COMMENT ON COLUMN public.campaigns.publish_schedule IS 'Date range, timezone, posting window and per-board daily cap for scheduled publishing';
+COMMENT ON COLUMN public.generated_pins.scheduled_at IS 'When the publish queue posts this pin to Pinterest';
+COMMENT ON COLUMN public.generated_pins.pinterest_board_id IS 'Board the pin is scheduled for or was posted to';
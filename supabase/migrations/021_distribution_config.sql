@@ -0,0 +1,22 @@
+-- ============================================
+-- Weighted and Rule-Based Template Distribution
+-- Purpose: Assign templates by per-template percentages or by conditions on
+-- each CSV row, with a fallback template
+-- ============================================
+
+ALTER TABLE public.campaigns
+    ADD COLUMN IF NOT EXISTS distribution_config JSONB;   -- { weights, rules, fallback_template_id }
+
+-- Allow the new modes
+ALTER TABLE public.campaigns
+    DROP CONSTRAINT IF EXISTS campaigns_distribution_mode_check;
+
+ALTER TABLE public.campaigns
+    ADD CONSTRAINT campaigns_distribution_mode_check
+    CHECK (distribution_mode IN ('sequential', 'random', 'equal', 'csv_column', 'weighted', 'rules'));
+
+COMMENT ON COLUMN public.campaigns.distribution_mode IS
+    'How templates are assigned to rows: sequential, random, equal, csv_column, weighted, rules';
+
+COMMENT ON COLUMN public.campaigns.distribution_config IS
+    'Per-template percentages (weighted mode) or ordered row conditions and fallback template (rules mode)';
@@ -0,0 +1,65 @@
+-- ============================================
+-- Live-Synced Data Sources
+-- Purpose: Bind a campaign to a remote source (Sheets URL, CSV/XLSX link or
+-- JSON feed) that is re-fetched on demand or on a schedule. Rows are matched
+-- by a key column; only new or changed rows are rendered again and pins for
+-- removed or changed rows are marked stale
+-- ============================================
+
+ALTER TABLE public.campaigns
+    ADD COLUMN IF NOT EXISTS data_source JSONB,           -- { url, format, sheet, json_path, key_column, schedule }
+    ADD COLUMN IF NOT EXISTS last_synced_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS last_sync_summary JSONB;     -- { synced_at, total_rows, added, changed, removed, unchanged, ... }
+
+COMMENT ON COLUMN public.campaigns.data_source IS
+    'Remote rows the campaign re-fetches: URL, format options, key column and schedule (manual, hourly, daily)';
+
+COMMENT ON COLUMN public.campaigns.last_sync_summary IS
+    'Counts of added, changed, removed and unchanged rows from the latest sync, or its error';
+
+ALTER TABLE public.generated_pins
+    ADD COLUMN IF NOT EXISTS stale_at TIMESTAMPTZ;        -- Set when the pin's row was removed or changed at the source
+
+-- Cron lookup: campaigns on a sync schedule
+CREATE INDEX IF NOT EXISTS idx_campaigns_data_source_schedule
+    ON public.campaigns((data_source->>'schedule'), last_synced_at)
+    WHERE data_source IS NOT NULL;
+
+-- Syncs and the pins grid read a campaign's current (not stale) pins
+CREATE INDEX IF NOT EXISTS idx_generated_pins_current
+    ON public.generated_pins(campaign_id, created_at)
+    WHERE stale_at IS NULL;
+
+-- Apply a sync's pin changes in one statement
+-- p_stale_ids: pins whose row was removed or changed (queued slots are released)
+-- p_row_indexes: [{ "id": "<pin uuid>", "row_index": <new position> }, ...] for kept pins
+CREATE OR REPLACE FUNCTION public.apply_source_sync(
+    p_campaign_id UUID,
+    p_stale_ids UUID[],
+    p_row_indexes JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+    UPDATE public.generated_pins
+    SET stale_at = NOW(),
+        scheduled_at = CASE WHEN pinterest_pin_id IS NULL THEN NULL ELSE scheduled_at END,
+        pinterest_board_id = CASE WHEN pinterest_pin_id IS NULL THEN NULL ELSE pinterest_board_id END
+    WHERE campaign_id = p_campaign_id
+      AND id = ANY(p_stale_ids)
+      AND stale_at IS NULL;
+
+    UPDATE public.generated_pins AS p
+    SET data_row = jsonb_set(p.data_row, '{rowIndex}', to_jsonb(r.row_index))
+    FROM jsonb_to_recordset(p_row_indexes) AS r(id UUID, row_index INTEGER)
+    WHERE p.id = r.id
+      AND p.campaign_id = p_campaign_id;
+END;
+$$;
+
+-- Only the sync worker (service role) may call it - it skips RLS on any campaign
+REVOKE EXECUTE ON FUNCTION public.apply_source_sync(UUID, UUID[], JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_source_sync(UUID, UUID[], JSONB) TO service_role;
+
+COMMENT ON FUNCTION public.apply_source_sync(UUID, UUID[], JSONB) IS
+    'Marks pins stale and moves kept pins to their row''s new position after a data source sync';
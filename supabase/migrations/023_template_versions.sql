@@ -0,0 +1,88 @@
+-- ============================================
+-- Template Version History
+-- Purpose: Keep a copy of a template's design on each manual save, on a
+-- sample of auto-saves, on restores and for named checkpoints, and record
+-- which version each campaign rendered from
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.template_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    template_id UUID NOT NULL REFERENCES public.templates(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    version_number INTEGER NOT NULL,              -- 1, 2, 3... per template (set by trigger)
+    source TEXT NOT NULL CHECK (source IN ('manual', 'autosave', 'checkpoint', 'restore')),
+    name TEXT,                                    -- Checkpoint label
+    elements JSONB NOT NULL DEFAULT '[]',
+    canvas_size JSONB NOT NULL,
+    background_color TEXT NOT NULL DEFAULT '#FFFFFF',
+    content_hash TEXT NOT NULL,                   -- Skips saving a design that didn't change
+    thumbnail_url TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    UNIQUE (template_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_template_versions_template
+    ON public.template_versions(template_id, version_number DESC);
+
+-- Number versions per template; the lock keeps two saves from taking the same number
+CREATE OR REPLACE FUNCTION public.set_template_version_number()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext(NEW.template_id::text));
+
+    SELECT COALESCE(MAX(version_number), 0) + 1
+    INTO NEW.version_number
+    FROM public.template_versions
+    WHERE template_id = NEW.template_id;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_template_versions_number ON public.template_versions;
+CREATE TRIGGER trg_template_versions_number
+    BEFORE INSERT ON public.template_versions
+    FOR EACH ROW EXECUTE FUNCTION public.set_template_version_number();
+
+-- Enable Row Level Security
+-- Versions are written by the editor with the user's session
+ALTER TABLE public.template_versions ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can view versions of their own templates
+CREATE POLICY "Users can view own template_versions"
+    ON public.template_versions
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+-- Policy: Users can add versions to templates they own
+CREATE POLICY "Users can insert own template_versions"
+    ON public.template_versions
+    FOR INSERT
+    WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (
+            SELECT 1 FROM public.templates t
+            WHERE t.id = template_id AND t.user_id = auth.uid()
+        )
+    );
+
+-- Policy: Users can name checkpoints and attach thumbnails
+CREATE POLICY "Users can update own template_versions"
+    ON public.template_versions
+    FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+-- Grant permissions
+GRANT SELECT, INSERT ON public.template_versions TO authenticated;
+GRANT UPDATE (name, thumbnail_url) ON public.template_versions TO authenticated;
+
+-- Campaigns remember the version of their primary template they rendered from
+-- (multi-template campaigns also keep version_id / version_number in template_snapshot)
+ALTER TABLE public.campaigns
+    ADD COLUMN IF NOT EXISTS template_version_id UUID
+        REFERENCES public.template_versions(id) ON DELETE SET NULL;
+
+-- Add comment for documentation
+COMMENT ON TABLE public.template_versions IS 'Saved copies of template designs for history, diff and restore';
+COMMENT ON COLUMN public.campaigns.template_version_id IS 'Template version the campaign rendered from';
@@ -0,0 +1,40 @@
+-- ============================================
+-- Template Revisions
+-- Purpose: Optimistic concurrency for template saves. Each change to a
+-- template's design bumps its revision; the editor sends the revision it
+-- loaded and a save based on an older one is rejected, so two tabs (or
+-- teammates) can't silently overwrite each other
+-- ============================================
+
+ALTER TABLE public.templates
+    ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 1;
+
+-- Reject stale writes and bump the revision when the design changes.
+-- Writers that don't send a revision (metadata edits, view counts) leave
+-- NEW.revision equal to OLD.revision and pass the check.
+CREATE OR REPLACE FUNCTION public.check_template_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.revision IS DISTINCT FROM OLD.revision THEN
+        RAISE EXCEPTION 'Template % was changed elsewhere (revision %, save based on %)',
+            OLD.id, OLD.revision, NEW.revision
+            USING ERRCODE = '40001';
+    END IF;
+
+    IF NEW.elements IS DISTINCT FROM OLD.elements
+        OR NEW.canvas_size IS DISTINCT FROM OLD.canvas_size
+        OR NEW.background_color IS DISTINCT FROM OLD.background_color THEN
+        NEW.revision := OLD.revision + 1;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_templates_revision ON public.templates;
+CREATE TRIGGER trg_templates_revision
+    BEFORE UPDATE ON public.templates
+    FOR EACH ROW EXECUTE FUNCTION public.check_template_revision();
+
+-- Add comment for documentation
+COMMENT ON COLUMN public.templates.revision IS 'Bumped on each design change; saves must be based on the current revision';
@@ -0,0 +1,571 @@
+-- ============================================
+-- Workspaces and Team Sharing
+-- Purpose: Let teams share templates, fonts, categories, tags and campaigns.
+-- Every user gets a personal workspace; existing rows move into it. Members
+-- are owners, editors (read and write) or viewers (read only) and join
+-- through emailed invitations.
+-- ============================================
+
+-- ─────────────────────────────────────────────
+-- Tables
+-- ─────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.workspaces (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+    owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    is_personal BOOLEAN NOT NULL DEFAULT FALSE,   -- Created with the account, can't be deleted or shared
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- One personal workspace per user
+CREATE UNIQUE INDEX IF NOT EXISTS uq_workspaces_personal
+    ON public.workspaces(owner_id) WHERE is_personal;
+
+CREATE TABLE IF NOT EXISTS public.workspace_members (
+    workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    PRIMARY KEY (workspace_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_members_user ON public.workspace_members(user_id);
+
+CREATE TABLE IF NOT EXISTS public.workspace_invitations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+    email TEXT NOT NULL,
+    role TEXT NOT NULL CHECK (role IN ('editor', 'viewer')),
+    token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+    invited_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    expires_at TIMESTAMPTZ NOT NULL DEFAULT now() + INTERVAL '7 days',
+    accepted_at TIMESTAMPTZ,
+    accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_invitations_workspace
+    ON public.workspace_invitations(workspace_id) WHERE accepted_at IS NULL;
+
+-- ─────────────────────────────────────────────
+-- Membership helpers
+-- SECURITY DEFINER so policies on workspace_members can use them
+-- without recursing into their own RLS
+-- ─────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.workspace_role(ws UUID)
+RETURNS TEXT
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+    SELECT role FROM public.workspace_members
+    WHERE workspace_id = ws AND user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_workspace_member(ws UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+    SELECT public.workspace_role(ws) IS NOT NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_edit_workspace(ws UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+    SELECT COALESCE(public.workspace_role(ws) IN ('owner', 'editor'), FALSE);
+$$;
+
+-- Personal workspace of a user, created on first use
+CREATE OR REPLACE FUNCTION public.ensure_personal_workspace(uid UUID)
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+    ws_id UUID;
+BEGIN
+    SELECT id INTO ws_id FROM public.workspaces WHERE owner_id = uid AND is_personal;
+    IF ws_id IS NULL THEN
+        INSERT INTO public.workspaces (name, owner_id, is_personal)
+        VALUES ('Personal', uid, TRUE)
+        ON CONFLICT DO NOTHING
+        RETURNING id INTO ws_id;
+
+        -- Lost a race with another insert for the same user
+        IF ws_id IS NULL THEN
+            SELECT id INTO ws_id FROM public.workspaces WHERE owner_id = uid AND is_personal;
+        END IF;
+    END IF;
+    RETURN ws_id;
+END;
+$$;
+
+-- The creator of a workspace is its owner
+CREATE OR REPLACE FUNCTION public.add_workspace_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+    INSERT INTO public.workspace_members (workspace_id, user_id, role)
+    VALUES (NEW.id, NEW.owner_id, 'owner')
+    ON CONFLICT (workspace_id, user_id) DO UPDATE SET role = 'owner';
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_workspaces_add_owner ON public.workspaces;
+CREATE TRIGGER trg_workspaces_add_owner
+    AFTER INSERT ON public.workspaces
+    FOR EACH ROW EXECUTE FUNCTION public.add_workspace_owner();
+
+-- New accounts start with a personal workspace
+CREATE OR REPLACE FUNCTION public.create_personal_workspace()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+    PERFORM public.ensure_personal_workspace(NEW.id);
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_auth_users_personal_workspace ON auth.users;
+CREATE TRIGGER trg_auth_users_personal_workspace
+    AFTER INSERT ON auth.users
+    FOR EACH ROW EXECUTE FUNCTION public.create_personal_workspace();
+
+-- Backfill for existing accounts
+SELECT public.ensure_personal_workspace(id) FROM auth.users;
+
+-- ─────────────────────────────────────────────
+-- workspace_id on shared tables
+-- Rows inserted without one (Inngest jobs, older clients) land in the
+-- inserting user's personal workspace
+-- ─────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.set_default_workspace()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+    IF NEW.workspace_id IS NULL THEN
+        NEW.workspace_id := public.ensure_personal_workspace(NEW.user_id);
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DO $$
+DECLARE
+    tbl TEXT;
+BEGIN
+    FOREACH tbl IN ARRAY ARRAY['templates', 'campaigns', 'custom_fonts', 'categories', 'tags', 'api_keys']
+    LOOP
+        EXECUTE format(
+            'ALTER TABLE public.%I ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE',
+            tbl
+        );
+        EXECUTE format(
+            'UPDATE public.%I t SET workspace_id = w.id FROM public.workspaces w WHERE w.owner_id = t.user_id AND w.is_personal AND t.workspace_id IS NULL',
+            tbl
+        );
+        EXECUTE format('ALTER TABLE public.%I ALTER COLUMN workspace_id SET NOT NULL', tbl);
+        EXECUTE format('CREATE INDEX IF NOT EXISTS idx_%s_workspace_id ON public.%I(workspace_id)', tbl, tbl);
+        EXECUTE format('DROP TRIGGER IF EXISTS trg_%s_default_workspace ON public.%I', tbl, tbl);
+        EXECUTE format(
+            'CREATE TRIGGER trg_%s_default_workspace BEFORE INSERT ON public.%I FOR EACH ROW EXECUTE FUNCTION public.set_default_workspace()',
+            tbl, tbl
+        );
+    END LOOP;
+END $$;
+
+-- Slugs are unique per workspace now, not per user
+ALTER TABLE public.categories DROP CONSTRAINT IF EXISTS uq_categories_user_slug;
+ALTER TABLE public.categories ADD CONSTRAINT uq_categories_workspace_slug UNIQUE (workspace_id, slug);
+
+ALTER TABLE public.tags DROP CONSTRAINT IF EXISTS uq_tags_user_slug;
+ALTER TABLE public.tags ADD CONSTRAINT uq_tags_workspace_slug UNIQUE (workspace_id, slug);
+
+-- ─────────────────────────────────────────────
+-- RLS: workspaces, members, invitations
+-- ─────────────────────────────────────────────
+
+ALTER TABLE public.workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Members can see the workspaces they belong to
+CREATE POLICY "Members can view workspaces"
+    ON public.workspaces
+    FOR SELECT
+    USING (public.is_workspace_member(id));
+
+-- Policy: Anyone can create a team workspace they own
+CREATE POLICY "Users can create workspaces"
+    ON public.workspaces
+    FOR INSERT
+    WITH CHECK (auth.uid() = owner_id AND NOT is_personal);
+
+-- Policy: Owners can rename their workspace
+CREATE POLICY "Owners can update workspaces"
+    ON public.workspaces
+    FOR UPDATE
+    USING (public.workspace_role(id) = 'owner')
+    WITH CHECK (public.workspace_role(id) = 'owner' AND auth.uid() = owner_id);
+
+-- Policy: Owners can delete team workspaces (everything in them goes too)
+CREATE POLICY "Owners can delete workspaces"
+    ON public.workspaces
+    FOR DELETE
+    USING (public.workspace_role(id) = 'owner' AND NOT is_personal);
+
+-- Policy: Members can see who else is in the workspace
+CREATE POLICY "Members can view workspace_members"
+    ON public.workspace_members
+    FOR SELECT
+    USING (public.is_workspace_member(workspace_id));
+
+-- Policy: Owners can change other members between editor and viewer
+CREATE POLICY "Owners can update workspace_members"
+    ON public.workspace_members
+    FOR UPDATE
+    USING (public.workspace_role(workspace_id) = 'owner' AND role <> 'owner')
+    WITH CHECK (role IN ('editor', 'viewer'));
+
+-- Policy: Owners can remove members, and members can leave
+CREATE POLICY "Owners can delete workspace_members"
+    ON public.workspace_members
+    FOR DELETE
+    USING (
+        role <> 'owner'
+        AND (public.workspace_role(workspace_id) = 'owner' OR auth.uid() = user_id)
+    );
+
+-- Policy: Owners manage invitations (invitees accept through the RPC below)
+CREATE POLICY "Owners can view workspace_invitations"
+    ON public.workspace_invitations
+    FOR SELECT
+    USING (public.workspace_role(workspace_id) = 'owner');
+
+CREATE POLICY "Owners can create workspace_invitations"
+    ON public.workspace_invitations
+    FOR INSERT
+    WITH CHECK (
+        auth.uid() = invited_by
+        AND public.workspace_role(workspace_id) = 'owner'
+        AND NOT EXISTS (
+            SELECT 1 FROM public.workspaces w
+            WHERE w.id = workspace_id AND w.is_personal
+        )
+    );
+
+CREATE POLICY "Owners can delete workspace_invitations"
+    ON public.workspace_invitations
+    FOR DELETE
+    USING (public.workspace_role(workspace_id) = 'owner');
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.workspaces TO authenticated;
+GRANT SELECT, DELETE ON public.workspace_members TO authenticated;
+GRANT UPDATE (role) ON public.workspace_members TO authenticated;
+GRANT SELECT, INSERT, DELETE ON public.workspace_invitations TO authenticated;
+
+-- ─────────────────────────────────────────────
+-- RLS: shared content
+-- Members read, owners and editors write
+-- ─────────────────────────────────────────────
+
+-- Templates (public templates stay visible to everyone)
+DROP POLICY IF EXISTS "Users can view own templates" ON public.templates;
+DROP POLICY IF EXISTS "Users can create own templates" ON public.templates;
+DROP POLICY IF EXISTS "Users can update own templates" ON public.templates;
+DROP POLICY IF EXISTS "Users can delete own templates" ON public.templates;
+
+CREATE POLICY "Members can view workspace templates"
+    ON public.templates
+    FOR SELECT
+    USING (public.is_workspace_member(workspace_id));
+
+CREATE POLICY "Editors can create workspace templates"
+    ON public.templates
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id AND public.can_edit_workspace(workspace_id));
+
+CREATE POLICY "Editors can update workspace templates"
+    ON public.templates
+    FOR UPDATE
+    USING (public.can_edit_workspace(workspace_id))
+    WITH CHECK (public.can_edit_workspace(workspace_id));
+
+CREATE POLICY "Editors can delete workspace templates"
+    ON public.templates
+    FOR DELETE
+    USING (public.can_edit_workspace(workspace_id));
+
+-- Campaigns
+DROP POLICY IF EXISTS "Users can view own campaigns" ON public.campaigns;
+DROP POLICY IF EXISTS "Users can create own campaigns" ON public.campaigns;
+DROP POLICY IF EXISTS "Users can update own campaigns" ON public.campaigns;
+DROP POLICY IF EXISTS "Users can delete own campaigns" ON public.campaigns;
+
+CREATE POLICY "Members can view workspace campaigns"
+    ON public.campaigns
+    FOR SELECT
+    USING (public.is_workspace_member(workspace_id));
+
+CREATE POLICY "Editors can create workspace campaigns"
+    ON public.campaigns
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id AND public.can_edit_workspace(workspace_id));
+
+CREATE POLICY "Editors can update workspace campaigns"
+    ON public.campaigns
+    FOR UPDATE
+    USING (public.can_edit_workspace(workspace_id))
+    WITH CHECK (public.can_edit_workspace(workspace_id));
+
+CREATE POLICY "Editors can delete workspace campaigns"
+    ON public.campaigns
+    FOR DELETE
+    USING (public.can_edit_workspace(workspace_id));
+
+-- Generated pins follow their campaign
+DROP POLICY IF EXISTS "Users can view own generated pins" ON public.generated_pins;
+DROP POLICY IF EXISTS "Users can create own generated pins" ON public.generated_pins;
+DROP POLICY IF EXISTS "Users can update own generated pins" ON public.generated_pins;
+DROP POLICY IF EXISTS "Users can delete own generated pins" ON public.generated_pins;
+
+CREATE POLICY "Members can view workspace generated pins"
+    ON public.generated_pins
+    FOR SELECT
+    USING (EXISTS (
+        SELECT 1 FROM public.campaigns c
+        WHERE c.id = campaign_id AND public.is_workspace_member(c.workspace_id)
+    ));
+
+CREATE POLICY "Editors can create workspace generated pins"
+    ON public.generated_pins
+    FOR INSERT
+    WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (
+            SELECT 1 FROM public.campaigns c
+            WHERE c.id = campaign_id AND public.can_edit_workspace(c.workspace_id)
+        )
+    );
+
+CREATE POLICY "Editors can update workspace generated pins"
+    ON public.generated_pins
+    FOR UPDATE
+    USING (EXISTS (
+        SELECT 1 FROM public.campaigns c
+        WHERE c.id = campaign_id AND public.can_edit_workspace(c.workspace_id)
+    ));
+
+CREATE POLICY "Editors can delete workspace generated pins"
+    ON public.generated_pins
+    FOR DELETE
+    USING (EXISTS (
+        SELECT 1 FROM public.campaigns c
+        WHERE c.id = campaign_id AND public.can_edit_workspace(c.workspace_id)
+    ));
+
+-- Custom fonts
+DROP POLICY IF EXISTS "Users can view own fonts" ON public.custom_fonts;
+DROP POLICY IF EXISTS "Users can upload fonts" ON public.custom_fonts;
+DROP POLICY IF EXISTS "Users can delete own fonts" ON public.custom_fonts;
+
+CREATE POLICY "Members can view workspace fonts"
+    ON public.custom_fonts
+    FOR SELECT
+    USING (public.is_workspace_member(workspace_id));
+
+CREATE POLICY "Editors can upload workspace fonts"
+    ON public.custom_fonts
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id AND public.can_edit_workspace(workspace_id));
+
+CREATE POLICY "Editors can delete workspace fonts"
+    ON public.custom_fonts
+    FOR DELETE
+    USING (public.can_edit_workspace(workspace_id));
+
+-- Categories
+DROP POLICY IF EXISTS "categories_select_own" ON public.categories;
+DROP POLICY IF EXISTS "categories_insert_own" ON public.categories;
+DROP POLICY IF EXISTS "categories_update_own" ON public.categories;
+DROP POLICY IF EXISTS "categories_delete_own" ON public.categories;
+
+CREATE POLICY "categories_select_workspace" ON public.categories
+    FOR SELECT
+    USING (public.is_workspace_member(workspace_id));
+
+CREATE POLICY "categories_insert_workspace" ON public.categories
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id AND public.can_edit_workspace(workspace_id));
+
+CREATE POLICY "categories_update_workspace" ON public.categories
+    FOR UPDATE
+    USING (public.can_edit_workspace(workspace_id))
+    WITH CHECK (public.can_edit_workspace(workspace_id));
+
+CREATE POLICY "categories_delete_workspace" ON public.categories
+    FOR DELETE
+    USING (public.can_edit_workspace(workspace_id));
+
+-- Tags
+DROP POLICY IF EXISTS "tags_select_own" ON public.tags;
+DROP POLICY IF EXISTS "tags_insert_own" ON public.tags;
+DROP POLICY IF EXISTS "tags_update_own" ON public.tags;
+DROP POLICY IF EXISTS "tags_delete_own" ON public.tags;
+
+CREATE POLICY "tags_select_workspace" ON public.tags
+    FOR SELECT
+    USING (public.is_workspace_member(workspace_id));
+
+CREATE POLICY "tags_insert_workspace" ON public.tags
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id AND public.can_edit_workspace(workspace_id));
+
+CREATE POLICY "tags_update_workspace" ON public.tags
+    FOR UPDATE
+    USING (public.can_edit_workspace(workspace_id))
+    WITH CHECK (public.can_edit_workspace(workspace_id));
+
+CREATE POLICY "tags_delete_workspace" ON public.tags
+    FOR DELETE
+    USING (public.can_edit_workspace(workspace_id));
+
+-- Template tags follow their template; the tag must be from the same workspace
+DROP POLICY IF EXISTS "template_tags_select_own" ON public.template_tags;
+DROP POLICY IF EXISTS "template_tags_insert_own" ON public.template_tags;
+DROP POLICY IF EXISTS "template_tags_delete_own" ON public.template_tags;
+
+CREATE POLICY "template_tags_select_workspace" ON public.template_tags
+    FOR SELECT
+    USING (EXISTS (
+        SELECT 1 FROM public.templates t
+        WHERE t.id = template_tags.template_id AND public.is_workspace_member(t.workspace_id)
+    ));
+
+CREATE POLICY "template_tags_insert_workspace" ON public.template_tags
+    FOR INSERT
+    WITH CHECK (EXISTS (
+        SELECT 1 FROM public.templates t
+        JOIN public.tags g ON g.id = template_tags.tag_id AND g.workspace_id = t.workspace_id
+        WHERE t.id = template_tags.template_id AND public.can_edit_workspace(t.workspace_id)
+    ));
+
+CREATE POLICY "template_tags_delete_workspace" ON public.template_tags
+    FOR DELETE
+    USING (EXISTS (
+        SELECT 1 FROM public.templates t
+        WHERE t.id = template_tags.template_id AND public.can_edit_workspace(t.workspace_id)
+    ));
+
+-- Template versions follow their template
+DROP POLICY IF EXISTS "Users can view own template_versions" ON public.template_versions;
+DROP POLICY IF EXISTS "Users can insert own template_versions" ON public.template_versions;
+DROP POLICY IF EXISTS "Users can update own template_versions" ON public.template_versions;
+
+CREATE POLICY "Members can view workspace template_versions"
+    ON public.template_versions
+    FOR SELECT
+    USING (EXISTS (
+        SELECT 1 FROM public.templates t
+        WHERE t.id = template_id AND public.is_workspace_member(t.workspace_id)
+    ));
+
+CREATE POLICY "Editors can insert workspace template_versions"
+    ON public.template_versions
+    FOR INSERT
+    WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (
+            SELECT 1 FROM public.templates t
+            WHERE t.id = template_id AND public.can_edit_workspace(t.workspace_id)
+        )
+    );
+
+CREATE POLICY "Editors can update workspace template_versions"
+    ON public.template_versions
+    FOR UPDATE
+    USING (EXISTS (
+        SELECT 1 FROM public.templates t
+        WHERE t.id = template_id AND public.can_edit_workspace(t.workspace_id)
+    ));
+
+-- API keys stay personal but act on one workspace, so creating one needs write access
+DROP POLICY IF EXISTS "Users can create own api_keys" ON public.api_keys;
+
+CREATE POLICY "Users can create own api_keys"
+    ON public.api_keys
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id AND public.can_edit_workspace(workspace_id));
+
+-- ─────────────────────────────────────────────
+-- RPCs
+-- ─────────────────────────────────────────────
+
+-- Join a workspace from an invitation link; the invitation is for one email
+CREATE OR REPLACE FUNCTION public.accept_workspace_invitation(invite_token TEXT)
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+    invite public.workspace_invitations%ROWTYPE;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Sign in to accept this invitation' USING ERRCODE = '28000';
+    END IF;
+
+    SELECT * INTO invite FROM public.workspace_invitations
+    WHERE token = invite_token
+    FOR UPDATE;
+
+    IF NOT FOUND OR invite.accepted_at IS NOT NULL OR invite.expires_at < now() THEN
+        RAISE EXCEPTION 'This invitation is no longer valid' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF lower(invite.email) <> lower(COALESCE(auth.jwt() ->> 'email', '')) THEN
+        RAISE EXCEPTION 'This invitation was sent to a different email address' USING ERRCODE = '42501';
+    END IF;
+
+    -- Existing members keep their role
+    INSERT INTO public.workspace_members (workspace_id, user_id, role)
+    VALUES (invite.workspace_id, auth.uid(), invite.role)
+    ON CONFLICT (workspace_id, user_id) DO NOTHING;
+
+    UPDATE public.workspace_invitations
+    SET accepted_at = now(), accepted_by = auth.uid()
+    WHERE id = invite.id;
+
+    RETURN invite.workspace_id;
+END;
+$$;
+
+-- Members with their account details (auth.users isn't readable by clients)
+CREATE OR REPLACE FUNCTION public.list_workspace_members(ws UUID)
+RETURNS TABLE (
+    user_id UUID,
+    role TEXT,
+    email TEXT,
+    full_name TEXT,
+    avatar_url TEXT,
+    created_at TIMESTAMPTZ
+)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+    SELECT
+        m.user_id,
+        m.role,
+        u.email::TEXT,
+        COALESCE(u.raw_user_meta_data ->> 'full_name', u.raw_user_meta_data ->> 'name'),
+        u.raw_user_meta_data ->> 'avatar_url',
+        m.created_at
+    FROM public.workspace_members m
+    JOIN auth.users u ON u.id = m.user_id
+    WHERE m.workspace_id = ws AND public.is_workspace_member(ws)
+    ORDER BY CASE m.role WHEN 'owner' THEN 0 WHEN 'editor' THEN 1 ELSE 2 END, m.created_at;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.accept_workspace_invitation(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.list_workspace_members(UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.ensure_personal_workspace(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Add comment for documentation
+COMMENT ON TABLE public.workspaces IS 'Teams that share templates, fonts, categories, tags and campaigns';
+COMMENT ON TABLE public.workspace_members IS 'Workspace membership with owner / editor / viewer roles';
+COMMENT ON TABLE public.workspace_invitations IS 'Pending and accepted invitations to join a workspace';
+COMMENT ON COLUMN public.templates.workspace_id IS 'Workspace the template is shared in';
@@ -0,0 +1,209 @@
+-- ============================================
+-- Comments and Template Approval
+-- Purpose: Let clients sign off on designs before a campaign launches.
+-- Templates move draft -> in_review -> approved and only approved ones can
+-- start a campaign. Members leave comments pinned to a spot (or element) on
+-- a template, and threaded comments on individual generated pins.
+-- ============================================
+
+-- ─────────────────────────────────────────────
+-- Template status
+-- ─────────────────────────────────────────────
+
+-- Existing templates are already in use by campaigns, so they start approved;
+-- new templates start as drafts
+ALTER TABLE public.templates
+    ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'approved'
+        CHECK (status IN ('draft', 'in_review', 'approved')),
+    ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS status_changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.templates ALTER COLUMN status SET DEFAULT 'draft';
+
+CREATE INDEX IF NOT EXISTS idx_templates_workspace_status ON public.templates(workspace_id, status);
+
+-- Status only changes through set_template_status (which checks who may move
+-- it where), and an approved template goes back to draft when its design changes
+CREATE OR REPLACE FUNCTION public.guard_template_status()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status IS DISTINCT FROM OLD.status
+        AND current_setting('app.template_status_change', true) IS DISTINCT FROM 'on' THEN
+        RAISE EXCEPTION 'Template status changes go through set_template_status'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF OLD.status = 'approved' AND NEW.status = 'approved'
+        AND (NEW.elements IS DISTINCT FROM OLD.elements
+            OR NEW.canvas_size IS DISTINCT FROM OLD.canvas_size
+            OR NEW.background_color IS DISTINCT FROM OLD.background_color) THEN
+        NEW.status := 'draft';
+        NEW.status_changed_at := now();
+        NEW.status_changed_by := auth.uid();
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_templates_status ON public.templates;
+CREATE TRIGGER trg_templates_status
+    BEFORE UPDATE ON public.templates
+    FOR EACH ROW EXECUTE FUNCTION public.guard_template_status();
+
+-- Move a template through review. Editors submit and reopen; any member
+-- (clients are usually viewers) approves or sends it back with changes.
+-- Mirrors getAllowedStatusTransitions in src/lib/review/templateStatus.ts
+CREATE OR REPLACE FUNCTION public.set_template_status(template UUID, new_status TEXT)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+    current_status TEXT;
+    ws UUID;
+    member_role TEXT;
+BEGIN
+    SELECT status, workspace_id INTO current_status, ws
+    FROM public.templates
+    WHERE id = template
+    FOR UPDATE;
+
+    member_role := public.workspace_role(ws);
+    IF NOT FOUND OR member_role IS NULL THEN
+        RAISE EXCEPTION 'Template not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF current_status = new_status THEN
+        RETURN;
+    END IF;
+
+    IF NOT (
+        (current_status = 'draft' AND new_status = 'in_review' AND member_role IN ('owner', 'editor'))
+        OR (current_status = 'in_review' AND new_status IN ('approved', 'draft'))
+        OR (current_status = 'approved' AND new_status = 'draft' AND member_role IN ('owner', 'editor'))
+    ) THEN
+        RAISE EXCEPTION 'You can''t move this template from % to %', current_status, new_status
+            USING ERRCODE = '42501';
+    END IF;
+
+    PERFORM set_config('app.template_status_change', 'on', true);
+    UPDATE public.templates
+    SET status = new_status, status_changed_at = now(), status_changed_by = auth.uid()
+    WHERE id = template;
+    PERFORM set_config('app.template_status_change', 'off', true);
+END;
+$$;
+
+-- ─────────────────────────────────────────────
+-- Comments
+-- ─────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.comments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- Exactly one of template_id / pin_id
+    template_id UUID REFERENCES public.templates(id) ON DELETE CASCADE,
+    pin_id UUID REFERENCES public.generated_pins(id) ON DELETE CASCADE,
+    -- Filled from the template or pin, for access checks and per-campaign counts
+    workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+    campaign_id UUID REFERENCES public.campaigns(id) ON DELETE CASCADE,
+    author_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    -- Replies point at the first comment of their thread
+    parent_id UUID REFERENCES public.comments(id) ON DELETE CASCADE,
+    body TEXT NOT NULL CHECK (char_length(btrim(body)) BETWEEN 1 AND 2000),
+    -- Template threads only: canvas coordinates, relative to element_id's
+    -- top-left corner when the comment is pinned to an element
+    element_id TEXT,
+    anchor_x NUMERIC,
+    anchor_y NUMERIC,
+    resolved_at TIMESTAMPTZ,
+    resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    CONSTRAINT comments_one_target CHECK ((template_id IS NULL) <> (pin_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_comments_template ON public.comments(template_id, created_at) WHERE template_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_comments_pin ON public.comments(pin_id, created_at) WHERE pin_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_comments_campaign ON public.comments(campaign_id) WHERE campaign_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_comments_parent ON public.comments(parent_id) WHERE parent_id IS NOT NULL;
+
+-- Take the workspace (and campaign) from the target so clients can't file
+-- comments elsewhere; replies stay on their thread's target
+CREATE OR REPLACE FUNCTION public.set_comment_target()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+    thread public.comments%ROWTYPE;
+BEGIN
+    IF NEW.parent_id IS NOT NULL THEN
+        SELECT * INTO thread FROM public.comments WHERE id = NEW.parent_id;
+        IF NOT FOUND OR thread.parent_id IS NOT NULL THEN
+            RAISE EXCEPTION 'Replies go on the first comment of a thread' USING ERRCODE = '23514';
+        END IF;
+        NEW.template_id := thread.template_id;
+        NEW.pin_id := thread.pin_id;
+        NEW.element_id := NULL;
+        NEW.anchor_x := NULL;
+        NEW.anchor_y := NULL;
+    END IF;
+
+    IF NEW.template_id IS NOT NULL THEN
+        SELECT workspace_id INTO NEW.workspace_id FROM public.templates WHERE id = NEW.template_id;
+        NEW.campaign_id := NULL;
+    ELSE
+        SELECT c.workspace_id, c.id INTO NEW.workspace_id, NEW.campaign_id
+        FROM public.generated_pins p
+        JOIN public.campaigns c ON c.id = p.campaign_id
+        WHERE p.id = NEW.pin_id;
+        NEW.element_id := NULL;
+        NEW.anchor_x := NULL;
+        NEW.anchor_y := NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_comments_target ON public.comments;
+CREATE TRIGGER trg_comments_target
+    BEFORE INSERT ON public.comments
+    FOR EACH ROW EXECUTE FUNCTION public.set_comment_target();
+
+-- ─────────────────────────────────────────────
+-- RLS
+-- Every member (viewers included) reads, comments and resolves; authors
+-- and workspace owners delete
+-- ─────────────────────────────────────────────
+
+ALTER TABLE public.comments ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Members can read comments in their workspaces
+CREATE POLICY "Members can view comments"
+    ON public.comments
+    FOR SELECT
+    USING (public.is_workspace_member(workspace_id));
+
+-- Policy: Members can comment as themselves
+CREATE POLICY "Members can create comments"
+    ON public.comments
+    FOR INSERT
+    WITH CHECK (auth.uid() = author_id AND public.is_workspace_member(workspace_id));
+
+-- Policy: Members can resolve and reopen threads (only those columns are granted)
+CREATE POLICY "Members can resolve comments"
+    ON public.comments
+    FOR UPDATE
+    USING (public.is_workspace_member(workspace_id))
+    WITH CHECK (public.is_workspace_member(workspace_id));
+
+-- Policy: Authors delete their comments, owners delete any
+CREATE POLICY "Authors can delete comments"
+    ON public.comments
+    FOR DELETE
+    USING (auth.uid() = author_id OR public.workspace_role(workspace_id) = 'owner');
+
+GRANT SELECT, INSERT, DELETE ON public.comments TO authenticated;
+GRANT UPDATE (resolved_at, resolved_by) ON public.comments TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_template_status(UUID, TEXT) TO authenticated;
+
+-- Add comment for documentation
+COMMENT ON COLUMN public.templates.status IS 'Review status: draft, in_review or approved (only approved templates start campaigns)';
+COMMENT ON TABLE public.comments IS 'Review comments pinned on templates and threaded on generated pins';
@@ -0,0 +1,66 @@
+-- ============================================
+-- Private Collaboration Channels
+-- Purpose: Live editing channels (template-collab-<template id>) were public
+-- broadcast channels, so anyone with the anon key and a template id could
+-- read full designs and inject operations. They are private channels now and
+-- Realtime checks these policies when a client joins: workspace members may
+-- listen and share presence, only owners and editors may broadcast.
+-- ============================================
+
+-- Template a collaboration topic belongs to, NULL for any other topic
+CREATE OR REPLACE FUNCTION public.collab_topic_template_id(topic TEXT)
+RETURNS UUID
+LANGUAGE sql IMMUTABLE AS $$
+    SELECT CASE
+        WHEN topic ~ '^template-collab-[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$'
+        THEN substring(topic FROM 17)::UUID
+    END;
+$$;
+
+-- Role of the current user in the workspace of a collaboration topic's template
+CREATE OR REPLACE FUNCTION public.collab_topic_role(topic TEXT)
+RETURNS TEXT
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+    SELECT public.workspace_role(t.workspace_id)
+    FROM public.templates t
+    WHERE t.id = public.collab_topic_template_id(topic);
+$$;
+
+-- Policy: Workspace members receive the template's broadcasts and presence
+DROP POLICY IF EXISTS "Members can receive template collaboration" ON realtime.messages;
+CREATE POLICY "Members can receive template collaboration"
+    ON realtime.messages
+    FOR SELECT
+    TO authenticated
+    USING (
+        realtime.messages.extension IN ('broadcast', 'presence')
+        AND public.collab_topic_role(realtime.topic()) IS NOT NULL
+    );
+
+-- Policy: Workspace members share presence (viewers show up as followers)
+DROP POLICY IF EXISTS "Members can share template presence" ON realtime.messages;
+CREATE POLICY "Members can share template presence"
+    ON realtime.messages
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        realtime.messages.extension = 'presence'
+        AND public.collab_topic_role(realtime.topic()) IS NOT NULL
+    );
+
+-- Policy: Only owners and editors broadcast operations, syncs and saves
+DROP POLICY IF EXISTS "Editors can broadcast template changes" ON realtime.messages;
+CREATE POLICY "Editors can broadcast template changes"
+    ON realtime.messages
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        realtime.messages.extension = 'broadcast'
+        AND public.collab_topic_role(realtime.topic()) IN ('owner', 'editor')
+    );
+
+GRANT EXECUTE ON FUNCTION public.collab_topic_template_id(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.collab_topic_role(TEXT) TO authenticated;
+
+-- Add comment for documentation
+COMMENT ON FUNCTION public.collab_topic_role(TEXT) IS 'Workspace role of the current user for a template-collab-<id> Realtime topic';
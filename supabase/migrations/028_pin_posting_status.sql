@@ -0,0 +1,14 @@
+-- Migration: Add 'posting' status to generated_pins
+-- Purpose: The publisher claims a pin before sending it to Pinterest. If the
+-- result can't be saved afterwards the pin stays 'posting', and later runs
+-- skip it instead of posting it a second time.
+
+-- First, drop the existing constraint
+ALTER TABLE public.generated_pins DROP CONSTRAINT IF EXISTS generated_pins_status_check;
+
+-- Then, add a new constraint that includes 'posting'
+ALTER TABLE public.generated_pins ADD CONSTRAINT generated_pins_status_check
+    CHECK (status IN ('generated', 'posting', 'posted', 'failed'));
+
+-- Update comment
+COMMENT ON COLUMN public.generated_pins.status IS 'Status can be: generated, posting (sent to Pinterest, result not saved yet), posted, failed';
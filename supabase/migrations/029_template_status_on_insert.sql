@@ -0,0 +1,43 @@
+-- ============================================
+-- Template Status on Insert
+-- Purpose: trg_templates_status only ran on UPDATE, so an editor could insert
+-- a template that was already approved (or in review) and skip the client's
+-- sign-off. New templates now always start as drafts; only code running with
+-- app.template_status_change on may insert another status.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.guard_template_status()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        IF current_setting('app.template_status_change', true) IS DISTINCT FROM 'on' THEN
+            NEW.status := 'draft';
+            NEW.status_changed_at := NULL;
+            NEW.status_changed_by := NULL;
+        END IF;
+        RETURN NEW;
+    END IF;
+
+    IF NEW.status IS DISTINCT FROM OLD.status
+        AND current_setting('app.template_status_change', true) IS DISTINCT FROM 'on' THEN
+        RAISE EXCEPTION 'Template status changes go through set_template_status'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF OLD.status = 'approved' AND NEW.status = 'approved'
+        AND (NEW.elements IS DISTINCT FROM OLD.elements
+            OR NEW.canvas_size IS DISTINCT FROM OLD.canvas_size
+            OR NEW.background_color IS DISTINCT FROM OLD.background_color) THEN
+        NEW.status := 'draft';
+        NEW.status_changed_at := now();
+        NEW.status_changed_by := auth.uid();
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_templates_status ON public.templates;
+CREATE TRIGGER trg_templates_status
+    BEFORE INSERT OR UPDATE ON public.templates
+    FOR EACH ROW EXECUTE FUNCTION public.guard_template_status();
@@ -0,0 +1,12 @@
+-- ============================================
+-- Workspace Update Columns
+-- Purpose: Owners could update every workspace column, so they could clear
+-- is_personal (and then delete or share their personal workspace) or mark a
+-- team workspace personal. Renaming is the only update the app makes, so
+-- that's all authenticated users may write now. The existing owner-only
+-- policy still decides whose rows they are.
+-- ============================================
+
+REVOKE UPDATE ON public.workspaces FROM authenticated;
+GRANT UPDATE (name, updated_at) ON public.workspaces TO authenticated;
+
@@ -0,0 +1,33 @@
+-- ============================================
+-- Campaigns From Approved Templates
+-- Purpose: Only the client checked that a new campaign's templates were
+-- approved, so an editor could insert a campaign from a draft straight
+-- through the API. The insert policy now requires every template the
+-- campaign uses (template_id and template_ids) to be approved.
+-- ============================================
+
+-- True when every given template exists, is visible to the caller and is approved
+CREATE OR REPLACE FUNCTION public.templates_approved(ids UUID[])
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SET search_path = public AS $$
+    SELECT cardinality(ids) > 0 AND NOT EXISTS (
+        SELECT 1 FROM unnest(ids) AS t(id)
+        WHERE NOT EXISTS (
+            SELECT 1 FROM public.templates
+            WHERE templates.id = t.id AND templates.status = 'approved'
+        )
+    );
+$$;
+
+DROP POLICY IF EXISTS "Editors can create workspace campaigns" ON public.campaigns;
+
+CREATE POLICY "Editors can create workspace campaigns"
+    ON public.campaigns
+    FOR INSERT
+    WITH CHECK (
+        auth.uid() = user_id
+        AND public.can_edit_workspace(workspace_id)
+        AND public.templates_approved(
+            array_remove(array_append(COALESCE(template_ids, '{}'), template_id), NULL)
+        )
+    );
@@ -0,0 +1,202 @@
+-- ============================================
+-- Template Status Tests
+-- Checks the review rules in set_template_status (mirrored by
+-- getAllowedStatusTransitions in src/lib/review/templateStatus.ts), that
+-- editors can't set a status by writing the column and that campaigns only
+-- start from approved templates. Run with: supabase test db
+-- ============================================
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(7);
+
+-- ─────────────────────────────────────────────
+-- Fixtures: a team workspace with an owner, an editor and a viewer
+-- ─────────────────────────────────────────────
+
+INSERT INTO auth.users (id, email) VALUES
+    ('00000000-0000-0000-0000-00000000000a', 'owner@example.com'),
+    ('00000000-0000-0000-0000-00000000000b', 'editor@example.com'),
+    ('00000000-0000-0000-0000-00000000000c', 'viewer@example.com');
+
+INSERT INTO public.workspaces (id, name, owner_id) VALUES
+    ('00000000-0000-0000-0000-0000000000f1', 'Team', '00000000-0000-0000-0000-00000000000a');
+
+INSERT INTO public.workspace_members (workspace_id, user_id, role) VALUES
+    ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000b', 'editor'),
+    ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000c', 'viewer');
+
+INSERT INTO public.templates (id, user_id, workspace_id, name, short_id) VALUES
+    ('00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-00000000000a',
+     '00000000-0000-0000-0000-0000000000f1', 'Matrix', 'TMPL-MATRIX01');
+
+CREATE FUNCTION pg_temp.act_as(uid UUID)
+RETURNS VOID
+LANGUAGE plpgsql AS $$
+BEGIN
+    PERFORM set_config('request.jwt.claims', json_build_object('sub', uid, 'role', 'authenticated')::text, true);
+    SET LOCAL ROLE authenticated;
+END;
+$$;
+
+-- Puts the matrix template in from_status, has uid ask for to_status and
+-- reports whether the template ended up there
+CREATE FUNCTION pg_temp.try_status(uid UUID, from_status TEXT, to_status TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql AS $$
+DECLARE
+    result TEXT;
+BEGIN
+    PERFORM set_config('app.template_status_change', 'on', true);
+    UPDATE public.templates SET status = from_status WHERE id = '00000000-0000-0000-0000-0000000000e1';
+    PERFORM set_config('app.template_status_change', 'off', true);
+
+    PERFORM pg_temp.act_as(uid);
+    BEGIN
+        PERFORM public.set_template_status('00000000-0000-0000-0000-0000000000e1', to_status);
+    EXCEPTION WHEN insufficient_privilege THEN
+        NULL;
+    END;
+    RESET ROLE;
+
+    SELECT status INTO result FROM public.templates WHERE id = '00000000-0000-0000-0000-0000000000e1';
+    RETURN result = to_status;
+END;
+$$;
+
+-- ─────────────────────────────────────────────
+-- Transition matrix
+-- ─────────────────────────────────────────────
+
+SELECT results_eq(
+    $$
+    SELECT who, from_status, to_status,
+        pg_temp.try_status(uid, from_status, to_status) AS allowed
+    FROM (VALUES
+        ('owner', '00000000-0000-0000-0000-00000000000a'::UUID),
+        ('editor', '00000000-0000-0000-0000-00000000000b'::UUID),
+        ('viewer', '00000000-0000-0000-0000-00000000000c'::UUID)
+    ) AS members(who, uid)
+    CROSS JOIN (VALUES
+        ('draft', 'in_review'), ('draft', 'approved'),
+        ('in_review', 'draft'), ('in_review', 'approved'),
+        ('approved', 'draft'), ('approved', 'in_review')
+    ) AS moves(from_status, to_status)
+    ORDER BY who, from_status, to_status
+    $$,
+    $$
+    VALUES
+        ('editor', 'approved', 'draft', TRUE),
+        ('editor', 'approved', 'in_review', FALSE),
+        ('editor', 'draft', 'approved', FALSE),
+        ('editor', 'draft', 'in_review', TRUE),
+        ('editor', 'in_review', 'approved', TRUE),
+        ('editor', 'in_review', 'draft', TRUE),
+        ('owner', 'approved', 'draft', TRUE),
+        ('owner', 'approved', 'in_review', FALSE),
+        ('owner', 'draft', 'approved', FALSE),
+        ('owner', 'draft', 'in_review', TRUE),
+        ('owner', 'in_review', 'approved', TRUE),
+        ('owner', 'in_review', 'draft', TRUE),
+        ('viewer', 'approved', 'draft', FALSE),
+        ('viewer', 'approved', 'in_review', FALSE),
+        ('viewer', 'draft', 'approved', FALSE),
+        ('viewer', 'draft', 'in_review', FALSE),
+        ('viewer', 'in_review', 'approved', TRUE),
+        ('viewer', 'in_review', 'draft', TRUE)
+    $$,
+    'set_template_status allows exactly the review transitions for each role'
+);
+
+-- ─────────────────────────────────────────────
+-- Writing the column directly
+-- ─────────────────────────────────────────────
+
+SELECT pg_temp.act_as('00000000-0000-0000-0000-00000000000b');
+
+INSERT INTO public.templates (id, user_id, workspace_id, name, short_id, status, status_changed_by) VALUES
+    ('00000000-0000-0000-0000-0000000000e2', '00000000-0000-0000-0000-00000000000b',
+     '00000000-0000-0000-0000-0000000000f1', 'Sneaky', 'TMPL-SNEAKY01', 'approved',
+     '00000000-0000-0000-0000-00000000000b');
+
+SELECT is(
+    (SELECT status FROM public.templates WHERE id = '00000000-0000-0000-0000-0000000000e2'),
+    'draft',
+    'a template inserted as approved starts as a draft'
+);
+
+SELECT is(
+    (SELECT status_changed_by FROM public.templates WHERE id = '00000000-0000-0000-0000-0000000000e2'),
+    NULL,
+    'an inserted template has no status change recorded'
+);
+
+SELECT throws_ok(
+    $$ UPDATE public.templates SET status = 'approved' WHERE id = '00000000-0000-0000-0000-0000000000e2' $$,
+    '42501',
+    'Template status changes go through set_template_status',
+    'editors can''t approve a template by updating it'
+);
+
+RESET ROLE;
+
+-- An approved template goes back to draft when its design changes
+DO $$
+BEGIN
+    PERFORM set_config('app.template_status_change', 'on', true);
+    UPDATE public.templates SET status = 'approved' WHERE id = '00000000-0000-0000-0000-0000000000e2';
+    PERFORM set_config('app.template_status_change', 'off', true);
+END;
+$$;
+
+SELECT pg_temp.act_as('00000000-0000-0000-0000-00000000000b');
+UPDATE public.templates SET background_color = '#000000' WHERE id = '00000000-0000-0000-0000-0000000000e2';
+RESET ROLE;
+
+SELECT is(
+    (SELECT status FROM public.templates WHERE id = '00000000-0000-0000-0000-0000000000e2'),
+    'draft',
+    'editing an approved design reopens it as a draft'
+);
+
+-- ─────────────────────────────────────────────
+-- Campaigns need approved templates
+-- ─────────────────────────────────────────────
+
+-- Approve the matrix template; the sneaky one is back to a draft
+DO $$
+BEGIN
+    PERFORM set_config('app.template_status_change', 'on', true);
+    UPDATE public.templates SET status = 'approved' WHERE id = '00000000-0000-0000-0000-0000000000e1';
+    PERFORM set_config('app.template_status_change', 'off', true);
+END;
+$$;
+
+SELECT pg_temp.act_as('00000000-0000-0000-0000-00000000000b');
+
+SELECT throws_ok(
+    $$ INSERT INTO public.campaigns (user_id, workspace_id, template_id, template_ids, name, csv_data, field_mapping, total_pins)
+       VALUES ('00000000-0000-0000-0000-00000000000b', '00000000-0000-0000-0000-0000000000f1',
+               '00000000-0000-0000-0000-0000000000e1',
+               ARRAY['00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-0000000000e2']::UUID[],
+               'Draft launch', '[]', '{}', 0) $$,
+    '42501',
+    NULL,
+    'editors can''t create a campaign that uses a draft template'
+);
+
+SELECT lives_ok(
+    $$ INSERT INTO public.campaigns (user_id, workspace_id, template_id, template_ids, name, csv_data, field_mapping, total_pins)
+       VALUES ('00000000-0000-0000-0000-00000000000b', '00000000-0000-0000-0000-0000000000f1',
+               '00000000-0000-0000-0000-0000000000e1', ARRAY['00000000-0000-0000-0000-0000000000e1']::UUID[],
+               'Approved launch', '[]', '{}', 0) $$,
+    'editors can create a campaign from an approved template'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+
+ROLLBACK;